@@ -5,7 +5,8 @@ import {batchActions} from 'redux-batched-actions';
 
 import {PreferenceTypes} from 'mattermost-redux/action_types';
 import * as ChannelActions from 'mattermost-redux/actions/channels';
-import {savePreferences} from 'mattermost-redux/actions/preferences';
+import {deletePreferences, savePreferences} from 'mattermost-redux/actions/preferences';
+import {Preferences as PreferencesRedux} from 'mattermost-redux/constants';
 import {getMyChannelMemberships} from 'mattermost-redux/selectors/entities/common';
 import {getChannelByName, getUnreadChannelIds, getChannel} from 'mattermost-redux/selectors/entities/channels';
 import {getCurrentTeamUrl, getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
@@ -13,6 +14,7 @@ import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
 
 import {trackEvent} from 'actions/telemetry_actions.jsx';
 import {loadNewDMIfNeeded, loadNewGMIfNeeded, loadProfilesForSidebar} from 'actions/user_actions.jsx';
+import {getChannelMuteExpiry} from 'selectors/mute_expiry';
 import {browserHistory} from 'utils/browser_history';
 import {Constants, Preferences, NotificationLevels} from 'utils/constants';
 import {getDirectChannelName} from 'utils/utils';
@@ -161,13 +163,49 @@ export function addUsersToChannel(channelId, userIds) {
 }
 
 export function unmuteChannel(userId, channelId) {
-    return ChannelActions.updateChannelNotifyProps(userId, channelId, {
-        mark_unread: NotificationLevels.ALL,
-    });
+    return async (dispatch) => {
+        const result = await dispatch(ChannelActions.updateChannelNotifyProps(userId, channelId, {
+            mark_unread: NotificationLevels.ALL,
+        }));
+
+        if (!result.error) {
+            dispatch(saveChannelMuteExpiry(userId, channelId, 0));
+        }
+
+        return result;
+    };
+}
+
+// muteChannel mutes a channel until the user unmutes it or, if expiresAt is provided, until that time.
+export function muteChannel(userId, channelId, expiresAt = 0) {
+    return async (dispatch) => {
+        const result = await dispatch(ChannelActions.updateChannelNotifyProps(userId, channelId, {
+            mark_unread: NotificationLevels.MENTION,
+        }));
+
+        if (!result.error) {
+            dispatch(saveChannelMuteExpiry(userId, channelId, expiresAt));
+        }
+
+        return result;
+    };
 }
 
-export function muteChannel(userId, channelId) {
-    return ChannelActions.updateChannelNotifyProps(userId, channelId, {
-        mark_unread: NotificationLevels.MENTION,
-    });
+function saveChannelMuteExpiry(userId, channelId, expiresAt) {
+    return (dispatch, getState) => {
+        const preference = {
+            user_id: userId,
+            category: PreferencesRedux.CATEGORY_CHANNEL_MUTE_EXPIRY,
+            name: channelId,
+            value: String(expiresAt),
+        };
+
+        if (expiresAt) {
+            return dispatch(savePreferences(userId, [preference]));
+        } else if (getChannelMuteExpiry(getState(), channelId)) {
+            return dispatch(deletePreferences(userId, [preference]));
+        }
+
+        return {data: true};
+    };
 }
@@ -25,6 +25,7 @@ import {Team} from 'mattermost-redux/types/teams';
 import {calculateUnreadCount} from 'mattermost-redux/utils/channel_utils';
 
 import {browserHistory} from 'utils/browser_history';
+import {clearAllNotifications} from 'actions/notification_actions.jsx';
 import {handleNewPost} from 'actions/post_actions.jsx';
 import {stopPeriodicStatusUpdates} from 'actions/status_actions.jsx';
 import {loadProfilesForSidebar} from 'actions/user_actions.jsx';
@@ -234,6 +235,7 @@ export function emitUserLoggedOutEvent(redirectTo = '/', shouldSignalLogout = tr
 
         BrowserStore.clear();
         stopPeriodicStatusUpdates();
+        clearAllNotifications();
         WebsocketActions.close();
 
         clearUserCookie();
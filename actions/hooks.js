@@ -89,3 +89,107 @@ export function runMessageWillBeUpdatedHooks(newPost, oldPost) {
         return {data: post};
     };
 }
+
+// runMessageWillBeReceivedHooks passes a post received from the server through the hooks of plugins before it's stored.
+// Hooks run synchronously so that posts are still stored in the order that they arrive. The result has no data when
+// a hook hid the post.
+export function runMessageWillBeReceivedHooks(originalPost) {
+    return (dispatch, getState) => {
+        const hooks = getState().plugins.components.MessageWillBeReceived;
+        if (!hooks || hooks.length === 0) {
+            return {data: originalPost};
+        }
+
+        let post = originalPost;
+
+        for (const hook of hooks) {
+            const result = hook.hook(post);
+
+            if (result) {
+                if (result.hide) {
+                    return {data: null};
+                }
+
+                if (result.post) {
+                    post = result.post;
+                }
+            }
+        }
+
+        return {data: post};
+    };
+}
+
+// runReactionWillBeAddedHooks passes a reaction received from the server through the hooks of plugins before it's
+// stored in the same way as runMessageWillBeReceivedHooks.
+export function runReactionWillBeAddedHooks(originalReaction) {
+    return (dispatch, getState) => {
+        const hooks = getState().plugins.components.ReactionWillBeAdded;
+        if (!hooks || hooks.length === 0) {
+            return {data: originalReaction};
+        }
+
+        let reaction = originalReaction;
+
+        for (const hook of hooks) {
+            const result = hook.hook(reaction);
+
+            if (result) {
+                if (result.hide) {
+                    return {data: null};
+                }
+
+                if (result.reaction) {
+                    reaction = result.reaction;
+                }
+            }
+        }
+
+        return {data: reaction};
+    };
+}
+
+// runPostListWillBeReceivedHooks passes a list of posts loaded from the server, and the reactions in their metadata,
+// through the same hooks as posts and reactions received over the WebSocket. The posts of the list may be either an
+// array or a map from ID to post. Hidden posts are left out of the list so that any version of them which is already
+// stored is kept.
+export function runPostListWillBeReceivedHooks(originalPosts) {
+    return (dispatch, getState) => {
+        const {MessageWillBeReceived, ReactionWillBeAdded} = getState().plugins.components;
+        if (!MessageWillBeReceived?.length && !ReactionWillBeAdded?.length) {
+            return {data: originalPosts};
+        }
+
+        const runHooks = (originalPost) => {
+            const {data: post} = dispatch(runMessageWillBeReceivedHooks(originalPost));
+            if (!post || !post.metadata?.reactions?.length) {
+                return post;
+            }
+
+            const reactions = post.metadata.reactions.
+                map((reaction) => dispatch(runReactionWillBeAddedHooks(reaction)).data).
+                filter(Boolean);
+
+            return {...post, metadata: {...post.metadata, reactions}};
+        };
+
+        if (Array.isArray(originalPosts.posts)) {
+            return {data: {...originalPosts, posts: originalPosts.posts.map(runHooks).filter(Boolean)}};
+        }
+
+        const posts = {};
+        for (const [id, originalPost] of Object.entries(originalPosts.posts)) {
+            const post = runHooks(originalPost);
+            if (post) {
+                posts[id] = post;
+            }
+        }
+
+        const list = {...originalPosts, posts};
+        if (originalPosts.order) {
+            list.order = originalPosts.order.filter((id) => posts[id]);
+        }
+
+        return {data: list};
+    };
+}
@@ -4,7 +4,14 @@
 import configureStore from 'redux-mock-store';
 import thunk from 'redux-thunk';
 
-import {runMessageWillBePostedHooks, runMessageWillBeUpdatedHooks, runSlashCommandWillBePostedHooks} from './hooks';
+import {
+    runMessageWillBePostedHooks,
+    runMessageWillBeReceivedHooks,
+    runMessageWillBeUpdatedHooks,
+    runPostListWillBeReceivedHooks,
+    runReactionWillBeAddedHooks,
+    runSlashCommandWillBePostedHooks,
+} from './hooks';
 
 const mockStore = configureStore([thunk]);
 
@@ -496,3 +503,188 @@ describe('runMessageWillBeUpdatedHooks', () => {
         expect(hook2).toHaveBeenCalledWith(newPost, oldPost);
     });
 });
+
+describe('runMessageWillBeReceivedHooks', () => {
+    test('should do nothing when no hooks are registered', () => {
+        const store = mockStore({
+            plugins: {
+                components: {},
+            },
+        });
+        const post = {message: 'test'};
+
+        const result = store.dispatch(runMessageWillBeReceivedHooks(post));
+
+        expect(result).toEqual({data: post});
+    });
+
+    test('should pass the result of each hook to the next', () => {
+        const hook1 = jest.fn((post) => ({post: {...post, message: post.message + 'a'}}));
+        const hook2 = jest.fn();
+        const hook3 = jest.fn((post) => ({post: {...post, props: {translated: true}}}));
+
+        const store = mockStore({
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [
+                        {hook: hook1},
+                        {hook: hook2},
+                        {hook: hook3},
+                    ],
+                },
+            },
+        });
+        const post = {message: 'test'};
+
+        const result = store.dispatch(runMessageWillBeReceivedHooks(post));
+
+        expect(result).toEqual({data: {message: 'testa', props: {translated: true}}});
+        expect(hook2).toHaveBeenCalledWith({message: 'testa'});
+    });
+
+    test('should return no post when a hook hides it', () => {
+        const hook1 = jest.fn(() => ({hide: true}));
+        const hook2 = jest.fn((post) => ({post}));
+
+        const store = mockStore({
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [
+                        {hook: hook1},
+                        {hook: hook2},
+                    ],
+                },
+            },
+        });
+
+        const result = store.dispatch(runMessageWillBeReceivedHooks({message: 'test'}));
+
+        expect(result).toEqual({data: null});
+        expect(hook2).not.toHaveBeenCalled();
+    });
+
+    test('should keep the post when a hook returns no post', () => {
+        const store = mockStore({
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [
+                        {hook: () => ({})},
+                    ],
+                },
+            },
+        });
+        const post = {message: 'test'};
+
+        const result = store.dispatch(runMessageWillBeReceivedHooks(post));
+
+        expect(result).toEqual({data: post});
+    });
+});
+
+describe('runReactionWillBeAddedHooks', () => {
+    test('should pass the reaction through every hook', () => {
+        const hook1 = jest.fn((reaction) => ({reaction: {...reaction, emoji_name: 'thumbsup'}}));
+        const hook2 = jest.fn((reaction) => ({reaction}));
+
+        const store = mockStore({
+            plugins: {
+                components: {
+                    ReactionWillBeAdded: [
+                        {hook: hook1},
+                        {hook: hook2},
+                    ],
+                },
+            },
+        });
+        const reaction = {post_id: 'post1', user_id: 'user1', emoji_name: '+1'};
+
+        const result = store.dispatch(runReactionWillBeAddedHooks(reaction));
+
+        expect(result).toEqual({data: {...reaction, emoji_name: 'thumbsup'}});
+        expect(hook2).toHaveBeenCalledWith({...reaction, emoji_name: 'thumbsup'});
+    });
+
+    test('should return no reaction when a hook hides it', () => {
+        const store = mockStore({
+            plugins: {
+                components: {
+                    ReactionWillBeAdded: [
+                        {hook: () => ({hide: true})},
+                    ],
+                },
+            },
+        });
+
+        const result = store.dispatch(runReactionWillBeAddedHooks({post_id: 'post1', user_id: 'user1', emoji_name: '+1'}));
+
+        expect(result).toEqual({data: null});
+    });
+});
+
+describe('runPostListWillBeReceivedHooks', () => {
+    test('should do nothing when no hooks are registered', () => {
+        const store = mockStore({
+            plugins: {
+                components: {},
+            },
+        });
+        const posts = {order: ['post1'], posts: {post1: {id: 'post1', message: 'test'}}};
+
+        const result = store.dispatch(runPostListWillBeReceivedHooks(posts));
+
+        expect(result).toEqual({data: posts});
+    });
+
+    test('should pass each post and its reactions through the hooks and leave out hidden posts', () => {
+        const store = mockStore({
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [
+                        {hook: (post) => (post.id === 'post2' ? {hide: true} : {post: {...post, message: 'translated'}})},
+                    ],
+                    ReactionWillBeAdded: [
+                        {hook: (reaction) => (reaction.emoji_name === 'bad' ? {hide: true} : {reaction})},
+                    ],
+                },
+            },
+        });
+        const reaction = {post_id: 'post1', user_id: 'user1', emoji_name: '+1'};
+        const posts = {
+            order: ['post2', 'post1'],
+            posts: {
+                post1: {id: 'post1', message: 'test', metadata: {reactions: [reaction, {...reaction, emoji_name: 'bad'}]}},
+                post2: {id: 'post2', message: 'test'},
+            },
+            prev_post_id: 'post0',
+        };
+
+        const result = store.dispatch(runPostListWillBeReceivedHooks(posts));
+
+        expect(result).toEqual({
+            data: {
+                order: ['post1'],
+                posts: {
+                    post1: {id: 'post1', message: 'translated', metadata: {reactions: [reaction]}},
+                },
+                prev_post_id: 'post0',
+            },
+        });
+    });
+
+    test('should pass posts given as an array through the hooks', () => {
+        const store = mockStore({
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [
+                        {hook: (post) => (post.id === 'post2' ? {hide: true} : {})},
+                    ],
+                },
+            },
+        });
+        const post = {id: 'post1', message: 'test'};
+
+        const result = store.dispatch(runPostListWillBeReceivedHooks({posts: [post, {id: 'post2', message: 'test'}]}));
+
+        expect(result).toEqual({data: {posts: [post]}});
+    });
+});
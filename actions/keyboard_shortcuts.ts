@@ -0,0 +1,23 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {savePreferences} from 'mattermost-redux/actions/preferences';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
+import {DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+
+import {Preferences} from 'utils/constants';
+
+import type {ShortcutOverrides} from 'types/store/keyboard_shortcuts';
+
+export function saveShortcutOverrides(overrides: ShortcutOverrides) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        return dispatch(savePreferences(currentUserId, [{
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_ADVANCED_SETTINGS,
+            name: Preferences.KEYBOARD_SHORTCUTS,
+            value: JSON.stringify(overrides),
+        }]));
+    };
+}
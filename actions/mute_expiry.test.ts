@@ -0,0 +1,125 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import {setCategoryMuted} from 'mattermost-redux/actions/channel_categories';
+import {deletePreferences} from 'mattermost-redux/actions/preferences';
+import {Preferences} from 'mattermost-redux/constants';
+import {DispatchFunc} from 'mattermost-redux/types/actions';
+
+import {unmuteChannel} from 'actions/channel_actions';
+import {GlobalState} from 'types/store';
+
+import {expireMutes} from './mute_expiry';
+
+jest.mock('mattermost-redux/actions/channel_categories', () => ({
+    setCategoryMuted: jest.fn(() => ({type: 'MOCK_SET_CATEGORY_MUTED'})),
+}));
+
+jest.mock('mattermost-redux/actions/preferences', () => ({
+    deletePreferences: jest.fn(() => ({type: 'MOCK_DELETE_PREFERENCES'})),
+}));
+
+jest.mock('actions/channel_actions', () => ({
+    unmuteChannel: jest.fn(() => ({type: 'MOCK_UNMUTE_CHANNEL'})),
+}));
+
+const mockStore = configureStore<GlobalState, DispatchFunc>([thunk]);
+
+describe('actions/mute_expiry', () => {
+    const now = Date.now();
+
+    function expiry(category: string, name: string, expiresAt: number) {
+        return {
+            [`${category}--${name}`]: {category, name, value: String(expiresAt)},
+        };
+    }
+
+    function makeStore(myPreferences: Record<string, any>) {
+        return mockStore({
+            entities: {
+                users: {
+                    currentUserId: 'user1',
+                },
+                preferences: {
+                    myPreferences,
+                },
+                channels: {
+                    myMembers: {
+                        muted: {channel_id: 'muted', notify_props: {mark_unread: 'mention'}},
+                        unmuted: {channel_id: 'unmuted', notify_props: {mark_unread: 'all'}},
+                    },
+                },
+                channelCategories: {
+                    byId: {
+                        mutedCategory: {id: 'mutedCategory', muted: true},
+                        unmutedCategory: {id: 'unmutedCategory', muted: false},
+                    },
+                },
+            },
+        } as unknown as GlobalState);
+    }
+
+    beforeEach(() => {
+        (setCategoryMuted as jest.Mock).mockClear();
+        (deletePreferences as jest.Mock).mockClear();
+        (unmuteChannel as jest.Mock).mockClear();
+    });
+
+    test('should unmute channels and categories whose mute has expired', async () => {
+        const store = makeStore({
+            ...expiry(Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY, 'muted', now - 1000),
+            ...expiry(Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY, 'mutedCategory', now - 1000),
+        });
+
+        await store.dispatch(expireMutes());
+
+        expect(unmuteChannel).toHaveBeenCalledWith('user1', 'muted');
+        expect(setCategoryMuted).toHaveBeenCalledWith('mutedCategory', false);
+        expect(deletePreferences).not.toHaveBeenCalled();
+    });
+
+    test('should not unmute anything before its mute expires', async () => {
+        const store = makeStore({
+            ...expiry(Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY, 'muted', now + 60000),
+            ...expiry(Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY, 'mutedCategory', now + 60000),
+        });
+
+        await store.dispatch(expireMutes());
+
+        expect(unmuteChannel).not.toHaveBeenCalled();
+        expect(setCategoryMuted).not.toHaveBeenCalled();
+        expect(deletePreferences).not.toHaveBeenCalled();
+    });
+
+    test('should remove the expiry for channels and categories which were already unmuted', async () => {
+        const store = makeStore({
+            ...expiry(Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY, 'unmuted', now + 60000),
+            ...expiry(Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY, 'unmutedCategory', now - 1000),
+        });
+
+        await store.dispatch(expireMutes());
+
+        expect(unmuteChannel).not.toHaveBeenCalled();
+        expect(setCategoryMuted).not.toHaveBeenCalled();
+        expect(deletePreferences).toHaveBeenCalledWith('user1', [
+            expect.objectContaining({category: Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY, name: 'unmuted'}),
+            expect.objectContaining({category: Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY, name: 'unmutedCategory'}),
+        ]);
+    });
+
+    test('should skip channels and categories which are not loaded', async () => {
+        const store = makeStore({
+            ...expiry(Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY, 'otherTeamChannel', now - 1000),
+            ...expiry(Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY, 'otherTeamCategory', now - 1000),
+        });
+
+        await store.dispatch(expireMutes());
+
+        expect(unmuteChannel).not.toHaveBeenCalled();
+        expect(setCategoryMuted).not.toHaveBeenCalled();
+        expect(deletePreferences).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,67 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {setCategoryMuted} from 'mattermost-redux/actions/channel_categories';
+import {deletePreferences} from 'mattermost-redux/actions/preferences';
+import {Preferences} from 'mattermost-redux/constants';
+import {getAllCategoriesByIds} from 'mattermost-redux/selectors/entities/channel_categories';
+import {getMyChannelMemberships} from 'mattermost-redux/selectors/entities/common';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
+import {DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+import {PreferenceType} from 'mattermost-redux/types/preferences';
+import {isChannelMuted} from 'mattermost-redux/utils/channel_utils';
+
+import {unmuteChannel} from 'actions/channel_actions';
+import {getCategoryMuteExpiries, getChannelMuteExpiries} from 'selectors/mute_expiry';
+
+import type {GlobalState} from 'types/store';
+
+// expireMutes unmutes any channels and categories whose mute has expired. Since the expiries are stored as preferences,
+// this also catches up on the ones which lapsed while the app was closed. Expiries for channels and categories which
+// were already unmuted some other way are removed.
+export function expireMutes() {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+        const currentUserId = getCurrentUserId(state);
+        const myMembers = getMyChannelMemberships(state);
+        const categoriesById = getAllCategoriesByIds(state);
+        const now = Date.now();
+
+        const staleExpiries: PreferenceType[] = [];
+        const requests = [];
+
+        for (const [channelId, expiresAt] of Object.entries(getChannelMuteExpiries(state))) {
+            const member = myMembers[channelId];
+            if (!member) {
+                continue;
+            }
+
+            if (!isChannelMuted(member)) {
+                staleExpiries.push({user_id: currentUserId, category: Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY, name: channelId, value: ''});
+            } else if (expiresAt <= now) {
+                requests.push(dispatch(unmuteChannel(currentUserId, channelId)));
+            }
+        }
+
+        for (const [categoryId, expiresAt] of Object.entries(getCategoryMuteExpiries(state))) {
+            const category = categoriesById[categoryId];
+            if (!category) {
+                continue;
+            }
+
+            if (!category.muted) {
+                staleExpiries.push({user_id: currentUserId, category: Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY, name: categoryId, value: ''});
+            } else if (expiresAt <= now) {
+                requests.push(dispatch(setCategoryMuted(categoryId, false)));
+            }
+        }
+
+        if (staleExpiries.length > 0) {
+            requests.push(dispatch(deletePreferences(currentUserId, staleExpiries)));
+        }
+
+        await Promise.all(requests);
+
+        return {data: true};
+    };
+}
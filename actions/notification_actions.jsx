@@ -5,7 +5,7 @@ import semver from 'semver';
 
 import {logError} from 'mattermost-redux/actions/errors';
 import {getProfilesByIds} from 'mattermost-redux/actions/users';
-import {getCurrentChannel, getMyChannelMember, makeGetChannel} from 'mattermost-redux/selectors/entities/channels';
+import {getCurrentChannel, getCurrentChannelId, getMyChannelMember, makeGetChannel} from 'mattermost-redux/selectors/entities/channels';
 import {getConfig} from 'mattermost-redux/selectors/entities/general';
 import {getTeammateNameDisplaySetting, isCollapsedThreadsEnabled} from 'mattermost-redux/selectors/entities/preferences';
 import {getCurrentUserId, getCurrentUser, getStatusForUserId, getUser} from 'mattermost-redux/selectors/entities/users';
@@ -13,11 +13,16 @@ import {isChannelMuted} from 'mattermost-redux/utils/channel_utils';
 import {isSystemMessage} from 'mattermost-redux/utils/post_utils';
 import {displayUsername} from 'mattermost-redux/utils/user_utils';
 
+import {getCurrentUserTimezone} from 'selectors/general';
+import {getNotificationRules} from 'selectors/notification_rules';
 import {isThreadOpen} from 'selectors/views/threads';
 
 import {browserHistory} from 'utils/browser_history';
 import Constants, {NotificationLevels, UserStatuses} from 'utils/constants';
+import NotificationAggregator from 'utils/notification_aggregator';
+import {evaluateNotificationRules} from 'utils/notification_rules';
 import {showNotification} from 'utils/notifications';
+import {getCurrentMomentForTimezone} from 'utils/timezone';
 import {isDesktopApp, isMacApp, isMobileApp, isWindowsApp} from 'utils/user_agent';
 import * as Utils from 'utils/utils.jsx';
 import {t} from 'utils/i18n';
@@ -25,6 +30,22 @@ import {stripMarkdown} from 'utils/markdown';
 
 const NOTIFY_TEXT_MAX_LENGTH = 50;
 
+const notificationAggregator = new NotificationAggregator(Constants.NOTIFICATION_BATCH_WINDOW);
+
+// clearChannelNotifications closes the popup for a channel once it has been read, possibly on another device, and
+// starts counting its notifications from scratch.
+export function clearChannelNotifications(channelId, includeThreads = false) {
+    notificationAggregator.clearChannel(channelId, includeThreads);
+}
+
+export function clearThreadNotifications(rootId) {
+    notificationAggregator.clearThread(rootId);
+}
+
+export function clearAllNotifications() {
+    notificationAggregator.clearAll();
+}
+
 export function sendDesktopNotification(post, msgProps) {
     return async (dispatch, getState) => {
         const state = getState();
@@ -65,7 +86,7 @@ export function sendDesktopNotification(post, msgProps) {
         const member = getMyChannelMember(state, post.channel_id);
         const isCrtReply = isCollapsedThreadsEnabled(state) && post.root_id !== '';
 
-        if (!member || isChannelMuted(member) || userStatus === UserStatuses.DND || userStatus === UserStatuses.OUT_OF_OFFICE) {
+        if (!member || userStatus === UserStatuses.DND || userStatus === UserStatuses.OUT_OF_OFFICE) {
             return;
         }
 
@@ -75,12 +96,36 @@ export function sendDesktopNotification(post, msgProps) {
             notifyLevel = user?.notify_props?.desktop || NotificationLevels.ALL;
         }
 
-        if (notifyLevel === NotificationLevels.NONE) {
-            return;
+        let notifyByPreferences = true;
+        if (isChannelMuted(member) || notifyLevel === NotificationLevels.NONE) {
+            notifyByPreferences = false;
         } else if (notifyLevel === NotificationLevels.MENTION && mentions.indexOf(user.id) === -1 && msgProps.channel_type !== Constants.DM_CHANNEL) {
-            return;
+            notifyByPreferences = false;
         } else if (isCrtReply && notifyLevel === NotificationLevels.ALL && followers.indexOf(currentUserId) === -1) {
             // if user is not following the thread don't notify
+            notifyByPreferences = false;
+        }
+
+        //Play a sound if explicitly set in settings
+        const soundByPreferences = !user.notify_props || user.notify_props.desktop_sound === 'true';
+
+        // The user's notification rules take precedence over their notification preferences
+        const now = getCurrentMomentForTimezone(getCurrentUserTimezone(state));
+        const decision = evaluateNotificationRules(getNotificationRules(state), {
+            message: post.message,
+            authorId: post.user_id,
+            channelId: post.channel_id,
+            isThreadReply: post.root_id !== '',
+            isFollowingThread: followers.indexOf(currentUserId) !== -1,
+            day: now.day(),
+            minutes: (now.hours() * 60) + now.minutes(),
+        }, {
+            notify: notifyByPreferences,
+            sound: notifyByPreferences && soundByPreferences,
+            requireInteraction: false,
+        });
+
+        if (!decision.notify && !decision.sound) {
             return;
         }
 
@@ -153,8 +198,7 @@ export function sendDesktopNotification(post, msgProps) {
             body += `: ${strippedMarkdownNotifyText}`;
         }
 
-        //Play a sound if explicitly set in settings
-        const sound = !user.notify_props || user.notify_props.desktop_sound === 'true';
+        const {sound, requireInteraction} = decision;
 
         // Notify if you're not looking in the right channel or when
         // the window itself is not active
@@ -179,17 +223,107 @@ export function sendDesktopNotification(post, msgProps) {
                 url = Utils.getPermalinkURL(updatedState, teamId, post.id);
             }
 
-            dispatch(notifyMe(title, body, channel, teamId, !sound, soundName, url));
+            notificationAggregator.add({
+                channelId: post.channel_id,
+                rootId: isCrtReply ? post.root_id : '',
+                authorId: post.user_id,
+                username,
+                title,
+                body,
+                channel,
+                teamId,
+                url,
+                showPopup: decision.notify,
+                sound,
+                soundName,
+                requireInteraction,
+            }, (group) => dispatch(showNotificationGroup(group)));
+        }
+    };
+}
+
+// sendSavedSearchNotification tells the user about a new post matching a saved search which they've subscribed to
+export function sendSavedSearchNotification(search, post) {
+    return (dispatch, getState) => {
+        const state = getState();
+        const userStatus = getStatusForUserId(state, getCurrentUserId(state));
+        if (userStatus === UserStatuses.DND || userStatus === UserStatuses.OUT_OF_OFFICE) {
+            return undefined;
+        }
+
+        const userFromPost = getUser(state, post.user_id);
+        let username = Utils.localizeMessage('channel_loader.someone', 'Someone');
+        if (post.props?.override_username && getConfig(state).EnablePostUsernameOverride === 'true') {
+            username = post.props.override_username;
+        } else if (userFromPost) {
+            username = displayUsername(userFromPost, getTeammateNameDisplaySetting(state), false);
+        }
+
+        let text = stripMarkdown(post.message);
+        if (text.length > NOTIFY_TEXT_MAX_LENGTH) {
+            text = text.substring(0, NOTIFY_TEXT_MAX_LENGTH - 1) + '...';
+        }
+
+        const title = Utils.localizeAndFormatMessage(t('notification.savedSearch'), 'New result for "{name}"', {name: search.name});
+        const body = text ? `@${username}: ${text}` : `@${username}`;
+        const channel = makeGetChannel()(state, {id: post.channel_id});
+        const url = Utils.getPermalinkURL(state, search.teamId, post.id);
 
-            //Don't add extra sounds on native desktop clients
-            if (sound && !isWindowsApp() && !isMacApp() && !isMobileApp()) {
-                Utils.ding(soundName);
+        return dispatch(notifyMe(title, body, channel, search.teamId, true, 'None', url));
+    };
+}
+
+// showNotificationGroup shows the popup for one or more notifications in the same channel or thread. Popups which
+// were held back are dropped if the user has since started looking at where they were sent.
+function showNotificationGroup(group) {
+    return async (dispatch, getState) => {
+        const state = getState();
+        const {latest} = group;
+
+        if (group.count > 1 && state.views.browser.focused) {
+            if (group.rootId ? isThreadOpen(state, group.rootId) : getCurrentChannelId(state) === group.channelId) {
+                return undefined;
             }
         }
+
+        let close;
+        if (latest.showPopup) {
+            let body = latest.body;
+            if (group.count > 1) {
+                body = `${getNotificationGroupSummary(group)}\n${latest.body}`;
+            }
+
+            close = await dispatch(notifyMe(latest.title, body, latest.channel, latest.teamId, !latest.sound, latest.soundName, latest.url, latest.requireInteraction));
+        }
+
+        //Don't add extra sounds on native desktop clients unless they won't show a notification to play it with
+        if (latest.sound && (!latest.showPopup || (!isWindowsApp() && !isMacApp() && !isMobileApp()))) {
+            Utils.ding(latest.soundName);
+        }
+
+        return close;
     };
 }
 
-const notifyMe = (title, body, channel, teamId, silent, soundName, url) => (dispatch) => {
+function getNotificationGroupSummary(group) {
+    const values = {count: String(group.count), authors: String(group.authorIds.length), username: `@${group.latest.username}`};
+
+    if (group.rootId) {
+        if (group.authorIds.length === 1) {
+            return Utils.localizeAndFormatMessage(t('notification.digest.replies.oneAuthor'), '{count} new replies from {username}', values);
+        }
+
+        return Utils.localizeAndFormatMessage(t('notification.digest.replies'), '{count} new replies from {authors} people', values);
+    }
+
+    if (group.authorIds.length === 1) {
+        return Utils.localizeAndFormatMessage(t('notification.digest.messages.oneAuthor'), '{count} new messages from {username}', values);
+    }
+
+    return Utils.localizeAndFormatMessage(t('notification.digest.messages'), '{count} new messages from {authors} people', values);
+}
+
+const notifyMe = (title, body, channel, teamId, silent, soundName, url, requireInteraction = false) => (dispatch) => {
     // handle notifications in desktop app >= 4.3.0
     if (isDesktopApp() && window.desktop && semver.gte(window.desktop.version, '4.3.0')) {
         const msg = {
@@ -218,18 +352,19 @@ const notifyMe = (title, body, channel, teamId, silent, soundName, url) => (disp
             },
             window.location.origin,
         );
-    } else {
-        showNotification({
-            title,
-            body,
-            requireInteraction: false,
-            silent,
-            onClick: () => {
-                window.focus();
-                browserHistory.push(url);
-            },
-        }).catch((error) => {
-            dispatch(logError(error));
-        });
+        return undefined;
     }
+
+    return showNotification({
+        title,
+        body,
+        requireInteraction,
+        silent,
+        onClick: () => {
+            window.focus();
+            browserHistory.push(url);
+        },
+    }).catch((error) => {
+        dispatch(logError(error));
+    });
 };
@@ -7,7 +7,7 @@ import {browserHistory} from 'utils/browser_history';
 import Constants, {NotificationLevels, UserStatuses} from 'utils/constants';
 import * as utils from 'utils/notifications';
 
-import {sendDesktopNotification} from './notification_actions';
+import {clearAllNotifications, sendDesktopNotification} from './notification_actions';
 
 describe('notification_actions', () => {
     describe('sendDesktopNotification', () => {
@@ -21,6 +21,7 @@ describe('notification_actions', () => {
 
         beforeEach(() => {
             spy = jest.spyOn(utils, 'showNotification');
+            clearAllNotifications();
 
             crt = {
                 user_id: 'current_user_id',
@@ -296,6 +297,127 @@ describe('notification_actions', () => {
             });
         });
 
+        describe('notification rules', () => {
+            function setRules(rules) {
+                baseState.entities.preferences.myPreferences['notifications--notification_rules'] = {
+                    category: 'notifications',
+                    name: 'notification_rules',
+                    user_id: 'current_user_id',
+                    value: JSON.stringify(rules),
+                };
+            }
+
+            function makeRule(conditions, actions) {
+                return {
+                    id: 'rule_id',
+                    name: 'Rule',
+                    enabled: true,
+                    conditions: {
+                        keywords: [],
+                        pattern: '',
+                        authorIds: [],
+                        channelIds: [],
+                        threadFollowState: 'any',
+                        timeWindow: null,
+                        ...conditions,
+                    },
+                    actions,
+                };
+            }
+
+            test('should notify on a matching keyword even when only notified of mentions', () => {
+                channelSettings.desktop = NotificationLevels.MENTION;
+                setRules([makeRule({keywords: ['jessica']}, ['desktop', 'require_interaction'])]);
+
+                const store = testConfigureStore(baseState);
+                return store.dispatch(sendDesktopNotification(post, msgProps)).then(() => {
+                    expect(spy).toHaveBeenCalledWith(expect.objectContaining({
+                        requireInteraction: true,
+                        silent: true,
+                    }));
+                });
+            });
+
+            test('should not notify when a matching rule suppresses notifications', () => {
+                setRules([makeRule({authorIds: ['user_id']}, ['suppress'])]);
+
+                const store = testConfigureStore(baseState);
+                return store.dispatch(sendDesktopNotification(post, msgProps)).then(() => {
+                    expect(spy).not.toHaveBeenCalled();
+                });
+            });
+
+            test('should fall back to the notification preferences when no rule matches', () => {
+                setRules([makeRule({channelIds: ['another_channel_id']}, ['suppress'])]);
+
+                const store = testConfigureStore(baseState);
+                return store.dispatch(sendDesktopNotification(post, msgProps)).then(() => {
+                    expect(spy).toHaveBeenCalled();
+                });
+            });
+        });
+
+        describe('batching', () => {
+            beforeEach(() => {
+                jest.useFakeTimers();
+                spy.mockResolvedValue(jest.fn());
+
+                baseState.entities.users.profiles.other_user_id = {
+                    id: 'other_user_id',
+                    username: 'other_username',
+                };
+            });
+
+            afterEach(() => {
+                clearAllNotifications();
+                jest.useRealTimers();
+            });
+
+            test('should combine notifications for the same channel into a single popup', async () => {
+                const store = testConfigureStore(baseState);
+
+                await store.dispatch(sendDesktopNotification(post, msgProps));
+                await store.dispatch(sendDesktopNotification({...post, id: 'post_id2', user_id: 'other_user_id', message: 'Who is Jessica Hyde?'}, msgProps));
+                await store.dispatch(sendDesktopNotification({...post, id: 'post_id3', message: 'Where is Wilson Wilson?'}, msgProps));
+
+                expect(spy).toHaveBeenCalledTimes(1);
+
+                jest.advanceTimersByTime(Constants.NOTIFICATION_BATCH_WINDOW);
+
+                expect(spy).toHaveBeenCalledTimes(2);
+                expect(spy).toHaveBeenLastCalledWith(expect.objectContaining({
+                    title: 'Utopia',
+                    body: '3 new messages from 2 people\n@username: Where is Wilson Wilson?',
+                }));
+            });
+
+            test('should not show the combined popup once the user is looking at the channel', async () => {
+                const store = testConfigureStore(baseState);
+
+                await store.dispatch(sendDesktopNotification(post, msgProps));
+                await store.dispatch(sendDesktopNotification({...post, id: 'post_id2'}, msgProps));
+
+                baseState.views.browser.focused = true;
+                jest.advanceTimersByTime(Constants.NOTIFICATION_BATCH_WINDOW);
+
+                expect(spy).toHaveBeenCalledTimes(1);
+            });
+
+            test('should show notifications for different channels separately', async () => {
+                const store = testConfigureStore(baseState);
+
+                baseState.entities.channels.myMembers.another_channel_id = {
+                    id: 'current_user_id',
+                    notify_props: channelSettings,
+                };
+
+                await store.dispatch(sendDesktopNotification(post, msgProps));
+                await store.dispatch(sendDesktopNotification({...post, id: 'post_id2', channel_id: 'another_channel_id'}, msgProps));
+
+                expect(spy).toHaveBeenCalledTimes(2);
+            });
+        });
+
         describe('CollapsedThreads: false', () => {
             beforeEach(() => {
                 crt.value = 'off';
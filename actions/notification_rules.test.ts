@@ -0,0 +1,56 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import {savePreferences} from 'mattermost-redux/actions/preferences';
+import {DispatchFunc} from 'mattermost-redux/types/actions';
+
+import {GlobalState} from 'types/store';
+import {Preferences} from 'utils/constants';
+import {makeEmptyNotificationRule} from 'utils/notification_rules';
+
+import {saveNotificationRules} from './notification_rules';
+
+jest.mock('mattermost-redux/actions/preferences', () => ({
+    savePreferences: jest.fn(() => ({type: 'MOCK_SAVE_PREFERENCES'})),
+}));
+
+const mockStore = configureStore<GlobalState, DispatchFunc>([thunk]);
+
+describe('actions/notification_rules', () => {
+    const store = mockStore({
+        entities: {
+            users: {
+                currentUserId: 'user1',
+            },
+        },
+    } as unknown as GlobalState);
+
+    beforeEach(() => {
+        (savePreferences as jest.Mock).mockClear();
+    });
+
+    test('should save the rules in a preference', async () => {
+        const rules = [{...makeEmptyNotificationRule('rule1'), name: 'Builds'}];
+
+        await store.dispatch(saveNotificationRules(rules));
+
+        expect(savePreferences).toHaveBeenCalledWith('user1', [{
+            user_id: 'user1',
+            category: Preferences.CATEGORY_NOTIFICATIONS,
+            name: Preferences.NOTIFICATION_RULES,
+            value: JSON.stringify(rules),
+        }]);
+    });
+
+    test('should return an error without saving rules which are too long for the preference', async () => {
+        const rules = [{...makeEmptyNotificationRule('rule1'), name: 'a'.repeat(Preferences.MAX_VALUE_LENGTH)}];
+
+        const result = await store.dispatch(saveNotificationRules(rules));
+
+        expect(result.error).toBeDefined();
+        expect(savePreferences).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,30 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {savePreferences} from 'mattermost-redux/actions/preferences';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
+import {DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+
+import {Preferences} from 'utils/constants';
+import {localizeMessage} from 'utils/utils';
+
+import type {NotificationRule} from 'types/store/notification_rules';
+
+export function saveNotificationRules(rules: NotificationRule[]) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        // All of the rules are stored in one preference, so the rules can't be saved once they're too long for it
+        const value = JSON.stringify(rules);
+        if (value.length > Preferences.MAX_VALUE_LENGTH) {
+            return {error: {message: localizeMessage('user.settings.notifications.rules.tooLong', 'These rules are too long to save. Remove some rules or shorten their keywords and try again.')}};
+        }
+
+        return dispatch(savePreferences(currentUserId, [{
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_NOTIFICATIONS,
+            name: Preferences.NOTIFICATION_RULES,
+            value,
+        }]));
+    };
+}
@@ -0,0 +1,229 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import {PostTypes} from 'mattermost-redux/action_types';
+import {Client4} from 'mattermost-redux/client';
+import {DispatchFunc} from 'mattermost-redux/types/actions';
+
+import {GlobalState} from 'types/store';
+import {StorageTypes} from 'utils/constants';
+import {TestHelper} from 'utils/test_helper';
+
+import {deletePost, isNetworkError, processOutbox, queueDeletePost, queuePost, queueReaction} from './outbox';
+
+jest.mock('mattermost-redux/client', () => ({
+    Client4: {
+        createPost: jest.fn(),
+        deletePost: jest.fn(),
+    },
+}));
+
+jest.mock('mattermost-redux/actions/posts', () => ({
+    ...jest.requireActual('mattermost-redux/actions/posts'),
+    addReaction: (...args: any[]) => ({type: 'MOCK_ADD_REACTION', args}),
+    removeReaction: (...args: any[]) => ({type: 'MOCK_REMOVE_REACTION', args}),
+}));
+
+jest.mock('mattermost-redux/selectors/entities/preferences', () => ({
+    ...jest.requireActual('mattermost-redux/selectors/entities/preferences'),
+    isCollapsedThreadsEnabled: () => false,
+}));
+
+const mockStore = configureStore<GlobalState, DispatchFunc>([thunk]);
+
+describe('actions/outbox', () => {
+    const networkError = new TypeError('Failed to fetch');
+    const serverError = {message: 'Not allowed', server_error_id: 'api.context.permissions.app_error', status_code: 403};
+
+    const queuedPost = TestHelper.getPostMock({
+        id: '',
+        channel_id: 'channel1',
+        message: 'queued message',
+        pending_post_id: 'user1:1000',
+        root_id: '',
+        user_id: 'user1',
+    });
+
+    function makeStore(items: any[] = []) {
+        const storage: Record<string, any> = {};
+        for (const item of items) {
+            storage['user1_outbox_' + item.id] = {value: item, timestamp: new Date(item.queuedAt)};
+        }
+
+        return mockStore({
+            entities: {
+                users: {
+                    currentUserId: 'user1',
+                    profiles: {
+                        user1: {id: 'user1'},
+                    },
+                },
+                posts: {
+                    posts: {},
+                },
+            },
+            storage: {
+                storage,
+            },
+            views: {
+                system: {
+                    websocketConnectionState: {status: 'open', latency: null, connectFailCount: 0},
+                },
+            },
+        } as unknown as GlobalState);
+    }
+
+    function getStorageActions(actions: any[]) {
+        return actions.filter((action) => action.type === StorageTypes.SET_ITEM || action.type === StorageTypes.REMOVE_ITEM);
+    }
+
+    test('isNetworkError', () => {
+        expect(isNetworkError(networkError)).toBe(true);
+        expect(isNetworkError(serverError)).toBe(false);
+        expect(isNetworkError(undefined)).toBe(false);
+    });
+
+    describe('queuePost', () => {
+        test('should add a pending post and queue it using the pending post id', async () => {
+            const store = makeStore();
+
+            await store.dispatch(queuePost({...queuedPost}));
+
+            const actions = store.getActions();
+            expect(actions[0].payload[0]).toMatchObject({
+                type: PostTypes.RECEIVED_NEW_POST,
+                data: {id: 'user1:1000', message: 'queued message'},
+            });
+            expect(getStorageActions(actions)).toEqual([{
+                type: StorageTypes.SET_ITEM,
+                data: expect.objectContaining({
+                    prefix: 'user1_',
+                    name: 'outbox_user1:1000',
+                    value: expect.objectContaining({id: 'user1:1000', type: 'create_post', order: 0}),
+                }),
+            }]);
+        });
+
+        test('should keep the position of a post that is queued again', async () => {
+            const store = makeStore([
+                {id: 'user1:1000', type: 'create_post', data: {post: queuedPost, files: []}, order: 3, queuedAt: 1000},
+                {id: 'reaction_post1_smile', type: 'add_reaction', data: {postId: 'post1', emojiName: 'smile'}, order: 4, queuedAt: 1001},
+            ]);
+
+            await store.dispatch(queuePost({...queuedPost, message: 'edited'}));
+
+            expect(getStorageActions(store.getActions())[0].data.value).toMatchObject({id: 'user1:1000', order: 3, queuedAt: 1000});
+        });
+    });
+
+    test('queueDeletePost should drop a post which has not been sent yet', async () => {
+        const store = makeStore([
+            {id: 'user1:1000', type: 'create_post', data: {post: queuedPost, files: []}, order: 0, queuedAt: 1000},
+        ]);
+
+        await store.dispatch(queueDeletePost({...queuedPost, id: 'user1:1000'}));
+
+        expect(store.getActions()).toEqual([
+            {type: StorageTypes.REMOVE_ITEM, data: {prefix: 'user1_', name: 'outbox_user1:1000'}},
+        ]);
+    });
+
+    describe('deletePost', () => {
+        const post = TestHelper.getPostMock({id: 'post1', channel_id: 'channel1', user_id: 'user1'});
+
+        test('should queue the deletion when the request fails because of the network', async () => {
+            (Client4.deletePost as jest.Mock).mockRejectedValueOnce(networkError);
+            const store = makeStore();
+
+            const result = await store.dispatch(deletePost(post));
+
+            expect(result).toEqual({data: true});
+            expect(store.getActions()).toContainEqual({
+                type: StorageTypes.SET_ITEM,
+                data: expect.objectContaining({
+                    name: 'outbox_delete_post1',
+                    value: expect.objectContaining({type: 'delete_post'}),
+                }),
+            });
+        });
+
+        test('should return an error rejected by the server without queueing the deletion', async () => {
+            (Client4.deletePost as jest.Mock).mockRejectedValueOnce(serverError);
+            const store = makeStore();
+
+            const result = await store.dispatch(deletePost(post));
+
+            expect(result).toEqual({error: serverError});
+            expect(getStorageActions(store.getActions())).toEqual([]);
+        });
+    });
+
+    test('queueReaction should cancel out a queued reaction which is removed again', async () => {
+        const store = makeStore([
+            {id: 'reaction_post1_smile', type: 'add_reaction', data: {postId: 'post1', emojiName: 'smile'}, order: 0, queuedAt: 1000},
+        ]);
+
+        await store.dispatch(queueReaction('post1', 'smile', true));
+
+        expect(store.getActions()).toEqual([
+            {type: PostTypes.REACTION_DELETED, data: {user_id: 'user1', post_id: 'post1', emoji_name: 'smile'}},
+            {type: StorageTypes.REMOVE_ITEM, data: {prefix: 'user1_', name: 'outbox_reaction_post1_smile'}},
+        ]);
+    });
+
+    describe('processOutbox', () => {
+        const items = [
+            {id: 'reaction_post1_smile', type: 'add_reaction', data: {postId: 'post1', emojiName: 'smile'}, order: 1, queuedAt: 1001},
+            {id: 'user1:1000', type: 'create_post', data: {post: queuedPost, files: []}, order: 0, queuedAt: 1000},
+            {id: 'delete_post2', type: 'delete_post', data: {post: {id: 'post2'}}, order: 2, queuedAt: 1002},
+        ];
+
+        test('should send queued changes in order and remove them from the queue', async () => {
+            (Client4.createPost as jest.Mock).mockResolvedValue({...queuedPost, id: 'post3', create_at: 1234});
+            (Client4.deletePost as jest.Mock).mockResolvedValue({status: 'OK'});
+
+            const store = makeStore(items);
+
+            const result = await store.dispatch(processOutbox());
+
+            expect(result).toEqual({data: true});
+            expect(Client4.createPost).toHaveBeenCalledWith(expect.objectContaining({pending_post_id: 'user1:1000', create_at: 0}));
+            expect(Client4.deletePost).toHaveBeenCalledWith('post2');
+            expect(store.getActions().filter((action: any) => action.type === StorageTypes.REMOVE_ITEM).map((action: any) => action.data.name)).toEqual([
+                'outbox_user1:1000',
+                'outbox_reaction_post1_smile',
+                'outbox_delete_post2',
+            ]);
+        });
+
+        test('should keep the remaining changes when the network is unavailable', async () => {
+            (Client4.createPost as jest.Mock).mockRejectedValue(networkError);
+
+            const store = makeStore(items);
+
+            const result = await store.dispatch(processOutbox());
+
+            expect(result).toEqual({error: networkError});
+            expect(Client4.deletePost).not.toHaveBeenCalled();
+            expect(getStorageActions(store.getActions())).toEqual([]);
+        });
+
+        test('should mark a post rejected by the server as failed and continue', async () => {
+            (Client4.createPost as jest.Mock).mockRejectedValue(serverError);
+            (Client4.deletePost as jest.Mock).mockResolvedValue({status: 'OK'});
+
+            const store = makeStore(items);
+
+            await store.dispatch(processOutbox());
+
+            expect(store.getActions()).toContainEqual(expect.objectContaining({
+                type: PostTypes.RECEIVED_POST,
+                data: expect.objectContaining({id: 'user1:1000', failed: true}),
+            }));
+            expect(Client4.deletePost).toHaveBeenCalledWith('post2');
+        });
+    });
+});
@@ -0,0 +1,348 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {batchActions} from 'redux-batched-actions';
+
+import {ChannelTypes, FileTypes, PostTypes} from 'mattermost-redux/action_types';
+import * as PostActions from 'mattermost-redux/actions/posts';
+import {Client4} from 'mattermost-redux/client';
+import {Posts} from 'mattermost-redux/constants';
+import {isCollapsedThreadsEnabled} from 'mattermost-redux/selectors/entities/preferences';
+import {getPost, getPostRepliesCount} from 'mattermost-redux/selectors/entities/posts';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
+import {ActionFunc, DispatchFunc, GenericAction, GetStateFunc} from 'mattermost-redux/types/actions';
+import {FileInfo} from 'mattermost-redux/types/files';
+import {Post} from 'mattermost-redux/types/posts';
+
+import {removeItem, setItem} from 'actions/storage';
+import {getWebSocketConnectionState} from 'selectors/views/system';
+import {getOutboxItem, getOutboxItems} from 'selectors/outbox';
+import {StoragePrefixes} from 'utils/constants';
+
+import type {GlobalState} from 'types/store';
+import type {
+    OutboxCreatePostData,
+    OutboxDeletePostData,
+    OutboxEditPostData,
+    OutboxItem,
+    OutboxItemType,
+    OutboxReactionData,
+} from 'types/store/outbox';
+
+// isOffline returns true when changes made by the user should be queued instead of being sent to the server.
+export function isOffline(state: GlobalState) {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        return true;
+    }
+
+    const connectionState = getWebSocketConnectionState(state);
+    return connectionState.status === 'closed' && connectionState.connectFailCount > 0;
+}
+
+// isNetworkError returns true if a request failed without the server ever responding to it, in which case it's
+// safe to retry it later.
+export function isNetworkError(error: any) {
+    return Boolean(error) && !error.status_code && !error.server_error_id;
+}
+
+function queueOutboxItem(id: string, type: OutboxItemType, data: OutboxItem['data']) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+        const items = getOutboxItems(state);
+        const existing = items.find((item) => item.id === id);
+
+        const item: OutboxItem = {
+            id,
+            type,
+            data,
+            order: existing ? existing.order : (items.length ? items[items.length - 1].order + 1 : 0),
+            queuedAt: existing ? existing.queuedAt : Date.now(),
+        };
+
+        return dispatch(setItem(StoragePrefixes.OUTBOX + id, item));
+    };
+}
+
+export function removeOutboxItem(id: string) {
+    return removeItem(StoragePrefixes.OUTBOX + id);
+}
+
+function getEditItemId(postId: string) {
+    return `edit_${postId}`;
+}
+
+function getDeleteItemId(postId: string) {
+    return `delete_${postId}`;
+}
+
+function getReactionItemId(postId: string, emojiName: string) {
+    return `reaction_${postId}_${emojiName}`;
+}
+
+// queuePost adds a pending post to the store and queues it to be created once the user is back online. The pending
+// post id is used as the id of the queued item so that retrying the same post never queues it twice.
+export function queuePost(post: Post, files: FileInfo[] = []): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+        const timestamp = Date.now();
+        const pendingPostId = post.pending_post_id || `${getCurrentUserId(state)}:${timestamp}`;
+
+        const newPost: Post = {
+            ...post,
+            pending_post_id: pendingPostId,
+            create_at: timestamp,
+            update_at: timestamp,
+            reply_count: post.root_id ? getPostRepliesCount(state, post.root_id) + 1 : 0,
+        };
+        Reflect.deleteProperty(newPost, 'failed');
+
+        if (files.length) {
+            newPost.file_ids = files.map((file) => file.id);
+        }
+
+        const actions = [];
+        if (files.length) {
+            actions.push({
+                type: FileTypes.RECEIVED_FILES_FOR_POST,
+                postId: pendingPostId,
+                data: files,
+            });
+        }
+        actions.push(PostActions.receivedNewPost({...newPost, id: pendingPostId}, isCollapsedThreadsEnabled(state)));
+
+        dispatch(batchActions(actions, 'BATCH_QUEUE_POST'));
+        dispatch(queueOutboxItem(pendingPostId, 'create_post', {post: newPost, files}));
+
+        return {data: true};
+    };
+}
+
+// queueEditPost applies an edit locally and queues it to be sent once the user is back online. Editing a post which
+// hasn't been created yet updates the queued post instead, and repeated edits of a post replace each other.
+export function queueEditPost(post: Partial<Post> & {id: Post['id']}): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+        const existingPost = getPost(state, post.id);
+        const crtEnabled = isCollapsedThreadsEnabled(state);
+
+        const queuedCreate = getOutboxItem(state, post.id);
+        if (queuedCreate && queuedCreate.type === 'create_post') {
+            const data = queuedCreate.data as OutboxCreatePostData;
+            const updatedPost = {...data.post, ...post, id: data.post.id};
+
+            dispatch(PostActions.receivedPost({...updatedPost, id: post.id}, crtEnabled));
+            dispatch(queueOutboxItem(queuedCreate.id, 'create_post', {...data, post: updatedPost}));
+
+            return {data: true};
+        }
+
+        dispatch(PostActions.receivedPost({...existingPost, ...post, edit_at: Date.now()}, crtEnabled));
+        dispatch(queueOutboxItem(getEditItemId(post.id), 'edit_post', {post}));
+
+        return {data: true};
+    };
+}
+
+// queueDeletePost removes a post locally and queues its deletion. Deleting a post which hasn't been created yet just
+// drops it from the queue.
+export function queueDeletePost(post: Post): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+
+        const queuedCreate = getOutboxItem(state, post.id);
+        if (queuedCreate && queuedCreate.type === 'create_post') {
+            dispatch(removeOutboxItem(queuedCreate.id));
+            return {data: true};
+        }
+
+        dispatch({
+            type: PostTypes.POST_DELETED,
+            data: post,
+        });
+
+        dispatch(removeOutboxItem(getEditItemId(post.id)));
+        dispatch(queueOutboxItem(getDeleteItemId(post.id), 'delete_post', {post}));
+
+        return {data: true};
+    };
+}
+
+// deletePost deletes a post like the deletePost action of mattermost-redux, which doesn't report whether the request
+// failed, but queues the deletion when the user is offline or the request fails because of the network.
+export function deletePost(post: Post): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        if (isOffline(getState() as GlobalState)) {
+            return dispatch(queueDeletePost(post));
+        }
+
+        // Combined system messages are deleted one by one
+        if (post.type === Posts.POST_TYPES.COMBINED_USER_ACTIVITY) {
+            return dispatch(PostActions.deletePost(post));
+        }
+
+        dispatch({
+            type: PostTypes.POST_DELETED,
+            data: post,
+        });
+
+        const result = await dispatch(sendDeletePost({post}));
+        if (result.error && isNetworkError(result.error)) {
+            return dispatch(queueDeletePost(post));
+        }
+
+        return result;
+    };
+}
+
+// queueReaction applies a reaction locally and queues it to be sent once the user is back online. Adding and then
+// removing the same reaction while offline cancels out.
+export function queueReaction(postId: string, emojiName: string, remove = false): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+        const currentUserId = getCurrentUserId(state);
+        const id = getReactionItemId(postId, emojiName);
+
+        if (remove) {
+            dispatch({
+                type: PostTypes.REACTION_DELETED,
+                data: {user_id: currentUserId, post_id: postId, emoji_name: emojiName},
+            });
+        } else {
+            dispatch({
+                type: PostTypes.RECEIVED_REACTION,
+                data: {user_id: currentUserId, post_id: postId, emoji_name: emojiName, create_at: Date.now()},
+            });
+        }
+
+        const queued = getOutboxItem(state, id);
+        if (queued && queued.type !== (remove ? 'remove_reaction' : 'add_reaction')) {
+            dispatch(removeOutboxItem(id));
+            return {data: true};
+        }
+
+        dispatch(queueOutboxItem(id, remove ? 'remove_reaction' : 'add_reaction', {postId, emojiName}));
+
+        return {data: true};
+    };
+}
+
+function sendCreatePost(data: OutboxCreatePostData) {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const {post, files} = data;
+        const crtEnabled = isCollapsedThreadsEnabled(getState());
+
+        let created;
+        try {
+            created = await Client4.createPost({...post, create_at: 0});
+        } catch (error) {
+            if (!isNetworkError(error)) {
+                // Let the user retry or cancel the post from the failed post options
+                dispatch(PostActions.receivedPost({...post, id: post.pending_post_id, failed: true, update_at: Date.now()}, crtEnabled));
+            }
+
+            return {error};
+        }
+
+        const actions: GenericAction[] = [
+            PostActions.receivedPost(created, crtEnabled),
+            {
+                type: PostTypes.CREATE_POST_SUCCESS,
+            },
+            {
+                type: ChannelTypes.INCREMENT_TOTAL_MSG_COUNT,
+                data: {
+                    channelId: post.channel_id,
+                    amount: 1,
+                    amountRoot: created.root_id === '' ? 1 : 0,
+                },
+            },
+            {
+                type: ChannelTypes.DECREMENT_UNREAD_MSG_COUNT,
+                data: {
+                    channelId: post.channel_id,
+                    amount: 1,
+                    amountRoot: created.root_id === '' ? 1 : 0,
+                },
+            },
+        ];
+
+        if (files.length) {
+            actions.push({
+                type: FileTypes.RECEIVED_FILES_FOR_POST,
+                postId: created.id,
+                data: files,
+            });
+        }
+
+        dispatch(batchActions(actions, 'BATCH_CREATE_QUEUED_POST'));
+
+        return {data: true};
+    };
+}
+
+function sendDeletePost(data: OutboxDeletePostData) {
+    return async () => {
+        try {
+            await Client4.deletePost(data.post.id);
+        } catch (error) {
+            return {error};
+        }
+
+        return {data: true};
+    };
+}
+
+function sendOutboxItem(item: OutboxItem) {
+    return async (dispatch: DispatchFunc): Promise<{data?: boolean; error?: any}> => {
+        switch (item.type) {
+        case 'create_post':
+            return dispatch(sendCreatePost(item.data as OutboxCreatePostData));
+        case 'edit_post':
+            return dispatch(PostActions.editPost((item.data as OutboxEditPostData).post as Post));
+        case 'delete_post':
+            return dispatch(sendDeletePost(item.data as OutboxDeletePostData));
+        case 'add_reaction': {
+            const {postId, emojiName} = item.data as OutboxReactionData;
+            return dispatch(PostActions.addReaction(postId, emojiName));
+        }
+        case 'remove_reaction': {
+            const {postId, emojiName} = item.data as OutboxReactionData;
+            return dispatch(PostActions.removeReaction(postId, emojiName));
+        }
+        default:
+            return {data: false};
+        }
+    };
+}
+
+let processing = false;
+
+// processOutbox sends queued changes to the server in the order in which they were made. It stops at the first
+// network error so that the remaining changes are kept for the next attempt, while changes rejected by the server
+// are dropped from the queue.
+export function processOutbox(): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        if (processing || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+            return {data: false};
+        }
+
+        processing = true;
+
+        try {
+            for (const item of getOutboxItems(getState() as GlobalState)) {
+                // eslint-disable-next-line no-await-in-loop
+                const result = await dispatch(sendOutboxItem(item));
+
+                if ('error' in result && isNetworkError(result.error)) {
+                    return {error: result.error};
+                }
+
+                dispatch(removeOutboxItem(item.id));
+            }
+        } finally {
+            processing = false;
+        }
+
+        return {data: true};
+    };
+}
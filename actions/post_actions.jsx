@@ -13,6 +13,7 @@ import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
 import {canEditPost, comparePosts} from 'mattermost-redux/utils/post_utils';
 
 import {addRecentEmoji} from 'actions/emoji_actions';
+import {deletePost, isNetworkError, isOffline, queuePost, queueReaction} from 'actions/outbox';
 import * as StorageActions from 'actions/storage';
 import {loadNewDMIfNeeded, loadNewGMIfNeeded} from 'actions/user_actions.jsx';
 import * as RhsActions from 'actions/views/rhs';
@@ -91,7 +92,7 @@ export function unflagPost(postId) {
 }
 
 export function createPost(post, files) {
-    return async (dispatch) => {
+    return async (dispatch, getState) => {
         // parse message and emit emoji event
         const emojis = matchEmoticons(post.message);
         if (emojis) {
@@ -101,11 +102,26 @@ export function createPost(post, files) {
             }
         }
 
+        // Posts which can't reach the server are queued to be sent later like those made while offline
+        const queueOnNetworkError = (error, pendingPost, pendingFiles) => {
+            if (!isNetworkError(error)) {
+                return false;
+            }
+
+            dispatch(queuePost(pendingPost, pendingFiles));
+            return true;
+        };
+
         let result;
-        if (UserAgent.isIosClassic()) {
+        if (isOffline(getState())) {
+            result = await dispatch(queuePost(post, files));
+        } else if (UserAgent.isIosClassic()) {
             result = await dispatch(PostActions.createPostImmediately(post, files));
+            if (result.error && queueOnNetworkError(result.error, post, files)) {
+                result = {data: true};
+            }
         } else {
-            result = await dispatch(PostActions.createPost(post, files));
+            result = await dispatch(PostActions.createPost(post, files, queueOnNetworkError));
         }
 
         if (post.root_id) {
@@ -131,13 +147,39 @@ export function storeCommentDraft(rootPostId, draft) {
 }
 
 export function addReaction(postId, emojiName) {
-    return (dispatch) => {
-        dispatch(PostActions.addReaction(postId, emojiName));
+    return async (dispatch, getState) => {
+        if (isOffline(getState())) {
+            dispatch(queueReaction(postId, emojiName));
+            dispatch(addRecentEmoji(emojiName));
+            return {data: true};
+        }
+
+        const result = await dispatch(PostActions.addReaction(postId, emojiName));
         dispatch(addRecentEmoji(emojiName));
+
+        if (result.error && isNetworkError(result.error)) {
+            dispatch(queueReaction(postId, emojiName));
+        }
+
         return {data: true};
     };
 }
 
+export function removeReaction(postId, emojiName) {
+    return async (dispatch, getState) => {
+        if (isOffline(getState())) {
+            return dispatch(queueReaction(postId, emojiName, true));
+        }
+
+        const result = await dispatch(PostActions.removeReaction(postId, emojiName));
+        if (result.error && isNetworkError(result.error)) {
+            return dispatch(queueReaction(postId, emojiName, true));
+        }
+
+        return result;
+    };
+}
+
 export function searchForTerm(term) {
     return (dispatch) => {
         dispatch(RhsActions.updateSearchTerms(term));
@@ -268,7 +310,7 @@ export function hideEditPostModal() {
 
 export function deleteAndRemovePost(post) {
     return async (dispatch, getState) => {
-        const {error} = await dispatch(PostActions.deletePost(post));
+        const {error} = await dispatch(deletePost(post));
         if (error) {
             return {error};
         }
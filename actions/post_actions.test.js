@@ -182,6 +182,9 @@ describe('Actions.Posts', () => {
                 searchTerms: '',
                 filesSearchExtFilter: [],
             },
+            system: {
+                websocketConnectionState: {status: 'open', latency: null, connectFailCount: 0},
+            },
         },
     };
 
@@ -343,7 +346,7 @@ describe('Actions.Posts', () => {
             const finalExpectedState = [
                 ...immediateExpectedState,
                 {
-                    args: [newReply, files],
+                    args: [newReply, files, expect.any(Function)],
                     type: 'MOCK_CREATE_POST',
                 }, {
                     args: ['comment_draft_new_post_id', null],
@@ -364,7 +367,7 @@ describe('Actions.Posts', () => {
                 args: ['+1'],
                 type: 'MOCK_ADD_RECENT_EMOJI',
             }, {
-                args: [newPost, files],
+                args: [newPost, files, expect.any(Function)],
                 type: 'MOCK_CREATE_POST',
             }, {
                 args: ['draft_current_channel_id', null],
@@ -384,7 +387,7 @@ describe('Actions.Posts', () => {
                 args: ['cake'],
                 type: 'MOCK_ADD_RECENT_EMOJI',
             }, {
-                args: [newPost, files],
+                args: [newPost, files, expect.any(Function)],
                 type: 'MOCK_CREATE_POST',
             }, {
                 args: ['draft_current_channel_id', null],
@@ -407,7 +410,7 @@ describe('Actions.Posts', () => {
                 args: ['+1'],
                 type: 'MOCK_ADD_RECENT_EMOJI',
             }, {
-                args: [newPost, files],
+                args: [newPost, files, expect.any(Function)],
                 type: 'MOCK_CREATE_POST',
             }, {
                 args: ['draft_current_channel_id', null],
@@ -417,6 +420,17 @@ describe('Actions.Posts', () => {
             await testStore.dispatch(Actions.createPost(newPost, files));
             expect(testStore.getActions()).toEqual(immediateExpectedState);
         });
+
+        test('should only take over the failure of a post which could not reach the server', async () => {
+            const testStore = await mockStore({...initialState, storage: {storage: {}}});
+            const newPost = {channel_id: 'current_channel_id', message: 'new message', root_id: '', pending_post_id: 'current_user_id:1000'};
+
+            await testStore.dispatch(Actions.createPost(newPost, []));
+
+            const handleError = testStore.getActions().find((action) => action.type === 'MOCK_CREATE_POST').args[2];
+            expect(handleError({message: 'Not allowed', server_error_id: 'api.context.permissions.app_error', status_code: 403}, newPost, [])).toBe(false);
+            expect(handleError(new TypeError('Failed to fetch'), newPost, [])).toBe(true);
+        });
     });
 
     test('addReaction', async () => {
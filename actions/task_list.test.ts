@@ -0,0 +1,117 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import {PostTypes} from 'mattermost-redux/action_types';
+import {Client4} from 'mattermost-redux/client';
+import {DispatchFunc} from 'mattermost-redux/types/actions';
+
+import {editPost} from 'actions/views/posts';
+import {GlobalState} from 'types/store';
+
+import {toggleTaskListItem} from './task_list';
+
+jest.mock('mattermost-redux/client', () => ({
+    Client4: {
+        getPost: jest.fn(),
+    },
+}));
+
+jest.mock('actions/views/posts', () => ({
+    editPost: jest.fn(),
+}));
+
+jest.mock('mattermost-redux/selectors/entities/preferences', () => ({
+    ...jest.requireActual('mattermost-redux/selectors/entities/preferences'),
+    isCollapsedThreadsEnabled: () => false,
+}));
+
+const mockStore = configureStore<GlobalState, DispatchFunc>([thunk]);
+
+describe('actions/task_list', () => {
+    const post = {id: 'post1', channel_id: 'channel1', message: '- [ ] first\n- [ ] second'};
+
+    function makeStore() {
+        return mockStore({
+            entities: {
+                posts: {
+                    posts: {
+                        post1: post,
+                    },
+                },
+            },
+            views: {
+                system: {
+                    websocketConnectionState: {status: 'open', latency: null, connectFailCount: 0},
+                },
+            },
+        } as unknown as GlobalState);
+    }
+
+    function getReceivedMessages(actions: any[]) {
+        return actions.filter((action) => action.type === PostTypes.RECEIVED_POST).map((action) => action.data.message);
+    }
+
+    beforeEach(() => {
+        (Client4.getPost as jest.Mock).mockReset();
+        (editPost as jest.Mock).mockReset();
+        (editPost as jest.Mock).mockImplementation(() => () => Promise.resolve({data: true}));
+    });
+
+    test('should update the post right away and then save it', async () => {
+        (Client4.getPost as jest.Mock).mockResolvedValue(post);
+
+        const store = makeStore();
+        const result = await store.dispatch(toggleTaskListItem('post1', 1, true));
+
+        expect(result).toEqual({data: true});
+        expect(getReceivedMessages(store.getActions())).toEqual(['- [ ] first\n- [x] second']);
+        expect(editPost).toHaveBeenCalledWith({id: 'post1', message: '- [ ] first\n- [x] second'});
+    });
+
+    test('should check off the item in a message which was changed by someone else', async () => {
+        (Client4.getPost as jest.Mock).mockResolvedValue({...post, message: '- [x] zeroth\n- [ ] first\n- [ ] second'});
+
+        const store = makeStore();
+        await store.dispatch(toggleTaskListItem('post1', 1, true));
+
+        expect(editPost).toHaveBeenCalledWith({id: 'post1', message: '- [x] zeroth\n- [ ] first\n- [x] second'});
+    });
+
+    test('should not save the post if someone else already checked off the item', async () => {
+        const latestMessage = '- [ ] first\n- [x] second\n- [ ] third';
+        (Client4.getPost as jest.Mock).mockResolvedValue({...post, message: latestMessage});
+
+        const store = makeStore();
+        const result = await store.dispatch(toggleTaskListItem('post1', 1, true));
+
+        expect(result).toEqual({data: true});
+        expect(editPost).not.toHaveBeenCalled();
+        expect(getReceivedMessages(store.getActions())).toEqual(['- [ ] first\n- [x] second', latestMessage]);
+    });
+
+    test('should show an error if the item was removed by someone else', async () => {
+        const latestMessage = '- [ ] first';
+        (Client4.getPost as jest.Mock).mockResolvedValue({...post, message: latestMessage});
+
+        const store = makeStore();
+        const result = await store.dispatch(toggleTaskListItem('post1', 1, true));
+
+        expect(result.error).toBeDefined();
+        expect(editPost).not.toHaveBeenCalled();
+        expect(getReceivedMessages(store.getActions())).toEqual(['- [ ] first\n- [x] second', latestMessage]);
+    });
+
+    test('should revert the post if saving it fails', async () => {
+        (Client4.getPost as jest.Mock).mockResolvedValue(post);
+        (editPost as jest.Mock).mockImplementation(() => () => Promise.resolve({error: {message: 'Not allowed'}}));
+
+        const store = makeStore();
+        const result = await store.dispatch(toggleTaskListItem('post1', 0, true));
+
+        expect(result.error).toBeDefined();
+        expect(getReceivedMessages(store.getActions())).toEqual(['- [x] first\n- [ ] second', post.message]);
+    });
+});
@@ -0,0 +1,82 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {logError} from 'mattermost-redux/actions/errors';
+import {receivedPost} from 'mattermost-redux/actions/posts';
+import {Client4} from 'mattermost-redux/client';
+import {getPost} from 'mattermost-redux/selectors/entities/posts';
+import {isCollapsedThreadsEnabled} from 'mattermost-redux/selectors/entities/preferences';
+import {ActionFunc, DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+import {ServerError} from 'mattermost-redux/types/errors';
+import {Post} from 'mattermost-redux/types/posts';
+
+import {isOffline} from 'actions/outbox';
+import {editPost} from 'actions/views/posts';
+import {AnnouncementBarTypes} from 'utils/constants';
+import {findMatchingTaskListItem, getTaskListItems, setTaskListItemChecked} from 'utils/markdown/task_list';
+import {localizeMessage} from 'utils/utils.jsx';
+
+import type {GlobalState} from 'types/store';
+
+// toggleTaskListItem checks or unchecks an item of a task list in a post by editing its message, so the change is
+// recorded in the post's edit history like any other edit. The post is updated right away, and if someone else has
+// changed the post in the meantime, the item is found in their version of the message before it's saved.
+export function toggleTaskListItem(postId: string, index: number, checked: boolean): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+        const crtEnabled = isCollapsedThreadsEnabled(state);
+        const post = getPost(state, postId);
+
+        const item = post ? getTaskListItems(post.message)[index] : undefined;
+        if (!post || !item) {
+            return {error: {message: 'Task list item not found'}};
+        }
+
+        dispatch(receivedPost({...post, message: setTaskListItemChecked(post.message, index, checked)}, crtEnabled));
+
+        let latest: Post = post;
+        if (!isOffline(state)) {
+            try {
+                latest = await Client4.getPost(postId);
+            } catch (error) {
+                dispatch(receivedPost(post, crtEnabled));
+                return {error};
+            }
+        }
+
+        let latestIndex = index;
+        if (latest.message !== post.message) {
+            latestIndex = findMatchingTaskListItem(item, index, latest.message);
+
+            if (latestIndex === -1) {
+                dispatch(receivedPost(latest, crtEnabled));
+
+                // The type of the error decides how it's shown in the announcement bar
+                const error: ServerError & {type: string} = {
+                    type: AnnouncementBarTypes.ANNOUNCEMENT,
+                    message: localizeMessage('task_list.conflict', 'The checklist was changed by someone else. Please try again.'),
+                };
+                dispatch(logError(error, true));
+
+                return {error: {message: 'Task list item changed'}};
+            }
+
+            if (getTaskListItems(latest.message)[latestIndex].checked === checked) {
+                // Someone else already made the same change
+                dispatch(receivedPost(latest, crtEnabled));
+                return {data: true};
+            }
+        }
+
+        const result = await dispatch(editPost({
+            id: postId,
+            message: setTaskListItemChecked(latest.message, latestIndex, checked),
+        }));
+
+        if ('error' in result && result.error) {
+            dispatch(receivedPost(latest, crtEnabled));
+        }
+
+        return result;
+    };
+}
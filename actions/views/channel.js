@@ -24,6 +24,7 @@ import {
     getMyChannels,
     getMyChannelMemberships,
     getAllDirectChannelsNameMapInCurrentTeam,
+    getUnreadChannelIds,
     isFavoriteChannel,
     isManuallyUnread,
 } from 'mattermost-redux/selectors/entities/channels';
@@ -456,6 +457,18 @@ export function markChannelAsReadOnFocus(channelId) {
     };
 }
 
+export function markAllChannelsAsRead() {
+    return (dispatch, getState) => {
+        const unreadChannelIds = getUnreadChannelIds(getState());
+
+        for (const channelId of unreadChannelIds) {
+            dispatch(markChannelAsRead(channelId));
+        }
+
+        return {data: true};
+    };
+}
+
 export function updateToastStatus(status) {
     return (dispatch) => {
         dispatch({
@@ -465,6 +478,32 @@ export function updateToastStatus(status) {
     };
 }
 
+export function openFindInChannel() {
+    return {
+        type: ActionTypes.OPEN_FIND_IN_CHANNEL,
+    };
+}
+
+export function closeFindInChannel() {
+    return {
+        type: ActionTypes.CLOSE_FIND_IN_CHANNEL,
+    };
+}
+
+export function updateFindInChannelTerms(terms) {
+    return {
+        type: ActionTypes.UPDATE_FIND_IN_CHANNEL_TERMS,
+        data: terms,
+    };
+}
+
+export function selectFindInChannelMatch(postId) {
+    return {
+        type: ActionTypes.SELECT_FIND_IN_CHANNEL_MATCH,
+        data: postId,
+    };
+}
+
 export function deleteChannel(channelId) {
     return async (dispatch, getState) => {
         const res = await dispatch(deleteChannelRedux(channelId));
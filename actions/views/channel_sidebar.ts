@@ -1,12 +1,15 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import {createCategory as createCategoryRedux, moveChannelsToCategory} from 'mattermost-redux/actions/channel_categories';
+import {createCategory as createCategoryRedux, moveChannelsToCategory, setCategoryRules} from 'mattermost-redux/actions/channel_categories';
+import {getProfilesInGroup} from 'mattermost-redux/actions/users';
 import {General} from 'mattermost-redux/constants';
 import {CategoryTypes} from 'mattermost-redux/constants/channel_categories';
 import {getCategory, makeGetChannelIdsForCategory} from 'mattermost-redux/selectors/entities/channel_categories';
 import {getCurrentChannelId} from 'mattermost-redux/selectors/entities/channels';
+import {getUserIdsInGroups} from 'mattermost-redux/selectors/entities/users';
 import {DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+import {SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
 import {insertMultipleWithoutDuplicates} from 'mattermost-redux/utils/array_utils';
 
 import {getCategoriesForCurrentTeam, getChannelsInCategoryOrder, getDisplayedChannels} from 'selectors/views/channel_sidebar';
@@ -31,7 +34,7 @@ export function stopDragging() {
     return {type: ActionTypes.SIDEBAR_DRAGGING_STOP};
 }
 
-export function createCategory(teamId: string, displayName: string, channelIds?: string[]) {
+export function createCategory(teamId: string, displayName: string, channelIds?: string[], rules?: SmartCategoryRules) {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         if (channelIds) {
             const state = getState() as GlobalState;
@@ -44,6 +47,11 @@ export function createCategory(teamId: string, displayName: string, channelIds?:
         }
 
         const result: any = await dispatch(createCategoryRedux(teamId, displayName, channelIds));
+
+        if (rules && result.data) {
+            await dispatch(setCategoryRules(result.data.id, rules));
+        }
+
         return dispatch({
             type: ActionTypes.ADD_NEW_CATEGORY_ID,
             data: result.data.id,
@@ -51,6 +59,34 @@ export function createCategory(teamId: string, displayName: string, channelIds?:
     };
 }
 
+// loadGroupMembersForCategoryRules loads the members of the groups used by the rules of a smart category so that DMs and
+// GMs with those users can be found.
+export function loadGroupMembersForCategoryRules(rules: SmartCategoryRules) {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const userIdsInGroups = getUserIdsInGroups(getState() as GlobalState);
+
+        const groupIds = new Set<string>();
+        for (const condition of rules.conditions) {
+            if (condition.type === 'group_members' && !userIdsInGroups[condition.group_id]) {
+                groupIds.add(condition.group_id);
+            }
+        }
+
+        await Promise.all(Array.from(groupIds).map(async (groupId) => {
+            for (let page = 0; ; page++) {
+                // eslint-disable-next-line no-await-in-loop
+                const {data} = await dispatch(getProfilesInGroup(groupId, page, General.PAGE_SIZE_MAXIMUM)) as {data?: unknown[]};
+
+                if (!data || data.length < General.PAGE_SIZE_MAXIMUM) {
+                    break;
+                }
+            }
+        }));
+
+        return {data: true};
+    };
+}
+
 // addChannelsInSidebar moves channels to a given category without specifying the order in the sidebar, so the channels
 // will always go to the first position in the category
 export function addChannelsInSidebar(categoryId: string, channelId: string) {
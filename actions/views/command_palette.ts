@@ -0,0 +1,27 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+
+import {setItem} from 'actions/storage';
+import {getPaletteCommandUsage} from 'selectors/views/command_palette';
+
+import {addPaletteCommandUsage} from 'utils/command_palette';
+import {StoragePrefixes} from 'utils/constants';
+
+import type {GlobalState} from 'types/store';
+import type {PaletteCommand} from 'types/store/command_palette';
+
+export function runPaletteCommand(command: PaletteCommand) {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        // Slash commands are made from whatever the user typed, so there's nothing to suggest again later
+        if (command.type !== 'slash_command') {
+            const usage = getPaletteCommandUsage(getState() as GlobalState);
+            dispatch(setItem(StoragePrefixes.COMMAND_PALETTE_USAGE, addPaletteCommandUsage(usage, command.id, Date.now())));
+        }
+
+        const result = await command.run();
+
+        return result || {data: true};
+    };
+}
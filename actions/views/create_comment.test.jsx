@@ -20,6 +20,7 @@ import {
     submitCommand,
     makeOnSubmit,
     makeOnEditLatestPost,
+    sendDraft,
 } from 'actions/views/create_comment';
 import {setGlobalItem, actionOnGlobalItemsWithPrefix} from 'actions/storage';
 import * as PostActions from 'actions/post_actions.jsx';
@@ -423,6 +424,40 @@ describe('rhs view actions', () => {
         });
     });
 
+    describe('sendDraft', () => {
+        const key = `${StoragePrefixes.COMMENT_DRAFT}${rootId}`;
+        const draft = {
+            key,
+            type: 'thread',
+            channelId,
+            rootId,
+            value: {message: 'test msg', fileInfos: [], uploadsInProgress: []},
+            lastEditedAt: 1000,
+        };
+
+        test('it clears the draft once it has been sent', async () => {
+            HookActions.runMessageWillBePostedHooks.mockImplementationOnce((post) => () => ({data: post}));
+
+            const result = await store.dispatch(sendDraft(draft));
+
+            expect(result).toEqual({data: true});
+            expect(store.getActions()).toEqual([
+                {type: 'MOCK_CREATE_POST'},
+                {type: 'MOCK_SET_GLOBAL_ITEM', args: [key, null]},
+            ]);
+        });
+
+        test('it keeps the draft when it could not be sent', async () => {
+            const error = {message: 'An error occurred'};
+            HookActions.runMessageWillBePostedHooks.mockImplementationOnce(() => () => ({error}));
+
+            const result = await store.dispatch(sendDraft(draft));
+
+            expect(result).toEqual({error});
+            expect(store.getActions()).toEqual([]);
+        });
+    });
+
     describe('makeOnEditLatestPost', () => {
         const onEditLatestPost = makeOnEditLatestPost(rootId);
 
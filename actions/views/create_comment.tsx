@@ -23,12 +23,14 @@ import {isPostPendingOrFailed} from 'mattermost-redux/utils/post_utils';
 import * as PostActions from 'actions/post_actions.jsx';
 import {executeCommand} from 'actions/command';
 import {runMessageWillBePostedHooks, runSlashCommandWillBePostedHooks} from 'actions/hooks';
-import {setGlobalItem, actionOnGlobalItemsWithPrefix} from 'actions/storage';
+import {actionOnGlobalItemsWithPrefix} from 'actions/storage';
+import {discardDraft, updateDraft} from 'actions/views/drafts';
 import EmojiMap from 'utils/emoji_map';
 import {getPostDraft} from 'selectors/rhs';
 
 import * as Utils from 'utils/utils.jsx';
 import {Constants, StoragePrefixes} from 'utils/constants';
+import {DraftInfo} from 'types/store/drafts';
 import {PostDraft} from 'types/store/rhs';
 import {GlobalState} from 'types/store';
 import {DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
@@ -43,16 +45,11 @@ export function clearCommentDraftUploads() {
     });
 }
 
-// Temporarily store draft manually in localStorage since the current version of redux-persist
-// we're on will not save the draft quickly enough on page unload.
 export function updateCommentDraft(rootId: string, draft?: PostDraft | null) {
-    const key = `${StoragePrefixes.COMMENT_DRAFT}${rootId}`;
-    if (draft) {
-        localStorage.setItem(key, JSON.stringify(draft));
-    } else {
-        localStorage.removeItem(key);
-    }
-    return setGlobalItem(key, draft);
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const channelId = getPost(getState(), rootId)?.channel_id || '';
+        return dispatch(updateDraft(`${StoragePrefixes.COMMENT_DRAFT}${rootId}`, draft, channelId, rootId));
+    };
 }
 
 export function makeOnMoveHistoryIndex(rootId: string, direction: number) {
@@ -186,6 +183,33 @@ export function makeOnSubmit(channelId: string, rootId: string, latestPostId: st
     };
 }
 
+// sendDraft posts a draft without opening its channel and clears it once it has been sent. The draft is kept if it
+// couldn't be sent so that the user can fix it.
+export function sendDraft(draft: DraftInfo) {
+    return async (dispatch: DispatchFunc) => {
+        const {channelId, rootId, value} = draft;
+
+        let result;
+        try {
+            if (value.message.indexOf('/') === 0) {
+                result = await dispatch(submitCommand(channelId, rootId, value));
+            } else {
+                result = await dispatch(submitPost(channelId, rootId, value));
+            }
+        } catch (error) {
+            return {error};
+        }
+
+        if (result.error) {
+            return {error: result.error};
+        }
+
+        dispatch(discardDraft(draft));
+
+        return {data: true};
+    };
+}
+
 function makeGetCurrentUsersLatestReply() {
     const getPostIdsInThread = makeGetPostIdsForThread();
     return createSelector(
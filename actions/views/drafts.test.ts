@@ -0,0 +1,265 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import nock from 'nock';
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import {Client4} from 'mattermost-redux/client';
+import {DispatchFunc} from 'mattermost-redux/types/actions';
+
+import {GlobalState} from 'types/store';
+import {StorageTypes} from 'utils/constants';
+
+import {getDrafts, receivedServerDraft, removedServerDraft, updateDraft} from './drafts';
+
+const mockStore = configureStore<GlobalState, DispatchFunc>([thunk]);
+
+describe('actions/views/drafts', () => {
+    const channelKey = 'draft_channel1';
+    const commentKey = 'comment_draft_root1';
+
+    const serverDraft = {
+        create_at: 1000,
+        update_at: 2000,
+        delete_at: 0,
+        user_id: 'user1',
+        channel_id: 'channel1',
+        root_id: '',
+        message: 'from another device',
+        props: {},
+    };
+
+    function makeStore(storage: Record<string, any> = {}, allowSyncedDrafts = 'true') {
+        const storedDrafts: Record<string, any> = {};
+        for (const [key, value] of Object.entries(storage)) {
+            storedDrafts[key] = {value, timestamp: new Date()};
+        }
+
+        return mockStore({
+            entities: {
+                general: {
+                    config: {
+                        AllowSyncedDrafts: allowSyncedDrafts,
+                    },
+                },
+                channels: {
+                    channels: {
+                        channel1: {id: 'channel1', team_id: 'team1'},
+                        channel2: {id: 'channel2', team_id: 'team2'},
+                        dm: {id: 'dm', team_id: ''},
+                    },
+                },
+            },
+            storage: {
+                storage: storedDrafts,
+            },
+        } as unknown as GlobalState);
+    }
+
+    function getStoredDrafts(store: ReturnType<typeof makeStore>) {
+        return store.getActions().
+            filter((action: any) => action.type === StorageTypes.SET_GLOBAL_ITEM).
+            map((action: any) => [action.data.name, action.data.value]);
+    }
+
+    // Runs the thunk and the push of the draft to the server which it schedules
+    function dispatchAndPush(store: ReturnType<typeof makeStore>, action: ReturnType<typeof updateDraft>) {
+        jest.useFakeTimers('legacy');
+        const result = store.dispatch(action);
+        jest.runOnlyPendingTimers();
+        jest.useRealTimers();
+
+        return result;
+    }
+
+    beforeAll(() => {
+        Client4.setUrl('http://localhost:8065');
+    });
+
+    beforeEach(() => {
+        jest.spyOn(Date, 'now').mockReturnValue(5000);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        nock.cleanAll();
+    });
+
+    describe('updateDraft', () => {
+        test('should only store the draft locally when draft syncing is disabled', async () => {
+            const store = makeStore({}, 'false');
+            const draft = {message: 'hello', fileInfos: [], uploadsInProgress: []};
+
+            await store.dispatch(updateDraft(channelKey, draft, 'channel1'));
+
+            expect(getStoredDrafts(store)).toEqual([[channelKey, draft]]);
+        });
+
+        test('should push a changed draft to the server', async () => {
+            const scope = nock(Client4.getBaseRoute()).
+                post('/drafts', (body) => body.message === 'hello' && body.channel_id === 'channel1' && body.root_id === 'root1' && body.update_at === 5000).
+                reply(201, {...serverDraft, message: 'hello', root_id: 'root1', update_at: 5000});
+
+            const store = makeStore();
+
+            const result = await dispatchAndPush(store, updateDraft(commentKey, {message: 'hello', fileInfos: [], uploadsInProgress: []}, 'channel1', 'root1'));
+
+            expect(result).toEqual({data: true});
+            expect(scope.isDone()).toBe(true);
+            expect(getStoredDrafts(store)[0]).toEqual([commentKey, expect.objectContaining({
+                message: 'hello',
+                channelId: 'channel1',
+                rootId: 'root1',
+                createAt: 5000,
+                updateAt: 5000,
+                remote: false,
+            })]);
+        });
+
+        test('should not push a draft when only the caret position changed', async () => {
+            const existing = {message: 'hello', fileInfos: [], uploadsInProgress: [], channelId: 'channel1', rootId: '', createAt: 1000, updateAt: 2000, remote: true};
+            const store = makeStore({[channelKey]: existing});
+
+            await store.dispatch(updateDraft(channelKey, {...existing, caretPosition: 2}, 'channel1'));
+
+            expect(getStoredDrafts(store)).toEqual([[channelKey, {...existing, caretPosition: 2}]]);
+        });
+
+        test('should delete a cleared draft from the server', async () => {
+            const scope = nock(Client4.getBaseRoute()).
+                delete('/users/me/channels/channel1/drafts').
+                reply(200, {status: 'OK'});
+
+            const store = makeStore({[channelKey]: {message: 'hello', fileInfos: [], uploadsInProgress: [], channelId: 'channel1', updateAt: 2000}});
+
+            await dispatchAndPush(store, updateDraft(channelKey, null, 'channel1'));
+
+            expect(scope.isDone()).toBe(true);
+            expect(getStoredDrafts(store)).toEqual([[channelKey, null]]);
+        });
+
+        test('should keep the draft locally when the server can not be reached', async () => {
+            nock(Client4.getBaseRoute()).
+                post('/drafts').
+                replyWithError('Network error');
+
+            const store = makeStore();
+
+            const result = await dispatchAndPush(store, updateDraft(channelKey, {message: 'hello', fileInfos: [], uploadsInProgress: []}, 'channel1'));
+
+            expect(result).toHaveProperty('error');
+            expect(getStoredDrafts(store)).toEqual([[channelKey, expect.objectContaining({message: 'hello', remote: false})]]);
+        });
+
+        test('should only push the latest of several quick changes to the server', async () => {
+            const scope = nock(Client4.getBaseRoute()).
+                post('/drafts', (body) => body.message === 'hello world').
+                reply(201, {...serverDraft, message: 'hello world', update_at: 5000});
+
+            const store = makeStore();
+
+            jest.useFakeTimers('legacy');
+            const first = store.dispatch(updateDraft(channelKey, {message: 'hello', fileInfos: [], uploadsInProgress: []}, 'channel1'));
+            const second = store.dispatch(updateDraft(channelKey, {message: 'hello world', fileInfos: [], uploadsInProgress: []}, 'channel1'));
+            jest.runOnlyPendingTimers();
+            jest.useRealTimers();
+
+            expect(await first).toEqual({data: true});
+            expect(await second).toEqual({data: true});
+            expect(scope.isDone()).toBe(true);
+        });
+    });
+
+    describe('receivedServerDraft', () => {
+        test('should replace an older local draft', () => {
+            const store = makeStore({[channelKey]: {message: 'old', fileInfos: [], uploadsInProgress: [], updateAt: 1500}});
+
+            store.dispatch(receivedServerDraft(serverDraft));
+
+            expect(getStoredDrafts(store)).toEqual([[channelKey, expect.objectContaining({
+                message: 'from another device',
+                channelId: 'channel1',
+                updateAt: 2000,
+                remote: true,
+            })]]);
+        });
+
+        test('should keep a newer local draft', () => {
+            const store = makeStore({[channelKey]: {message: 'newer', fileInfos: [], uploadsInProgress: [], updateAt: 3000}});
+
+            store.dispatch(receivedServerDraft(serverDraft));
+
+            expect(store.getActions()).toEqual([]);
+        });
+
+        test('should store comment drafts using the root id', () => {
+            const store = makeStore();
+
+            store.dispatch(receivedServerDraft({...serverDraft, root_id: 'root1'}));
+
+            expect(getStoredDrafts(store)[0][0]).toBe(commentKey);
+        });
+    });
+
+    describe('removedServerDraft', () => {
+        test('should clear the local draft', () => {
+            const store = makeStore({[channelKey]: {message: 'from another device', fileInfos: [], uploadsInProgress: [], updateAt: 2000}});
+
+            store.dispatch(removedServerDraft(serverDraft));
+
+            expect(getStoredDrafts(store)).toEqual([[channelKey, null]]);
+        });
+
+        test('should keep a local draft which was changed afterwards', () => {
+            const store = makeStore({[channelKey]: {message: 'changed', fileInfos: [], uploadsInProgress: [], updateAt: 3000}});
+
+            store.dispatch(removedServerDraft(serverDraft));
+
+            expect(store.getActions()).toEqual([]);
+        });
+    });
+
+    describe('getDrafts', () => {
+        test('should merge the drafts from the server with the local ones', async () => {
+            nock(Client4.getBaseRoute()).
+                get('/users/me/teams/team1/drafts').
+                reply(200, [serverDraft]);
+            const pushScope = nock(Client4.getBaseRoute()).
+                post('/drafts', (body) => body.channel_id === 'dm').
+                reply(201, {...serverDraft, channel_id: 'dm'});
+
+            const store = makeStore({
+                [channelKey]: {message: 'old', fileInfos: [], uploadsInProgress: [], channelId: 'channel1', updateAt: 1500, remote: true},
+
+                // Written while offline
+                draft_dm: {message: 'offline', fileInfos: [], uploadsInProgress: [], channelId: 'dm', updateAt: 4000, remote: false},
+
+                // Sent from another device
+                comment_draft_root2: {message: 'sent', fileInfos: [], uploadsInProgress: [], channelId: 'channel1', rootId: 'root2', updateAt: 1000, remote: true},
+
+                // In another team
+                draft_channel2: {message: 'other team', fileInfos: [], uploadsInProgress: [], channelId: 'channel2', updateAt: 1000, remote: true},
+            });
+
+            const result = await store.dispatch(getDrafts('team1'));
+
+            expect(result).toEqual({data: [serverDraft]});
+            expect(pushScope.isDone()).toBe(true);
+            expect(getStoredDrafts(store)).toEqual([
+                [channelKey, expect.objectContaining({message: 'from another device'})],
+                ['comment_draft_root2', null],
+                ['draft_dm', expect.objectContaining({message: 'offline', remote: true})],
+            ]);
+        });
+
+        test('should do nothing when draft syncing is disabled', async () => {
+            const store = makeStore({}, 'false');
+
+            const result = await store.dispatch(getDrafts('team1'));
+
+            expect(result).toEqual({data: []});
+            expect(store.getActions()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,304 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Client4} from 'mattermost-redux/client';
+import {getChannel} from 'mattermost-redux/selectors/entities/channels';
+import {getConfig} from 'mattermost-redux/selectors/entities/general';
+import {getPost} from 'mattermost-redux/selectors/entities/posts';
+import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
+import {ActionFunc, ActionResult, DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+import {Draft} from 'mattermost-redux/types/drafts';
+
+import {setGlobalItem} from 'actions/storage';
+import {selectPost} from 'actions/views/rhs';
+import {getGlobalItem} from 'selectors/storage';
+import {browserHistory} from 'utils/browser_history';
+import Constants, {StoragePrefixes} from 'utils/constants';
+import {getChannelURL} from 'utils/utils';
+
+import type {GlobalState} from 'types/store';
+import type {DraftInfo} from 'types/store/drafts';
+import type {PostDraft} from 'types/store/rhs';
+
+export function isDraftSyncEnabled(state: GlobalState) {
+    return getConfig(state).AllowSyncedDrafts === 'true';
+}
+
+export function getDraftKey(channelId: string, rootId = '') {
+    return rootId ? StoragePrefixes.COMMENT_DRAFT + rootId : StoragePrefixes.DRAFT + channelId;
+}
+
+function isDraftEmpty(draft?: PostDraft | null) {
+    return !draft || (!draft.message && (!draft.fileInfos || draft.fileInfos.length === 0));
+}
+
+function getFileIds(draft: PostDraft) {
+    return (draft.fileInfos || []).map((fileInfo) => fileInfo.id);
+}
+
+function isSameContent(a: PostDraft, b: PostDraft) {
+    return a.message === b.message &&
+        JSON.stringify(getFileIds(a)) === JSON.stringify(getFileIds(b)) &&
+        JSON.stringify(a.props || {}) === JSON.stringify(b.props || {});
+}
+
+export function transformServerDraft(draft: Draft): PostDraft {
+    return {
+        message: draft.message,
+        fileInfos: draft.metadata?.files || [],
+        uploadsInProgress: [],
+        props: draft.props,
+        channelId: draft.channel_id,
+        rootId: draft.root_id,
+        createAt: draft.create_at,
+        updateAt: draft.update_at,
+        remote: true,
+    };
+}
+
+function transformToServerDraft(draft: PostDraft, channelId: string, rootId: string): Partial<Draft> {
+    return {
+        create_at: draft.createAt,
+        update_at: draft.updateAt,
+        channel_id: channelId,
+        root_id: rootId,
+        message: draft.message,
+        props: draft.props || {},
+        file_ids: getFileIds(draft),
+    };
+}
+
+// Temporarily store draft manually in localStorage since the current version of redux-persist
+// we're on will not save the draft quickly enough on page unload.
+function storeDraft(key: string, draft?: PostDraft | null) {
+    if (draft) {
+        localStorage.setItem(key, JSON.stringify(draft));
+    } else {
+        localStorage.removeItem(key);
+    }
+    return setGlobalItem(key, draft);
+}
+
+function pushDraft(key: string, draft: PostDraft | null | undefined, channelId: string, rootId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        try {
+            if (isDraftEmpty(draft)) {
+                await Client4.deleteDraft(channelId, rootId);
+                return {data: true};
+            }
+
+            await Client4.upsertDraft(transformToServerDraft(draft!, channelId, rootId));
+        } catch (error) {
+            // The draft is kept as a local change and pushed again the next time that drafts are fetched
+            return {error};
+        }
+
+        const current = getGlobalItem<PostDraft | null>(getState() as GlobalState, key, null);
+        if (current && current.updateAt === draft!.updateAt) {
+            dispatch(storeDraft(key, {...current, remote: true}));
+        }
+
+        return {data: true};
+    };
+}
+
+// The latest change to each draft which is waiting to be pushed to the server, by draft key
+const pendingPushes: Record<string, {timeout: number; resolve: (result: ActionResult) => void}> = {};
+
+// schedulePush pushes a draft to the server once the user has stopped changing it for a moment so that typing doesn't
+// send a request for every keystroke. The returned promise resolves once the draft has been pushed or once a later
+// change to the draft replaces it.
+function schedulePush(key: string, draft: PostDraft | null | undefined, channelId: string, rootId: string): ActionFunc {
+    return (dispatch: DispatchFunc) => {
+        const pending = pendingPushes[key];
+        if (pending) {
+            clearTimeout(pending.timeout);
+            pending.resolve({data: true});
+        }
+
+        return new Promise<ActionResult>((resolve) => {
+            const timeout = window.setTimeout(async () => {
+                delete pendingPushes[key];
+                resolve(await dispatch(pushDraft(key, draft, channelId, rootId)));
+            }, Constants.DRAFT_SYNC_TIMEOUT_MILLISECONDS);
+
+            pendingPushes[key] = {timeout, resolve};
+        });
+    };
+}
+
+// updateDraft saves a draft typed by the current user. When draft syncing is enabled, the draft is also saved on the
+// server once the user stops typing so that it's available on the user's other devices, and clearing the draft deletes
+// it from the server.
+export function updateDraft(key: string, draft: PostDraft | null | undefined, channelId: string, rootId = ''): ActionFunc {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+
+        if (!channelId || !isDraftSyncEnabled(state)) {
+            dispatch(storeDraft(key, draft));
+            return {data: true};
+        }
+
+        const existing = getGlobalItem<PostDraft | null>(state, key, null);
+
+        let updatedDraft = draft;
+        if (draft) {
+            const contentChanged = !existing || !isSameContent(existing, draft);
+            const timestamp = Date.now();
+
+            updatedDraft = {
+                ...draft,
+                channelId,
+                rootId,
+                createAt: existing?.createAt || draft.createAt || timestamp,
+                updateAt: contentChanged ? timestamp : (existing?.updateAt || timestamp),
+                remote: contentChanged ? false : existing?.remote,
+            };
+        }
+
+        dispatch(storeDraft(key, updatedDraft));
+
+        // Only talk to the server when the contents of the draft have changed. Moving the caret or starting an
+        // upload doesn't need to be synced.
+        const wasEmpty = isDraftEmpty(existing);
+        if (wasEmpty && isDraftEmpty(updatedDraft)) {
+            return {data: true};
+        }
+        if (updatedDraft && existing && updatedDraft.updateAt === existing.updateAt) {
+            return {data: true};
+        }
+
+        return dispatch(schedulePush(key, updatedDraft, channelId, rootId));
+    };
+}
+
+// receivedServerDraft applies a draft saved on another device if it's newer than the local copy of the draft.
+export function receivedServerDraft(serverDraft: Draft): ActionFunc {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const key = getDraftKey(serverDraft.channel_id, serverDraft.root_id);
+        const existing = getGlobalItem<PostDraft | null>(getState() as GlobalState, key, null);
+
+        if (existing && (existing.updateAt || 0) >= serverDraft.update_at) {
+            return {data: false};
+        }
+
+        const draft = transformServerDraft(serverDraft);
+        if (existing && isSameContent(existing, draft)) {
+            // This is most likely our own change being echoed back by the server
+            if (!existing.remote) {
+                dispatch(storeDraft(key, {...existing, remote: true}));
+            }
+            return {data: false};
+        }
+
+        dispatch(storeDraft(key, {...draft, uploadsInProgress: existing?.uploadsInProgress || []}));
+
+        return {data: true};
+    };
+}
+
+// removedServerDraft clears a draft which was sent or discarded on another device unless it has been changed locally
+// since then.
+export function removedServerDraft(serverDraft: Draft): ActionFunc {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const key = getDraftKey(serverDraft.channel_id, serverDraft.root_id);
+        const existing = getGlobalItem<PostDraft | null>(getState() as GlobalState, key, null);
+
+        if (!existing || (existing.updateAt || 0) > serverDraft.update_at) {
+            return {data: false};
+        }
+
+        dispatch(storeDraft(key, null));
+
+        return {data: true};
+    };
+}
+
+// getDrafts fetches the current user's drafts in the given team and merges them with the local ones, keeping
+// whichever version of each draft was modified last. Local drafts which were changed while the server couldn't be
+// reached are pushed to the server, and local drafts which were synced before but are gone from the server are
+// removed since they were sent or discarded on another device.
+export function getDrafts(teamId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        if (!isDraftSyncEnabled(getState() as GlobalState)) {
+            return {data: []};
+        }
+
+        let serverDrafts: Draft[];
+        try {
+            serverDrafts = await Client4.getUserDrafts(teamId);
+        } catch (error) {
+            return {error};
+        }
+
+        const serverDraftsByKey: Record<string, Draft> = {};
+        for (const serverDraft of serverDrafts) {
+            serverDraftsByKey[getDraftKey(serverDraft.channel_id, serverDraft.root_id)] = serverDraft;
+            dispatch(receivedServerDraft(serverDraft));
+        }
+
+        const state = getState() as GlobalState;
+        const pushes = [];
+        for (const [key, storedDraft] of Object.entries(state.storage.storage)) {
+            if (!key.startsWith(StoragePrefixes.DRAFT) && !key.startsWith(StoragePrefixes.COMMENT_DRAFT)) {
+                continue;
+            }
+
+            const draft: PostDraft | null = storedDraft?.value;
+            if (!draft || !draft.channelId) {
+                continue;
+            }
+
+            const serverDraft = serverDraftsByKey[key];
+            if (serverDraft) {
+                if (!draft.remote && (draft.updateAt || 0) > serverDraft.update_at) {
+                    pushes.push(dispatch(pushDraft(key, draft, draft.channelId, draft.rootId || '')));
+                }
+                continue;
+            }
+
+            // The server only returns drafts in the given team and in DMs and GMs
+            const channel = getChannel(state, draft.channelId);
+            if (!channel || (channel.team_id && channel.team_id !== teamId)) {
+                continue;
+            }
+
+            if (draft.remote) {
+                dispatch(storeDraft(key, null));
+            } else if (!isDraftEmpty(draft)) {
+                pushes.push(dispatch(pushDraft(key, draft, draft.channelId, draft.rootId || '')));
+            }
+        }
+
+        await Promise.all(pushes);
+
+        return {data: serverDrafts};
+    };
+}
+
+// openDraft switches to the channel of a draft so that the user can continue writing it, opening the thread in the
+// RHS for a reply.
+export function openDraft(draft: DraftInfo): ActionFunc {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+        const channel = getChannel(state, draft.channelId);
+        if (!channel) {
+            return {data: false};
+        }
+
+        browserHistory.push(getChannelURL(state, channel, getCurrentTeamId(state)));
+
+        if (draft.type === 'thread') {
+            const rootPost = getPost(state, draft.rootId);
+            if (rootPost) {
+                dispatch(selectPost(rootPost));
+            }
+        }
+
+        return {data: true};
+    };
+}
+
+export function discardDraft(draft: DraftInfo): ActionFunc {
+    return updateDraft(draft.key, null, draft.channelId, draft.rootId);
+}
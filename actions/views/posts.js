@@ -5,11 +5,20 @@ import * as PostActions from 'mattermost-redux/actions/posts';
 
 import {logError} from 'mattermost-redux/actions/errors';
 
+import {isNetworkError, isOffline, queueEditPost} from 'actions/outbox';
+
 import {ActionTypes, AnnouncementBarTypes} from 'utils/constants';
 
 export function editPost(post) {
     return async (dispatch, getState) => {
+        if (isOffline(getState())) {
+            return dispatch(queueEditPost(post));
+        }
+
         const result = await PostActions.editPost(post)(dispatch, getState);
+        if (result.error && isNetworkError(result.error)) {
+            return dispatch(queueEditPost(post));
+        }
 
         // Send to error bar if it's an edit post error about time limit.
         if (result.error && result.error.server_error_id === 'api.post.update_post.permissions_time_limit.app_error') {
@@ -32,6 +32,9 @@ import {
     closeMenu,
     openAtPrevious,
     updateSearchType,
+    updateSearchResultsSort,
+    updateSearchResultsGrouping,
+    getSearchResultContext,
     suppressRHS,
     unsuppressRHS,
 } from 'actions/views/rhs';
@@ -63,6 +66,8 @@ global.Date.now = jest.fn(() => POST_CREATED_TIME);
 jest.mock('mattermost-redux/actions/posts', () => ({
     getPostThread: (...args: any) => ({type: 'MOCK_GET_POST_THREAD', args}),
     getProfilesAndStatusesForPosts: (...args: any) => ({type: 'MOCK_GET_PROFILES_AND_STATUSES_FOR_POSTS', args}),
+    getPostsBefore: jest.fn(),
+    getPostsAfter: jest.fn(),
 }));
 
 jest.mock('mattermost-redux/actions/search', () => ({
@@ -762,6 +767,55 @@ describe('rhs view actions', () => {
         });
     });
 
+    describe('search results order', () => {
+        test('updateSearchResultsSort', () => {
+            const store = mockStore(initialState);
+            store.dispatch(updateSearchResultsSort('relevance'));
+            expect(store.getActions()).toEqual([{
+                type: ActionTypes.UPDATE_RHS_SEARCH_RESULTS_SORT,
+                sort: 'relevance',
+            }]);
+        });
+
+        test('updateSearchResultsGrouping', () => {
+            const store = mockStore(initialState);
+            store.dispatch(updateSearchResultsGrouping('thread'));
+            expect(store.getActions()).toEqual([{
+                type: ActionTypes.UPDATE_RHS_SEARCH_RESULTS_GROUPING,
+                grouping: 'thread',
+            }]);
+        });
+    });
+
+    describe('getSearchResultContext', () => {
+        const post = {
+            id: 'post3',
+            channel_id: 'channel123',
+        } as Post;
+
+        test('should return the surrounding posts from oldest to newest', async () => {
+            (PostActions.getPostsBefore as jest.Mock).mockReturnValue(() => ({data: {order: ['post2', 'post1'], posts: {}}}));
+            (PostActions.getPostsAfter as jest.Mock).mockReturnValue(() => ({data: {order: ['post5', 'post4'], posts: {}}}));
+
+            const result = await store.dispatch(getSearchResultContext(post, 2));
+
+            expect(PostActions.getPostsBefore).toHaveBeenCalledWith('channel123', 'post3', 0, 2);
+            expect(PostActions.getPostsAfter).toHaveBeenCalledWith('channel123', 'post3', 0, 2);
+            expect(result).toEqual({data: {before: ['post1', 'post2'], after: ['post4', 'post5']}});
+        });
+
+        test('should return an error if either request fails', async () => {
+            const error = new Error('failed');
+            (PostActions.getPostsBefore as jest.Mock).mockReturnValue(() => ({data: {order: [], posts: {}}}));
+            (PostActions.getPostsAfter as jest.Mock).mockReturnValue(() => ({error}));
+
+            const result = await store.dispatch(getSearchResultContext(post));
+
+            expect(PostActions.getPostsBefore).toHaveBeenCalledWith('channel123', 'post3', 0, Constants.SEARCH_RESULT_CONTEXT_SIZE);
+            expect(result).toEqual({error});
+        });
+    });
+
     describe('selectPostAndHighlight', () => {
         const post1 = {id: '42'} as Post;
         const post2 = {id: '43'} as Post;
@@ -28,8 +28,10 @@ import {getSearchTerms, getRhsState, getPluggableId, getFilesSearchExtFilter} fr
 import {ActionTypes, RHSStates, Constants} from 'utils/constants';
 import * as Utils from 'utils/utils';
 import {getBrowserUtcOffset, getUtcOffsetForTimeZone} from 'utils/timezone';
-import {RhsState} from 'types/store/rhs';
+import {addSearchQueryPart, formatSearchQuery, parseSearchQuery} from 'utils/search_query';
+import {RhsState, SearchResultsGrouping, SearchResultsSort} from 'types/store/rhs';
 import {GlobalState} from 'types/store';
+import type {SavedSearchParams} from 'types/store/saved_searches';
 import {getPostsByIds} from 'mattermost-redux/actions/posts';
 
 function selectPostFromRightHandSideSearchWithPreviousState(post: Post, previousRhsState?: RhsState) {
@@ -118,6 +120,42 @@ export function updateSearchType(searchType: string) {
     };
 }
 
+export function updateSearchResultsSort(sort: SearchResultsSort) {
+    return {
+        type: ActionTypes.UPDATE_RHS_SEARCH_RESULTS_SORT,
+        sort,
+    };
+}
+
+export function updateSearchResultsGrouping(grouping: SearchResultsGrouping) {
+    return {
+        type: ActionTypes.UPDATE_RHS_SEARCH_RESULTS_GROUPING,
+        grouping,
+    };
+}
+
+// getSearchResultContext loads the messages posted in the channel just before and after a search result. The IDs of
+// each are returned from oldest to newest.
+export function getSearchResultContext(post: Post, count = Constants.SEARCH_RESULT_CONTEXT_SIZE) {
+    return async (dispatch: DispatchFunc) => {
+        const [before, after] = await Promise.all([
+            dispatch(PostActions.getPostsBefore(post.channel_id, post.id, 0, count)),
+            dispatch(PostActions.getPostsAfter(post.channel_id, post.id, 0, count)),
+        ]) as ActionResult[];
+
+        if (before.error || after.error) {
+            return {error: before.error || after.error};
+        }
+
+        return {
+            data: {
+                before: [...before.data.order].reverse(),
+                after: [...after.data.order].reverse(),
+            },
+        };
+    };
+}
+
 function updateSearchResultsTerms(terms: string) {
     return {
         type: ActionTypes.UPDATE_RHS_SEARCH_RESULTS_TERMS,
@@ -125,26 +163,39 @@ function updateSearchResultsTerms(terms: string) {
     };
 }
 
-export function performSearch(terms: string, isMentionSearch?: boolean) {
+// getSearchParams returns the parameters which the given terms are searched for with, apart from the page to load
+export function getSearchParams(state: GlobalState, terms: string, isOrSearch: boolean): SavedSearchParams {
+    const config = getConfig(state);
+    const viewArchivedChannels = config.ExperimentalViewArchivedChannels === 'true';
+
+    // timezone offset in seconds
+    const userId = getCurrentUserId(state);
+    const userTimezone = getUserTimezone(state, userId);
+    const userCurrentTimezone = getUserCurrentTimezone(userTimezone);
+    const timezoneOffset = ((userCurrentTimezone && (userCurrentTimezone.length > 0)) ? getUtcOffsetForTimeZone(userCurrentTimezone) : getBrowserUtcOffset()) * 60;
+
+    // Send the query in the form the server expects, whether it was typed or built from the search filters
+    return {
+        terms: formatSearchQuery(parseSearchQuery(terms)),
+        is_or_search: isOrSearch,
+        include_deleted_channels: viewArchivedChannels,
+        time_zone_offset: timezoneOffset,
+    };
+}
+
+// performSearch searches for the given terms unless the stored parameters of a saved search are passed instead
+export function performSearch(terms: string, isMentionSearch?: boolean, savedParams?: SavedSearchParams) {
     return (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const teamId = getCurrentTeamId(getState());
-        const config = getConfig(getState());
-        const viewArchivedChannels = config.ExperimentalViewArchivedChannels === 'true';
         const extensionsFilters = getFilesSearchExtFilter(getState() as GlobalState);
 
-        const extensions = extensionsFilters?.map((ext) => `ext:${ext}`).join(' ');
-        let termsWithExtensionsFilters = terms;
-        if (extensions?.trim().length > 0) {
-            termsWithExtensionsFilters += ` ${extensions}`;
-        }
+        const params = savedParams || getSearchParams(getState() as GlobalState, terms, Boolean(isMentionSearch));
+        const termsWithExtensionsFilters = (extensionsFilters || []).reduce((filesTerms, ext) => {
+            return addSearchQueryPart(filesTerms, {type: 'ext', value: ext, excluded: false});
+        }, params.terms);
 
-        // timezone offset in seconds
-        const userId = getCurrentUserId(getState());
-        const userTimezone = getUserTimezone(getState(), userId);
-        const userCurrentTimezone = getUserCurrentTimezone(userTimezone);
-        const timezoneOffset = ((userCurrentTimezone && (userCurrentTimezone.length > 0)) ? getUtcOffsetForTimeZone(userCurrentTimezone) : getBrowserUtcOffset()) * 60;
-        const messagesPromise = dispatch(searchPostsWithParams(isMentionSearch ? '' : teamId, {terms, is_or_search: Boolean(isMentionSearch), include_deleted_channels: viewArchivedChannels, time_zone_offset: timezoneOffset, page: 0, per_page: 20}));
-        const filesPromise = dispatch(searchFilesWithParams(teamId, {terms: termsWithExtensionsFilters, is_or_search: Boolean(isMentionSearch), include_deleted_channels: viewArchivedChannels, time_zone_offset: timezoneOffset, page: 0, per_page: 20}));
+        const messagesPromise = dispatch(searchPostsWithParams(isMentionSearch ? '' : teamId, {...params, page: 0, per_page: 20}));
+        const filesPromise = dispatch(searchFilesWithParams(teamId, {...params, terms: termsWithExtensionsFilters, page: 0, per_page: 20}));
         return Promise.all([filesPromise, messagesPromise]);
     };
 }
@@ -158,7 +209,7 @@ export function filterFilesSearchByExt(extensions: string[]) {
     };
 }
 
-export function showSearchResults(isMentionSearch = false) {
+export function showSearchResults(isMentionSearch = false, savedParams?: SavedSearchParams) {
     return (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const state = getState() as GlobalState;
 
@@ -171,7 +222,7 @@ export function showSearchResults(isMentionSearch = false) {
         }
         dispatch(updateSearchResultsTerms(searchTerms));
 
-        return dispatch(performSearch(searchTerms));
+        return dispatch(performSearch(searchTerms, false, savedParams));
     };
 }
 
@@ -0,0 +1,142 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import {savePreferences} from 'mattermost-redux/actions/preferences';
+import {getProfilesByIds} from 'mattermost-redux/actions/users';
+import {DispatchFunc} from 'mattermost-redux/types/actions';
+import {PostType} from 'mattermost-redux/types/posts';
+
+import {GlobalState} from 'types/store';
+import {Preferences, SearchTypes} from 'utils/constants';
+import {TestHelper} from 'utils/test_helper';
+
+import {handleNewPostsForSavedSearches, saveSavedSearches} from './saved_searches';
+
+jest.mock('mattermost-redux/actions/preferences', () => ({
+    savePreferences: jest.fn(() => ({type: 'MOCK_SAVE_PREFERENCES'})),
+}));
+
+jest.mock('mattermost-redux/actions/users', () => ({
+    getProfilesByIds: jest.fn(() => ({type: 'MOCK_GET_PROFILES_BY_IDS'})),
+}));
+
+jest.mock('actions/notification_actions.jsx', () => ({
+    sendSavedSearchNotification: jest.fn(() => ({type: 'MOCK_SEND_SAVED_SEARCH_NOTIFICATION'})),
+}));
+
+const mockStore = configureStore<GlobalState, DispatchFunc>([thunk]);
+
+describe('actions/views/saved_searches', () => {
+    function makeSearch(id: string, terms: string) {
+        return {
+            id,
+            name: id,
+            teamId: 'team1',
+            params: {terms, is_or_search: false, include_deleted_channels: false, time_zone_offset: 0},
+            subscribed: true,
+        };
+    }
+
+    function makeStore(searches = [makeSearch('search1', 'build'), makeSearch('search2', 'build in:@user2')]) {
+        return mockStore({
+            entities: {
+                channels: {
+                    channels: {
+                        channel1: {id: 'channel1', team_id: 'team1', name: 'releases', type: 'O'},
+                        dm: {id: 'dm', team_id: '', name: 'user1__user2', type: 'D'},
+                    },
+                },
+                preferences: {
+                    myPreferences: {
+                        [`${Preferences.CATEGORY_DISPLAY_SETTINGS}--${Preferences.SAVED_SEARCHES}`]: {
+                            category: Preferences.CATEGORY_DISPLAY_SETTINGS,
+                            name: Preferences.SAVED_SEARCHES,
+                            value: JSON.stringify(searches),
+                        },
+                    },
+                },
+                users: {
+                    currentUserId: 'user1',
+                    profiles: {
+                        user1: {id: 'user1', username: 'user1'},
+                        user2: {id: 'user2', username: 'user2'},
+                    },
+                },
+            },
+        } as unknown as GlobalState);
+    }
+
+    function makePost(id: string, channelId: string, userId: string) {
+        return TestHelper.getPostMock({id, channel_id: channelId, user_id: userId, message: 'The build failed', type: '' as PostType});
+    }
+
+    function getAlerts(store: ReturnType<typeof makeStore>) {
+        return store.getActions().
+            filter((action) => action.type === SearchTypes.RECEIVED_SAVED_SEARCH_ALERT).
+            map((action) => action.data.searchId);
+    }
+
+    beforeEach(() => {
+        (getProfilesByIds as jest.Mock).mockClear();
+        (savePreferences as jest.Mock).mockClear();
+    });
+
+    test('should load the authors of the posts which are missing at once', async () => {
+        const store = makeStore();
+
+        await store.dispatch(handleNewPostsForSavedSearches([
+            makePost('post1', 'channel1', 'user3'),
+            makePost('post2', 'channel1', 'user4'),
+            makePost('post3', 'channel1', 'user2'),
+        ]));
+
+        expect(getProfilesByIds).toHaveBeenCalledTimes(1);
+        expect(getProfilesByIds).toHaveBeenCalledWith(['user3', 'user4']);
+        expect(getAlerts(store)).toEqual(['search1', 'search1', 'search1']);
+    });
+
+    test('should find direct messages by the username of the other member', async () => {
+        const store = makeStore();
+
+        await store.dispatch(handleNewPostsForSavedSearches([makePost('post1', 'dm', 'user2')]));
+
+        expect(getProfilesByIds).not.toHaveBeenCalled();
+        expect(getAlerts(store)).toEqual(['search1', 'search2']);
+    });
+
+    test('should ignore posts by the current user', async () => {
+        const store = makeStore();
+
+        const result = await store.dispatch(handleNewPostsForSavedSearches([makePost('post1', 'channel1', 'user1')]));
+
+        expect(result).toEqual({data: false});
+        expect(getAlerts(store)).toEqual([]);
+    });
+
+    test('should save the searches in a preference', async () => {
+        const store = makeStore();
+        const searches = [makeSearch('search1', 'build')];
+
+        await store.dispatch(saveSavedSearches(searches));
+
+        expect(savePreferences).toHaveBeenCalledWith('user1', [{
+            user_id: 'user1',
+            category: Preferences.CATEGORY_DISPLAY_SETTINGS,
+            name: Preferences.SAVED_SEARCHES,
+            value: JSON.stringify(searches),
+        }]);
+    });
+
+    test('should return an error without saving searches which are too long for the preference', async () => {
+        const store = makeStore();
+        const searches = [makeSearch('search1', 'build'.repeat(Preferences.MAX_VALUE_LENGTH / 5))];
+
+        const result = await store.dispatch(saveSavedSearches(searches));
+
+        expect(result.error).toBeDefined();
+        expect(savePreferences).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,181 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {savePreferences} from 'mattermost-redux/actions/preferences';
+import {getProfilesByIds} from 'mattermost-redux/actions/users';
+import {getChannel} from 'mattermost-redux/selectors/entities/channels';
+import {General} from 'mattermost-redux/constants';
+import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
+import {getCurrentUserId, getUser} from 'mattermost-redux/selectors/entities/users';
+import {DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+import {Post} from 'mattermost-redux/types/posts';
+import {Channel} from 'mattermost-redux/types/channels';
+import {getUserIdFromChannelName} from 'mattermost-redux/utils/channel_utils';
+import {isSystemMessage} from 'mattermost-redux/utils/post_utils';
+
+import {sendSavedSearchNotification} from 'actions/notification_actions.jsx';
+import {getSearchParams, showSearchResults, updateSearchTerms} from 'actions/views/rhs';
+import {getSavedSearches, getSubscribedSavedSearches} from 'selectors/views/saved_searches';
+
+import {Preferences, SearchTypes} from 'utils/constants';
+import {matchesSearchQuery} from 'utils/saved_searches';
+import {generateId, localizeMessage} from 'utils/utils';
+
+import type {GlobalState} from 'types/store';
+import type {SavedSearch} from 'types/store/saved_searches';
+
+export function saveSavedSearches(searches: SavedSearch[]) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        // All of the searches are stored in one preference, so the searches can't be saved once they're too long for it
+        const value = JSON.stringify(searches);
+        if (value.length > Preferences.MAX_VALUE_LENGTH) {
+            return {error: {message: localizeMessage('saved_searches.tooMany', 'You have too many saved searches. Delete a search and try again.')}};
+        }
+
+        return dispatch(savePreferences(currentUserId, [{
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_DISPLAY_SETTINGS,
+            name: Preferences.SAVED_SEARCHES,
+            value,
+        }]));
+    };
+}
+
+// saveSearch saves the given search terms under a name in the current team along with the rest of the parameters
+// which they're searched for with so that running the saved search later finds the same posts
+export function saveSearch(name: string, terms: string, subscribed: boolean) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState() as GlobalState;
+
+        const search: SavedSearch = {
+            id: generateId(),
+            name,
+            teamId: getCurrentTeamId(state),
+            params: getSearchParams(state, terms, false),
+            subscribed,
+        };
+
+        return dispatch(saveSavedSearches([...getSavedSearches(state), search]));
+    };
+}
+
+export function deleteSavedSearch(searchId: SavedSearch['id']) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const searches = getSavedSearches(getState() as GlobalState);
+
+        dispatch(clearSavedSearchAlerts(searchId));
+        return dispatch(saveSavedSearches(searches.filter((search) => search.id !== searchId)));
+    };
+}
+
+export function setSavedSearchSubscribed(searchId: SavedSearch['id'], subscribed: boolean) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const searches = getSavedSearches(getState() as GlobalState);
+
+        if (!subscribed) {
+            dispatch(clearSavedSearchAlerts(searchId));
+        }
+        return dispatch(saveSavedSearches(searches.map((search) => (search.id === searchId ? {...search, subscribed} : search))));
+    };
+}
+
+export function clearSavedSearchAlerts(searchId: SavedSearch['id']) {
+    return {
+        type: SearchTypes.CLEAR_SAVED_SEARCH_ALERTS,
+        data: {searchId},
+    };
+}
+
+// runSavedSearch shows the results of a saved search, which also marks its new matches as seen
+export function runSavedSearch(search: SavedSearch) {
+    return (dispatch: DispatchFunc) => {
+        dispatch(clearSavedSearchAlerts(search.id));
+        dispatch(updateSearchTerms(search.params.terms));
+
+        return dispatch(showSearchResults(false, search.params));
+    };
+}
+
+// getSearchableChannelNames returns the names which the channel is found by with the in: filter. Direct and group
+// messages are found by the usernames of their members.
+function getSearchableChannelNames(state: GlobalState, channel: Channel) {
+    const names = [channel.name];
+
+    if (channel.type === General.DM_CHANNEL) {
+        const teammate = getUser(state, getUserIdFromChannelName(getCurrentUserId(state), channel.name));
+        if (teammate) {
+            names.push('@' + teammate.username);
+        }
+    } else if (channel.type === General.GM_CHANNEL) {
+        names.push('@' + channel.display_name.replace(/ /g, ''));
+    }
+
+    return names;
+}
+
+// handleNewPostsForSavedSearches checks posts received over the WebSocket against the saved searches which the user has
+// subscribed to. Each match is counted and the user is notified about it. Posts are matched in the browser since the
+// server doesn't know about saved searches.
+export function handleNewPostsForSavedSearches(posts: Post[]) {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        let state = getState() as GlobalState;
+
+        const searches = getSubscribedSavedSearches(state);
+        if (searches.length === 0) {
+            return {data: false};
+        }
+
+        const currentUserId = getCurrentUserId(state);
+        const candidates = posts.filter((post) => {
+            if (isSystemMessage(post) || !getChannel(state, post.channel_id)) {
+                return false;
+            }
+
+            return post.user_id !== currentUserId || post.props?.from_webhook === 'true';
+        });
+
+        // Load everyone who the posts are from or sent to in direct messages at once
+        const userIds = new Set<string>();
+        for (const post of candidates) {
+            userIds.add(post.user_id);
+
+            const channel = getChannel(state, post.channel_id);
+            if (channel.type === General.DM_CHANNEL) {
+                userIds.add(getUserIdFromChannelName(currentUserId, channel.name));
+            }
+        }
+
+        const missingUserIds = [...userIds].filter((userId) => userId && !getUser(state, userId));
+        if (missingUserIds.length > 0) {
+            await dispatch(getProfilesByIds(missingUserIds));
+            state = getState() as GlobalState;
+        }
+
+        let matched = false;
+        for (const post of candidates) {
+            // Like searching, direct and group messages are found from any team
+            const channel = getChannel(state, post.channel_id);
+            const teamSearches = searches.filter((search) => !channel.team_id || search.teamId === channel.team_id);
+
+            const context = {
+                username: getUser(state, post.user_id)?.username || '',
+                channelNames: getSearchableChannelNames(state, channel),
+            };
+
+            const matches = teamSearches.filter((search) => matchesSearchQuery(post, search.params, context));
+            for (const search of matches) {
+                dispatch({
+                    type: SearchTypes.RECEIVED_SAVED_SEARCH_ALERT,
+                    data: {searchId: search.id},
+                });
+                dispatch(sendSavedSearchNotification(search, post));
+            }
+
+            matched = matched || matches.length > 0;
+        }
+
+        return {data: matched};
+    };
+}
@@ -3,13 +3,17 @@
 
 import {batchActions} from 'redux-batched-actions';
 
+import {savePreferences} from 'mattermost-redux/actions/preferences';
 import {getCurrentRelativeTeamUrl} from 'mattermost-redux/selectors/entities/teams';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
 import {GetStateFunc, DispatchFunc} from 'mattermost-redux/types/actions';
 
 import {browserHistory} from 'utils/browser_history';
+import {localizeMessage} from 'utils/utils';
 
 import {GlobalState} from 'types/store';
-import {ActionTypes, Threads} from 'utils/constants';
+import type {SavedThreadView} from 'types/store/thread_views';
+import {ActionTypes, Preferences, Threads} from 'utils/constants';
 
 export function updateThreadLastOpened(threadId: string, lastViewedAt: number) {
     return {
@@ -57,3 +61,22 @@ export function updateThreadToastStatus(status: boolean) {
         data: status,
     };
 }
+
+export function saveThreadViews(views: SavedThreadView[]) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        // All of the views are stored in one preference, so the views can't be saved once they're too long for it
+        const value = JSON.stringify(views);
+        if (value.length > Preferences.MAX_VALUE_LENGTH) {
+            return {error: {message: localizeMessage('threading.filters.tooManyViews', 'You have too many saved views. Delete a view and try again.')}};
+        }
+
+        return dispatch(savePreferences(currentUserId, [{
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_DISPLAY_SETTINGS,
+            name: Preferences.SAVED_THREAD_VIEWS,
+            value,
+        }]));
+    };
+}
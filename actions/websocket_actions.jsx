@@ -16,6 +16,7 @@ import {
     AdminTypes,
     IntegrationTypes,
     PreferenceTypes,
+    ScheduledPostTypes,
 } from 'mattermost-redux/action_types';
 import {WebsocketEvents, General, Permissions} from 'mattermost-redux/constants';
 import {addChannelToInitialCategory, fetchMyCategories, receivedCategoryOrder} from 'mattermost-redux/actions/channel_categories';
@@ -83,13 +84,19 @@ import {appsEnabled} from 'mattermost-redux/selectors/entities/apps';
 import {getStandardAnalytics} from 'mattermost-redux/actions/admin';
 
 import {fetchAppBindings, fetchRHSAppsBindings} from 'mattermost-redux/actions/apps';
+import {fetchScheduledPosts} from 'mattermost-redux/actions/scheduled_posts';
 
 import {getSelectedChannelId, getSelectedPost} from 'selectors/rhs';
 import {isThreadOpen, isThreadManuallyUnread} from 'selectors/views/threads';
 
+import {runMessageWillBeReceivedHooks, runReactionWillBeAddedHooks} from 'actions/hooks';
+import {clearChannelNotifications, clearThreadNotifications} from 'actions/notification_actions.jsx';
+import {processOutbox} from 'actions/outbox';
+import {getDrafts, receivedServerDraft, removedServerDraft} from 'actions/views/drafts';
 import {openModal} from 'actions/views/modals';
 import {incrementWsErrorCount, resetWsErrorCount} from 'actions/views/system';
 import {closeRightHandSide} from 'actions/views/rhs';
+import {handleNewPostsForSavedSearches} from 'actions/views/saved_searches';
 import {syncPostsInChannel} from 'actions/views/channel';
 import {updateThreadLastOpened} from 'actions/views/threads';
 
@@ -116,6 +123,8 @@ const MAX_WEBSOCKET_FAILS = 7;
 
 const pluginEventHandlers = {};
 
+let removeConnectionStateListener = null;
+
 export function initialize() {
     if (!window.WebSocket) {
         console.log('Browser does not support websocket'); //eslint-disable-line no-console
@@ -157,9 +166,14 @@ export function initialize() {
 
     WebSocketClient.setEventCallback(handleEvent);
     WebSocketClient.setFirstConnectCallback(handleFirstConnect);
-    WebSocketClient.setReconnectCallback(() => reconnect(false));
+    WebSocketClient.setReconnectCallback(handleReconnect);
     WebSocketClient.setMissedEventCallback(() => reconnect(false));
-    WebSocketClient.setCloseCallback(handleClose);
+
+    if (removeConnectionStateListener) {
+        removeConnectionStateListener();
+    }
+    removeConnectionStateListener = WebSocketClient.addConnectionStateListener(handleConnectionStateChange);
+
     WebSocketClient.initialize(connUrl);
 }
 
@@ -182,6 +196,14 @@ export function unregisterPluginReconnectHandler(pluginId) {
     Reflect.deleteProperty(pluginReconnectHandlers, pluginId);
 }
 
+function runPluginReconnectHandlers() {
+    Object.values(pluginReconnectHandlers).forEach((handler) => {
+        if (handler && typeof handler === 'function') {
+            handler();
+        }
+    });
+}
+
 export function reconnect(includeWebSocket = true) {
     if (includeWebSocket) {
         reconnectWebSocket();
@@ -193,12 +215,7 @@ export function reconnect(includeWebSocket = true) {
     });
 
     loadPluginsIfNecessary();
-
-    Object.values(pluginReconnectHandlers).forEach((handler) => {
-        if (handler && typeof handler === 'function') {
-            handler();
-        }
-    });
+    runPluginReconnectHandlers();
 
     const state = getState();
     const currentTeamId = state.entities.teams.currentTeamId;
@@ -225,6 +242,12 @@ export function reconnect(includeWebSocket = true) {
         if (crtEnabled) {
             dispatch(fetchThreads(currentUserId, currentTeamId, {unread: true, perPage: 200}));
         }
+
+        dispatch(getDrafts(currentTeamId));
+
+        if (getConfig(state).EnableScheduledPosts === 'true') {
+            dispatch(fetchScheduledPosts(currentTeamId));
+        }
     }
 
     if (state.websocket.lastDisconnectAt) {
@@ -233,6 +256,33 @@ export function reconnect(includeWebSocket = true) {
 
     dispatch(resetWsErrorCount());
     dispatch(clearErrors());
+    dispatch(processOutbox());
+}
+
+// handleReconnect is called when the websocket has resumed its previous session. The server replays
+// every event we missed while disconnected, so there's no need to refetch channels and posts, but
+// plugins and the data which isn't sent as events are still refreshed like after any reconnection.
+export function handleReconnect() {
+    dispatch({
+        type: GeneralTypes.WEBSOCKET_SUCCESS,
+        timestamp: Date.now(),
+    });
+
+    loadPluginsIfNecessary();
+    runPluginReconnectHandlers();
+
+    const state = getState();
+    if (state.entities.teams.currentTeamId) {
+        StatusActions.loadStatusesForChannelAndSidebar();
+    }
+
+    if (state.websocket.lastDisconnectAt) {
+        dispatch(checkForModifiedUsers());
+    }
+
+    dispatch(resetWsErrorCount());
+    dispatch(clearErrors());
+    dispatch(processOutbox());
 }
 
 let intervalId = '';
@@ -283,6 +333,20 @@ function handleFirstConnect() {
         },
         clearErrors(),
     ]));
+
+    // Send anything that was queued while offline before the page was last closed
+    dispatch(processOutbox());
+}
+
+export function handleConnectionStateChange(connectionState) {
+    dispatch({
+        type: ActionTypes.WEBSOCKET_CONNECTION_STATE_CHANGED,
+        data: connectionState,
+    });
+
+    if (connectionState.status === 'closed' && connectionState.connectFailCount > 0) {
+        handleClose(connectionState.connectFailCount);
+    }
 }
 
 function handleClose(failCount) {
@@ -530,6 +594,22 @@ export function handleEvent(msg) {
         dispatch(handleThreadUpdated(msg));
         break;
 
+    case SocketEvents.DRAFT_CREATED:
+    case SocketEvents.DRAFT_UPDATED:
+        handleDraftUpsertedEvent(msg);
+        break;
+    case SocketEvents.DRAFT_DELETED:
+        handleDraftDeletedEvent(msg);
+        break;
+
+    case SocketEvents.SCHEDULED_POST_CREATED:
+    case SocketEvents.SCHEDULED_POST_UPDATED:
+        handleScheduledPostUpsertedEvent(msg);
+        break;
+    case SocketEvents.SCHEDULED_POST_DELETED:
+        handleScheduledPostDeletedEvent(msg);
+        break;
+
     case SocketEvents.APPS_FRAMEWORK_REFRESH_BINDINGS: {
         dispatch(handleRefreshAppsBindings(msg));
         break;
@@ -623,8 +703,14 @@ const handleNewPostEventDebounced = debouncePostEvent(100);
 
 export function handleNewPostEvent(msg) {
     return (myDispatch, myGetState) => {
-        const post = JSON.parse(msg.data.post);
+        const {data: post} = myDispatch(runMessageWillBeReceivedHooks(JSON.parse(msg.data.post)));
+        if (!post) {
+            // A plugin hid the post
+            return;
+        }
+
         myDispatch(handleNewPost(post, msg));
+        myDispatch(handleNewPostsForSavedSearches([post]));
 
         getProfilesAndStatusesForPosts([post], myDispatch, myGetState);
 
@@ -649,7 +735,16 @@ export function handleNewPostEvent(msg) {
 export function handleNewPostEvents(queue) {
     return (myDispatch, myGetState) => {
         // Note that this method doesn't properly update the sidebar state for these posts
-        const posts = queue.map((msg) => JSON.parse(msg.data.post));
+        const posts = [];
+        for (const msg of queue) {
+            const {data: post} = myDispatch(runMessageWillBeReceivedHooks(JSON.parse(msg.data.post)));
+            if (post) {
+                posts.push(post);
+            }
+        }
+        if (posts.length === 0) {
+            return;
+        }
 
         // Receive the posts as one continuous block since they were received within a short period
         const crtEnabled = isCollapsedThreadsEnabled(myGetState());
@@ -661,12 +756,19 @@ export function handleNewPostEvents(queue) {
 
         // And any other data needed for them
         getProfilesAndStatusesForPosts(posts, myDispatch, myGetState);
+
+        myDispatch(handleNewPostsForSavedSearches(posts));
     };
 }
 
 export function handlePostEditEvent(msg) {
     // Store post
-    const post = JSON.parse(msg.data.post);
+    const {data: post} = runMessageWillBeReceivedHooks(JSON.parse(msg.data.post))(dispatch, getState);
+    if (!post) {
+        // A plugin hid the new version of the post, so the old one is kept
+        return;
+    }
+
     const crtEnabled = isCollapsedThreadsEnabled(getState());
     dispatch(receivedPost(post, crtEnabled));
 
@@ -1196,7 +1298,10 @@ function handleHelloEvent(msg) {
 }
 
 function handleReactionAddedEvent(msg) {
-    const reaction = JSON.parse(msg.data.reaction);
+    const {data: reaction} = runReactionWillBeAddedHooks(JSON.parse(msg.data.reaction))(dispatch, getState);
+    if (!reaction) {
+        return;
+    }
 
     dispatch(getCustomEmojiForReaction(reaction.emoji_name));
 
@@ -1225,6 +1330,10 @@ function handleReactionRemovedEvent(msg) {
 }
 
 function handleChannelViewedEvent(msg) {
+    if (getCurrentUserId(getState()) === msg.broadcast.user_id) {
+        clearChannelNotifications(msg.data.channel_id);
+    }
+
     // Useful for when multiple devices have the app open to different channels
     if ((!window.isActive || getCurrentChannelId(getState()) !== msg.data.channel_id) &&
         getCurrentUserId(getState()) === msg.broadcast.user_id) {
@@ -1462,6 +1571,10 @@ function handleFirstAdminVisitMarketplaceStatusReceivedEvent(msg) {
 function handleThreadReadChanged(msg) {
     return (doDispatch, doGetState) => {
         if (msg.data.thread_id) {
+            if (!msg.data.unread_replies) {
+                clearThreadNotifications(msg.data.thread_id);
+            }
+
             const state = doGetState();
             const thread = getThreads(state)?.[msg.data.thread_id];
             if (thread) {
@@ -1485,6 +1598,7 @@ function handleThreadReadChanged(msg) {
                 );
             }
         } else if (msg.broadcast.channel_id) {
+            clearChannelNotifications(msg.broadcast.channel_id, true);
             handleAllThreadsInChannelMarkedRead(doDispatch, doGetState, msg.broadcast.channel_id, msg.data.timestamp);
         } else {
             handleAllMarkedRead(doDispatch, msg.broadcast.team_id);
@@ -1550,3 +1664,44 @@ function handleThreadFollowChanged(msg) {
         handleFollowChanged(doDispatch, msg.data.thread_id, msg.broadcast.team_id, msg.data.state);
     };
 }
+
+function handleDraftUpsertedEvent(msg) {
+    let draft;
+    try {
+        draft = JSON.parse(msg.data.draft);
+    } catch {
+        // invalid JSON
+        return;
+    }
+
+    dispatch(receivedServerDraft(draft));
+}
+
+function handleDraftDeletedEvent(msg) {
+    let draft;
+    try {
+        draft = JSON.parse(msg.data.draft);
+    } catch {
+        // invalid JSON
+        return;
+    }
+
+    dispatch(removedServerDraft(draft));
+}
+
+function handleScheduledPostUpsertedEvent(msg) {
+    const scheduledPost = JSON.parse(msg.data.scheduled_post);
+    dispatch({
+        type: ScheduledPostTypes.RECEIVED_SCHEDULED_POST,
+        data: scheduledPost,
+    });
+}
+
+// A scheduled post is deleted both when it's cancelled and once it has been sent
+function handleScheduledPostDeletedEvent(msg) {
+    const scheduledPost = JSON.parse(msg.data.scheduled_post);
+    dispatch({
+        type: ScheduledPostTypes.SCHEDULED_POST_DELETED,
+        data: scheduledPost,
+    });
+}
@@ -1,6 +1,9 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
+import React from 'react';
+import {shallow} from 'enzyme';
+
 import {
     getProfilesAndStatusesForPosts,
     getThreadsForPosts,
@@ -16,6 +19,7 @@ import {General, WebsocketEvents} from 'mattermost-redux/constants';
 
 import {handleNewPost} from 'actions/post_actions';
 import {closeRightHandSide} from 'actions/views/rhs';
+import {handleNewPostsForSavedSearches} from 'actions/views/saved_searches';
 import {syncPostsInChannel} from 'actions/views/channel';
 
 import store from 'stores/redux_store.jsx';
@@ -37,7 +41,10 @@ import {
     handleUserRemovedEvent,
     handleUserTypingEvent,
     handleLeaveTeamEvent,
+    handleReconnect,
     reconnect,
+    registerPluginReconnectHandler,
+    unregisterPluginReconnectHandler,
 } from './websocket_actions';
 
 jest.mock('mattermost-redux/actions/posts', () => ({
@@ -66,6 +73,10 @@ jest.mock('actions/global_actions', () => ({
     redirectUserToDefaultTeam: jest.fn(),
 }));
 
+jest.mock('actions/views/saved_searches', () => ({
+    handleNewPostsForSavedSearches: jest.fn(() => ({type: 'HANDLE_NEW_POSTS_FOR_SAVED_SEARCHES'})),
+}));
+
 jest.mock('actions/views/channel', () => ({
     ...jest.requireActual('actions/views/channel'),
     syncPostsInChannel: jest.fn(),
@@ -387,6 +398,9 @@ describe('handleNewPostEvent', () => {
                 isManualStatus: {},
             },
         },
+        plugins: {
+            components: {},
+        },
     };
 
     test('should receive post correctly', () => {
@@ -403,6 +417,56 @@ describe('handleNewPostEvent', () => {
         testStore.dispatch(handleNewPostEvent(msg));
         expect(getProfilesAndStatusesForPosts).toHaveBeenCalledWith([post], expect.anything(), expect.anything());
         expect(handleNewPost).toHaveBeenCalledWith(post, msg);
+        expect(handleNewPostsForSavedSearches).toHaveBeenCalledWith([post]);
+    });
+
+    test('should receive the post as changed by plugins', () => {
+        const testStore = configureStore({
+            ...initialState,
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [{hook: (post) => ({post: {...post, message: 'translated'}})}],
+                },
+            },
+        });
+
+        const post = {id: 'post1', channel_id: 'channel1', user_id: 'user1', message: 'original'};
+        const msg = {
+            data: {
+                post: JSON.stringify(post),
+                set_online: true,
+            },
+        };
+
+        testStore.dispatch(handleNewPostEvent(msg));
+        expect(handleNewPost).toHaveBeenCalledWith({...post, message: 'translated'}, msg);
+    });
+
+    test('should not receive a post hidden by a plugin', () => {
+        handleNewPost.mockClear();
+        handleNewPostsForSavedSearches.mockClear();
+
+        const testStore = configureStore({
+            ...initialState,
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [{hook: () => ({hide: true})}],
+                },
+            },
+        });
+
+        const post = {id: 'post1', channel_id: 'channel1', user_id: 'user2'};
+        const msg = {
+            data: {
+                post: JSON.stringify(post),
+                set_online: true,
+            },
+        };
+
+        testStore.dispatch(handleNewPostEvent(msg));
+        expect(handleNewPost).not.toHaveBeenCalled();
+        expect(handleNewPostsForSavedSearches).not.toHaveBeenCalled();
+        expect(testStore.getActions()).toEqual([]);
     });
 
     test('should set other user to online', () => {
@@ -501,6 +565,9 @@ describe('handleNewPostEvents', () => {
                 myPreferences: {},
             },
         },
+        plugins: {
+            components: {},
+        },
     };
 
     test('should receive multiple posts correctly', () => {
@@ -531,10 +598,41 @@ describe('handleNewPostEvents', () => {
             {
                 type: 'GET_THREADS_FOR_POSTS',
             },
+            {
+                type: 'HANDLE_NEW_POSTS_FOR_SAVED_SEARCHES',
+            },
         ]);
         expect(getThreadsForPosts).toHaveBeenCalledWith(posts);
+        expect(handleNewPostsForSavedSearches).toHaveBeenCalledWith(posts);
         expect(getProfilesAndStatusesForPosts).toHaveBeenCalledWith(posts, expect.anything(), expect.anything());
     });
+
+    test('should not receive posts hidden by plugins', () => {
+        const testStore = configureStore({
+            ...initialState,
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [{hook: (post) => (post.channel_id === 'channel2' ? {hide: true} : {post})}],
+                },
+            },
+        });
+
+        const posts = [
+            {id: 'post1', channel_id: 'channel1'},
+            {id: 'post2', channel_id: 'channel2'},
+            {id: 'post3', channel_id: 'channel1'},
+        ];
+
+        const queue = posts.map((post) => {
+            return {
+                data: {post: JSON.stringify(post)},
+            };
+        });
+
+        testStore.dispatch(handleNewPostEvents(queue));
+
+        expect(getThreadsForPosts).toHaveBeenCalledWith([posts[0], posts[2]]);
+    });
 });
 
 describe('reconnect', () => {
@@ -542,6 +640,21 @@ describe('reconnect', () => {
         reconnect(false);
         expect(syncPostsInChannel).toHaveBeenCalledWith('otherChannel', '12345');
     });
+
+    test('should not resync posts when the websocket session was resumed', () => {
+        handleReconnect();
+        expect(syncPostsInChannel).not.toHaveBeenCalled();
+    });
+
+    test('should run the reconnect handlers of plugins when the websocket session was resumed', () => {
+        const handler = jest.fn();
+        registerPluginReconnectHandler('plugin', handler);
+
+        handleReconnect();
+        expect(handler).toHaveBeenCalled();
+
+        unregisterPluginReconnectHandler('plugin');
+    });
 });
 
 describe('handleUserTypingEvent', () => {
@@ -770,6 +883,12 @@ describe('handlePluginEnabled/handlePluginDisabled', () => {
             }]);
         });
 
+        // Components registered by plugins are wrapped in an error boundary which renders the original one
+        function expectWrappedComponent(component, mockComponent) {
+            const Component = component;
+            expect(shallow(<Component/>).find(mockComponent).exists()).toBe(true);
+        }
+
         test('when a plugin is enabled', () => {
             const manifest = {
                 ...baseManifest,
@@ -803,7 +922,7 @@ describe('handlePluginEnabled/handlePluginDisabled', () => {
             const dispatchArg = store.dispatch.mock.calls[0][0];
             expect(dispatchArg.type).toBe(ActionTypes.RECEIVED_PLUGIN_COMPONENT);
             expect(dispatchArg.name).toBe('Root');
-            expect(dispatchArg.data.component).toBe(mockComponent);
+            expectWrappedComponent(dispatchArg.data.component, mockComponent);
             expect(dispatchArg.data.pluginId).toBe(manifest.id);
 
             // Assert handlePluginEnabled is idempotent
@@ -855,7 +974,7 @@ describe('handlePluginEnabled/handlePluginDisabled', () => {
             const dispatchReceivedArg = store.dispatch.mock.calls[0][0];
             expect(dispatchReceivedArg.type).toBe(ActionTypes.RECEIVED_PLUGIN_COMPONENT);
             expect(dispatchReceivedArg.name).toBe('Root');
-            expect(dispatchReceivedArg.data.component).toBe(mockComponent);
+            expectWrappedComponent(dispatchReceivedArg.data.component, mockComponent);
             expect(dispatchReceivedArg.data.pluginId).toBe(manifest.id);
 
             // Upgrade plugin
@@ -883,7 +1002,7 @@ describe('handlePluginEnabled/handlePluginDisabled', () => {
             const dispatchReceivedArg2 = store.dispatch.mock.calls[2][0];
             expect(dispatchReceivedArg2.type).toBe(ActionTypes.RECEIVED_PLUGIN_COMPONENT);
             expect(dispatchReceivedArg2.name).toBe('Root');
-            expect(dispatchReceivedArg2.data.component).toBe(mockComponent2);
+            expectWrappedComponent(dispatchReceivedArg2.data.component, mockComponent2);
             expect(dispatchReceivedArg2.data.pluginId).toBe(manifest.id);
 
             expect(store.dispatch).toHaveBeenCalledTimes(5);
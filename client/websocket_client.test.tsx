@@ -0,0 +1,221 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {SocketEvents} from 'utils/constants';
+
+import WebSocketClient, {getRetryTime} from './websocket_client';
+
+class MockWebSocket {
+    static OPEN = 1;
+    static CLOSED = 3;
+    static instances: MockWebSocket[] = [];
+
+    url: string;
+    readyState = MockWebSocket.OPEN;
+    onopen: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: ((evt: Event) => void) | null = null;
+    onmessage: ((evt: {data: string}) => void) | null = null;
+    send = jest.fn();
+
+    constructor(url: string) {
+        this.url = url;
+        MockWebSocket.instances.push(this);
+    }
+
+    close() {
+        this.readyState = MockWebSocket.CLOSED;
+        this.onclose?.();
+    }
+
+    receive(msg: any) {
+        this.onmessage?.({data: JSON.stringify(msg)});
+    }
+}
+
+function latestSocket() {
+    return MockWebSocket.instances[MockWebSocket.instances.length - 1];
+}
+
+function hello(connectionId: string, seq = 0) {
+    return {event: SocketEvents.HELLO, data: {connection_id: connectionId}, seq};
+}
+
+describe('WebSocketClient', () => {
+    const originalWebSocket = window.WebSocket;
+
+    let client: WebSocketClient;
+    let eventCallback: jest.Mock;
+    let reconnectCallback: jest.Mock;
+    let missedEventCallback: jest.Mock;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(console, 'log').mockImplementation(() => {}); // eslint-disable-line no-empty-function
+
+        MockWebSocket.instances = [];
+        (window as any).WebSocket = MockWebSocket;
+
+        client = new WebSocketClient({pingInterval: 30000, pongTimeout: 10000, maxMissedPongs: 2});
+        eventCallback = jest.fn();
+        reconnectCallback = jest.fn();
+        missedEventCallback = jest.fn();
+        client.setEventCallback(eventCallback);
+        client.setReconnectCallback(reconnectCallback);
+        client.setMissedEventCallback(missedEventCallback);
+
+        client.initialize('ws://localhost:8065/api/v4/websocket');
+        latestSocket().onopen?.();
+        latestSocket().receive(hello('conn1'));
+        latestSocket().receive({event: SocketEvents.POSTED, data: {}, seq: 1});
+    });
+
+    afterEach(() => {
+        window.WebSocket = originalWebSocket;
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    function dropAndReconnect() {
+        latestSocket().close();
+        jest.runOnlyPendingTimers();
+        latestSocket().onopen?.();
+    }
+
+    test('should send the last processed sequence number when reconnecting', () => {
+        dropAndReconnect();
+
+        expect(latestSocket().url).toBe('ws://localhost:8065/api/v4/websocket?connection_id=conn1&sequence_number=2');
+    });
+
+    test('should only call the reconnect callback when the server resumes the session', () => {
+        dropAndReconnect();
+        latestSocket().receive(hello('conn1', 2));
+        latestSocket().receive({event: SocketEvents.POSTED, data: {}, seq: 3});
+
+        expect(reconnectCallback).toHaveBeenCalledTimes(1);
+        expect(missedEventCallback).not.toHaveBeenCalled();
+        expect(eventCallback).toHaveBeenCalledTimes(4);
+    });
+
+    test('should call the missed event callback when the server can not resume the session', () => {
+        dropAndReconnect();
+        latestSocket().receive(hello('conn2'));
+
+        expect(missedEventCallback).toHaveBeenCalledTimes(1);
+        expect(reconnectCallback).not.toHaveBeenCalled();
+        expect(eventCallback).toHaveBeenCalledTimes(3);
+    });
+
+    test('should skip replayed events that were already processed', () => {
+        dropAndReconnect();
+        latestSocket().receive(hello('conn1', 2));
+        latestSocket().receive({event: SocketEvents.POSTED, data: {}, seq: 1});
+
+        expect(eventCallback).toHaveBeenCalledTimes(3);
+    });
+
+    test('should reconnect to fill a gap in the event stream', () => {
+        const socket = latestSocket();
+        socket.receive({event: SocketEvents.POSTED, data: {}, seq: 5});
+
+        expect(eventCallback).toHaveBeenCalledTimes(2);
+        expect(socket.readyState).toBe(MockWebSocket.CLOSED);
+
+        jest.runOnlyPendingTimers();
+        expect(latestSocket().url).toContain('connection_id=conn1&sequence_number=2');
+    });
+
+    describe('heartbeat', () => {
+        function lastSentMessage(socket: MockWebSocket) {
+            return JSON.parse(socket.send.mock.calls[socket.send.mock.calls.length - 1][0]);
+        }
+
+        test('should report the latency of answered pings', () => {
+            const listener = jest.fn();
+            client.addConnectionStateListener(listener);
+
+            const socket = latestSocket();
+            jest.advanceTimersByTime(30000);
+
+            const ping = lastSentMessage(socket);
+            expect(ping.action).toBe('ping');
+
+            jest.advanceTimersByTime(150);
+            socket.receive({seq_reply: ping.seq, status: 'OK', data: {text: 'pong'}});
+
+            expect(client.getConnectionState()).toEqual({status: 'open', latency: 150, connectFailCount: 0});
+            expect(listener).toHaveBeenCalledWith({status: 'open', latency: 150, connectFailCount: 0});
+        });
+
+        test('should mark the connection as degraded when a ping is not answered', () => {
+            jest.advanceTimersByTime(30000 + 10000);
+
+            expect(client.getConnectionState().status).toBe('degraded');
+        });
+
+        test('should recover from degraded once a ping is answered', () => {
+            const socket = latestSocket();
+            jest.advanceTimersByTime(30000 + 10000);
+            jest.advanceTimersByTime(20000);
+
+            socket.receive({seq_reply: lastSentMessage(socket).seq, status: 'OK', data: {text: 'pong'}});
+
+            expect(client.getConnectionState().status).toBe('open');
+        });
+
+        test('should force a reconnect after too many missed pings', () => {
+            const socket = latestSocket();
+
+            // The second ping is sent 30 seconds after the first one and times out 10 seconds later.
+            jest.advanceTimersByTime(30000 + 30000 + 10000);
+
+            expect(socket.readyState).toBe(MockWebSocket.CLOSED);
+            expect(client.getConnectionState()).toEqual({status: 'closed', latency: null, connectFailCount: 1});
+
+            jest.runOnlyPendingTimers();
+
+            expect(MockWebSocket.instances).toHaveLength(2);
+            expect(client.getConnectionState().status).toBe('connecting');
+        });
+
+        test('should stop notifying listeners that were removed', () => {
+            const listener = jest.fn();
+            const removeListener = client.addConnectionStateListener(listener);
+            removeListener();
+
+            latestSocket().close();
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    test('should call the close callback with the number of failed connections', () => {
+        const closeCallback = jest.fn();
+        client.setCloseCallback(closeCallback);
+
+        latestSocket().close();
+
+        expect(closeCallback).toHaveBeenCalledWith(1);
+    });
+});
+
+describe('getRetryTime', () => {
+    test('should back off exponentially', () => {
+        const noJitter = () => 1;
+
+        expect(getRetryTime(1, noJitter)).toBe(3000);
+        expect(getRetryTime(2, noJitter)).toBe(6000);
+        expect(getRetryTime(3, noJitter)).toBe(12000);
+    });
+
+    test('should not wait longer than the maximum retry time', () => {
+        expect(getRetryTime(20, () => 1)).toBe(300000);
+        expect(getRetryTime(1000, () => 1)).toBe(300000);
+    });
+
+    test('should apply jitter of up to half the backoff', () => {
+        expect(getRetryTime(1, () => 0)).toBe(1500);
+        expect(getRetryTime(1, () => 0.5)).toBe(2250);
+    });
+});
@@ -1,15 +1,51 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import {SocketEvents} from 'utils/constants';
+import {SocketEvents, WebSocketHeartbeat} from 'utils/constants';
 
-const MAX_WEBSOCKET_FAILS = 7;
 const MIN_WEBSOCKET_RETRY_TIME = 3000; // 3 sec
 const MAX_WEBSOCKET_RETRY_TIME = 300000; // 5 mins
 
+
+export type ConnectionStatus = 'connecting' | 'open' | 'degraded' | 'closed';
+
+export type ConnectionState = {
+    status: ConnectionStatus;
+
+    // latency is the round trip time in milliseconds of the last answered ping, or null if none has been answered
+    // on the current connection.
+    latency: number | null;
+    connectFailCount: number;
+};
+
+export type ConnectionStateListener = (state: ConnectionState) => void;
+
+export type WebSocketClientOptions = {
+    // pingInterval is how often in milliseconds a ping is sent while the connection is open.
+    pingInterval: number;
+
+    // pongTimeout is how long in milliseconds to wait for a ping to be answered before it's considered missed.
+    pongTimeout: number;
+
+    // maxMissedPongs is the number of consecutive missed pings after which the connection is assumed dead.
+    maxMissedPongs: number;
+};
+
+// getRetryTime returns how long to wait before the given reconnection attempt. The delay doubles with every failed
+// attempt up to MAX_WEBSOCKET_RETRY_TIME, and a random jitter is applied so that clients disconnected by the same
+// outage don't all reconnect at the same moment.
+export function getRetryTime(connectFailCount: number, random = Math.random) {
+    const exponent = Math.min(Math.max(connectFailCount - 1, 0), 30);
+    const backoff = Math.min(MIN_WEBSOCKET_RETRY_TIME * Math.pow(2, exponent), MAX_WEBSOCKET_RETRY_TIME);
+
+    return Math.round((backoff / 2) + (random() * (backoff / 2)));
+}
+
 export default class WebSocketClient {
     private conn: WebSocket | null;
     private connectionUrl: string | null;
+    private token: string | undefined;
+    private options: WebSocketClientOptions;
 
     // responseSequence is the number to track a response sent
     // via the websocket. A response will always have the same sequence number
@@ -20,6 +56,10 @@ export default class WebSocketClient {
     // server-sent event stream.
     private serverSequence: number;
     private connectFailCount: number;
+
+    // reconnecting is set once a dropped connection has been re-opened and is cleared
+    // when the server's hello tells us whether the previous session could be resumed.
+    private reconnecting: boolean;
     private eventCallback: ((msg: any) => void) | null;
     private responseCallbacks: {[x: number]: ((msg: any) => void)};
     private firstConnectCallback: (() => void) | null;
@@ -29,12 +69,27 @@ export default class WebSocketClient {
     private closeCallback: ((connectFailCount: number) => void) | null;
     private connectionId: string | null;
 
-    constructor() {
+    private connectionState: ConnectionState;
+    private connectionStateListeners: Set<ConnectionStateListener>;
+
+    private retryTimeout: NodeJS.Timeout | null;
+    private pingIntervalId: NodeJS.Timeout | null;
+    private pongTimeoutId: NodeJS.Timeout | null;
+    private missedPongs: number;
+
+    constructor(options: Partial<WebSocketClientOptions> = {}) {
         this.conn = null;
         this.connectionUrl = null;
+        this.options = {
+            pingInterval: WebSocketHeartbeat.PING_INTERVAL,
+            pongTimeout: WebSocketHeartbeat.PONG_TIMEOUT,
+            maxMissedPongs: WebSocketHeartbeat.MAX_MISSED_PONGS,
+            ...options,
+        };
         this.responseSequence = 1;
         this.serverSequence = 0;
         this.connectFailCount = 0;
+        this.reconnecting = false;
         this.eventCallback = null;
         this.responseCallbacks = {};
         this.firstConnectCallback = null;
@@ -43,12 +98,22 @@ export default class WebSocketClient {
         this.errorCallback = null;
         this.closeCallback = null;
         this.connectionId = '';
+        this.connectionState = {
+            status: 'closed',
+            latency: null,
+            connectFailCount: 0,
+        };
+        this.connectionStateListeners = new Set();
+        this.retryTimeout = null;
+        this.pingIntervalId = null;
+        this.pongTimeoutId = null;
+        this.missedPongs = 0;
     }
 
     // on connect, only send auth cookie and blank state.
     // on hello, get the connectionID and store it.
     // on reconnect, send cookie, connectionID, sequence number.
-    initialize(connectionUrl = this.connectionUrl, token?: string) {
+    initialize(connectionUrl = this.connectionUrl, token = this.token) {
         if (this.conn) {
             return;
         }
@@ -67,6 +132,9 @@ export default class WebSocketClient {
         // We cannot also send it as part of the auth_challenge, because the session cookie is already sent with the request.
         this.conn = new WebSocket(`${connectionUrl}?connection_id=${this.connectionId}&sequence_number=${this.serverSequence}`);
         this.connectionUrl = connectionUrl;
+        this.token = token;
+
+        this.setConnectionState({status: 'connecting', latency: null});
 
         this.conn.onopen = () => {
             if (token) {
@@ -75,47 +143,21 @@ export default class WebSocketClient {
 
             if (this.connectFailCount > 0) {
                 console.log('websocket re-established connection'); //eslint-disable-line no-console
-                if (this.reconnectCallback) {
-                    this.reconnectCallback();
-                }
+
+                // The reconnect and missed event callbacks are deferred until the hello event
+                // so that we only fall back to a full resync when the server can't replay the
+                // events we missed while disconnected.
+                this.reconnecting = true;
             } else if (this.firstConnectCallback) {
                 this.firstConnectCallback();
             }
 
             this.connectFailCount = 0;
+            this.setConnectionState({status: 'open', connectFailCount: 0});
+            this.startHeartbeat();
         };
 
-        this.conn.onclose = () => {
-            this.conn = null;
-            this.responseSequence = 1;
-
-            if (this.connectFailCount === 0) {
-                console.log('websocket closed'); //eslint-disable-line no-console
-            }
-
-            this.connectFailCount++;
-
-            if (this.closeCallback) {
-                this.closeCallback(this.connectFailCount);
-            }
-
-            let retryTime = MIN_WEBSOCKET_RETRY_TIME;
-
-            // If we've failed a bunch of connections then start backing off
-            if (this.connectFailCount > MAX_WEBSOCKET_FAILS) {
-                retryTime = MIN_WEBSOCKET_RETRY_TIME * this.connectFailCount * this.connectFailCount;
-                if (retryTime > MAX_WEBSOCKET_RETRY_TIME) {
-                    retryTime = MAX_WEBSOCKET_RETRY_TIME;
-                }
-            }
-
-            setTimeout(
-                () => {
-                    this.initialize(connectionUrl, token);
-                },
-                retryTime,
-            );
-        };
+        this.conn.onclose = () => this.handleClose();
 
         this.conn.onerror = (evt) => {
             if (this.connectFailCount <= 1) {
@@ -144,24 +186,41 @@ export default class WebSocketClient {
                 }
             } else if (this.eventCallback) {
                 // We check the hello packet, which is always the first packet in a stream.
-                if (msg.event === SocketEvents.HELLO && this.missedEventCallback) {
-                    console.log('got connection id ', msg.data.connection_id); //eslint-disable-line no-console
+                if (msg.event === SocketEvents.HELLO) {
+                    const connectionId = msg.data.connection_id || '';
+                    console.log('got connection id ', connectionId); //eslint-disable-line no-console
+
                     // If we already have a connectionId present, and server sends a different one,
                     // that means it's either a long timeout, or server restart, or sequence number is not found.
                     // Then we do the sync calls, and reset sequence number to 0.
-                    if (this.connectionId !== '' && this.connectionId !== msg.data.connection_id) {
+                    const resumed = this.connectionId !== '' && this.connectionId === connectionId;
+                    if (!resumed && (this.connectionId !== '' || this.reconnecting)) {
                         console.log('long timeout, or server restart, or sequence number is not found.'); //eslint-disable-line no-console
-                        this.missedEventCallback();
+                        if (this.missedEventCallback) {
+                            this.missedEventCallback();
+                        }
                         this.serverSequence = 0;
+                    } else if (resumed && this.reconnecting && this.reconnectCallback) {
+                        // The server still has our session and will replay every event after
+                        // serverSequence, so only the lightweight reconnect handling is needed.
+                        this.reconnectCallback();
                     }
 
                     // If it's a fresh connection, we have to set the connectionId regardless.
                     // And if it's an existing connection, setting it again is harmless, and keeps the code simple.
-                    this.connectionId = msg.data.connection_id;
+                    this.connectionId = connectionId;
+                    this.reconnecting = false;
+                }
+
+                // Events replayed by the server may overlap with ones we processed before the
+                // connection dropped, so drop anything we've already seen.
+                if (msg.seq < this.serverSequence) {
+                    console.log('skipping already processed websocket event, seq=' + msg.seq); //eslint-disable-line no-console
+                    return;
                 }
 
                 // Now we check for sequence number, and if it does not match,
-                // we just disconnect and reconnect.
+                // we just disconnect and reconnect so the server can replay the gap.
                 if (msg.seq !== this.serverSequence) {
                     console.log('missed websocket event, act_seq=' + msg.seq + ' exp_seq=' + this.serverSequence); //eslint-disable-line no-console
                     // We are not calling this.close() because we need to auto-restart.
@@ -176,6 +235,128 @@ export default class WebSocketClient {
         };
     }
 
+    private handleClose() {
+        this.conn = null;
+        this.responseSequence = 1;
+        this.stopHeartbeat();
+
+        if (this.connectFailCount === 0) {
+            console.log('websocket closed'); //eslint-disable-line no-console
+        }
+
+        this.connectFailCount++;
+
+        this.setConnectionState({status: 'closed', latency: null, connectFailCount: this.connectFailCount});
+
+        if (this.closeCallback) {
+            this.closeCallback(this.connectFailCount);
+        }
+
+        if (this.retryTimeout) {
+            clearTimeout(this.retryTimeout);
+        }
+
+        this.retryTimeout = setTimeout(
+            () => {
+                this.retryTimeout = null;
+                this.initialize();
+            },
+            getRetryTime(this.connectFailCount),
+        );
+    }
+
+    private startHeartbeat() {
+        this.stopHeartbeat();
+
+        this.pingIntervalId = setInterval(() => this.ping(), this.options.pingInterval);
+    }
+
+    private stopHeartbeat() {
+        if (this.pingIntervalId) {
+            clearInterval(this.pingIntervalId);
+            this.pingIntervalId = null;
+        }
+
+        if (this.pongTimeoutId) {
+            clearTimeout(this.pongTimeoutId);
+            this.pongTimeoutId = null;
+        }
+
+        this.missedPongs = 0;
+    }
+
+    private ping() {
+        if (!this.conn || this.conn.readyState !== WebSocket.OPEN || this.pongTimeoutId) {
+            return;
+        }
+
+        const sentAt = Date.now();
+        const seq = this.responseSequence;
+
+        this.pongTimeoutId = setTimeout(() => {
+            this.pongTimeoutId = null;
+            Reflect.deleteProperty(this.responseCallbacks, seq);
+
+            this.missedPongs++;
+            console.log('websocket ping was not answered, missed=' + this.missedPongs); //eslint-disable-line no-console
+
+            if (this.missedPongs >= this.options.maxMissedPongs) {
+                this.forceReconnect();
+            } else {
+                this.setConnectionState({status: 'degraded'});
+            }
+        }, this.options.pongTimeout);
+
+        this.sendMessage('ping', null, () => {
+            if (this.pongTimeoutId) {
+                clearTimeout(this.pongTimeoutId);
+                this.pongTimeoutId = null;
+            }
+
+            this.missedPongs = 0;
+            this.setConnectionState({status: 'open', latency: Date.now() - sentAt});
+        });
+    }
+
+    // forceReconnect drops a connection that has stopped answering pings without waiting for the browser to
+    // notice, which can take minutes when a laptop wakes from sleep.
+    private forceReconnect() {
+        console.log('websocket connection is unresponsive, reconnecting'); //eslint-disable-line no-console
+
+        if (this.conn) {
+            this.conn.onclose = () => {}; //eslint-disable-line no-empty-function
+            this.conn.close();
+        }
+
+        this.handleClose();
+    }
+
+    private setConnectionState(state: Partial<ConnectionState>) {
+        const nextState = {...this.connectionState, ...state};
+        if (nextState.status === this.connectionState.status &&
+            nextState.latency === this.connectionState.latency &&
+            nextState.connectFailCount === this.connectionState.connectFailCount) {
+            return;
+        }
+
+        this.connectionState = nextState;
+        this.connectionStateListeners.forEach((listener) => listener(nextState));
+    }
+
+    getConnectionState(): ConnectionState {
+        return this.connectionState;
+    }
+
+    // addConnectionStateListener registers a listener that is called every time the connection state changes.
+    // It returns a function that removes the listener.
+    addConnectionStateListener(listener: ConnectionStateListener) {
+        this.connectionStateListeners.add(listener);
+
+        return () => {
+            this.connectionStateListeners.delete(listener);
+        };
+    }
+
     setEventCallback(callback: (msg: any) => void) {
         this.eventCallback = callback;
     }
@@ -192,6 +373,8 @@ export default class WebSocketClient {
         this.missedEventCallback = callback;
     }
 
+    // setErrorCallback and setCloseCallback are kept for existing callers. New code should use
+    // addConnectionStateListener instead.
     setErrorCallback(callback: (event: Event) => void) {
         this.errorCallback = callback;
     }
@@ -202,16 +385,26 @@ export default class WebSocketClient {
 
     close() {
         this.connectFailCount = 0;
+        this.reconnecting = false;
         this.responseSequence = 1;
+        this.stopHeartbeat();
+
+        if (this.retryTimeout) {
+            clearTimeout(this.retryTimeout);
+            this.retryTimeout = null;
+        }
+
         if (this.conn && this.conn.readyState === WebSocket.OPEN) {
             this.conn.onclose = () => {}; //eslint-disable-line no-empty-function
             this.conn.close();
             this.conn = null;
             console.log('websocket closed'); //eslint-disable-line no-console
         }
+
+        this.setConnectionState({status: 'closed', latency: null, connectFailCount: 0});
     }
 
-    sendMessage(action: string, data: any, responseCallback?: () => void) {
+    sendMessage(action: string, data: any, responseCallback?: (msg: any) => void) {
         const msg = {
             action,
             seq: this.responseSequence++,
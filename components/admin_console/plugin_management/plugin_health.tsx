@@ -0,0 +1,167 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo} from 'react';
+import {FormattedMessage} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {enablePluginComponents} from 'plugins/actions';
+import {getPluginHealth} from 'selectors/plugins';
+
+import Timestamp from 'components/timestamp';
+
+import {GlobalState} from 'types/store';
+import {PluginError} from 'types/store/plugins';
+
+import './plugin_health.scss';
+
+type Props = {
+    pluginId: string;
+};
+
+function renderErrors(errors: PluginError[], title: React.ReactNode) {
+    if (errors.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className='PluginHealth__section'>
+            <strong>{title}</strong>
+            <ul className='PluginHealth__errors'>
+                {[...errors].reverse().map((error) => (
+                    <li key={`${error.time}-${error.name}`}>
+                        <Timestamp value={error.time}/>
+                        <code>{error.name}</code>
+                        {error.message}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+// PluginHealth shows what went wrong with a plugin's web app in the current browser: whether it failed to load, the
+// errors thrown by its components and hooks and how long its hooks take to run.
+function PluginHealth({pluginId}: Props) {
+    const dispatch = useDispatch();
+    const health = useSelector((state: GlobalState) => getPluginHealth(state, pluginId));
+
+    if (!health) {
+        return null;
+    }
+
+    const hookNames = Object.keys(health.hookTimings).sort();
+
+    return (
+        <div className='PluginHealth'>
+            <strong>
+                <FormattedMessage
+                    id='admin.plugin.health.title'
+                    defaultMessage='Health in this browser'
+                />
+            </strong>
+            {health.disabled && (
+                <div className='alert alert-warning'>
+                    <i className='fa fa-warning'/>
+                    <FormattedMessage
+                        id='admin.plugin.health.disabled'
+                        defaultMessage='The components of this plugin stopped being shown after crashing {count, plural, =1 {# time} other {# times}}.'
+                        values={{count: health.crashes}}
+                    />
+                    {' '}
+                    <a onClick={() => dispatch(enablePluginComponents(pluginId))}>
+                        <FormattedMessage
+                            id='admin.plugin.health.enable'
+                            defaultMessage='Show them again'
+                        />
+                    </a>
+                </div>
+            )}
+            {health.loadError && (
+                <div className='alert alert-warning'>
+                    <i className='fa fa-warning'/>
+                    <FormattedMessage
+                        id='admin.plugin.health.loadError'
+                        defaultMessage='Failed to load: {message}'
+                        values={{message: health.loadError}}
+                    />
+                </div>
+            )}
+            {renderErrors(health.renderErrors, (
+                <FormattedMessage
+                    id='admin.plugin.health.renderErrors'
+                    defaultMessage='Component errors'
+                />
+            ))}
+            {renderErrors(health.hookErrors, (
+                <FormattedMessage
+                    id='admin.plugin.health.hookErrors'
+                    defaultMessage='Hook errors'
+                />
+            ))}
+            {hookNames.length > 0 && (
+                <div className='PluginHealth__section'>
+                    <div className='row'>
+                        <div className='col-md-6'>
+                            <strong>
+                                <FormattedMessage
+                                    id='admin.plugin.health.hook'
+                                    defaultMessage='Hook'
+                                />
+                            </strong>
+                        </div>
+                        <div className='col-md-2'>
+                            <strong>
+                                <FormattedMessage
+                                    id='admin.plugin.health.calls'
+                                    defaultMessage='Calls'
+                                />
+                            </strong>
+                        </div>
+                        <div className='col-md-2'>
+                            <strong>
+                                <FormattedMessage
+                                    id='admin.plugin.health.averageTime'
+                                    defaultMessage='Average'
+                                />
+                            </strong>
+                        </div>
+                        <div className='col-md-2'>
+                            <strong>
+                                <FormattedMessage
+                                    id='admin.plugin.health.maxTime'
+                                    defaultMessage='Slowest'
+                                />
+                            </strong>
+                        </div>
+                    </div>
+                    {hookNames.map((name) => {
+                        const timing = health.hookTimings[name];
+
+                        return (
+                            <div
+                                key={name}
+                                className='row'
+                            >
+                                <div className='col-md-6'>
+                                    {name}
+                                </div>
+                                <div className='col-md-2'>
+                                    {timing.count}
+                                </div>
+                                <div className='col-md-2'>
+                                    {`${(timing.totalTime / timing.count).toFixed(1)} ms`}
+                                </div>
+                                <div className='col-md-2'>
+                                    {`${timing.maxTime.toFixed(1)} ms`}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default memo(PluginHealth);
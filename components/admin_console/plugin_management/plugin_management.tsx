@@ -21,6 +21,8 @@ import SettingsGroup from '../settings_group.jsx';
 import TextSetting from '../text_setting';
 import {appsPluginID} from 'utils/apps';
 
+import PluginHealth from './plugin_health';
+
 const PluginItemState = ({state}: {state: number}) => {
     switch (state) {
     case PluginState.PLUGIN_STATE_NOT_RUNNING:
@@ -387,6 +389,7 @@ const PluginItem = ({
             <div>
                 {notices}
             </div>
+            <PluginHealth pluginId={pluginStatus.id}/>
             <div>
                 {clusterSummary}
             </div>
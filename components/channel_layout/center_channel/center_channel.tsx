@@ -25,6 +25,16 @@ const LazyGlobalThreads = makeAsyncComponent(
     ),
 );
 
+const LazyDrafts = makeAsyncComponent(
+    'LazyDrafts',
+    React.lazy(() => import('components/drafts')),
+    (
+        <div className='app__content'>
+            <LoadingScreen/>
+        </div>
+    ),
+);
+
 type Props = {
     match: {
         url: string;
@@ -123,6 +133,10 @@ export default class CenterChannel extends React.PureComponent<Props, State> {
                                 component={LazyGlobalThreads}
                             />
                         ) : null}
+                        <Route
+                            path='/:team/drafts'
+                            component={LazyDrafts}
+                        />
                         <Redirect to={lastChannelPath}/>
                     </Switch>
                 </div>
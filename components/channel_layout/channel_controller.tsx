@@ -20,6 +20,8 @@ import * as UserAgent from 'utils/user_agent';
 import CenterChannel from 'components/channel_layout/center_channel';
 import LoadingScreen from 'components/loading_screen';
 import FaviconTitleHandler from 'components/favicon_title_handler';
+import MuteExpiryHandler from 'components/mute_expiry_handler';
+import KeyboardShortcutsHandler from 'components/keyboard_shortcuts_handler';
 import ProductNoticesModal from 'components/product_notices_modal';
 
 interface Props {
@@ -61,6 +63,8 @@ export default class ChannelController extends React.PureComponent<Props> {
                 <AnnouncementBarController/>
                 <SystemNotice/>
                 <FaviconTitleHandler/>
+                <MuteExpiryHandler/>
+                <KeyboardShortcutsHandler/>
                 <ProductNoticesModal/>
                 <div className={classNames('container-fluid channel-view-inner', {'app-bar-enabled': shouldShowAppBar})}>
                     <SidebarRight/>
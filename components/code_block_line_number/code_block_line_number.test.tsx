@@ -0,0 +1,37 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {shallow} from 'enzyme';
+
+import * as Utils from 'utils/utils.jsx';
+
+import CodeBlockLineNumber from 'components/code_block_line_number/code_block_line_number';
+
+describe('components/CodeBlockLineNumber', () => {
+    const defaultProps = {
+        postId: 'post_id',
+        codeBlock: '2',
+        line: '7',
+        className: 'post-code__line-number',
+        teamUrl: '/team',
+    };
+
+    test('should link to the line of the post', () => {
+        const wrapper = shallow(<CodeBlockLineNumber {...defaultProps}/>);
+
+        expect(wrapper.prop('href')).toBe('http://localhost:8065/team/pl/post_id#code-2-L7');
+        expect(wrapper.text()).toBe('7');
+    });
+
+    test('should copy the link when clicked', () => {
+        const copyToClipboard = jest.spyOn(Utils, 'copyToClipboard').mockImplementation(() => {}); // eslint-disable-line no-empty-function
+        const preventDefault = jest.fn();
+        const wrapper = shallow(<CodeBlockLineNumber {...defaultProps}/>);
+
+        wrapper.simulate('click', {preventDefault});
+
+        expect(preventDefault).toHaveBeenCalled();
+        expect(copyToClipboard).toHaveBeenCalledWith('http://localhost:8065/team/pl/post_id#code-2-L7');
+    });
+});
@@ -0,0 +1,54 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import {getSiteURL} from 'utils/url';
+import {copyToClipboard, localizeMessage} from 'utils/utils.jsx';
+
+type Props = {
+    postId: string;
+    codeBlock: string;
+    line: string;
+    className: string;
+    teamUrl: string;
+};
+
+export function getCodeLineAnchor(codeBlock: string, line: string) {
+    return `code-${codeBlock}-L${line}`;
+}
+
+// CodeBlockLineNumber renders a line number of a code block in a post as a link to that line. Clicking on it copies
+// the link so that it can be shared.
+export default class CodeBlockLineNumber extends React.PureComponent<Props> {
+    getPermalink = () => {
+        return `${getSiteURL()}${this.props.teamUrl}/pl/${this.props.postId}#${getCodeLineAnchor(this.props.codeBlock, this.props.line)}`;
+    }
+
+    handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+        e.preventDefault();
+
+        copyToClipboard(this.getPermalink());
+    }
+
+    render() {
+        let className = this.props.className;
+
+        // Permalinks to a post keep the line anchor when they redirect to the channel
+        const anchor = getCodeLineAnchor(this.props.codeBlock, this.props.line);
+        if (window.location.hash === `#${anchor}` && window.location.pathname.endsWith(`/${this.props.postId}`)) {
+            className += ' post-code__line-number--linked';
+        }
+
+        return (
+            <a
+                className={className}
+                href={this.getPermalink()}
+                title={localizeMessage('code_block.copy_line_link', 'Copy link to line')}
+                onClick={this.handleClick}
+            >
+                {this.props.line}
+            </a>
+        );
+    }
+}
@@ -0,0 +1,18 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {connect} from 'react-redux';
+
+import {getCurrentRelativeTeamUrl} from 'mattermost-redux/selectors/entities/teams';
+
+import {GlobalState} from 'mattermost-redux/types/store';
+
+import CodeBlockLineNumber from './code_block_line_number';
+
+function mapStateToProps(state: GlobalState) {
+    return {
+        teamUrl: getCurrentRelativeTeamUrl(state),
+    };
+}
+
+export default connect(mapStateToProps)(CodeBlockLineNumber);
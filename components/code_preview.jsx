@@ -61,6 +61,8 @@ export default class CodePreview extends React.PureComponent {
             return;
         }
         try {
+            await SyntaxHighlighting.loadLanguage(this.state.lang);
+
             const data = await fetch(this.props.fileUrl);
             const text = await data.text();
             this.handleReceivedCode(text);
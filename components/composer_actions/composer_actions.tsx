@@ -0,0 +1,116 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo} from 'react';
+import {useSelector} from 'react-redux';
+
+import OverlayTrigger from 'components/overlay_trigger';
+import Tooltip from 'components/tooltip';
+
+import type {ComposerAPI} from 'plugins/registry_types';
+
+import {GlobalState} from 'types/store';
+import {PluginComponent} from 'types/store/plugins';
+
+import Constants from 'utils/constants';
+
+type Props = {
+    channelId: string;
+    rootId?: string;
+    getInputBox: () => HTMLInputElement | HTMLTextAreaElement | null | undefined;
+    getText: () => string;
+
+    // setText replaces the message, moves the caret to caretPosition and calls callback once the textbox has updated
+    setText: (text: string, caretPosition: number, callback: () => void) => void;
+
+    // attachFiles uploads files as attachments of the message, or does nothing when files can't be attached
+    attachFiles: (files: File[]) => void;
+};
+
+// ComposerActions shows the buttons which plugins add to the toolbar of the message composer
+function ComposerActions({channelId, rootId = '', getInputBox, getText, setText, attachFiles}: Props) {
+    const actions = useSelector((state: GlobalState) => state.plugins.components.ComposerAction);
+
+    if (!actions || actions.length === 0) {
+        return null;
+    }
+
+    const makeComposerAPI = (): ComposerAPI => {
+        // Changes made by the plugin are kept until the textbox updates so that it can read them back straight away
+        let pending: {text: string; start: number; end: number} | null = null;
+
+        const getSelection = () => {
+            if (pending) {
+                return {start: pending.start, end: pending.end};
+            }
+
+            const inputBox = getInputBox();
+            const length = getText().length;
+            return {start: inputBox?.selectionStart ?? length, end: inputBox?.selectionEnd ?? length};
+        };
+
+        const update = (text: string, start: number, end: number) => {
+            const change = {text, start: Math.min(start, text.length), end: Math.min(end, text.length)};
+            pending = change;
+
+            setText(change.text, change.end, () => {
+                const inputBox = getInputBox();
+                if (inputBox) {
+                    inputBox.focus();
+                    inputBox.setSelectionRange(change.start, change.end);
+                }
+
+                if (pending === change) {
+                    pending = null;
+                }
+            });
+        };
+
+        const composer: ComposerAPI = {
+            channelId,
+            rootId,
+            getText: () => (pending ? pending.text : getText()),
+            setText: (text) => update(text, text.length, text.length),
+            getSelection,
+            setSelection: (start, end = start) => update(composer.getText(), start, end),
+            insertText: (text) => {
+                const message = composer.getText();
+                const {start, end} = getSelection();
+                const caretPosition = start + text.length;
+
+                update(message.substring(0, start) + text + message.substring(end), caretPosition, caretPosition);
+            },
+            attachFiles,
+        };
+
+        return composer;
+    };
+
+    return (
+        <>
+            {actions.map((item: PluginComponent) => (
+                <OverlayTrigger
+                    key={item.id}
+                    delayShow={Constants.OVERLAY_TIME_DELAY}
+                    placement='top'
+                    overlay={(
+                        <Tooltip id={`composerActionTooltip_${item.id}`}>
+                            {item.tooltipText}
+                        </Tooltip>
+                    )}
+                >
+                    <button
+                        type='button'
+                        className='style--none post-action'
+                        aria-label={typeof item.tooltipText === 'string' ? item.tooltipText : undefined}
+                        onClick={() => item.action?.(makeComposerAPI())}
+                    >
+                        {item.icon}
+                    </button>
+                </OverlayTrigger>
+            ))}
+        </>
+    );
+}
+
+export default memo(ComposerActions);
@@ -68,6 +68,7 @@ describe('components/CreateComment', () => {
         getChannelMemberCountsByGroup: jest.fn(),
         useGroupMentions: true,
         openModal: jest.fn(),
+        createScheduledPost: jest.fn(() => Promise.resolve({data: true})),
     };
 
     test('should match snapshot, empty comment', () => {
@@ -1568,4 +1569,34 @@ describe('components/CreateComment', () => {
         instance.handleKeyDown(commentEscapeKey);
         expect(blur).toHaveBeenCalledTimes(1);
     });
+
+    it('should keep the props of the draft when scheduling it', async () => {
+        const createScheduledPost = jest.fn(() => Promise.resolve({data: true}));
+        const draft = {
+            message: 'Test message',
+            uploadsInProgress: [],
+            fileInfos: [{id: 'file1'}],
+            props: {mentionHighlightDisabled: true},
+        };
+
+        const wrapper = shallowWithIntl(
+            <CreateComment
+                {...baseProps}
+                draft={draft}
+                rootId='root1'
+                createScheduledPost={createScheduledPost}
+            />,
+        );
+
+        await wrapper.instance().schedulePost(1000);
+
+        expect(createScheduledPost).toHaveBeenCalledWith({
+            channel_id: channelId,
+            root_id: 'root1',
+            message: 'Test message',
+            props: {mentionHighlightDisabled: true},
+            file_ids: ['file1'],
+            scheduled_at: 1000,
+        });
+    });
 });
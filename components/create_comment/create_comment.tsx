@@ -14,6 +14,7 @@ import {sortFileInfos} from 'mattermost-redux/utils/file_utils';
 import * as GlobalActions from 'actions/global_actions';
 
 import Constants, {Locations, ModalIdentifiers} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as UserAgent from 'utils/user_agent';
 import * as Utils from 'utils/utils.jsx';
 import {
@@ -27,12 +28,15 @@ import {
 import {getTable, formatMarkdownTableMessage, isGitHubCodeBlock, formatGithubCodePaste} from 'utils/paste';
 
 import NotifyConfirmModal from 'components/notify_confirm_modal';
+import OutboxStatus from 'components/outbox_status';
+import ComposerActions from 'components/composer_actions';
 import EmojiPickerOverlay from 'components/emoji_picker/emoji_picker_overlay.jsx';
 import FilePreview from 'components/file_preview';
 import FileUpload from 'components/file_upload';
 import {FileUpload as FileUploadClass} from 'components/file_upload/file_upload';
 import MsgTyping from 'components/msg_typing';
 import PostDeletedModal from 'components/post_deleted_modal';
+import SchedulePostButton from 'components/schedule_post_button';
 import EmojiIcon from 'components/widgets/icons/emoji_icon';
 import Textbox from 'components/textbox';
 import TextboxClass from 'components/textbox/textbox';
@@ -46,6 +50,7 @@ import {Emoji} from 'mattermost-redux/types/emojis';
 import {ActionResult} from 'mattermost-redux/types/actions';
 import {ServerError} from 'mattermost-redux/types/errors';
 import {FileInfo} from 'mattermost-redux/types/files';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
 
 import RhsSuggestionList from 'components/suggestion/rhs_suggestion_list';
 
@@ -121,7 +126,7 @@ type Props = {
     /**
       * Called when comment draft needs to be updated
       */
-    onUpdateCommentDraft: (draft?: PostDraft) => void;
+    onUpdateCommentDraft: (draft?: PostDraft | null) => void;
 
     /**
       * Called when comment draft needs to be updated for an specific root ID
@@ -133,6 +138,11 @@ type Props = {
       */
     onSubmit: (draft: PostDraft, options: {ignoreSlash: boolean}) => void;
 
+    /**
+      * Called when scheduling the comment to be sent later
+      */
+    createScheduledPost: (scheduledPost: Partial<ScheduledPost>) => Promise<ActionResult>;
+
     /**
       * Called when resetting comment message history index
       */
@@ -178,6 +188,11 @@ type Props = {
       */
     enableGifPicker: boolean;
 
+    /**
+      * Set if messages can be scheduled to be sent later.
+      */
+    enableScheduledPosts?: boolean;
+
     /**
       * Set if the connection may be bad to warn user
       */
@@ -704,6 +719,36 @@ class CreateComment extends React.PureComponent<Props, State> {
         this.draftsForPost[this.props.rootId] = null;
     }
 
+    schedulePost = async (scheduledAt: number) => {
+        const draft = this.state.draft!;
+
+        const {error} = await this.props.createScheduledPost({
+            channel_id: this.props.channelId,
+            root_id: this.props.rootId,
+            message: draft.message,
+            props: {...draft.props},
+            file_ids: draft.fileInfos.map((fileInfo) => fileInfo.id),
+            scheduled_at: scheduledAt,
+        });
+
+        if (error) {
+            this.setState({serverError: {...error, submittedMessage: draft.message}});
+            return;
+        }
+
+        if (this.saveDraftFrame) {
+            clearTimeout(this.saveDraftFrame);
+        }
+
+        this.props.onUpdateCommentDraft(null);
+        this.setState({
+            draft: {message: '', fileInfos: [], uploadsInProgress: []},
+            postError: null,
+            serverError: null,
+        });
+        this.draftsForPost[this.props.rootId] = null;
+    }
+
     commentMsgKeyPress = (e: React.KeyboardEvent) => {
         const {
             ctrlSend,
@@ -841,7 +886,7 @@ class CreateComment extends React.PureComponent<Props, State> {
             }
         }
 
-        if (!e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey && Utils.isKeyPressed(e, Constants.KeyCodes.UP) && message === '') {
+        if (message === '' && Utils.isShortcutPressed(e, ShortcutActionIds.EDIT_LAST)) {
             e.preventDefault();
             if (this.textboxRef.current) {
                 this.textboxRef.current.blur();
@@ -1032,6 +1077,27 @@ class CreateComment extends React.PureComponent<Props, State> {
         return this.textboxRef.current;
     }
 
+    getComposerInputBox = () => {
+        return this.textboxRef.current?.getInputBox();
+    }
+
+    getComposerText = () => {
+        return this.state.draft!.message;
+    }
+
+    setComposerText = (message: string, caretPosition: number, callback: () => void) => {
+        const updatedDraft = {...this.state.draft!, message};
+
+        this.props.onUpdateCommentDraft(updatedDraft);
+        this.draftsForPost[this.props.rootId] = updatedDraft;
+
+        this.setState({draft: updatedDraft, caretPosition}, callback);
+    }
+
+    attachComposerFiles = (files: File[]) => {
+        this.fileUploadRef.current?.checkPluginHooksAndUploadFiles(files);
+    }
+
     getCreateCommentControls = () => {
         return this.createCommentControlsRef.current;
     }
@@ -1159,6 +1225,20 @@ class CreateComment extends React.PureComponent<Props, State> {
             );
         }
 
+        let composerActions;
+        if (!readOnlyChannel && !this.props.shouldShowPreview) {
+            composerActions = (
+                <ComposerActions
+                    channelId={this.props.channelId}
+                    rootId={this.props.rootId}
+                    getInputBox={this.getComposerInputBox}
+                    getText={this.getComposerText}
+                    setText={this.setComposerText}
+                    attachFiles={this.attachComposerFiles}
+                />
+            );
+        }
+
         let emojiPicker = null;
         const emojiButtonAriaLabel = formatMessage({id: 'emoji_picker.emojiPicker', defaultMessage: 'Emoji Picker'}).toLowerCase();
 
@@ -1189,6 +1269,16 @@ class CreateComment extends React.PureComponent<Props, State> {
             );
         }
 
+        let schedulePostButton;
+        if (this.props.enableScheduledPosts && !readOnlyChannel && !this.props.shouldShowPreview) {
+            schedulePostButton = (
+                <SchedulePostButton
+                    disabled={!this.shouldEnableAddButton() || draft.message.indexOf('/') === 0 || draft.uploadsInProgress.length > 0}
+                    onSchedule={this.schedulePost}
+                />
+            );
+        }
+
         let createMessage;
         if (readOnlyChannel) {
             createMessage = Utils.localizeMessage('create_post.read_only', 'This channel is read-only. Only members with permission can post here.');
@@ -1247,8 +1337,10 @@ class CreateComment extends React.PureComponent<Props, State> {
                                 ref={this.createCommentControlsRef}
                                 className='post-body__actions'
                             >
+                                {composerActions}
                                 {fileUpload}
                                 {emojiPicker}
+                                {schedulePostButton}
                             </span>
                         </div>
                     </div>
@@ -1281,6 +1373,7 @@ class CreateComment extends React.PureComponent<Props, State> {
                                 value={formatMessage({id: 'create_comment.comment', defaultMessage: 'Reply'})}
                                 onClick={this.handleSubmit}
                             />
+                            <OutboxStatus/>
                             {preview}
                             {serverError}
                         </div>
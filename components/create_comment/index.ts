@@ -19,10 +19,12 @@ import {getAllChannelStats, getChannelMemberCountsByGroup as selectChannelMember
 import {makeGetMessageInHistoryItem} from 'mattermost-redux/selectors/entities/posts';
 import {resetCreatePostRequest, resetHistoryIndex} from 'mattermost-redux/actions/posts';
 import {getChannelTimezones, getChannelMemberCountsByGroup} from 'mattermost-redux/actions/channels';
+import {createScheduledPost} from 'mattermost-redux/actions/scheduled_posts';
 import {Permissions, Preferences, Posts} from 'mattermost-redux/constants';
 import {getAssociatedGroupsForReferenceByMention} from 'mattermost-redux/selectors/entities/groups';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
 
-import {connectionErrorCount} from 'selectors/views/system';
+import {connectionErrorCount, isConnectionDegraded} from 'selectors/views/system';
 
 import {Constants, StoragePrefixes} from 'utils/constants';
 import {getCurrentLocale} from 'selectors/i18n';
@@ -66,7 +68,8 @@ function makeMapStateToProps() {
         const enableConfirmNotificationsToChannel = config.EnableConfirmNotificationsToChannel === 'true';
         const enableEmojiPicker = config.EnableEmojiPicker === 'true';
         const enableGifPicker = config.EnableGifPicker === 'true';
-        const badConnection = connectionErrorCount(state) > 1;
+        const enableScheduledPosts = config.EnableScheduledPosts === 'true';
+        const badConnection = connectionErrorCount(state) > 1 || isConnectionDegraded(state);
         const isTimezoneEnabled = config.ExperimentalTimezone === 'true';
         const canPost = haveIChannelPermission(state, channel.team_id, channel.id, Permissions.CREATE_POST);
         const useChannelMentions = haveIChannelPermission(state, channel.team_id, channel.id, Permissions.USE_CHANNEL_MENTIONS);
@@ -85,6 +88,7 @@ function makeMapStateToProps() {
             enableConfirmNotificationsToChannel,
             enableEmojiPicker,
             enableGifPicker,
+            enableScheduledPosts,
             locale: getCurrentLocale(state),
             maxPostSize: parseInt(config.MaxPostSize || '', 10) || Constants.DEFAULT_CHARACTER_LIMIT,
             rhsExpanded: getIsRhsExpanded(state),
@@ -102,14 +106,15 @@ function makeMapStateToProps() {
 }
 
 function makeOnUpdateCommentDraft(rootId: string) {
-    return (draft?: PostDraft) => updateCommentDraft(rootId, draft);
+    return (draft?: PostDraft | null) => updateCommentDraft(rootId, draft);
 }
 
 type Actions = {
     clearCommentDraftUploads: () => void;
-    onUpdateCommentDraft: (draft?: PostDraft) => void;
+    onUpdateCommentDraft: (draft?: PostDraft | null) => void;
     updateCommentDraftWithRootId: (rootID: string, draft: PostDraft) => void;
     onSubmit: (draft: PostDraft, options: {ignoreSlash: boolean}) => void;
+    createScheduledPost: (scheduledPost: Partial<ScheduledPost>) => Promise<ActionResult>;
     onResetHistoryIndex: () => void;
     onMoveHistoryIndexBack: () => void;
     onMoveHistoryIndexForward: () => void;
@@ -123,7 +128,7 @@ type Actions = {
 }
 
 function makeMapDispatchToProps() {
-    let onUpdateCommentDraft: (draft?: PostDraft) => void;
+    let onUpdateCommentDraft: (draft?: PostDraft | null) => void;
     let onSubmit: (draft: PostDraft, options: {ignoreSlash: boolean}) => (dispatch: DispatchFunc, getState: () => GlobalState) => Promise<ActionResult | ActionResult[]> | ActionResult;
     let onMoveHistoryIndexBack: () => (dispatch: DispatchFunc, getState: () => GlobalState) => Promise<ActionResult | ActionResult[]> | ActionResult;
     let onMoveHistoryIndexForward: () => (dispatch: DispatchFunc, getState: () => GlobalState) => Promise<ActionResult | ActionResult[]> | ActionResult;
@@ -161,6 +166,7 @@ function makeMapDispatchToProps() {
             onUpdateCommentDraft,
             updateCommentDraftWithRootId: updateCommentDraft,
             onSubmit,
+            createScheduledPost,
             onResetHistoryIndex,
             onMoveHistoryIndexBack,
             onMoveHistoryIndexForward,
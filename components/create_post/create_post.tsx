@@ -24,6 +24,7 @@ import {
     groupsMentionedInText,
 } from 'utils/post_utils';
 import {getTable, formatMarkdownTableMessage, formatGithubCodePaste, isGitHubCodeBlock} from 'utils/paste';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as UserAgent from 'utils/user_agent';
 import * as Utils from 'utils/utils.jsx';
 
@@ -35,9 +36,12 @@ import FilePreview from 'components/file_preview';
 import FileUpload from 'components/file_upload';
 import {FileUpload as FileUploadClass} from 'components/file_upload/file_upload';
 import CallButton from 'components/call_button';
+import ComposerActions from 'components/composer_actions';
 import LocalizedIcon from 'components/localized_icon';
 import MsgTyping from 'components/msg_typing';
+import OutboxStatus from 'components/outbox_status';
 import ResetStatusModal from 'components/reset_status_modal';
+import SchedulePostButton from 'components/schedule_post_button';
 import EmojiIcon from 'components/widgets/icons/emoji_icon';
 import Textbox from 'components/textbox';
 import TextboxClass from 'components/textbox/textbox';
@@ -56,6 +60,7 @@ import {Group} from 'mattermost-redux/types/groups';
 import {ModalData} from 'types/actions';
 import {FileInfo} from 'mattermost-redux/types/files';
 import {Emoji} from 'mattermost-redux/types/emojis';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
 import {FilePreviewInfo} from 'components/file_preview/file_preview';
 
 import CreatePostTip from './create_post_tip';
@@ -171,6 +176,11 @@ type Props = {
   */
     enableConfirmNotificationsToChannel: boolean;
 
+    /**
+  * Whether messages can be scheduled to be sent later.
+  */
+    enableScheduledPosts?: boolean;
+
     /**
   * The maximum length of a post
   */
@@ -281,6 +291,11 @@ type Props = {
 
         executeCommand: (message: string, args: CommandArgs) => ActionResult;
 
+        /**
+      * Function to schedule the message to be sent later
+      */
+        createScheduledPost: (scheduledPost: Partial<ScheduledPost>) => ActionResult;
+
         /**
       * Function to get the users timezones in the channel
       */
@@ -594,6 +609,35 @@ class CreatePost extends React.PureComponent<Props, State> {
         }
     }
 
+    schedulePost = async (scheduledAt: number) => {
+        const {actions, currentChannel, draft} = this.props;
+        const channelId = currentChannel.id;
+        const message = this.state.message;
+
+        const {error} = await actions.createScheduledPost({
+            channel_id: channelId,
+            root_id: '',
+            message,
+            props: {...draft.props},
+            file_ids: draft.fileInfos.map((fileInfo) => fileInfo.id),
+            scheduled_at: scheduledAt,
+        });
+
+        if (error) {
+            this.setState({serverError: {...error, submittedMessage: message}});
+            return;
+        }
+
+        this.setState({message: '', serverError: null, postError: null});
+
+        if (this.saveDraftFrame) {
+            clearTimeout(this.saveDraftFrame);
+        }
+
+        actions.setDraft(StoragePrefixes.DRAFT + channelId, null);
+        this.draftsForChannel[channelId] = null;
+    }
+
     handleNotifyAllConfirmation = () => {
         this.doSubmit();
     }
@@ -1102,8 +1146,6 @@ class CreatePost extends React.PureComponent<Props, State> {
         const messageIsEmpty = this.state.message.length === 0;
         const draftMessageIsEmpty = this.props.draft.message.length === 0;
         const ctrlEnterKeyCombo = (this.props.ctrlSend || this.props.codeBlockOnCtrlEnter) && Utils.isKeyPressed(e, KeyCodes.ENTER) && ctrlOrMetaKeyPressed;
-        const upKeyOnly = !ctrlOrMetaKeyPressed && !e.altKey && !e.shiftKey && Utils.isKeyPressed(e, KeyCodes.UP);
-        const shiftUpKeyCombo = !ctrlOrMetaKeyPressed && !e.altKey && e.shiftKey && Utils.isKeyPressed(e, KeyCodes.UP);
         const ctrlKeyCombo = Utils.cmdOrCtrlPressed(e) && !e.altKey && !e.shiftKey;
         const markdownHotkey = Utils.isKeyPressed(e, KeyCodes.B) || Utils.isKeyPressed(e, KeyCodes.I);
         const ctrlAltCombo = Utils.cmdOrCtrlPressed(e, true) && e.altKey;
@@ -1114,9 +1156,9 @@ class CreatePost extends React.PureComponent<Props, State> {
             this.setState({message: Utils.insertLineBreakFromKeyEvent(e)});
         } else if (ctrlEnterKeyCombo) {
             this.postMsgKeyPress(e);
-        } else if (upKeyOnly && messageIsEmpty) {
+        } else if (messageIsEmpty && Utils.isShortcutPressed(e, ShortcutActionIds.EDIT_LAST)) {
             this.editLastPost(e);
-        } else if (shiftUpKeyCombo && messageIsEmpty) {
+        } else if (messageIsEmpty && Utils.isShortcutPressed(e, ShortcutActionIds.REPLY_LAST)) {
             this.replyToLastPost(e);
         } else if (ctrlKeyCombo && draftMessageIsEmpty && Utils.isKeyPressed(e, KeyCodes.UP)) {
             this.loadPrevMessage(e);
@@ -1215,6 +1257,22 @@ class CreatePost extends React.PureComponent<Props, State> {
         });
     }
 
+    getComposerInputBox = () => {
+        return this.textboxRef.current?.getInputBox();
+    }
+
+    getComposerText = () => {
+        return this.state.message;
+    }
+
+    setComposerText = (message: string, caretPosition: number, callback: () => void) => {
+        this.setState({message, caretPosition}, callback);
+    }
+
+    attachComposerFiles = (files: File[]) => {
+        this.fileUploadRef.current?.checkPluginHooksAndUploadFiles(files);
+    }
+
     prefillMessage = (message: string, shouldFocus?: boolean) => {
         this.setMessageAndCaretPostion(message, message.length);
 
@@ -1399,6 +1457,29 @@ class CreatePost extends React.PureComponent<Props, State> {
             );
         }
 
+        let composerActions;
+        if (!readOnlyChannel && !this.props.shouldShowPreview) {
+            composerActions = (
+                <ComposerActions
+                    channelId={currentChannel.id}
+                    getInputBox={this.getComposerInputBox}
+                    getText={this.getComposerText}
+                    setText={this.setComposerText}
+                    attachFiles={this.attachComposerFiles}
+                />
+            );
+        }
+
+        let schedulePostButton;
+        if (this.props.enableScheduledPosts && !readOnlyChannel && !this.props.shouldShowPreview) {
+            schedulePostButton = (
+                <SchedulePostButton
+                    disabled={!this.shouldEnableSendButton() || this.state.message.indexOf('/') === 0 || draft.uploadsInProgress.length > 0}
+                    onSchedule={this.schedulePost}
+                />
+            );
+        }
+
         let emojiPicker = null;
         const emojiButtonAriaLabel = formatMessage({id: 'emoji_picker.emojiPicker', defaultMessage: 'Emoji Picker'}).toLowerCase();
 
@@ -1496,8 +1577,10 @@ class CreatePost extends React.PureComponent<Props, State> {
                                 className='post-body__actions'
                             >
                                 {callButton}
+                                {composerActions}
                                 {fileUpload}
                                 {emojiPicker}
+                                {schedulePostButton}
                                 <a
                                     role='button'
                                     tabIndex={0}
@@ -1538,6 +1621,7 @@ class CreatePost extends React.PureComponent<Props, State> {
                             />
                         </div>
                         <div>
+                            <OutboxStatus/>
                             {postError}
                             {preview}
                             {serverError}
@@ -28,6 +28,8 @@ import {getChannelTimezones, getChannelMemberCountsByGroup} from 'mattermost-red
 import {get, getInt, getBool} from 'mattermost-redux/selectors/entities/preferences';
 import {PreferenceType} from 'mattermost-redux/types/preferences';
 import {savePreferences} from 'mattermost-redux/actions/preferences';
+import {createScheduledPost} from 'mattermost-redux/actions/scheduled_posts';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
 import {
     getCurrentUsersLatestPost,
     getLatestReplyablePostId,
@@ -42,7 +44,7 @@ import {
 } from 'mattermost-redux/actions/posts';
 import {Permissions, Posts, Preferences as PreferencesRedux} from 'mattermost-redux/constants';
 
-import {connectionErrorCount} from 'selectors/views/system';
+import {connectionErrorCount, isConnectionDegraded} from 'selectors/views/system';
 
 import {addReaction, createPost, setEditingPost, emitShortcutReactToLastPostFrom} from 'actions/post_actions.jsx';
 import {scrollPostListToBottom} from 'actions/views/channel';
@@ -54,7 +56,8 @@ import {getPostDraft, getIsRhsExpanded} from 'selectors/rhs';
 import {showPreviewOnCreatePost} from 'selectors/views/textbox';
 import {getCurrentLocale} from 'selectors/i18n';
 import {getEmojiMap, getShortcutReactToLastPostEmittedFrom} from 'selectors/emojis';
-import {setGlobalItem, actionOnGlobalItemsWithPrefix} from 'actions/storage';
+import {actionOnGlobalItemsWithPrefix} from 'actions/storage';
+import {updateDraft} from 'actions/views/drafts';
 import {openModal} from 'actions/views/modals';
 import {Constants, Preferences, StoragePrefixes, TutorialSteps, UserStatuses} from 'utils/constants';
 import {canUploadFiles} from 'utils/file_utils';
@@ -76,9 +79,10 @@ function makeMapStateToProps() {
         const enableEmojiPicker = config.EnableEmojiPicker === 'true';
         const enableGifPicker = config.EnableGifPicker === 'true';
         const enableConfirmNotificationsToChannel = config.EnableConfirmNotificationsToChannel === 'true';
+        const enableScheduledPosts = config.EnableScheduledPosts === 'true';
         const currentUserId = getCurrentUserId(state);
         const userIsOutOfOffice = getStatusForUserId(state, currentUserId) === UserStatuses.OUT_OF_OFFICE;
-        const badConnection = connectionErrorCount(state) > 1;
+        const badConnection = connectionErrorCount(state) > 1 || isConnectionDegraded(state);
         const isTimezoneEnabled = config.ExperimentalTimezone === 'true';
         const shortcutReactToLastPostEmittedFrom = getShortcutReactToLastPostEmittedFrom(state);
         const canPost = haveICurrentChannelPermission(state, Permissions.CREATE_POST);
@@ -110,6 +114,7 @@ function makeMapStateToProps() {
             enableEmojiPicker,
             enableGifPicker,
             enableConfirmNotificationsToChannel,
+            enableScheduledPosts,
             maxPostSize: parseInt(config.MaxPostSize || '', 10) || Constants.DEFAULT_CHARACTER_LIMIT,
             userIsOutOfOffice,
             rhsExpanded: getIsRhsExpanded(state),
@@ -152,6 +157,7 @@ type Actions = {
     openModal: <P>(modalData: ModalData<P>) => void;
     closeModal: (modalId: string) => void;
     executeCommand: (message: string, args: CommandArgs) => ActionResult;
+    createScheduledPost: (scheduledPost: Partial<ScheduledPost>) => ActionResult;
     getChannelTimezones: (channelId: string) => ActionResult;
     scrollPostListToBottom: () => void;
     emitShortcutReactToLastPostFrom: (emittedFrom: string) => void;
@@ -159,15 +165,9 @@ type Actions = {
     savePreferences: (userId: string, preferences: PreferenceType[]) => ActionResult;
 }
 
-// Temporarily store draft manually in localStorage since the current version of redux-persist
-// we're on will not save the draft quickly enough on page unload.
-function setDraft(key: string, value: PostDraft) {
-    if (value) {
-        localStorage.setItem(key, JSON.stringify(value));
-    } else {
-        localStorage.removeItem(key);
-    }
-    return setGlobalItem(key, value);
+function setDraft(key: string, value: PostDraft | null) {
+    const channelId = key.substring(StoragePrefixes.DRAFT.length);
+    return updateDraft(key, value, channelId);
 }
 
 function clearDraftUploads() {
@@ -196,6 +196,7 @@ function mapDispatchToProps(dispatch: Dispatch) {
             emitShortcutReactToLastPostFrom,
             openModal,
             executeCommand,
+            createScheduledPost,
             getChannelTimezones,
             runMessageWillBePostedHooks,
             runSlashCommandWillBePostedHooks,
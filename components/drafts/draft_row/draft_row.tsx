@@ -0,0 +1,179 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo, useCallback, useEffect, useMemo, useState, MouseEvent} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {getPost as fetchPost} from 'mattermost-redux/actions/posts';
+import {getChannel} from 'mattermost-redux/selectors/entities/channels';
+import {getPost} from 'mattermost-redux/selectors/entities/posts';
+import {ActionResult} from 'mattermost-redux/types/actions';
+import {ServerError} from 'mattermost-redux/types/errors';
+
+import {sendDraft} from 'actions/views/create_comment';
+import {discardDraft, openDraft} from 'actions/views/drafts';
+import {getEmojiMap} from 'selectors/emojis';
+
+import Badge from 'components/widgets/badges/badge';
+import Button from 'components/threading/common/button';
+import MessageSubmitError from 'components/message_submit_error';
+import SimpleTooltip from 'components/widgets/simple_tooltip';
+import Timestamp from 'components/timestamp';
+import {THREADING_TIME} from 'components/threading/common/options';
+
+import * as Markdown from 'utils/markdown';
+import {getSiteURL} from 'utils/url';
+
+import type {GlobalState} from 'types/store';
+import type {DraftInfo} from 'types/store/drafts';
+
+import './draft_row.scss';
+
+type Props = {
+    draft: DraftInfo;
+};
+
+function DraftRow({draft}: Props) {
+    const dispatch = useDispatch();
+    const {formatMessage} = useIntl();
+
+    const channel = useSelector((state: GlobalState) => getChannel(state, draft.channelId));
+    const rootPost = useSelector((state: GlobalState) => (draft.rootId ? getPost(state, draft.rootId) : undefined));
+    const emojiMap = useSelector(getEmojiMap);
+
+    const [serverError, setServerError] = useState<ServerError | null>(null);
+
+    useEffect(() => {
+        // The channel of a reply is only known once the post it replies to has been loaded
+        if (draft.rootId && !rootPost) {
+            dispatch(fetchPost(draft.rootId));
+        }
+    }, [draft.rootId, rootPost]);
+
+    const preview = useMemo(() => Markdown.format(
+        draft.value.message,
+        {
+            breaks: true,
+            sanitize: true,
+            gfm: true,
+            siteURL: getSiteURL(),
+        },
+        emojiMap,
+    ), [draft.value.message, emojiMap]);
+
+    const handleOpen = useCallback(() => {
+        dispatch(openDraft(draft));
+    }, [draft]);
+
+    const handleSend = useCallback(async (e: MouseEvent) => {
+        e.stopPropagation();
+        setServerError(null);
+
+        const {error} = await dispatch(sendDraft(draft)) as ActionResult;
+        if (error) {
+            setServerError(error);
+        }
+    }, [draft]);
+
+    const handleDiscard = useCallback((e: MouseEvent) => {
+        e.stopPropagation();
+        dispatch(discardDraft(draft));
+    }, [draft]);
+
+    if (!channel) {
+        return null;
+    }
+
+    const fileCount = draft.value.fileInfos.length;
+    const canSend = draft.value.uploadsInProgress.length === 0;
+
+    return (
+        <article
+            className='DraftRow'
+            tabIndex={0}
+            onClick={handleOpen}
+        >
+            <h1>
+                <Badge>
+                    {channel.display_name}
+                </Badge>
+                {draft.type === 'thread' && (
+                    <span className='DraftRow__context'>
+                        <FormattedMessage
+                            id='drafts.threadReply'
+                            defaultMessage='Reply in thread'
+                        />
+                    </span>
+                )}
+                <Timestamp
+                    {...THREADING_TIME}
+                    className='DraftRow__timestamp'
+                    value={draft.lastEditedAt}
+                />
+            </h1>
+            <div
+                aria-readonly='true'
+                className='DraftRow__preview'
+                dir='auto'
+                dangerouslySetInnerHTML={{__html: preview}}
+            />
+            {fileCount > 0 && (
+                <div className='DraftRow__files'>
+                    <FormattedMessage
+                        id='drafts.attachments'
+                        defaultMessage='{count, plural, =1 {# attachment} other {# attachments}}'
+                        values={{count: fileCount}}
+                    />
+                </div>
+            )}
+            {serverError && (
+                <MessageSubmitError
+                    error={serverError}
+                    handleSubmit={handleSend}
+                />
+            )}
+            <div className='DraftRow__actions'>
+                <SimpleTooltip
+                    id='draftDiscard'
+                    content={formatMessage({id: 'drafts.discard', defaultMessage: 'Discard draft'})}
+                >
+                    <Button
+                        className='Button___icon'
+                        aria-label={formatMessage({id: 'drafts.discard', defaultMessage: 'Discard draft'})}
+                        onClick={handleDiscard}
+                    >
+                        <i className='icon icon-trash-can-outline'/>
+                    </Button>
+                </SimpleTooltip>
+                <SimpleTooltip
+                    id='draftOpen'
+                    content={formatMessage({id: 'drafts.open', defaultMessage: 'Edit in channel'})}
+                >
+                    <Button
+                        className='Button___icon'
+                        aria-label={formatMessage({id: 'drafts.open', defaultMessage: 'Edit in channel'})}
+                        onClick={handleOpen}
+                    >
+                        <i className='icon icon-pencil-outline'/>
+                    </Button>
+                </SimpleTooltip>
+                <SimpleTooltip
+                    id='draftSend'
+                    content={formatMessage({id: 'drafts.send', defaultMessage: 'Send now'})}
+                >
+                    <Button
+                        className='Button___icon'
+                        aria-label={formatMessage({id: 'drafts.send', defaultMessage: 'Send now'})}
+                        disabled={!canSend}
+                        onClick={handleSend}
+                    >
+                        <i className='icon icon-send'/>
+                    </Button>
+                </SimpleTooltip>
+            </div>
+        </article>
+    );
+}
+
+export default memo(DraftRow);
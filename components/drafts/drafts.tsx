@@ -0,0 +1,151 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo, useCallback, useEffect, useState} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {selectChannel} from 'mattermost-redux/actions/channels';
+import {getConfig} from 'mattermost-redux/selectors/entities/general';
+import {getScheduledPostsInCurrentTeam} from 'mattermost-redux/selectors/entities/scheduled_posts';
+
+import {getDraftsInCurrentTeam} from 'selectors/drafts';
+
+import Header from 'components/widgets/header';
+import NoResultsIndicator from 'components/no_results_indicator';
+import ChatIllustration from 'components/threading/common/chat_illustration';
+import Button from 'components/threading/common/button';
+
+import type {GlobalState} from 'types/store';
+
+import DraftRow from './draft_row';
+import ScheduledPostRow from './scheduled_post_row';
+
+import './drafts.scss';
+
+enum DraftsTab {
+    drafts = 'drafts',
+    scheduled = 'scheduled',
+}
+
+const Drafts = () => {
+    const {formatMessage} = useIntl();
+    const dispatch = useDispatch();
+
+    const drafts = useSelector(getDraftsInCurrentTeam);
+    const scheduledPosts = useSelector(getScheduledPostsInCurrentTeam);
+    const enableScheduledPosts = useSelector((state: GlobalState) => getConfig(state).EnableScheduledPosts === 'true');
+
+    const [tab, setTab] = useState(DraftsTab.drafts);
+
+    useEffect(() => {
+        dispatch(selectChannel(''));
+    }, []);
+
+    const showDrafts = useCallback(() => setTab(DraftsTab.drafts), []);
+    const showScheduled = useCallback(() => setTab(DraftsTab.scheduled), []);
+
+    let list;
+    if (tab === DraftsTab.scheduled && enableScheduledPosts) {
+        list = scheduledPosts.length ? (
+            <div className='Drafts__list'>
+                {scheduledPosts.map((scheduledPost) => (
+                    <ScheduledPostRow
+                        key={scheduledPost.id}
+                        scheduledPost={scheduledPost}
+                    />
+                ))}
+            </div>
+        ) : (
+            <div className='no-results__holder'>
+                <NoResultsIndicator
+                    expanded={true}
+                    iconGraphic={ChatIllustration}
+                    title={formatMessage({
+                        id: 'drafts.scheduled.empty.title',
+                        defaultMessage: 'No scheduled messages',
+                    })}
+                    subtitle={formatMessage({
+                        id: 'drafts.scheduled.empty.subtitle',
+                        defaultMessage: 'Messages you schedule to be sent later will show here.',
+                    })}
+                />
+            </div>
+        );
+    } else {
+        list = drafts.length ? (
+            <div className='Drafts__list'>
+                {drafts.map((draft) => (
+                    <DraftRow
+                        key={draft.key}
+                        draft={draft}
+                    />
+                ))}
+            </div>
+        ) : (
+            <div className='no-results__holder'>
+                <NoResultsIndicator
+                    expanded={true}
+                    iconGraphic={ChatIllustration}
+                    title={formatMessage({
+                        id: 'drafts.empty.title',
+                        defaultMessage: 'No drafts at the moment',
+                    })}
+                    subtitle={formatMessage({
+                        id: 'drafts.empty.subtitle',
+                        defaultMessage: 'Any messages you’ve started will show here.',
+                    })}
+                />
+            </div>
+        );
+    }
+
+    return (
+        <div
+            id='app-content'
+            className='Drafts app__content'
+        >
+            <Header
+                level={2}
+                className='Drafts___header'
+                heading={formatMessage({
+                    id: 'drafts.heading',
+                    defaultMessage: 'Drafts',
+                })}
+                subtitle={formatMessage({
+                    id: 'drafts.subtitle',
+                    defaultMessage: 'Any messages you’ve started will show here',
+                })}
+                right={enableScheduledPosts && (
+                    <div className='Drafts__tabs'>
+                        <Button
+                            className='Button___large Margined'
+                            isActive={tab === DraftsTab.drafts}
+                            onClick={showDrafts}
+                        >
+                            <FormattedMessage
+                                id='drafts.tabs.drafts'
+                                defaultMessage='Drafts ({count})'
+                                values={{count: drafts.length}}
+                            />
+                        </Button>
+                        <Button
+                            className='Button___large Margined'
+                            isActive={tab === DraftsTab.scheduled}
+                            onClick={showScheduled}
+                        >
+                            <FormattedMessage
+                                id='drafts.tabs.scheduled'
+                                defaultMessage='Scheduled ({count})'
+                                values={{count: scheduledPosts.length}}
+                            />
+                        </Button>
+                    </div>
+                )}
+            />
+            {list}
+        </div>
+    );
+};
+
+export default memo(Drafts);
@@ -0,0 +1,68 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {Link, useRouteMatch, useLocation, matchPath} from 'react-router-dom';
+import classNames from 'classnames';
+import {useIntl} from 'react-intl';
+import {useSelector} from 'react-redux';
+
+import {getScheduledPostCountInCurrentTeam} from 'mattermost-redux/selectors/entities/scheduled_posts';
+
+import {t} from 'utils/i18n';
+
+import {getDraftCountInCurrentTeam} from 'selectors/drafts';
+import {isUnreadFilterEnabled} from 'selectors/views/channel_sidebar';
+
+import './drafts_link.scss';
+
+const DraftsLink = () => {
+    const {formatMessage} = useIntl();
+
+    const {url} = useRouteMatch();
+    const {pathname} = useLocation();
+    const inDrafts = matchPath(pathname, {path: '/:team/drafts'}) != null;
+
+    const count = useSelector(getDraftCountInCurrentTeam);
+    const scheduledCount = useSelector(getScheduledPostCountInCurrentTeam);
+    const unreadsOnly = useSelector(isUnreadFilterEnabled);
+
+    if (!inDrafts && ((!count && !scheduledCount) || unreadsOnly)) {
+        // hide link if there are no drafts or scheduled messages, or when filtering unreads
+        return null;
+    }
+
+    return (
+        <ul className='SidebarDrafts NavGroupContent nav nav-pills__container'>
+            <li
+                className={classNames('SidebarChannel', {
+                    active: inDrafts,
+                })}
+                tabIndex={-1}
+            >
+                <Link
+                    to={`${url}/drafts`}
+                    id='sidebarItem_drafts'
+                    draggable='false'
+                    className='SidebarLink sidebar-item'
+                    role='listitem'
+                    tabIndex={0}
+                >
+                    <i className='icon icon-pencil-outline'/>
+                    <div className='SidebarChannelLinkLabel_wrapper'>
+                        <span className='SidebarChannelLinkLabel sidebar-item__name'>
+                            {formatMessage({id: t('drafts.sidebarLink'), defaultMessage: 'Drafts'})}
+                        </span>
+                    </div>
+                    {count > 0 && (
+                        <span className='SidebarDrafts__count'>
+                            {count}
+                        </span>
+                    )}
+                </Link>
+            </li>
+        </ul>
+    );
+};
+
+export default DraftsLink;
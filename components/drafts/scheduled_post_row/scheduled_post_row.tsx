@@ -0,0 +1,230 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo, useCallback, useMemo, useState, ChangeEvent} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {deleteScheduledPost, updateScheduledPost} from 'mattermost-redux/actions/scheduled_posts';
+import {getChannel} from 'mattermost-redux/selectors/entities/channels';
+import {ActionResult} from 'mattermost-redux/types/actions';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
+
+import {openModal} from 'actions/views/modals';
+import {getEmojiMap} from 'selectors/emojis';
+
+import Badge from 'components/widgets/badges/badge';
+import Button from 'components/threading/common/button';
+import SchedulePostModal from 'components/schedule_post_modal';
+import SimpleTooltip from 'components/widgets/simple_tooltip';
+import Timestamp from 'components/timestamp';
+
+import {ModalIdentifiers} from 'utils/constants';
+import * as Markdown from 'utils/markdown';
+import {getSiteURL} from 'utils/url';
+
+import type {GlobalState} from 'types/store';
+
+import '../draft_row/draft_row.scss';
+import './scheduled_post_row.scss';
+
+type Props = {
+    scheduledPost: ScheduledPost;
+};
+
+function ScheduledPostRow({scheduledPost}: Props) {
+    const dispatch = useDispatch();
+    const {formatMessage} = useIntl();
+
+    const channel = useSelector((state: GlobalState) => getChannel(state, scheduledPost.channel_id));
+    const emojiMap = useSelector(getEmojiMap);
+
+    const [editing, setEditing] = useState(false);
+    const [message, setMessage] = useState(scheduledPost.message);
+
+    const preview = useMemo(() => Markdown.format(
+        scheduledPost.message,
+        {
+            breaks: true,
+            sanitize: true,
+            gfm: true,
+            siteURL: getSiteURL(),
+        },
+        emojiMap,
+    ), [scheduledPost.message, emojiMap]);
+
+    const handleEdit = useCallback(() => {
+        setMessage(scheduledPost.message);
+        setEditing(true);
+    }, [scheduledPost.message]);
+
+    const handleCancelEdit = useCallback(() => {
+        setEditing(false);
+    }, []);
+
+    const handleMessageChange = useCallback((e: ChangeEvent<HTMLTextAreaElement>) => {
+        setMessage(e.target.value);
+    }, []);
+
+    const handleSave = useCallback(async () => {
+        const {error} = await dispatch(updateScheduledPost({...scheduledPost, message})) as ActionResult;
+        if (!error) {
+            setEditing(false);
+        }
+    }, [scheduledPost, message]);
+
+    const handleReschedule = useCallback(() => {
+        dispatch(openModal({
+            modalId: ModalIdentifiers.SCHEDULE_POST,
+            dialogType: SchedulePostModal,
+            dialogProps: {
+                scheduledAt: scheduledPost.scheduled_at,
+                onConfirm: (scheduledAt: number) => dispatch(updateScheduledPost({...scheduledPost, scheduled_at: scheduledAt})),
+            },
+        }));
+    }, [scheduledPost]);
+
+    const handleCancel = useCallback(() => {
+        dispatch(deleteScheduledPost(scheduledPost.id));
+    }, [scheduledPost.id]);
+
+    if (!channel) {
+        return null;
+    }
+
+    return (
+        <article
+            className='DraftRow ScheduledPostRow'
+            tabIndex={0}
+        >
+            <h1>
+                <Badge>
+                    {channel.display_name}
+                </Badge>
+                {scheduledPost.root_id && (
+                    <span className='DraftRow__context'>
+                        <FormattedMessage
+                            id='drafts.threadReply'
+                            defaultMessage='Reply in thread'
+                        />
+                    </span>
+                )}
+                {scheduledPost.error_code ? (
+                    <span className='ScheduledPostRow__error'>
+                        <i className='icon icon-alert-outline'/>
+                        <FormattedMessage
+                            id='drafts.scheduled.failed'
+                            defaultMessage='Message could not be sent'
+                        />
+                    </span>
+                ) : (
+                    <span className='DraftRow__timestamp'>
+                        <FormattedMessage
+                            id='drafts.scheduled.sendAt'
+                            defaultMessage='Send on {time}'
+                            values={{
+                                time: (
+                                    <Timestamp
+                                        value={scheduledPost.scheduled_at}
+                                        useSemanticOutput={false}
+                                    />
+                                ),
+                            }}
+                        />
+                    </span>
+                )}
+            </h1>
+            {editing ? (
+                <div className='ScheduledPostRow__editor'>
+                    <textarea
+                        className='form-control'
+                        value={message}
+                        onChange={handleMessageChange}
+                        autoFocus={true}
+                    />
+                    <div className='ScheduledPostRow__editor-actions'>
+                        <button
+                            type='button'
+                            className='btn btn-link'
+                            onClick={handleCancelEdit}
+                        >
+                            <FormattedMessage
+                                id='drafts.scheduled.cancelEdit'
+                                defaultMessage='Cancel'
+                            />
+                        </button>
+                        <button
+                            type='button'
+                            className='btn btn-primary'
+                            disabled={!message.trim() && !scheduledPost.file_ids?.length}
+                            onClick={handleSave}
+                        >
+                            <FormattedMessage
+                                id='drafts.scheduled.save'
+                                defaultMessage='Save'
+                            />
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div
+                    aria-readonly='true'
+                    className='DraftRow__preview'
+                    dir='auto'
+                    dangerouslySetInnerHTML={{__html: preview}}
+                />
+            )}
+            {Boolean(scheduledPost.file_ids?.length) && (
+                <div className='DraftRow__files'>
+                    <FormattedMessage
+                        id='drafts.attachments'
+                        defaultMessage='{count, plural, =1 {# attachment} other {# attachments}}'
+                        values={{count: scheduledPost.file_ids!.length}}
+                    />
+                </div>
+            )}
+            {!editing && (
+                <div className='DraftRow__actions'>
+                    <SimpleTooltip
+                        id='scheduledPostCancel'
+                        content={formatMessage({id: 'drafts.scheduled.cancel', defaultMessage: 'Cancel scheduled message'})}
+                    >
+                        <Button
+                            className='Button___icon'
+                            aria-label={formatMessage({id: 'drafts.scheduled.cancel', defaultMessage: 'Cancel scheduled message'})}
+                            onClick={handleCancel}
+                        >
+                            <i className='icon icon-trash-can-outline'/>
+                        </Button>
+                    </SimpleTooltip>
+                    <SimpleTooltip
+                        id='scheduledPostEdit'
+                        content={formatMessage({id: 'drafts.scheduled.edit', defaultMessage: 'Edit message'})}
+                    >
+                        <Button
+                            className='Button___icon'
+                            aria-label={formatMessage({id: 'drafts.scheduled.edit', defaultMessage: 'Edit message'})}
+                            onClick={handleEdit}
+                        >
+                            <i className='icon icon-pencil-outline'/>
+                        </Button>
+                    </SimpleTooltip>
+                    <SimpleTooltip
+                        id='scheduledPostReschedule'
+                        content={formatMessage({id: 'drafts.scheduled.reschedule', defaultMessage: 'Reschedule'})}
+                    >
+                        <Button
+                            className='Button___icon'
+                            aria-label={formatMessage({id: 'drafts.scheduled.reschedule', defaultMessage: 'Reschedule'})}
+                            onClick={handleReschedule}
+                        >
+                            <i className='icon icon-clock-outline'/>
+                        </Button>
+                    </SimpleTooltip>
+                </div>
+            )}
+        </article>
+    );
+}
+
+export default memo(ScheduledPostRow);
@@ -0,0 +1,233 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {FormattedMessage} from 'react-intl';
+
+import {Group} from 'mattermost-redux/types/groups';
+import {SmartCategoryCondition, SmartCategoryConditionType, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
+import {compileNamePattern} from 'mattermost-redux/utils/channel_category_rules';
+import {isSafePattern} from 'mattermost-redux/utils/helpers';
+
+import {t} from 'utils/i18n';
+import {localizeMessage} from 'utils/utils';
+
+const DEFAULT_RECENT_DAYS = 7;
+
+const conditionLabels: Record<SmartCategoryConditionType, {id: string; defaultMessage: string}> = {
+    name_prefix: {id: t('edit_category_modal.rules.namePrefix'), defaultMessage: 'Channel name starts with'},
+    name_pattern: {id: t('edit_category_modal.rules.namePattern'), defaultMessage: 'Channel name matches pattern'},
+    shared: {id: t('edit_category_modal.rules.shared'), defaultMessage: 'Channel is shared'},
+    has_mentions: {id: t('edit_category_modal.rules.hasMentions'), defaultMessage: 'Channel has unread mentions'},
+    group_members: {id: t('edit_category_modal.rules.groupMembers'), defaultMessage: 'Direct messages with members of group'},
+    posted_recently: {id: t('edit_category_modal.rules.postedRecently'), defaultMessage: 'I posted in the channel in the last'},
+};
+
+export function makeEmptyCondition(type: SmartCategoryConditionType, groups: Group[] = []): SmartCategoryCondition {
+    switch (type) {
+    case 'name_prefix':
+        return {type, prefix: ''};
+    case 'name_pattern':
+        return {type, pattern: ''};
+    case 'group_members':
+        return {type, group_id: groups.length ? groups[0].id : ''};
+    case 'posted_recently':
+        return {type, days: DEFAULT_RECENT_DAYS};
+    default:
+        return {type} as SmartCategoryCondition;
+    }
+}
+
+type Props = {
+    rules: SmartCategoryRules;
+    groups: Group[];
+    onChange: (rules: SmartCategoryRules) => void;
+};
+
+// CategoryRulesEditor lets the user choose the conditions that determine which channels are shown in a smart category.
+export default class CategoryRulesEditor extends React.PureComponent<Props> {
+    handleMatchChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        this.props.onChange({
+            ...this.props.rules,
+            match: e.target.value === 'any' ? 'any' : 'all',
+        });
+    }
+
+    handleAddCondition = () => {
+        this.props.onChange({
+            ...this.props.rules,
+            conditions: [...this.props.rules.conditions, makeEmptyCondition('name_prefix')],
+        });
+    }
+
+    updateCondition = (index: number, condition: SmartCategoryCondition | null) => {
+        const conditions = [...this.props.rules.conditions];
+
+        if (condition) {
+            conditions[index] = condition;
+        } else {
+            conditions.splice(index, 1);
+        }
+
+        this.props.onChange({
+            ...this.props.rules,
+            conditions,
+        });
+    }
+
+    renderValueInput = (condition: SmartCategoryCondition, index: number) => {
+        switch (condition.type) {
+        case 'name_prefix':
+            return (
+                <input
+                    type='text'
+                    className='form-control'
+                    value={condition.prefix}
+                    placeholder={localizeMessage('edit_category_modal.rules.namePrefix.placeholder', 'e.g. project-')}
+                    onChange={(e) => this.updateCondition(index, {...condition, prefix: e.target.value})}
+                />
+            );
+        case 'name_pattern': {
+            let error;
+            if (condition.pattern && !isSafePattern(condition.pattern)) {
+                error = (
+                    <FormattedMessage
+                        id='edit_category_modal.rules.namePattern.unsafe'
+                        defaultMessage='This pattern is too long or could take too long to match channel names.'
+                    />
+                );
+            } else if (condition.pattern && !compileNamePattern(condition.pattern)) {
+                error = (
+                    <FormattedMessage
+                        id='edit_category_modal.rules.namePattern.invalid'
+                        defaultMessage='This pattern is not valid.'
+                    />
+                );
+            }
+
+            return (
+                <React.Fragment>
+                    <input
+                        type='text'
+                        className='form-control'
+                        value={condition.pattern}
+                        placeholder={localizeMessage('edit_category_modal.rules.namePattern.placeholder', 'e.g. ^(ops|infra)-')}
+                        onChange={(e) => this.updateCondition(index, {...condition, pattern: e.target.value})}
+                    />
+                    {error && (
+                        <span className='CategoryRulesEditor__error'>
+                            {error}
+                        </span>
+                    )}
+                </React.Fragment>
+            );
+        }
+        case 'group_members':
+            return (
+                <select
+                    className='form-control'
+                    value={condition.group_id}
+                    onChange={(e) => this.updateCondition(index, {...condition, group_id: e.target.value})}
+                >
+                    {!condition.group_id && <option value=''>{localizeMessage('edit_category_modal.rules.groupMembers.select', 'Select a group')}</option>}
+                    {this.props.groups.map((group) => (
+                        <option
+                            key={group.id}
+                            value={group.id}
+                        >
+                            {group.display_name}
+                        </option>
+                    ))}
+                </select>
+            );
+        case 'posted_recently':
+            return (
+                <span className='CategoryRulesEditor__days'>
+                    <input
+                        type='number'
+                        className='form-control'
+                        min={1}
+                        value={condition.days || ''}
+                        onChange={(e) => this.updateCondition(index, {...condition, days: parseInt(e.target.value, 10) || 0})}
+                    />
+                    <FormattedMessage
+                        id='edit_category_modal.rules.postedRecently.days'
+                        defaultMessage='days'
+                    />
+                </span>
+            );
+        default:
+            return null;
+        }
+    }
+
+    renderCondition = (condition: SmartCategoryCondition, index: number) => {
+        return (
+            <div
+                key={index}
+                className='CategoryRulesEditor__condition'
+            >
+                <select
+                    className='form-control'
+                    value={condition.type}
+                    aria-label={localizeMessage('edit_category_modal.rules.conditionType', 'Condition')}
+                    onChange={(e) => this.updateCondition(index, makeEmptyCondition(e.target.value as SmartCategoryConditionType, this.props.groups))}
+                >
+                    {Object.entries(conditionLabels).map(([type, label]) => (
+                        <option
+                            key={type}
+                            value={type}
+                        >
+                            {localizeMessage(label.id, label.defaultMessage)}
+                        </option>
+                    ))}
+                </select>
+                {this.renderValueInput(condition, index)}
+                <button
+                    type='button'
+                    className='style--none CategoryRulesEditor__remove'
+                    aria-label={localizeMessage('edit_category_modal.rules.remove', 'Remove condition')}
+                    onClick={() => this.updateCondition(index, null)}
+                >
+                    <i className='icon-close'/>
+                </button>
+            </div>
+        );
+    }
+
+    render() {
+        return (
+            <div className='CategoryRulesEditor'>
+                <label className='CategoryRulesEditor__match'>
+                    <FormattedMessage
+                        id='edit_category_modal.rules.matchPrefix'
+                        defaultMessage='Show channels matching'
+                    />
+                    <select
+                        className='form-control'
+                        value={this.props.rules.match}
+                        onChange={this.handleMatchChange}
+                    >
+                        <option value='all'>{localizeMessage('edit_category_modal.rules.matchAll', 'all')}</option>
+                        <option value='any'>{localizeMessage('edit_category_modal.rules.matchAny', 'any')}</option>
+                    </select>
+                    <FormattedMessage
+                        id='edit_category_modal.rules.matchSuffix'
+                        defaultMessage='of these conditions:'
+                    />
+                </label>
+                {this.props.rules.conditions.map(this.renderCondition)}
+                <button
+                    type='button'
+                    className='color--link style--none CategoryRulesEditor__add'
+                    onClick={this.handleAddCondition}
+                >
+                    <FormattedMessage
+                        id='edit_category_modal.rules.add'
+                        defaultMessage='Add condition'
+                    />
+                </button>
+            </div>
+        );
+    }
+}
@@ -14,6 +14,8 @@ describe('components/EditCategoryModal', () => {
             actions: {
                 createCategory: jest.fn(),
                 renameCategory: jest.fn(),
+                setCategoryRules: jest.fn(),
+                getGroups: jest.fn(),
             },
         };
 
@@ -29,4 +31,70 @@ describe('components/EditCategoryModal', () => {
             expect(instance.isConfirmDisabled()).toBe(expected);
         });
     });
+
+    describe('rules', () => {
+        const requiredProps = {
+            onExited: jest.fn(),
+            currentTeamId: '42',
+            groups: [],
+            isLicensedForLDAPGroups: false,
+            actions: {
+                createCategory: jest.fn(),
+                renameCategory: jest.fn(),
+                setCategoryRules: jest.fn(),
+                getGroups: jest.fn(),
+            },
+        };
+
+        test('should not allow saving rules with an incomplete condition', () => {
+            const wrapper = shallow<EditCategoryModal>(<EditCategoryModal {...requiredProps}/>);
+
+            wrapper.setState({categoryName: 'Projects', rules: {match: 'all', conditions: [{type: 'name_prefix', prefix: ''}]}});
+            expect(wrapper.instance().isConfirmDisabled()).toBe(true);
+
+            wrapper.setState({rules: {match: 'all', conditions: [{type: 'name_pattern', pattern: '(unclosed'}]}});
+            expect(wrapper.instance().isConfirmDisabled()).toBe(true);
+
+            wrapper.setState({rules: {match: 'all', conditions: [{type: 'name_prefix', prefix: 'proj-'}]}});
+            expect(wrapper.instance().isConfirmDisabled()).toBe(false);
+        });
+
+        test('should create a smart category without the channels being moved into it', () => {
+            const rules = {match: 'any' as const, conditions: [{type: 'has_mentions' as const}]};
+            const wrapper = shallow<EditCategoryModal>(
+                <EditCategoryModal
+                    {...requiredProps}
+                    channelIdsToAdd={['channel1']}
+                />,
+            );
+
+            wrapper.setState({categoryName: 'Mentions', rules});
+            wrapper.instance().handleConfirm();
+
+            expect(requiredProps.actions.createCategory).toHaveBeenCalledWith('42', 'Mentions', [], rules);
+        });
+
+        test('should only save the rules when editing them', () => {
+            const initialRules = {match: 'all' as const, conditions: [{type: 'shared' as const}]};
+            const wrapper = shallow<EditCategoryModal>(
+                <EditCategoryModal
+                    {...requiredProps}
+                    categoryId='category1'
+                    initialCategoryName='Shared'
+                    initialRules={initialRules}
+                    editingRules={true}
+                />,
+            );
+
+            expect(wrapper.instance().isConfirmDisabled()).toBe(true);
+
+            wrapper.setState({rules: null});
+            expect(wrapper.instance().isConfirmDisabled()).toBe(false);
+
+            wrapper.instance().handleConfirm();
+
+            expect(requiredProps.actions.setCategoryRules).toHaveBeenCalledWith('category1', null);
+            expect(requiredProps.actions.renameCategory).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -4,7 +4,9 @@
 import React from 'react';
 import {FormattedMessage} from 'react-intl';
 
-import {ChannelCategory} from 'mattermost-redux/types/channel_categories';
+import {ChannelCategory, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
+import {Group} from 'mattermost-redux/types/groups';
+import {isValidCategoryCondition} from 'mattermost-redux/utils/channel_category_rules';
 
 import {trackEvent} from 'actions/telemetry_actions';
 import QuickInput, {MaxLengthInput} from 'components/quick_input';
@@ -13,6 +15,8 @@ import {localizeMessage} from 'utils/utils';
 import '../category_modal.scss';
 import GenericModal from 'components/generic_modal';
 
+import CategoryRulesEditor, {makeEmptyCondition} from './category_rules_editor';
+
 const MAX_LENGTH = 22;
 
 type Props = {
@@ -21,25 +25,65 @@ type Props = {
     categoryId?: string;
     initialCategoryName?: string;
     channelIdsToAdd?: string[];
+
+    // initialRules are the current rules of a smart category that's being edited
+    initialRules?: SmartCategoryRules | null;
+
+    // editingRules is set when the modal was opened to edit the rules of an existing category instead of to rename it
+    editingRules?: boolean;
+    groups: Group[];
+    isLicensedForLDAPGroups: boolean;
     actions: {
-        createCategory: (teamId: string, displayName: string, channelIds?: string[] | undefined) => {data: ChannelCategory};
+        createCategory: (teamId: string, displayName: string, channelIds?: string[] | undefined, rules?: SmartCategoryRules) => {data: ChannelCategory};
         renameCategory: (categoryId: string, newName: string) => void;
+        setCategoryRules: (categoryId: string, rules: SmartCategoryRules | null) => void;
+        getGroups: (filterAllowReference: boolean, page: number, perPage: number) => void;
     };
 };
 
 type State = {
     categoryName: string;
+
+    // rules is null when the category isn't a smart category
+    rules: SmartCategoryRules | null;
 }
 
 export default class EditCategoryModal extends React.PureComponent<Props, State> {
+    static defaultProps = {
+        groups: [],
+        isLicensedForLDAPGroups: false,
+    };
+
     constructor(props: Props) {
         super(props);
 
         this.state = {
             categoryName: props.initialCategoryName || '',
+            rules: props.initialRules || null,
         };
     }
 
+    componentDidMount() {
+        if (this.showRules() && this.props.isLicensedForLDAPGroups) {
+            this.props.actions.getGroups(true, 0, 200);
+        }
+    }
+
+    showRules = () => {
+        // Rules can be set when creating a category or when editing them from the category menu
+        return !this.props.categoryId || Boolean(this.props.editingRules);
+    }
+
+    handleRulesEnabledChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        this.setState({
+            rules: e.target.checked ? {match: 'all', conditions: [makeEmptyCondition('name_prefix')]} : null,
+        });
+    }
+
+    handleRulesChange = (rules: SmartCategoryRules) => {
+        this.setState({rules});
+    }
+
     handleClear = () => {
         this.setState({categoryName: ''});
     }
@@ -53,17 +97,37 @@ export default class EditCategoryModal extends React.PureComponent<Props, State>
     }
 
     handleConfirm = () => {
+        const {rules} = this.state;
+
         if (this.props.categoryId) {
-            this.props.actions.renameCategory(this.props.categoryId, this.state.categoryName);
+            if (this.state.categoryName !== this.props.initialCategoryName) {
+                this.props.actions.renameCategory(this.props.categoryId, this.state.categoryName);
+            }
+
+            if (this.areRulesChanged()) {
+                this.props.actions.setCategoryRules(this.props.categoryId, rules);
+                trackEvent('ui', 'ui_sidebar_edited_category_rules');
+            }
         } else {
-            this.props.actions.createCategory(this.props.currentTeamId, this.state.categoryName, this.props.channelIdsToAdd);
-            trackEvent('ui', 'ui_sidebar_created_category');
+            this.props.actions.createCategory(this.props.currentTeamId, this.state.categoryName, rules ? [] : this.props.channelIdsToAdd, rules || undefined);
+            trackEvent('ui', rules ? 'ui_sidebar_created_smart_category' : 'ui_sidebar_created_category');
         }
     }
 
+    areRulesChanged = () => {
+        return JSON.stringify(this.state.rules) !== JSON.stringify(this.props.initialRules || null);
+    }
+
+    areRulesValid = () => {
+        const {rules} = this.state;
+
+        return !rules || (rules.conditions.length > 0 && rules.conditions.every(isValidCategoryCondition));
+    }
+
     isConfirmDisabled = () => {
-        return !this.state.categoryName ||
-            (Boolean(this.props.initialCategoryName) && this.props.initialCategoryName === this.state.categoryName) || this.state.categoryName.length > MAX_LENGTH;
+        const unchanged = Boolean(this.props.initialCategoryName) && this.props.initialCategoryName === this.state.categoryName && !this.areRulesChanged();
+
+        return !this.state.categoryName || unchanged || this.state.categoryName.length > MAX_LENGTH || !this.areRulesValid();
     }
 
     getText = () => {
@@ -71,7 +135,20 @@ export default class EditCategoryModal extends React.PureComponent<Props, State>
         let editButtonText;
         let helpText;
 
-        if (this.props.categoryId) {
+        if (this.props.categoryId && this.props.editingRules) {
+            modalHeaderText = (
+                <FormattedMessage
+                    id='edit_category_modal.editRules'
+                    defaultMessage='Edit Category Rules'
+                />
+            );
+            editButtonText = (
+                <FormattedMessage
+                    id='edit_category_modal.save'
+                    defaultMessage='Save'
+                />
+            );
+        } else if (this.props.categoryId) {
             modalHeaderText = (
                 <FormattedMessage
                     id='rename_category_modal.renameCategory'
@@ -141,9 +218,31 @@ export default class EditCategoryModal extends React.PureComponent<Props, State>
                     onChange={this.handleChange}
                     maxLength={MAX_LENGTH}
                 />
-                {Boolean(helpText) && <span className='edit-category__helpText'>
+                {Boolean(helpText) && !this.state.rules && <span className='edit-category__helpText'>
                     {helpText}
                 </span>}
+                {this.showRules() && (
+                    <div className='edit-category__rules'>
+                        <label className='edit-category__rulesToggle'>
+                            <input
+                                type='checkbox'
+                                checked={Boolean(this.state.rules)}
+                                onChange={this.handleRulesEnabledChange}
+                            />
+                            <FormattedMessage
+                                id='edit_category_modal.rules.enable'
+                                defaultMessage='Add channels to this category automatically'
+                            />
+                        </label>
+                        {this.state.rules && (
+                            <CategoryRulesEditor
+                                rules={this.state.rules}
+                                groups={this.props.groups}
+                                onChange={this.handleRulesChange}
+                            />
+                        )}
+                    </div>
+                )}
             </GenericModal>
         );
     }
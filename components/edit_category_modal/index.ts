@@ -4,10 +4,13 @@
 import {connect} from 'react-redux';
 import {bindActionCreators, Dispatch, ActionCreatorsMapObject} from 'redux';
 
-import {renameCategory} from 'mattermost-redux/actions/channel_categories';
+import {renameCategory, setCategoryRules} from 'mattermost-redux/actions/channel_categories';
+import {getGroups} from 'mattermost-redux/actions/groups';
+import {getLicense} from 'mattermost-redux/selectors/entities/general';
+import {getAllAssociatedGroupsForReference} from 'mattermost-redux/selectors/entities/groups';
 import {getCurrentTeam} from 'mattermost-redux/selectors/entities/teams';
 import {ActionFunc} from 'mattermost-redux/types/actions';
-import {ChannelCategory} from 'mattermost-redux/types/channel_categories';
+import {ChannelCategory, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
 
 import {createCategory} from 'actions/views/channel_sidebar';
 import {GlobalState} from 'types/store';
@@ -19,12 +22,16 @@ function mapStateToProps(state: GlobalState) {
 
     return {
         currentTeamId: currentTeam.id,
+        groups: getAllAssociatedGroupsForReference(state),
+        isLicensedForLDAPGroups: getLicense(state).LDAPGroups === 'true',
     };
 }
 
 type Actions = {
-    createCategory: (teamId: string, displayName: string, channelIds?: string[] | undefined) => {data: ChannelCategory};
+    createCategory: (teamId: string, displayName: string, channelIds?: string[] | undefined, rules?: SmartCategoryRules) => {data: ChannelCategory};
     renameCategory: (categoryId: string, displayName: string) => void;
+    setCategoryRules: (categoryId: string, rules: SmartCategoryRules | null) => void;
+    getGroups: (filterAllowReference: boolean, page: number, perPage: number) => void;
 }
 
 function mapDispatchToProps(dispatch: Dispatch) {
@@ -32,6 +39,8 @@ function mapDispatchToProps(dispatch: Dispatch) {
         actions: bindActionCreators<ActionCreatorsMapObject<ActionFunc>, Actions>({
             createCategory,
             renameCategory,
+            setCategoryRules,
+            getGroups,
         }, dispatch),
     };
 }
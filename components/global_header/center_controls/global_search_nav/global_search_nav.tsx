@@ -13,10 +13,8 @@ import {getRhsState} from 'selectors/rhs';
 
 import {GlobalState} from 'types/store';
 
-import {
-    Constants,
-    RHSStates,
-} from 'utils/constants';
+import {RHSStates} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils';
 
 const GlobalSearchNav = (): JSX.Element => {
@@ -39,11 +37,9 @@ const GlobalSearchNav = (): JSX.Element => {
     };
 
     const handleShortcut = (e: KeyboardEvent) => {
-        if (Utils.cmdOrCtrlPressed(e) && e.shiftKey) {
-            if (Utils.isKeyPressed(e, Constants.KeyCodes.M)) {
-                e.preventDefault();
-                searchMentions();
-            }
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.MENTIONS)) {
+            e.preventDefault();
+            searchMentions();
         }
     };
 
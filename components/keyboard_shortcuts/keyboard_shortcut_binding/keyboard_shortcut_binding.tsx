@@ -0,0 +1,40 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo} from 'react';
+import {MessageDescriptor, useIntl} from 'react-intl';
+
+import {ShortcutKeyVariant, ShortcutKey} from 'components/shortcut_key';
+import {formatChord} from 'utils/keyboard_shortcuts';
+
+import type {ShortcutChord} from 'types/store/keyboard_shortcuts';
+
+import '../keyboard_shortcuts_sequence/keyboard_shortcuts_sequence.scss';
+
+type Props = {
+
+    // description is either a translatable message or plain text provided by a plugin
+    description: MessageDescriptor | string;
+    chord: ShortcutChord;
+};
+
+// KeyboardShortcutBinding shows an action from the shortcut registry along with the keys currently bound to it
+function KeyboardShortcutBinding({description, chord}: Props) {
+    const {formatMessage} = useIntl();
+
+    return (
+        <div className='shortcut-line'>
+            <span>{typeof description === 'string' ? description : formatMessage(description)}</span>
+            {formatChord(chord).map((key) => (
+                <ShortcutKey
+                    key={key}
+                    variant={ShortcutKeyVariant.ShortcutModal}
+                >
+                    {key}
+                </ShortcutKey>
+            ))}
+        </div>
+    );
+}
+
+export default memo(KeyboardShortcutBinding);
@@ -5,8 +5,32 @@ import React from 'react';
 import {shallow} from 'enzyme';
 
 import KeyboardShortcutsModal from 'components/keyboard_shortcuts/keyboard_shortcuts_modal/keyboard_shortcuts_modal';
+import KeyboardShortcutBinding from 'components/keyboard_shortcuts/keyboard_shortcut_binding/keyboard_shortcut_binding';
+
+import {GlobalState} from 'types/store';
+import {KeyboardShortcutPluginComponent} from 'types/store/plugins';
+
+let mockState: GlobalState;
+
+jest.mock('react-redux', () => ({
+    ...jest.requireActual('react-redux') as typeof import('react-redux'),
+    useSelector: (selector: (state: typeof mockState) => unknown) => selector(mockState),
+}));
 
 describe('components/KeyboardShortcutsModal', () => {
+    beforeEach(() => {
+        mockState = {
+            entities: {
+                preferences: {
+                    myPreferences: {},
+                },
+            },
+            plugins: {
+                components: {},
+            },
+        } as unknown as GlobalState;
+    });
+
     test('should match snapshot modal', () => {
         const wrapper = shallow(
             <KeyboardShortcutsModal onExited={jest.fn()}/>,
@@ -14,4 +38,41 @@ describe('components/KeyboardShortcutsModal', () => {
 
         expect(wrapper).toMatchSnapshot();
     });
+
+    test('should list the chords chosen by the user and leave out disabled actions', () => {
+        mockState.entities.preferences.myPreferences['advanced_settings--keyboard_shortcuts'] = {
+            user_id: 'user1',
+            category: 'advanced_settings',
+            name: 'keyboard_shortcuts',
+            value: JSON.stringify({'nav.switcher': 'mod+J', 'nav.mentions': ''}),
+        };
+
+        const wrapper = shallow(
+            <KeyboardShortcutsModal onExited={jest.fn()}/>,
+        );
+
+        const bindings = wrapper.find(KeyboardShortcutBinding);
+        expect(bindings.filterWhere((binding) => binding.prop('chord') === 'mod+J').exists()).toBe(true);
+        expect(bindings.filterWhere((binding) => binding.prop('chord') === 'mod+K').exists()).toBe(false);
+        expect(bindings.filterWhere((binding) => binding.prop('chord') === 'mod+shift+M').exists()).toBe(false);
+    });
+
+    test('should list the shortcuts registered by plugins', () => {
+        const shortcut: KeyboardShortcutPluginComponent = {
+            id: 'component1',
+            pluginId: 'com.example',
+            shortcutId: 'plugin.com.example.open',
+            text: 'Open the example',
+            defaultChord: 'mod+shift+P',
+            action: jest.fn(),
+        };
+        mockState.plugins.components.KeyboardShortcut = [shortcut];
+
+        const wrapper = shallow(
+            <KeyboardShortcutsModal onExited={jest.fn()}/>,
+        );
+
+        expect(wrapper.find('.section--lower').last().text()).toContain('Plugins');
+        expect(wrapper.find(KeyboardShortcutBinding).filterWhere((binding) => binding.prop('description') === 'Open the example').prop('chord')).toBe('mod+shift+P');
+    });
 });
@@ -4,17 +4,28 @@
 import React, {useCallback, useState} from 'react';
 import {Modal} from 'react-bootstrap';
 import {defineMessages, useIntl} from 'react-intl';
+import {useSelector} from 'react-redux';
+
+import {getShortcutActions, getShortcutBindings} from 'selectors/keyboard_shortcuts';
 
 import {t} from 'utils/i18n';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils';
 
+import KeyboardShortcutBinding from 'components/keyboard_shortcuts/keyboard_shortcut_binding/keyboard_shortcut_binding';
 import KeyboardShortcutSequence, {
     KEYBOARD_SHORTCUTS,
 } from 'components/keyboard_shortcuts/keyboard_shortcuts_sequence';
 
+import type {ShortcutAction} from 'types/store/keyboard_shortcuts';
+
 import './keyboard_shortcuts_modal.scss';
 
 const modalMessages = defineMessages({
+    title: {
+        id: t('shortcuts.title'),
+        defaultMessage: 'Keyboard Shortcuts',
+    },
     msgHeader: {
         id: t('shortcuts.msgs.header'),
         defaultMessage: 'Messages',
@@ -52,8 +63,14 @@ const modalMessages = defineMessages({
         id: t('shortcuts.nav.header'),
         defaultMessage: 'Navigation',
     },
+    pluginsHeader: {
+        id: t('shortcuts.plugins.header'),
+        defaultMessage: 'Plugins',
+    },
 });
 
+const HIDDEN_ON_LINUX = [ShortcutActionIds.TEAM_PREV, ShortcutActionIds.TEAM_NEXT];
+
 interface Props {
     onExited: () => void;
 }
@@ -63,10 +80,25 @@ const KeyboardShortcutsModal = ({onExited}: Props): JSX.Element => {
 
     const {formatMessage} = useIntl();
 
+    const actions = useSelector(getShortcutActions);
+    const bindings = useSelector(getShortcutBindings);
+
     const handleHide = useCallback(() => setShow(false), []);
 
     const isLinux = Utils.isLinux();
 
+    // Only the actions which are bound to a chord are listed
+    const listedActions = actions.filter((action) => bindings[action.id] && !(isLinux && HIDDEN_ON_LINUX.includes(action.id)));
+    const pluginActions = listedActions.filter((action) => action.section === 'plugins');
+
+    const renderActions = (filter: (action: ShortcutAction) => boolean) => listedActions.filter(filter).map((action) => (
+        <KeyboardShortcutBinding
+            key={action.id}
+            description={action.description}
+            chord={bindings[action.id]}
+        />
+    ));
+
     return (
         <Modal
             dialogClassName='a11y__modal shortcuts-modal'
@@ -82,7 +114,12 @@ const KeyboardShortcutsModal = ({onExited}: Props): JSX.Element => {
                         componentClass='h1'
                         id='shortcutsModalLabel'
                     >
-                        <strong><KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.mainHeader}/></strong>
+                        <strong>
+                            <KeyboardShortcutBinding
+                                description={modalMessages.title}
+                                chord={bindings[ShortcutActionIds.SHORTCUTS]}
+                            />
+                        </strong>
                     </Modal.Title>
                 </Modal.Header>
                 <Modal.Body>
@@ -91,19 +128,8 @@ const KeyboardShortcutsModal = ({onExited}: Props): JSX.Element => {
                             <div className='section'>
                                 <div>
                                     <h3 className='section-title'><strong>{formatMessage(modalMessages.navHeader)}</strong></h3>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navPrev}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navNext}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navUnreadPrev}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navUnreadNext}/>
-                                    {!isLinux && <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.teamNavPrev}/>}
-                                    {!isLinux && <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.teamNavNext}/>}
+                                    {renderActions((action) => action.section === 'navigation')}
                                     <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.teamNavSwitcher}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navSwitcher}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navDMMenu}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navSettings}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navMentions}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navFocusCenter}/>
-                                    <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.navOpenCloseSidebar}/>
                                 </div>
                             </div>
                         </div>
@@ -111,10 +137,10 @@ const KeyboardShortcutsModal = ({onExited}: Props): JSX.Element => {
                             <div className='section'>
                                 <div>
                                     <h3 className='section-title'><strong>{formatMessage(modalMessages.msgHeader)}</strong></h3>
+                                    {renderActions((action) => action.section === 'messages' && !action.emptyInputOnly)}
                                     <span><strong>{formatMessage(modalMessages.msgInputHeader)}</strong></span>
                                     <div className='subsection'>
-                                        <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.msgEdit}/>
-                                        <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.msgReply}/>
+                                        {renderActions((action) => action.section === 'messages' && Boolean(action.emptyInputOnly))}
                                         <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.msgLastReaction}/>
                                         <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.msgReprintPrev}/>
                                         <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.msgReprintNext}/>
@@ -153,6 +179,12 @@ const KeyboardShortcutsModal = ({onExited}: Props): JSX.Element => {
                                         <KeyboardShortcutSequence shortcut={KEYBOARD_SHORTCUTS.browserNewline}/>
                                     </div>
                                 </div>
+                                {pluginActions.length > 0 && (
+                                    <div className='section--lower'>
+                                        <h3 className='section-title'><strong>{formatMessage(modalMessages.pluginsHeader)}</strong></h3>
+                                        {renderActions((action) => action.section === 'plugins')}
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -0,0 +1,35 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {connect} from 'react-redux';
+import {bindActionCreators, Dispatch} from 'redux';
+
+import {markChannelAsRead} from 'mattermost-redux/actions/channels';
+import {getCurrentChannelId} from 'mattermost-redux/selectors/entities/channels';
+import {GenericAction} from 'mattermost-redux/types/actions';
+
+import {openFindInChannel} from 'actions/views/channel';
+import {getPluginKeyboardShortcuts, getShortcutBindings} from 'selectors/keyboard_shortcuts';
+
+import {GlobalState} from 'types/store';
+
+import KeyboardShortcutsHandler from './keyboard_shortcuts_handler';
+
+function mapStateToProps(state: GlobalState) {
+    return {
+        currentChannelId: getCurrentChannelId(state),
+        bindings: getShortcutBindings(state),
+        pluginShortcuts: getPluginKeyboardShortcuts(state),
+    };
+}
+
+function mapDispatchToProps(dispatch: Dispatch<GenericAction>) {
+    return {
+        actions: bindActionCreators({
+            markChannelAsRead,
+            openFindInChannel,
+        }, dispatch),
+    };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(KeyboardShortcutsHandler);
@@ -0,0 +1,106 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {shallow} from 'enzyme';
+
+import Constants from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
+
+import KeyboardShortcutsHandler from './keyboard_shortcuts_handler';
+
+describe('components/KeyboardShortcutsHandler', () => {
+    const pluginAction = jest.fn();
+
+    const baseProps = {
+        currentChannelId: 'channel1',
+        bindings: {
+            [ShortcutActionIds.MARK_READ]: 'shift+ESCAPE',
+            [ShortcutActionIds.FIND_IN_CHANNEL]: 'mod+F',
+            'plugin.com.example.open': 'mod+shift+P',
+        },
+        pluginShortcuts: [{
+            id: 'component1',
+            pluginId: 'com.example',
+            shortcutId: 'plugin.com.example.open',
+            text: 'Open the example',
+            defaultChord: 'mod+shift+P',
+            action: pluginAction,
+        }],
+        actions: {
+            markChannelAsRead: jest.fn(),
+            openFindInChannel: jest.fn(),
+        },
+    };
+
+    function makeEvent(key: Array<string | number>, modifiers: Partial<KeyboardEvent> = {}) {
+        return {key: key[0], keyCode: key[1], preventDefault: jest.fn(), ...modifiers} as unknown as KeyboardEvent;
+    }
+
+    beforeEach(() => {
+        pluginAction.mockClear();
+        baseProps.actions.markChannelAsRead.mockClear();
+        baseProps.actions.openFindInChannel.mockClear();
+    });
+
+    test('should mark the current channel as read', () => {
+        const wrapper = shallow<KeyboardShortcutsHandler>(<KeyboardShortcutsHandler {...baseProps}/>);
+
+        wrapper.instance().handleKeyDown(makeEvent(Constants.KeyCodes.ESCAPE));
+        expect(baseProps.actions.markChannelAsRead).not.toHaveBeenCalled();
+
+        wrapper.instance().handleKeyDown(makeEvent(Constants.KeyCodes.ESCAPE, {shiftKey: true}));
+        expect(baseProps.actions.markChannelAsRead).toHaveBeenCalledWith('channel1');
+    });
+
+    test('should open the find bar in the current channel', () => {
+        const wrapper = shallow<KeyboardShortcutsHandler>(<KeyboardShortcutsHandler {...baseProps}/>);
+
+        const event = makeEvent(Constants.KeyCodes.F, {ctrlKey: true});
+        wrapper.instance().handleKeyDown(event);
+        expect(baseProps.actions.openFindInChannel).toHaveBeenCalledTimes(1);
+        expect(event.preventDefault).toHaveBeenCalled();
+
+        wrapper.setProps({currentChannelId: ''});
+        wrapper.instance().handleKeyDown(makeEvent(Constants.KeyCodes.F, {ctrlKey: true}));
+        expect(baseProps.actions.openFindInChannel).toHaveBeenCalledTimes(1);
+    });
+
+    test('should use the chord which the user has bound to an action', () => {
+        const props = {
+            ...baseProps,
+            bindings: {
+                ...baseProps.bindings,
+                [ShortcutActionIds.MARK_READ]: 'alt+R',
+            },
+        };
+        const wrapper = shallow<KeyboardShortcutsHandler>(<KeyboardShortcutsHandler {...props}/>);
+
+        wrapper.instance().handleKeyDown(makeEvent(Constants.KeyCodes.ESCAPE, {shiftKey: true}));
+        expect(props.actions.markChannelAsRead).not.toHaveBeenCalled();
+
+        wrapper.instance().handleKeyDown(makeEvent(Constants.KeyCodes.R, {altKey: true}));
+        expect(props.actions.markChannelAsRead).toHaveBeenCalledWith('channel1');
+    });
+
+    test('should trigger the action of a plugin shortcut', () => {
+        const wrapper = shallow<KeyboardShortcutsHandler>(<KeyboardShortcutsHandler {...baseProps}/>);
+
+        wrapper.instance().handleKeyDown(makeEvent(Constants.KeyCodes.P, {ctrlKey: true, shiftKey: true}));
+        expect(pluginAction).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not trigger disabled plugin shortcuts', () => {
+        const props = {
+            ...baseProps,
+            bindings: {
+                ...baseProps.bindings,
+                'plugin.com.example.open': '',
+            },
+        };
+        const wrapper = shallow<KeyboardShortcutsHandler>(<KeyboardShortcutsHandler {...props}/>);
+
+        wrapper.instance().handleKeyDown(makeEvent(Constants.KeyCodes.P, {ctrlKey: true, shiftKey: true}));
+        expect(pluginAction).not.toHaveBeenCalled();
+    });
+});
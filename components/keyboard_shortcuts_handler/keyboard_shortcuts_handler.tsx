@@ -0,0 +1,65 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import {matchesChord, ShortcutActionIds} from 'utils/keyboard_shortcuts';
+
+import type {ShortcutBindings} from 'types/store/keyboard_shortcuts';
+import type {KeyboardShortcutPluginComponent} from 'types/store/plugins';
+
+type Props = {
+    currentChannelId: string;
+    bindings: ShortcutBindings;
+    pluginShortcuts: KeyboardShortcutPluginComponent[];
+
+    actions: {
+        markChannelAsRead: (channelId: string) => void;
+        openFindInChannel: () => void;
+    };
+};
+
+// KeyboardShortcutsHandler triggers the keyboard shortcuts which don't belong to any other component, including all
+// of those registered by plugins. It doesn't render anything.
+export default class KeyboardShortcutsHandler extends React.PureComponent<Props> {
+    componentDidMount() {
+        document.addEventListener('keydown', this.handleKeyDown);
+    }
+
+    componentWillUnmount() {
+        document.removeEventListener('keydown', this.handleKeyDown);
+    }
+
+    isPressed = (e: KeyboardEvent, actionId: string) => {
+        const chord = this.props.bindings[actionId];
+        return Boolean(chord) && matchesChord(e, chord);
+    }
+
+    handleKeyDown = (e: KeyboardEvent) => {
+        if (this.isPressed(e, ShortcutActionIds.MARK_READ)) {
+            if (this.props.currentChannelId) {
+                e.preventDefault();
+                this.props.actions.markChannelAsRead(this.props.currentChannelId);
+            }
+            return;
+        }
+
+        if (this.isPressed(e, ShortcutActionIds.FIND_IN_CHANNEL)) {
+            if (this.props.currentChannelId) {
+                e.preventDefault();
+                this.props.actions.openFindInChannel();
+            }
+            return;
+        }
+
+        const pluginShortcut = this.props.pluginShortcuts.find((shortcut) => this.isPressed(e, shortcut.shortcutId));
+        if (pluginShortcut) {
+            e.preventDefault();
+            pluginShortcut.action();
+        }
+    }
+
+    render() {
+        return null;
+    }
+}
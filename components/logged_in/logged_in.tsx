@@ -9,6 +9,7 @@ import semver from 'semver';
 import {viewChannel} from 'mattermost-redux/actions/channels';
 
 import * as GlobalActions from 'actions/global_actions';
+import {processOutbox} from 'actions/outbox';
 import * as WebSocketActions from 'actions/websocket_actions.jsx';
 import * as UserAgent from 'utils/user_agent';
 import LoadingScreen from 'components/loading_screen';
@@ -95,6 +96,9 @@ export default class LoggedIn extends React.PureComponent<Props> {
             GlobalActions.emitBrowserFocus(false);
         }
 
+        // Send changes queued while offline as soon as the browser is back online
+        window.addEventListener('online', this.onOnlineListener);
+
         // Listen for messages from the desktop app
         window.addEventListener('message', this.onDesktopMessageListener);
 
@@ -136,6 +140,7 @@ export default class LoggedIn extends React.PureComponent<Props> {
 
         window.removeEventListener('focus', this.onFocusListener);
         window.removeEventListener('blur', this.onBlurListener);
+        window.removeEventListener('online', this.onOnlineListener);
         window.removeEventListener('message', this.onDesktopMessageListener);
     }
 
@@ -167,6 +172,10 @@ export default class LoggedIn extends React.PureComponent<Props> {
         GlobalActions.emitBrowserFocus(false);
     }
 
+    private onOnlineListener(): void {
+        dispatch(processOutbox());
+    }
+
     // listen for messages from the desktop app
     private onDesktopMessageListener = (desktopMessage: DesktopMessage) => {
         if (!this.props.currentUser) {
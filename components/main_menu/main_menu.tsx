@@ -8,8 +8,9 @@ import {matchPath} from 'react-router-dom';
 import {Permissions} from 'mattermost-redux/constants';
 
 import * as GlobalActions from 'actions/global_actions';
-import {Constants, ModalIdentifiers} from 'utils/constants';
-import {cmdOrCtrlPressed, isKeyPressed} from 'utils/utils';
+import {ModalIdentifiers} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
+import {isShortcutPressed} from 'utils/utils';
 import {useSafeUrl} from 'utils/url';
 import * as UserAgent from 'utils/user_agent';
 import InvitationModal from 'components/invitation_modal';
@@ -92,7 +93,7 @@ export class MainMenu extends React.PureComponent<Props> {
     }
 
     handleKeyDown = (e: KeyboardEvent): void => {
-        if (cmdOrCtrlPressed(e) && e.shiftKey && isKeyPressed(e, Constants.KeyCodes.A)) {
+        if (isShortcutPressed(e, ShortcutActionIds.SETTINGS)) {
             e.preventDefault();
             this.props.actions.openModal({modalId: ModalIdentifiers.USER_SETTINGS, dialogType: UserSettingsModal, dialogProps: {isContentProductSettings: true}});
         }
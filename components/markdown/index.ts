@@ -12,9 +12,10 @@ import {getBool} from 'mattermost-redux/selectors/entities/preferences';
 import {getCurrentTeam} from 'mattermost-redux/selectors/entities/teams';
 import {getAllUserMentionKeys} from 'mattermost-redux/selectors/entities/search';
 
-import {GlobalState} from 'mattermost-redux/types/store';
 
 import {getEmojiMap} from 'selectors/emojis';
+import {getMarkdownExtensions} from 'selectors/plugins';
+import {GlobalState} from 'types/store';
 import {getSiteURL} from 'utils/url';
 import {ChannelNamesMap, MentionKey} from 'utils/text_formatting';
 
@@ -59,6 +60,7 @@ function makeMapStateToProps() {
             channelNamesMap: getChannelNamesMap(state, ownProps),
             enableFormatting: getBool(state, Preferences.CATEGORY_ADVANCED_SETTINGS, 'formatting', true),
             managedResourcePaths: getManagedResourcePaths(state),
+            markdownExtensions: getMarkdownExtensions(state),
             mentionKeys: ownProps.mentionKeys || getAllUserMentionKeys(state),
             siteURL: getSiteURL(),
             team: getCurrentTeam(state),
@@ -6,8 +6,11 @@ import React from 'react';
 import {Team} from 'mattermost-redux/types/teams';
 import {PostImage, PostType} from 'mattermost-redux/types/posts';
 
+import type {MarkdownExtension} from 'plugins/registry_types';
+
 import messageHtmlToComponent from 'utils/message_html_to_component';
 import EmojiMap from 'utils/emoji_map';
+import {addLanguageLoadedListener} from 'utils/syntax_highlighting';
 import {ChannelNamesMap, TextFormattingOptions, formatText, MentionKey} from 'utils/text_formatting';
 import PostEditedIndicator from '../post_view/post_edited_indicator';
 
@@ -107,6 +110,11 @@ type Props = {
 
     channelId?: string;
 
+    /**
+     * The extensions to the Markdown formatting of messages which plugins have registered
+     */
+    markdownExtensions?: MarkdownExtension[];
+
     /**
      * Post id prop passed down to markdown image
      */
@@ -124,6 +132,23 @@ export default class Markdown extends React.PureComponent<Props> {
         editedAt: 0,
     }
 
+    private removeLanguageLoadedListener?: () => void;
+
+    componentDidMount() {
+        this.removeLanguageLoadedListener = addLanguageLoadedListener(this.handleLanguageLoaded);
+    }
+
+    componentWillUnmount() {
+        this.removeLanguageLoadedListener?.();
+    }
+
+    handleLanguageLoaded = () => {
+        // Code blocks are shown without syntax highlighting until their language has been loaded
+        if (this.props.message.includes('```') || this.props.message.includes('~~~')) {
+            this.forceUpdate();
+        }
+    }
+
     render() {
         const {postId, editedAt, message, enableFormatting} = this.props;
         if (message === '' || !enableFormatting) {
@@ -148,6 +173,7 @@ export default class Markdown extends React.PureComponent<Props> {
             team: this.props.team,
             minimumHashtagLength: this.props.minimumHashtagLength,
             managedResourcePaths: this.props.managedResourcePaths,
+            markdownExtensions: this.props.markdownExtensions,
             editedAt,
             postId,
         }, this.props.options);
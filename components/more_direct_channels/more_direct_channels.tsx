@@ -43,7 +43,9 @@ export type Props = {
     * The mode by which direct messages are restricted, if at all.
     */
     restrictDirectMessage?: string;
-    onModalDismissed: () => void;
+
+    // onModalDismissed isn't needed when the modal is opened through openModal since it's closed once it's exited
+    onModalDismissed?: () => void;
     onExited?: () => void;
     actions: {
         getProfiles: (page?: number | undefined, perPage?: number | undefined, options?: any) => Promise<any>;
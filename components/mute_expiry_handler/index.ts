@@ -0,0 +1,30 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {connect} from 'react-redux';
+import {bindActionCreators, Dispatch} from 'redux';
+
+import {GenericAction} from 'mattermost-redux/types/actions';
+
+import {expireMutes} from 'actions/mute_expiry';
+import {getNextMuteExpiry} from 'selectors/mute_expiry';
+
+import {GlobalState} from 'types/store';
+
+import MuteExpiryHandler from './mute_expiry_handler';
+
+function mapStateToProps(state: GlobalState) {
+    return {
+        nextExpiry: getNextMuteExpiry(state),
+    };
+}
+
+function mapDispatchToProps(dispatch: Dispatch<GenericAction>) {
+    return {
+        actions: bindActionCreators({
+            expireMutes,
+        }, dispatch),
+    };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(MuteExpiryHandler);
@@ -0,0 +1,61 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+// The longest delay that setTimeout supports. Timers which are longer than this are rescheduled when they fire.
+const MAX_TIMEOUT = 2147483647;
+
+type Props = {
+    // The earliest time at which a channel or category needs to be unmuted or 0 if nothing is muted temporarily
+    nextExpiry: number;
+
+    actions: {
+        expireMutes: () => void;
+    };
+};
+
+// MuteExpiryHandler unmutes channels and categories when their mute expires. It doesn't render anything.
+export default class MuteExpiryHandler extends React.PureComponent<Props> {
+    private timeout?: number;
+
+    componentDidMount() {
+        this.scheduleExpiry();
+    }
+
+    componentDidUpdate(prevProps: Props) {
+        if (prevProps.nextExpiry !== this.props.nextExpiry) {
+            this.scheduleExpiry();
+        }
+    }
+
+    componentWillUnmount() {
+        window.clearTimeout(this.timeout);
+    }
+
+    scheduleExpiry = () => {
+        window.clearTimeout(this.timeout);
+
+        if (!this.props.nextExpiry) {
+            return;
+        }
+
+        const delay = this.props.nextExpiry - Date.now();
+        if (delay <= 0) {
+            this.props.actions.expireMutes();
+            return;
+        }
+
+        this.timeout = window.setTimeout(() => {
+            if (this.props.nextExpiry <= Date.now()) {
+                this.props.actions.expireMutes();
+            } else {
+                this.scheduleExpiry();
+            }
+        }, Math.min(delay, MAX_TIMEOUT));
+    }
+
+    render() {
+        return null;
+    }
+}
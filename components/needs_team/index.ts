@@ -8,6 +8,7 @@ import {withRouter} from 'react-router-dom';
 import {fetchMyChannelsAndMembers, viewChannel} from 'mattermost-redux/actions/channels';
 import {getMyTeamUnreads, getTeamByName, selectTeam} from 'mattermost-redux/actions/teams';
 import {getGroups, getAllGroupsAssociatedToChannelsInTeam, getAllGroupsAssociatedToTeam, getGroupsByUserId} from 'mattermost-redux/actions/groups';
+import {fetchScheduledPosts} from 'mattermost-redux/actions/scheduled_posts';
 import {isCollapsedThreadsEnabled} from 'mattermost-redux/selectors/entities/preferences';
 import {getLicense, getConfig} from 'mattermost-redux/selectors/entities/general';
 import {getCurrentUser} from 'mattermost-redux/selectors/entities/users';
@@ -23,6 +24,7 @@ import {shouldShowAppBar} from 'selectors/plugins';
 import {loadStatusesForChannelAndSidebar} from 'actions/status_actions';
 import {addUserToTeam} from 'actions/team_actions';
 import {markChannelAsReadOnFocus} from 'actions/views/channel';
+import {getDrafts} from 'actions/views/drafts';
 import {getSelectedThreadIdInCurrentTeam} from 'selectors/views/threads';
 import {checkIfMFARequired} from 'utils/route';
 
@@ -52,6 +54,7 @@ function mapStateToProps(state: GlobalState, ownProps: OwnProps) {
         plugins,
         selectedThreadId: getSelectedThreadIdInCurrentTeam(state),
         shouldShowAppBar: shouldShowAppBar(state),
+        enableScheduledPosts: config.EnableScheduledPosts === 'true',
     };
 }
 
@@ -71,6 +74,8 @@ function mapDispatchToProps(dispatch: Dispatch) {
             getAllGroupsAssociatedToTeam,
             getGroupsByUserId,
             getGroups,
+            getDrafts,
+            fetchScheduledPosts,
         }, dispatch),
     };
 }
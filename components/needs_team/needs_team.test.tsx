@@ -93,6 +93,8 @@ describe('components/needs_team', () => {
         getAllGroupsAssociatedToChannelsInTeam: jest.fn().mockResolvedValue({data: true}),
         getAllGroupsAssociatedToTeam: jest.fn().mockResolvedValue({data: true}),
         getGroups: jest.fn().mockResolvedValue({data: true}),
+        getDrafts: jest.fn().mockResolvedValue({data: []}),
+        fetchScheduledPosts: jest.fn().mockResolvedValue({data: []}),
         getGroupsByUserId: jest.fn().mockResolvedValue({data: true}),
     };
     const baseProps = {
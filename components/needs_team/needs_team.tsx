@@ -15,6 +15,7 @@ import {startPeriodicSync, stopPeriodicSync, reconnect} from 'actions/websocket_
 import * as GlobalActions from 'actions/global_actions';
 
 import Constants from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as UserAgent from 'utils/user_agent';
 import * as Utils from 'utils/utils.jsx';
 import {isGuest} from 'mattermost-redux/utils/user_utils';
@@ -60,6 +61,8 @@ type Props = {
         getAllGroupsAssociatedToTeam: (teamId: string, filterAllowReference: boolean) => Promise<{data: Group[]}>;
         getGroupsByUserId: (userID: string) => Promise<{data: Group[]}>;
         getGroups: (filterAllowReference: boolean, page: number, perPage: number) => Promise<{data: Group[]}>;
+        getDrafts: (teamId: string) => Promise<{data?: any; error?: any}>;
+        fetchScheduledPosts: (teamId: string) => Promise<{data?: any; error?: any}>;
     };
     mfaRequired: boolean;
     match: {
@@ -76,6 +79,7 @@ type Props = {
     plugins?: any;
     selectedThreadId: string | null;
     shouldShowAppBar: boolean;
+    enableScheduledPosts?: boolean;
 }
 
 type State = {
@@ -240,8 +244,14 @@ export default class NeedsTeam extends React.PureComponent<Props, State> {
                 this.setState({
                     finishedFetchingChannels: true,
                 });
+
+                // Channels need to be loaded first so that local drafts can be matched to the team
+                this.props.actions.getDrafts(team.id);
             },
         );
+        if (this.props.enableScheduledPosts) {
+            this.props.actions.fetchScheduledPosts(team.id);
+        }
         this.props.actions.loadStatusesForChannelAndSidebar();
 
         if (this.props.license &&
@@ -274,7 +284,7 @@ export default class NeedsTeam extends React.PureComponent<Props, State> {
     }
 
     onShortcutKeyDown = (e: KeyboardEvent) => {
-        if (e.shiftKey && Utils.cmdOrCtrlPressed(e) && Utils.isKeyPressed(e, Constants.KeyCodes.L)) {
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.FOCUS_CENTER)) {
             const sidebar = document.getElementById('sidebar-right');
             if (sidebar) {
                 if (sidebar.className.match('sidebar--right sidebar--right--expanded move--left')) {
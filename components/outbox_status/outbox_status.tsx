@@ -0,0 +1,49 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {FormattedMessage} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {processOutbox} from 'actions/outbox';
+import {getOutboxCount} from 'selectors/outbox';
+import {GlobalState} from 'types/store';
+
+import './outbox_status.scss';
+
+const OutboxStatus = (): JSX.Element | null => {
+    const dispatch = useDispatch();
+    const count = useSelector((state: GlobalState) => getOutboxCount(state));
+
+    if (!count) {
+        return null;
+    }
+
+    const retry = (e: React.MouseEvent<HTMLAnchorElement>) => {
+        e.preventDefault();
+        dispatch(processOutbox());
+    };
+
+    return (
+        <div className='OutboxStatus'>
+            <i className='icon icon-clock-outline'/>
+            <FormattedMessage
+                id='outbox_status.queued'
+                defaultMessage='{count, plural, one {# change is} other {# changes are}} waiting to be sent. They will be sent when you are back online.'
+                values={{count}}
+            />
+            {' '}
+            <a
+                href='#'
+                onClick={retry}
+            >
+                <FormattedMessage
+                    id='outbox_status.retry'
+                    defaultMessage='Retry now'
+                />
+            </a>
+        </div>
+    );
+};
+
+export default OutboxStatus;
@@ -33,7 +33,8 @@ function focusRootPost(post, channel) {
             channelId: channel.id,
         });
 
-        browserHistory.replace(postURL);
+        // Keep any anchor to part of the post, such as a line of a code block
+        browserHistory.replace(postURL + window.location.hash);
     };
 }
 
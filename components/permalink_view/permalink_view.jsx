@@ -4,7 +4,7 @@
 import React from 'react';
 import PropTypes from 'prop-types';
 
-import Constants from 'utils/constants.jsx';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils.jsx';
 
 export default class PermalinkView extends React.PureComponent {
@@ -63,7 +63,7 @@ export default class PermalinkView extends React.PureComponent {
     }
 
     onShortcutKeyDown = (e) => {
-        if (e.shiftKey && Utils.cmdOrCtrlPressed(e) && Utils.isKeyPressed(e, Constants.KeyCodes.L) && this.permalink.current) {
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.FOCUS_CENTER) && this.permalink.current) {
             this.permalink.current.focus();
         }
     }
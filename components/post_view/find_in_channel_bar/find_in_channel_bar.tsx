@@ -0,0 +1,234 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo, useEffect, useMemo, useRef, useState} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {closeFindInChannel, selectFindInChannelMatch, updateFindInChannelTerms} from 'actions/views/channel';
+import {getFindInChannel, makeGetFindInChannelMatches} from 'selectors/views/channel';
+
+import Constants from 'utils/constants';
+import {isKeyPressed} from 'utils/utils';
+
+import {GlobalState} from 'types/store';
+
+import './find_in_channel_bar.scss';
+
+// The most pages of older posts which are loaded each time that the search continues past the loaded posts
+export const MAX_PAGES_LOADED_PER_SEARCH = 10;
+
+type Props = {
+    channelId: string;
+
+    // postListIds are the IDs of the loaded posts of the channel, ordered from newest to oldest
+    postListIds: string[];
+    atOldestPost: boolean;
+    onLoadOlderPosts: () => Promise<{error?: Error} | undefined>;
+};
+
+// FindInChannelBar searches the posts of the channel which have already been loaded as the user types. Moving past the
+// oldest match loads older pages of posts to continue the search, and the loaded posts can still be searched when the
+// server can't be reached.
+function FindInChannelBar({channelId, postListIds, atOldestPost, onLoadOlderPosts}: Props) {
+    const intl = useIntl();
+    const dispatch = useDispatch();
+
+    const getFindInChannelMatches = useMemo(makeGetFindInChannelMatches, []);
+    const {terms, matchPostId} = useSelector(getFindInChannel);
+    const matchIds = useSelector((state: GlobalState) => getFindInChannelMatches(state, postListIds, channelId));
+
+    // searchingFrom is the ID of the match which older posts are being searched from. It's empty when no posts
+    // matched yet and null when older posts aren't being searched.
+    const [searchingFrom, setSearchingFrom] = useState<string | null>(null);
+    const [failed, setFailed] = useState(false);
+    const loading = useRef(false);
+    const pagesLoaded = useRef(0);
+
+    const index = matchIds.indexOf(matchPostId);
+
+    useEffect(() => {
+        setSearchingFrom(null);
+        setFailed(false);
+    }, [terms]);
+
+    // Go to the newest match as the terms are typed
+    useEffect(() => {
+        if (!matchPostId && matchIds.length > 0 && searchingFrom === null) {
+            dispatch(selectFindInChannelMatch(matchIds[0]));
+        }
+    }, [matchIds, matchPostId]);
+
+    useEffect(() => {
+        if (searchingFrom === null) {
+            return;
+        }
+
+        const next = matchIds[matchIds.indexOf(searchingFrom) + 1];
+        if (next) {
+            setSearchingFrom(null);
+            dispatch(selectFindInChannelMatch(next));
+            return;
+        }
+
+        if (atOldestPost || pagesLoaded.current >= MAX_PAGES_LOADED_PER_SEARCH) {
+            setSearchingFrom(null);
+            return;
+        }
+
+        if (loading.current) {
+            return;
+        }
+
+        loading.current = true;
+        pagesLoaded.current += 1;
+
+        onLoadOlderPosts().then((result) => {
+            loading.current = false;
+
+            if (result?.error) {
+                setFailed(true);
+                setSearchingFrom(null);
+            }
+        });
+    }, [searchingFrom, matchIds, atOldestPost]);
+
+    const findOlder = () => {
+        if (!terms.trim() || searchingFrom !== null) {
+            return;
+        }
+
+        if (index + 1 < matchIds.length) {
+            dispatch(selectFindInChannelMatch(matchIds[index + 1]));
+        } else if (!atOldestPost) {
+            pagesLoaded.current = 0;
+            setFailed(false);
+            setSearchingFrom(index === -1 ? '' : matchPostId);
+        }
+    };
+
+    const findNewer = () => {
+        if (index > 0) {
+            dispatch(selectFindInChannelMatch(matchIds[index - 1]));
+        }
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        dispatch(updateFindInChannelTerms(e.target.value));
+    };
+
+    const handleClose = () => {
+        dispatch(closeFindInChannel());
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (isKeyPressed(e, Constants.KeyCodes.ENTER)) {
+            e.preventDefault();
+            if (e.shiftKey) {
+                findNewer();
+            } else {
+                findOlder();
+            }
+        } else if (isKeyPressed(e, Constants.KeyCodes.ESCAPE)) {
+            e.preventDefault();
+            e.stopPropagation();
+            handleClose();
+        }
+    };
+
+    let status = null;
+    if (searchingFrom !== null) {
+        status = (
+            <FormattedMessage
+                id='find_in_channel.searchingOlder'
+                defaultMessage='Searching older messages...'
+            />
+        );
+    } else if (failed) {
+        status = (
+            <span className='FindInChannelBar__error'>
+                <FormattedMessage
+                    id='find_in_channel.loadFailed'
+                    defaultMessage="Couldn't load older messages"
+                />
+            </span>
+        );
+    } else if (index !== -1) {
+        status = (
+            <FormattedMessage
+                id='find_in_channel.count'
+                defaultMessage='{current} of {total}'
+                values={{current: index + 1, total: matchIds.length}}
+            />
+        );
+    } else if (terms.trim()) {
+        status = (
+            <FormattedMessage
+                id='find_in_channel.noMatches'
+                defaultMessage='No matches'
+            />
+        );
+    }
+
+    const olderLabel = atOldestPost ? intl.formatMessage({
+        id: 'find_in_channel.older',
+        defaultMessage: 'Older match',
+    }) : intl.formatMessage({
+        id: 'find_in_channel.olderOrLoad',
+        defaultMessage: 'Older match, searching older messages if needed',
+    });
+
+    return (
+        <div
+            className='FindInChannelBar'
+            role='search'
+        >
+            <input
+                className='FindInChannelBar__input form-control'
+                type='text'
+                value={terms}
+                onChange={handleChange}
+                onKeyDown={handleKeyDown}
+                placeholder={intl.formatMessage({id: 'find_in_channel.placeholder', defaultMessage: 'Find in channel'})}
+                aria-label={intl.formatMessage({id: 'find_in_channel.placeholder', defaultMessage: 'Find in channel'})}
+                autoFocus={true}
+            />
+            <span
+                className='FindInChannelBar__status'
+                aria-live='polite'
+            >
+                {status}
+            </span>
+            <button
+                type='button'
+                className='FindInChannelBar__button'
+                onClick={findOlder}
+                disabled={!terms.trim() || searchingFrom !== null || (atOldestPost && index + 1 >= matchIds.length)}
+                aria-label={olderLabel}
+                title={olderLabel}
+            >
+                <i className='icon icon-chevron-up'/>
+            </button>
+            <button
+                type='button'
+                className='FindInChannelBar__button'
+                onClick={findNewer}
+                disabled={index <= 0}
+                aria-label={intl.formatMessage({id: 'find_in_channel.newer', defaultMessage: 'Newer match'})}
+                title={intl.formatMessage({id: 'find_in_channel.newer', defaultMessage: 'Newer match'})}
+            >
+                <i className='icon icon-chevron-down'/>
+            </button>
+            <button
+                type='button'
+                className='FindInChannelBar__button'
+                onClick={handleClose}
+                aria-label={intl.formatMessage({id: 'find_in_channel.close', defaultMessage: 'Close'})}
+            >
+                <i className='icon icon-close'/>
+            </button>
+        </div>
+    );
+}
+
+export default memo(FindInChannelBar);
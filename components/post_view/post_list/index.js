@@ -23,6 +23,7 @@ import {
     loadLatestPosts,
 } from 'actions/views/channel';
 import {getIsMobileView} from 'selectors/views/browser';
+import {getFindInChannel} from 'selectors/views/channel';
 
 import PostList from './post_list.jsx';
 
@@ -49,6 +50,7 @@ function makeMapStateToProps() {
         const lastViewedAt = channelViewState.lastChannelViewTime[channelId];
         const isPrefetchingInProcess = channelViewState.channelPrefetchStatus[channelId] === RequestStatus.STARTED;
         const channelManuallyUnread = isManuallyUnread(state, channelId);
+        const findInChannel = getFindInChannel(state);
 
         if (focusedPostId && unreadChunkTimeStamp !== '') {
             chunk = getPostsChunkAroundPost(state, focusedPostId, channelId);
@@ -84,6 +86,8 @@ function makeMapStateToProps() {
             isPrefetchingInProcess,
             channelManuallyUnread,
             isMobileView: getIsMobileView(state),
+            isFindInChannelOpen: findInChannel.isOpen,
+            findMatchPostId: findInChannel.matchPostId,
         };
     };
 }
@@ -10,6 +10,7 @@ import {PostRequestTypes} from 'utils/constants';
 import {getOldestPostId, getLatestPostId} from 'utils/post_utils';
 
 import VirtPostList from 'components/post_view/post_list_virtualized/post_list_virtualized';
+import FindInChannelBar from 'components/post_view/find_in_channel_bar';
 
 const MAX_NUMBER_OF_AUTO_RETRIES = 3;
 export const MAX_EXTRA_PAGES_LOADED = 10;
@@ -81,6 +82,12 @@ export default class PostList extends React.PureComponent {
 
         isMobileView: PropTypes.bool.isRequired,
 
+        /*
+         * Whether the find bar is open and the post which is selected in it
+         */
+        isFindInChannelOpen: PropTypes.bool,
+        findMatchPostId: PropTypes.string,
+
         actions: PropTypes.shape({
 
             /*
@@ -273,7 +280,7 @@ export default class PostList extends React.PureComponent {
         }
         const oldestPostId = this.getOldestVisiblePostId();
         this.setState({loadingOlderPosts: true});
-        await this.callLoadPosts(this.props.channelId, oldestPostId, PostRequestTypes.BEFORE_ID);
+        return this.callLoadPosts(this.props.channelId, oldestPostId, PostRequestTypes.BEFORE_ID);
     }
 
     getPostsAfter = async () => {
@@ -300,6 +307,14 @@ export default class PostList extends React.PureComponent {
                 className='post-list-holder-by-time'
                 key={'postlist-' + this.props.channelId}
             >
+                {this.props.isFindInChannelOpen && (
+                    <FindInChannelBar
+                        channelId={this.props.channelId}
+                        postListIds={this.props.postListIds}
+                        atOldestPost={this.props.atOldestPost}
+                        onLoadOlderPosts={this.getPostsBefore}
+                    />
+                )}
                 <div className='post-list__table'>
                     <div
                         id='virtualizedPostListContent'
@@ -311,6 +326,7 @@ export default class PostList extends React.PureComponent {
                             atOldestPost={this.props.atOldestPost}
                             atLatestPost={this.props.atLatestPost}
                             focusedPostId={this.props.focusedPostId}
+                            findMatchPostId={this.props.findMatchPostId}
                             channelId={this.props.channelId}
                             autoRetryEnable={this.state.autoRetryEnable}
                             actions={this.actionsForPostList}
@@ -5,6 +5,7 @@ import React from 'react';
 import {shallow} from 'enzyme';
 
 import VirtPostList from 'components/post_view/post_list_virtualized/post_list_virtualized';
+import FindInChannelBar from 'components/post_view/find_in_channel_bar';
 
 import {PostRequestTypes} from 'utils/constants';
 
@@ -77,6 +78,20 @@ describe('components/post_view/post_list', () => {
         expect(wrapper.state('loadingOlderPosts')).toBe(false);
     });
 
+    it('should show the find bar and pass the selected match to the list', () => {
+        const postIds = createFakePosIds(2);
+        const wrapper = shallow(
+            <PostList {...{...baseProps, postListIds: postIds}}/>,
+        );
+
+        expect(wrapper.find(FindInChannelBar).exists()).toBe(false);
+
+        wrapper.setProps({isFindInChannelOpen: true, findMatchPostId: postIds[1]});
+
+        expect(wrapper.find(FindInChannelBar).prop('postListIds')).toBe(postIds);
+        expect(wrapper.find(VirtPostList).prop('findMatchPostId')).toBe(postIds[1]);
+    });
+
     it('Should not call loadUnreads if isPrefetchingInProcess is true', async () => {
         const emptyPostList = [];
 
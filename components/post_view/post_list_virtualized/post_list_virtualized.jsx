@@ -60,6 +60,11 @@ export default class PostList extends React.PureComponent {
          */
         focusedPostId: PropTypes.string,
 
+        /**
+         * Set to highlight and scroll to the post which is selected in the find bar
+         */
+        findMatchPostId: PropTypes.string,
+
         /**
          * The current channel id
          */
@@ -204,6 +209,11 @@ export default class PostList extends React.PureComponent {
         if (!this.postListRef.current) {
             return;
         }
+
+        if (this.props.findMatchPostId && this.props.findMatchPostId !== prevProps.findMatchPostId) {
+            this.scrollToFindMatch();
+        }
+
         const prevPostsCount = prevProps.postListIds.length;
         const presentPostsCount = this.props.postListIds.length;
 
@@ -329,7 +339,7 @@ export default class PostList extends React.PureComponent {
                 <PostListRow
                     listId={itemId}
                     previousListId={getPreviousPostId(data, index)}
-                    shouldHighlight={itemId === this.props.focusedPostId}
+                    shouldHighlight={itemId === this.props.focusedPostId || itemId === this.props.findMatchPostId}
                     loadOlderPosts={this.props.actions.loadOlderPosts}
                     loadNewerPosts={this.props.actions.loadNewerPosts}
                     togglePostMenu={this.togglePostMenu}
@@ -527,6 +537,13 @@ export default class PostList extends React.PureComponent {
         this.listRef.current.scrollToItem(0, 'end');
     }
 
+    scrollToFindMatch = () => {
+        const index = this.state.postListIds.indexOf(this.props.findMatchPostId);
+        if (index !== -1) {
+            this.listRef.current.scrollToItem(index, 'center');
+        }
+    }
+
     scrollToNewMessage = () => {
         this.listRef.current.scrollToItem(getNewMessageIndex(this.state.postListIds), 'start', OFFSET_TO_SHOW_TOAST);
     }
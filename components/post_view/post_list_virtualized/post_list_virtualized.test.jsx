@@ -93,6 +93,27 @@ describe('PostList', () => {
             }));
             expect(row.find(PostListRow).prop('shouldHighlight')).toEqual(true);
         });
+
+        test('should highlight the post selected in the find bar', () => {
+            const props = {
+                ...baseProps,
+                findMatchPostId: 'c',
+            };
+
+            const wrapper = shallow(<PostList {...props}/>);
+
+            let row = shallow(wrapper.instance().renderRow({
+                data: postListIds,
+                itemId: 'b',
+            }));
+            expect(row.find(PostListRow).prop('shouldHighlight')).toEqual(false);
+
+            row = shallow(wrapper.instance().renderRow({
+                data: postListIds,
+                itemId: 'c',
+            }));
+            expect(row.find(PostListRow).prop('shouldHighlight')).toEqual(true);
+        });
     });
 
     describe('onScroll', () => {
@@ -584,6 +605,30 @@ describe('PostList', () => {
         });
     });
 
+    describe('scrollToFindMatch', () => {
+        test('should scroll to the post selected in the find bar', () => {
+            const wrapper = shallow(<PostList {...baseProps}/>);
+            const instance = wrapper.instance();
+            instance.listRef = {current: {scrollToItem: jest.fn()}};
+
+            wrapper.setProps({findMatchPostId: 'post2'});
+            instance.scrollToFindMatch();
+
+            expect(instance.listRef.current.scrollToItem).toHaveBeenCalledWith(2, 'center');
+        });
+
+        test('should not scroll to a post which is not in the list', () => {
+            const wrapper = shallow(<PostList {...baseProps}/>);
+            const instance = wrapper.instance();
+            instance.listRef = {current: {scrollToItem: jest.fn()}};
+
+            wrapper.setProps({findMatchPostId: 'post9'});
+            instance.scrollToFindMatch();
+
+            expect(instance.listRef.current.scrollToItem).not.toHaveBeenCalled();
+        });
+    });
+
     describe('postIds state', () => {
         test('should have LOAD_NEWER_MESSAGES_TRIGGER and LOAD_OLDER_MESSAGES_TRIGGER', () => {
             const wrapper = shallow(<PostList {...baseProps}/>);
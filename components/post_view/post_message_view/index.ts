@@ -4,16 +4,27 @@
 import {connect} from 'react-redux';
 
 import {Preferences} from 'mattermost-redux/constants';
+import {getCurrentChannelId} from 'mattermost-redux/selectors/entities/channels';
 import {getTheme, getBool} from 'mattermost-redux/selectors/entities/preferences';
 import {getCurrentRelativeTeamUrl} from 'mattermost-redux/selectors/entities/teams';
+import {Post} from 'mattermost-redux/types/posts';
 
 import {getIsRhsExpanded, getIsRhsOpen} from 'selectors/rhs';
+import {getFindInChannel} from 'selectors/views/channel';
 
 import {GlobalState} from 'types/store';
 
 import PostMessageView from './post_message_view';
 
-function mapStateToProps(state: GlobalState) {
+type OwnProps = {
+    post: Post;
+    isRHS?: boolean;
+}
+
+function mapStateToProps(state: GlobalState, ownProps: OwnProps) {
+    const findInChannel = getFindInChannel(state);
+    const isInFindInChannel = findInChannel.isOpen && !ownProps.isRHS && ownProps.post.channel_id === getCurrentChannelId(state);
+
     return {
         enableFormatting: getBool(state, Preferences.CATEGORY_ADVANCED_SETTINGS, 'formatting', true),
         isRHSExpanded: getIsRhsExpanded(state),
@@ -21,6 +32,7 @@ function mapStateToProps(state: GlobalState) {
         pluginPostTypes: state.plugins.postTypes,
         theme: getTheme(state),
         currentRelativeTeamUrl: getCurrentRelativeTeamUrl(state),
+        findTerms: isInFindInChannel ? findInChannel.terms : '',
     };
 }
 
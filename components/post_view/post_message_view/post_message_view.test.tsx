@@ -10,6 +10,7 @@ import {Post, PostType} from 'mattermost-redux/types/posts';
 
 import {Theme} from 'mattermost-redux/types/themes';
 
+import PostMarkdown from 'components/post_markdown';
 import PostMessageView from 'components/post_view/post_message_view/post_message_view';
 
 describe('components/post_view/PostAttachment', () => {
@@ -84,4 +85,11 @@ describe('components/post_view/PostAttachment', () => {
         instance.handleHeightReceived(0);
         expect(wrapper.state('checkOverflow')).toEqual(1);
     });
+
+    test('should highlight the terms of the find bar', () => {
+        const props = {...baseProps, options: {mentionHighlight: false}, findTerms: 'message'};
+        const wrapper = shallow(<PostMessageView {...props}/>);
+
+        expect(wrapper.find(PostMarkdown).prop('options')).toEqual({mentionHighlight: false, searchTerm: 'message'});
+    });
 });
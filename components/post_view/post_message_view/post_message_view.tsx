@@ -30,6 +30,7 @@ type Props = {
     currentRelativeTeamUrl: string;
     overflowType?: AttachmentTextOverflowType;
     maxHeight?: number; /* The max height used by the show more component */
+    findTerms?: string; /* The terms to highlight when the post is searched with the find bar */
 }
 
 type State = {
@@ -103,6 +104,7 @@ export default class PostMessageView extends React.PureComponent<Props, State> {
             theme,
             overflowType,
             maxHeight,
+            findTerms,
         } = this.props;
 
         if (post.state === Posts.POST_DELETED) {
@@ -155,7 +157,7 @@ export default class PostMessageView extends React.PureComponent<Props, State> {
                         message={message}
                         imageProps={this.imageProps}
                         isRHS={isRHS}
-                        options={options}
+                        options={findTerms ? {...options, searchTerm: findTerms} : options}
                         post={post}
                         channelId={post.channel_id}
                         mentionKeys={[]}
@@ -6,7 +6,6 @@ import {bindActionCreators, Dispatch} from 'redux';
 
 import {createSelector} from 'reselect';
 
-import {removeReaction} from 'mattermost-redux/actions/posts';
 import {getMissingProfilesByIds} from 'mattermost-redux/actions/users';
 
 import {getCustomEmojisByName} from 'mattermost-redux/selectors/entities/emojis';
@@ -21,7 +20,7 @@ import {GlobalState} from 'mattermost-redux/types/store';
 
 import {getEmojiImageUrl} from 'mattermost-redux/utils/emoji_utils';
 
-import {addReaction} from 'actions/post_actions.jsx';
+import {addReaction, removeReaction} from 'actions/post_actions.jsx';
 
 import * as Emoji from 'utils/emoji.jsx';
 
@@ -7,6 +7,7 @@ import {ActionCreatorsMapObject, bindActionCreators, Dispatch} from 'redux';
 import {ActionFunc} from 'mattermost-redux/types/actions';
 
 import {joinChannelById, switchToChannel} from 'actions/views/channel';
+import {runPaletteCommand} from 'actions/views/command_palette';
 
 import {getIsMobileView} from 'selectors/views/browser';
 
@@ -25,6 +26,7 @@ function mapDispatchToProps(dispatch: Dispatch) {
         actions: bindActionCreators<ActionCreatorsMapObject<ActionFunc>, Props['actions']>({
             joinChannelById,
             switchToChannel,
+            runPaletteCommand,
         }, dispatch),
     };
 }
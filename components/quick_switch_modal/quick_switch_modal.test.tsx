@@ -21,6 +21,7 @@ describe('components/QuickSwitchModal', () => {
                 };
                 return Promise.resolve({error});
             }),
+            runPaletteCommand: jest.fn().mockResolvedValue({data: true}),
         },
     };
 
@@ -142,5 +143,64 @@ describe('components/QuickSwitchModal', () => {
                 done();
             });
         });
+
+        it('should run a command and close', (done) => {
+            const props = {...baseProps, onExited: jest.fn()};
+
+            const wrapper = shallow<QuickSwitchModal>(
+                <QuickSwitchModal {...props}/>,
+            );
+
+            const command = {id: 'channels.mark_all_read', type: 'channel', title: 'Mark all channels as read', icon: 'icon-check-all', run: jest.fn()};
+            wrapper.instance().handleSubmit({type: Constants.PALETTE_COMMANDS, command});
+            expect(props.actions.runPaletteCommand).toBeCalledWith(command);
+            process.nextTick(() => {
+                expect(props.onExited).toBeCalled();
+                done();
+            });
+        });
+
+        it('should show the error when a command fails', (done) => {
+            const props = {
+                ...baseProps,
+                onExited: jest.fn(),
+                actions: {
+                    ...baseProps.actions,
+                    runPaletteCommand: jest.fn().mockResolvedValue({error: {message: 'Unknown command'}}),
+                },
+            };
+
+            const wrapper = shallow<QuickSwitchModal>(
+                <QuickSwitchModal {...props}/>,
+            );
+
+            const command = {id: 'slash_command.run', type: 'slash_command', title: 'Run /unknown', icon: 'icon-slash-forward', run: jest.fn()};
+            wrapper.instance().handleSubmit({type: Constants.PALETTE_COMMANDS, command});
+            process.nextTick(() => {
+                expect(props.onExited).not.toBeCalled();
+                expect(wrapper.state('commandError')).toBe('Unknown command');
+                done();
+            });
+        });
+
+        it('should not run anything when filling in a slash command', () => {
+            const props = {
+                ...baseProps,
+                onExited: jest.fn(),
+                actions: {
+                    ...baseProps.actions,
+                    runPaletteCommand: jest.fn(),
+                },
+            };
+
+            const wrapper = shallow<QuickSwitchModal>(
+                <QuickSwitchModal {...props}/>,
+            );
+
+            wrapper.instance().handleSubmit({type: Constants.PALETTE_COMMANDS, slashCommand: {trigger: 'away'}});
+            expect(props.actions.runPaletteCommand).not.toBeCalled();
+            expect(props.actions.switchToChannel).not.toBeCalled();
+            expect(props.onExited).not.toBeCalled();
+        });
     });
 });
@@ -17,11 +17,13 @@ import * as UserAgent from 'utils/user_agent';
 import SuggestionBox from 'components/suggestion/suggestion_box';
 import SuggestionBoxComponent from 'components/suggestion/suggestion_box/suggestion_box';
 import SuggestionList from 'components/suggestion/suggestion_list.jsx';
-import SwitchChannelProvider from 'components/suggestion/switch_channel_provider.jsx';
+import CommandPaletteProvider from 'components/suggestion/command_palette_provider/command_palette_provider';
 import NoResultsIndicator from 'components/no_results_indicator/no_results_indicator';
 
 import {NoResultsVariant} from 'components/no_results_indicator/types';
 
+import type {PaletteCommand} from 'types/store/command_palette';
+
 const CHANNEL_MODE = 'channel';
 
 type ProviderSuggestions = {
@@ -43,6 +45,7 @@ export type Props = {
     actions: {
         joinChannelById: (channelId: string) => Promise<ActionResult>;
         switchToChannel: (channel: Channel) => Promise<ActionResult>;
+        runPaletteCommand: (command: PaletteCommand) => Promise<ActionResult>;
     };
 }
 
@@ -52,16 +55,17 @@ type State = {
     hasSuggestions: boolean;
     shouldShowLoadingSpinner: boolean;
     pretext: string;
+    commandError: string;
 }
 
 export default class QuickSwitchModal extends React.PureComponent<Props, State> {
-    private channelProviders: SwitchChannelProvider[];
+    private providers: CommandPaletteProvider[];
     private switchBox: SuggestionBoxComponent|null;
 
     constructor(props: Props) {
         super(props);
 
-        this.channelProviders = [new SwitchChannelProvider()];
+        this.providers = [new CommandPaletteProvider()];
 
         this.switchBox = null;
 
@@ -71,6 +75,7 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
             hasSuggestions: true,
             shouldShowLoadingSpinner: true,
             pretext: '',
+            commandError: '',
         };
     }
 
@@ -93,6 +98,11 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
 
     private onHide = (): void => {
         this.focusPostTextbox();
+        this.hide();
+    };
+
+    // hide closes the modal without moving the focus back to the post textbox in case a command opened something else
+    private hide = (): void => {
         this.setState({
             text: '',
         });
@@ -111,7 +121,7 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
     };
 
     private onChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-        this.setState({text: e.target.value, shouldShowLoadingSpinner: true});
+        this.setState({text: e.target.value, shouldShowLoadingSpinner: true, commandError: ''});
     };
 
     public handleSubmit = async (selected?: any): Promise<void> => {
@@ -119,7 +129,12 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
             return;
         }
 
-        if (this.state.mode === CHANNEL_MODE) {
+        if (selected.type === Constants.PALETTE_COMMANDS) {
+            // Selecting a slash command only fills it in so that its arguments can be typed
+            if (selected.command) {
+                this.runCommand(selected.command);
+            }
+        } else if (this.state.mode === CHANNEL_MODE) {
             const {joinChannelById, switchToChannel} = this.props.actions;
             const selectedChannel = selected.channel;
 
@@ -137,6 +152,16 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
         }
     };
 
+    private runCommand = async (command: PaletteCommand): Promise<void> => {
+        const {error} = await this.props.actions.runPaletteCommand(command);
+        if (error) {
+            this.setState({commandError: error.message});
+            return;
+        }
+
+        this.hide();
+    };
+
     private handleSuggestionsReceived = (suggestions: ProviderSuggestions): void => {
         const loadingPropPresent = suggestions.items.some((item: any) => item.loading);
         this.setState({
@@ -147,7 +172,7 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
     }
 
     public render = (): JSX.Element => {
-        const providers: SwitchChannelProvider[] = this.channelProviders;
+        const providers: CommandPaletteProvider[] = this.providers;
 
         const header = (
             <h1>
@@ -169,8 +194,8 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
         } else {
             help = (
                 <FormattedMarkdownMessage
-                    id='quick_switch_modal.help_no_team'
-                    defaultMessage='Type to find a channel. Use **UP/DOWN** to browse, **ENTER** to select, **ESC** to dismiss.'
+                    id='quick_switch_modal.help_commands'
+                    defaultMessage='Type to find a channel or command. Start with **>** to only find commands or with **/** to run a slash command. Use **UP/DOWN** to browse, **ENTER** to select, **ESC** to dismiss.'
                 />
             );
         }
@@ -224,6 +249,11 @@ export default class QuickSwitchModal extends React.PureComponent<Props, State>
                             forceSuggestionsWhenBlur={true}
                             renderDividers={true}
                         />
+                        {this.state.commandError &&
+                        <div className='channel-switcher__error has-error'>
+                            <label className='control-label'>{this.state.commandError}</label>
+                        </div>
+                        }
                         {!this.state.shouldShowLoadingSpinner && !this.state.hasSuggestions && this.state.text &&
                         <NoResultsIndicator
                             variant={NoResultsVariant.ChannelSearch}
@@ -0,0 +1,60 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {useIntl} from 'react-intl';
+import {useDispatch} from 'react-redux';
+
+import {openModal} from 'actions/views/modals';
+
+import SchedulePostModal from 'components/schedule_post_modal';
+
+import {ModalIdentifiers} from 'utils/constants';
+
+type Props = {
+    disabled: boolean;
+
+    /*
+     * Called with the time in milliseconds at which the message should be sent
+     */
+    onSchedule: (scheduledAt: number) => void;
+};
+
+const SchedulePostButton = ({disabled, onSchedule}: Props): JSX.Element => {
+    const {formatMessage} = useIntl();
+    const dispatch = useDispatch();
+
+    const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+        e.preventDefault();
+
+        if (disabled) {
+            return;
+        }
+
+        dispatch(openModal({
+            modalId: ModalIdentifiers.SCHEDULE_POST,
+            dialogType: SchedulePostModal,
+            dialogProps: {
+                onConfirm: onSchedule,
+            },
+        }));
+    };
+
+    const label = formatMessage({id: 'schedule_post_button.label', defaultMessage: 'Schedule message'});
+
+    return (
+        <button
+            id='schedulePostButton'
+            type='button'
+            className='post-action'
+            aria-label={label}
+            title={label}
+            disabled={disabled}
+            onClick={handleClick}
+        >
+            <i className='icon icon-clock-outline'/>
+        </button>
+    );
+};
+
+export default SchedulePostButton;
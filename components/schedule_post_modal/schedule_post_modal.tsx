@@ -0,0 +1,95 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {useState} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useSelector} from 'react-redux';
+import moment, {Moment} from 'moment-timezone';
+
+import {getCurrentUserTimezone} from 'selectors/general';
+
+import DateTimeInput, {getRoundedTime} from 'components/custom_status/date_time_input';
+import GenericModal from 'components/generic_modal';
+import Timestamp from 'components/timestamp';
+
+import {getCurrentMomentForTimezone} from 'utils/timezone';
+
+import 'components/custom_status/custom_status.scss';
+import './schedule_post_modal.scss';
+
+type Props = {
+    onExited: () => void;
+
+    /*
+     * Called with the time in milliseconds at which the message should be sent
+     */
+    onConfirm: (scheduledAt: number) => void;
+
+    /*
+     * The time to preselect when rescheduling a message
+     */
+    scheduledAt?: number;
+};
+
+export function getDefaultScheduledTime(timezone?: string) {
+    // Default to the next half hour that's at least a few minutes away
+    return getRoundedTime(getCurrentMomentForTimezone(timezone).add(5, 'minutes'));
+}
+
+const SchedulePostModal = ({onExited, onConfirm, scheduledAt}: Props) => {
+    const {formatMessage} = useIntl();
+    const timezone = useSelector(getCurrentUserTimezone);
+
+    const [time, setTime] = useState<Moment>(() => {
+        if (scheduledAt) {
+            return timezone ? moment.tz(scheduledAt, timezone) : moment(scheduledAt);
+        }
+
+        return getDefaultScheduledTime(timezone);
+    });
+
+    const isInPast = time.isBefore(getCurrentMomentForTimezone(timezone));
+
+    const handleConfirm = () => {
+        if (isInPast) {
+            return;
+        }
+
+        onConfirm(time.valueOf());
+    };
+
+    return (
+        <GenericModal
+            id='schedulePostModal'
+            className='SchedulePostModal'
+            onExited={onExited}
+            modalHeaderText={formatMessage({id: 'schedule_post_modal.title', defaultMessage: 'Schedule message'})}
+            confirmButtonText={formatMessage({id: 'schedule_post_modal.confirm', defaultMessage: 'Schedule'})}
+            cancelButtonText={formatMessage({id: 'schedule_post_modal.cancel', defaultMessage: 'Cancel'})}
+            handleConfirm={handleConfirm}
+            isConfirmDisabled={isInPast}
+        >
+            <DateTimeInput
+                time={time}
+                handleChange={setTime}
+                timezone={timezone}
+            />
+            <div className='SchedulePostModal__summary'>
+                <FormattedMessage
+                    id='schedule_post_modal.summary'
+                    defaultMessage='The message will be sent on {time}'
+                    values={{
+                        time: (
+                            <Timestamp
+                                value={time.valueOf()}
+                                useSemanticOutput={false}
+                            />
+                        ),
+                    }}
+                />
+            </div>
+        </GenericModal>
+    );
+};
+
+export default SchedulePostModal;
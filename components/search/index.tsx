@@ -21,6 +21,7 @@ import {
     filterFilesSearchByExt,
     updateSearchType,
 } from 'actions/views/rhs';
+import {runSavedSearch} from 'actions/views/saved_searches';
 import {autocompleteChannelsForSearch} from 'actions/channel_actions';
 import {autocompleteUsersInTeam} from 'actions/user_actions';
 
@@ -73,6 +74,7 @@ function mapDispatchToProps(dispatch: Dispatch<AnyAction>) {
             openRHSSearch,
             getMoreFilesForSearch,
             filterFilesSearchByExt,
+            runSavedSearch,
         }, dispatch),
     };
 }
@@ -0,0 +1,5 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+export {default as SavedSearchList} from './saved_search_list';
+export {default as SaveSearchForm} from './save_search_form';
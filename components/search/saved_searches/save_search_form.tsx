@@ -0,0 +1,127 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {ChangeEvent, FormEvent, memo, useState} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useDispatch} from 'react-redux';
+
+import {ActionResult} from 'mattermost-redux/types/actions';
+
+import {saveSearch} from 'actions/views/saved_searches';
+
+import './saved_searches.scss';
+
+type Props = {
+    searchTerms: string;
+};
+
+const SaveSearchForm = ({searchTerms}: Props) => {
+    const {formatMessage} = useIntl();
+    const dispatch = useDispatch();
+
+    const [saving, setSaving] = useState(false);
+    const [name, setName] = useState('');
+    const [subscribed, setSubscribed] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleStart = () => {
+        setName(searchTerms.trim());
+        setSaving(true);
+    };
+
+    const handleCancel = () => {
+        setSaving(false);
+        setSubscribed(false);
+        setError('');
+    };
+
+    const handleNameChange = (e: ChangeEvent<HTMLInputElement>) => {
+        setName(e.target.value);
+    };
+
+    const handleSubscribedChange = (e: ChangeEvent<HTMLInputElement>) => {
+        setSubscribed(e.target.checked);
+    };
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        const result = await dispatch(saveSearch(name.trim(), searchTerms.trim(), subscribed)) as ActionResult;
+        if (result.error) {
+            setError(result.error.message);
+            return;
+        }
+
+        handleCancel();
+    };
+
+    if (!saving) {
+        return (
+            <button
+                type='button'
+                className='SaveSearchForm__start btn btn-link'
+                disabled={!searchTerms.trim()}
+                onClick={handleStart}
+            >
+                <i className='icon icon-bookmark-outline'/>
+                <FormattedMessage
+                    id='saved_searches.save'
+                    defaultMessage='Save search'
+                />
+            </button>
+        );
+    }
+
+    return (
+        <form
+            className='SaveSearchForm'
+            onSubmit={handleSubmit}
+        >
+            <input
+                type='text'
+                className='form-control'
+                maxLength={64}
+                value={name}
+                onChange={handleNameChange}
+                placeholder={formatMessage({id: 'saved_searches.name', defaultMessage: 'Name this search'})}
+                autoFocus={true}
+            />
+            <label className='SaveSearchForm__subscribe'>
+                <input
+                    type='checkbox'
+                    checked={subscribed}
+                    onChange={handleSubscribedChange}
+                />
+                <FormattedMessage
+                    id='saved_searches.notify'
+                    defaultMessage='Notify me about new results'
+                />
+            </label>
+            <button
+                type='submit'
+                className='btn btn-primary btn-sm'
+                disabled={!name.trim()}
+            >
+                <FormattedMessage
+                    id='saved_searches.saveButton'
+                    defaultMessage='Save'
+                />
+            </button>
+            <button
+                type='button'
+                className='btn btn-link btn-sm'
+                onClick={handleCancel}
+            >
+                <FormattedMessage
+                    id='saved_searches.cancel'
+                    defaultMessage='Cancel'
+                />
+            </button>
+            {error && (
+                <label className='SaveSearchForm__error has-error'>{error}</label>
+            )}
+        </form>
+    );
+};
+
+export default memo(SaveSearchForm);
@@ -0,0 +1,88 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+import classNames from 'classnames';
+
+import {deleteSavedSearch, setSavedSearchSubscribed} from 'actions/views/saved_searches';
+import {getSavedSearchAlerts, getSavedSearchesForCurrentTeam} from 'selectors/views/saved_searches';
+
+import type {SavedSearch} from 'types/store/saved_searches';
+
+import './saved_searches.scss';
+
+type Props = {
+    onRun: (search: SavedSearch) => void;
+};
+
+// Keep the search box focused while the list is used so that the dropdown which it's in stays open
+const preventBlur = (e: React.MouseEvent) => e.preventDefault();
+
+const SavedSearchList = ({onRun}: Props) => {
+    const {formatMessage} = useIntl();
+    const dispatch = useDispatch();
+
+    const searches = useSelector(getSavedSearchesForCurrentTeam);
+    const alerts = useSelector(getSavedSearchAlerts);
+
+    if (searches.length === 0) {
+        return null;
+    }
+
+    return (
+        <div
+            className='SavedSearchList'
+            onMouseDown={preventBlur}
+        >
+            <h4 className='search-hint__title'>
+                <FormattedMessage
+                    id='saved_searches.title'
+                    defaultMessage='Saved searches'
+                />
+            </h4>
+            <ul className='SavedSearchList__list'>
+                {searches.map((search) => (
+                    <li
+                        key={search.id}
+                        className='SavedSearchList__item'
+                    >
+                        <button
+                            type='button'
+                            className='SavedSearchList__run'
+                            onClick={() => onRun(search)}
+                        >
+                            <span className='SavedSearchList__name'>{search.name}</span>
+                            <span className='SavedSearchList__terms'>{search.params.terms}</span>
+                        </button>
+                        {Boolean(alerts[search.id]) && (
+                            <span className='badge SavedSearchList__badge'>
+                                {alerts[search.id]}
+                            </span>
+                        )}
+                        <button
+                            type='button'
+                            className={classNames('SavedSearchList__action', {'SavedSearchList__action--active': search.subscribed})}
+                            onClick={() => dispatch(setSavedSearchSubscribed(search.id, !search.subscribed))}
+                            aria-label={search.subscribed ? formatMessage({id: 'saved_searches.unsubscribe', defaultMessage: 'Stop notifying me about new results'}) : formatMessage({id: 'saved_searches.subscribe', defaultMessage: 'Notify me about new results'})}
+                            aria-pressed={search.subscribed}
+                        >
+                            <i className={search.subscribed ? 'icon icon-bell-ring-outline' : 'icon icon-bell-outline'}/>
+                        </button>
+                        <button
+                            type='button'
+                            className='SavedSearchList__action'
+                            onClick={() => dispatch(deleteSavedSearch(search.id))}
+                            aria-label={formatMessage({id: 'saved_searches.delete', defaultMessage: 'Delete saved search'})}
+                        >
+                            <i className='icon icon-trash-can-outline'/>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default memo(SavedSearchList);
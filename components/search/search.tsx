@@ -20,6 +20,8 @@ import MentionsIcon from 'components/widgets/icons/mentions_icon';
 import SearchIcon from 'components/widgets/icons/search_icon';
 import Popover from 'components/widgets/popover';
 
+import {SavedSearchList, SaveSearchForm} from 'components/search/saved_searches';
+import SearchQueryBuilder from 'components/search/search_query_builder';
 import UserGuideDropdown from 'components/search/user_guide_dropdown';
 import SearchBar from 'components/search_bar/search_bar';
 import SearchResults from 'components/search_results';
@@ -27,7 +29,9 @@ import Provider from 'components/suggestion/provider';
 import SearchDateProvider from 'components/suggestion/search_date_provider';
 import SearchChannelProvider from 'components/suggestion/search_channel_provider';
 import SearchUserProvider from 'components/suggestion/search_user_provider';
+import {getSavedSearchAlertCount} from 'selectors/views/saved_searches';
 import type {SearchType} from 'types/store/rhs';
+import type {SavedSearch} from 'types/store/saved_searches';
 
 import type {Props, SearchFilterType} from './types';
 
@@ -83,6 +87,7 @@ const Search: React.FC<Props> = (props: Props): JSX.Element => {
 
     const intl = useIntl();
     const currentChannelName = useSelector(getCurrentChannelNameForSearchShortcut);
+    const savedSearchAlertCount = useSelector(getSavedSearchAlertCount);
 
     // generate intial component state and setters
     const [focused, setFocused] = useState<boolean>(false);
@@ -195,6 +200,20 @@ const Search: React.FC<Props> = (props: Props): JSX.Element => {
         actions.updateSearchTerms(term);
     };
 
+    // search again right away when a filter is added or removed while the results are shown
+    const handleQueryBuilderChange = (terms: string): void => {
+        actions.updateSearchTerms(terms);
+        if (terms.trim()) {
+            actions.showSearchResults(false);
+        }
+    };
+
+    const handleRunSavedSearch = (search: SavedSearch): void => {
+        setKeepInputFocused(false);
+        setFocused(false);
+        actions.runSavedSearch(search);
+    };
+
     // call this function without parameters to reset `SearchHint`
     const updateHighlightedSearchHint = (indexDelta = 0, changedViaKeyPress = false): void => {
         if (Math.abs(indexDelta) > 1) {
@@ -412,6 +431,7 @@ const Search: React.FC<Props> = (props: Props): JSX.Element => {
                 placement='bottom'
                 className={helpClass}
             >
+                {!searchTerms.trim() && <SavedSearchList onRun={handleRunSavedSearch}/>}
                 <SearchHint
                     options={visibleSearchHintOptions}
                     withTitle={true}
@@ -461,6 +481,14 @@ const Search: React.FC<Props> = (props: Props): JSX.Element => {
             >
                 {!props.isMobileView && renderHintPopover()}
             </SearchBar>
+            {savedSearchAlertCount > 0 && (
+                <span
+                    className='badge SavedSearches__badge'
+                    title={intl.formatMessage({id: 'saved_searches.newResults', defaultMessage: 'New results for your saved searches'})}
+                >
+                    {savedSearchAlertCount}
+                </span>
+            )}
         </>
     );
 
@@ -495,6 +523,8 @@ const Search: React.FC<Props> = (props: Props): JSX.Element => {
         );
     }
 
+    const isSearchingTerms = props.searchVisible && !props.isMentionSearch && !props.isFlaggedPosts && !props.isPinnedPosts && !props.isChannelFiles;
+
     return (
         <div className='sidebar--right__content'>
             <div className='search-bar__container channel-header alt'>
@@ -505,6 +535,14 @@ const Search: React.FC<Props> = (props: Props): JSX.Element => {
                     <UserGuideDropdown/>
                 </div>
             </div>
+            {isSearchingTerms && (
+                <SearchQueryBuilder
+                    searchTerms={searchTerms}
+                    onChange={handleQueryBuilderChange}
+                >
+                    <SaveSearchForm searchTerms={searchTerms}/>
+                </SearchQueryBuilder>
+            )}
             {props.searchVisible ? (
                 <SearchResults
                     isMentionSearch={props.isMentionSearch}
@@ -0,0 +1,74 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import {mountWithIntl} from 'tests/helpers/intl-test-helper';
+
+import SearchQueryBuilder from './search_query_builder';
+
+describe('components/search/SearchQueryBuilder', () => {
+    const baseProps = {
+        searchTerms: 'deploy from:ci-bot -in:town-square "build failed" -flaky',
+        onChange: jest.fn(),
+    };
+
+    test('should show a chip for each filter but not for the words searched for', () => {
+        const wrapper = mountWithIntl(<SearchQueryBuilder {...baseProps}/>);
+
+        const chips = wrapper.find('.SearchQueryBuilder__chip');
+        expect(chips).toHaveLength(4);
+        expect(chips.at(0).text()).toContain('@ci-bot');
+        expect(chips.at(1).text()).toContain('Not in');
+        expect(chips.at(1).text()).toContain('~town-square');
+        expect(chips.at(2).text()).toContain('"build failed"');
+        expect(chips.at(3).text()).toContain('Excluding');
+        expect(wrapper.text()).not.toContain('deploy');
+    });
+
+    test('should remove a filter from the search terms', () => {
+        const onChange = jest.fn();
+        const wrapper = mountWithIntl(
+            <SearchQueryBuilder
+                {...baseProps}
+                onChange={onChange}
+            />,
+        );
+
+        wrapper.find('.SearchQueryBuilder__remove').at(1).simulate('click');
+
+        expect(onChange).toHaveBeenCalledWith('deploy from:ci-bot "build failed" -flaky');
+    });
+
+    test('should add a filter to the search terms', () => {
+        const onChange = jest.fn();
+        const wrapper = mountWithIntl(
+            <SearchQueryBuilder
+                searchTerms='deploy'
+                onChange={onChange}
+            />,
+        );
+
+        wrapper.find('.SearchQueryBuilder__addFilter').simulate('click');
+        wrapper.find('select').simulate('change', {target: {value: 'ext'}});
+        wrapper.find('input[type="text"]').simulate('change', {target: {value: '.PDF'}});
+        wrapper.find('input[type="checkbox"]').simulate('change', {target: {checked: true}});
+        wrapper.find('form').simulate('submit');
+
+        expect(onChange).toHaveBeenCalledWith('deploy -ext:pdf');
+        expect(wrapper.find('form').exists()).toBe(false);
+    });
+
+    test('should not offer filters which the server can\'t search for', () => {
+        const wrapper = mountWithIntl(
+            <SearchQueryBuilder
+                searchTerms=''
+                onChange={jest.fn()}
+            />,
+        );
+
+        wrapper.find('.SearchQueryBuilder__addFilter').simulate('click');
+
+        expect(wrapper.find('option').map((option) => option.prop('value'))).toEqual(['from', 'in', 'on', 'before', 'after', 'ext', 'phrase', 'word']);
+    });
+});
@@ -0,0 +1,231 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {ChangeEvent, FormEvent, memo, useMemo, useState} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+
+import {t} from 'utils/i18n';
+import {
+    SearchQueryPart,
+    SearchQueryPartType,
+    addSearchQueryPart,
+    isSearchQueryFilter,
+    parseSearchQuery,
+    removeSearchQueryPart,
+} from 'utils/search_query';
+
+import './search_query_builder.scss';
+
+type Props = {
+    searchTerms: string;
+
+    // onChange is called with the new search terms when a filter is added or removed
+    onChange: (searchTerms: string) => void;
+
+    // children are shown at the end of the filters for other actions on the search
+    children?: React.ReactNode;
+};
+
+// The kinds of filters which can be added, in the order in which they're offered. Words can only be added to be
+// excluded since the rest of them are typed into the search box.
+const FILTER_TYPES: SearchQueryPartType[] = ['from', 'in', 'on', 'before', 'after', 'ext', 'phrase', 'word'];
+
+// Filters which can also be used to leave posts out of the results
+const EXCLUDABLE_TYPES: SearchQueryPartType[] = ['from', 'in', 'ext', 'phrase'];
+
+const DATE_TYPES: SearchQueryPartType[] = ['on', 'before', 'after'];
+
+const filterLabels: Record<SearchQueryPartType, {id: string; defaultMessage: string}> = {
+    from: {id: t('search_query_builder.from'), defaultMessage: 'From'},
+    in: {id: t('search_query_builder.in'), defaultMessage: 'In'},
+    on: {id: t('search_query_builder.on'), defaultMessage: 'On'},
+    before: {id: t('search_query_builder.before'), defaultMessage: 'Before'},
+    after: {id: t('search_query_builder.after'), defaultMessage: 'After'},
+    ext: {id: t('search_query_builder.ext'), defaultMessage: 'File extension'},
+    phrase: {id: t('search_query_builder.phrase'), defaultMessage: 'Exact phrase'},
+    word: {id: t('search_query_builder.word'), defaultMessage: 'Excluding'},
+};
+
+function formatChipValue(part: SearchQueryPart) {
+    switch (part.type) {
+    case 'from':
+        return `@${part.value}`;
+    case 'in':
+        return `~${part.value}`;
+    case 'phrase':
+        return `"${part.value}"`;
+    default:
+        return part.value;
+    }
+}
+
+const SearchQueryBuilder = ({searchTerms, onChange, children}: Props) => {
+    const {formatMessage} = useIntl();
+
+    const [adding, setAdding] = useState(false);
+    const [type, setType] = useState<SearchQueryPartType>('from');
+    const [value, setValue] = useState('');
+    const [excluded, setExcluded] = useState(false);
+
+    // Keep each filter's position in the whole query so that it can be removed again
+    const filters = useMemo(() => parseSearchQuery(searchTerms).
+        map((part, index) => ({part, index})).
+        filter(({part}) => isSearchQueryFilter(part)), [searchTerms]);
+
+    const handleRemove = (e: React.MouseEvent<HTMLButtonElement>) => {
+        onChange(removeSearchQueryPart(searchTerms, parseInt(e.currentTarget.value, 10)));
+    };
+
+    const handleStartAdding = () => {
+        setAdding(true);
+    };
+
+    const handleCancel = () => {
+        setAdding(false);
+        setValue('');
+        setExcluded(false);
+    };
+
+    const handleTypeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+        const newType = e.target.value as SearchQueryPartType;
+
+        setType(newType);
+        setValue('');
+        setExcluded(false);
+    };
+
+    const handleValueChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setValue(e.target.value);
+    };
+
+    const handleExcludedChange = (e: ChangeEvent<HTMLInputElement>) => {
+        setExcluded(e.target.checked);
+    };
+
+    const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        onChange(addSearchQueryPart(searchTerms, {
+            type,
+            value,
+            excluded: type === 'word' || (excluded && EXCLUDABLE_TYPES.includes(type)),
+        }));
+        handleCancel();
+    };
+
+    return (
+        <div className='SearchQueryBuilder'>
+            {filters.length > 0 && (
+                <ul className='SearchQueryBuilder__chips'>
+                    {filters.map(({part, index}) => (
+                        <li
+                            key={`${index}-${part.type}-${part.value}`}
+                            className='SearchQueryBuilder__chip'
+                        >
+                            <span className='SearchQueryBuilder__chipLabel'>
+                                {part.excluded && part.type !== 'word' ? (
+                                    <FormattedMessage
+                                        id='search_query_builder.excluded'
+                                        defaultMessage='Not {filter}'
+                                        values={{filter: formatMessage(filterLabels[part.type]).toLowerCase()}}
+                                    />
+                                ) : (
+                                    <FormattedMessage {...filterLabels[part.type]}/>
+                                )}
+                            </span>
+                            <span className='SearchQueryBuilder__chipValue'>
+                                {formatChipValue(part)}
+                            </span>
+                            <button
+                                type='button'
+                                className='SearchQueryBuilder__remove'
+                                value={index}
+                                onClick={handleRemove}
+                                aria-label={formatMessage({id: 'search_query_builder.remove', defaultMessage: 'Remove filter'})}
+                            >
+                                <i className='icon icon-close'/>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {adding ? (
+                <form
+                    className='SearchQueryBuilder__form'
+                    onSubmit={handleSubmit}
+                >
+                    <select
+                        className='form-control'
+                        value={type}
+                        onChange={handleTypeChange}
+                        aria-label={formatMessage({id: 'search_query_builder.type', defaultMessage: 'Filter'})}
+                    >
+                        {FILTER_TYPES.map((filterType) => (
+                            <option
+                                key={filterType}
+                                value={filterType}
+                            >
+                                {formatMessage(filterLabels[filterType])}
+                            </option>
+                        ))}
+                    </select>
+                    <input
+                        type={DATE_TYPES.includes(type) ? 'date' : 'text'}
+                        className='form-control'
+                        value={value}
+                        onChange={handleValueChange}
+                        aria-label={formatMessage({id: 'search_query_builder.value', defaultMessage: 'Filter value'})}
+                    />
+                    {EXCLUDABLE_TYPES.includes(type) && (
+                        <label className='SearchQueryBuilder__exclude'>
+                            <input
+                                type='checkbox'
+                                checked={excluded}
+                                onChange={handleExcludedChange}
+                            />
+                            <FormattedMessage
+                                id='search_query_builder.exclude'
+                                defaultMessage='Exclude'
+                            />
+                        </label>
+                    )}
+                    <button
+                        type='submit'
+                        className='btn btn-primary btn-sm'
+                        disabled={!value.trim()}
+                    >
+                        <FormattedMessage
+                            id='search_query_builder.add'
+                            defaultMessage='Add'
+                        />
+                    </button>
+                    <button
+                        type='button'
+                        className='btn btn-link btn-sm'
+                        onClick={handleCancel}
+                    >
+                        <FormattedMessage
+                            id='search_query_builder.cancel'
+                            defaultMessage='Cancel'
+                        />
+                    </button>
+                </form>
+            ) : (
+                <button
+                    type='button'
+                    className='SearchQueryBuilder__addFilter btn btn-link'
+                    onClick={handleStartAdding}
+                >
+                    <i className='icon icon-plus'/>
+                    <FormattedMessage
+                        id='search_query_builder.addFilter'
+                        defaultMessage='Add filter'
+                    />
+                </button>
+            )}
+            {!adding && children}
+        </div>
+    );
+};
+
+export default memo(SearchQueryBuilder);
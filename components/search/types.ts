@@ -8,6 +8,7 @@ import {ActionFunc, DispatchFunc} from 'mattermost-redux/types/actions';
 import {Channel} from 'mattermost-redux/types/channels';
 
 import {SearchType} from 'types/store/rhs';
+import type {SavedSearch} from 'types/store/saved_searches';
 
 export type SearchFilterType = 'all' | 'documents' | 'spreadsheets' | 'presentations' | 'code' | 'images' | 'audio' | 'video';
 
@@ -54,6 +55,7 @@ export type DispatchProps = {
         openRHSSearch: () => void;
         getMoreFilesForSearch: () => ActionFunc;
         filterFilesSearchByExt: (extensions: string[]) => void;
+        runSavedSearch: (search: SavedSearch) => void;
     };
 }
 
@@ -12,10 +12,14 @@ describe('components/search_results/MessagesOrFilesSelector', () => {
             <MessagesOrFilesSelector
                 selected='messages'
                 selectedFilter='code'
+                sort='relevance'
+                grouping='channel'
                 messagesCounter='5'
                 filesCounter='10'
                 onChange={jest.fn()}
                 onFilter={jest.fn()}
+                onSort={jest.fn()}
+                onGroup={jest.fn()}
             />,
         );
 
@@ -27,10 +31,14 @@ describe('components/search_results/MessagesOrFilesSelector', () => {
             <MessagesOrFilesSelector
                 selected='files'
                 selectedFilter='code'
+                sort='relevance'
+                grouping='channel'
                 messagesCounter='5'
                 filesCounter='10'
                 onChange={jest.fn()}
                 onFilter={jest.fn()}
+                onSort={jest.fn()}
+                onGroup={jest.fn()}
             />,
         );
 
@@ -5,12 +5,13 @@ import React from 'react';
 import {FormattedMessage} from 'react-intl';
 
 import {SearchFilterType} from '../search/types';
-import {SearchType} from 'types/store/rhs';
+import {SearchResultsGrouping, SearchResultsSort, SearchType} from 'types/store/rhs';
 
 import * as Utils from 'utils/utils.jsx';
 import Constants from 'utils/constants';
 
 import FilesFilterMenu from './files_filter_menu';
+import SearchResultsOrderMenu from './search_results_order_menu';
 
 const {KeyCodes} = Constants;
 
@@ -19,10 +20,14 @@ import './messages_or_files_selector.scss';
 type Props = {
     selected: string;
     selectedFilter: SearchFilterType;
+    sort: SearchResultsSort;
+    grouping: SearchResultsGrouping;
     messagesCounter: string;
     filesCounter: string;
     onChange: (value: SearchType) => void;
     onFilter: (filter: SearchFilterType) => void;
+    onSort: (sort: SearchResultsSort) => void;
+    onGroup: (grouping: SearchResultsGrouping) => void;
 };
 
 export default function MessagesOrFilesSelector(props: Props): JSX.Element {
@@ -57,6 +62,13 @@ export default function MessagesOrFilesSelector(props: Props): JSX.Element {
                     selectedFilter={props.selectedFilter}
                     onFilter={props.onFilter}
                 />}
+            {props.selected === 'messages' &&
+                <SearchResultsOrderMenu
+                    sort={props.sort}
+                    grouping={props.grouping}
+                    onSort={props.onSort}
+                    onGroup={props.onGroup}
+                />}
         </div>
     );
 }
@@ -0,0 +1,160 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo, useState} from 'react';
+import {FormattedMessage} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {getPost} from 'mattermost-redux/selectors/entities/posts';
+import {getTeammateNameDisplaySetting} from 'mattermost-redux/selectors/entities/preferences';
+import {getUser} from 'mattermost-redux/selectors/entities/users';
+import {Post} from 'mattermost-redux/types/posts';
+import {displayUsername} from 'mattermost-redux/utils/user_utils';
+
+import {getSearchResultContext} from 'actions/views/rhs';
+
+import Markdown from 'components/markdown';
+import Timestamp from 'components/timestamp';
+import LoadingSpinner from 'components/widgets/loading/loading_spinner';
+
+import {GlobalState} from 'types/store';
+
+import './search_result_context.scss';
+
+type Props = {
+    post: Post;
+
+    // children is the search result itself which the surrounding messages are shown around
+    children: React.ReactNode;
+};
+
+type Context = {
+    before: Array<Post['id']>;
+    after: Array<Post['id']>;
+};
+
+function ContextPost({postId}: {postId: Post['id']}) {
+    const post = useSelector((state: GlobalState) => getPost(state, postId));
+    const authorName = useSelector((state: GlobalState) => {
+        return post ? displayUsername(getUser(state, post.user_id), getTeammateNameDisplaySetting(state)) : '';
+    });
+
+    if (!post) {
+        return null;
+    }
+
+    return (
+        <li className='SearchResultContext__post'>
+            <div className='SearchResultContext__header'>
+                <span className='SearchResultContext__author'>
+                    {post.props?.override_username || authorName}
+                </span>
+                <Timestamp value={post.create_at}/>
+            </div>
+            <div className='SearchResultContext__message'>
+                <Markdown
+                    message={post.message}
+                    postId={post.id}
+                />
+            </div>
+        </li>
+    );
+}
+
+function renderContextPosts(postIds: Array<Post['id']>) {
+    if (postIds.length === 0) {
+        return null;
+    }
+
+    return (
+        <ul className='SearchResultContext__posts'>
+            {postIds.map((postId) => (
+                <ContextPost
+                    key={postId}
+                    postId={postId}
+                />
+            ))}
+        </ul>
+    );
+}
+
+// SearchResultContext lets a search result be expanded to show the messages posted around it in its channel
+function SearchResultContext({post, children}: Props) {
+    const dispatch = useDispatch();
+
+    const [expanded, setExpanded] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const [context, setContext] = useState<Context | null>(null);
+
+    const loadContext = async () => {
+        setLoading(true);
+        setFailed(false);
+
+        const {data, error} = await dispatch(getSearchResultContext(post)) as {data?: Context; error?: Error};
+
+        setLoading(false);
+        if (error) {
+            setFailed(true);
+        } else if (data) {
+            setContext(data);
+        }
+    };
+
+    const handleToggle = () => {
+        if (!expanded && !context && !loading) {
+            loadContext();
+        }
+
+        setExpanded(!expanded);
+    };
+
+    let toggleMessage;
+    if (expanded) {
+        toggleMessage = (
+            <FormattedMessage
+                id='search_results.context.hide'
+                defaultMessage='Hide surrounding messages'
+            />
+        );
+    } else {
+        toggleMessage = (
+            <FormattedMessage
+                id='search_results.context.show'
+                defaultMessage='Show surrounding messages'
+            />
+        );
+    }
+
+    return (
+        <div className={expanded ? 'SearchResultContext SearchResultContext--expanded' : 'SearchResultContext'}>
+            {expanded && context && renderContextPosts(context.before)}
+            {children}
+            {expanded && context && renderContextPosts(context.after)}
+            {expanded && loading && (
+                <div className='SearchResultContext__loading'>
+                    <LoadingSpinner/>
+                </div>
+            )}
+            {expanded && failed && (
+                <div className='SearchResultContext__error'>
+                    <FormattedMessage
+                        id='search_results.context.error'
+                        defaultMessage="Couldn't load the surrounding messages."
+                    />
+                </div>
+            )}
+            <button
+                type='button'
+                className='SearchResultContext__toggle btn btn-link'
+                onClick={handleToggle}
+                aria-expanded={expanded}
+            >
+                <i className={expanded ? 'icon icon-chevron-up' : 'icon icon-chevron-down'}/>
+                {toggleMessage}
+            </button>
+        </div>
+    );
+}
+
+export default memo(SearchResultContext);
@@ -4,7 +4,7 @@
 
 import React, {useEffect, useRef, useState} from 'react';
 import {MessageDescriptor, useIntl, FormattedMessage} from 'react-intl';
-import {useSelector} from 'react-redux';
+import {useDispatch, useSelector} from 'react-redux';
 import Scrollbars from 'react-custom-scrollbars';
 
 import classNames from 'classnames';
@@ -13,10 +13,13 @@ import {debounce} from 'mattermost-redux/actions/helpers';
 import {FileSearchResultItem as FileSearchResultItemType} from 'mattermost-redux/types/files';
 import {Post} from 'mattermost-redux/types/posts';
 
+import {updateSearchResultsGrouping, updateSearchResultsSort} from 'actions/views/rhs';
 import {getFilesDropdownPluginMenuItems} from 'selectors/plugins';
+import {getSearchResultsGrouping, getSearchResultsSort} from 'selectors/rhs';
 
 import * as Utils from 'utils/utils.jsx';
 import {searchHintOptions} from 'utils/constants';
+import {groupSearchResults, sortSearchResults} from 'utils/search_results';
 
 import SearchResultsHeader from 'components/search_results_header';
 import SearchResultsItem from 'components/search_results_item';
@@ -30,6 +33,8 @@ import {NoResultsVariant} from 'components/no_results_indicator/types';
 
 import MessageOrFileSelector from './messages_or_files_selector';
 import FilesFilterMenu from './files_filter_menu';
+import SearchResultContext from './search_result_context';
+import SearchResultsGroupHeader from './search_results_group_header';
 
 import './search_results.scss';
 
@@ -77,6 +82,9 @@ const SearchResults: React.FC<Props> = (props: Props): JSX.Element => {
     const scrollbars = useRef<Scrollbars|null>(null);
     const [searchType, setSearchType] = useState<string>(props.searchType);
     const filesDropdownPluginMenuItems = useSelector(getFilesDropdownPluginMenuItems);
+    const sort = useSelector(getSearchResultsSort);
+    const grouping = useSelector(getSearchResultsGrouping);
+    const dispatch = useDispatch();
     const intl = useIntl();
 
     useEffect(() => {
@@ -220,6 +228,42 @@ const SearchResults: React.FC<Props> = (props: Props): JSX.Element => {
         updateSearchTerms(term);
     };
 
+    // Message search results can be sorted and grouped, and each one shows the messages around it when expanded
+    const renderMessageResults = () => {
+        return groupSearchResults(sortSearchResults(results, sort, props.matches), grouping).map((group, groupIndex, groups) => {
+            const firstIndex = groups.slice(0, groupIndex).reduce((count, previous) => count + previous.posts.length, 0);
+
+            return (
+                <React.Fragment key={group.id}>
+                    {group.id && (
+                        <SearchResultsGroupHeader
+                            grouping={grouping}
+                            id={group.id}
+                            count={group.posts.length}
+                        />
+                    )}
+                    {group.posts.map((post, index) => (
+                        <SearchResultContext
+                            key={post.id}
+                            post={post}
+                        >
+                            <SearchResultsItem
+                                compactDisplay={props.compactDisplay}
+                                post={post}
+                                matches={props.matches[post.id]}
+                                term={searchTerms}
+                                isMentionSearch={props.isMentionSearch}
+                                a11yIndex={firstIndex + index}
+                                isFlaggedPosts={props.isFlaggedPosts}
+                                isPinnedPosts={props.isPinnedPosts}
+                            />
+                        </SearchResultContext>
+                    ))}
+                </React.Fragment>
+            );
+        });
+    };
+
     switch (true) {
     case isLoading:
         contentItems = (
@@ -269,7 +313,7 @@ const SearchResults: React.FC<Props> = (props: Props): JSX.Element => {
             sortedResults = fileResults;
         }
 
-        contentItems = sortedResults.map((item: Post|FileSearchResultItemType, index: number) => {
+        contentItems = (isMessagesSearch && searchType === MESSAGES_SEARCH_TYPE) ? renderMessageResults() : sortedResults.map((item: Post|FileSearchResultItemType, index: number) => {
             if (searchType === MESSAGES_SEARCH_TYPE && !props.isChannelFiles) {
                 return (
                     <SearchResultsItem
@@ -324,6 +368,10 @@ const SearchResults: React.FC<Props> = (props: Props): JSX.Element => {
                     filesCounter={isSearchFilesAtEnd || props.searchPage === 0 ? `${fileResults.length}` : `${fileResults.length}+`}
                     onChange={setSearchType}
                     onFilter={setSearchFilterType}
+                    sort={sort}
+                    grouping={grouping}
+                    onSort={(newSort) => dispatch(updateSearchResultsSort(newSort))}
+                    onGroup={(newGrouping) => dispatch(updateSearchResultsGrouping(newGrouping))}
                 />}
             {isChannelFiles &&
                 <div className='channel-files__header'>
@@ -0,0 +1,71 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo} from 'react';
+import {FormattedMessage} from 'react-intl';
+import {useSelector} from 'react-redux';
+
+import {makeGetChannel} from 'mattermost-redux/selectors/entities/channels';
+import {getPost} from 'mattermost-redux/selectors/entities/posts';
+
+import {GlobalState} from 'types/store';
+import {SearchResultsGrouping} from 'types/store/rhs';
+
+// The most characters of a root post which are shown to tell threads apart
+const MAX_THREAD_TITLE_LENGTH = 80;
+
+const getChannel = makeGetChannel();
+
+type Props = {
+    grouping: SearchResultsGrouping;
+
+    // id is the ID of the channel or of the root post of the thread that the results are in
+    id: string;
+    count: number;
+};
+
+function SearchResultsGroupHeader({grouping, id, count}: Props) {
+    const title = useSelector((state: GlobalState) => {
+        if (grouping === 'channel') {
+            return getChannel(state, {id})?.display_name || '';
+        }
+
+        const message = getPost(state, id)?.message || '';
+        return message.length > MAX_THREAD_TITLE_LENGTH ? `${message.substring(0, MAX_THREAD_TITLE_LENGTH)}...` : message;
+    });
+
+    let label;
+    if (grouping === 'channel') {
+        label = title;
+    } else if (title) {
+        label = (
+            <FormattedMessage
+                id='search_results.group.threadTitle'
+                defaultMessage='Thread: {title}'
+                values={{title}}
+            />
+        );
+    } else {
+        label = (
+            <FormattedMessage
+                id='search_results.group.untitledThread'
+                defaultMessage='Thread'
+            />
+        );
+    }
+
+    return (
+        <div className='SearchResults__groupHeader'>
+            <span className='SearchResults__groupTitle'>{label}</span>
+            <span className='SearchResults__groupCount'>
+                <FormattedMessage
+                    id='search_results.group.count'
+                    defaultMessage='{count, plural, =1 {# result} other {# results}}'
+                    values={{count}}
+                />
+            </span>
+        </div>
+    );
+}
+
+export default memo(SearchResultsGroupHeader);
@@ -0,0 +1,77 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {useIntl} from 'react-intl';
+
+import Menu from 'components/widgets/menu/menu';
+import MenuWrapper from 'components/widgets/menu/menu_wrapper';
+
+import {t} from 'utils/i18n';
+
+import {SearchResultsGrouping, SearchResultsSort} from 'types/store/rhs';
+
+import './files_filter_menu.scss';
+
+type Props = {
+    sort: SearchResultsSort;
+    grouping: SearchResultsGrouping;
+    onSort: (sort: SearchResultsSort) => void;
+    onGroup: (grouping: SearchResultsGrouping) => void;
+};
+
+const sortOptions: Array<{value: SearchResultsSort; id: string; defaultMessage: string}> = [
+    {value: 'newest', id: t('search_results.sort.newest'), defaultMessage: 'Newest first'},
+    {value: 'oldest', id: t('search_results.sort.oldest'), defaultMessage: 'Oldest first'},
+    {value: 'relevance', id: t('search_results.sort.relevance'), defaultMessage: 'Most relevant first (loaded results only)'},
+];
+
+const groupingOptions: Array<{value: SearchResultsGrouping; id: string; defaultMessage: string}> = [
+    {value: 'none', id: t('search_results.group.none'), defaultMessage: 'Don\'t group'},
+    {value: 'channel', id: t('search_results.group.channel'), defaultMessage: 'Group by channel'},
+    {value: 'thread', id: t('search_results.group.thread'), defaultMessage: 'Group by thread'},
+];
+
+export default function SearchResultsOrderMenu(props: Props): JSX.Element {
+    const {formatMessage} = useIntl();
+
+    return (
+        <div className='SearchResultsOrderMenu'>
+            <MenuWrapper>
+                <span className='action-icon dots-icon'>
+                    {(props.sort !== 'newest' || props.grouping !== 'none') && <i className='icon-dot'/>}
+                    <i className='icon icon-format-list-bulleted'/>
+                </span>
+                <Menu
+                    ariaLabel={formatMessage({id: 'search_results.order_menu', defaultMessage: 'Sort and group results'})}
+                    openLeft={true}
+                >
+                    <Menu.Group>
+                        {sortOptions.map(({value, id, defaultMessage}) => (
+                            <Menu.ItemAction
+                                key={value}
+                                id={`searchResultsSort_${value}`}
+                                ariaLabel={formatMessage({id, defaultMessage})}
+                                text={formatMessage({id, defaultMessage})}
+                                onClick={() => props.onSort(value)}
+                                icon={props.sort === value ? <i className='icon icon-check'/> : null}
+                            />
+                        ))}
+                    </Menu.Group>
+                    <Menu.Group>
+                        {groupingOptions.map(({value, id, defaultMessage}) => (
+                            <Menu.ItemAction
+                                key={value}
+                                id={`searchResultsGroup_${value}`}
+                                ariaLabel={formatMessage({id, defaultMessage})}
+                                text={formatMessage({id, defaultMessage})}
+                                onClick={() => props.onGroup(value)}
+                                icon={props.grouping === value ? <i className='icon icon-check'/> : null}
+                            />
+                        ))}
+                    </Menu.Group>
+                </Menu>
+            </MenuWrapper>
+        </div>
+    );
+}
@@ -12,7 +12,8 @@ import QuickSwitchModal from 'components/quick_switch_modal';
 
 import {ModalData} from 'types/actions';
 
-import Constants, {ModalIdentifiers} from 'utils/constants';
+import {ModalIdentifiers} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils';
 
 import AddChannelDropdown from '../add_channel_dropdown';
@@ -68,24 +69,20 @@ export default class ChannelNavigator extends React.PureComponent<Props> {
     handleShortcut = (e: KeyboardEvent) => {
         const {actions: {closeModal}} = this.props;
 
-        if (Utils.cmdOrCtrlPressed(e) && e.shiftKey) {
-            if (Utils.isKeyPressed(e, Constants.KeyCodes.M)) {
-                e.preventDefault();
-                closeModal(ModalIdentifiers.QUICK_SWITCH);
-            }
-            if (Utils.isKeyPressed(e, Constants.KeyCodes.L)) {
-                // just close the modal if it's open, but let someone else handle the shortcut
-                closeModal(ModalIdentifiers.QUICK_SWITCH);
-            }
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.MENTIONS)) {
+            e.preventDefault();
+            closeModal(ModalIdentifiers.QUICK_SWITCH);
+        }
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.FOCUS_CENTER)) {
+            // just close the modal if it's open, but let someone else handle the shortcut
+            closeModal(ModalIdentifiers.QUICK_SWITCH);
         }
     };
 
     handleQuickSwitchKeyPress = (e: KeyboardEvent) => {
-        if (Utils.cmdOrCtrlPressed(e) && !e.shiftKey && Utils.isKeyPressed(e, Constants.KeyCodes.K)) {
-            if (!e.altKey) {
-                e.preventDefault();
-                this.toggleQuickSwitchModal();
-            }
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.SWITCHER)) {
+            e.preventDefault();
+            this.toggleQuickSwitchModal();
         }
     }
 
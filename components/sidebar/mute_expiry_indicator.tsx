@@ -0,0 +1,86 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {FormattedMessage} from 'react-intl';
+
+import OverlayTrigger from 'components/overlay_trigger';
+import Tooltip from 'components/tooltip';
+
+import Constants from 'utils/constants';
+import {getTimeRemaining} from 'utils/mute_expiry';
+
+type Props = {
+    id: string;
+
+    // The time at which the channel or category will be unmuted
+    expiresAt: number;
+};
+
+type State = {
+    now: number;
+};
+
+// MuteExpiryIndicator shows an icon next to a channel or category which is muted temporarily with a tooltip that counts
+// down until it's unmuted.
+export default class MuteExpiryIndicator extends React.PureComponent<Props, State> {
+    private interval?: number;
+
+    constructor(props: Props) {
+        super(props);
+
+        this.state = {
+            now: Date.now(),
+        };
+    }
+
+    componentWillUnmount() {
+        this.stopCountdown();
+    }
+
+    startCountdown = () => {
+        this.setState({now: Date.now()});
+
+        // Only update the time remaining while the tooltip is visible
+        this.stopCountdown();
+        this.interval = window.setInterval(() => this.setState({now: Date.now()}), 1000);
+    }
+
+    stopCountdown = () => {
+        window.clearInterval(this.interval);
+    }
+
+    render() {
+        const {hours, minutes} = getTimeRemaining(this.props.expiresAt, this.state.now);
+
+        const tooltip = (
+            <Tooltip id={`muteExpiryTooltip-${this.props.id}`}>
+                {hours > 0 ? (
+                    <FormattedMessage
+                        id='sidebar_left.mute_expiry.hours'
+                        defaultMessage='Unmutes in {hours}h {minutes}m'
+                        values={{hours, minutes}}
+                    />
+                ) : (
+                    <FormattedMessage
+                        id='sidebar_left.mute_expiry.minutes'
+                        defaultMessage='Unmutes in {minutes}m'
+                        values={{minutes}}
+                    />
+                )}
+            </Tooltip>
+        );
+
+        return (
+            <OverlayTrigger
+                delayShow={Constants.OVERLAY_TIME_DELAY}
+                placement='top'
+                overlay={tooltip}
+                onEnter={this.startCountdown}
+                onExit={this.stopCountdown}
+            >
+                <i className='icon icon-clock-outline MuteExpiryIndicator'/>
+            </OverlayTrigger>
+        );
+    }
+}
@@ -18,6 +18,7 @@ import Pluggable from 'plugins/pluggable';
 import {ModalData} from 'types/actions';
 
 import Constants, {ModalIdentifiers} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils';
 
 import KeyboardShortcutsModal from '../keyboard_shortcuts/keyboard_shortcuts_modal/keyboard_shortcuts_modal';
@@ -94,27 +95,23 @@ export default class Sidebar extends React.PureComponent<Props, State> {
             return;
         }
 
-        const ctrlOrMetaKeyPressed = Utils.cmdOrCtrlPressed(event, true);
-
-        if (ctrlOrMetaKeyPressed) {
-            if (Utils.isKeyPressed(event, Constants.KeyCodes.FORWARD_SLASH)) {
-                event.preventDefault();
-
-                this.props.actions.openModal({
-                    modalId: ModalIdentifiers.KEYBOARD_SHORTCUTS_MODAL,
-                    dialogType: KeyboardShortcutsModal,
-                });
-            } else if (Utils.isKeyPressed(event, Constants.KeyCodes.A) && event.shiftKey) {
-                event.preventDefault();
-
-                this.props.actions.openModal({
-                    modalId: ModalIdentifiers.USER_SETTINGS,
-                    dialogType: UserSettingsModal,
-                    dialogProps: {
-                        isContentProductSettings: true,
-                    },
-                });
-            }
+        if (Utils.isShortcutPressed(event, ShortcutActionIds.SHORTCUTS)) {
+            event.preventDefault();
+
+            this.props.actions.openModal({
+                modalId: ModalIdentifiers.KEYBOARD_SHORTCUTS_MODAL,
+                dialogType: KeyboardShortcutsModal,
+            });
+        } else if (Utils.isShortcutPressed(event, ShortcutActionIds.SETTINGS)) {
+            event.preventDefault();
+
+            this.props.actions.openModal({
+                modalId: ModalIdentifiers.USER_SETTINGS,
+                dialogType: UserSettingsModal,
+                dialogProps: {
+                    isContentProductSettings: true,
+                },
+            });
         }
     }
 
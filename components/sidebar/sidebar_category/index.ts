@@ -8,10 +8,12 @@ import {setCategoryCollapsed, setCategorySorting} from 'mattermost-redux/actions
 import {GenericAction} from 'mattermost-redux/types/actions';
 import {savePreferences} from 'mattermost-redux/actions/preferences';
 import {ChannelCategory} from 'mattermost-redux/types/channel_categories';
+import {getCategoryMuteExpiry, getCategoryRules} from 'mattermost-redux/selectors/entities/channel_categories';
 import {getBool} from 'mattermost-redux/selectors/entities/preferences';
 import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
 import {Preferences, Touched} from 'utils/constants';
 
+import {loadGroupMembersForCategoryRules} from 'actions/views/channel_sidebar';
 import {getDraggingState, makeGetFilteredChannelIdsForCategory} from 'selectors/views/channel_sidebar';
 import {GlobalState} from 'types/store';
 
@@ -30,6 +32,8 @@ function makeMapStateToProps() {
             draggingState: getDraggingState(state),
             touchedInviteMembersButton: getBool(state, Preferences.TOUCHED, Touched.INVITE_MEMBERS),
             currentUserId: getCurrentUserId(state),
+            rules: getCategoryRules(state, ownProps.category.id),
+            muteExpiresAt: getCategoryMuteExpiry(state, ownProps.category.id),
         };
     };
 }
@@ -40,6 +44,7 @@ function mapDispatchToProps(dispatch: Dispatch<GenericAction>) {
             setCategoryCollapsed,
             setCategorySorting,
             savePreferences,
+            loadGroupMembersForCategoryRules,
         }, dispatch),
     };
 }
@@ -8,6 +8,7 @@ import {CategoryTypes} from 'mattermost-redux/constants/channel_categories';
 import {CategorySorting} from 'mattermost-redux/types/channel_categories';
 
 import SidebarCategory from 'components/sidebar/sidebar_category/sidebar_category';
+import {DraggingStateTypes} from 'utils/constants';
 
 describe('components/sidebar/sidebar_category', () => {
     const baseProps = {
@@ -33,10 +34,13 @@ describe('components/sidebar/sidebar_category', () => {
         limitVisibleDMsGMs: 10000,
         touchedInviteMembersButton: false,
         currentUserId: '',
+        rules: null,
+        muteExpiresAt: 0,
         actions: {
             setCategoryCollapsed: jest.fn(),
             setCategorySorting: jest.fn(),
             savePreferences: jest.fn(),
+            loadGroupMembersForCategoryRules: jest.fn(),
         },
     };
 
@@ -217,4 +221,25 @@ describe('components/sidebar/sidebar_category', () => {
         wrapper.instance().handleCollapse();
         expect(baseProps.actions.setCategoryCollapsed).toHaveBeenCalledWith(props.category.id, false);
     });
+
+    test('should not allow channels to be dragged into or out of a smart category', () => {
+        const rules = {match: 'all' as const, conditions: [{type: 'group_members' as const, group_id: 'group1'}]};
+        const props = {
+            ...baseProps,
+            rules,
+            draggingState: {type: DraggingStateTypes.CHANNEL},
+            actions: {
+                ...baseProps.actions,
+                loadGroupMembersForCategoryRules: jest.fn(),
+            },
+        };
+
+        const wrapper = shallow<SidebarCategory>(
+            <SidebarCategory {...props}/>,
+        );
+
+        expect(wrapper.instance().isDropDisabled()).toBe(true);
+        expect(wrapper.instance().renderChannel('channel_id', 0).props.isDraggable).toBe(false);
+        expect(props.actions.loadGroupMembersForCategoryRules).toHaveBeenCalledWith(rules);
+    });
 });
@@ -7,7 +7,7 @@ import {Draggable, Droppable} from 'react-beautiful-dnd';
 import classNames from 'classnames';
 
 import {CategoryTypes} from 'mattermost-redux/constants/channel_categories';
-import {ChannelCategory, CategorySorting} from 'mattermost-redux/types/channel_categories';
+import {ChannelCategory, CategorySorting, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
 import {PreferenceType} from 'mattermost-redux/types/preferences';
 import {localizeMessage} from 'mattermost-redux/utils/i18n_utils';
 import {trackEvent} from 'actions/telemetry_actions';
@@ -19,6 +19,7 @@ import {t} from 'utils/i18n';
 import {isKeyPressed} from 'utils/utils';
 import SidebarChannel from '../sidebar_channel';
 import {SidebarCategoryHeader} from '../sidebar_category_header';
+import MuteExpiryIndicator from '../mute_expiry_indicator';
 import InviteMembersButton from '../invite_members_button';
 import KeyboardShortcutSequence, {
     KEYBOARD_SHORTCUTS,
@@ -38,10 +39,18 @@ type Props = {
     draggingState: DraggingState;
     currentUserId: string;
     touchedInviteMembersButton: boolean;
+
+    // rules are set for smart categories whose channels are chosen automatically instead of by the user
+    rules: SmartCategoryRules | null;
+
+    // The time at which the category will be unmuted automatically or 0 if it's muted until the user unmutes it
+    muteExpiresAt: number;
+
     actions: {
         setCategoryCollapsed: (categoryId: string, collapsed: boolean) => void;
         setCategorySorting: (categoryId: string, sorting: CategorySorting) => void;
         savePreferences: (userId: string, preferences: PreferenceType[]) => void;
+        loadGroupMembersForCategoryRules: (rules: SmartCategoryRules) => void;
     };
 };
 
@@ -68,9 +77,17 @@ export default class SidebarCategory extends React.PureComponent<Props, State> {
         if (this.props.category.collapsed !== prevProps.category.collapsed && this.newDropBoxRef.current) {
             this.newDropBoxRef.current.classList.add('animating');
         }
+
+        if (this.props.rules && this.props.rules !== prevProps.rules) {
+            this.props.actions.loadGroupMembersForCategoryRules(this.props.rules);
+        }
     }
 
     componentDidMount() {
+        if (this.props.rules) {
+            this.props.actions.loadGroupMembersForCategoryRules(this.props.rules);
+        }
+
         // Refs can be null when this component is shallowly rendered for testing
         if (this.categoryTitleRef.current) {
             this.categoryTitleRef.current.addEventListener(A11yCustomEventTypes.ACTIVATE, this.handleA11yActivateEvent);
@@ -115,7 +132,8 @@ export default class SidebarCategory extends React.PureComponent<Props, State> {
                 isCategoryCollapsed={category.collapsed}
                 isCategoryDragged={draggingState.type === DraggingStateTypes.CATEGORY && draggingState.id === category.id}
                 isDropDisabled={this.isDropDisabled()}
-                isAutoSortedCategory={category.sorting === CategorySorting.Alphabetical || category.sorting === CategorySorting.Recency}
+                isDraggable={!this.props.rules}
+                isAutoSortedCategory={Boolean(this.props.rules) || category.sorting === CategorySorting.Alphabetical || category.sorting === CategorySorting.Recency}
             />
         );
     }
@@ -157,7 +175,12 @@ export default class SidebarCategory extends React.PureComponent<Props, State> {
     }
 
     isDropDisabled = () => {
-        const {draggingState, category} = this.props;
+        const {draggingState, category, rules} = this.props;
+
+        // Channels can't be added to a smart category by hand
+        if (rules) {
+            return draggingState.type === DraggingStateTypes.CHANNEL || draggingState.type === DraggingStateTypes.DM || draggingState.type === DraggingStateTypes.MIXED_CHANNELS;
+        }
 
         if (category.type === CategoryTypes.DIRECT_MESSAGES) {
             return draggingState.type === DraggingStateTypes.CHANNEL;
@@ -169,9 +192,9 @@ export default class SidebarCategory extends React.PureComponent<Props, State> {
     }
 
     renderNewDropBox = (isDraggingOver: boolean) => {
-        const {draggingState, category, isNewCategory, channelIds} = this.props;
+        const {draggingState, category, isNewCategory, channelIds, rules} = this.props;
 
-        if (!isNewCategory || channelIds?.length) {
+        if (!isNewCategory || channelIds?.length || rules) {
             return null;
         }
 
@@ -401,6 +424,12 @@ export default class SidebarCategory extends React.PureComponent<Props, State> {
                                                 muted={category.muted}
                                                 onClick={this.handleCollapse}
                                             >
+                                                {category.muted && this.props.muteExpiresAt > 0 && (
+                                                    <MuteExpiryIndicator
+                                                        id={category.id}
+                                                        expiresAt={this.props.muteExpiresAt}
+                                                    />
+                                                )}
                                                 {newLabel}
                                                 {directMessagesModalButton}
                                                 {categoryMenu}
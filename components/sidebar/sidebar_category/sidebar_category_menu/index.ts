@@ -5,10 +5,14 @@ import {connect} from 'react-redux';
 import {Dispatch, bindActionCreators, ActionCreatorsMapObject} from 'redux';
 
 import {setCategoryMuted, setCategorySorting} from 'mattermost-redux/actions/channel_categories';
+import {getCategoryMuteExpiry, getCategoryRules} from 'mattermost-redux/selectors/entities/channel_categories';
 import {getCurrentTeam} from 'mattermost-redux/selectors/entities/teams';
+import {getUserTimezone} from 'mattermost-redux/selectors/entities/timezone';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
 import {Action} from 'mattermost-redux/types/actions';
-import {CategorySorting} from 'mattermost-redux/types/channel_categories';
+import {CategorySorting, ChannelCategory} from 'mattermost-redux/types/channel_categories';
 import {GlobalState} from 'mattermost-redux/types/store';
+import {getUserCurrentTimezone} from 'mattermost-redux/utils/timezone_utils';
 
 import {openModal} from 'actions/views/modals';
 
@@ -16,19 +20,26 @@ import {ModalData} from 'types/actions';
 
 import SidebarCategoryMenu from './sidebar_category_menu';
 
+type OwnProps = {
+    category: ChannelCategory;
+}
+
 function makeMapStateToProps() {
-    return (state: GlobalState) => {
+    return (state: GlobalState, ownProps: OwnProps) => {
         const currentTeam = getCurrentTeam(state);
 
         return {
             currentTeamId: currentTeam.id,
+            rules: getCategoryRules(state, ownProps.category.id),
+            muteExpiresAt: getCategoryMuteExpiry(state, ownProps.category.id),
+            timezone: getUserCurrentTimezone(getUserTimezone(state, getCurrentUserId(state))) ?? undefined,
         };
     };
 }
 
 type Actions = {
     openModal: <P>(modalData: ModalData<P>) => void;
-    setCategoryMuted: (categoryId: string, muted: boolean) => void;
+    setCategoryMuted: (categoryId: string, muted: boolean, expiresAt?: number) => void;
     setCategorySorting: (categoryId: string, sorting: CategorySorting) => void;
 }
 
@@ -24,6 +24,8 @@ describe('components/sidebar/sidebar_category/sidebar_category_menu', () => {
             collapsed: false,
         },
         currentTeamId: 'team1',
+        rules: null,
+        muteExpiresAt: 0,
         isMuted: false,
         isMenuOpen: false,
         onToggleMenu: jest.fn(),
@@ -40,6 +42,7 @@ describe('components/sidebar/sidebar_category/sidebar_category_menu', () => {
         );
 
         expect(wrapper.find('#rename-category1')).toHaveLength(1);
+        expect(wrapper.find('#rules-category1')).toHaveLength(1);
         expect(wrapper.find('#create-category1')).toHaveLength(1);
         expect(wrapper.find('#delete-category1')).toHaveLength(1);
 
@@ -64,4 +67,51 @@ describe('components/sidebar/sidebar_category/sidebar_category_menu', () => {
 
         expect(wrapper).toMatchSnapshot();
     });
+
+    test('should mute the category until the chosen time', () => {
+        const setCategoryMuted = jest.fn();
+        const props = {
+            ...baseProps,
+            actions: {
+                ...baseProps.actions,
+                setCategoryMuted,
+            },
+        };
+
+        const wrapper = shallowWithIntl(
+            <SidebarCategoryMenu {...props}/>,
+        );
+
+        const subMenu = wrapper.find('#mute-category1').prop('subMenu') as Array<{id: string; action: () => void}>;
+        subMenu.find((item) => item.id === 'mute-category1-one_hour')!.action();
+
+        expect(setCategoryMuted).toHaveBeenCalledWith('category1', true, expect.any(Number));
+        expect(setCategoryMuted.mock.calls[0][2]).toBeGreaterThan(Date.now());
+    });
+
+    test('should unmute a muted category', () => {
+        const setCategoryMuted = jest.fn();
+        const props = {
+            ...baseProps,
+            category: {
+                ...baseProps.category,
+                muted: true,
+            },
+            muteExpiresAt: Date.now() + 1000,
+            actions: {
+                ...baseProps.actions,
+                setCategoryMuted,
+            },
+        };
+
+        const wrapper = shallowWithIntl(
+            <SidebarCategoryMenu {...props}/>,
+        );
+
+        expect(wrapper.find('#mute-category1').prop('extraText')).toMatch(/^Unmutes at /);
+
+        wrapper.find('#mute-category1').simulate('click');
+
+        expect(setCategoryMuted).toHaveBeenCalledWith('category1', false);
+    });
 });
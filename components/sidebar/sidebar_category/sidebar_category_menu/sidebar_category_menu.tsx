@@ -5,7 +5,7 @@ import React from 'react';
 import {IntlShape, injectIntl} from 'react-intl';
 
 import {CategoryTypes} from 'mattermost-redux/constants/channel_categories';
-import {ChannelCategory, CategorySorting} from 'mattermost-redux/types/channel_categories';
+import {ChannelCategory, CategorySorting, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
 
 import {trackEvent} from 'actions/telemetry_actions';
 import DeleteCategoryModal from 'components/delete_category_modal';
@@ -13,18 +13,27 @@ import EditCategoryModal from 'components/edit_category_modal';
 import SidebarMenu from 'components/sidebar/sidebar_menu';
 import Menu from 'components/widgets/menu/menu';
 import {ModalIdentifiers} from 'utils/constants';
+import {getMuteExpiry, MuteDurations} from 'utils/mute_expiry';
 import {ModalData} from 'types/actions';
 import {Menu as SubMenu} from 'types/store/plugins';
 
 type Props = {
     currentTeamId: string;
     category: ChannelCategory;
+    rules: SmartCategoryRules | null;
+
+    // The time at which the category will be unmuted automatically or 0 if it's muted until the user unmutes it
+    muteExpiresAt: number;
+
+    // The current user's time zone
+    timezone?: string;
+
     isMenuOpen: boolean;
     onToggleMenu: (open: boolean) => void;
     intl: IntlShape;
     actions: {
         openModal: <P>(modalData: ModalData<P>) => void;
-        setCategoryMuted: (categoryId: string, muted: boolean) => void;
+        setCategoryMuted: (categoryId: string, muted: boolean, expiresAt?: number) => void;
         setCategorySorting: (categoryId: string, sorting: CategorySorting) => void;
     };
 };
@@ -44,8 +53,12 @@ class SidebarCategoryMenu extends React.PureComponent<Props, State> {
         };
     }
 
-    toggleCategoryMute = () => {
-        this.props.actions.setCategoryMuted(this.props.category.id, !this.props.category.muted);
+    muteCategory = (durationId: string) => {
+        this.props.actions.setCategoryMuted(this.props.category.id, true, getMuteExpiry(durationId, this.props.timezone));
+    }
+
+    unmuteCategory = () => {
+        this.props.actions.setCategoryMuted(this.props.category.id, false);
     }
 
     deleteCategory = () => {
@@ -69,6 +82,20 @@ class SidebarCategoryMenu extends React.PureComponent<Props, State> {
         });
     }
 
+    editCategoryRules = () => {
+        this.props.actions.openModal({
+            modalId: ModalIdentifiers.EDIT_CATEGORY,
+            dialogType: EditCategoryModal,
+            dialogProps: {
+                categoryId: this.props.category.id,
+                initialCategoryName: this.props.category.display_name,
+                initialRules: this.props.rules,
+                editingRules: true,
+            },
+        });
+        trackEvent('ui', 'ui_sidebar_category_menu_editRules');
+    }
+
     createCategory = () => {
         this.props.actions.openModal({
             modalId: ModalIdentifiers.EDIT_CATEGORY,
@@ -93,25 +120,48 @@ class SidebarCategoryMenu extends React.PureComponent<Props, State> {
     }
 
     renderDropdownItems = () => {
-        const {intl, category} = this.props;
+        const {intl, category, muteExpiresAt} = this.props;
 
         let muteUnmuteCategory;
         if (category.type !== CategoryTypes.DIRECT_MESSAGES) {
-            let text;
             if (category.muted) {
-                text = intl.formatMessage({id: 'sidebar_left.sidebar_category_menu.unmuteCategory', defaultMessage: 'Unmute Category'});
+                let extraText;
+                if (muteExpiresAt) {
+                    extraText = intl.formatMessage(
+                        {id: 'sidebar_left.sidebar_category_menu.unmutesAt', defaultMessage: 'Unmutes at {time}'},
+                        {time: intl.formatTime(muteExpiresAt, {hour: 'numeric', minute: '2-digit', timeZone: this.props.timezone})},
+                    );
+                }
+
+                muteUnmuteCategory = (
+                    <Menu.ItemAction
+                        id={`mute-${category.id}`}
+                        onClick={this.unmuteCategory}
+                        icon={<i className='icon-bell-outline'/>}
+                        text={intl.formatMessage({id: 'sidebar_left.sidebar_category_menu.unmuteCategory', defaultMessage: 'Unmute Category'})}
+                        extraText={extraText}
+                    />
+                );
             } else {
-                text = intl.formatMessage({id: 'sidebar_left.sidebar_category_menu.muteCategory', defaultMessage: 'Mute Category'});
-            }
+                const muteMenuItems: SubMenu[] = MuteDurations.map((duration) => ({
+                    id: `mute-${category.id}-${duration.id}`,
+                    direction: 'right' as any,
+                    text: intl.formatMessage(duration.text),
+                    action: () => this.muteCategory(duration.id),
+                }));
 
-            muteUnmuteCategory = (
-                <Menu.ItemAction
-                    id={`mute-${category.id}`}
-                    onClick={this.toggleCategoryMute}
-                    icon={<i className='icon-bell-outline'/>}
-                    text={text}
-                />
-            );
+                muteUnmuteCategory = (
+                    <Menu.ItemSubMenu
+                        id={`mute-${category.id}`}
+                        subMenu={muteMenuItems}
+                        icon={<i className='icon-bell-outline'/>}
+                        text={intl.formatMessage({id: 'sidebar_left.sidebar_category_menu.muteCategory', defaultMessage: 'Mute Category'})}
+                        direction={'right' as any}
+                        openUp={this.state.openUp}
+                        renderSelected={false}
+                    />
+                );
+            }
         }
 
         const sortMenuItems: SubMenu[] = [{
@@ -135,6 +185,7 @@ class SidebarCategoryMenu extends React.PureComponent<Props, State> {
 
         let deleteCategory;
         let renameCategory;
+        let editCategoryRules;
         if (category.type === CategoryTypes.CUSTOM) {
             deleteCategory = (
                 <Menu.ItemAction
@@ -154,6 +205,15 @@ class SidebarCategoryMenu extends React.PureComponent<Props, State> {
                     text={intl.formatMessage({id: 'sidebar_left.sidebar_category_menu.renameCategory', defaultMessage: 'Rename Category'})}
                 />
             );
+
+            editCategoryRules = (
+                <Menu.ItemAction
+                    id={`rules-${category.id}`}
+                    onClick={this.editCategoryRules}
+                    icon={<i className='icon-filter-variant'/>}
+                    text={intl.formatMessage({id: 'sidebar_left.sidebar_category_menu.editRules', defaultMessage: 'Edit Category Rules'})}
+                />
+            );
         }
 
         let selectedValueText;
@@ -187,6 +247,7 @@ class SidebarCategoryMenu extends React.PureComponent<Props, State> {
                 <Menu.Group>
                     {muteUnmuteCategory}
                     {renameCategory}
+                    {editCategoryRules}
                     {deleteCategory}
                 </Menu.Group>
                 <Menu.Group>
@@ -16,6 +16,7 @@ import {getConfig} from 'mattermost-redux/selectors/entities/general';
 
 import {open as openLhs} from 'actions/views/lhs.js';
 import {clearChannelSelection, multiSelectChannelAdd, multiSelectChannelTo} from 'actions/views/channel_sidebar';
+import {getChannelMuteExpiry} from 'selectors/mute_expiry';
 import {isChannelSelected} from 'selectors/views/channel_sidebar';
 import {GlobalState} from 'types/store';
 import Constants, {Preferences, RecommendedNextSteps} from 'utils/constants';
@@ -51,6 +52,7 @@ function makeMapStateToProps() {
             unreadMsgs: unreadCount.messages,
             isUnread: unreadCount.showUnread,
             isMuted: isChannelMuted(member),
+            muteExpiresAt: getChannelMuteExpiry(state, ownProps.channel.id),
             isChannelSelected: isChannelSelected(state, ownProps.channel.id),
             showTutorialTip: enableTutorial && tutorialStep === Constants.TutorialSteps.CHANNEL_POPOVER,
             firstChannelName: enableTutorial && tutorialStep === Constants.TutorialSteps.ADD_FIRST_CHANNEL ? firstChannelName : '',
@@ -33,6 +33,7 @@ describe('components/sidebar/sidebar_channel/sidebar_channel_link', () => {
         unreadMentions: 0,
         isUnread: false,
         isMuted: false,
+        muteExpiresAt: 0,
         isCollapsed: false,
         isChannelSelected: false,
         showTutorialTip: false,
@@ -75,6 +76,21 @@ describe('components/sidebar/sidebar_channel/sidebar_channel_link', () => {
         expect(wrapper).toMatchSnapshot();
     });
 
+    test('should show when a temporarily muted channel will be unmuted', () => {
+        const wrapper = shallow(
+            <SidebarChannelLink
+                {...baseProps}
+                isMuted={true}
+                muteExpiresAt={Date.now() + 1000}
+            />,
+        );
+
+        expect(wrapper.find('MuteExpiryIndicator').prop('id')).toBe('channel_id');
+
+        wrapper.setProps({isMuted: false});
+        expect(wrapper.find('MuteExpiryIndicator').exists()).toBe(false);
+    });
+
     test('should match snapshot with aria label prefix and unread mentions', () => {
         const props = {
             ...baseProps,
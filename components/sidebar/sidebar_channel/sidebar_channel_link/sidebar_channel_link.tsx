@@ -20,6 +20,8 @@ import {wrapEmojis} from 'utils/emoji_utils';
 import {isDesktopApp} from 'utils/user_agent';
 import {cmdOrCtrlPressed, localizeMessage} from 'utils/utils';
 
+import MuteExpiryIndicator from 'components/sidebar/mute_expiry_indicator';
+
 import ChannelMentionBadge from '../channel_mention_badge';
 import SidebarChannelIcon from '../sidebar_channel_icon';
 import SidebarChannelMenu from '../sidebar_channel_menu';
@@ -49,6 +51,11 @@ type Props = {
      */
     isMuted: boolean;
 
+    /**
+     * The time at which the channel will be unmuted automatically or 0 if it's muted until the user unmutes it
+     */
+    muteExpiresAt: number;
+
     /**
      * Checks if channel is collapsed
      */
@@ -170,6 +177,7 @@ export default class SidebarChannelLink extends React.PureComponent<Props, State
             isMuted,
             isUnread,
             label,
+            muteExpiresAt,
             link,
             showTutorialTip,
             unreadMentions,
@@ -248,6 +256,12 @@ export default class SidebarChannelLink extends React.PureComponent<Props, State
                 >
                     {labelElement}
                     {customStatus}
+                    {isMuted && muteExpiresAt > 0 && (
+                        <MuteExpiryIndicator
+                            id={channel.id}
+                            expiresAt={muteExpiresAt}
+                        />
+                    )}
                     <Pluggable
                         pluggableName='SidebarChannelLinkLabel'
                         channel={this.props.channel}
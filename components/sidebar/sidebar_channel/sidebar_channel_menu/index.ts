@@ -11,14 +11,17 @@ import {getMyChannelMemberships, getCurrentUserId} from 'mattermost-redux/select
 import {getCategoryInTeamWithChannel} from 'mattermost-redux/selectors/entities/channel_categories';
 import {haveIChannelPermission} from 'mattermost-redux/selectors/entities/roles';
 import {getCurrentTeam} from 'mattermost-redux/selectors/entities/teams';
+import {getUserTimezone} from 'mattermost-redux/selectors/entities/timezone';
 import {Action} from 'mattermost-redux/types/actions';
 import {Channel} from 'mattermost-redux/types/channels';
 import {isChannelMuted} from 'mattermost-redux/utils/channel_utils';
+import {getUserCurrentTimezone} from 'mattermost-redux/utils/timezone_utils';
 
 import {unmuteChannel, muteChannel} from 'actions/channel_actions';
 import {addChannelsInSidebar} from 'actions/views/channel_sidebar';
 import {openModal} from 'actions/views/modals';
 
+import {getChannelMuteExpiry} from 'selectors/mute_expiry';
 import {getCategoriesForCurrentTeam, getDisplayedChannels} from 'selectors/views/channel_sidebar';
 
 import {ModalData} from 'types/actions';
@@ -57,6 +60,8 @@ function mapStateToProps(state: GlobalState, ownProps: OwnProps) {
         currentCategory,
         isFavorite: isFavoriteChannel(state, ownProps.channel.id),
         isMuted: isChannelMuted(member),
+        muteExpiresAt: getChannelMuteExpiry(state, ownProps.channel.id),
+        timezone: getUserCurrentTimezone(getUserTimezone(state, getCurrentUserId(state))) ?? undefined,
         channelLink: `${getSiteURL()}${ownProps.channelLink}`,
         managePublicChannelMembers,
         managePrivateChannelMembers,
@@ -69,7 +74,7 @@ type Actions = {
     markChannelAsRead: (channelId: string) => void;
     favoriteChannel: (channelId: string) => void;
     unfavoriteChannel: (channelId: string) => void;
-    muteChannel: (userId: string, channelId: string) => void;
+    muteChannel: (userId: string, channelId: string, expiresAt?: number) => void;
     unmuteChannel: (userId: string, channelId: string) => void;
     openModal: <P>(modalData: ModalData<P>) => void;
     addChannelsInSidebar: (categoryId: string, channelId: string) => void;
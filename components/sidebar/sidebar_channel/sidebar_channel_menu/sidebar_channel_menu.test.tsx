@@ -27,6 +27,7 @@ describe('components/sidebar/sidebar_channel/sidebar_channel_menu', () => {
         isUnread: false,
         isFavorite: false,
         isMuted: false,
+        muteExpiresAt: 0,
         managePublicChannelMembers: true,
         managePrivateChannelMembers: true,
         closeHandler: jest.fn(),
@@ -108,6 +109,67 @@ describe('components/sidebar/sidebar_channel/sidebar_channel_menu', () => {
         expect(wrapper).toMatchSnapshot();
     });
 
+    test('should mute the channel until the chosen time', () => {
+        const muteChannel = jest.fn();
+        const props = {
+            ...baseProps,
+            actions: {
+                ...baseProps.actions,
+                muteChannel,
+            },
+        };
+
+        const wrapper = shallowWithIntl(
+            <SidebarChannelMenu {...props}/>,
+        );
+
+        const subMenu = wrapper.find('#mute-channel_id').prop('subMenu') as Array<{id: string; action: () => void}>;
+
+        const before = Date.now();
+        subMenu.find((item) => item.id === 'mute-channel_id-two_hours')!.action();
+        expect(muteChannel).toHaveBeenCalledWith('user_id', 'channel_id', expect.any(Number));
+        expect(muteChannel.mock.calls[0][2]).toBeGreaterThanOrEqual(before + (2 * 60 * 60 * 1000));
+
+        subMenu.find((item) => item.id === 'mute-channel_id-forever')!.action();
+        expect(muteChannel).toHaveBeenLastCalledWith('user_id', 'channel_id', 0);
+    });
+
+    test('should mute the channel until the morning in the user\'s time zone', () => {
+        const muteChannel = jest.fn();
+        const props = {
+            ...baseProps,
+            timezone: 'Asia/Tokyo',
+            actions: {
+                ...baseProps.actions,
+                muteChannel,
+            },
+        };
+
+        const wrapper = shallowWithIntl(
+            <SidebarChannelMenu {...props}/>,
+        );
+
+        const subMenu = wrapper.find('#mute-channel_id').prop('subMenu') as Array<{id: string; action: () => void}>;
+        subMenu.find((item) => item.id === 'mute-channel_id-morning')!.action();
+
+        const expiresAt = new Date(muteChannel.mock.calls[0][2]);
+        expect(expiresAt.toLocaleTimeString('en-US', {timeZone: 'Asia/Tokyo', hour12: false})).toBe('09:00:00');
+    });
+
+    test('should show when a temporarily muted channel will be unmuted', () => {
+        const props = {
+            ...baseProps,
+            isMuted: true,
+            muteExpiresAt: new Date(2021, 5, 10, 9, 0).getTime(),
+        };
+
+        const wrapper = shallowWithIntl(
+            <SidebarChannelMenu {...props}/>,
+        );
+
+        expect(wrapper.find('#unmute-channel_id').prop('extraText')).toMatch(/^Unmutes at 9:00/);
+    });
+
     test('should match snapshot when channel is private', () => {
         const props = {
             ...baseProps,
@@ -14,8 +14,10 @@ import SidebarMenu from 'components/sidebar/sidebar_menu';
 import Menu from 'components/widgets/menu/menu';
 
 import {ModalData} from 'types/actions';
+import {Menu as SubMenu} from 'types/store/plugins';
 
 import Constants, {ModalIdentifiers} from 'utils/constants';
+import {getMuteExpiry, MuteDurations} from 'utils/mute_expiry';
 import {copyToClipboard} from 'utils/utils';
 
 type Props = {
@@ -26,6 +28,13 @@ type Props = {
     isUnread: boolean;
     isFavorite: boolean;
     isMuted: boolean;
+
+    // The time at which the channel will be unmuted automatically or 0 if it's muted until the user unmutes it
+    muteExpiresAt: number;
+
+    // The current user's time zone
+    timezone?: string;
+
     intl: IntlShape;
     managePublicChannelMembers: boolean;
     managePrivateChannelMembers: boolean;
@@ -37,7 +46,7 @@ type Props = {
         markChannelAsRead: (channelId: string) => void;
         favoriteChannel: (channelId: string) => void;
         unfavoriteChannel: (channelId: string) => void;
-        muteChannel: (userId: string, channelId: string) => void;
+        muteChannel: (userId: string, channelId: string, expiresAt?: number) => void;
         unmuteChannel: (userId: string, channelId: string) => void;
         openModal: <P>(modalData: ModalData<P>) => void;
     };
@@ -79,8 +88,8 @@ export class SidebarChannelMenu extends React.PureComponent<Props, State> {
         this.props.actions.unmuteChannel(this.props.currentUserId, this.props.channel.id);
     }
 
-    muteChannel = () => {
-        this.props.actions.muteChannel(this.props.currentUserId, this.props.channel.id);
+    muteChannel = (durationId: string) => {
+        this.props.actions.muteChannel(this.props.currentUserId, this.props.channel.id, getMuteExpiry(durationId, this.props.timezone));
     }
 
     copyLink = () => {
@@ -114,7 +123,7 @@ export class SidebarChannelMenu extends React.PureComponent<Props, State> {
     }
 
     renderDropdownItems = () => {
-        const {intl, isUnread, isFavorite, isMuted, channel} = this.props;
+        const {intl, isUnread, isFavorite, isMuted, muteExpiresAt, channel} = this.props;
 
         let markAsRead;
         if (isUnread) {
@@ -155,12 +164,22 @@ export class SidebarChannelMenu extends React.PureComponent<Props, State> {
             if (channel.type === Constants.DM_CHANNEL || channel.type === Constants.GM_CHANNEL) {
                 muteChannelText = intl.formatMessage({id: 'sidebar_left.sidebar_channel_menu.unmuteConversation', defaultMessage: 'Unmute Conversation'});
             }
+
+            let extraText;
+            if (muteExpiresAt) {
+                extraText = intl.formatMessage(
+                    {id: 'sidebar_left.sidebar_channel_menu.unmutesAt', defaultMessage: 'Unmutes at {time}'},
+                    {time: intl.formatTime(muteExpiresAt, {hour: 'numeric', minute: '2-digit', timeZone: this.props.timezone})},
+                );
+            }
+
             muteChannel = (
                 <Menu.ItemAction
                     id={`unmute-${channel.id}`}
                     onClick={this.unmuteChannel}
                     icon={<i className='icon-bell-off-outline'/>}
                     text={muteChannelText}
+                    extraText={extraText}
                 />
             );
         } else {
@@ -168,12 +187,23 @@ export class SidebarChannelMenu extends React.PureComponent<Props, State> {
             if (channel.type === Constants.DM_CHANNEL || channel.type === Constants.GM_CHANNEL) {
                 muteChannelText = intl.formatMessage({id: 'sidebar_left.sidebar_channel_menu.muteConversation', defaultMessage: 'Mute Conversation'});
             }
+
+            const muteMenuItems: SubMenu[] = MuteDurations.map((duration) => ({
+                id: `mute-${channel.id}-${duration.id}`,
+                direction: 'right' as any,
+                text: intl.formatMessage(duration.text),
+                action: () => this.muteChannel(duration.id),
+            }));
+
             muteChannel = (
-                <Menu.ItemAction
+                <Menu.ItemSubMenu
                     id={`mute-${channel.id}`}
-                    onClick={this.muteChannel}
+                    subMenu={muteMenuItems}
                     icon={<i className='icon-bell-outline'/>}
                     text={muteChannelText}
+                    direction={'right' as any}
+                    openUp={this.state.openUp}
+                    renderSelected={false}
                 />
             );
         }
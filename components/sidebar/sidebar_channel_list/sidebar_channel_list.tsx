@@ -17,7 +17,8 @@ import {Team} from 'mattermost-redux/types/teams';
 
 import {trackEvent} from 'actions/telemetry_actions';
 import {DraggingState} from 'types/store';
-import {Constants, DraggingStates, DraggingStateTypes} from 'utils/constants';
+import {DraggingStates, DraggingStateTypes} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils';
 import * as ChannelUtils from 'utils/channel_utils.jsx';
 
@@ -26,6 +27,7 @@ import UnreadChannelIndicator from '../unread_channel_indicator';
 import UnreadChannels from '../unread_channels';
 
 import GlobalThreadsLink from 'components/threading/global_threads_link';
+import DraftsLink from 'components/drafts/drafts_link';
 
 export function renderView(props: any) {
     return (
@@ -300,7 +302,8 @@ export default class SidebarChannelList extends React.PureComponent<Props, State
     }
 
     navigateChannelShortcut = (e: KeyboardEvent) => {
-        if (e.altKey && !e.shiftKey && !e.ctrlKey && !e.metaKey && (Utils.isKeyPressed(e, Constants.KeyCodes.UP) || Utils.isKeyPressed(e, Constants.KeyCodes.DOWN))) {
+        const previous = Utils.isShortcutPressed(e, ShortcutActionIds.NAV_PREV);
+        if (previous || Utils.isShortcutPressed(e, ShortcutActionIds.NAV_NEXT)) {
             e.preventDefault();
 
             const allChannelIds = this.getDisplayedChannelIds();
@@ -319,21 +322,22 @@ export default class SidebarChannelList extends React.PureComponent<Props, State
                 }
             }
             let nextIndex = curIndex;
-            if (Utils.isKeyPressed(e, Constants.KeyCodes.DOWN)) {
-                nextIndex = curIndex + 1;
-            } else {
+            if (previous) {
                 nextIndex = curIndex - 1;
+            } else {
+                nextIndex = curIndex + 1;
             }
             const nextChannelId = allChannelIds[Utils.mod(nextIndex, allChannelIds.length)];
             this.navigateByChannelId(nextChannelId);
             this.scrollToChannel(nextChannelId);
-        } else if (Utils.cmdOrCtrlPressed(e) && e.shiftKey && Utils.isKeyPressed(e, Constants.KeyCodes.K)) {
+        } else if (Utils.isShortcutPressed(e, ShortcutActionIds.DM_MENU)) {
             this.props.handleOpenMoreDirectChannelsModal(e);
         }
     };
 
     navigateUnreadChannelShortcut = (e: KeyboardEvent) => {
-        if (e.altKey && e.shiftKey && !e.ctrlKey && !e.metaKey && (Utils.isKeyPressed(e, Constants.KeyCodes.UP) || Utils.isKeyPressed(e, Constants.KeyCodes.DOWN))) {
+        const previous = Utils.isShortcutPressed(e, ShortcutActionIds.NAV_UNREAD_PREV);
+        if (previous || Utils.isShortcutPressed(e, ShortcutActionIds.NAV_UNREAD_NEXT)) {
             e.preventDefault();
 
             const allChannelIds = this.getDisplayedChannelIds();
@@ -348,7 +352,7 @@ export default class SidebarChannelList extends React.PureComponent<Props, State
             }
 
             let direction = 0;
-            if (Utils.isKeyPressed(e, Constants.KeyCodes.UP)) {
+            if (previous) {
                 direction = -1;
             } else {
                 direction = 1;
@@ -529,6 +533,7 @@ export default class SidebarChannelList extends React.PureComponent<Props, State
             // NOTE: id attribute added to temporarily support the desktop app's at-mention DOM scraping of the old sidebar
             <>
                 <GlobalThreadsLink/>
+                <DraftsLink/>
                 <div
                     id='sidebar-left'
                     role='application'
@@ -6,7 +6,7 @@ import React from 'react';
 import classNames from 'classnames';
 
 import {trackEvent} from 'actions/telemetry_actions.jsx';
-import Constants from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils.jsx';
 
 import FileUploadOverlay from 'components/file_upload_overlay';
@@ -67,7 +67,7 @@ export default class SidebarRight extends React.PureComponent {
     }
 
     handleShortcut = (e) => {
-        if (Utils.cmdOrCtrlPressed(e) && Utils.isKeyPressed(e, Constants.KeyCodes.PERIOD)) {
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.TOGGLE_RHS)) {
             e.preventDefault();
             if (this.props.isOpen) {
                 this.props.actions.closeRightHandSide();
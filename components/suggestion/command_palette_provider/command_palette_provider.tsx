@@ -0,0 +1,244 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {connect} from 'react-redux';
+
+import {getAutocompleteCommands} from 'mattermost-redux/actions/integrations';
+import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
+import {Command} from 'mattermost-redux/types/integrations';
+
+import {ShortcutKey, ShortcutKeyVariant} from 'components/shortcut_key';
+
+import {getShortcutBindings} from 'selectors/keyboard_shortcuts';
+import {getPaletteCommandUsage} from 'selectors/views/command_palette';
+import store from 'stores/redux_store.jsx';
+
+import {rankPaletteCommands} from 'utils/command_palette';
+import {Constants} from 'utils/constants';
+import {formatChord} from 'utils/keyboard_shortcuts';
+
+import type {GlobalState} from 'types/store';
+import type {PaletteCommand} from 'types/store/command_palette';
+
+import Provider from '../provider';
+import Suggestion from '../suggestion';
+import SwitchChannelProvider from '../switch_channel_provider';
+
+import {getPaletteCommands, getSlashCommandSuggestions, makeSlashCommand} from './palette_commands';
+
+// Typing this first only searches commands
+export const COMMANDS_ONLY_PREFIX = '>';
+
+// Typing this first runs a slash command in the current channel
+export const SLASH_COMMAND_PREFIX = '/';
+
+// How many commands are listed above the channels when searching both, or without a search when showing the most
+// used commands
+const MAX_COMMANDS_WITH_CHANNELS = 5;
+const MAX_RECENT_COMMANDS = 3;
+
+// A PaletteItem is either a command to run or, if slashCommand is set, a slash command to fill in
+export type PaletteItem = {
+    type: typeof Constants.PALETTE_COMMANDS;
+    command?: PaletteCommand;
+    slashCommand?: Command;
+};
+
+type ProviderResults = {
+    matchedPretext: string;
+    terms: string[];
+    items: any[];
+    component?: React.ElementType;
+    components?: React.ElementType[];
+};
+
+class CommandPaletteSuggestion extends Suggestion {
+    render() {
+        const {isSelection, chord} = this.props;
+        const item = this.props.item as PaletteItem;
+
+        let className = 'suggestion-list__item';
+        if (isSelection) {
+            className += ' suggestion--selected';
+        }
+
+        let icon;
+        let title;
+        let description;
+        if (item.slashCommand) {
+            icon = 'icon-slash-forward';
+            title = `/${item.slashCommand.trigger} ${item.slashCommand.auto_complete_hint}`.trim();
+            description = item.slashCommand.auto_complete_desc;
+        } else if (item.command) {
+            icon = item.command.icon;
+            title = item.command.title;
+            description = item.command.description;
+        }
+
+        return (
+            <div
+                onClick={this.handleClick}
+                onMouseMove={this.handleMouseMove}
+                className={className}
+                id={`commandPalette_${this.props.term}`}
+                aria-label={title}
+                {...Suggestion.baseProps}
+            >
+                <span className='suggestion-list__icon suggestion-list__icon--large'>
+                    <i className={`icon ${icon}`}/>
+                </span>
+                <div className='suggestion-list__ellipsis'>
+                    <span className='suggestion-list__main'>
+                        {title}
+                    </span>
+                    {description && <span className='ml-2'>{description}</span>}
+                </div>
+                {chord && formatChord(chord).map((key: string) => (
+                    <ShortcutKey
+                        key={key}
+                        variant={ShortcutKeyVariant.ShortcutModal}
+                    >
+                        {key}
+                    </ShortcutKey>
+                ))}
+            </div>
+        );
+    }
+}
+
+function mapStateToPropsForCommandPaletteSuggestion(state: GlobalState, ownProps: {item: PaletteItem}) {
+    const shortcutId = ownProps.item.command?.shortcutId;
+
+    return {
+        chord: shortcutId ? getShortcutBindings(state)[shortcutId] : '',
+    };
+}
+
+const ConnectedCommandPaletteSuggestion = connect(mapStateToPropsForCommandPaletteSuggestion, null, null, {forwardRef: true})(CommandPaletteSuggestion);
+
+// CommandPaletteProvider suggests commands along with the channels suggested by the SwitchChannelProvider. Commands
+// are ranked by how well they match what was typed and how often the user has run them before.
+export default class CommandPaletteProvider extends Provider {
+    private channelProvider: SwitchChannelProvider;
+    private fetchedCommandsForTeam: string;
+
+    constructor() {
+        super();
+
+        this.channelProvider = new SwitchChannelProvider();
+        this.fetchedCommandsForTeam = '';
+    }
+
+    handlePretextChanged(pretext: string, resultsCallback: (results: ProviderResults) => void) {
+        this.startNewRequest(pretext);
+
+        if (pretext.startsWith(COMMANDS_ONLY_PREFIX)) {
+            const query = pretext.substring(COMMANDS_ONLY_PREFIX.length);
+            resultsCallback(this.formatCommands(pretext, this.getRankedCommands(query)));
+            return true;
+        }
+
+        if (pretext.startsWith(SLASH_COMMAND_PREFIX)) {
+            this.fetchSlashCommands(pretext, resultsCallback);
+            resultsCallback(this.formatSlashCommands(pretext));
+            return true;
+        }
+
+        const commands = this.getRankedCommands(pretext).slice(0, pretext.trim() ? MAX_COMMANDS_WITH_CHANNELS : MAX_RECENT_COMMANDS);
+
+        return this.channelProvider.handlePretextChanged(pretext, (results: ProviderResults) => {
+            resultsCallback(this.prependCommands(results, commands));
+        });
+    }
+
+    getRankedCommands(query: string) {
+        const state = store.getState();
+
+        return rankPaletteCommands(getPaletteCommands(state), query, getPaletteCommandUsage(state), Date.now());
+    }
+
+    makeCommandItems(commands: PaletteCommand[]): PaletteItem[] {
+        return commands.map((command) => ({type: Constants.PALETTE_COMMANDS, command}));
+    }
+
+    formatCommands(pretext: string, commands: PaletteCommand[]): ProviderResults {
+        return {
+            matchedPretext: pretext,
+            terms: commands.map((command) => command.id),
+            items: this.makeCommandItems(commands),
+            component: ConnectedCommandPaletteSuggestion,
+        };
+    }
+
+    // fetchSlashCommands loads the slash commands of the current team the first time that they're needed
+    async fetchSlashCommands(pretext: string, resultsCallback: (results: ProviderResults) => void) {
+        const teamId = getCurrentTeamId(store.getState());
+        if (!teamId || this.fetchedCommandsForTeam === teamId) {
+            return;
+        }
+
+        this.fetchedCommandsForTeam = teamId;
+        await store.dispatch(getAutocompleteCommands(teamId));
+
+        if (this.latestPrefix === pretext) {
+            resultsCallback(this.formatSlashCommands(pretext));
+        }
+    }
+
+    formatSlashCommands(pretext: string): ProviderResults {
+        const state = store.getState();
+        const text = pretext.trim();
+        const terms: string[] = [];
+        const items: PaletteItem[] = [];
+
+        // The term of the command running what was typed is the typed text itself so that selecting it leaves the
+        // text in place in case the command fails
+        if (text.length > SLASH_COMMAND_PREFIX.length) {
+            terms.push(text);
+            items.push({type: Constants.PALETTE_COMMANDS, command: makeSlashCommand(text)});
+        }
+
+        // Once the command has been typed out, only its arguments are left to fill in
+        if (!pretext.includes(' ')) {
+            for (const slashCommand of getSlashCommandSuggestions(state, text)) {
+                const term = `/${slashCommand.trigger}`;
+                if (term !== text.toLowerCase()) {
+                    terms.push(term);
+                    items.push({type: Constants.PALETTE_COMMANDS, slashCommand});
+                }
+            }
+        }
+
+        return {
+            matchedPretext: pretext,
+            terms,
+            items,
+            component: ConnectedCommandPaletteSuggestion,
+        };
+    }
+
+    prependCommands(results: ProviderResults, commands: PaletteCommand[]): ProviderResults {
+        const {component} = results;
+
+        // Results with a single component for all of their items have to list it for each of them once they're mixed
+        let components = results.components || [];
+        if (!results.components && component) {
+            components = results.items.map(() => component);
+        }
+
+        return {
+            ...results,
+            terms: [...commands.map((command) => command.id), ...results.terms],
+            items: [...this.makeCommandItems(commands), ...results.items],
+            components: [...commands.map(() => ConnectedCommandPaletteSuggestion), ...components],
+        };
+    }
+
+    handleCompleteWord(term: string, matchedPretext: string, pretextChangedCallback: (pretext: string) => void) {
+        // Keep suggesting once a slash command has been filled in
+        if (term.startsWith(SLASH_COMMAND_PREFIX)) {
+            pretextChangedCallback(term + ' ');
+        }
+    }
+}
@@ -0,0 +1,232 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {saveTheme} from 'mattermost-redux/actions/preferences';
+import {Preferences} from 'mattermost-redux/constants';
+import Permissions from 'mattermost-redux/constants/permissions';
+import {getCurrentChannelId} from 'mattermost-redux/selectors/entities/channels';
+import {getAutocompleteCommandsList} from 'mattermost-redux/selectors/entities/integrations';
+import {getTheme, makeGetCategory} from 'mattermost-redux/selectors/entities/preferences';
+import {haveICurrentChannelPermission} from 'mattermost-redux/selectors/entities/roles';
+import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
+import {Theme} from 'mattermost-redux/types/themes';
+
+import {executeCommand} from 'actions/command';
+import {markAllChannelsAsRead} from 'actions/views/channel';
+import {openModal} from 'actions/views/modals';
+
+import {getPluginName} from 'selectors/plugins';
+
+import MoreDirectChannels from 'components/more_direct_channels';
+import NewChannelFlow from 'components/new_channel_flow';
+import UserSettingsModal from 'components/user_settings/modal';
+
+import store from 'stores/redux_store.jsx';
+
+import {ModalIdentifiers} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
+import {localizeAndFormatMessage, localizeMessage} from 'utils/utils.jsx';
+
+import type {GlobalState} from 'types/store';
+import type {PaletteCommand} from 'types/store/command_palette';
+
+const getThemeCategory = makeGetCategory();
+
+function openSettings(activeTab: string, isContentProductSettings: boolean) {
+    store.dispatch(openModal({
+        modalId: ModalIdentifiers.USER_SETTINGS,
+        dialogType: UserSettingsModal,
+        dialogProps: {isContentProductSettings, activeTab},
+    }));
+}
+
+function getSettingsCommands(): PaletteCommand[] {
+    const settingsKeyword = localizeMessage('command_palette.settings.keyword', 'settings');
+
+    return [
+        {
+            id: 'settings.notifications',
+            title: localizeMessage('command_palette.settings.notifications', 'Open Notifications settings'),
+            tab: 'notifications',
+            shortcutId: ShortcutActionIds.SETTINGS,
+        },
+        {
+            id: 'settings.display',
+            title: localizeMessage('command_palette.settings.display', 'Open Display settings'),
+            tab: 'display',
+        },
+        {
+            id: 'settings.sidebar',
+            title: localizeMessage('command_palette.settings.sidebar', 'Open Sidebar settings'),
+            tab: 'sidebar',
+        },
+        {
+            id: 'settings.advanced',
+            title: localizeMessage('command_palette.settings.advanced', 'Open Advanced settings'),
+            tab: 'advanced',
+        },
+        {
+            id: 'settings.profile',
+            title: localizeMessage('command_palette.settings.profile', 'Open Profile'),
+            tab: 'profile',
+            profile: true,
+        },
+        {
+            id: 'settings.security',
+            title: localizeMessage('command_palette.settings.security', 'Open Security settings'),
+            tab: 'security',
+            profile: true,
+        },
+    ].map(({id, title, tab, profile, shortcutId}): PaletteCommand => ({
+        id,
+        type: 'settings',
+        title,
+        keywords: [settingsKeyword],
+        icon: 'icon-cog-outline',
+        shortcutId,
+        run: () => openSettings(tab, !profile),
+    }));
+}
+
+function getThemeCommands(state: GlobalState): PaletteCommand[] {
+    const currentTheme = getTheme(state);
+
+    // Change the theme everywhere unless the user has already picked different themes for some teams
+    const teamId = getThemeCategory(state, Preferences.CATEGORY_THEME).length <= 1 ? '' : getCurrentTeamId(state);
+
+    return Object.entries(Preferences.THEMES as Record<string, Theme>).
+        filter(([, theme]) => theme.type !== currentTheme.type).
+        map(([name, theme]): PaletteCommand => ({
+            id: `theme.${name}`,
+            type: 'theme',
+            title: localizeAndFormatMessage('command_palette.theme', 'Switch to the {theme} theme', {theme: theme.type}),
+            keywords: [localizeMessage('command_palette.theme.keyword', 'theme')],
+            icon: 'icon-palette-outline',
+            run: () => {
+                store.dispatch(saveTheme(teamId, theme));
+            },
+        }));
+}
+
+function getChannelCommands(state: GlobalState): PaletteCommand[] {
+    const commands: PaletteCommand[] = [
+        {
+            id: 'channels.mark_all_read',
+            type: 'channel',
+            title: localizeMessage('command_palette.markAllRead', 'Mark all channels as read'),
+            keywords: [localizeMessage('command_palette.markAllRead.keyword', 'unread')],
+            icon: 'icon-check-all',
+            run: () => {
+                store.dispatch(markAllChannelsAsRead());
+            },
+        },
+        {
+            id: 'channels.start_dm',
+            type: 'channel',
+            title: localizeMessage('command_palette.startDM', 'Start a direct message'),
+            keywords: [localizeMessage('command_palette.startDM.keyword', 'conversation')],
+            icon: 'icon-account-plus-outline',
+            shortcutId: ShortcutActionIds.DM_MENU,
+            run: () => {
+                store.dispatch(openModal({
+                    modalId: ModalIdentifiers.CREATE_DM_CHANNEL,
+                    dialogType: MoreDirectChannels,
+                    dialogProps: {isExistingChannel: false},
+                }));
+            },
+        },
+    ];
+
+    const canCreateChannel = haveICurrentChannelPermission(state, Permissions.CREATE_PUBLIC_CHANNEL) ||
+        haveICurrentChannelPermission(state, Permissions.CREATE_PRIVATE_CHANNEL);
+    if (canCreateChannel) {
+        commands.push({
+            id: 'channels.create',
+            type: 'channel',
+            title: localizeMessage('command_palette.createChannel', 'Create a new channel'),
+            icon: 'icon-plus',
+            run: () => {
+                store.dispatch(openModal({
+                    modalId: ModalIdentifiers.NEW_CHANNEL_FLOW,
+                    dialogType: NewChannelFlow,
+                }));
+            },
+        });
+    }
+
+    return commands;
+}
+
+// getPluginCommands returns the actions which plugins have added to the main menu and the channel menu. Only items
+// labelled with plain text are included since the palette needs something to search for.
+function getPluginCommands(state: GlobalState): PaletteCommand[] {
+    const {components} = state.plugins;
+    const commands: PaletteCommand[] = [];
+
+    for (const item of components.MainMenu || []) {
+        if (typeof item.text === 'string' && item.action) {
+            const action = item.action;
+
+            commands.push({
+                id: `plugin.${item.id}`,
+                type: 'plugin',
+                title: item.text,
+                description: getPluginName(state, item.pluginId),
+                icon: 'icon-power-plug-outline',
+                run: () => action(),
+            });
+        }
+    }
+
+    for (const item of components.ChannelHeader || []) {
+        if (typeof item.text === 'string' && item.action) {
+            const action = item.action;
+
+            commands.push({
+                id: `plugin.${item.id}`,
+                type: 'plugin',
+                title: item.text,
+                description: getPluginName(state, item.pluginId),
+                icon: 'icon-power-plug-outline',
+                run: () => action(getCurrentChannelId(store.getState())),
+            });
+        }
+    }
+
+    return commands;
+}
+
+// getPaletteCommands returns every command which can currently be run from the command palette
+export function getPaletteCommands(state: GlobalState): PaletteCommand[] {
+    return [
+        ...getChannelCommands(state),
+        ...getSettingsCommands(),
+        ...getThemeCommands(state),
+        ...getPluginCommands(state),
+    ];
+}
+
+// makeSlashCommand returns a command which runs the given slash command with its arguments in the current channel
+export function makeSlashCommand(text: string): PaletteCommand {
+    return {
+        id: 'slash_command.run',
+        type: 'slash_command',
+        title: localizeAndFormatMessage('command_palette.slashCommand.run', 'Run {command}', {command: text}),
+        icon: 'icon-slash-forward',
+        run: () => {
+            const state = store.getState();
+
+            return store.dispatch(executeCommand(text, {
+                channel_id: getCurrentChannelId(state),
+                team_id: getCurrentTeamId(state),
+            }));
+        },
+    };
+}
+
+// getSlashCommandSuggestions returns the slash commands starting with the given text
+export function getSlashCommandSuggestions(state: GlobalState, text: string) {
+    const lowerText = text.toLowerCase();
+
+    return getAutocompleteCommandsList(state).filter((command) => `/${command.trigger}`.startsWith(lowerText));
+}
@@ -12,6 +12,9 @@ import {Constants} from 'utils/constants.jsx';
 import FormattedMarkdownMessage from 'components/formatted_markdown_message';
 import LoadingSpinner from 'components/widgets/loading/loading_spinner';
 
+// Items of these types are preceded by a heading
+const DIVIDER_TYPES = [Constants.MENTION_RECENT_CHANNELS, Constants.PALETTE_COMMANDS];
+
 // When this file is migrated to TypeScript, type definitions for its props already exist in ./suggestion_list.d.ts.
 
 export default class SuggestionList extends React.PureComponent {
@@ -232,7 +235,7 @@ export default class SuggestionList extends React.PureComponent {
             items.push(this.renderNoResults());
         }
 
-        let dividerRendered = false;
+        const renderedDividers = new Set();
         for (let i = 0; i < this.props.items.length; i++) {
             const item = this.props.items[i];
             const term = this.props.terms[i];
@@ -241,9 +244,9 @@ export default class SuggestionList extends React.PureComponent {
             // ReactComponent names need to be upper case when used in JSX
             const Component = this.props.components[i];
 
-            if (!dividerRendered && item.type === 'mention.recent.channels') {
+            if (DIVIDER_TYPES.includes(item.type) && !renderedDividers.has(item.type)) {
                 items.push(this.renderDivider(item.type));
-                dividerRendered = true;
+                renderedDividers.add(item.type);
             }
 
             if (item.loading) {
@@ -0,0 +1,52 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {connect} from 'react-redux';
+import {ActionCreatorsMapObject, bindActionCreators, Dispatch} from 'redux';
+
+import {getChannel} from 'mattermost-redux/selectors/entities/channels';
+import {getConfig, getLicense} from 'mattermost-redux/selectors/entities/general';
+import {getPost} from 'mattermost-redux/selectors/entities/posts';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
+import {isPostPendingOrFailed, isSystemMessage} from 'mattermost-redux/utils/post_utils';
+
+import {ActionFunc, GenericAction} from 'mattermost-redux/types/actions';
+
+import {toggleTaskListItem} from 'actions/task_list';
+
+import {GlobalState} from 'types/store';
+
+import {isArchivedChannel} from 'utils/channel_utils';
+import * as PostUtils from 'utils/post_utils';
+
+import TaskListCheckbox, {Props} from './task_list_checkbox';
+
+type OwnProps = {
+    postId: string;
+};
+
+function mapStateToProps(state: GlobalState, ownProps: OwnProps) {
+    const post = getPost(state, ownProps.postId);
+    const channel = post ? getChannel(state, post.channel_id) : undefined;
+
+    const canEdit = Boolean(
+        post &&
+        channel &&
+        !isPostPendingOrFailed(post) &&
+        !isSystemMessage(post) &&
+        !isArchivedChannel(channel) &&
+        PostUtils.canEditPost(state, post, getLicense(state), getConfig(state), channel, getCurrentUserId(state)),
+    );
+
+    return {
+        canEdit,
+    };
+}
+
+function mapDispatchToProps(dispatch: Dispatch<GenericAction>) {
+    return {
+        actions: bindActionCreators<ActionCreatorsMapObject<ActionFunc>, Props['actions']>({toggleTaskListItem}, dispatch),
+    };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(TaskListCheckbox);
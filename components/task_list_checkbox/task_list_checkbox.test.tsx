@@ -0,0 +1,41 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {shallow} from 'enzyme';
+
+import TaskListCheckbox from 'components/task_list_checkbox/task_list_checkbox';
+
+describe('components/TaskListCheckbox', () => {
+    const defaultProps = {
+        postId: 'post_id',
+        index: 2,
+        checked: false,
+        canEdit: true,
+        actions: {
+            toggleTaskListItem: jest.fn(() => Promise.resolve({data: true})),
+        },
+    };
+
+    test('should be disabled for users who cannot edit the post', () => {
+        const wrapper = shallow(
+            <TaskListCheckbox
+                {...defaultProps}
+                canEdit={false}
+            />,
+        );
+
+        expect(wrapper.prop('disabled')).toBe(true);
+    });
+
+    test('should toggle the item when changed', async () => {
+        const wrapper = shallow(<TaskListCheckbox {...defaultProps}/>);
+
+        wrapper.simulate('change');
+        expect(wrapper.prop('disabled')).toBe(true);
+        expect(defaultProps.actions.toggleTaskListItem).toHaveBeenCalledWith('post_id', 2, true);
+
+        await Promise.resolve();
+        expect(wrapper.prop('disabled')).toBe(false);
+    });
+});
@@ -0,0 +1,54 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import {ActionResult} from 'mattermost-redux/types/actions';
+
+export type Props = {
+    postId: string;
+
+    // index is the position of the item among the task list items in the post's message
+    index: number;
+    checked: boolean;
+    canEdit: boolean;
+    actions: {
+        toggleTaskListItem: (postId: string, index: number, checked: boolean) => Promise<ActionResult>;
+    };
+};
+
+type State = {
+    saving: boolean;
+};
+
+// TaskListCheckbox renders the checkbox of a task list item in a post. Users who are allowed to edit the post can
+// check it off, which updates the post's message for everyone in the channel.
+export default class TaskListCheckbox extends React.PureComponent<Props, State> {
+    constructor(props: Props) {
+        super(props);
+
+        this.state = {
+            saving: false,
+        };
+    }
+
+    handleChange = async () => {
+        this.setState({saving: true});
+
+        await this.props.actions.toggleTaskListItem(this.props.postId, this.props.index, !this.props.checked);
+
+        this.setState({saving: false});
+    }
+
+    render() {
+        return (
+            <input
+                type='checkbox'
+                className='task-list-checkbox'
+                checked={this.props.checked}
+                disabled={!this.props.canEdit || this.state.saving}
+                onChange={this.handleChange}
+            />
+        );
+    }
+}
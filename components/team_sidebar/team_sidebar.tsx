@@ -20,6 +20,7 @@ import {Team, TeamMembership} from 'mattermost-redux/types/teams';
 import {GenericAction, GetStateFunc} from 'mattermost-redux/types/actions';
 
 import {Constants} from 'utils/constants.jsx';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import {filterAndSortTeamsByDisplayName} from 'utils/team_utils.jsx';
 import * as Utils from 'utils/utils.jsx';
 
@@ -96,10 +97,16 @@ export default class TeamSidebar extends React.PureComponent<Props, State> {
         };
     }
 
-    switchToPrevOrNextTeam = (e: KeyboardEvent, currentTeamId: string, teams: Team[]) => {
-        if (Utils.isKeyPressed(e, Constants.KeyCodes.UP) || Utils.isKeyPressed(e, Constants.KeyCodes.DOWN)) {
+    getSortedTeams = () => {
+        return filterAndSortTeamsByDisplayName(this.props.myTeams, this.props.locale, this.props.userTeamsOrderPreference);
+    }
+
+    switchToPrevOrNextTeam = (e: KeyboardEvent, currentTeamId: string) => {
+        const previous = Utils.isShortcutPressed(e, ShortcutActionIds.TEAM_PREV);
+        if (previous || Utils.isShortcutPressed(e, ShortcutActionIds.TEAM_NEXT)) {
             e.preventDefault();
-            const delta = Utils.isKeyPressed(e, Constants.KeyCodes.DOWN) ? 1 : -1;
+            const teams = this.getSortedTeams();
+            const delta = previous ? -1 : 1;
             const pos = teams.findIndex((team: Team) => team.id === currentTeamId);
             const newPos = pos + delta;
 
@@ -149,15 +156,14 @@ export default class TeamSidebar extends React.PureComponent<Props, State> {
     }
 
     handleKeyDown = (e: KeyboardEvent) => {
-        if ((e.ctrlKey || e.metaKey) && e.altKey) {
-            const {currentTeamId} = this.props;
-            const teams = filterAndSortTeamsByDisplayName(this.props.myTeams, this.props.locale, this.props.userTeamsOrderPreference);
+        const {currentTeamId} = this.props;
 
-            if (this.switchToPrevOrNextTeam(e, currentTeamId, teams)) {
-                return;
-            }
+        if (this.switchToPrevOrNextTeam(e, currentTeamId)) {
+            return;
+        }
 
-            if (this.switchToTeamByNumber(e, currentTeamId, teams)) {
+        if ((e.ctrlKey || e.metaKey) && e.altKey) {
+            if (this.switchToTeamByNumber(e, currentTeamId, this.getSortedTeams())) {
                 return;
             }
 
@@ -43,18 +43,22 @@ import ChatIllustration from '../common/chat_illustration';
 import ThreadViewer from '../thread_viewer';
 
 import {browserHistory} from 'utils/browser_history';
+import {makeEmptyThreadListFilter} from 'utils/thread_views';
 
-import ThreadList, {ThreadFilter, FILTER_STORAGE_KEY} from './thread_list';
+import ThreadList, {ThreadFilter, FILTER_STORAGE_KEY, LIST_FILTER_STORAGE_KEY} from './thread_list';
 import ThreadPane from './thread_pane';
 
 import './global_threads.scss';
 
+const emptyListFilter = makeEmptyThreadListFilter();
+
 const GlobalThreads = () => {
     const {formatMessage} = useIntl();
     const dispatch = useDispatch();
 
     const {url, params: {threadIdentifier}} = useRouteMatch<{threadIdentifier?: string}>();
     const [filter, setFilter] = useGlobalState(ThreadFilter.none, FILTER_STORAGE_KEY);
+    const [listFilter, setListFilter] = useGlobalState(emptyListFilter, LIST_FILTER_STORAGE_KEY);
     const {currentTeamId, currentUserId, clear} = useThreadRouting();
 
     const counts = useSelector(getThreadCountsInCurrentTeam);
@@ -192,6 +196,8 @@ const GlobalThreads = () => {
                     <ThreadList
                         currentFilter={filter}
                         setFilter={setFilter}
+                        listFilter={listFilter}
+                        setListFilter={setListFilter}
                         someUnread={Boolean(numUnread)}
                         selectedThreadId={threadIdentifier}
                         ids={threadIds}
@@ -150,4 +150,34 @@ describe('components/threading/global_threads/thread_item', () => {
 
         expect(spy).toHaveBeenCalledWith({}, '/tname');
     });
+
+    test('should open the thread on click', () => {
+        const onMultiSelect = jest.fn();
+        const wrapper = shallow(
+            <ThreadItem
+                {...props}
+                onMultiSelect={onMultiSelect}
+            />,
+        );
+        wrapper.find('article').simulate('click', {shiftKey: false});
+
+        expect(mockRouting.select).toHaveBeenCalledWith(mockThread.id);
+        expect(onMultiSelect).not.toHaveBeenCalled();
+    });
+
+    test('should check the thread on shift-click instead of opening it', () => {
+        mockRouting.select.mockClear();
+        const onMultiSelect = jest.fn();
+        const wrapper = shallow(
+            <ThreadItem
+                {...props}
+                onMultiSelect={onMultiSelect}
+            />,
+        );
+        const event = {shiftKey: true};
+        wrapper.find('article').simulate('click', event);
+
+        expect(onMultiSelect).toHaveBeenCalledWith(mockThread.id, event);
+        expect(mockRouting.select).not.toHaveBeenCalled();
+    });
 });
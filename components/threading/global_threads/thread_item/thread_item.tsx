@@ -35,6 +35,10 @@ export type OwnProps = {
     isSelected: boolean;
     threadId: UserThread['id'];
     style?: any;
+
+    // isChecked is true when the thread is selected for bulk actions
+    isChecked?: boolean;
+    onMultiSelect?: (threadId: UserThread['id'], e: MouseEvent) => void;
 };
 
 type Props = {
@@ -56,7 +60,9 @@ function ThreadItem({
     channel,
     currentRelativeTeamUrl,
     displayName,
+    isChecked = false,
     isSelected,
+    onMultiSelect,
     post,
     postsInThread,
     style,
@@ -92,7 +98,14 @@ function ThreadItem({
         return [post.user_id, ...ids];
     }, [thread?.participants]);
 
-    const selectHandler = useCallback(() => select(threadId), []);
+    const selectHandler = useCallback((e: MouseEvent) => {
+        if (onMultiSelect && (e.shiftKey || Utils.cmdOrCtrlPressed(e))) {
+            onMultiSelect(threadId, e);
+            return;
+        }
+
+        select(threadId);
+    }, [threadId, onMultiSelect]);
 
     const imageProps = useMemo(() => ({
         onImageHeightChanged: () => {},
@@ -135,6 +148,7 @@ function ThreadItem({
             className={classNames('ThreadItem', {
                 'has-unreads': newReplies,
                 'is-selected': isSelected,
+                'is-checked': isChecked,
             })}
             tabIndex={0}
             onClick={selectHandler}
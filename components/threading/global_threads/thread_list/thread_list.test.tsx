@@ -5,14 +5,22 @@ import React, {ComponentProps} from 'react';
 
 import {shallow} from 'enzyme';
 
-import {markAllThreadsInTeamRead} from 'mattermost-redux/actions/threads';
+import {markAllThreadsInTeamRead, markThreadsRead, setThreadsFollow} from 'mattermost-redux/actions/threads';
 jest.mock('mattermost-redux/actions/threads');
 
+import {saveThreadViews} from 'actions/views/threads';
+jest.mock('actions/views/threads');
+
 import Header from 'components/widgets/header';
+import Menu from 'components/widgets/menu/menu';
+
+import {makeEmptyThreadListFilter} from 'utils/thread_views';
 
 import Button from '../../common/button';
 
 import ThreadList, {ThreadFilter} from './thread_list';
+import ThreadListFilters from './thread_list_filters';
+import VirtualizedThreadList from './virtualized_thread_list';
 
 const mockRouting = {
     currentUserId: 'uid',
@@ -45,11 +53,21 @@ describe('components/threading/global_threads/thread_list', () => {
             ids: ['1', '2', '3'],
             unreadIds: ['2'],
             setFilter: jest.fn(),
+            listFilter: makeEmptyThreadListFilter(),
+            setListFilter: jest.fn(),
         };
 
+        mockDispatch.mockReset();
+        mockDispatch.mockResolvedValue({data: true});
+
         mockState = {
             entities: {
                 threads: {
+                    threads: {
+                        1: {id: '1', unread_mentions: 0, participants: [], post: {channel_id: 'channel1', user_id: 'user1'}},
+                        2: {id: '2', unread_mentions: 1, participants: [], post: {channel_id: 'channel1', user_id: 'user1'}},
+                        3: {id: '3', unread_mentions: 0, participants: [], post: {channel_id: 'channel2', user_id: 'user1'}},
+                    },
                     countsIncludingDirect: {
                         tid: {
                             total: 0,
@@ -61,6 +79,17 @@ describe('components/threading/global_threads/thread_list', () => {
                 teams: {
                     currentTeamId: 'tid',
                 },
+                preferences: {
+                    myPreferences: {},
+                },
+                posts: {
+                    posts: {},
+                    postsInThread: {},
+                },
+                users: {
+                    currentUserId: 'uid',
+                    profiles: {},
+                },
             },
         };
     });
@@ -98,4 +127,86 @@ describe('components/threading/global_threads/thread_list', () => {
         wrapper.find(Header).shallow().find({content: 'Mark all as read'}).find(Button).simulate('click');
         expect(markAllThreadsInTeamRead).toHaveBeenCalledWith('uid', 'tid');
     });
+
+    test('should only list threads which match the filters', () => {
+        props.listFilter = {...makeEmptyThreadListFilter(), channelIds: ['channel1']};
+
+        const wrapper = shallow(
+            <ThreadList {...props}/>,
+        );
+
+        expect(wrapper.find(VirtualizedThreadList).prop('ids')).toEqual(['1', '2']);
+    });
+
+    test('should show the filters', () => {
+        // Enzyme doesn't render a memoized component again when its state changes, so the component inside of memo is
+        // rendered instead
+        const wrapper = shallow(
+            <ThreadList.type {...props}/>,
+        );
+        expect(wrapper.exists(ThreadListFilters)).toBe(false);
+
+        wrapper.find(Header).shallow().find({content: 'Filter threads'}).find(Button).simulate('click');
+        expect(wrapper.exists(ThreadListFilters)).toBe(true);
+    });
+
+    test('should apply a saved view', () => {
+        const view = {id: 'view1', name: 'Mentions', unreadOnly: true, filter: {...makeEmptyThreadListFilter(), mentionsOnly: true}};
+        mockState.entities.preferences.myPreferences = {
+            'display_settings--saved_thread_views': {category: 'display_settings', name: 'saved_thread_views', value: JSON.stringify([view])},
+        };
+
+        const wrapper = shallow(
+            <ThreadList {...props}/>,
+        );
+
+        wrapper.find(Header).shallow().find(Menu.ItemAction).simulate('click');
+        expect(props.setFilter).toHaveBeenCalledWith('unread');
+        expect(props.setListFilter).toHaveBeenCalledWith(view.filter);
+    });
+
+    test('should save the current filters as a view', () => {
+        props.listFilter = {...makeEmptyThreadListFilter(), mentionsOnly: true};
+
+        const wrapper = shallow(
+            <ThreadList.type {...props}/>,
+        );
+
+        wrapper.find(Header).shallow().find({content: 'Filter threads'}).find(Button).simulate('click');
+        wrapper.find(ThreadListFilters).prop('onSaveView')('Mentions');
+
+        expect(saveThreadViews).toHaveBeenCalledWith([
+            expect.objectContaining({name: 'Mentions', unreadOnly: false, filter: props.listFilter}),
+        ]);
+    });
+
+    test('should show an error when the view can\'t be saved', async () => {
+        mockDispatch.mockResolvedValueOnce({error: {message: 'You have too many saved views.'}});
+
+        const wrapper = shallow(
+            <ThreadList.type {...props}/>,
+        );
+
+        wrapper.find(Header).shallow().find({content: 'Filter threads'}).find(Button).simulate('click');
+        await wrapper.find(ThreadListFilters).prop('onSaveView')('Mentions');
+
+        expect(wrapper.find(ThreadListFilters).prop('saveViewError')).toBe('You have too many saved views.');
+    });
+
+    test('should apply bulk actions to the checked threads', () => {
+        const wrapper = shallow(
+            <ThreadList.type {...props}/>,
+        );
+
+        wrapper.find(VirtualizedThreadList).prop('onCheckedIdsChange')(['1', '3']);
+
+        wrapper.find('.ThreadList__bulkActions').find(Button).at(0).simulate('click');
+        expect(markThreadsRead).toHaveBeenCalledWith('uid', 'tid', ['1', '3'], expect.any(Number));
+        expect(wrapper.exists('.ThreadList__bulkActions')).toBe(false);
+
+        wrapper.find(VirtualizedThreadList).prop('onCheckedIdsChange')(['2']);
+
+        wrapper.find('.ThreadList__bulkActions').find(Button).at(2).simulate('click');
+        expect(setThreadsFollow).toHaveBeenCalledWith('uid', 'tid', ['2'], false);
+    });
 });
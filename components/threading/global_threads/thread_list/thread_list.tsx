@@ -1,29 +1,39 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import React, {memo, useCallback, PropsWithChildren, useEffect} from 'react';
+import React, {memo, useCallback, PropsWithChildren, useEffect, useMemo, useState} from 'react';
 import {FormattedMessage, useIntl} from 'react-intl';
-import {useDispatch, useSelector} from 'react-redux';
-import {isEmpty} from 'lodash';
+import {shallowEqual, useDispatch, useSelector} from 'react-redux';
+import {isEmpty, isEqual} from 'lodash';
 
 import * as Utils from 'utils/utils';
 
 import {getThreadCountsInCurrentTeam} from 'mattermost-redux/selectors/entities/threads';
-import {getThreads, markAllThreadsInTeamRead} from 'mattermost-redux/actions/threads';
+import {getThreads, markAllThreadsInTeamRead, markThreadsRead, setThreadsFollow} from 'mattermost-redux/actions/threads';
+import {ActionResult} from 'mattermost-redux/types/actions';
 import {UserThread} from 'mattermost-redux/types/threads';
 import {trackEvent} from 'actions/telemetry_actions';
+import {saveThreadViews} from 'actions/views/threads';
+import {getSavedThreadViews, makeGetFilteredThreadIds} from 'selectors/views/threads';
 
 import {Constants} from 'utils/constants';
+import {isThreadListFilterEmpty} from 'utils/thread_views';
+
+import {GlobalState} from 'types/store';
+import type {SavedThreadView, ThreadListFilter} from 'types/store/thread_views';
 
 import NoResultsIndicator from 'components/no_results_indicator';
 import SimpleTooltip from 'components/widgets/simple_tooltip';
 import Header from 'components/widgets/header';
+import Menu from 'components/widgets/menu/menu';
+import MenuWrapper from 'components/widgets/menu/menu_wrapper';
 
 import Button from '../../common/button';
 import BalloonIllustration from '../../common/balloon_illustration';
 
 import {useThreadRouting} from '../../hooks';
 
+import ThreadListFilters from './thread_list_filters';
 import VirtualizedThreadList from './virtualized_thread_list';
 
 import './thread_list.scss';
@@ -34,11 +44,14 @@ export enum ThreadFilter {
 }
 
 export const FILTER_STORAGE_KEY = 'globalThreads_filter';
+export const LIST_FILTER_STORAGE_KEY = 'globalThreads_listFilter';
 
 type Props = {
     currentFilter: ThreadFilter;
     someUnread: boolean;
     setFilter: (filter: ThreadFilter) => void;
+    listFilter: ThreadListFilter;
+    setListFilter: (filter: ThreadListFilter) => void;
     selectedThreadId?: UserThread['id'];
     ids: Array<UserThread['id']>;
     unreadIds: Array<UserThread['id']>;
@@ -48,20 +61,47 @@ const ThreadList = ({
     currentFilter = ThreadFilter.none,
     someUnread,
     setFilter,
+    listFilter,
+    setListFilter,
     selectedThreadId,
     unreadIds,
     ids,
 }: PropsWithChildren<Props>) => {
     const unread = ThreadFilter.unread === currentFilter;
-    const data = unread ? unreadIds : ids;
+    const loadedIds = unread ? unreadIds : ids;
+    const isFiltered = !isThreadListFilterEmpty(listFilter);
     const ref = React.useRef<HTMLDivElement>(null);
 
     const {formatMessage} = useIntl();
     const dispatch = useDispatch();
     const {currentTeamId, currentUserId, clear, select} = useThreadRouting();
 
+    const getFilteredThreadIds = useMemo(makeGetFilteredThreadIds, []);
+    const data = useSelector((state: GlobalState) => getFilteredThreadIds(state, loadedIds, listFilter, selectedThreadId), shallowEqual);
+    const savedViews = useSelector(getSavedThreadViews);
+
+    const [showFilters, setShowFilters] = useState(false);
+    const [checkedIds, setCheckedIds] = useState<Array<UserThread['id']>>([]);
+    const [isLoadingMore, setLoadingMore] = useState(false);
+    const [saveViewError, setSaveViewError] = useState('');
+    const requestedLengthRef = React.useRef(-1);
+
     const {total = 0, total_unread_threads: totalUnread} = useSelector(getThreadCountsInCurrentTeam);
 
+    // The server can't filter by anything but unread, so a filtered list only knows whether there are more threads to load
+    const loadedTotal = unread ? totalUnread : total;
+    const hasMore = loadedIds.length < loadedTotal;
+    const listTotal = isFiltered ? data.length + (hasMore ? 1 : 0) : loadedTotal;
+
+    const activeView = savedViews.find((view) => view.unreadOnly === unread && isEqual(view.filter, listFilter));
+
+    // Threads which are checked stay checked while they're in the list
+    const checked = useMemo(() => checkedIds.filter((id) => data.includes(id)), [checkedIds, data]);
+
+    useEffect(() => {
+        setCheckedIds([]);
+    }, [currentFilter, listFilter]);
+
     const handleKeyDown = useCallback((e: KeyboardEvent) => {
         // Ensure that arrow keys navigation is not triggered if the textbox is focused
         const target = e.target as HTMLElement;
@@ -73,6 +113,11 @@ const ThreadList = ({
             return;
         }
 
+        // Shift and the arrow keys check threads instead
+        if (e.shiftKey) {
+            return;
+        }
+
         let threadIdToSelect = 0;
         if (selectedThreadId) {
             const selectedThreadIndex = data.indexOf(selectedThreadId);
@@ -117,15 +162,35 @@ const ThreadList = ({
     }, [setFilter]);
 
     const handleLoadMoreItems = useCallback(async (startIndex) => {
-        let before = data[startIndex - 1];
+        // A filtered list continues after the last thread that was loaded, whether or not it matched
+        const list = isFiltered ? loadedIds : data;
+        const index = isFiltered ? loadedIds.length : startIndex;
+
+        let before = list[index - 1];
 
         if (before === selectedThreadId) {
-            before = data[startIndex - 2];
+            before = list[index - 2];
         }
 
         await dispatch(getThreads(currentUserId, currentTeamId, {unread, perPage: Constants.THREADS_PAGE_SIZE, before}));
         return {data: true};
-    }, [currentTeamId, data, unread, selectedThreadId]);
+    }, [currentTeamId, data, loadedIds, isFiltered, unread, selectedThreadId]);
+
+    useEffect(() => {
+        // Keep loading pages until enough threads match the filters to fill the list or every thread has been loaded
+        if (!isFiltered || isLoadingMore || !hasMore || data.length >= Constants.THREADS_PAGE_SIZE) {
+            return;
+        }
+
+        // Stop if the last page didn't load any threads
+        if (requestedLengthRef.current === loadedIds.length) {
+            return;
+        }
+
+        requestedLengthRef.current = loadedIds.length;
+        setLoadingMore(true);
+        handleLoadMoreItems(loadedIds.length).then(() => setLoadingMore(false));
+    }, [isFiltered, isLoadingMore, hasMore, data.length, loadedIds.length, handleLoadMoreItems]);
 
     const handleAllMarkedRead = useCallback(() => {
         trackEvent('crt', 'mark_all_threads_read');
@@ -135,6 +200,56 @@ const ThreadList = ({
         }
     }, [currentTeamId, currentUserId, currentFilter]);
 
+    const handleToggleFilters = useCallback(() => {
+        setShowFilters(!showFilters);
+    }, [showFilters]);
+
+    const handleApplyView = useCallback((view: SavedThreadView) => {
+        trackEvent('crt', 'apply_saved_thread_view');
+        setFilter(view.unreadOnly ? ThreadFilter.unread : ThreadFilter.none);
+        setListFilter(view.filter);
+    }, [setFilter, setListFilter]);
+
+    const handleSaveView = useCallback(async (name: string) => {
+        const view = {
+            id: Utils.generateId(),
+            name,
+            unreadOnly: unread,
+            filter: listFilter,
+        };
+
+        // Saving a view with the same name as another replaces it
+        const {error} = await dispatch(saveThreadViews([...savedViews.filter((v) => v.name !== name), view])) as ActionResult;
+        setSaveViewError(error ? error.message : '');
+    }, [savedViews, unread, listFilter]);
+
+    const handleDeleteView = useCallback((view: SavedThreadView) => {
+        setSaveViewError('');
+        dispatch(saveThreadViews(savedViews.filter((v) => v.id !== view.id)));
+    }, [savedViews]);
+
+    const handleBulkMarkRead = useCallback(() => {
+        trackEvent('crt', 'bulk_mark_threads_read');
+        dispatch(markThreadsRead(currentUserId, currentTeamId, checked, Date.now()));
+        setCheckedIds([]);
+    }, [currentUserId, currentTeamId, checked]);
+
+    const handleBulkFollow = useCallback(() => {
+        trackEvent('crt', 'bulk_follow_threads');
+        dispatch(setThreadsFollow(currentUserId, currentTeamId, checked, true));
+        setCheckedIds([]);
+    }, [currentUserId, currentTeamId, checked]);
+
+    const handleBulkUnfollow = useCallback(() => {
+        trackEvent('crt', 'bulk_unfollow_threads');
+        dispatch(setThreadsFollow(currentUserId, currentTeamId, checked, false));
+        setCheckedIds([]);
+    }, [currentUserId, currentTeamId, checked]);
+
+    const handleClearChecked = useCallback(() => {
+        setCheckedIds([]);
+    }, []);
+
     return (
         <div
             tabIndex={0}
@@ -165,10 +280,59 @@ const ThreadList = ({
                                 defaultMessage='Unreads'
                             />
                         </Button>
+                        {savedViews.length > 0 && (
+                            <MenuWrapper>
+                                <Button
+                                    className={'Button___large Margined'}
+                                    isActive={Boolean(activeView)}
+                                    append={<i className='icon-chevron-down'/>}
+                                >
+                                    {activeView ? activeView.name : (
+                                        <FormattedMessage
+                                            id='threading.filters.savedViews'
+                                            defaultMessage='Saved views'
+                                        />
+                                    )}
+                                </Button>
+                                <Menu
+                                    ariaLabel={formatMessage({
+                                        id: 'threading.filters.savedViews',
+                                        defaultMessage: 'Saved views',
+                                    })}
+                                >
+                                    {savedViews.map((view) => (
+                                        <Menu.ItemAction
+                                            key={view.id}
+                                            id={`threadView-${view.id}`}
+                                            text={view.name}
+                                            onClick={() => handleApplyView(view)}
+                                        />
+                                    ))}
+                                </Menu>
+                            </MenuWrapper>
+                        )}
                     </>
                 )}
                 right={(
                     <div className='right-anchor'>
+                        <SimpleTooltip
+                            id='threadListFilter'
+                            content={formatMessage({
+                                id: 'threading.threadList.filter',
+                                defaultMessage: 'Filter threads',
+                            })}
+                        >
+                            <Button
+                                className={'Button___large Button___icon'}
+                                isActive={showFilters}
+                                hasDot={isFiltered}
+                                onClick={handleToggleFilters}
+                            >
+                                <span className='Icon'>
+                                    <i className='icon-filter-variant'/>
+                                </span>
+                            </Button>
+                        </SimpleTooltip>
                         <SimpleTooltip
                             id='threadListMarkRead'
                             content={formatMessage({
@@ -188,15 +352,95 @@ const ThreadList = ({
                     </div>
                 )}
             />
+            {(showFilters || checked.length > 0) && (
+                <div className='ThreadList__toolbar'>
+                    {showFilters && (
+                        <ThreadListFilters
+                            filter={listFilter}
+                            onChange={setListFilter}
+                            activeView={activeView}
+                            onSaveView={handleSaveView}
+                            onDeleteView={handleDeleteView}
+                            saveViewError={saveViewError}
+                        />
+                    )}
+                    {checked.length > 0 && (
+                        <div className='ThreadList__bulkActions'>
+                            <span className='ThreadList__bulkActionsCount'>
+                                <FormattedMessage
+                                    id='threading.bulkActions.count'
+                                    defaultMessage='{count, plural, =1 {# thread} other {# threads}} selected'
+                                    values={{count: checked.length}}
+                                />
+                            </span>
+                            <Button
+                                className='Button___large'
+                                onClick={handleBulkMarkRead}
+                            >
+                                <FormattedMessage
+                                    id='threading.bulkActions.markRead'
+                                    defaultMessage='Mark as read'
+                                />
+                            </Button>
+                            <Button
+                                className='Button___large'
+                                onClick={handleBulkFollow}
+                            >
+                                <FormattedMessage
+                                    id='threading.bulkActions.follow'
+                                    defaultMessage='Follow'
+                                />
+                            </Button>
+                            <Button
+                                className='Button___large'
+                                onClick={handleBulkUnfollow}
+                            >
+                                <FormattedMessage
+                                    id='threading.bulkActions.unfollow'
+                                    defaultMessage='Unfollow'
+                                />
+                            </Button>
+                            <SimpleTooltip
+                                id='threadListClearSelection'
+                                content={formatMessage({
+                                    id: 'threading.bulkActions.clear',
+                                    defaultMessage: 'Clear selection',
+                                })}
+                            >
+                                <Button
+                                    className='Button___large Button___icon'
+                                    onClick={handleClearChecked}
+                                >
+                                    <span className='Icon'>
+                                        <i className='icon-close'/>
+                                    </span>
+                                </Button>
+                            </SimpleTooltip>
+                        </div>
+                    )}
+                </div>
+            )}
             <div className='threads'>
                 <VirtualizedThreadList
-                    key={`threads_list_${currentFilter}`}
+                    key={`threads_list_${currentFilter}${isFiltered ? JSON.stringify(listFilter) : ''}`}
                     loadMoreItems={handleLoadMoreItems}
                     ids={data}
                     selectedThreadId={selectedThreadId}
-                    total={unread ? totalUnread : total}
+                    total={listTotal}
+                    checkedIds={checked}
+                    onCheckedIdsChange={setCheckedIds}
                 />
-                {unread && !someUnread && isEmpty(unreadIds) ? (
+                {isFiltered && isEmpty(data) && !hasMore ? (
+                    <NoResultsIndicator
+                        expanded={true}
+                        iconGraphic={BalloonIllustration}
+                        title={formatMessage({
+                            id: 'globalThreads.threadList.noMatchingThreads',
+                            defaultMessage: 'No threads match these filters',
+                        })}
+                    />
+                ) : null}
+                {!isFiltered && unread && !someUnread && isEmpty(unreadIds) ? (
                     <NoResultsIndicator
                         expanded={true}
                         iconGraphic={BalloonIllustration}
@@ -0,0 +1,245 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {ChangeEvent, memo, useMemo, useState} from 'react';
+import ReactSelect, {ValueType} from 'react-select';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useSelector} from 'react-redux';
+
+import {getMyChannels} from 'mattermost-redux/selectors/entities/channels';
+import {getUsers} from 'mattermost-redux/selectors/entities/common';
+
+import {isThreadListFilterEmpty, makeEmptyThreadListFilter} from 'utils/thread_views';
+
+import type {SavedThreadView, ThreadListFilter} from 'types/store/thread_views';
+
+import Button from '../../common/button';
+
+type Option = {
+    value: string;
+    label: string;
+};
+
+type Props = {
+    filter: ThreadListFilter;
+    onChange: (filter: ThreadListFilter) => void;
+
+    // The saved view which matches the current filters, if any
+    activeView?: SavedThreadView;
+    onSaveView: (name: string) => void;
+    onDeleteView: (view: SavedThreadView) => void;
+    saveViewError?: string;
+};
+
+// formatDateInput formats a timestamp as the value of a date input in the user's time zone
+export function formatDateInput(timestamp: number) {
+    if (!timestamp) {
+        return '';
+    }
+
+    const date = new Date(timestamp);
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// parseDateInput returns the start or the end of the day chosen in a date input in the user's time zone
+export function parseDateInput(value: string, endOfDay = false) {
+    const [year, month, day] = value.split('-').map((part) => parseInt(part, 10));
+    if (isNaN(year) || isNaN(month) || isNaN(day)) {
+        return 0;
+    }
+
+    if (endOfDay) {
+        return new Date(year, month - 1, day, 23, 59, 59, 999).getTime();
+    }
+
+    return new Date(year, month - 1, day).getTime();
+}
+
+const ThreadListFilters = ({
+    filter,
+    onChange,
+    activeView,
+    onSaveView,
+    onDeleteView,
+    saveViewError,
+}: Props) => {
+    const {formatMessage} = useIntl();
+    const [viewName, setViewName] = useState('');
+
+    const users = useSelector(getUsers);
+    const channels = useSelector(getMyChannels);
+
+    const userOptions = useMemo(() => Object.values(users).
+        filter((user) => !user.delete_at).
+        map((user) => ({value: user.id, label: `@${user.username}`})).
+        sort((a, b) => a.label.localeCompare(b.label)), [users]);
+
+    const channelOptions = useMemo(() => channels.
+        map((channel) => ({value: channel.id, label: channel.display_name})).
+        sort((a, b) => a.label.localeCompare(b.label)), [channels]);
+
+    const updateFilter = (changes: Partial<ThreadListFilter>) => {
+        onChange({...filter, ...changes});
+    };
+
+    const handleChannelsChange = (selected: ValueType<Option>) => {
+        updateFilter({channelIds: ((selected || []) as Option[]).map((option) => option.value)});
+    };
+
+    const handleParticipantsChange = (selected: ValueType<Option>) => {
+        updateFilter({participantIds: ((selected || []) as Option[]).map((option) => option.value)});
+    };
+
+    const handleMentionsOnlyChange = (e: ChangeEvent<HTMLInputElement>) => {
+        updateFilter({mentionsOnly: e.target.checked});
+    };
+
+    const handleSinceChange = (e: ChangeEvent<HTMLInputElement>) => {
+        updateFilter({since: parseDateInput(e.target.value)});
+    };
+
+    const handleUntilChange = (e: ChangeEvent<HTMLInputElement>) => {
+        updateFilter({until: parseDateInput(e.target.value, true)});
+    };
+
+    const handleClear = () => {
+        onChange(makeEmptyThreadListFilter());
+    };
+
+    const handleViewNameChange = (e: ChangeEvent<HTMLInputElement>) => {
+        setViewName(e.target.value);
+    };
+
+    const handleSaveView = () => {
+        onSaveView(viewName.trim());
+        setViewName('');
+    };
+
+    const handleDeleteView = () => {
+        if (activeView) {
+            onDeleteView(activeView);
+        }
+    };
+
+    return (
+        <div className='ThreadListFilters'>
+            <label className='ThreadListFilters__field'>
+                <FormattedMessage
+                    id='threading.filters.channels'
+                    defaultMessage='In channels'
+                />
+                <ReactSelect
+                    isMulti={true}
+                    options={channelOptions}
+                    value={channelOptions.filter((option) => filter.channelIds.includes(option.value))}
+                    onChange={handleChannelsChange}
+                    placeholder={formatMessage({id: 'threading.filters.anyChannel', defaultMessage: 'Any channel'})}
+                />
+            </label>
+            <label className='ThreadListFilters__field'>
+                <FormattedMessage
+                    id='threading.filters.participants'
+                    defaultMessage='With participants'
+                />
+                <ReactSelect
+                    isMulti={true}
+                    options={userOptions}
+                    value={userOptions.filter((option) => filter.participantIds.includes(option.value))}
+                    onChange={handleParticipantsChange}
+                    placeholder={formatMessage({id: 'threading.filters.anyone', defaultMessage: 'Anyone'})}
+                />
+            </label>
+            <div className='ThreadListFilters__row'>
+                <label>
+                    <FormattedMessage
+                        id='threading.filters.since'
+                        defaultMessage='Last reply from'
+                    />
+                    <input
+                        type='date'
+                        className='form-control'
+                        value={formatDateInput(filter.since)}
+                        onChange={handleSinceChange}
+                    />
+                </label>
+                <label>
+                    <FormattedMessage
+                        id='threading.filters.until'
+                        defaultMessage='to'
+                    />
+                    <input
+                        type='date'
+                        className='form-control'
+                        value={formatDateInput(filter.until)}
+                        onChange={handleUntilChange}
+                    />
+                </label>
+            </div>
+            <label className='ThreadListFilters__checkbox'>
+                <input
+                    type='checkbox'
+                    checked={filter.mentionsOnly}
+                    onChange={handleMentionsOnlyChange}
+                />
+                <FormattedMessage
+                    id='threading.filters.mentionsOnly'
+                    defaultMessage='Only threads that mention me'
+                />
+            </label>
+            <div className='ThreadListFilters__row'>
+                <input
+                    type='text'
+                    className='form-control'
+                    maxLength={64}
+                    value={viewName}
+                    onChange={handleViewNameChange}
+                    placeholder={formatMessage({id: 'threading.filters.viewName', defaultMessage: 'Name this view'})}
+                />
+                <Button
+                    className='Button___large'
+                    disabled={!viewName.trim()}
+                    onClick={handleSaveView}
+                >
+                    <FormattedMessage
+                        id='threading.filters.saveView'
+                        defaultMessage='Save view'
+                    />
+                </Button>
+            </div>
+            {saveViewError && (
+                <div className='ThreadListFilters__row'>
+                    <label className='has-error'>{saveViewError}</label>
+                </div>
+            )}
+            <div className='ThreadListFilters__row'>
+                <Button
+                    className='Button___large'
+                    disabled={isThreadListFilterEmpty(filter)}
+                    onClick={handleClear}
+                >
+                    <FormattedMessage
+                        id='threading.filters.clear'
+                        defaultMessage='Clear filters'
+                    />
+                </Button>
+                {activeView && (
+                    <Button
+                        className='Button___large'
+                        onClick={handleDeleteView}
+                    >
+                        <FormattedMessage
+                            id='threading.filters.deleteView'
+                            defaultMessage='Delete "{name}"'
+                            values={{name: activeView.name}}
+                        />
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default memo(ThreadListFilters);
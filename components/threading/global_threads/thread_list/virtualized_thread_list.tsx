@@ -1,7 +1,7 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import React, {memo, useCallback, useEffect, useMemo} from 'react';
+import React, {memo, useCallback, useEffect, useMemo, KeyboardEvent, MouseEvent} from 'react';
 import AutoSizer from 'react-virtualized-auto-sizer';
 import InfiniteLoader from 'react-window-infinite-loader';
 import {FixedSizeList} from 'react-window';
@@ -9,6 +9,7 @@ import {FixedSizeList} from 'react-window';
 import {UserThread} from 'mattermost-redux/types/threads';
 
 import {Constants} from 'utils/constants';
+import * as Utils from 'utils/utils';
 
 import Row from './virtualized_thread_list_row';
 
@@ -17,22 +18,37 @@ type Props = {
     loadMoreItems: (startIndex: number, stopIndex: number) => Promise<any>;
     selectedThreadId?: UserThread['id'];
     total: number;
+
+    // The threads which are selected for bulk actions, as opposed to the thread which is open
+    checkedIds: Array<UserThread['id']>;
+    onCheckedIdsChange: (checkedIds: Array<UserThread['id']>) => void;
 };
 
 const style = {
     willChange: 'auto',
 };
 
+function isTextInput(target: EventTarget | null) {
+    const element = target as HTMLElement;
+    return element?.tagName === 'INPUT' || element?.tagName === 'TEXTAREA' || element?.isContentEditable;
+}
+
 function VirtualizedThreadList({
     ids,
     selectedThreadId,
     loadMoreItems,
     total,
+    checkedIds,
+    onCheckedIdsChange,
 }: Props) {
     const infiniteLoaderRef = React.useRef<any>();
     const startIndexRef = React.useRef<number>(0);
     const stopIndexRef = React.useRef<number>(0);
 
+    // A range of checked threads extends from the anchor, where it was started, to the focus, where it was last extended
+    const anchorIdRef = React.useRef<UserThread['id']>();
+    const focusIdRef = React.useRef<UserThread['id']>();
+
     const itemKey = useCallback((index) => ids[index], [ids]);
 
     useEffect(() => {
@@ -45,63 +61,148 @@ function VirtualizedThreadList({
         }
     }, [selectedThreadId, ids]);
 
-    const data = useMemo(() => ({ids, selectedThreadId}), [ids, selectedThreadId]);
+    const checkRange = useCallback((anchorId: UserThread['id'], focusId: UserThread['id']) => {
+        const anchorIndex = ids.indexOf(anchorId);
+        const focusIndex = ids.indexOf(focusId);
+        if (anchorIndex === -1 || focusIndex === -1) {
+            return;
+        }
+
+        anchorIdRef.current = anchorId;
+        focusIdRef.current = focusId;
+        onCheckedIdsChange(ids.slice(Math.min(anchorIndex, focusIndex), Math.max(anchorIndex, focusIndex) + 1));
+    }, [ids, onCheckedIdsChange]);
+
+    // Shift-clicking a thread checks every thread between it and the anchor while Ctrl/Cmd-clicking checks or unchecks it
+    const handleMultiSelect = useCallback((threadId: UserThread['id'], e: MouseEvent) => {
+        if (e.shiftKey) {
+            checkRange(anchorIdRef.current ?? selectedThreadId ?? threadId, threadId);
+            return;
+        }
+
+        anchorIdRef.current = threadId;
+        focusIdRef.current = threadId;
+        if (checkedIds.includes(threadId)) {
+            onCheckedIdsChange(checkedIds.filter((id) => id !== threadId));
+        } else {
+            onCheckedIdsChange([...checkedIds, threadId]);
+        }
+    }, [checkRange, checkedIds, onCheckedIdsChange, selectedThreadId]);
+
+    // Keys are only handled while focus is within the list so that they keep their usual meaning elsewhere on the page
+    const handleKeyDown = useCallback((e: KeyboardEvent) => {
+        if (isTextInput(e.target) || ids.length === 0) {
+            return;
+        }
+
+        if (Utils.isKeyPressed(e, Constants.KeyCodes.ESCAPE) && checkedIds.length > 0) {
+            onCheckedIdsChange([]);
+            return;
+        }
+
+        if (Utils.cmdOrCtrlPressed(e) && Utils.isKeyPressed(e, Constants.KeyCodes.A)) {
+            e.preventDefault();
+            anchorIdRef.current = ids[0];
+            focusIdRef.current = ids[ids.length - 1];
+            onCheckedIdsChange(ids);
+            return;
+        }
+
+        const down = Utils.isKeyPressed(e, Constants.KeyCodes.DOWN);
+        if (!e.shiftKey || (!down && !Utils.isKeyPressed(e, Constants.KeyCodes.UP))) {
+            return;
+        }
+
+        e.preventDefault();
+
+        // Start a new range from the open thread unless one is already being extended
+        let anchorId = selectedThreadId ?? ids[0];
+        let focusId = anchorId;
+        if (checkedIds.length > 0 && anchorIdRef.current && focusIdRef.current) {
+            anchorId = anchorIdRef.current;
+            focusId = focusIdRef.current;
+        }
+
+        const focusIndex = ids.indexOf(focusId);
+        const nextIndex = Math.min(Math.max(focusIndex + (down ? 1 : -1), 0), ids.length - 1);
+
+        checkRange(anchorId, ids[nextIndex]);
+
+        // eslint-disable-next-line no-underscore-dangle
+        infiniteLoaderRef.current?._listRef.scrollToItem(nextIndex);
+    }, [ids, checkedIds, selectedThreadId, checkRange, onCheckedIdsChange]);
+
+    const data = useMemo(() => ({
+        ids,
+        selectedThreadId,
+        checkedIds,
+        onMultiSelect: handleMultiSelect,
+    }), [ids, selectedThreadId, checkedIds, handleMultiSelect]);
 
     const isItemLoaded = useCallback((index) => {
         return ids.length === total || index < ids.length;
     }, [ids, total]);
 
     return (
-        <AutoSizer>
-            {({height, width}) => (
-                <InfiniteLoader
-                    ref={infiniteLoaderRef}
-                    itemCount={total}
-                    loadMoreItems={loadMoreItems}
-                    isItemLoaded={isItemLoaded}
-                    minimumBatchSize={Constants.THREADS_PAGE_SIZE}
-                >
-                    {({onItemsRendered, ref}) => {
-                        return (
-                            <FixedSizeList
-                                onItemsRendered={({
-                                    overscanStartIndex,
-                                    overscanStopIndex,
-                                    visibleStartIndex,
-                                    visibleStopIndex,
-                                }) => {
-                                    onItemsRendered({
+        <div
+            className='ThreadList__list'
+            onKeyDown={handleKeyDown}
+        >
+            <AutoSizer>
+                {({height, width}) => (
+                    <InfiniteLoader
+                        ref={infiniteLoaderRef}
+                        itemCount={total}
+                        loadMoreItems={loadMoreItems}
+                        isItemLoaded={isItemLoaded}
+                        minimumBatchSize={Constants.THREADS_PAGE_SIZE}
+                    >
+                        {({onItemsRendered, ref}) => {
+                            return (
+                                <FixedSizeList
+                                    onItemsRendered={({
                                         overscanStartIndex,
                                         overscanStopIndex,
                                         visibleStartIndex,
                                         visibleStopIndex,
-                                    });
-                                    startIndexRef.current = visibleStartIndex;
-                                    stopIndexRef.current = visibleStopIndex;
-                                }}
-                                ref={ref}
-                                height={height}
-                                itemCount={ids.length}
-                                itemData={data}
-                                itemKey={itemKey}
-                                itemSize={133}
-                                style={style}
-                                width={width}
-                            >
-                                {Row}
-                            </FixedSizeList>);
-                    }
-                    }
-                </InfiniteLoader>
-            )}
-        </AutoSizer>
+                                    }) => {
+                                        onItemsRendered({
+                                            overscanStartIndex,
+                                            overscanStopIndex,
+                                            visibleStartIndex,
+                                            visibleStopIndex,
+                                        });
+                                        startIndexRef.current = visibleStartIndex;
+                                        stopIndexRef.current = visibleStopIndex;
+                                    }}
+                                    ref={ref}
+                                    height={height}
+                                    itemCount={ids.length}
+                                    itemData={data}
+                                    itemKey={itemKey}
+                                    itemSize={133}
+                                    style={style}
+                                    width={width}
+                                >
+                                    {Row}
+                                </FixedSizeList>);
+                        }
+                        }
+                    </InfiniteLoader>
+                )}
+            </AutoSizer>
+        </div>
     );
 }
 
 function areEqual(prevProps: Props, nextProps: Props) {
     return (
         prevProps.selectedThreadId === nextProps.selectedThreadId &&
-        prevProps.ids.join() === nextProps.ids.join()
+        prevProps.total === nextProps.total &&
+        prevProps.ids.join() === nextProps.ids.join() &&
+        prevProps.checkedIds.join() === nextProps.checkedIds.join() &&
+        prevProps.loadMoreItems === nextProps.loadMoreItems &&
+        prevProps.onCheckedIdsChange === nextProps.onCheckedIdsChange
     );
 }
 
@@ -1,7 +1,7 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import React, {memo} from 'react';
+import React, {memo, MouseEvent} from 'react';
 import {areEqual} from 'react-window';
 
 import {UserThread} from 'mattermost-redux/types/threads';
@@ -12,6 +12,8 @@ type Props = {
     data: {
         ids: Array<UserThread['id']>;
         selectedThreadId?: UserThread['id'];
+        checkedIds: Array<UserThread['id']>;
+        onMultiSelect: (threadId: UserThread['id'], e: MouseEvent) => void;
     };
     index: number;
     style: any;
@@ -20,11 +22,14 @@ type Props = {
 function Row({index, style, data}: Props) {
     const itemId = data.ids[index];
     const isSelected = data.selectedThreadId === itemId;
+    const isChecked = data.checkedIds.includes(itemId);
 
     return (
         <ThreadItem
+            isChecked={isChecked}
             isSelected={isSelected}
             key={itemId}
+            onMultiSelect={data.onMultiSelect}
             style={style}
             threadId={itemId}
         />
@@ -0,0 +1,109 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo} from 'react';
+import {FormattedMessage} from 'react-intl';
+import {shallowEqual, useSelector} from 'react-redux';
+
+import {getTeammateNameDisplaySetting} from 'mattermost-redux/selectors/entities/preferences';
+import {getUser} from 'mattermost-redux/selectors/entities/users';
+import {displayUsername} from 'mattermost-redux/utils/user_utils';
+
+import Avatars from 'components/widgets/users/avatars';
+import Button from 'components/threading/common/button';
+
+import {MIN_EARLIER_REPLIES_TO_COLLAPSE, ThreadCatchUp} from 'utils/thread_catch_up';
+
+import {GlobalState} from 'types/store';
+
+import './catch_up_header.scss';
+
+// The most authors who are named before the rest are counted instead
+const MAX_NAMED_AUTHORS = 3;
+
+type Props = {
+    catchUp: ThreadCatchUp;
+    showEarlierReplies: boolean;
+    onJumpToFirstUnread: () => void;
+    onToggleEarlierReplies: () => void;
+};
+
+function CatchUpHeader({
+    catchUp,
+    showEarlierReplies,
+    onJumpToFirstUnread,
+    onToggleEarlierReplies,
+}: Props) {
+    const authorNames = useSelector((state: GlobalState) => {
+        const nameDisplay = getTeammateNameDisplaySetting(state);
+        return catchUp.authorIds.slice(0, MAX_NAMED_AUTHORS).map((id) => displayUsername(getUser(state, id), nameDisplay));
+    }, shallowEqual);
+
+    const otherAuthorCount = catchUp.authorIds.length - authorNames.length;
+
+    return (
+        <div className='ThreadCatchUp'>
+            <div className='ThreadCatchUp__summary'>
+                <Avatars
+                    userIds={catchUp.authorIds}
+                    size='xs'
+                />
+                <span>
+                    <FormattedMessage
+                        id='threading.catchUp.newReplies'
+                        defaultMessage='{count, plural, =1 {# new reply} other {# new replies}} since you last viewed this thread'
+                        values={{count: catchUp.newReplyCount}}
+                    />
+                    <span className='ThreadCatchUp__authors'>
+                        {otherAuthorCount > 0 ? (
+                            <FormattedMessage
+                                id='threading.catchUp.fromAuthorsAndOthers'
+                                defaultMessage='from {names} and {count, plural, =1 {# other} other {# others}}'
+                                values={{names: authorNames.join(', '), count: otherAuthorCount}}
+                            />
+                        ) : (
+                            <FormattedMessage
+                                id='threading.catchUp.fromAuthors'
+                                defaultMessage='from {names}'
+                                values={{names: authorNames.join(', ')}}
+                            />
+                        )}
+                    </span>
+                </span>
+            </div>
+            <div className='ThreadCatchUp__actions'>
+                <Button
+                    className='ThreadCatchUp__jump'
+                    onClick={onJumpToFirstUnread}
+                >
+                    <FormattedMessage
+                        id='threading.catchUp.jumpToFirstUnread'
+                        defaultMessage='Jump to first unread'
+                    />
+                </Button>
+                {catchUp.earlierReplyCount >= MIN_EARLIER_REPLIES_TO_COLLAPSE && (
+                    <Button
+                        className='ThreadCatchUp__earlier'
+                        onClick={onToggleEarlierReplies}
+                        append={<i className={showEarlierReplies ? 'icon-chevron-up' : 'icon-chevron-down'}/>}
+                    >
+                        {showEarlierReplies ? (
+                            <FormattedMessage
+                                id='threading.catchUp.hideEarlierReplies'
+                                defaultMessage='Hide earlier replies'
+                            />
+                        ) : (
+                            <FormattedMessage
+                                id='threading.catchUp.earlierReplies'
+                                defaultMessage='{count, plural, =1 {# earlier reply} other {# earlier replies}}'
+                                values={{count: catchUp.earlierReplyCount}}
+                            />
+                        )}
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default memo(CatchUpHeader);
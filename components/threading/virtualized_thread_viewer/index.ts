@@ -13,7 +13,7 @@ import {Post} from 'mattermost-redux/types/posts';
 
 import {FakePost} from 'types/store/rhs';
 
-import {makePrepareReplyIdsForThreadViewer, makeGetThreadLastViewedAt} from 'selectors/views/threads';
+import {makePrepareReplyIdsForThreadViewer, makeGetThreadCatchUp, makeGetThreadLastViewedAt} from 'selectors/views/threads';
 
 import {GlobalState} from 'types/store';
 
@@ -30,6 +30,7 @@ type OwnProps = {
 function makeMapStateToProps() {
     const getRepliesListWithSeparators = makePrepareReplyIdsForThreadViewer();
     const getThreadLastViewedAt = makeGetThreadLastViewedAt();
+    const getThreadCatchUp = makeGetThreadCatchUp();
 
     return (state: GlobalState, ownProps: OwnProps) => {
         const {postIds, useRelativeTimestamp, selected, channel} = ownProps;
@@ -48,6 +49,7 @@ function makeMapStateToProps() {
         });
 
         return {
+            catchUp: collapsedThreads ? getThreadCatchUp(state, selected.id, postIds, lastViewedAt) : null,
             currentUserId,
             directTeammate,
             lastPost,
@@ -9,6 +9,9 @@ import {Post} from 'mattermost-redux/types/posts';
 import {TestHelper} from 'utils/test_helper';
 import {Channel} from 'mattermost-redux/types/channels';
 import {UserProfile} from 'mattermost-redux/types/users';
+import {START_OF_NEW_MESSAGES} from 'mattermost-redux/utils/post_list';
+
+import {PostListRowListIds} from 'utils/constants';
 
 import VirtualizedThreadViewer from './virtualized_thread_viewer';
 
@@ -133,4 +136,74 @@ describe('components/threading/VirtualizedThreadViewer', () => {
 
         expect(scrollToBottom).not.toHaveBeenCalled();
     });
+
+    describe('catch-up header', () => {
+        const replyListIds = ['reply7', START_OF_NEW_MESSAGES, 'reply6', 'reply5', 'reply4', 'reply3', 'reply2', 'reply1', post.id];
+        const catchUp = {
+            newReplyCount: 1,
+            authorIds: ['other_user_id'],
+            firstUnreadPostId: 'reply7',
+            earlierReplyCount: 6,
+        };
+
+        test('should collapse the replies from before the first unread one until they are expanded', () => {
+            const wrapper = shallow(
+                <VirtualizedThreadViewer
+                    {...baseProps}
+                    catchUp={catchUp}
+                    replyListIds={replyListIds}
+                />,
+            );
+            const instance = wrapper.instance() as VirtualizedThreadViewer;
+
+            expect(instance.getListIds()).toEqual(['reply7', START_OF_NEW_MESSAGES, PostListRowListIds.THREAD_CATCH_UP, post.id]);
+
+            instance.handleToggleEarlierReplies();
+
+            expect(instance.getListIds()).toEqual([...replyListIds.slice(0, -1), PostListRowListIds.THREAD_CATCH_UP, post.id]);
+        });
+
+        test('should not collapse only a few earlier replies', () => {
+            const wrapper = shallow(
+                <VirtualizedThreadViewer
+                    {...baseProps}
+                    catchUp={{...catchUp, firstUnreadPostId: 'reply3', earlierReplyCount: 2}}
+                    replyListIds={replyListIds}
+                />,
+            );
+            const instance = wrapper.instance() as VirtualizedThreadViewer;
+
+            expect(instance.getListIds()).toEqual([...replyListIds.slice(0, -1), PostListRowListIds.THREAD_CATCH_UP, post.id]);
+        });
+
+        test('should not hide the highlighted reply', () => {
+            const wrapper = shallow(
+                <VirtualizedThreadViewer
+                    {...baseProps}
+                    catchUp={catchUp}
+                    highlightedPostId='reply2'
+                    replyListIds={replyListIds}
+                />,
+            );
+            const instance = wrapper.instance() as VirtualizedThreadViewer;
+
+            expect(instance.getListIds()).toContain('reply2');
+        });
+
+        test('should jump to the first unread reply', () => {
+            const wrapper = shallow(
+                <VirtualizedThreadViewer
+                    {...baseProps}
+                    catchUp={catchUp}
+                    replyListIds={replyListIds}
+                />,
+            );
+            const instance = wrapper.instance() as VirtualizedThreadViewer;
+            instance.scrollToItem = jest.fn();
+
+            instance.handleJumpToFirstUnread();
+
+            expect(instance.scrollToItem).toHaveBeenCalledWith(1, 'start', -50);
+        });
+    });
 });
@@ -4,6 +4,7 @@
 import React, {PureComponent, RefObject} from 'react';
 import AutoSizer from 'react-virtualized-auto-sizer';
 import {DynamicSizeList, OnScrollArgs, OnItemsRenderedArgs} from 'dynamic-virtualized-list';
+import memoize from 'memoize-one';
 
 import {Channel} from 'mattermost-redux/types/channels';
 import {Post} from 'mattermost-redux/types/posts';
@@ -13,18 +14,21 @@ import {isDateLine, isStartOfNewMessages, isCreateComment} from 'mattermost-redu
 
 import DelayedAction from 'utils/delayed_action';
 import * as Utils from 'utils/utils.jsx';
-import Constants from 'utils/constants';
+import Constants, {PostListRowListIds} from 'utils/constants';
 import {FakePost} from 'types/store/rhs';
 import {getNewMessageIndex, getPreviousPostId, getLatestPostId} from 'utils/post_utils';
+import {addThreadCatchUp, MIN_EARLIER_REPLIES_TO_COLLAPSE, ThreadCatchUp} from 'utils/thread_catch_up';
 
 import NewRepliesBanner from 'components/new_replies_banner';
 import FloatingTimestamp from 'components/post_view/floating_timestamp';
 import {THREADING_TIME as BASE_THREADING_TIME} from 'components/threading/common/options';
 
+import CatchUpHeader from './catch_up_header';
 import CreateComment from './create_comment';
 import Row from './thread_viewer_row';
 
 type Props = {
+    catchUp?: ThreadCatchUp | null;
     channel: Channel;
     currentUserId: string;
     directTeammate: UserProfile | undefined;
@@ -52,6 +56,7 @@ type State = {
     visibleStopIndex?: number;
     overscanStartIndex?: number;
     overscanStopIndex?: number;
+    showEarlierReplies: boolean;
 }
 
 const virtListStyles = {
@@ -101,7 +106,7 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
 
         this.initRangeToRender = [
             Math.max(postIndex - 30, 0),
-            Math.max(postIndex + 30, Math.min(props.replyListIds.length - 1, 50)),
+            Math.max(postIndex + 30, Math.min(this.getListIds().length - 1, 50)),
         ];
 
         this.listRef = React.createRef();
@@ -121,6 +126,7 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
             visibleStopIndex: undefined,
             overscanStartIndex: undefined,
             overscanStopIndex: undefined,
+            showEarlierReplies: false,
         };
     }
 
@@ -150,6 +156,39 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
 
     canLoadMorePosts() {}
 
+    // Adds the catch-up header to the list, hiding the replies from before the first unread one until they're expanded
+    private prepareListIds = memoize((
+        replyListIds: string[],
+        rootId: string,
+        catchUp: ThreadCatchUp | null | undefined,
+        showEarlierReplies: boolean,
+        highlightedPostId?: Post['id'],
+    ) => {
+        if (!catchUp) {
+            return replyListIds;
+        }
+
+        const collapse = !showEarlierReplies && catchUp.earlierReplyCount >= MIN_EARLIER_REPLIES_TO_COLLAPSE;
+        const listIds = addThreadCatchUp(replyListIds, rootId, catchUp, collapse);
+
+        // Never hide a reply that the user was linked to
+        if (collapse && highlightedPostId && replyListIds.includes(highlightedPostId) && !listIds.includes(highlightedPostId)) {
+            return addThreadCatchUp(replyListIds, rootId, catchUp, false);
+        }
+
+        return listIds;
+    });
+
+    getListIds = (): string[] => {
+        return this.prepareListIds(
+            this.props.replyListIds,
+            this.props.selected.id,
+            this.props.catchUp,
+            Boolean(this.state?.showEarlierReplies),
+            this.props.highlightedPostId,
+        );
+    }
+
     handleWindowResize = () => {
         const isMobile = Utils.isMobile();
         if (isMobile !== this.state.isMobile) {
@@ -160,7 +199,8 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
     }
 
     initScrollToIndex = (): {index: number; position: string; offset?: number} => {
-        const {highlightedPostId, replyListIds} = this.props;
+        const {highlightedPostId} = this.props;
+        const replyListIds = this.getListIds();
 
         if (highlightedPostId) {
             const index = replyListIds.indexOf(highlightedPostId);
@@ -225,7 +265,7 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
         }
 
         this.setState({
-            topRhsPostId: getLatestPostId(this.props.replyListIds.slice(visibleTopItem)),
+            topRhsPostId: getLatestPostId(this.getListIds().slice(visibleTopItem)),
         });
     }
 
@@ -249,17 +289,19 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
     getInitialPostIndex = (): number => {
         let postIndex = 0;
 
+        const replyListIds = this.getListIds();
         if (this.props.highlightedPostId) {
-            postIndex = this.props.replyListIds.findIndex((postId) => postId === this.props.highlightedPostId);
+            postIndex = replyListIds.findIndex((postId) => postId === this.props.highlightedPostId);
         } else {
-            postIndex = getNewMessageIndex(this.props.replyListIds);
+            postIndex = getNewMessageIndex(replyListIds);
         }
 
         return postIndex === -1 ? 0 : postIndex;
     }
 
     handleScrollToFailed = (index: number) => {
-        if (index < 0 || index >= this.props.replyListIds.length) {
+        const listLength = this.getListIds().length;
+        if (index < 0 || index >= listLength) {
             return;
         }
         const {overscanStopIndex, overscanStartIndex} = this.state;
@@ -269,7 +311,7 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
         }
 
         if (overscanStopIndex != null && index > overscanStopIndex) {
-            this.scrollToItemCorrection(index, Math.min(overscanStopIndex - 1, this.props.replyListIds.length - 1));
+            this.scrollToItemCorrection(index, Math.min(overscanStopIndex - 1, listLength - 1));
         }
     }
 
@@ -305,7 +347,7 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
     }
 
     handleToastClick = () => {
-        const index = getNewMessageIndex(this.props.replyListIds);
+        const index = getNewMessageIndex(this.getListIds());
         if (index >= 0) {
             this.scrollToItem(index, 'start', OFFSET_TO_SHOW_TOAST);
         } else {
@@ -313,8 +355,28 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
         }
     }
 
+    handleJumpToFirstUnread = () => {
+        const listIds = this.getListIds();
+
+        let index = getNewMessageIndex(listIds);
+        if (index < 0 && this.props.catchUp) {
+            index = listIds.indexOf(this.props.catchUp.firstUnreadPostId);
+        }
+
+        if (index >= 0) {
+            this.setState({userScrolledToBottom: false}, () => {
+                this.scrollToItem(index, 'start', OFFSET_TO_SHOW_TOAST);
+            });
+        }
+    }
+
+    handleToggleEarlierReplies = () => {
+        this.setState((state) => ({showEarlierReplies: !state.showEarlierReplies}));
+    }
+
     scrollToHighlightedPost = () => {
-        const {highlightedPostId, replyListIds} = this.props;
+        const {highlightedPostId} = this.props;
+        const replyListIds = this.getListIds();
 
         if (highlightedPostId) {
             this.setState({userScrolledToBottom: false}, () => {
@@ -368,6 +430,19 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
             a11yIndex++;
         }
 
+        if (itemId === PostListRowListIds.THREAD_CATCH_UP && this.props.catchUp) {
+            return (
+                <div style={style}>
+                    <CatchUpHeader
+                        catchUp={this.props.catchUp}
+                        showEarlierReplies={this.state.showEarlierReplies}
+                        onJumpToFirstUnread={this.handleJumpToFirstUnread}
+                        onToggleEarlierReplies={this.handleToggleEarlierReplies}
+                    />
+                </div>
+            );
+        }
+
         if (isCreateComment(itemId)) {
             return (
                 <CreateComment
@@ -413,7 +488,7 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
 
     isNewMessagesVisible = (): boolean => {
         const {visibleStopIndex} = this.state;
-        const newMessagesSeparatorIndex = getNewMessageIndex(this.props.replyListIds);
+        const newMessagesSeparatorIndex = getNewMessageIndex(this.getListIds());
         if (visibleStopIndex != null) {
             return visibleStopIndex < newMessagesSeparatorIndex;
         }
@@ -467,7 +542,7 @@ class ThreadViewerVirtualized extends PureComponent<Props, State> {
                                     initScrollToIndex={this.initScrollToIndex}
                                     innerListStyle={this.getInnerStyles()}
                                     innerRef={this.innerRef}
-                                    itemData={this.props.replyListIds}
+                                    itemData={this.getListIds()}
                                     scrollToFailed={this.handleScrollToFailed}
                                     onItemsRendered={this.onItemsRendered}
                                     onScroll={this.handleScroll}
@@ -11,6 +11,7 @@ import {isIdNotPost, getNewMessageIndex} from 'utils/post_utils';
 import * as Utils from 'utils/utils.jsx';
 import {isToday} from 'utils/datetime';
 import Constants from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import {browserHistory} from 'utils/browser_history';
 import {SearchShortcut} from 'components/search_shortcut';
 import {HintToast} from 'components/hint-toast/hint_toast';
@@ -186,6 +187,14 @@ class ToastWrapper extends React.PureComponent {
     }
 
     handleShortcut = (e) => {
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.NAV_JUMP_TO_UNREAD)) {
+            if (getNewMessageIndex(this.props.postListIds) !== -1) {
+                e.preventDefault();
+                this.scrollToNewMessage();
+            }
+            return;
+        }
+
         if (Utils.isKeyPressed(e, Constants.KeyCodes.ESCAPE)) {
             if (this.state.showUnreadToast) {
                 this.hideUnreadToast();
@@ -0,0 +1,36 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {connect} from 'react-redux';
+import {bindActionCreators, Dispatch, ActionCreatorsMapObject} from 'redux';
+
+import {ActionFunc} from 'mattermost-redux/types/actions';
+
+import {saveShortcutOverrides} from 'actions/keyboard_shortcuts';
+import {getShortcutActions, getShortcutOverrides} from 'selectors/keyboard_shortcuts';
+
+import {GlobalState} from 'types/store';
+import type {ShortcutOverrides} from 'types/store/keyboard_shortcuts';
+
+import KeyboardShortcutsSection from './keyboard_shortcuts_section';
+
+type Actions = {
+    saveShortcutOverrides: (overrides: ShortcutOverrides) => Promise<{data?: boolean; error?: any}>;
+}
+
+function mapStateToProps(state: GlobalState) {
+    return {
+        shortcutActions: getShortcutActions(state),
+        overrides: getShortcutOverrides(state),
+    };
+}
+
+function mapDispatchToProps(dispatch: Dispatch) {
+    return {
+        actions: bindActionCreators<ActionCreatorsMapObject<ActionFunc>, Actions>({
+            saveShortcutOverrides,
+        }, dispatch),
+    };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(KeyboardShortcutsSection);
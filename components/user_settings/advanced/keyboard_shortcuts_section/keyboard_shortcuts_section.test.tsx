@@ -0,0 +1,119 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {shallow, ShallowWrapper} from 'enzyme';
+
+import SettingItemMax from 'components/setting_item_max.jsx';
+import SettingItemMin from 'components/setting_item_min';
+
+import {AdvancedSections} from 'utils/constants';
+
+import type {ShortcutAction} from 'types/store/keyboard_shortcuts';
+
+import KeyboardShortcutsSection from './keyboard_shortcuts_section';
+
+describe('components/user_settings/advanced/KeyboardShortcutsSection', () => {
+    const shortcutActions: ShortcutAction[] = [
+        {id: 'nav.switcher', section: 'navigation', description: 'Quick channel navigation', defaultChord: 'mod+K'},
+        {id: 'nav.dm_menu', section: 'navigation', description: 'Direct messages menu', defaultChord: 'mod+shift+K'},
+    ];
+
+    const requiredProps = {
+        activeSection: AdvancedSections.KEYBOARD_SHORTCUTS,
+        onUpdateSection: jest.fn(),
+        shortcutActions,
+        overrides: {},
+        actions: {
+            saveShortcutOverrides: jest.fn(() => Promise.resolve({data: true})),
+        },
+    };
+
+    function pressKeys(key: string, keyCode: number, modifiers: Partial<KeyboardEvent> = {}) {
+        window.dispatchEvent(new KeyboardEvent('keydown', {key, keyCode, ...modifiers} as KeyboardEventInit));
+    }
+
+    // The list of shortcuts is passed to SettingItemMax to render, so it's rendered separately to find its parts
+    function renderInputs(wrapper: ShallowWrapper<any, any, KeyboardShortcutsSection>) {
+        return shallow(<div>{wrapper.find(SettingItemMax).prop('inputs')}</div>);
+    }
+
+    test('should describe the number of changed shortcuts when not active', () => {
+        const wrapper = shallow(
+            <KeyboardShortcutsSection
+                {...requiredProps}
+                activeSection=''
+                overrides={{'nav.switcher': 'mod+J'}}
+            />,
+        );
+
+        expect(wrapper.find(SettingItemMin).exists()).toBe(true);
+        expect(wrapper.find(SettingItemMin).prop('describe')).toMatchObject({props: {values: {count: 1}}});
+    });
+
+    test('should record the keys pressed for an action', () => {
+        const wrapper = shallow<KeyboardShortcutsSection>(<KeyboardShortcutsSection {...requiredProps}/>);
+
+        renderInputs(wrapper).find('.KeyboardShortcutsSection__chord').first().simulate('click', {currentTarget: {value: 'nav.switcher'}});
+        expect(wrapper.state('recordingId')).toBe('nav.switcher');
+
+        // Only pressing a modifier keeps recording
+        pressKeys('Control', 17, {ctrlKey: true});
+        expect(wrapper.state('recordingId')).toBe('nav.switcher');
+
+        pressKeys('j', 74, {ctrlKey: true});
+        expect(wrapper.state('recordingId')).toBe('');
+        expect(wrapper.state('overrides')).toEqual({'nav.switcher': 'mod+J'});
+
+        // Pressing another key no longer changes the shortcut
+        pressKeys('l', 76, {ctrlKey: true});
+        expect(wrapper.state('overrides')).toEqual({'nav.switcher': 'mod+J'});
+    });
+
+    test('should cancel recording when Escape is pressed', () => {
+        const wrapper = shallow<KeyboardShortcutsSection>(<KeyboardShortcutsSection {...requiredProps}/>);
+
+        renderInputs(wrapper).find('.KeyboardShortcutsSection__chord').first().simulate('click', {currentTarget: {value: 'nav.switcher'}});
+        pressKeys('Escape', 27);
+
+        expect(wrapper.state('recordingId')).toBe('');
+        expect(wrapper.state('overrides')).toEqual({});
+    });
+
+    test('should not save shortcuts which conflict', async () => {
+        const saveShortcutOverrides = jest.fn(() => Promise.resolve({data: true}));
+        const wrapper = shallow<KeyboardShortcutsSection>(
+            <KeyboardShortcutsSection
+                {...requiredProps}
+                actions={{saveShortcutOverrides}}
+            />,
+        );
+
+        wrapper.setState({overrides: {'nav.dm_menu': 'mod+K'}});
+        expect(renderInputs(wrapper).find('.KeyboardShortcutsSection__action--conflict')).toHaveLength(2);
+
+        await wrapper.instance().handleSubmit();
+
+        expect(saveShortcutOverrides).not.toHaveBeenCalled();
+        expect(wrapper.state('clientError')).not.toBe('');
+    });
+
+    test('should save the changed shortcuts and close the section', async () => {
+        const saveShortcutOverrides = jest.fn(() => Promise.resolve({data: true}));
+        const onUpdateSection = jest.fn();
+        const wrapper = shallow<KeyboardShortcutsSection>(
+            <KeyboardShortcutsSection
+                {...requiredProps}
+                onUpdateSection={onUpdateSection}
+                actions={{saveShortcutOverrides}}
+            />,
+        );
+
+        const disableButton = renderInputs(wrapper).find('.KeyboardShortcutsSection__action').at(1).find('.btn-link').first();
+        disableButton.simulate('click', {currentTarget: {value: 'nav.dm_menu'}});
+        await wrapper.instance().handleSubmit();
+
+        expect(saveShortcutOverrides).toHaveBeenCalledWith({'nav.dm_menu': ''});
+        expect(onUpdateSection).toHaveBeenCalled();
+    });
+});
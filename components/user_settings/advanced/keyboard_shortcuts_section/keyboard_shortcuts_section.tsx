@@ -0,0 +1,334 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {FormattedMessage} from 'react-intl';
+import classNames from 'classnames';
+
+import SettingItemMax from 'components/setting_item_max.jsx';
+import SettingItemMin from 'components/setting_item_min';
+import {ShortcutKey, ShortcutKeyVariant} from 'components/shortcut_key';
+
+import Constants, {AdvancedSections} from 'utils/constants';
+import {
+    formatChord,
+    getChordFromEvent,
+    getShortcutBindings,
+    getShortcutConflicts,
+    normalizeChord,
+} from 'utils/keyboard_shortcuts';
+import {isKeyPressed, localizeMessage} from 'utils/utils.jsx';
+
+import type {ShortcutAction, ShortcutChord, ShortcutOverrides} from 'types/store/keyboard_shortcuts';
+
+import './keyboard_shortcuts_section.scss';
+
+type Props = {
+    activeSection?: string;
+    onUpdateSection: (section?: string) => void;
+    shortcutActions: ShortcutAction[];
+    overrides: ShortcutOverrides;
+    actions: {
+        saveShortcutOverrides: (overrides: ShortcutOverrides) => Promise<{data?: boolean; error?: any}>;
+    };
+};
+
+type State = {
+    active: boolean;
+    overrides: ShortcutOverrides;
+
+    // recordingId is the ID of the action whose new chord is being pressed
+    recordingId: string;
+    saving: boolean;
+    clientError: string;
+    serverError: string;
+};
+
+function getDescription(action: ShortcutAction) {
+    if (typeof action.description === 'string') {
+        return action.description;
+    }
+
+    return localizeMessage(action.description.id, action.description.defaultMessage);
+}
+
+export default class KeyboardShortcutsSection extends React.PureComponent<Props, State> {
+    constructor(props: Props) {
+        super(props);
+
+        this.state = {
+            active: false,
+            overrides: props.overrides,
+            recordingId: '',
+            saving: false,
+            clientError: '',
+            serverError: '',
+        };
+    }
+
+    static getDerivedStateFromProps(props: Props, state: State) {
+        const active = props.activeSection === AdvancedSections.KEYBOARD_SHORTCUTS;
+
+        // Start from the saved chords whenever the section is opened
+        if (active && !state.active) {
+            return {
+                active,
+                overrides: props.overrides,
+                recordingId: '',
+                clientError: '',
+                serverError: '',
+            };
+        }
+
+        if (active !== state.active) {
+            return {active, recordingId: ''};
+        }
+
+        return null;
+    }
+
+    componentDidUpdate(prevProps: Props, prevState: State) {
+        if (!prevState.recordingId && this.state.recordingId) {
+            // Listen before anything else so that pressing a chord doesn't also trigger its current action
+            window.addEventListener('keydown', this.handleRecordKeyDown, true);
+        } else if (prevState.recordingId && !this.state.recordingId) {
+            window.removeEventListener('keydown', this.handleRecordKeyDown, true);
+        }
+    }
+
+    componentWillUnmount() {
+        window.removeEventListener('keydown', this.handleRecordKeyDown, true);
+    }
+
+    setOverride = (actionId: ShortcutAction['id'], chord: ShortcutChord | null) => {
+        const action = this.props.shortcutActions.find((a) => a.id === actionId);
+        const overrides = {...this.state.overrides};
+
+        if (chord === null || (action && chord === normalizeChord(action.defaultChord))) {
+            Reflect.deleteProperty(overrides, actionId);
+        } else {
+            overrides[actionId] = chord;
+        }
+
+        this.setState({overrides, clientError: ''});
+    }
+
+    handleStartRecording = (e: React.MouseEvent<HTMLButtonElement>) => {
+        this.setState({recordingId: e.currentTarget.value});
+    }
+
+    handleRecordKeyDown = (e: KeyboardEvent) => {
+        e.preventDefault();
+        e.stopImmediatePropagation();
+
+        if (isKeyPressed(e, Constants.KeyCodes.ESCAPE) && !e.shiftKey && !e.altKey && !e.ctrlKey && !e.metaKey) {
+            this.setState({recordingId: ''});
+            return;
+        }
+
+        // Wait for a key other than a modifier to be pressed
+        const chord = getChordFromEvent(e);
+        if (!chord) {
+            return;
+        }
+
+        this.setOverride(this.state.recordingId, chord);
+        this.setState({recordingId: ''});
+    }
+
+    handleDisable = (e: React.MouseEvent<HTMLButtonElement>) => {
+        this.setOverride(e.currentTarget.value, '');
+    }
+
+    handleReset = (e: React.MouseEvent<HTMLButtonElement>) => {
+        this.setOverride(e.currentTarget.value, null);
+    }
+
+    handleResetAll = () => {
+        this.setState({overrides: {}, clientError: ''});
+    }
+
+    handleSubmit = async () => {
+        const bindings = getShortcutBindings(this.props.shortcutActions, this.state.overrides);
+        if (Object.keys(getShortcutConflicts(bindings)).length) {
+            this.setState({clientError: localizeMessage('user.settings.advance.shortcuts.conflicts', 'Some shortcuts use the same keys. Change or disable them before saving.')});
+            return;
+        }
+
+        this.setState({saving: true, clientError: '', serverError: ''});
+
+        const {error} = await this.props.actions.saveShortcutOverrides(this.state.overrides);
+        if (error) {
+            this.setState({saving: false, serverError: error.message});
+            return;
+        }
+
+        this.setState({saving: false});
+        this.props.onUpdateSection();
+    }
+
+    handleUpdateSection = (section?: string) => {
+        this.props.onUpdateSection(section);
+    }
+
+    renderChord(action: ShortcutAction, chord: ShortcutChord) {
+        if (action.id === this.state.recordingId) {
+            return (
+                <FormattedMessage
+                    id='user.settings.advance.shortcuts.recording'
+                    defaultMessage='Press the new keys or Esc to cancel'
+                />
+            );
+        }
+
+        if (!chord) {
+            return (
+                <FormattedMessage
+                    id='user.settings.advance.shortcuts.disabled'
+                    defaultMessage='Disabled'
+                />
+            );
+        }
+
+        return formatChord(chord).map((key) => (
+            <ShortcutKey
+                key={key}
+                variant={ShortcutKeyVariant.ShortcutModal}
+            >
+                {key}
+            </ShortcutKey>
+        ));
+    }
+
+    renderAction = (action: ShortcutAction, chord: ShortcutChord, conflictingActions: ShortcutAction[]) => {
+        return (
+            <li
+                key={action.id}
+                className={classNames('KeyboardShortcutsSection__action', {
+                    'KeyboardShortcutsSection__action--conflict': conflictingActions.length > 0,
+                })}
+            >
+                <div className='KeyboardShortcutsSection__row'>
+                    <span className='KeyboardShortcutsSection__description'>
+                        {getDescription(action)}
+                    </span>
+                    <button
+                        type='button'
+                        className='KeyboardShortcutsSection__chord'
+                        value={action.id}
+                        aria-label={localizeMessage('user.settings.advance.shortcuts.change', 'Change shortcut')}
+                        onClick={this.handleStartRecording}
+                    >
+                        {this.renderChord(action, chord)}
+                    </button>
+                    {chord && (
+                        <button
+                            type='button'
+                            className='btn btn-link'
+                            value={action.id}
+                            onClick={this.handleDisable}
+                        >
+                            <FormattedMessage
+                                id='user.settings.advance.shortcuts.disable'
+                                defaultMessage='Disable'
+                            />
+                        </button>
+                    )}
+                    {action.id in this.state.overrides && (
+                        <button
+                            type='button'
+                            className='btn btn-link'
+                            value={action.id}
+                            onClick={this.handleReset}
+                        >
+                            <FormattedMessage
+                                id='user.settings.advance.shortcuts.reset'
+                                defaultMessage='Reset'
+                            />
+                        </button>
+                    )}
+                </div>
+                {conflictingActions.length > 0 && (
+                    <div className='KeyboardShortcutsSection__conflict'>
+                        <FormattedMessage
+                            id='user.settings.advance.shortcuts.alsoUsedBy'
+                            defaultMessage='Also used by: {actions}'
+                            values={{actions: conflictingActions.map(getDescription).join(', ')}}
+                        />
+                    </div>
+                )}
+            </li>
+        );
+    }
+
+    render() {
+        const title = localizeMessage('user.settings.advance.shortcuts.title', 'Keyboard Shortcuts');
+
+        if (this.props.activeSection !== AdvancedSections.KEYBOARD_SHORTCUTS) {
+            const changedCount = this.props.shortcutActions.filter((action) => action.id in this.props.overrides).length;
+
+            return (
+                <SettingItemMin
+                    title={title}
+                    describe={(
+                        <FormattedMessage
+                            id='user.settings.advance.shortcuts.describe'
+                            defaultMessage='{count, plural, =0 {Default shortcuts} one {# shortcut changed} other {# shortcuts changed}}'
+                            values={{count: changedCount}}
+                        />
+                    )}
+                    section={AdvancedSections.KEYBOARD_SHORTCUTS}
+                    updateSection={this.handleUpdateSection}
+                />
+            );
+        }
+
+        const bindings = getShortcutBindings(this.props.shortcutActions, this.state.overrides);
+        const conflicts = getShortcutConflicts(bindings);
+
+        const inputs = [
+            <ul
+                key='keyboardShortcuts'
+                className='KeyboardShortcutsSection'
+            >
+                {this.props.shortcutActions.map((action) => this.renderAction(
+                    action,
+                    bindings[action.id],
+                    this.props.shortcutActions.filter((other) => conflicts[action.id]?.includes(other.id)),
+                ))}
+            </ul>,
+            <button
+                key='resetKeyboardShortcuts'
+                type='button'
+                className='btn btn-link'
+                disabled={!Object.keys(this.state.overrides).length}
+                onClick={this.handleResetAll}
+            >
+                <FormattedMessage
+                    id='user.settings.advance.shortcuts.resetAll'
+                    defaultMessage='Restore all defaults'
+                />
+            </button>,
+        ];
+
+        return (
+            <SettingItemMax
+                title={title}
+                inputs={inputs}
+                submit={this.handleSubmit}
+                saving={this.state.saving}
+                disableEnterSubmit={true}
+                clientError={this.state.clientError}
+                serverError={this.state.serverError}
+                extraInfo={(
+                    <FormattedMessage
+                        id='user.settings.advance.shortcuts.info'
+                        defaultMessage='Click a shortcut and press the keys you want to use for it instead. Shortcuts which are built into your browser or operating system can’t be changed here.'
+                    />
+                )}
+                section={AdvancedSections.KEYBOARD_SHORTCUTS}
+                updateSection={this.handleUpdateSection}
+            />
+        );
+    }
+}
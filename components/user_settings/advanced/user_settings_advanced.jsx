@@ -16,6 +16,7 @@ import ConfirmModal from 'components/confirm_modal';
 import BackIcon from 'components/widgets/icons/fa_back_icon';
 
 import JoinLeaveSection from './join_leave_section';
+import KeyboardShortcutsSection from './keyboard_shortcuts_section';
 
 const PreReleaseFeatures = Constants.PRE_RELEASE_FEATURES;
 
@@ -667,6 +668,11 @@ export default class AdvancedSettingsDisplay extends React.PureComponent {
                         onUpdateSection={this.handleUpdateSection}
                         renderOnOffLabel={this.renderOnOffLabel}
                     />
+                    <div className='divider-light'/>
+                    <KeyboardShortcutsSection
+                        activeSection={this.props.activeSection}
+                        onUpdateSection={this.handleUpdateSection}
+                    />
                     {previewFeaturesSectionDivider}
                     {previewFeaturesSection}
                     {formattingSectionDivider}
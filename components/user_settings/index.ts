@@ -4,13 +4,17 @@
 import {connect} from 'react-redux';
 
 import {getCurrentUser} from 'mattermost-redux/selectors/entities/users';
-import {GlobalState} from 'mattermost-redux/types/store';
+
+import {getPluginUserSettingsSections} from 'selectors/plugins';
+
+import {GlobalState} from 'types/store';
 
 import UserSettings from './user_settings';
 
 function mapStateToProps(state: GlobalState) {
     return {
         user: getCurrentUser(state),
+        pluginSettings: getPluginUserSettingsSections(state),
     };
 }
 
@@ -13,6 +13,8 @@ import {Action} from 'mattermost-redux/types/actions';
 
 import {openModal} from 'actions/views/modals';
 
+import {getPluginUserSettingsSections} from 'selectors/plugins';
+
 import UserSettingsModal, {Props} from './user_settings_modal';
 
 function mapStateToProps(state: GlobalState) {
@@ -27,6 +29,7 @@ function mapStateToProps(state: GlobalState) {
         sendEmailNotifications,
         requireEmailVerification,
         collapsedThreads,
+        pluginSettings: getPluginUserSettingsSections(state),
     };
 }
 
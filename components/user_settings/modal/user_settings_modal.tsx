@@ -21,8 +21,10 @@ import store from 'stores/redux_store.jsx';
 import CollapsedReplyThreadsModal from 'components/collapsed_reply_threads_modal';
 
 import {ModalData} from 'types/actions';
+import {PluginUserSettingsComponent} from 'types/store/plugins';
 
-import Constants, {ModalIdentifiers} from 'utils/constants';
+import {ModalIdentifiers} from 'utils/constants';
+import {ShortcutActionIds} from 'utils/keyboard_shortcuts';
 import * as Utils from 'utils/utils.jsx';
 import {t} from 'utils/i18n';
 import ConfirmModal from '../../confirm_modal';
@@ -79,6 +81,16 @@ export type Props = {
     intl: IntlShape;
     collapsedThreads: boolean;
     isContentProductSettings: boolean;
+
+    /**
+     * The tab to show when the modal is opened instead of the first one
+     */
+    activeTab?: string;
+
+    /**
+     * The tabs registered by plugins, which are shown after the other settings
+     */
+    pluginSettings: PluginUserSettingsComponent[];
     actions: {
         openModal: <P>(modalData: ModalData<P>) => void;
         sendVerificationEmail: (email: string) => Promise<{
@@ -110,7 +122,7 @@ class UserSettingsModal extends React.PureComponent<Props, State> {
         super(props);
 
         this.state = {
-            active_tab: props.isContentProductSettings ? 'notifications' : 'profile',
+            active_tab: this.getInitialTab(),
             active_section: '',
             showConfirmModal: false,
             enforceFocus: true,
@@ -130,6 +142,14 @@ class UserSettingsModal extends React.PureComponent<Props, State> {
         this.modalBodyRef = React.createRef();
     }
 
+    getInitialTab = () => {
+        if (this.props.activeTab) {
+            return this.props.activeTab;
+        }
+
+        return this.props.isContentProductSettings ? 'notifications' : 'profile';
+    }
+
     handleResend = (email: string) => {
         this.setState({resendStatus: 'sending'});
 
@@ -166,7 +186,7 @@ class UserSettingsModal extends React.PureComponent<Props, State> {
     }
 
     handleKeyDown = (e: KeyboardEvent) => {
-        if (Utils.cmdOrCtrlPressed(e) && e.shiftKey && Utils.isKeyPressed(e, Constants.KeyCodes.A)) {
+        if (Utils.isShortcutPressed(e, ShortcutActionIds.SETTINGS)) {
             e.preventDefault();
             this.handleHide();
         }
@@ -187,7 +207,7 @@ class UserSettingsModal extends React.PureComponent<Props, State> {
     // called after the dialog is fully hidden and faded out
     handleHidden = () => {
         this.setState({
-            active_tab: this.props.isContentProductSettings ? 'notifications' : 'profile',
+            active_tab: this.getInitialTab(),
             active_section: '',
         });
         this.props.onExited();
@@ -301,6 +321,9 @@ class UserSettingsModal extends React.PureComponent<Props, State> {
             tabs.push({name: 'display', uiName: formatMessage(holders.display), icon: 'icon fa fa-eye', iconTitle: Utils.localizeMessage('user.settings.display.icon', 'Display Settings Icon')});
             tabs.push({name: 'sidebar', uiName: formatMessage(holders.sidebar), icon: 'icon fa fa-columns', iconTitle: Utils.localizeMessage('user.settings.sidebar.icon', 'Sidebar Settings Icon')});
             tabs.push({name: 'advanced', uiName: formatMessage(holders.advanced), icon: 'icon fa fa-list-alt', iconTitle: Utils.localizeMessage('user.settings.advance.icon', 'Advanced Settings Icon')});
+            for (const {id, section} of this.props.pluginSettings) {
+                tabs.push({name: id, uiName: section.title, icon: section.icon || 'icon fa fa-plug', iconTitle: section.title});
+            }
         } else {
             tabs.push({name: 'profile', uiName: formatMessage(holders.profile), icon: 'icon fa fa-gear', iconTitle: Utils.localizeMessage('user.settings.profile.icon', 'Profile Settings Icon')});
             tabs.push({name: 'security', uiName: formatMessage(holders.security), icon: 'icon fa fa-lock', iconTitle: Utils.localizeMessage('user.settings.security.icon', 'Security Settings Icon')});
@@ -0,0 +1,35 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {connect} from 'react-redux';
+import {bindActionCreators, Dispatch, ActionCreatorsMapObject} from 'redux';
+
+import {ActionFunc} from 'mattermost-redux/types/actions';
+
+import {saveNotificationRules} from 'actions/notification_rules';
+import {getNotificationRules} from 'selectors/notification_rules';
+
+import {GlobalState} from 'types/store';
+import type {NotificationRule} from 'types/store/notification_rules';
+
+import NotificationRulesSetting from './notification_rules_setting';
+
+type Actions = {
+    saveNotificationRules: (rules: NotificationRule[]) => Promise<{data?: boolean; error?: any}>;
+}
+
+function mapStateToProps(state: GlobalState) {
+    return {
+        rules: getNotificationRules(state),
+    };
+}
+
+function mapDispatchToProps(dispatch: Dispatch) {
+    return {
+        actions: bindActionCreators<ActionCreatorsMapObject<ActionFunc>, Actions>({
+            saveNotificationRules,
+        }, dispatch),
+    };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(NotificationRulesSetting);
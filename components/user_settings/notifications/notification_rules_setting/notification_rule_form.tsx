@@ -0,0 +1,333 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {ChangeEvent, useMemo} from 'react';
+import ReactSelect, {ValueType} from 'react-select';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useSelector} from 'react-redux';
+
+import {getMyChannels} from 'mattermost-redux/selectors/entities/channels';
+import {getCurrentUserId, getUsers} from 'mattermost-redux/selectors/entities/common';
+
+import {isSafePattern, isValidPattern, MINUTES_PER_DAY} from 'utils/notification_rules';
+
+import type {
+    NotificationRule,
+    NotificationRuleAction,
+    NotificationRuleConditions,
+} from 'types/store/notification_rules';
+
+type Option = {
+    value: string;
+    label: string;
+};
+
+type Props = {
+    rule: NotificationRule;
+    onChange: (rule: NotificationRule) => void;
+    onDone: () => void;
+};
+
+const ACTIONS: NotificationRuleAction[] = ['desktop', 'sound', 'require_interaction', 'suppress'];
+const DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const DEFAULT_TIME_WINDOW = {start: 9 * 60, end: 17 * 60, days: []};
+
+export function formatMinutes(minutes: number) {
+    const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+    return `${hours}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+export function parseMinutes(value: string) {
+    const [hours, minutes] = value.split(':').map((part) => parseInt(part, 10));
+    if (isNaN(hours) || isNaN(minutes)) {
+        return 0;
+    }
+
+    return ((hours * 60) + minutes) % MINUTES_PER_DAY;
+}
+
+const NotificationRuleForm = ({rule, onChange, onDone}: Props) => {
+    const {formatMessage, formatDate} = useIntl();
+
+    const currentUserId = useSelector(getCurrentUserId);
+    const users = useSelector(getUsers);
+    const channels = useSelector(getMyChannels);
+
+    const userOptions = useMemo(() => Object.values(users).
+        filter((user) => user.id !== currentUserId && !user.delete_at).
+        map((user) => ({value: user.id, label: `@${user.username}`})).
+        sort((a, b) => a.label.localeCompare(b.label)), [users, currentUserId]);
+
+    const channelOptions = useMemo(() => channels.
+        map((channel) => ({value: channel.id, label: channel.display_name})).
+        sort((a, b) => a.label.localeCompare(b.label)), [channels]);
+
+    const {conditions} = rule;
+
+    const updateConditions = (changes: Partial<NotificationRuleConditions>) => {
+        onChange({...rule, conditions: {...conditions, ...changes}});
+    };
+
+    const handleNameChange = (e: ChangeEvent<HTMLInputElement>) => {
+        onChange({...rule, name: e.target.value});
+    };
+
+    const handleKeywordsChange = (e: ChangeEvent<HTMLInputElement>) => {
+        // Keywords are trimmed when they're matched so that the spacing typed by the user is kept
+        updateConditions({keywords: e.target.value.split(',')});
+    };
+
+    const handlePatternChange = (e: ChangeEvent<HTMLInputElement>) => {
+        updateConditions({pattern: e.target.value});
+    };
+
+    const handleAuthorsChange = (selected: ValueType<Option>) => {
+        updateConditions({authorIds: ((selected || []) as Option[]).map((option) => option.value)});
+    };
+
+    const handleChannelsChange = (selected: ValueType<Option>) => {
+        updateConditions({channelIds: ((selected || []) as Option[]).map((option) => option.value)});
+    };
+
+    const handleThreadFollowStateChange = (e: ChangeEvent<HTMLSelectElement>) => {
+        updateConditions({threadFollowState: e.target.value as NotificationRuleConditions['threadFollowState']});
+    };
+
+    const handleTimeWindowToggle = (e: ChangeEvent<HTMLInputElement>) => {
+        updateConditions({timeWindow: e.target.checked ? DEFAULT_TIME_WINDOW : null});
+    };
+
+    const handleTimeChange = (e: ChangeEvent<HTMLInputElement>) => {
+        updateConditions({timeWindow: {...conditions.timeWindow!, [e.target.name]: parseMinutes(e.target.value)}});
+    };
+
+    const handleDayChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const day = parseInt(e.target.value, 10);
+        const days = conditions.timeWindow!.days.filter((d) => d !== day);
+        if (e.target.checked) {
+            days.push(day);
+        }
+
+        updateConditions({timeWindow: {...conditions.timeWindow!, days: days.sort()}});
+    };
+
+    const handleActionChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const action = e.target.value as NotificationRuleAction;
+
+        let actions = rule.actions.filter((a) => a !== action);
+        if (e.target.checked) {
+            // Suppressing notifications can't be combined with any other action
+            actions = action === 'suppress' ? [action] : [...actions.filter((a) => a !== 'suppress'), action];
+        }
+
+        onChange({...rule, actions});
+    };
+
+    const actionLabels: Record<NotificationRuleAction, string> = {
+        desktop: formatMessage({id: 'user.settings.notifications.rules.action.desktop', defaultMessage: 'Show a desktop notification'}),
+        sound: formatMessage({id: 'user.settings.notifications.rules.action.sound', defaultMessage: 'Play a sound'}),
+        require_interaction: formatMessage({id: 'user.settings.notifications.rules.action.requireInteraction', defaultMessage: 'Keep the notification open until I dismiss it'}),
+        suppress: formatMessage({id: 'user.settings.notifications.rules.action.suppress', defaultMessage: 'Don\'t notify me'}),
+    };
+
+    let patternError;
+    if (conditions.pattern && !isValidPattern(conditions.pattern)) {
+        patternError = (
+            <FormattedMessage
+                id='user.settings.notifications.rules.patternInvalid'
+                defaultMessage='This is not a valid regular expression'
+            />
+        );
+    } else if (conditions.pattern && !isSafePattern(conditions.pattern)) {
+        patternError = (
+            <FormattedMessage
+                id='user.settings.notifications.rules.patternUnsafe'
+                defaultMessage='This regular expression is too long or could take too long to match messages.'
+            />
+        );
+    }
+
+    return (
+        <div className='NotificationRuleForm'>
+            <label className='NotificationRuleForm__field'>
+                <FormattedMessage
+                    id='user.settings.notifications.rules.name'
+                    defaultMessage='Name'
+                />
+                <input
+                    id='notificationRuleName'
+                    className='form-control'
+                    value={rule.name}
+                    onChange={handleNameChange}
+                />
+            </label>
+            <label className='NotificationRuleForm__field'>
+                <FormattedMessage
+                    id='user.settings.notifications.rules.keywords'
+                    defaultMessage='Messages containing any of these words (separated by commas)'
+                />
+                <input
+                    id='notificationRuleKeywords'
+                    className='form-control'
+                    value={conditions.keywords.join(',')}
+                    onChange={handleKeywordsChange}
+                />
+            </label>
+            <label className='NotificationRuleForm__field'>
+                <FormattedMessage
+                    id='user.settings.notifications.rules.pattern'
+                    defaultMessage='Or messages matching this regular expression'
+                />
+                <input
+                    id='notificationRulePattern'
+                    className='form-control'
+                    value={conditions.pattern}
+                    onChange={handlePatternChange}
+                />
+                {patternError && (
+                    <span className='has-error'>
+                        {patternError}
+                    </span>
+                )}
+            </label>
+            <label className='NotificationRuleForm__field'>
+                <FormattedMessage
+                    id='user.settings.notifications.rules.authors'
+                    defaultMessage='Sent by'
+                />
+                <ReactSelect
+                    className='react-select'
+                    classNamePrefix='react-select'
+                    isMulti={true}
+                    options={userOptions}
+                    value={userOptions.filter((option) => conditions.authorIds.includes(option.value))}
+                    onChange={handleAuthorsChange}
+                    placeholder={formatMessage({id: 'user.settings.notifications.rules.anyone', defaultMessage: 'Anyone'})}
+                />
+            </label>
+            <label className='NotificationRuleForm__field'>
+                <FormattedMessage
+                    id='user.settings.notifications.rules.channels'
+                    defaultMessage='In'
+                />
+                <ReactSelect
+                    className='react-select'
+                    classNamePrefix='react-select'
+                    isMulti={true}
+                    options={channelOptions}
+                    value={channelOptions.filter((option) => conditions.channelIds.includes(option.value))}
+                    onChange={handleChannelsChange}
+                    placeholder={formatMessage({id: 'user.settings.notifications.rules.anyChannel', defaultMessage: 'Any channel'})}
+                />
+            </label>
+            <label className='NotificationRuleForm__field'>
+                <FormattedMessage
+                    id='user.settings.notifications.rules.threads'
+                    defaultMessage='Thread replies'
+                />
+                <select
+                    id='notificationRuleThreads'
+                    className='form-control'
+                    value={conditions.threadFollowState}
+                    onChange={handleThreadFollowStateChange}
+                >
+                    <option value='any'>
+                        {formatMessage({id: 'user.settings.notifications.rules.threads.any', defaultMessage: 'Any message'})}
+                    </option>
+                    <option value='following'>
+                        {formatMessage({id: 'user.settings.notifications.rules.threads.following', defaultMessage: 'Replies to threads I follow'})}
+                    </option>
+                    <option value='not_following'>
+                        {formatMessage({id: 'user.settings.notifications.rules.threads.notFollowing', defaultMessage: 'Replies to threads I don\'t follow'})}
+                    </option>
+                </select>
+            </label>
+            <div className='checkbox'>
+                <label>
+                    <input
+                        id='notificationRuleTimeWindow'
+                        type='checkbox'
+                        checked={Boolean(conditions.timeWindow)}
+                        onChange={handleTimeWindowToggle}
+                    />
+                    <FormattedMessage
+                        id='user.settings.notifications.rules.timeWindow'
+                        defaultMessage='Only at certain times'
+                    />
+                </label>
+            </div>
+            {conditions.timeWindow && (
+                <div className='NotificationRuleForm__timeWindow'>
+                    <input
+                        type='time'
+                        name='start'
+                        className='form-control'
+                        aria-label={formatMessage({id: 'user.settings.notifications.rules.timeWindow.start', defaultMessage: 'From'})}
+                        value={formatMinutes(conditions.timeWindow.start)}
+                        onChange={handleTimeChange}
+                    />
+                    <input
+                        type='time'
+                        name='end'
+                        className='form-control'
+                        aria-label={formatMessage({id: 'user.settings.notifications.rules.timeWindow.end', defaultMessage: 'Until'})}
+                        value={formatMinutes(conditions.timeWindow.end)}
+                        onChange={handleTimeChange}
+                    />
+                    {DAYS.map((day) => (
+                        <label
+                            key={day}
+                            className='checkbox-inline'
+                        >
+                            <input
+                                type='checkbox'
+                                value={day}
+                                checked={conditions.timeWindow!.days.includes(day)}
+                                onChange={handleDayChange}
+                            />
+                            {formatDate(new Date(2021, 7, day + 1), {weekday: 'short'})}
+                        </label>
+                    ))}
+                </div>
+            )}
+            <fieldset className='NotificationRuleForm__field'>
+                <legend className='form-legend'>
+                    <FormattedMessage
+                        id='user.settings.notifications.rules.actions'
+                        defaultMessage='Then'
+                    />
+                </legend>
+                {ACTIONS.map((action) => (
+                    <div
+                        key={action}
+                        className='checkbox'
+                    >
+                        <label>
+                            <input
+                                type='checkbox'
+                                value={action}
+                                checked={rule.actions.includes(action)}
+                                onChange={handleActionChange}
+                            />
+                            {actionLabels[action]}
+                        </label>
+                    </div>
+                ))}
+            </fieldset>
+            <button
+                id='notificationRuleDone'
+                type='button'
+                className='btn btn-link'
+                onClick={onDone}
+            >
+                <FormattedMessage
+                    id='user.settings.notifications.rules.done'
+                    defaultMessage='Done'
+                />
+            </button>
+        </div>
+    );
+};
+
+export default NotificationRuleForm;
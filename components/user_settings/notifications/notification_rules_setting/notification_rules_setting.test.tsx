@@ -0,0 +1,107 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {shallow} from 'enzyme';
+
+import SettingItemMax from 'components/setting_item_max.jsx';
+import SettingItemMin from 'components/setting_item_min';
+
+import {makeEmptyNotificationRule} from 'utils/notification_rules';
+
+import NotificationRulesSetting from './notification_rules_setting';
+
+describe('components/user_settings/notifications/NotificationRulesSetting', () => {
+    const rule = {
+        ...makeEmptyNotificationRule('rule1'),
+        conditions: {
+            ...makeEmptyNotificationRule('rule1').conditions,
+            keywords: [' deploy', 'outage ', ''],
+        },
+    };
+
+    const requiredProps = {
+        activeSection: 'rules',
+        updateSection: jest.fn(),
+        rules: [rule],
+        actions: {
+            saveNotificationRules: jest.fn(() => Promise.resolve({data: true})),
+        },
+    };
+
+    test('should show the minimized section when not active', () => {
+        const wrapper = shallow(
+            <NotificationRulesSetting
+                {...requiredProps}
+                activeSection=''
+            />,
+        );
+
+        expect(wrapper.find(SettingItemMin).exists()).toBe(true);
+    });
+
+    test('should save the cleaned up rules and close the section', async () => {
+        const saveNotificationRules = jest.fn(() => Promise.resolve({data: true}));
+        const updateSection = jest.fn();
+        const wrapper = shallow<NotificationRulesSetting>(
+            <NotificationRulesSetting
+                {...requiredProps}
+                updateSection={updateSection}
+                actions={{saveNotificationRules}}
+            />,
+        );
+
+        await wrapper.instance().handleSubmit();
+
+        expect(saveNotificationRules).toHaveBeenCalledWith([
+            expect.objectContaining({conditions: expect.objectContaining({keywords: ['deploy', 'outage']})}),
+        ]);
+        expect(updateSection).toHaveBeenCalledWith('');
+    });
+
+    test('should not save a rule without any conditions', async () => {
+        const saveNotificationRules = jest.fn(() => Promise.resolve({data: true}));
+        const wrapper = shallow<NotificationRulesSetting>(
+            <NotificationRulesSetting
+                {...requiredProps}
+                rules={[makeEmptyNotificationRule('rule1')]}
+                actions={{saveNotificationRules}}
+            />,
+        );
+
+        await wrapper.instance().handleSubmit();
+
+        expect(saveNotificationRules).not.toHaveBeenCalled();
+        expect(wrapper.state('clientError')).toBeTruthy();
+    });
+
+    test('should not save a regular expression which could take too long to match', async () => {
+        const saveNotificationRules = jest.fn(() => Promise.resolve({data: true}));
+        const wrapper = shallow<NotificationRulesSetting>(
+            <NotificationRulesSetting
+                {...requiredProps}
+                rules={[{...rule, conditions: {...rule.conditions, pattern: '(a+)+$'}}]}
+                actions={{saveNotificationRules}}
+            />,
+        );
+
+        await wrapper.instance().handleSubmit();
+
+        expect(saveNotificationRules).not.toHaveBeenCalled();
+        expect(wrapper.state('clientError')).toBeTruthy();
+    });
+
+    test('should move a rule down', () => {
+        const wrapper = shallow<NotificationRulesSetting>(
+            <NotificationRulesSetting
+                {...requiredProps}
+                rules={[rule, {...rule, id: 'rule2'}]}
+            />,
+        );
+
+        const inputs = shallow(<div>{wrapper.find(SettingItemMax).prop('inputs')}</div>);
+        inputs.find('button[value="rule1:down"]').simulate('click', {currentTarget: {value: 'rule1:down'}});
+
+        expect(wrapper.state('rules').map((r) => r.id)).toEqual(['rule2', 'rule1']);
+    });
+});
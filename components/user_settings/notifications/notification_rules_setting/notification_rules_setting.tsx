@@ -0,0 +1,331 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {FormattedMessage} from 'react-intl';
+
+import SettingItemMax from 'components/setting_item_max.jsx';
+import SettingItemMin from 'components/setting_item_min';
+
+import {hasConditions, isSafePattern, isValidPattern, makeEmptyNotificationRule} from 'utils/notification_rules';
+import {generateId, localizeMessage} from 'utils/utils.jsx';
+
+import type {NotificationRule} from 'types/store/notification_rules';
+
+import NotificationRuleForm from './notification_rule_form';
+
+import './notification_rules_setting.scss';
+
+const SECTION = 'rules';
+
+type Props = {
+    activeSection: string;
+    updateSection: (section: string) => void;
+    rules: NotificationRule[];
+    actions: {
+        saveNotificationRules: (rules: NotificationRule[]) => Promise<{data?: boolean; error?: any}>;
+    };
+};
+
+type State = {
+    active: boolean;
+    rules: NotificationRule[];
+    editingRuleId: string;
+    saving: boolean;
+    clientError: string;
+    serverError: string;
+};
+
+function cleanRule(rule: NotificationRule): NotificationRule {
+    return {
+        ...rule,
+        name: rule.name.trim(),
+        conditions: {
+            ...rule.conditions,
+            keywords: rule.conditions.keywords.map((keyword) => keyword.trim()).filter(Boolean),
+            pattern: rule.conditions.pattern.trim(),
+        },
+    };
+}
+
+export default class NotificationRulesSetting extends React.PureComponent<Props, State> {
+    constructor(props: Props) {
+        super(props);
+
+        this.state = {
+            active: false,
+            rules: props.rules,
+            editingRuleId: '',
+            saving: false,
+            clientError: '',
+            serverError: '',
+        };
+    }
+
+    static getDerivedStateFromProps(props: Props, state: State) {
+        const active = props.activeSection === SECTION;
+
+        // Start from the saved rules whenever the section is opened
+        if (active && !state.active) {
+            return {
+                active,
+                rules: props.rules,
+                editingRuleId: '',
+                clientError: '',
+                serverError: '',
+            };
+        }
+
+        if (active !== state.active) {
+            return {active};
+        }
+
+        return null;
+    }
+
+    handleAddRule = () => {
+        const rule = makeEmptyNotificationRule(generateId());
+
+        this.setState({
+            rules: [...this.state.rules, rule],
+            editingRuleId: rule.id,
+        });
+    }
+
+    handleRuleChange = (rule: NotificationRule) => {
+        this.setState({
+            rules: this.state.rules.map((r) => (r.id === rule.id ? rule : r)),
+        });
+    }
+
+    handleToggleRule = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const id = e.target.value;
+
+        this.setState({
+            rules: this.state.rules.map((r) => (r.id === id ? {...r, enabled: e.target.checked} : r)),
+        });
+    }
+
+    handleEditRule = (e: React.MouseEvent<HTMLButtonElement>) => {
+        this.setState({editingRuleId: e.currentTarget.value});
+    }
+
+    handleDoneEditing = () => {
+        this.setState({editingRuleId: ''});
+    }
+
+    handleDeleteRule = (e: React.MouseEvent<HTMLButtonElement>) => {
+        const id = e.currentTarget.value;
+
+        this.setState({
+            rules: this.state.rules.filter((r) => r.id !== id),
+        });
+    }
+
+    handleMoveRule = (e: React.MouseEvent<HTMLButtonElement>) => {
+        const [id, direction] = e.currentTarget.value.split(':');
+        const rules = [...this.state.rules];
+        const index = rules.findIndex((r) => r.id === id);
+        const newIndex = index + (direction === 'up' ? -1 : 1);
+
+        if (newIndex < 0 || newIndex >= rules.length) {
+            return;
+        }
+
+        [rules[index], rules[newIndex]] = [rules[newIndex], rules[index]];
+        this.setState({rules});
+    }
+
+    handleSubmit = async () => {
+        const rules = this.state.rules.map(cleanRule);
+
+        if (rules.some((rule) => !hasConditions(rule.conditions))) {
+            this.setState({clientError: localizeMessage('user.settings.notifications.rules.noConditions', 'Every rule needs at least one condition.')});
+            return;
+        }
+
+        if (rules.some((rule) => rule.conditions.pattern && !isValidPattern(rule.conditions.pattern))) {
+            this.setState({clientError: localizeMessage('user.settings.notifications.rules.patternInvalid', 'This is not a valid regular expression')});
+            return;
+        }
+
+        if (rules.some((rule) => rule.conditions.pattern && !isSafePattern(rule.conditions.pattern))) {
+            this.setState({clientError: localizeMessage('user.settings.notifications.rules.patternUnsafe', 'This regular expression is too long or could take too long to match messages.')});
+            return;
+        }
+
+        if (rules.some((rule) => !rule.actions.length)) {
+            this.setState({clientError: localizeMessage('user.settings.notifications.rules.noActions', 'Every rule needs at least one action.')});
+            return;
+        }
+
+        this.setState({saving: true, clientError: '', serverError: ''});
+
+        const {error} = await this.props.actions.saveNotificationRules(rules);
+        if (error) {
+            this.setState({saving: false, serverError: error.message});
+            return;
+        }
+
+        this.setState({saving: false});
+        this.props.updateSection('');
+    }
+
+    handleUpdateSection = (section: string) => {
+        this.props.updateSection(section || '');
+    }
+
+    renderRuleName(rule: NotificationRule, index: number) {
+        if (rule.name) {
+            return rule.name;
+        }
+
+        return (
+            <FormattedMessage
+                id='user.settings.notifications.rules.untitled'
+                defaultMessage='Rule {number}'
+                values={{number: index + 1}}
+            />
+        );
+    }
+
+    renderRule = (rule: NotificationRule, index: number) => {
+        if (rule.id === this.state.editingRuleId) {
+            return (
+                <li
+                    key={rule.id}
+                    className='NotificationRules__rule NotificationRules__rule--editing'
+                >
+                    <NotificationRuleForm
+                        rule={rule}
+                        onChange={this.handleRuleChange}
+                        onDone={this.handleDoneEditing}
+                    />
+                </li>
+            );
+        }
+
+        return (
+            <li
+                key={rule.id}
+                className='NotificationRules__rule'
+            >
+                <label className='NotificationRules__name'>
+                    <input
+                        type='checkbox'
+                        value={rule.id}
+                        checked={rule.enabled}
+                        onChange={this.handleToggleRule}
+                    />
+                    {this.renderRuleName(rule, index)}
+                </label>
+                <button
+                    type='button'
+                    className='btn btn-link'
+                    value={`${rule.id}:up`}
+                    disabled={index === 0}
+                    aria-label={localizeMessage('user.settings.notifications.rules.moveUp', 'Move up')}
+                    onClick={this.handleMoveRule}
+                >
+                    <i className='icon icon-arrow-up'/>
+                </button>
+                <button
+                    type='button'
+                    className='btn btn-link'
+                    value={`${rule.id}:down`}
+                    disabled={index === this.state.rules.length - 1}
+                    aria-label={localizeMessage('user.settings.notifications.rules.moveDown', 'Move down')}
+                    onClick={this.handleMoveRule}
+                >
+                    <i className='icon icon-arrow-down'/>
+                </button>
+                <button
+                    type='button'
+                    className='btn btn-link'
+                    value={rule.id}
+                    onClick={this.handleEditRule}
+                >
+                    <FormattedMessage
+                        id='user.settings.notifications.rules.edit'
+                        defaultMessage='Edit'
+                    />
+                </button>
+                <button
+                    type='button'
+                    className='btn btn-link'
+                    value={rule.id}
+                    onClick={this.handleDeleteRule}
+                >
+                    <FormattedMessage
+                        id='user.settings.notifications.rules.delete'
+                        defaultMessage='Delete'
+                    />
+                </button>
+            </li>
+        );
+    }
+
+    render() {
+        const title = localizeMessage('user.settings.notifications.rules.title', 'Notification Rules');
+
+        if (this.props.activeSection !== SECTION) {
+            const enabledCount = this.props.rules.filter((rule) => rule.enabled).length;
+
+            return (
+                <SettingItemMin
+                    title={title}
+                    describe={(
+                        <FormattedMessage
+                            id='user.settings.notifications.rules.describe'
+                            defaultMessage='{count, plural, =0 {No rules} one {# rule} other {# rules}}'
+                            values={{count: enabledCount}}
+                        />
+                    )}
+                    section={SECTION}
+                    updateSection={this.handleUpdateSection}
+                />
+            );
+        }
+
+        const inputs = [
+            <ol
+                key='notificationRules'
+                className='NotificationRules'
+            >
+                {this.state.rules.map(this.renderRule)}
+            </ol>,
+            <button
+                key='addNotificationRule'
+                id='addNotificationRule'
+                type='button'
+                className='btn btn-link'
+                onClick={this.handleAddRule}
+            >
+                <FormattedMessage
+                    id='user.settings.notifications.rules.add'
+                    defaultMessage='Add a rule'
+                />
+            </button>,
+        ];
+
+        return (
+            <SettingItemMax
+                title={title}
+                inputs={inputs}
+                submit={this.handleSubmit}
+                saving={this.state.saving}
+                disableEnterSubmit={true}
+                clientError={this.state.clientError}
+                serverError={this.state.serverError}
+                extraInfo={(
+                    <FormattedMessage
+                        id='user.settings.notifications.rules.info'
+                        defaultMessage='Rules are checked in order and the first one that matches a message decides how you are notified about it. Messages that don’t match any rule use the settings above. Rules don’t apply while your status is set to Do Not Disturb or Out of Office.'
+                    />
+                )}
+                section={SECTION}
+                updateSection={this.handleUpdateSection}
+            />
+        );
+    }
+}
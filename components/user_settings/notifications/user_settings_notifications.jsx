@@ -18,6 +18,7 @@ import {isDesktopApp} from 'utils/user_agent';
 import DesktopNotificationSettings from './desktop_notification_settings.jsx';
 import EmailNotificationSetting from './email_notification_setting';
 import ManageAutoResponder from './manage_auto_responder.jsx';
+import NotificationRulesSetting from './notification_rules_setting';
 
 function getNotificationsStateFromProps(props) {
     const user = props.user;
@@ -1028,6 +1029,11 @@ export default class NotificationsTab extends React.PureComponent {
                             <div className='divider-light'/>
                         </>
                     )}
+                    <NotificationRulesSetting
+                        activeSection={this.props.activeSection}
+                        updateSection={this.handleUpdateSection}
+                    />
+                    <div className='divider-light'/>
                     {autoResponderSection}
                     <div className='divider-dark'/>
                 </div>
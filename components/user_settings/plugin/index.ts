@@ -0,0 +1,6 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import UserSettingsPlugin from './user_settings_plugin';
+
+export default UserSettingsPlugin;
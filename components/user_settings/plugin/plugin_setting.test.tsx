@@ -0,0 +1,127 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {act} from 'react-dom/test-utils';
+import {Provider} from 'react-redux';
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import {savePreferencesAndWait} from 'mattermost-redux/actions/preferences';
+
+import {mountWithIntl} from 'tests/helpers/intl-test-helper';
+
+import PluginSetting from './plugin_setting';
+
+jest.mock('mattermost-redux/actions/preferences', () => ({
+    savePreferencesAndWait: jest.fn(() => ({type: 'SAVE_PREFERENCES'})),
+}));
+
+describe('components/user_settings/plugin/PluginSetting', () => {
+    const mockStore = configureStore([thunk]);
+    const store = mockStore({
+        entities: {
+            users: {
+                currentUserId: 'user1',
+            },
+            preferences: {
+                myPreferences: {
+                    'pp_com.example--language': {category: 'pp_com.example', name: 'language', value: 'fr'},
+                },
+            },
+        },
+        views: {
+            browser: {
+                windowSize: '',
+            },
+        },
+    });
+
+    const baseProps = {
+        pluginId: 'com.example',
+        setting: {
+            name: 'language',
+            type: 'dropdown' as const,
+            title: 'Translate messages to',
+            default: 'en',
+            options: [
+                {text: 'English', value: 'en'},
+                {text: 'French', value: 'fr'},
+            ],
+        },
+        active: false,
+        updateSection: jest.fn(),
+    };
+
+    test('should describe the saved value', () => {
+        const wrapper = mountWithIntl(
+            <Provider store={store}>
+                <PluginSetting {...baseProps}/>
+            </Provider>,
+        );
+
+        expect(wrapper.find('.section-min__describe').text()).toBe('French');
+    });
+
+    test('should describe the default value until the user changes it', () => {
+        const wrapper = mountWithIntl(
+            <Provider store={store}>
+                <PluginSetting
+                    {...baseProps}
+                    setting={{name: 'enabled', type: 'bool', title: 'Translate messages', default: 'true'}}
+                />
+            </Provider>,
+        );
+
+        expect(wrapper.find('.section-min__describe').text()).toBe('On');
+    });
+
+    test('should save the setting in the category of the plugin', async () => {
+        const updateSection = jest.fn();
+        const wrapper = mountWithIntl(
+            <Provider store={store}>
+                <PluginSetting
+                    {...baseProps}
+                    active={true}
+                    updateSection={updateSection}
+                />
+            </Provider>,
+        );
+
+        wrapper.find('select').simulate('change', {target: {value: 'en'}});
+        await act(async () => {
+            wrapper.find('#saveSetting').simulate('click');
+        });
+
+        expect(savePreferencesAndWait).toHaveBeenCalledWith('user1', [{
+            user_id: 'user1',
+            category: 'pp_com.example',
+            name: 'language',
+            value: 'en',
+        }]);
+        expect(updateSection).toHaveBeenCalledWith('');
+    });
+
+    test('should show the error and stay open when saving the setting fails', async () => {
+        (savePreferencesAndWait as jest.Mock).mockReturnValueOnce(() => Promise.resolve({error: {message: 'Failed to save'}}));
+
+        const updateSection = jest.fn();
+        const wrapper = mountWithIntl(
+            <Provider store={store}>
+                <PluginSetting
+                    {...baseProps}
+                    active={true}
+                    updateSection={updateSection}
+                />
+            </Provider>,
+        );
+
+        await act(async () => {
+            wrapper.find('#saveSetting').simulate('click');
+        });
+        wrapper.update();
+
+        expect(wrapper.find('#serverError').text()).toBe('Failed to save');
+        expect(updateSection).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,219 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {memo, useEffect, useState} from 'react';
+import {FormattedMessage, useIntl} from 'react-intl';
+import {useDispatch, useSelector} from 'react-redux';
+
+import {savePreferencesAndWait} from 'mattermost-redux/actions/preferences';
+import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
+import {ActionResult} from 'mattermost-redux/types/actions';
+
+import {getPluginPreferenceCategory, getPluginUserSetting} from 'selectors/plugins';
+
+import SettingItemMax from 'components/setting_item_max';
+import SettingItemMin from 'components/setting_item_min';
+
+import type {PluginUserSetting} from 'plugins/registry_types';
+
+import {GlobalState} from 'types/store';
+
+type Props = {
+    pluginId: string;
+    setting: PluginUserSetting;
+    active: boolean;
+    updateSection: (section: string) => void;
+};
+
+// PluginSetting is a section of the settings tab of a plugin where the user changes one of its settings
+function PluginSetting({pluginId, setting, active, updateSection}: Props) {
+    const dispatch = useDispatch();
+    const {formatMessage} = useIntl();
+
+    const currentUserId = useSelector(getCurrentUserId);
+    const savedValue = useSelector((state: GlobalState) => getPluginUserSetting(state, pluginId, setting.name, setting.default));
+
+    const [value, setValue] = useState(savedValue);
+    const [saving, setSaving] = useState(false);
+    const [clientError, setClientError] = useState('');
+    const [serverError, setServerError] = useState('');
+
+    // Start from the saved value whenever the section is opened
+    useEffect(() => {
+        if (active) {
+            setValue(savedValue);
+            setClientError('');
+            setServerError('');
+        }
+    }, [active]);
+
+    const handleSubmit = async () => {
+        if (setting.type === 'number' && value.trim() !== '' && isNaN(Number(value))) {
+            setClientError(formatMessage({id: 'user.settings.plugin.invalidNumber', defaultMessage: 'Please enter a number.'}));
+            return;
+        }
+
+        setSaving(true);
+        setClientError('');
+        setServerError('');
+
+        const {error} = await dispatch(savePreferencesAndWait(currentUserId, [{
+            user_id: currentUserId,
+            category: getPluginPreferenceCategory(pluginId),
+            name: setting.name,
+            value: setting.type === 'number' ? value.trim() : value,
+        }])) as ActionResult;
+
+        setSaving(false);
+
+        if (error) {
+            setServerError(error.message);
+            return;
+        }
+
+        updateSection('');
+    };
+
+    const renderBoolLabel = (checked: boolean) => {
+        if (checked) {
+            return (
+                <FormattedMessage
+                    id='user.settings.plugin.on'
+                    defaultMessage='On'
+                />
+            );
+        }
+
+        return (
+            <FormattedMessage
+                id='user.settings.plugin.off'
+                defaultMessage='Off'
+            />
+        );
+    };
+
+    const renderDescription = () => {
+        if (setting.type === 'bool') {
+            return renderBoolLabel(savedValue === 'true');
+        }
+
+        const option = setting.options?.find((o) => o.value === savedValue);
+        if (option) {
+            return option.text;
+        }
+
+        return savedValue || (
+            <FormattedMessage
+                id='user.settings.plugin.none'
+                defaultMessage='None'
+            />
+        );
+    };
+
+    const renderInput = () => {
+        switch (setting.type) {
+        case 'bool':
+            return [true, false].map((checked) => (
+                <div
+                    key={String(checked)}
+                    className='radio'
+                >
+                    <label>
+                        <input
+                            type='radio'
+                            name={setting.name}
+                            checked={(value === 'true') === checked}
+                            onChange={() => setValue(String(checked))}
+                        />
+                        {renderBoolLabel(checked)}
+                    </label>
+                    <br/>
+                </div>
+            ));
+        case 'radio':
+            return setting.options?.map((option) => (
+                <div
+                    key={option.value}
+                    className='radio'
+                >
+                    <label>
+                        <input
+                            type='radio'
+                            name={setting.name}
+                            checked={value === option.value}
+                            onChange={() => setValue(option.value)}
+                        />
+                        {option.text}
+                    </label>
+                    <br/>
+                </div>
+            ));
+        case 'dropdown':
+            return (
+                <select
+                    id={setting.name}
+                    className='form-control'
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                >
+                    {setting.options?.map((option) => (
+                        <option
+                            key={option.value}
+                            value={option.value}
+                        >
+                            {option.text}
+                        </option>
+                    ))}
+                </select>
+            );
+        default:
+            return (
+                <input
+                    id={setting.name}
+                    className='form-control'
+                    type={setting.type === 'number' ? 'number' : 'text'}
+                    placeholder={setting.placeholder}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                />
+            );
+        }
+    };
+
+    if (!active) {
+        return (
+            <SettingItemMin
+                title={setting.title}
+                describe={renderDescription()}
+                section={setting.name}
+                updateSection={updateSection}
+            />
+        );
+    }
+
+    return (
+        <SettingItemMax
+            title={setting.title}
+            inputs={
+                <fieldset>
+                    <legend className='form-legend hidden-label'>
+                        {setting.title}
+                    </legend>
+                    {renderInput()}
+                    {setting.helpText && (
+                        <div className='mt-5'>
+                            {setting.helpText}
+                        </div>
+                    )}
+                </fieldset>
+            }
+            submit={handleSubmit}
+            saving={saving}
+            clientError={clientError}
+            serverError={serverError}
+            updateSection={updateSection}
+        />
+    );
+}
+
+export default memo(PluginSetting);
@@ -0,0 +1,71 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import LocalizedIcon from 'components/localized_icon';
+
+import {PluginUserSettingsComponent} from 'types/store/plugins';
+
+import {t} from 'utils/i18n';
+
+import PluginSetting from './plugin_setting';
+
+export type Props = {
+    settings: PluginUserSettingsComponent;
+    updateSection: (section: string) => void;
+    activeSection: string;
+    closeModal: () => void;
+    collapseModal: () => void;
+};
+
+// UserSettingsPlugin is a tab of the Settings modal which was registered by a plugin
+export default function UserSettingsPlugin({settings, updateSection, activeSection, closeModal, collapseModal}: Props): JSX.Element {
+    const {pluginId, section} = settings;
+
+    return (
+        <div>
+            <div className='modal-header'>
+                <button
+                    id='closeButton'
+                    type='button'
+                    className='close'
+                    data-dismiss='modal'
+                    aria-label='Close'
+                    onClick={closeModal}
+                >
+                    <span aria-hidden='true'>{'×'}</span>
+                </button>
+                <h4 className='modal-title'>
+                    <div
+                        className='modal-back'
+                        onClick={collapseModal}
+                    >
+                        <LocalizedIcon
+                            className='fa fa-angle-left'
+                            title={{id: t('generic_icons.collapse'), defaultMessage: 'Collapse Icon'}}
+                        />
+                    </div>
+                    {section.title}
+                </h4>
+            </div>
+            <div className='user-settings'>
+                <h3 className='tab-header'>
+                    {section.title}
+                </h3>
+                <div className='divider-dark first'/>
+                {section.settings.map((setting) => (
+                    <React.Fragment key={setting.name}>
+                        <PluginSetting
+                            pluginId={pluginId}
+                            setting={setting}
+                            active={activeSection === setting.name}
+                            updateSection={updateSection}
+                        />
+                        <div className='divider-dark'/>
+                    </React.Fragment>
+                ))}
+            </div>
+        </div>
+    );
+}
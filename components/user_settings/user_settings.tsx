@@ -5,10 +5,13 @@ import React from 'react';
 
 import {UserProfile} from 'mattermost-redux/types/users';
 
+import {PluginUserSettingsComponent} from 'types/store/plugins';
+
 import AdvancedTab from './advanced';
 import DisplayTab from './display';
 import GeneralTab from './general';
 import NotificationsTab from './notifications';
+import PluginTab from './plugin';
 import SecurityTab from './security';
 import SidebarTab from './sidebar';
 
@@ -22,6 +25,7 @@ export type Props = {
     collapseModal: () => void;
     setEnforceFocus: () => void;
     setRequireConfirm: () => void;
+    pluginSettings: PluginUserSettingsComponent[];
 };
 
 export default class UserSettings extends React.PureComponent<Props> {
@@ -102,6 +106,21 @@ export default class UserSettings extends React.PureComponent<Props> {
             );
         }
 
+        const pluginSettings = this.props.pluginSettings.find((settings) => settings.id === this.props.activeTab);
+        if (pluginSettings) {
+            return (
+                <div>
+                    <PluginTab
+                        settings={pluginSettings}
+                        activeSection={this.props.activeSection}
+                        updateSection={this.props.updateSection}
+                        closeModal={this.props.closeModal}
+                        collapseModal={this.props.collapseModal}
+                    />
+                </div>
+            );
+        }
+
         return <div/>;
     }
 }
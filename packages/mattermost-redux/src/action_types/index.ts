@@ -24,6 +24,7 @@ import ChannelCategoryTypes from './channel_categories';
 import CloudTypes from './cloud';
 import AppsTypes from './apps';
 import ThreadTypes from './threads';
+import ScheduledPostTypes from './scheduled_posts';
 
 export {
     ErrorTypes,
@@ -49,4 +50,5 @@ export {
     CloudTypes,
     AppsTypes,
     ThreadTypes,
+    ScheduledPostTypes,
 };
@@ -0,0 +1,10 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import keyMirror from 'mattermost-redux/utils/key_mirror';
+
+export default keyMirror({
+    RECEIVED_SCHEDULED_POSTS: null,
+    RECEIVED_SCHEDULED_POST: null,
+    SCHEDULED_POST_DELETED: null,
+});
@@ -7,11 +7,11 @@ import configureStore from 'mattermost-redux/test/test_store';
 
 import {Client4} from 'mattermost-redux/client';
 
-import {General} from '../constants';
+import {General, Preferences} from '../constants';
 import {CategoryTypes} from '../constants/channel_categories';
 import {MarkUnread} from '../constants/channels';
 
-import {getAllCategoriesByIds, getCategory} from 'mattermost-redux/selectors/entities/channel_categories';
+import {getAllCategoriesByIds, getCategory, getCategoryMuteExpiry} from 'mattermost-redux/selectors/entities/channel_categories';
 import {isFavoriteChannel} from 'mattermost-redux/selectors/entities/channels';
 
 import TestHelper, {DEFAULT_SERVER} from 'mattermost-redux/test/test_helper';
@@ -288,6 +288,82 @@ describe('setCategoryMuted', () => {
         expect(state.entities.channels.myMembers.channel1.notify_props.mark_unread).toBe(MarkUnread.ALL);
         expect(state.entities.channels.myMembers.channel2.notify_props.mark_unread).toBe(MarkUnread.ALL);
     });
+
+    test('should save when a category that is muted for a while should be unmuted', async () => {
+        const currentUserId = TestHelper.generateId();
+        const teamId = TestHelper.generateId();
+
+        const category1 = {id: 'category1', team_id: teamId, channel_ids: []};
+
+        const store = configureStore({
+            entities: {
+                channelCategories: {
+                    byId: {
+                        category1,
+                    },
+                },
+                preferences: {
+                    myPreferences: {},
+                },
+                users: {
+                    currentUserId,
+                },
+            },
+        });
+
+        const expiresAt = Date.now() + (2 * 60 * 60 * 1000);
+
+        nock(Client4.getBaseRoute()).
+            put(`/users/${currentUserId}/teams/${teamId}/channels/categories/${category1.id}`).
+            reply(200, {...category1, muted: true});
+        nock(Client4.getBaseRoute()).
+            put(`/users/${currentUserId}/preferences`).
+            reply(200, OK_RESPONSE);
+
+        await store.dispatch(Actions.setCategoryMuted('category1', true, expiresAt));
+
+        expect(getCategoryMuteExpiry(store.getState(), 'category1')).toBe(expiresAt);
+    });
+
+    test('should remove the expiry when a category is unmuted', async () => {
+        const currentUserId = TestHelper.generateId();
+        const teamId = TestHelper.generateId();
+
+        const category1 = {id: 'category1', team_id: teamId, channel_ids: [], muted: true};
+
+        const store = configureStore({
+            entities: {
+                channelCategories: {
+                    byId: {
+                        category1,
+                    },
+                },
+                preferences: {
+                    myPreferences: {
+                        [`${Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY}--category1`]: {
+                            category: Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY,
+                            name: 'category1',
+                            value: String(Date.now() + 1000),
+                        },
+                    },
+                },
+                users: {
+                    currentUserId,
+                },
+            },
+        });
+
+        nock(Client4.getBaseRoute()).
+            put(`/users/${currentUserId}/teams/${teamId}/channels/categories/${category1.id}`).
+            reply(200, {...category1, muted: false});
+        nock(Client4.getBaseRoute()).
+            post(`/users/${currentUserId}/preferences/delete`).
+            reply(200, OK_RESPONSE);
+
+        await store.dispatch(Actions.setCategoryMuted('category1', false));
+
+        expect(getCategoryMuteExpiry(store.getState(), 'category1')).toBe(0);
+    });
 });
 
 describe('fetchMyCategories', () => {
@@ -7,8 +7,9 @@ import {Client4} from 'mattermost-redux/client';
 
 import {logError} from 'mattermost-redux/actions/errors';
 import {forceLogoutIfNecessary} from 'mattermost-redux/actions/helpers';
+import {deletePreferences, savePreferences} from 'mattermost-redux/actions/preferences';
 
-import {General} from '../constants';
+import {General, Preferences} from '../constants';
 import {CategoryTypes} from 'mattermost-redux/constants/channel_categories';
 
 import {
@@ -17,6 +18,8 @@ import {
     getCategoryIdsForTeam,
     getCategoryInTeamByType,
     getCategoryInTeamWithChannel,
+    getCategoryMuteExpiry,
+    getCategoryRules,
 } from 'mattermost-redux/selectors/entities/channel_categories';
 import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
 
@@ -26,7 +29,7 @@ import {
     DispatchFunc,
     GetStateFunc,
 } from 'mattermost-redux/types/actions';
-import {CategorySorting, OrderedChannelCategories, ChannelCategory} from 'mattermost-redux/types/channel_categories';
+import {CategorySorting, OrderedChannelCategories, ChannelCategory, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
 import {Channel} from 'mattermost-redux/types/channels';
 
 import {insertMultipleWithoutDuplicates, insertWithoutDuplicates, removeItem} from 'mattermost-redux/utils/array_utils';
@@ -84,7 +87,9 @@ export function patchCategory(categoryId: string, patch: Partial<ChannelCategory
     };
 }
 
-export function setCategoryMuted(categoryId: string, muted: boolean) {
+// setCategoryMuted mutes or unmutes a category and all of its channels. If expiresAt is provided, the category will be
+// unmuted automatically at that time.
+export function setCategoryMuted(categoryId: string, muted: boolean, expiresAt = 0) {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const state = getState();
         const category = getCategory(state, categoryId);
@@ -98,6 +103,20 @@ export function setCategoryMuted(categoryId: string, muted: boolean) {
             return result;
         }
 
+        const currentUserId = getCurrentUserId(state);
+        const expiryPreference = {
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY,
+            name: categoryId,
+            value: String(expiresAt),
+        };
+
+        if (muted && expiresAt) {
+            dispatch(savePreferences(currentUserId, [expiryPreference]));
+        } else if (getCategoryMuteExpiry(state, categoryId)) {
+            dispatch(deletePreferences(currentUserId, [expiryPreference]));
+        }
+
         const updated = result.data as ChannelCategory;
 
         return dispatch(batchActions([
@@ -451,6 +470,26 @@ export function renameCategory(categoryId: string, displayName: string): ActionF
     });
 }
 
+// setCategoryRules turns a custom category into a smart category which contains the channels matching the given rules
+// or turns it back into a regular category if rules is null.
+export function setCategoryRules(categoryId: string, rules: SmartCategoryRules | null): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+        const preference = {
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_SIDEBAR_CATEGORY_RULES,
+            name: categoryId,
+            value: rules ? JSON.stringify(rules) : '',
+        };
+
+        if (!rules) {
+            return dispatch(deletePreferences(currentUserId, [preference]));
+        }
+
+        return dispatch(savePreferences(currentUserId, [preference]));
+    };
+}
+
 export function deleteCategory(categoryId: string): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const state = getState();
@@ -465,6 +504,10 @@ export function deleteCategory(categoryId: string): ActionFunc {
             return {error};
         }
 
+        if (getCategoryRules(state, categoryId)) {
+            dispatch(setCategoryRules(categoryId, null));
+        }
+
         // The category will be deleted from the state after receiving the corresponding websocket event.
 
         return {data: true};
@@ -151,7 +151,7 @@ export function getGroup(id: string): ActionFunc {
     });
 }
 
-export function getGroups(filterAllowReference: false, page = 0, perPage: number = General.PAGE_SIZE_DEFAULT): ActionFunc {
+export function getGroups(filterAllowReference = false, page = 0, perPage: number = General.PAGE_SIZE_DEFAULT): ActionFunc {
     return bindClientFunc({
         clientFunc: async (param1, param2, param3) => {
             const result = await Client4.getGroups(param1, param2, param3);
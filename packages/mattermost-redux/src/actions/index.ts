@@ -17,6 +17,7 @@ import * as jobs from './jobs';
 import * as posts from './posts';
 import * as preferences from './preferences';
 import * as roles from './roles';
+import * as scheduledPosts from './scheduled_posts';
 import * as schemes from './schemes';
 import * as search from './search';
 import * as teams from './teams';
@@ -41,6 +42,7 @@ export {
     posts,
     preferences,
     roles,
+    scheduledPosts,
     schemes,
     search,
     teams,
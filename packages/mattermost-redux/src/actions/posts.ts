@@ -159,7 +159,10 @@ export function getPost(postId: string) {
     };
 }
 
-export function createPost(post: Post, files: any[] = []) {
+// createPost adds a pending post to the store and creates it on the server without waiting for it to be created.
+// handleError is called if creating the post fails with the error and the pending post. If it returns true, the
+// caller has taken care of the failure and the pending post is left as it is instead of being marked as failed.
+export function createPost(post: Post, files: any[] = [], handleError?: (error: any, pendingPost: Post, files: any[]) => boolean) {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const state = getState();
         const currentUserId = state.entities.users.currentUserId;
@@ -253,6 +256,10 @@ export function createPost(post: Post, files: any[] = []) {
 
                 dispatch(batchActions(actions, 'BATCH_CREATE_POST'));
             } catch (error) {
+                if (handleError && handleError(error, newPost, files)) {
+                    return;
+                }
+
                 const data = {
                     ...newPost,
                     id: pendingPostId,
@@ -128,6 +128,34 @@ describe('Actions.Preferences', () => {
         assert.deepEqual(preferences[1], myPreferences['test--test3']);
     });
 
+    it('savePreferencesAndWait', async () => {
+        const user = TestHelper.basicUser;
+        const preferences = [
+            {
+                user_id: user.id,
+                category: 'test',
+                name: 'test4',
+                value: 'test',
+            },
+        ];
+
+        nock(Client4.getUsersRoute()).
+            put(`/${TestHelper.basicUser.id}/preferences`).
+            reply(400, {message: 'Unable to save preferences'});
+        const failed = await Actions.savePreferencesAndWait(user.id, preferences)(store.dispatch, store.getState);
+
+        assert.ok(failed.error, 'error wasn\'t returned');
+        assert.ok(!store.getState().entities.preferences.myPreferences['test--test4'], 'preference was stored');
+
+        nock(Client4.getUsersRoute()).
+            put(`/${TestHelper.basicUser.id}/preferences`).
+            reply(200, OK_RESPONSE);
+        const saved = await Actions.savePreferencesAndWait(user.id, preferences)(store.dispatch, store.getState);
+
+        assert.deepEqual(saved, {data: true});
+        assert.deepEqual(preferences[0], store.getState().entities.preferences.myPreferences['test--test4']);
+    });
+
     it('deletePreferences', async () => {
         const user = TestHelper.basicUser;
         const existingPreferences = [
@@ -17,7 +17,8 @@ import {Theme} from 'mattermost-redux/types/themes';
 import {getPreferenceKey} from 'mattermost-redux/utils/preference_utils';
 
 import {getChannelAndMyMember, getMyChannelMember} from './channels';
-import {bindClientFunc} from './helpers';
+import {logError} from './errors';
+import {bindClientFunc, forceLogoutIfNecessary} from './helpers';
 import {getProfilesByIds, getProfilesInChannel} from './users';
 
 export function deletePreferences(userId: string, preferences: PreferenceType[]): ActionFunc {
@@ -143,6 +144,27 @@ export function savePreferences(userId: string, preferences: PreferenceType[]) {
     };
 }
 
+// savePreferencesAndWait saves preferences like savePreferences, except that it waits for the server to save them
+// before storing them so that an error saving them can be shown to the user.
+export function savePreferencesAndWait(userId: string, preferences: PreferenceType[]): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        try {
+            await Client4.savePreferences(userId, preferences);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch({
+            type: PreferenceTypes.RECEIVED_PREFERENCES,
+            data: preferences,
+        });
+
+        return {data: true};
+    };
+}
+
 export function saveTheme(teamId: string, theme: Theme): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const state = getState();
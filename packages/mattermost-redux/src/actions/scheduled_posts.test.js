@@ -0,0 +1,98 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+import nock from 'nock';
+
+import * as Actions from 'mattermost-redux/actions/scheduled_posts';
+import {Client4} from 'mattermost-redux/client';
+
+import TestHelper from 'mattermost-redux/test/test_helper';
+import configureStore from 'mattermost-redux/test/test_store';
+
+describe('Actions.ScheduledPosts', () => {
+    let store;
+
+    function fakeScheduledPost(id) {
+        return {
+            id,
+            create_at: 1000,
+            update_at: 1000,
+            user_id: TestHelper.basicUser.id,
+            channel_id: TestHelper.basicChannel.id,
+            root_id: '',
+            message: 'send this later',
+            props: {},
+            scheduled_at: 5000,
+        };
+    }
+
+    beforeAll(() => {
+        TestHelper.initBasic(Client4);
+    });
+
+    beforeEach(() => {
+        store = configureStore();
+    });
+
+    afterAll(() => {
+        TestHelper.tearDown();
+    });
+
+    it('fetchScheduledPosts', async () => {
+        nock(Client4.getPostsRoute()).
+            get(`/scheduled/team/${TestHelper.basicTeam.id}`).
+            reply(200, [fakeScheduledPost('scheduled1'), fakeScheduledPost('scheduled2')]);
+
+        await store.dispatch(Actions.fetchScheduledPosts(TestHelper.basicTeam.id));
+
+        const scheduledPosts = store.getState().entities.scheduledPosts.scheduledPosts;
+        assert.deepEqual(Object.keys(scheduledPosts), ['scheduled1', 'scheduled2']);
+    });
+
+    it('createScheduledPost', async () => {
+        nock(Client4.getPostsRoute()).
+            post('/schedule').
+            reply(201, fakeScheduledPost('scheduled1'));
+
+        const {data} = await store.dispatch(Actions.createScheduledPost({
+            channel_id: TestHelper.basicChannel.id,
+            message: 'send this later',
+            scheduled_at: 5000,
+        }));
+
+        assert.equal(data.id, 'scheduled1');
+        assert.ok(store.getState().entities.scheduledPosts.scheduledPosts.scheduled1);
+    });
+
+    it('updateScheduledPost', async () => {
+        const scheduledPost = fakeScheduledPost('scheduled1');
+        nock(Client4.getPostsRoute()).
+            post('/schedule').
+            reply(201, scheduledPost);
+        await store.dispatch(Actions.createScheduledPost(scheduledPost));
+
+        nock(Client4.getPostsRoute()).
+            put('/schedule/scheduled1').
+            reply(200, {...scheduledPost, scheduled_at: 6000});
+        await store.dispatch(Actions.updateScheduledPost({...scheduledPost, scheduled_at: 6000}));
+
+        assert.equal(store.getState().entities.scheduledPosts.scheduledPosts.scheduled1.scheduled_at, 6000);
+    });
+
+    it('deleteScheduledPost', async () => {
+        const scheduledPost = fakeScheduledPost('scheduled1');
+        nock(Client4.getPostsRoute()).
+            post('/schedule').
+            reply(201, scheduledPost);
+        await store.dispatch(Actions.createScheduledPost(scheduledPost));
+
+        nock(Client4.getPostsRoute()).
+            delete('/schedule/scheduled1').
+            reply(200, scheduledPost);
+        const result = await store.dispatch(Actions.deleteScheduledPost('scheduled1'));
+
+        assert.deepEqual(result, {data: true});
+        assert.deepEqual(store.getState().entities.scheduledPosts.scheduledPosts, {});
+    });
+});
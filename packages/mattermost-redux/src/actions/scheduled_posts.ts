@@ -0,0 +1,60 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {ScheduledPostTypes} from 'mattermost-redux/action_types';
+import {Client4} from 'mattermost-redux/client';
+
+import {ActionFunc, DispatchFunc, GetStateFunc} from 'mattermost-redux/types/actions';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
+
+import {logError} from './errors';
+import {bindClientFunc, forceLogoutIfNecessary} from './helpers';
+
+export function fetchScheduledPosts(teamId: string): ActionFunc {
+    return bindClientFunc({
+        clientFunc: Client4.getScheduledPosts,
+        onSuccess: ScheduledPostTypes.RECEIVED_SCHEDULED_POSTS,
+        params: [
+            teamId,
+        ],
+    });
+}
+
+export function createScheduledPost(scheduledPost: Partial<ScheduledPost>): ActionFunc {
+    return bindClientFunc({
+        clientFunc: Client4.createScheduledPost,
+        onSuccess: ScheduledPostTypes.RECEIVED_SCHEDULED_POST,
+        params: [
+            scheduledPost,
+        ],
+    });
+}
+
+export function updateScheduledPost(scheduledPost: ScheduledPost): ActionFunc {
+    return bindClientFunc({
+        clientFunc: Client4.updateScheduledPost,
+        onSuccess: ScheduledPostTypes.RECEIVED_SCHEDULED_POST,
+        params: [
+            scheduledPost,
+        ],
+    });
+}
+
+export function deleteScheduledPost(scheduledPostId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        try {
+            await Client4.deleteScheduledPost(scheduledPostId);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch({
+            type: ScheduledPostTypes.SCHEDULED_POST_DELETED,
+            data: {id: scheduledPostId},
+        });
+
+        return {data: true};
+    };
+}
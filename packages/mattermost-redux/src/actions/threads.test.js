@@ -6,6 +6,8 @@ import nock from 'nock';
 import {
     getThread as fetchThread,
     getThreads as fetchThreads,
+    markThreadsRead,
+    setThreadsFollow,
 } from 'mattermost-redux/actions/threads';
 
 import {
@@ -147,4 +149,40 @@ describe('Actions.Threads', () => {
         expect(data).toBeDefined();
         expect(threads).toEqual([threadId0, threadId1, threadId2]);
     });
+
+    test('markThreadsRead', async () => {
+        const [, {threadId: threadId0}] = mockUserThread({uniq: 0});
+        const [, {threadId: threadId1}] = mockUserThread({uniq: 1});
+
+        const scope0 = nock(Client4.getBaseRoute()).
+            put(`/users/${currentUserId}/teams/${currentTeamId}/threads/${threadId0}/read/1234`).
+            reply(200, {});
+        const scope1 = nock(Client4.getBaseRoute()).
+            put(`/users/${currentUserId}/teams/${currentTeamId}/threads/${threadId1}/read/1234`).
+            reply(200, {});
+
+        const {error, data} = await store.dispatch(markThreadsRead(currentUserId, currentTeamId, [threadId0, threadId1], 1234));
+        expect(error).toBeUndefined();
+        expect(data).toBe(true);
+        expect(scope0.isDone()).toBe(true);
+        expect(scope1.isDone()).toBe(true);
+    });
+
+    test('setThreadsFollow should update every thread even if one fails', async () => {
+        const [, {threadId: threadId0}] = mockUserThread({uniq: 0});
+        const [, {threadId: threadId1}] = mockUserThread({uniq: 1});
+
+        const scope0 = nock(Client4.getBaseRoute()).
+            delete(`/users/${currentUserId}/teams/${currentTeamId}/threads/${threadId0}/following`).
+            reply(400, {message: 'failed to unfollow thread'});
+        const scope1 = nock(Client4.getBaseRoute()).
+            delete(`/users/${currentUserId}/teams/${currentTeamId}/threads/${threadId1}/following`).
+            reply(200, {status: 'OK'});
+
+        const {error, data} = await store.dispatch(setThreadsFollow(currentUserId, currentTeamId, [threadId0, threadId1], false));
+        expect(error).toBeDefined();
+        expect(data).toBeUndefined();
+        expect(scope0.isDone()).toBe(true);
+        expect(scope1.isDone()).toBe(true);
+    });
 });
@@ -223,6 +223,36 @@ export function setThreadFollow(userId: string, teamId: string, threadId: string
     };
 }
 
+// markThreadsRead marks each of the given threads as read up to the given time. Every thread is updated even if some of
+// them fail, in which case the first error is returned.
+export function markThreadsRead(userId: string, teamId: string, threadIds: string[], timestamp: number) {
+    return async (dispatch: DispatchFunc) => {
+        const results = await Promise.all(threadIds.map((threadId) => dispatch(updateThreadRead(userId, teamId, threadId, timestamp))));
+
+        const failed = results.find((result) => result.error);
+        if (failed) {
+            return {error: failed.error};
+        }
+
+        return {data: true};
+    };
+}
+
+// setThreadsFollow follows or unfollows each of the given threads. Every thread is updated even if some of them fail, in
+// which case the first error is returned.
+export function setThreadsFollow(userId: string, teamId: string, threadIds: string[], newState: boolean) {
+    return async (dispatch: DispatchFunc) => {
+        const results = await Promise.all(threadIds.map((threadId) => dispatch(setThreadFollow(userId, teamId, threadId, newState))));
+
+        const failed = results.find((result) => result.error);
+        if (failed) {
+            return {error: failed.error};
+        }
+
+        return {data: true};
+    };
+}
+
 export function handleAllThreadsInChannelMarkedRead(dispatch: DispatchFunc, getState: GetStateFunc, channelId: string, lastViewedAt: number) {
     const state = getState();
     const threadsInChannel = getThreadsInChannel(state, channelId);
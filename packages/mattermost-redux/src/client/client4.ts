@@ -38,6 +38,7 @@ import {
     AdminConfig,
     EnvironmentConfig,
 } from 'mattermost-redux/types/config';
+import {Draft} from 'mattermost-redux/types/drafts';
 import {CustomEmoji} from 'mattermost-redux/types/emojis';
 import {ServerError} from 'mattermost-redux/types/errors';
 
@@ -79,6 +80,7 @@ import {Post, PostList, PostSearchResults, OpenGraphMetadata} from 'mattermost-r
 import {PreferenceType} from 'mattermost-redux/types/preferences';
 import {Reaction} from 'mattermost-redux/types/reactions';
 import {Role} from 'mattermost-redux/types/roles';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
 import {SamlCertificateStatus, SamlMetadataResponse} from 'mattermost-redux/types/saml';
 import {Scheme} from 'mattermost-redux/types/schemes';
 import {Session} from 'mattermost-redux/types/sessions';
@@ -432,6 +434,14 @@ export default class Client4 {
         return `${this.getUserThreadsRoute(userId, teamId)}/${threadId}`;
     }
 
+    getDraftsRoute() {
+        return `${this.getBaseRoute()}/drafts`;
+    }
+
+    getScheduledPostsRoute() {
+        return `${this.getPostsRoute()}/schedule`;
+    }
+
     getCSRFFromCookie() {
         if (typeof document !== 'undefined' && typeof document.cookie !== 'undefined') {
             const cookies = document.cookie.split(';');
@@ -2207,6 +2217,64 @@ export default class Client4 {
         );
     }
 
+    // Draft Routes
+
+    upsertDraft = (draft: Partial<Draft>) => {
+        return this.doFetch<Draft>(
+            `${this.getDraftsRoute()}`,
+            {method: 'post', body: JSON.stringify(draft)},
+        );
+    };
+
+    getUserDrafts = (teamId: string) => {
+        return this.doFetch<Draft[]>(
+            `${this.getUserRoute('me')}/teams/${teamId}/drafts`,
+            {method: 'get'},
+        );
+    };
+
+    deleteDraft = (channelId: string, rootId = '') => {
+        let endpoint = `${this.getUserRoute('me')}/channels/${channelId}/drafts`;
+        if (rootId !== '') {
+            endpoint += `/${rootId}`;
+        }
+
+        return this.doFetch<StatusOK>(
+            endpoint,
+            {method: 'delete'},
+        );
+    };
+
+    // Scheduled Post Routes
+
+    createScheduledPost = (scheduledPost: Partial<ScheduledPost>) => {
+        return this.doFetch<ScheduledPost>(
+            `${this.getScheduledPostsRoute()}`,
+            {method: 'post', body: JSON.stringify(scheduledPost)},
+        );
+    };
+
+    getScheduledPosts = (teamId: string) => {
+        return this.doFetch<ScheduledPost[]>(
+            `${this.getPostsRoute()}/scheduled/team/${teamId}`,
+            {method: 'get'},
+        );
+    };
+
+    updateScheduledPost = (scheduledPost: ScheduledPost) => {
+        return this.doFetch<ScheduledPost>(
+            `${this.getScheduledPostsRoute()}/${scheduledPost.id}`,
+            {method: 'put', body: JSON.stringify(scheduledPost)},
+        );
+    };
+
+    deleteScheduledPost = (scheduledPostId: string) => {
+        return this.doFetch<ScheduledPost>(
+            `${this.getScheduledPostsRoute()}/${scheduledPostId}`,
+            {method: 'delete'},
+        );
+    };
+
     // Preference Routes
 
     savePreferences = (userId: string, preferences: PreferenceType[]) => {
@@ -1,6 +1,8 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
+import {WebsocketEvents} from 'mattermost-redux/constants';
+
 const MAX_WEBSOCKET_FAILS = 7;
 const MIN_WEBSOCKET_RETRY_TIME = 3000; // 3 sec
 
@@ -13,10 +15,17 @@ class WebSocketClient {
     connectionUrl: null;
     token: string|null;
     sequence: number;
+
+    // serverSequence is the sequence number of the next event expected from the server,
+    // and connectionId identifies the server session so that missed events can be replayed.
+    serverSequence: number;
+    connectionId: string;
+    reconnecting: boolean;
     connectFailCount: number;
     eventCallback?: (message: any) => void;
     firstConnectCallback?: () => void;
     reconnectCallback?: () => void;
+    missedEventCallback?: () => void;
     errorCallback?: (event: Event) => void;
     closeCallback?: (connectFailCount: number) => void;
     connectingCallback?: () => void;
@@ -28,6 +37,9 @@ class WebSocketClient {
         this.connectionUrl = null;
         this.token = null;
         this.sequence = 1;
+        this.serverSequence = 0;
+        this.connectionId = '';
+        this.reconnecting = false;
         this.connectFailCount = 0;
         this.stop = false;
         this.platform = '';
@@ -95,7 +107,11 @@ class WebSocketClient {
                 return;
             }
 
-            this.conn = new Socket(connectionUrl, [], {headers: {origin}, ...(additionalOptions || {})});
+            // The connection id and last sequence number let the server replay the events we missed while disconnected.
+            const separator = connectionUrl.includes('?') ? '&' : '?';
+            const url = `${connectionUrl}${separator}connection_id=${this.connectionId}&sequence_number=${this.serverSequence}`;
+
+            this.conn = new Socket(url, [], {headers: {origin}, ...(additionalOptions || {})});
             this.connectionUrl = connectionUrl;
             this.token = token;
 
@@ -108,9 +124,9 @@ class WebSocketClient {
 
                 if (this.connectFailCount > 0) {
                     console.log('websocket re-established connection'); //eslint-disable-line no-console
-                    if (this.reconnectCallback) {
-                        this.reconnectCallback();
-                    }
+
+                    // Wait for the hello event to decide between the reconnect and missed event callbacks
+                    this.reconnecting = true;
                 } else if (this.firstConnectCallback) {
                     this.firstConnectCallback();
                 }
@@ -177,12 +193,49 @@ class WebSocketClient {
                         console.warn(msg); //eslint-disable-line no-console
                     }
                 } else if (this.eventCallback) {
+                    if (msg.event === WebsocketEvents.HELLO) {
+                        this.handleHello(msg.data.connection_id || '');
+                    }
+
+                    if (msg.seq < this.serverSequence) {
+                        // Already processed before the connection dropped
+                        return;
+                    }
+
+                    if (msg.seq !== this.serverSequence) {
+                        console.log('missed websocket event, act_seq=' + msg.seq + ' exp_seq=' + this.serverSequence); //eslint-disable-line no-console
+
+                        // Reconnect so that the server replays the events after serverSequence
+                        this.connectFailCount = 0;
+                        this.sequence = 1;
+                        this.conn?.close();
+                        return;
+                    }
+
+                    this.serverSequence = msg.seq + 1;
                     this.eventCallback(msg);
                 }
             };
         });
     }
 
+    handleHello(connectionId: string) {
+        const resumed = this.connectionId !== '' && this.connectionId === connectionId;
+
+        if (!resumed && (this.connectionId !== '' || this.reconnecting)) {
+            // The server couldn't resume our session, so the missed events are lost and the caller needs to resync
+            if (this.missedEventCallback) {
+                this.missedEventCallback();
+            }
+            this.serverSequence = 0;
+        } else if (resumed && this.reconnecting && this.reconnectCallback) {
+            this.reconnectCallback();
+        }
+
+        this.connectionId = connectionId;
+        this.reconnecting = false;
+    }
+
     setConnectingCallback(callback: () => void) {
         this.connectingCallback = callback;
     }
@@ -199,6 +252,10 @@ class WebSocketClient {
         this.reconnectCallback = callback;
     }
 
+    setMissedEventCallback(callback: () => void) {
+        this.missedEventCallback = callback;
+    }
+
     setErrorCallback(callback: (event: Event) => void) {
         this.errorCallback = callback;
     }
@@ -211,6 +268,7 @@ class WebSocketClient {
         this.stop = stop;
         this.connectFailCount = 0;
         this.sequence = 1;
+        this.reconnecting = false;
         if (this.conn && this.conn.readyState === Socket.OPEN) {
             this.conn.onclose = () => {}; //eslint-disable-line @typescript-eslint/no-empty-function
             this.conn.close();
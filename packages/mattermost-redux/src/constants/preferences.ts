@@ -45,6 +45,9 @@ const Preferences = {
     CHANNEL_SIDEBAR_ORGANIZATION: 'channel_sidebar_organization',
     LIMIT_VISIBLE_DMS_GMS: 'limit_visible_dms_gms',
     SHOW_UNREAD_SECTION: 'show_unread_section',
+    CATEGORY_SIDEBAR_CATEGORY_RULES: 'sidebar_category_rules',
+    CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY: 'sidebar_category_mute_expiry',
+    CATEGORY_CHANNEL_MUTE_EXPIRY: 'channel_mute_expiry',
     CATEGORY_ADVANCED_SETTINGS: 'advanced_settings',
     ADVANCED_FILTER_JOIN_LEAVE: 'join_leave',
     ADVANCED_CODE_BLOCK_ON_CTRL_ENTER: 'code_block_ctrl_enter',
@@ -25,6 +25,7 @@ import channelCategories from './channel_categories';
 import apps from './apps';
 import cloud from './cloud';
 import threads from './threads';
+import scheduledPosts from './scheduled_posts';
 
 export default combineReducers({
     general,
@@ -49,4 +50,5 @@ export default combineReducers({
     channelCategories,
     apps,
     cloud,
+    scheduledPosts,
 });
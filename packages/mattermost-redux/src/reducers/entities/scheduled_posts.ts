@@ -0,0 +1,44 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {combineReducers} from 'redux';
+
+import {ScheduledPostTypes, UserTypes} from 'mattermost-redux/action_types';
+import {GenericAction} from 'mattermost-redux/types/actions';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
+import {IDMappedObjects} from 'mattermost-redux/types/utilities';
+
+function scheduledPosts(state: IDMappedObjects<ScheduledPost> = {}, action: GenericAction) {
+    switch (action.type) {
+    case ScheduledPostTypes.RECEIVED_SCHEDULED_POSTS: {
+        // Scheduled posts are only loaded for the current team, so the ones from the previous team are dropped
+        const nextState: IDMappedObjects<ScheduledPost> = {};
+        for (const scheduledPost of action.data) {
+            nextState[scheduledPost.id] = scheduledPost;
+        }
+        return nextState;
+    }
+    case ScheduledPostTypes.RECEIVED_SCHEDULED_POST:
+        return {
+            ...state,
+            [action.data.id]: action.data,
+        };
+    case ScheduledPostTypes.SCHEDULED_POST_DELETED: {
+        if (!state[action.data.id]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, action.data.id);
+        return nextState;
+    }
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export default combineReducers({
+    scheduledPosts,
+});
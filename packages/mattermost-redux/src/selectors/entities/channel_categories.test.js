@@ -1445,3 +1445,204 @@ describe('makeGetChannelsByCategory', () => {
         });
     });
 });
+
+describe('makeGetChannelIdsInSmartCategories', () => {
+    const currentUser = {id: 'currentUser', username: 'currentUser'};
+    const otherUser1 = {id: 'otherUser1', username: 'otherUser1'};
+    const otherUser2 = {id: 'otherUser2', username: 'otherUser2'};
+
+    const channel1 = {id: 'channel1', type: General.OPEN_CHANNEL, team_id: 'team1', name: 'proj-apollo', display_name: 'Apollo', delete_at: 0};
+    const channel2 = {id: 'channel2', type: General.OPEN_CHANNEL, team_id: 'team1', name: 'proj-gemini', display_name: 'Gemini', delete_at: 0, shared: true};
+    const channel3 = {id: 'channel3', type: General.OPEN_CHANNEL, team_id: 'team1', name: 'town-square', display_name: 'Town Square', delete_at: 0};
+    const otherTeamChannel = {id: 'otherTeamChannel', type: General.OPEN_CHANNEL, team_id: 'team2', name: 'proj-other', display_name: 'Other', delete_at: 0};
+    const dmChannel1 = {id: 'dmChannel1', type: General.DM_CHANNEL, team_id: '', name: `${currentUser.id}__${otherUser1.id}`, display_name: '', delete_at: 0};
+    const dmChannel2 = {id: 'dmChannel2', type: General.DM_CHANNEL, team_id: '', name: `${otherUser2.id}__${currentUser.id}`, display_name: '', delete_at: 0};
+
+    const smartCategory1 = {id: 'smartCategory1', team_id: 'team1', type: CategoryTypes.CUSTOM, sorting: CategorySorting.Default, channel_ids: []};
+    const smartCategory2 = {id: 'smartCategory2', team_id: 'team1', type: CategoryTypes.CUSTOM, sorting: CategorySorting.Default, channel_ids: []};
+    const channelsCategory = {id: 'channelsCategory', team_id: 'team1', type: CategoryTypes.CHANNELS, sorting: CategorySorting.Default, channel_ids: [channel1.id, channel2.id, channel3.id]};
+
+    function rulesPreference(categoryId, rules) {
+        return {
+            [getPreferenceKey(Preferences.CATEGORY_SIDEBAR_CATEGORY_RULES, categoryId)]: {
+                category: Preferences.CATEGORY_SIDEBAR_CATEGORY_RULES,
+                name: categoryId,
+                value: JSON.stringify(rules),
+            },
+        };
+    }
+
+    const baseState = {
+        entities: {
+            channelCategories: {
+                byId: {
+                    smartCategory1,
+                    smartCategory2,
+                    channelsCategory,
+                },
+                orderByTeam: {
+                    team1: [smartCategory1.id, smartCategory2.id, channelsCategory.id],
+                },
+            },
+            channels: {
+                channels: {
+                    channel1,
+                    channel2,
+                    channel3,
+                    otherTeamChannel,
+                    dmChannel1,
+                    dmChannel2,
+                },
+                messageCounts: {},
+                myMembers: {
+                    [channel1.id]: {mention_count: 0},
+                    [channel2.id]: {mention_count: 0},
+                    [channel3.id]: {mention_count: 2},
+                    [otherTeamChannel.id]: {mention_count: 0},
+                    [dmChannel1.id]: {mention_count: 0},
+                    [dmChannel2.id]: {mention_count: 0},
+                },
+            },
+            general: {
+                config: {},
+            },
+            posts: {
+                posts: {},
+                postsInChannel: {},
+            },
+            preferences: {
+                myPreferences: {
+                    ...rulesPreference(smartCategory1.id, {match: 'all', conditions: [{type: 'name_prefix', prefix: 'proj-'}]}),
+                    ...rulesPreference(smartCategory2.id, {match: 'any', conditions: [{type: 'shared'}, {type: 'has_mentions'}]}),
+                },
+            },
+            users: {
+                currentUserId: currentUser.id,
+                profiles: {},
+                profilesInChannel: {},
+                profilesInGroup: {
+                    group1: new Set([otherUser1.id]),
+                },
+            },
+        },
+    };
+
+    test('should only show each channel in the first smart category that it matches', () => {
+        const getChannelIdsInSmartCategories = Selectors.makeGetChannelIdsInSmartCategories();
+
+        expect(getChannelIdsInSmartCategories(baseState, 'team1')).toEqual({
+            smartCategory1: [channel1.id, channel2.id],
+            smartCategory2: [channel3.id],
+        });
+    });
+
+    test('should match DMs with members of a group and channels that the user posted in recently', () => {
+        const getChannelIdsInSmartCategories = Selectors.makeGetChannelIdsInSmartCategories();
+
+        const now = Date.now();
+        const state = mergeObjects(baseState, {
+            entities: {
+                posts: {
+                    posts: {
+                        post1: {id: 'post1', channel_id: channel3.id, user_id: currentUser.id, create_at: now - (2 * 24 * 60 * 60 * 1000)},
+                        post2: {id: 'post2', channel_id: channel1.id, user_id: currentUser.id, create_at: now - (10 * 24 * 60 * 60 * 1000)},
+                        post3: {id: 'post3', channel_id: channel2.id, user_id: otherUser1.id, create_at: now},
+                    },
+                    postsInChannel: {
+                        [channel1.id]: [{order: ['post2'], recent: true}],
+                        [channel2.id]: [{order: ['post3'], recent: true}],
+                        [channel3.id]: [{order: ['post1'], recent: true}],
+                    },
+                },
+                preferences: {
+                    myPreferences: {
+                        ...rulesPreference(smartCategory1.id, {match: 'all', conditions: [{type: 'group_members', group_id: 'group1'}]}),
+                        ...rulesPreference(smartCategory2.id, {match: 'all', conditions: [{type: 'posted_recently', days: 7}]}),
+                    },
+                },
+            },
+        });
+
+        expect(getChannelIdsInSmartCategories(state, 'team1')).toEqual({
+            smartCategory1: [dmChannel1.id],
+            smartCategory2: [channel3.id],
+        });
+    });
+
+    test('should ignore categories without valid rules', () => {
+        const getChannelIdsInSmartCategories = Selectors.makeGetChannelIdsInSmartCategories();
+
+        const state = mergeObjects(baseState, {
+            entities: {
+                preferences: {
+                    myPreferences: {
+                        ...rulesPreference(smartCategory1.id, {match: 'all', conditions: [{type: 'name_pattern', pattern: '(unclosed'}]}),
+                    },
+                },
+            },
+        });
+
+        expect(getChannelIdsInSmartCategories(state, 'team1')).toEqual({
+            smartCategory2: [channel2.id, channel3.id],
+        });
+    });
+
+    test('should remove channels in smart categories from their regular categories', () => {
+        const getChannelsByCategory = Selectors.makeGetChannelsByCategory();
+
+        const result = getChannelsByCategory(baseState, 'team1');
+
+        expect(result.smartCategory1).toEqual([channel1, channel2]);
+        expect(result.smartCategory2).toEqual([channel3]);
+        expect(result.channelsCategory).toEqual([]);
+    });
+
+    describe('memoization', () => {
+        test('should return the same object when unrelated state changes', () => {
+            const getChannelIdsInSmartCategories = Selectors.makeGetChannelIdsInSmartCategories();
+
+            const previousResult = getChannelIdsInSmartCategories(baseState, 'team1');
+
+            const state = mergeObjects(baseState, {
+                entities: {
+                    posts: {
+                        posts: {
+                            post1: {id: 'post1', channel_id: channel1.id, user_id: otherUser1.id, create_at: 1000},
+                        },
+                    },
+                },
+            });
+
+            expect(getChannelIdsInSmartCategories(state, 'team1')).toBe(previousResult);
+        });
+
+        test('should only return a new array for categories whose channels have changed', () => {
+            const getChannelIdsInSmartCategories = Selectors.makeGetChannelIdsInSmartCategories();
+
+            const previousResult = getChannelIdsInSmartCategories(baseState, 'team1');
+
+            const state = mergeObjects(baseState, {
+                entities: {
+                    channels: {
+                        myMembers: {
+                            [channel3.id]: {mention_count: 0},
+                            [dmChannel2.id]: {mention_count: 1},
+                        },
+                    },
+                },
+            });
+            const result = getChannelIdsInSmartCategories(state, 'team1');
+
+            expect(result).not.toBe(previousResult);
+            expect(result.smartCategory1).toBe(previousResult.smartCategory1);
+            expect(result.smartCategory2).toEqual([dmChannel2.id]);
+        });
+
+        test('should keep the result for each team when called for different teams', () => {
+            const previousResult = Selectors.getChannelIdsInSmartCategories(baseState, 'team1');
+
+            expect(Selectors.getChannelIdsInSmartCategories(baseState, 'team2')).toEqual({});
+            expect(Selectors.getChannelIdsInSmartCategories(baseState, 'team1')).toBe(previousResult);
+        });
+    });
+});
@@ -8,23 +8,27 @@ import {createSelector} from 'reselect';
 import {General, Preferences} from 'mattermost-redux/constants';
 import {CategoryTypes} from 'mattermost-redux/constants/channel_categories';
 
-import {getChannelMessageCounts, getCurrentChannelId, getMyChannelMemberships, makeGetChannelsForIds} from 'mattermost-redux/selectors/entities/channels';
+import {getChannelMessageCounts, makeGetChannelsForIds} from 'mattermost-redux/selectors/entities/channels';
+import {getAllChannels, getCurrentChannelId, getMyChannelMemberships} from 'mattermost-redux/selectors/entities/common';
 import {getCurrentUserLocale} from 'mattermost-redux/selectors/entities/i18n';
 import {getLastPostPerChannel} from 'mattermost-redux/selectors/entities/posts';
 import {getMyPreferences, getTeammateNameDisplaySetting, getInt, isCollapsedThreadsEnabled} from 'mattermost-redux/selectors/entities/preferences';
-import {getCurrentUserId} from 'mattermost-redux/selectors/entities/users';
+import {getCurrentUserId, getUserIdsInChannels, getUserIdsInGroups} from 'mattermost-redux/selectors/entities/users';
 
 import {Channel, ChannelMembership, ChannelMessageCount} from 'mattermost-redux/types/channels';
-import {ChannelCategory, ChannelCategoryType, CategorySorting} from 'mattermost-redux/types/channel_categories';
+import {ChannelCategory, ChannelCategoryType, CategorySorting, SmartCategoryCondition, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
+import {Post, PostOrderBlock} from 'mattermost-redux/types/posts';
 import {GlobalState} from 'mattermost-redux/types/store';
 import {UserProfile} from 'mattermost-redux/types/users';
 import {IDMappedObjects, RelationOneToOne} from 'mattermost-redux/types/utilities';
 
+import {combineMatchingChannelIds, compileNamePattern, parseCategoryRules} from 'mattermost-redux/utils/channel_category_rules';
 import {
     calculateUnreadCount,
     getUserIdFromChannelName,
     isChannelMuted,
 } from 'mattermost-redux/utils/channel_utils';
+import {createIdsSelector} from 'mattermost-redux/utils/helpers';
 import {getPreferenceKey} from 'mattermost-redux/utils/preference_utils';
 import {displayUsername} from 'mattermost-redux/utils/user_utils';
 
@@ -384,16 +388,404 @@ export function makeSortChannels() {
     };
 }
 
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const noChannelIds: string[] = [];
+
+const getCategoryRulesPreferences: (state: GlobalState) => RelationOneToOne<ChannelCategory, string> = createIdsSelector(
+    'getCategoryRulesPreferences',
+    getMyPreferences,
+    (myPreferences) => {
+        const values: RelationOneToOne<ChannelCategory, string> = {};
+
+        for (const preference of Object.values(myPreferences)) {
+            if (preference.category === Preferences.CATEGORY_SIDEBAR_CATEGORY_RULES && preference.value) {
+                values[preference.name] = preference.value;
+            }
+        }
+
+        return values;
+    },
+);
+
+// getAllCategoryRules returns the rules for each of the current user's smart categories. The rules are stored as
+// preferences since they're only used by the client.
+export const getAllCategoryRules: (state: GlobalState) => RelationOneToOne<ChannelCategory, SmartCategoryRules> = createSelector(
+    'getAllCategoryRules',
+    getCategoryRulesPreferences,
+    (values) => {
+        const rulesByCategory: RelationOneToOne<ChannelCategory, SmartCategoryRules> = {};
+
+        for (const [categoryId, value] of Object.entries(values)) {
+            const rules = parseCategoryRules(value);
+            if (rules) {
+                rulesByCategory[categoryId] = rules;
+            }
+        }
+
+        return rulesByCategory;
+    },
+);
+
+export function getCategoryRules(state: GlobalState, categoryId: string): SmartCategoryRules | null {
+    return getAllCategoryRules(state)[categoryId] || null;
+}
+
+// isSmartCategory returns true if the channels in a category are determined by rules instead of by the user.
+export function isSmartCategory(state: GlobalState, category: ChannelCategory) {
+    return category.type === CategoryTypes.CUSTOM && Boolean(getCategoryRules(state, category.id));
+}
+
+// getCategoryMuteExpiry returns the time at which a muted category will be unmuted automatically or 0 if the category
+// is muted until the user unmutes it.
+export function getCategoryMuteExpiry(state: GlobalState, categoryId: string): number {
+    return getInt(state, Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY, categoryId, 0) || 0;
+}
+
+// getMyChannelsInTeam returns the channels on a team that the current user is a member of, including DMs and GMs.
+const getMyChannelsInTeam: (state: GlobalState, teamId: string) => Channel[] = createIdsSelector(
+    'getMyChannelsInTeam',
+    getAllChannels,
+    getMyChannelMemberships,
+    (state: GlobalState, teamId: string) => teamId,
+    (allChannels, myMembers, teamId) => {
+        return Object.keys(myMembers).
+            map((channelId) => allChannels[channelId]).
+            filter((channel) => channel && (!channel.team_id || channel.team_id === teamId));
+    },
+);
+
+// getMyLastPostTimeInChannel returns when the current user last posted in the posts loaded for a channel.
+function getMyLastPostTimeInChannel(blocks: PostOrderBlock[], posts: IDMappedObjects<Post>, currentUserId: string) {
+    let lastPostTime = 0;
+
+    for (const block of blocks) {
+        for (const postId of block.order) {
+            const post = posts[postId];
+            if (post && post.user_id === currentUserId && post.create_at > lastPostTime) {
+                lastPostTime = post.create_at;
+            }
+        }
+    }
+
+    return lastPostTime;
+}
+
+// makeGetMyLastPostTimePerChannel returns a selector for when the current user last posted in each channel. The time
+// for a channel is only recalculated when the posts loaded for that channel change instead of every time that any post
+// is received.
+function makeGetMyLastPostTimePerChannel(): (state: GlobalState) => RelationOneToOne<Channel, number> {
+    let lastCurrentUserId = '';
+    let lastBlocksByChannel: RelationOneToOne<Channel, PostOrderBlock[]> = {};
+    let lastPostTimeByChannel: RelationOneToOne<Channel, number> = {};
+
+    return createIdsSelector(
+        'getMyLastPostTimePerChannel',
+        (state: GlobalState) => state.entities.posts.postsInChannel,
+        (state: GlobalState) => state.entities.posts.posts,
+        getCurrentUserId,
+        (postsInChannel, posts, currentUserId) => {
+            if (currentUserId !== lastCurrentUserId) {
+                lastCurrentUserId = currentUserId;
+                lastBlocksByChannel = {};
+                lastPostTimeByChannel = {};
+            }
+
+            const lastPostTimes: RelationOneToOne<Channel, number> = {};
+
+            for (const [channelId, blocks] of Object.entries(postsInChannel)) {
+                if (blocks !== lastBlocksByChannel[channelId]) {
+                    lastBlocksByChannel[channelId] = blocks;
+                    lastPostTimeByChannel[channelId] = getMyLastPostTimeInChannel(blocks, posts, currentUserId);
+                }
+
+                if (lastPostTimeByChannel[channelId]) {
+                    lastPostTimes[channelId] = lastPostTimeByChannel[channelId];
+                }
+            }
+
+            return lastPostTimes;
+        },
+    );
+}
+
+const getMyLastPostTimePerChannel = makeGetMyLastPostTimePerChannel();
+
+// getCurrentHour is used by selectors that depend on the current time so that they're reevaluated at least once an
+// hour without being reevaluated every time that they're called.
+function getCurrentHour() {
+    return Math.floor(Date.now() / HOUR);
+}
+
+// makeGetChannelIdsMatchingCondition returns a selector for the IDs of the given channels which match a condition of a
+// smart category. Each type of condition only depends on the parts of the state that it needs, so, for example, a
+// channel name condition isn't reevaluated every time that a message is received.
+function makeGetChannelIdsMatchingCondition(condition: SmartCategoryCondition): (state: GlobalState, channels: Channel[]) => string[] {
+    const getChannels = (state: GlobalState, channels: Channel[]) => channels;
+    const getIds = (channels: Channel[]) => channels.map((channel) => channel.id);
+
+    switch (condition.type) {
+    case 'name_prefix': {
+        const prefix = condition.prefix.toLowerCase();
+
+        return createIdsSelector(
+            'getChannelIdsMatchingNamePrefix',
+            getChannels,
+            (channels) => getIds(channels.filter((channel) => {
+                return channel.name.toLowerCase().startsWith(prefix) || channel.display_name.toLowerCase().startsWith(prefix);
+            })),
+        );
+    }
+    case 'name_pattern': {
+        const pattern = compileNamePattern(condition.pattern);
+        if (!pattern) {
+            return () => noChannelIds;
+        }
+
+        return createIdsSelector(
+            'getChannelIdsMatchingNamePattern',
+            getChannels,
+            (channels) => getIds(channels.filter((channel) => pattern.test(channel.name) || pattern.test(channel.display_name))),
+        );
+    }
+    case 'shared':
+        return createIdsSelector(
+            'getSharedChannelIds',
+            getChannels,
+            (channels) => getIds(channels.filter((channel) => channel.shared)),
+        );
+    case 'has_mentions':
+        return createIdsSelector(
+            'getChannelIdsWithMentions',
+            getChannels,
+            getMyChannelMemberships,
+            isCollapsedThreadsEnabled,
+            (channels, myMembers, crtEnabled) => getIds(channels.filter((channel) => {
+                const member = myMembers[channel.id];
+                if (!member) {
+                    return false;
+                }
+
+                return (crtEnabled ? member.mention_count_root : member.mention_count) > 0;
+            })),
+        );
+    case 'group_members': {
+        const groupId = condition.group_id;
+
+        return createIdsSelector(
+            'getChannelIdsWithGroupMembers',
+            getChannels,
+            getCurrentUserId,
+            (state: GlobalState) => getUserIdsInGroups(state)[groupId],
+            getUserIdsInChannels,
+            (channels, currentUserId, userIdsInGroup, userIdsInChannels) => {
+                const groupMembers = new Set(userIdsInGroup);
+                if (groupMembers.size === 0) {
+                    return [];
+                }
+
+                return getIds(channels.filter((channel) => {
+                    if (channel.type === General.DM_CHANNEL) {
+                        return groupMembers.has(getUserIdFromChannelName(currentUserId, channel.name));
+                    }
+
+                    if (channel.type === General.GM_CHANNEL) {
+                        const otherUserIds = Array.from(userIdsInChannels[channel.id] || []).filter((userId) => userId !== currentUserId);
+                        return otherUserIds.length > 0 && otherUserIds.every((userId) => groupMembers.has(userId));
+                    }
+
+                    return false;
+                }));
+            },
+        );
+    }
+    case 'posted_recently': {
+        const days = condition.days;
+
+        return createIdsSelector(
+            'getChannelIdsWithRecentPosts',
+            getChannels,
+            getMyLastPostTimePerChannel,
+            getCurrentHour,
+            (channels, lastPostTimes, currentHour) => {
+                const since = (currentHour * HOUR) - (days * DAY);
+
+                return getIds(channels.filter((channel) => (lastPostTimes[channel.id] || 0) >= since));
+            },
+        );
+    }
+    default:
+        return () => noChannelIds;
+    }
+}
+
+// makeGetChannelIdsInSmartCategories returns a selector for the IDs of the channels in each smart category on a team.
+// A channel is only shown in the first smart category that it matches, and it's removed from whatever category it
+// would otherwise be in. The IDs aren't sorted since that's done for every category when it's displayed.
+export function makeGetChannelIdsInSmartCategories(): (state: GlobalState, teamId: string) => RelationOneToOne<ChannelCategory, string[]> {
+    let conditionSelectors = new Map<string, ReturnType<typeof makeGetChannelIdsMatchingCondition>>();
+    let lastRules: RelationOneToOne<ChannelCategory, SmartCategoryRules> = {};
+
+    let lastInputs: unknown[] = [];
+    let lastChannelIdsByCategory: RelationOneToOne<ChannelCategory, string[]> = {};
+
+    return (state: GlobalState, teamId: string) => {
+        const allRules = getAllCategoryRules(state);
+
+        let smartCategoryIds: string[] = [];
+        if (Object.keys(allRules).length > 0) {
+            const categoriesById = getAllCategoriesByIds(state);
+
+            smartCategoryIds = (getCategoryIdsForTeam(state, teamId) || []).filter((categoryId) => {
+                return categoriesById[categoryId]?.type === CategoryTypes.CUSTOM && Boolean(allRules[categoryId]);
+            });
+        }
+
+        if (smartCategoryIds.length === 0) {
+            if (Object.keys(lastChannelIdsByCategory).length > 0) {
+                lastInputs = [];
+                lastChannelIdsByCategory = {};
+            }
+
+            return lastChannelIdsByCategory;
+        }
+
+        // Reuse the selectors for conditions which haven't changed so that they stay memoized
+        const previousSelectors = conditionSelectors;
+        if (allRules !== lastRules) {
+            conditionSelectors = new Map();
+            lastRules = allRules;
+        }
+
+        const getConditionSelector = (condition: SmartCategoryCondition) => {
+            const key = JSON.stringify(condition);
+
+            let selector = conditionSelectors.get(key) || previousSelectors.get(key);
+            if (!selector) {
+                selector = makeGetChannelIdsMatchingCondition(condition);
+            }
+            conditionSelectors.set(key, selector);
+
+            return selector;
+        };
+
+        const channels = getMyChannelsInTeam(state, teamId);
+        const channelIdsByCondition = smartCategoryIds.map((categoryId) => {
+            return allRules[categoryId].conditions.map((condition) => getConditionSelector(condition)(state, channels));
+        });
+
+        // Only combine the channels matching each condition when at least one of them has changed
+        const inputs = [allRules, ...smartCategoryIds, ...channelIdsByCondition.flat()];
+        if (shallowEquals(inputs, lastInputs)) {
+            return lastChannelIdsByCategory;
+        }
+
+        const channelIdsByCategory: RelationOneToOne<ChannelCategory, string[]> = {};
+        const claimedChannelIds = new Set<string>();
+
+        smartCategoryIds.forEach((categoryId, i) => {
+            const matching = combineMatchingChannelIds(allRules[categoryId].match, channelIdsByCondition[i]);
+
+            channelIdsByCategory[categoryId] = matching.filter((channelId) => !claimedChannelIds.has(channelId));
+            channelIdsByCategory[categoryId].forEach((channelId) => claimedChannelIds.add(channelId));
+
+            // Keep the previous array for a category whose channels haven't changed
+            if (shallowEquals(channelIdsByCategory[categoryId], lastChannelIdsByCategory[categoryId])) {
+                channelIdsByCategory[categoryId] = lastChannelIdsByCategory[categoryId];
+            }
+        });
+
+        lastInputs = inputs;
+
+        if (!shallowEquals(channelIdsByCategory, lastChannelIdsByCategory)) {
+            lastChannelIdsByCategory = channelIdsByCategory;
+        }
+
+        return lastChannelIdsByCategory;
+    };
+}
+
+type SmartCategorySelectors = {
+    getChannelIdsInSmartCategories: ReturnType<typeof makeGetChannelIdsInSmartCategories>;
+    getChannelIdsClaimedBySmartCategories: (state: GlobalState, teamId: string) => Set<string>;
+};
+
+// Each team has its own selectors for the channels in its smart categories so that the results for one team aren't
+// recalculated every time that they're requested for a different team.
+const smartCategorySelectorsByTeam = new Map<string, SmartCategorySelectors>();
+
+function getSmartCategorySelectors(teamId: string) {
+    let selectors = smartCategorySelectorsByTeam.get(teamId);
+
+    if (!selectors) {
+        const getChannelIdsInTeamSmartCategories = makeGetChannelIdsInSmartCategories();
+
+        selectors = {
+            getChannelIdsInSmartCategories: getChannelIdsInTeamSmartCategories,
+            getChannelIdsClaimedBySmartCategories: createSelector(
+                'getChannelIdsClaimedBySmartCategories',
+                getChannelIdsInTeamSmartCategories,
+                (channelIdsByCategory) => new Set(Object.values(channelIdsByCategory).flat()),
+            ),
+        };
+
+        smartCategorySelectorsByTeam.set(teamId, selectors);
+    }
+
+    return selectors;
+}
+
+export function getChannelIdsInSmartCategories(state: GlobalState, teamId: string): RelationOneToOne<ChannelCategory, string[]> {
+    return getSmartCategorySelectors(teamId).getChannelIdsInSmartCategories(state, teamId);
+}
+
+function getChannelIdsClaimedBySmartCategories(state: GlobalState, teamId: string): Set<string> {
+    return getSmartCategorySelectors(teamId).getChannelIdsClaimedBySmartCategories(state, teamId);
+}
+
+// makeFilterChannelsInSmartCategories returns a selector that removes the channels shown in smart categories from the
+// channels in a regular category. It returns the original array if no channels are filtered out.
+function makeFilterChannelsInSmartCategories(): (state: GlobalState, channelIds: string[], teamId: string) => string[] {
+    return createSelector(
+        'makeFilterChannelsInSmartCategories',
+        (state: GlobalState, channelIds: string[]) => channelIds,
+        (state: GlobalState, channelIds: string[], teamId: string) => getChannelIdsClaimedBySmartCategories(state, teamId),
+        (channelIds, claimedChannelIds) => {
+            if (claimedChannelIds.size === 0) {
+                return channelIds;
+            }
+
+            const filtered = channelIds.filter((channelId) => !claimedChannelIds.has(channelId));
+
+            return filtered.length === channelIds.length ? channelIds : filtered;
+        },
+    );
+}
+
+// Smart categories can't be sorted manually since the user doesn't choose where their channels go
+function getCategoryForSorting(category: ChannelCategory, isSmart: boolean) {
+    if (isSmart && (category.sorting === CategorySorting.Manual)) {
+        return {...category, sorting: CategorySorting.Alphabetical};
+    }
+
+    return category;
+}
+
 export function makeGetChannelIdsForCategory() {
     const getChannels = makeGetChannelsForIds();
+    const filterChannelsInSmartCategories = makeFilterChannelsInSmartCategories();
     const filterAndSortChannelsForCategory = makeFilterAndSortChannelsForCategory();
 
     let lastChannelIds: string[] = [];
 
     return (state: GlobalState, category: ChannelCategory) => {
-        const channels = getChannels(state, category.channel_ids);
+        const smartChannelIds = getChannelIdsInSmartCategories(state, category.team_id)[category.id];
+        const channelIds = smartChannelIds || filterChannelsInSmartCategories(state, category.channel_ids, category.team_id);
+
+        const channels = getChannels(state, channelIds);
 
-        const filteredChannelIds = filterAndSortChannelsForCategory(state, channels, category).map((channel) => channel.id);
+        const filteredChannelIds = filterAndSortChannelsForCategory(state, channels, getCategoryForSorting(category, Boolean(smartChannelIds))).map((channel) => channel.id);
 
         if (shallowEquals(filteredChannelIds, lastChannelIds)) {
             return lastChannelIds;
@@ -433,6 +825,7 @@ export function makeGetChannelsByCategory() {
 
     // Memoize by category. As long as the categories don't change, we can keep using the same selectors for each category.
     let getChannels: RelationOneToOne<ChannelCategory, ReturnType<typeof makeGetChannelsForIds>>;
+    let filterChannelsInSmartCategories: RelationOneToOne<ChannelCategory, ReturnType<typeof makeFilterChannelsInSmartCategories>>;
     let filterAndSortChannels: RelationOneToOne<ChannelCategory, ReturnType<typeof makeFilterAndSortChannelsForCategory>>;
 
     let lastCategoryIds: ReturnType<typeof getCategoryIdsForTeam> = [];
@@ -449,23 +842,29 @@ export function makeGetChannelsByCategory() {
             lastChannelsByCategory = {};
 
             getChannels = {};
+            filterChannelsInSmartCategories = {};
             filterAndSortChannels = {};
 
             if (categoryIds) {
                 for (const categoryId of categoryIds) {
                     getChannels[categoryId] = makeGetChannelsForIds();
+                    filterChannelsInSmartCategories[categoryId] = makeFilterChannelsInSmartCategories();
                     filterAndSortChannels[categoryId] = makeFilterAndSortChannelsForCategory();
                 }
             }
         }
 
         const categories = getCategoriesForTeam(state, teamId);
+        const channelIdsInSmartCategories = getChannelIdsInSmartCategories(state, teamId);
 
         const channelsByCategory: RelationOneToOne<ChannelCategory, Channel[]> = {};
 
         for (const category of categories) {
-            const channels = getChannels[category.id](state, category.channel_ids);
-            channelsByCategory[category.id] = filterAndSortChannels[category.id](state, channels, category);
+            const smartChannelIds = channelIdsInSmartCategories[category.id];
+            const channelIds = smartChannelIds || filterChannelsInSmartCategories[category.id](state, category.channel_ids, teamId);
+
+            const channels = getChannels[category.id](state, channelIds);
+            channelsByCategory[category.id] = filterAndSortChannels[category.id](state, channels, getCategoryForSorting(category, Boolean(smartChannelIds)));
         }
 
         // Do a shallow equality check of channelsByCategory to avoid returning a new object containing the same data
@@ -10,6 +10,7 @@ import {CategoryTypes} from 'mattermost-redux/constants/channel_categories';
 
 import {getCategoryInTeamByType} from 'mattermost-redux/selectors/entities/channel_categories';
 import {
+    getAllChannels,
     getCurrentChannelId,
     getCurrentUser,
     getUsers,
@@ -72,11 +73,7 @@ import {getDataRetentionCustomPolicy} from 'mattermost-redux/selectors/entities/
 
 import {getThreadCounts, getThreadCountsIncludingDirect} from './threads';
 
-export {getCurrentChannelId, getMyChannelMemberships, getMyCurrentChannelMembership};
-
-export function getAllChannels(state: GlobalState): IDMappedObjects<Channel> {
-    return state.entities.channels.channels;
-}
+export {getAllChannels, getCurrentChannelId, getMyChannelMemberships, getMyCurrentChannelMembership};
 
 export function getAllChannelStats(state: GlobalState): RelationOneToOne<Channel, ChannelStats> {
     return state.entities.channels.stats;
@@ -11,6 +11,10 @@ import {RelationOneToOne, IDMappedObjects} from 'mattermost-redux/types/utilitie
 
 // Channels
 
+export function getAllChannels(state: GlobalState): IDMappedObjects<Channel> {
+    return state.entities.channels.channels;
+}
+
 export function getCurrentChannelId(state: GlobalState): string {
     return state.entities.channels.currentChannelId;
 }
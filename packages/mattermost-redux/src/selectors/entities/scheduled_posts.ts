@@ -0,0 +1,36 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {createSelector} from 'reselect';
+
+import {getAllChannels} from 'mattermost-redux/selectors/entities/channels';
+import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
+import {ScheduledPost} from 'mattermost-redux/types/scheduled_posts';
+import {GlobalState} from 'mattermost-redux/types/store';
+
+export function getAllScheduledPosts(state: GlobalState) {
+    return state.entities.scheduledPosts.scheduledPosts;
+}
+
+export function getScheduledPost(state: GlobalState, scheduledPostId: ScheduledPost['id']): ScheduledPost | undefined {
+    return getAllScheduledPosts(state)[scheduledPostId];
+}
+
+// getScheduledPostsInCurrentTeam returns the scheduled posts in the current team and in DMs and GMs, with the one
+// that will be sent first at the start.
+export const getScheduledPostsInCurrentTeam: (state: GlobalState) => ScheduledPost[] = createSelector(
+    'getScheduledPostsInCurrentTeam',
+    getAllScheduledPosts,
+    getAllChannels,
+    getCurrentTeamId,
+    (scheduledPosts, channels, currentTeamId) => {
+        return Object.values(scheduledPosts).filter((scheduledPost) => {
+            const channel = channels[scheduledPost.channel_id];
+            return channel && (!channel.team_id || channel.team_id === currentTeamId);
+        }).sort((a, b) => a.scheduled_at - b.scheduled_at);
+    },
+);
+
+export function getScheduledPostCountInCurrentTeam(state: GlobalState) {
+    return getScheduledPostsInCurrentTeam(state).length;
+}
@@ -1,7 +1,7 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import {createStore, applyMiddleware, Store, combineReducers} from 'redux';
+import {createStore, applyMiddleware, Middleware, Store, combineReducers} from 'redux';
 import thunk from 'redux-thunk';
 import {composeWithDevTools} from 'redux-devtools-extension/developmentOnly';
 
@@ -21,11 +21,12 @@ import initialState from './initial_state';
  * appReducer - An object containing any app-specific reducer functions that the client needs.
  * persistConfig - Any additional configuration data to be passed into redux-persist aside from the default values.
  * getAppReducer - A function that returns the appReducer as defined above. Only used in development to enable hot reloading.
+ * appMiddleware - Any app-specific middleware which runs after thunk.
  */
-export default function configureStore(preloadedState: any, appReducer: any, persistConfig: any, getAppReducer: any): Store {
+export default function configureStore(preloadedState: any, appReducer: any, persistConfig: any, getAppReducer: any, appMiddleware: Middleware[] = []): Store {
     const baseState = Object.assign({}, initialState, preloadedState);
 
-    let middleware = applyMiddleware(thunk);
+    let middleware = applyMiddleware(thunk, ...appMiddleware);
     middleware = composeWithDevTools(middleware);
 
     const store = createStore(
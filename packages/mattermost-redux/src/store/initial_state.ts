@@ -182,6 +182,9 @@ const state: GlobalState = {
             },
         },
         cloud: {},
+        scheduledPosts: {
+            scheduledPosts: {},
+        },
     },
     errors: [],
     requests: {
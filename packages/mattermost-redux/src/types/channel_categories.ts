@@ -2,6 +2,7 @@
 // See LICENSE.txt for license information.
 
 import {Channel} from './channels';
+import {Group} from './groups';
 import {Team} from './teams';
 import {UserProfile} from './users';
 import {IDMappedObjects, RelationOneToOne} from './utilities';
@@ -27,6 +28,34 @@ export type ChannelCategory = {
     collapsed: boolean;
 };
 
+// SmartCategoryCondition is a condition that a channel must meet to be shown in a smart category.
+export type SmartCategoryCondition = {
+    type: 'name_prefix';
+    prefix: string;
+} | {
+    type: 'name_pattern';
+    pattern: string;
+} | {
+    type: 'shared';
+} | {
+    type: 'has_mentions';
+} | {
+    type: 'group_members';
+    group_id: Group['id'];
+} | {
+    type: 'posted_recently';
+    days: number;
+};
+
+export type SmartCategoryConditionType = SmartCategoryCondition['type'];
+
+// SmartCategoryRules determine which channels are shown in a smart category. Instead of containing the channels that
+// the user has added to it, a smart category contains the channels which match either all or any of its conditions.
+export type SmartCategoryRules = {
+    match: 'all' | 'any';
+    conditions: SmartCategoryCondition[];
+};
+
 export type OrderedChannelCategories = {
     categories: ChannelCategory[];
     order: string[];
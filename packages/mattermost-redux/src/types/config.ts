@@ -11,6 +11,7 @@ export type ClientConfig = {
     AllowBannerDismissal: string;
     AllowCustomThemes: string;
     AllowedThemes: string;
+    AllowSyncedDrafts: string;
     AndroidAppDownloadLink: string;
     AndroidLatestVersion: string;
     AndroidMinVersion: string;
@@ -87,6 +88,7 @@ export type ClientConfig = {
     EnablePublicLink: string;
     EnableReliableWebSockets: string;
     EnableSaml: string;
+    EnableScheduledPosts: string;
     EnableSignInWithEmail: string;
     EnableSignInWithUsername: string;
     EnableSignUpWithEmail: string;
@@ -326,6 +328,8 @@ export type ServiceSettings = {
     EnableLocalMode: boolean;
     LocalModeSocketLocation: string;
     CollapsedThreads: 'disabled' | 'default_on' | 'default_off';
+    AllowSyncedDrafts: boolean;
+    EnableScheduledPosts: boolean;
 };
 
 export type TeamSettings = {
@@ -0,0 +1,22 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {Channel} from './channels';
+import type {FileInfo} from './files';
+import type {Post} from './posts';
+import type {UserProfile} from './users';
+
+export type Draft = {
+    create_at: number;
+    update_at: number;
+    delete_at: number;
+    user_id: UserProfile['id'];
+    channel_id: Channel['id'];
+    root_id: Post['id'];
+    message: string;
+    props: Record<string, any>;
+    file_ids?: Array<FileInfo['id']>;
+    metadata?: {
+        files?: FileInfo[];
+    };
+};
@@ -0,0 +1,33 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {Channel} from './channels';
+import type {FileInfo} from './files';
+import type {Post} from './posts';
+import type {UserProfile} from './users';
+import type {IDMappedObjects} from './utilities';
+
+export type ScheduledPost = {
+    id: string;
+    create_at: number;
+    update_at: number;
+    user_id: UserProfile['id'];
+    channel_id: Channel['id'];
+    root_id: Post['id'];
+    message: string;
+    props: Record<string, any>;
+    file_ids?: Array<FileInfo['id']>;
+    metadata?: {
+        files?: FileInfo[];
+    };
+
+    // scheduled_at is the time in milliseconds at which the server will post the message
+    scheduled_at: number;
+
+    // error_code is set by the server when the message couldn't be posted at the scheduled time
+    error_code?: string;
+};
+
+export type ScheduledPostsState = {
+    scheduledPosts: IDMappedObjects<ScheduledPost>;
+};
@@ -22,6 +22,7 @@ import {
     UsersRequestsStatuses,
 } from './requests';
 import {Role} from './roles';
+import {ScheduledPostsState} from './scheduled_posts';
 import {SchemesState} from './schemes';
 import {SearchState} from './search';
 import {TeamsState} from './teams';
@@ -65,6 +66,7 @@ export type GlobalState = {
         channelCategories: ChannelCategoriesState;
         apps: AppsState;
         cloud: CloudState;
+        scheduledPosts: ScheduledPostsState;
     };
     errors: any[];
     requests: {
@@ -0,0 +1,54 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {combineMatchingChannelIds, parseCategoryRules} from './channel_category_rules';
+
+describe('utils/channel_category_rules', () => {
+    describe('parseCategoryRules', () => {
+        test('should return null for missing or malformed rules', () => {
+            expect(parseCategoryRules(undefined)).toBeNull();
+            expect(parseCategoryRules('not json')).toBeNull();
+            expect(parseCategoryRules('{"match":"all"}')).toBeNull();
+            expect(parseCategoryRules('{"match":"all","conditions":[{"type":"name_prefix","prefix":""}]}')).toBeNull();
+        });
+
+        test('should drop invalid conditions', () => {
+            const rules = {
+                match: 'any',
+                conditions: [
+                    {type: 'name_pattern', pattern: '[unclosed'},
+                    {type: 'name_pattern', pattern: '(a+)+$'},
+                    {type: 'unknown'},
+                    {type: 'posted_recently', days: 0},
+                    {type: 'has_mentions'},
+                ],
+            };
+
+            expect(parseCategoryRules(JSON.stringify(rules))).toEqual({
+                match: 'any',
+                conditions: [{type: 'has_mentions'}],
+            });
+        });
+
+        test('should default to matching all conditions', () => {
+            expect(parseCategoryRules('{"conditions":[{"type":"shared"}]}')).toEqual({
+                match: 'all',
+                conditions: [{type: 'shared'}],
+            });
+        });
+    });
+
+    describe('combineMatchingChannelIds', () => {
+        test('should return channels matching every condition', () => {
+            expect(combineMatchingChannelIds('all', [['a', 'b', 'c'], ['c', 'b'], ['b', 'c', 'd']])).toEqual(['b', 'c']);
+        });
+
+        test('should return channels matching any condition without duplicates', () => {
+            expect(combineMatchingChannelIds('any', [['a', 'b'], ['b', 'c']])).toEqual(['a', 'b', 'c']);
+        });
+
+        test('should return nothing without any conditions', () => {
+            expect(combineMatchingChannelIds('all', [])).toEqual([]);
+        });
+    });
+});
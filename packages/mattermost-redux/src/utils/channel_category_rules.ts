@@ -0,0 +1,88 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {SmartCategoryCondition, SmartCategoryRules} from 'mattermost-redux/types/channel_categories';
+
+import {isSafePattern} from 'mattermost-redux/utils/helpers';
+
+const conditionTypes = ['name_prefix', 'name_pattern', 'shared', 'has_mentions', 'group_members', 'posted_recently'];
+
+export function isValidCategoryCondition(condition: SmartCategoryCondition): boolean {
+    if (!condition || !conditionTypes.includes(condition.type)) {
+        return false;
+    }
+
+    switch (condition.type) {
+    case 'name_prefix':
+        return Boolean(condition.prefix);
+    case 'name_pattern':
+        return Boolean(condition.pattern) && Boolean(compileNamePattern(condition.pattern));
+    case 'group_members':
+        return Boolean(condition.group_id);
+    case 'posted_recently':
+        return condition.days > 0;
+    default:
+        return true;
+    }
+}
+
+// parseCategoryRules parses the rules for a smart category stored in a preference. It returns null if the category
+// doesn't have any valid rules so that it's treated like a regular category.
+export function parseCategoryRules(value: string | undefined): SmartCategoryRules | null {
+    if (!value) {
+        return null;
+    }
+
+    let rules;
+    try {
+        rules = JSON.parse(value);
+    } catch (e) {
+        return null;
+    }
+
+    if (!rules || !Array.isArray(rules.conditions)) {
+        return null;
+    }
+
+    const conditions = rules.conditions.filter(isValidCategoryCondition);
+    if (conditions.length === 0) {
+        return null;
+    }
+
+    return {
+        match: rules.match === 'any' ? 'any' : 'all',
+        conditions,
+    };
+}
+
+// compileNamePattern returns a case insensitive regular expression for a pattern entered by the user or null if the
+// pattern isn't valid. Unsafe patterns are treated as invalid since they're matched against every channel name whenever
+// the sidebar changes.
+export function compileNamePattern(pattern: string): RegExp | null {
+    if (!isSafePattern(pattern)) {
+        return null;
+    }
+
+    try {
+        return new RegExp(pattern, 'i');
+    } catch (e) {
+        return null;
+    }
+}
+
+// combineMatchingChannelIds combines the channels matching each condition of a smart category into the list of
+// channels in that category.
+export function combineMatchingChannelIds(match: SmartCategoryRules['match'], channelIdsByCondition: string[][]): string[] {
+    if (channelIdsByCondition.length === 0) {
+        return [];
+    }
+
+    if (match === 'any') {
+        return Array.from(new Set(channelIdsByCondition.flat()));
+    }
+
+    const [first, ...rest] = channelIdsByCondition;
+    const restSets = rest.map((channelIds) => new Set(channelIds));
+
+    return first.filter((channelId) => restSets.every((channelIds) => channelIds.has(channelId)));
+}
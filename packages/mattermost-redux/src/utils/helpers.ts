@@ -128,3 +128,16 @@ export function buildQueryString(parameters: Record<string, any>): string {
 
     return query;
 }
+
+export const MAX_PATTERN_LENGTH = 200;
+
+// Matches a group which contains a quantifier and is quantified itself, like (a+)+ or (\w*\s?)*, and back references.
+// Either of these can make matching a string take exponentially long.
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*(?:[*+]|\{\d*,\d*\})(?:[^()\\]|\\.)*\)(?:[*+]|\{\d*,\d*\})/;
+const BACK_REFERENCE = /\\[1-9]|\\k</;
+
+// isSafePattern returns false for a regular expression entered by the user which is too long or which could take too
+// long to match, such as one that's matched against every message that the user receives.
+export function isSafePattern(pattern: string): boolean {
+    return pattern.length <= MAX_PATTERN_LENGTH && !NESTED_QUANTIFIER.test(pattern) && !BACK_REFERENCE.test(pattern);
+}
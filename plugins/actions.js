@@ -12,6 +12,34 @@ export const removeWebappPlugin = (manifest) => {
     };
 };
 
+// reportPluginLoadError records that the web app bundle of a plugin failed to load or initialize.
+export const reportPluginLoadError = (pluginId, error) => {
+    return {
+        type: ActionTypes.RECEIVED_PLUGIN_LOAD_ERROR,
+        data: {pluginId, message: error.message},
+    };
+};
+
+// reportPluginRenderError records that a component registered by a plugin threw while rendering. Its components are
+// disabled once it has happened too often.
+export const reportPluginRenderError = (pluginId, name, error) => {
+    return {
+        type: ActionTypes.RECEIVED_PLUGIN_RENDER_ERROR,
+        data: {
+            pluginId,
+            error: {name, message: error.message, time: Date.now()},
+        },
+    };
+};
+
+// enablePluginComponents shows the components of a plugin again after they were disabled for crashing.
+export const enablePluginComponents = (pluginId) => {
+    return {
+        type: ActionTypes.ENABLED_PLUGIN_COMPONENTS,
+        data: pluginId,
+    };
+};
+
 // hideRHSPlugin closes the RHS if currently showing this plugin.
 const hideRHSPlugin = (manifestId) => {
     return (dispatch, getState) => {
@@ -9,6 +9,8 @@ import {openModal} from 'actions/views/modals';
 import {ModalIdentifiers} from 'utils/constants';
 import {imageURLForUser} from 'utils/utils.jsx';
 
+import WebSocketClient from 'client/web_websocket_client.jsx';
+
 import ChannelInviteModal from 'components/channel_invite_modal';
 import ChannelMembersModal from 'components/channel_members_modal';
 import PurchaseModal from 'components/purchase_modal';
@@ -38,6 +40,10 @@ window.openInteractiveDialog = openInteractiveDialog;
 window.WebappUtils = {
     browserHistory,
     modals: {openModal, ModalIdentifiers},
+    websocket: {
+        getConnectionState: () => WebSocketClient.getConnectionState(),
+        addConnectionStateListener: (listener) => WebSocketClient.addConnectionStateListener(listener),
+    },
 };
 
 // Components exposed on window FOR INTERNAL PLUGIN USE ONLY. These components may have breaking changes in the future
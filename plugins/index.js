@@ -8,12 +8,12 @@ import {Client4} from 'mattermost-redux/client';
 import store from 'stores/redux_store.jsx';
 import {ActionTypes} from 'utils/constants.jsx';
 import {getSiteURL} from 'utils/url';
-import PluginRegistry from 'plugins/registry';
+import PluginRegistry, {negotiateRegistryApiVersion} from 'plugins/registry';
 import {unregisterAllPluginWebSocketEvents, unregisterPluginReconnectHandler} from 'actions/websocket_actions.jsx';
 import {unregisterPluginTranslationsSource} from 'actions/views/root';
 import {unregisterAdminConsolePlugin} from 'actions/admin_actions';
 
-import {removeWebappPlugin} from './actions';
+import {removeWebappPlugin, reportPluginLoadError} from './actions';
 
 // Plugins may have been compiled with the regenerator runtime. Ensure this remains available
 // as a global export even though the webapp does not depend on same.
@@ -101,13 +101,22 @@ export function loadPlugin(manifest) {
         }
 
         function onLoad() {
-            initializePlugin(manifest);
+            try {
+                initializePlugin(manifest);
+            } catch (error) {
+                store.dispatch(reportPluginLoadError(manifest.id, error));
+                reject(new Error('Unable to initialize ' + describePlugin(manifest) + ': ' + error.message));
+                return;
+            }
+
             console.log('Loaded ' + describePlugin(manifest)); //eslint-disable-line no-console
             resolve();
         }
 
         function onError() {
-            reject(new Error('Unable to load bundle for ' + describePlugin(manifest)));
+            const error = new Error('Unable to load bundle for ' + describePlugin(manifest));
+            store.dispatch(reportPluginLoadError(manifest.id, error));
+            reject(error);
         }
 
         // Backwards compatibility for old plugins
@@ -135,9 +144,17 @@ export function loadPlugin(manifest) {
 function initializePlugin(manifest) {
     // Initialize the plugin
     const plugin = window.plugins[manifest.id];
-    const registry = new PluginRegistry(manifest.id);
+    const registry = new PluginRegistry(manifest.id, negotiateRegistryApiVersion(manifest.id, plugin));
     if (plugin && plugin.initialize) {
-        plugin.initialize(registry, store);
+        const result = plugin.initialize(registry, store);
+
+        // Errors from plugins which initialize asynchronously are recorded without failing to load them
+        if (result instanceof Promise) {
+            result.catch((error) => {
+                console.error('Unable to initialize ' + describePlugin(manifest), error); //eslint-disable-line no-console
+                store.dispatch(reportPluginLoadError(manifest.id, error));
+            });
+        }
     }
 }
 
@@ -0,0 +1,34 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {connect} from 'react-redux';
+import {bindActionCreators, Dispatch} from 'redux';
+
+import {GenericAction} from 'mattermost-redux/types/actions';
+
+import {reportPluginRenderError} from 'plugins/actions';
+import {isPluginDisabled} from 'selectors/plugins';
+
+import {GlobalState} from 'types/store';
+
+import PluginErrorBoundary from './plugin_error_boundary';
+
+type OwnProps = {
+    pluginId: string;
+};
+
+function mapStateToProps(state: GlobalState, ownProps: OwnProps) {
+    return {
+        disabled: isPluginDisabled(state, ownProps.pluginId),
+    };
+}
+
+function mapDispatchToProps(dispatch: Dispatch<GenericAction>) {
+    return {
+        actions: bindActionCreators({
+            reportPluginRenderError,
+        }, dispatch),
+    };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(PluginErrorBoundary);
@@ -0,0 +1,73 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+import {mount} from 'enzyme';
+
+import PluginErrorBoundary from './plugin_error_boundary';
+
+function BrokenComponent(): JSX.Element {
+    throw new Error('broken');
+}
+
+describe('plugins/PluginErrorBoundary', () => {
+    const baseProps = {
+        pluginId: 'com.example',
+        name: 'Root',
+        disabled: false,
+        actions: {
+            reportPluginRenderError: jest.fn(),
+        },
+    };
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should render the component of the plugin', () => {
+        const wrapper = mount(
+            <PluginErrorBoundary {...baseProps}>
+                <span id='pluginComponent'/>
+            </PluginErrorBoundary>,
+        );
+
+        expect(wrapper.find('#pluginComponent').exists()).toBe(true);
+    });
+
+    test('should render nothing and report the error when the component throws', () => {
+        const wrapper = mount(
+            <div>
+                <PluginErrorBoundary {...baseProps}>
+                    <BrokenComponent/>
+                </PluginErrorBoundary>
+                <span id='appComponent'/>
+            </div>,
+        );
+
+        expect(wrapper.find('#appComponent').exists()).toBe(true);
+        expect(wrapper.find(PluginErrorBoundary).html()).toBeNull();
+        expect(baseProps.actions.reportPluginRenderError).toHaveBeenCalledWith('com.example', 'Root', expect.objectContaining({message: 'broken'}));
+    });
+
+    test('should render nothing while the plugin is disabled and try again once enabled', () => {
+        const wrapper = mount(
+            <PluginErrorBoundary
+                {...baseProps}
+                disabled={true}
+            >
+                <span id='pluginComponent'/>
+            </PluginErrorBoundary>,
+        );
+
+        expect(wrapper.find('#pluginComponent').exists()).toBe(false);
+
+        wrapper.setState({hasError: true});
+        wrapper.setProps({disabled: false});
+
+        expect(wrapper.find('#pluginComponent').exists()).toBe(true);
+    });
+});
@@ -0,0 +1,74 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+type Props = {
+    pluginId: string;
+
+    /*
+     * Where the component is shown, such as the name of the pluggable that it was registered for
+     */
+    name: string;
+
+    /*
+     * Whether the components of the plugin have been disabled because they crashed too often
+     */
+    disabled: boolean;
+    children?: React.ReactNode;
+
+    actions: {
+        reportPluginRenderError: (pluginId: string, name: string, error: Error) => void;
+    };
+};
+
+type State = {
+    hasError: boolean;
+
+    // disabled is the last value of the prop so that the component can be rendered again once it's enabled
+    disabled: boolean;
+};
+
+// PluginErrorBoundary stops an error thrown while rendering a component registered by a plugin from breaking the rest
+// of the app. Nothing is shown in place of the component once it has failed or while the plugin is disabled.
+export default class PluginErrorBoundary extends React.PureComponent<Props, State> {
+    constructor(props: Props) {
+        super(props);
+
+        this.state = {
+            hasError: false,
+            disabled: props.disabled,
+        };
+    }
+
+    static getDerivedStateFromError() {
+        return {hasError: true};
+    }
+
+    static getDerivedStateFromProps(props: Props, state: State) {
+        // Try rendering the component again once an admin has enabled the plugin's components again
+        if (state.disabled && !props.disabled) {
+            return {hasError: false, disabled: false};
+        }
+
+        if (props.disabled !== state.disabled) {
+            return {disabled: props.disabled};
+        }
+
+        return null;
+    }
+
+    componentDidCatch(error: Error) {
+        console.error(`Plugin ${this.props.pluginId} failed to render its ${this.props.name} component`, error); //eslint-disable-line no-console
+
+        this.props.actions.reportPluginRenderError(this.props.pluginId, this.props.name, error);
+    }
+
+    render() {
+        if (this.state.hasError || this.props.disabled) {
+            return null;
+        }
+
+        return this.props.children;
+    }
+}
@@ -0,0 +1,29 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import PluginErrorBoundary from './index';
+
+// withPluginErrorBoundary wraps a component registered by a plugin so that it can't break the rest of the app when it
+// fails to render. name is where the component is shown and is used to report the error.
+export default function withPluginErrorBoundary<P>(pluginId: string, name: string, Component?: React.ComponentType<P>) {
+    if (!Component) {
+        return Component;
+    }
+    const WrappedComponent = Component;
+
+    function PluginComponent(props: P) {
+        return (
+            <PluginErrorBoundary
+                pluginId={pluginId}
+                name={name}
+            >
+                <WrappedComponent {...props}/>
+            </PluginErrorBoundary>
+        );
+    }
+    PluginComponent.displayName = `withPluginErrorBoundary(${WrappedComponent.displayName || WrappedComponent.name || 'Component'})`;
+
+    return PluginComponent;
+}
@@ -0,0 +1,79 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import store from 'stores/redux_store.jsx';
+
+import {ActionTypes} from 'utils/constants';
+
+import {flushPluginHookResults, wrapPluginHook} from './plugin_hooks';
+
+jest.mock('stores/redux_store', () => ({
+    dispatch: jest.fn(),
+    getState: jest.fn(),
+}));
+
+describe('plugins/plugin_hooks', () => {
+    const fallback = (message: string) => `fallback ${message}`;
+
+    beforeEach(() => {
+        flushPluginHookResults();
+        (store.dispatch as jest.Mock).mockClear();
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should return the result of the hook and record how long it took', () => {
+        const hook = wrapPluginHook('com.example', 'MessageWillFormat', (message: string) => `formatted ${message}`, fallback);
+
+        expect(hook('message')).toBe('formatted message');
+        expect(store.dispatch).not.toHaveBeenCalled();
+
+        flushPluginHookResults();
+        expect(store.dispatch).toHaveBeenCalledWith({
+            type: ActionTypes.RECEIVED_PLUGIN_HOOK_RESULTS,
+            data: [{pluginId: 'com.example', name: 'MessageWillFormat', duration: expect.any(Number)}],
+        });
+    });
+
+    test('should use the fallback when the hook throws', () => {
+        const hook = wrapPluginHook<[string], string>('com.example', 'MessageWillFormat', () => {
+            throw new Error('broken');
+        }, fallback);
+
+        expect(hook('message')).toBe('fallback message');
+
+        flushPluginHookResults();
+        expect(store.dispatch).toHaveBeenCalledWith({
+            type: ActionTypes.RECEIVED_PLUGIN_HOOK_RESULTS,
+            data: [{
+                pluginId: 'com.example',
+                name: 'MessageWillFormat',
+                duration: expect.any(Number),
+                error: {name: 'MessageWillFormat', message: 'broken', time: expect.any(Number)},
+            }],
+        });
+    });
+
+    test('should use the fallback when an asynchronous hook rejects', async () => {
+        const hook = wrapPluginHook('com.example', 'MessageWillBePosted', (): Promise<string> => Promise.reject(new Error('broken')), () => Promise.resolve('fallback'));
+
+        await expect(hook()).resolves.toBe('fallback');
+
+        flushPluginHookResults();
+        expect((store.dispatch as jest.Mock).mock.calls[0][0].data[0].error.message).toBe('broken');
+    });
+
+    test('should record the results of several hooks together', () => {
+        const hook = wrapPluginHook('com.example', 'MessageWillFormat', (message: string) => message, fallback);
+
+        hook('first');
+        hook('second');
+
+        flushPluginHookResults();
+        expect(store.dispatch).toHaveBeenCalledTimes(1);
+        expect((store.dispatch as jest.Mock).mock.calls[0][0].data).toHaveLength(2);
+    });
+});
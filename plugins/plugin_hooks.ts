@@ -0,0 +1,86 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import store from 'stores/redux_store.jsx';
+
+import {ActionTypes} from 'utils/constants';
+
+import type {PluginHookResult} from 'types/store/plugins';
+
+// How long hook results are collected before they're recorded together. Hooks such as MessageWillFormat run every time
+// that a post renders, so recording each call separately would slow down the app.
+const HOOK_RESULTS_FLUSH_DELAY = 1000;
+
+let pendingResults: PluginHookResult[] = [];
+let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+export function flushPluginHookResults() {
+    if (flushTimeout) {
+        clearTimeout(flushTimeout);
+        flushTimeout = null;
+    }
+
+    if (pendingResults.length === 0) {
+        return;
+    }
+
+    const results = pendingResults;
+    pendingResults = [];
+
+    store.dispatch({
+        type: ActionTypes.RECEIVED_PLUGIN_HOOK_RESULTS,
+        data: results,
+    });
+}
+
+function recordHookResult(result: PluginHookResult) {
+    pendingResults.push(result);
+
+    if (!flushTimeout) {
+        flushTimeout = setTimeout(flushPluginHookResults, HOOK_RESULTS_FLUSH_DELAY);
+    }
+}
+
+// wrapPluginHook returns a function which calls a hook registered by a plugin and records how long it took. If the
+// hook throws or returns a promise which rejects, the error is recorded and fallback is used in place of its result so
+// that one broken plugin doesn't break posting or rendering messages for every other plugin.
+export function wrapPluginHook<Args extends unknown[], Result>(
+    pluginId: string,
+    name: string,
+    hook: (...args: Args) => Result,
+    fallback: (...args: Args) => Result | undefined,
+) {
+    return (...args: Args): Result | undefined => {
+        const start = performance.now();
+
+        const handleError = (error: Error) => {
+            console.error(`Plugin ${pluginId} failed to run its ${name} hook`, error); //eslint-disable-line no-console
+
+            recordHookResult({
+                pluginId,
+                name,
+                duration: performance.now() - start,
+                error: {name, message: error?.message || String(error), time: Date.now()},
+            });
+
+            return fallback(...args);
+        };
+
+        let result: Result;
+        try {
+            result = hook(...args);
+        } catch (error) {
+            return handleError(error);
+        }
+
+        if (result instanceof Promise) {
+            return result.then((value) => {
+                recordHookResult({pluginId, name, duration: performance.now() - start});
+                return value;
+            }, handleError) as unknown as Result;
+        }
+
+        recordHookResult({pluginId, name, duration: performance.now() - start});
+        return result;
+    };
+}
@@ -0,0 +1,102 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import store from 'stores/redux_store.jsx';
+
+import PluginRegistry, {negotiateRegistryApiVersion} from './registry';
+import {PLUGIN_REGISTRY_API_VERSION} from './registry_types';
+
+jest.mock('stores/redux_store', () => ({
+    dispatch: jest.fn(),
+    getState: jest.fn(),
+}));
+
+describe('plugins/registry', () => {
+    beforeEach(() => {
+        (store.dispatch as jest.Mock).mockClear();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('negotiateRegistryApiVersion', () => {
+        test('should use version 1 for plugins which do not declare a version', () => {
+            expect(negotiateRegistryApiVersion('com.example', {})).toBe(1);
+            expect(negotiateRegistryApiVersion('com.example')).toBe(1);
+        });
+
+        test('should use the version declared by the plugin', () => {
+            expect(negotiateRegistryApiVersion('com.example', {registryApiVersion: 2})).toBe(2);
+        });
+
+        test('should not use a newer version than the web app supports', () => {
+            const version = negotiateRegistryApiVersion('com.example', {registryApiVersion: PLUGIN_REGISTRY_API_VERSION + 1});
+
+            expect(version).toBe(PLUGIN_REGISTRY_API_VERSION);
+            expect(console.warn).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('deprecated signatures', () => {
+        function Icon() {
+            return <i className='icon'/>;
+        }
+
+        test('should render components passed in place of elements', () => {
+            const registry = new PluginRegistry('com.example', 2);
+            registry.registerMainMenuAction(Icon, jest.fn());
+
+            const action = (store.dispatch as jest.Mock).mock.calls[0][0];
+            expect(React.isValidElement(action.data.text)).toBe(true);
+        });
+
+        test('should warn once about each deprecated signature', () => {
+            const registry = new PluginRegistry('com.example', 2);
+            registry.registerMainMenuAction(Icon, jest.fn());
+            registry.registerChannelHeaderMenuAction(Icon, jest.fn());
+
+            expect(console.warn).toHaveBeenCalledTimes(1);
+            expect((console.warn as jest.Mock).mock.calls[0][0]).toContain('com.example');
+        });
+
+        test('should warn plugins targeting a version from before the deprecation', () => {
+            const registry = new PluginRegistry('com.example', 1);
+            registry.registerMainMenuAction(Icon, jest.fn());
+
+            expect(console.warn).toHaveBeenCalledTimes(1);
+            expect((console.warn as jest.Mock).mock.calls[0][0]).toContain('version 2');
+        });
+
+        test('should not warn for elements and strings', () => {
+            const registry = new PluginRegistry('com.example', 2);
+            registry.registerMainMenuAction(<Icon/>, jest.fn());
+            registry.registerChannelHeaderMenuAction('Do something', jest.fn());
+
+            expect(console.warn).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('registerMarkdownExtension', () => {
+        test('should render nothing when an extension throws', () => {
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+
+            const registry = new PluginRegistry('com.example', PLUGIN_REGISTRY_API_VERSION);
+            registry.registerMarkdownExtension({
+                type: 'inline',
+                pattern: /TICKET-\d+/,
+                render: () => {
+                    throw new Error('broken');
+                },
+            });
+
+            const action = (store.dispatch as jest.Mock).mock.calls[0][0];
+            expect(action.name).toBe('MarkdownExtension');
+            expect(action.data.extension.render(['TICKET-1'])).toBeUndefined();
+            expect(console.error).toHaveBeenCalled();
+        });
+    });
+});
@@ -5,7 +5,12 @@
 
 import React from 'react';
 
+import {Reducer} from 'redux';
+
 import reducerRegistry from 'mattermost-redux/store/reducer_registry';
+import {FileInfo} from 'mattermost-redux/types/files';
+import {Post, PostEmbed} from 'mattermost-redux/types/posts';
+import {WebSocketMessage} from 'mattermost-redux/types/websocket';
 
 import {
     registerPluginWebSocketEvent,
@@ -26,34 +31,62 @@ import {
     registerAdminConsoleCustomSetting,
 } from 'actions/admin_actions';
 
+import {getPluginUserSetting} from 'selectors/plugins';
+
 import store from 'stores/redux_store.jsx';
+
+import {GlobalState} from 'types/store';
+
 import {ActionTypes} from 'utils/constants';
 import {generateId} from 'utils/utils.jsx';
 
-function dispatchPluginComponentAction(name, pluginId, component, id = generateId()) {
+import withPluginErrorBoundary from './plugin_error_boundary/with_plugin_error_boundary';
+import {wrapPluginHook} from './plugin_hooks';
+import {PLUGIN_REGISTRY_API_VERSION} from './registry_types';
+import type {
+    AdminConsoleCustomSettingOptions,
+    AdminConsoleCustomSettingProps,
+    ChannelHeaderButtonAction,
+    ComposerAction,
+    DeprecatedPluginContent,
+    FilePreviewComponentProps,
+    FilesWillUploadHook,
+    MarkdownExtension,
+    MessageWillBePostedHook,
+    MessageWillBeReceivedHook,
+    MessageWillBeUpdatedHook,
+    MessageWillFormatHook,
+    Plugin,
+    PluginContent,
+    PluginRegistryAPI,
+    PostDropdownSubMenuRegistrar,
+    PostTypeComponentProps,
+    PluginUserSettingsSection,
+    PostWillRenderEmbedComponentProps,
+    ReactionWillBeAddedHook,
+    RightHandSidebarRegistration,
+    SlashCommandWillBePostedHook,
+    UserSettingsSectionRegistration,
+} from './registry_types';
+
+function dispatchPluginComponentAction(name: string, pluginId: string, component: React.ComponentType, id = generateId()) {
     store.dispatch({
         type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
         name,
         data: {
             id,
             pluginId,
-            component,
+            component: withPluginErrorBoundary(pluginId, name, component),
         },
     });
 
     return id;
 }
 
-const resolveReactElement = (element) => {
-    if (element && !React.isValidElement(element) && typeof element !== 'string') {
-        // Allow element to be passed as the name of the component, instead of a React element.
-        return React.createElement(element);
-    }
-
-    return element;
-};
+// Hooks which fail are treated as if they didn't return anything
+const noHookResult = () => undefined;
 
-const standardizeRoute = (route) => {
+const standardizeRoute = (route: string) => {
     let fixedRoute = route.trim();
     if (fixedRoute[0] === '/') {
         fixedRoute = fixedRoute.substring(1);
@@ -61,51 +94,92 @@ const standardizeRoute = (route) => {
     return fixedRoute;
 };
 
-export default class PluginRegistry {
-    constructor(id) {
+// negotiateRegistryApiVersion returns the version of the registry API to give a plugin. That's the version which the
+// plugin declares when registering itself unless this web app is too old to support it.
+export function negotiateRegistryApiVersion(pluginId: string, plugin?: Plugin) {
+    const requested = plugin?.registryApiVersion || 1;
+    if (requested > PLUGIN_REGISTRY_API_VERSION) {
+        console.warn(`Plugin ${pluginId} targets version ${requested} of the plugin registry API, but this web app only supports up to version ${PLUGIN_REGISTRY_API_VERSION}`); //eslint-disable-line no-console
+        return PLUGIN_REGISTRY_API_VERSION;
+    }
+
+    return requested;
+}
+
+export default class PluginRegistry implements PluginRegistryAPI {
+    readonly id: string;
+    readonly apiVersion: number;
+
+    // deprecationWarnings holds the deprecations which have already been logged for this plugin
+    private deprecationWarnings = new Set<string>();
+
+    constructor(id: string, apiVersion = 1) {
         this.id = id;
+        this.apiVersion = apiVersion;
+    }
+
+    // warnDeprecated logs a warning the first time that the plugin uses something which was deprecated in the given
+    // version of the registry API. Plugins targeting older versions are warned too since they still need to be updated.
+    private warnDeprecated(deprecatedIn: number, message: string) {
+        if (this.deprecationWarnings.has(message)) {
+            return;
+        }
+
+        this.deprecationWarnings.add(message);
+        console.warn(`Plugin ${this.id}: ${message} This was deprecated in version ${deprecatedIn} of the plugin registry API.`); //eslint-disable-line no-console
+    }
+
+    // resolveReactElement renders a component passed in place of the text or icon of something that was registered
+    private resolveReactElement(element: DeprecatedPluginContent | undefined): PluginContent | undefined {
+        if (element && !React.isValidElement(element) && typeof element !== 'string') {
+            // Allow element to be passed as the name of the component, instead of a React element.
+            this.warnDeprecated(2, `passing a component in place of a React element is deprecated. Pass <${element.displayName || element.name || 'Component'}/> instead.`);
+            return React.createElement(element);
+        }
+
+        return element;
     }
 
     // Register a component at the root of the channel view of the app.
     // Accepts a React component. Returns a unique identifier.
-    registerRootComponent(component) {
+    registerRootComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('Root', this.id, component);
     }
 
     // Register a component in the user attributes section of the profile popover (hovercard), below the default user attributes.
     // Accepts a React component. Returns a unique identifier.
-    registerPopoverUserAttributesComponent(component) {
+    registerPopoverUserAttributesComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('PopoverUserAttributes', this.id, component);
     }
 
     // Register a component in the user actions of the profile popover (hovercard), below the default actions.
     // Accepts a React component. Returns a unique identifier.
-    registerPopoverUserActionsComponent(component) {
+    registerPopoverUserActionsComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('PopoverUserActions', this.id, component);
     }
 
     // Register a component fixed to the top of the left-hand channel sidebar.
     // Accepts a React component. Returns a unique identifier.
-    registerLeftSidebarHeaderComponent(component) {
+    registerLeftSidebarHeaderComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('LeftSidebarHeader', this.id, component);
     }
 
     // Register a component fixed to the bottom of the team sidebar. Does not render if
     // user is only on one team and the team sidebar is not shown.
     // Accepts a React component. Returns a unique identifier.
-    registerBottomTeamSidebarComponent(component) {
+    registerBottomTeamSidebarComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('BottomTeamSidebar', this.id, component);
     }
 
     // Register a component fixed to the bottom of the post message.
     // Accepts a React component. Returns a unique identifier.
-    registerPostMessageAttachmentComponent(component) {
+    registerPostMessageAttachmentComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('PostMessageAttachment', this.id, component);
     }
 
     // Register a component to show as a tooltip when a user hovers on a link in a post.
     // Accepts a React component. Returns a unique identifier.
-    registerLinkTooltipComponent(component) {
+    registerLinkTooltipComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('LinkTooltip', this.id, component);
     }
 
@@ -116,16 +190,16 @@ export default class PluginRegistry {
     // - action - a function called when the button is clicked, passed the channel and channel member as arguments
     // - dropdown_text - string or React element shown for the dropdown button description
     // - tooltip_text - string or React element shown for tooltip appear on hover
-    registerChannelHeaderButtonAction(icon, action, dropdownText, tooltipText) {
+    registerChannelHeaderButtonAction(icon: DeprecatedPluginContent, action: ChannelHeaderButtonAction, dropdownText: DeprecatedPluginContent, tooltipText: DeprecatedPluginContent) {
         const id = generateId();
 
         const data = {
             id,
             pluginId: this.id,
-            icon: resolveReactElement(icon),
+            icon: this.resolveReactElement(icon),
             action,
-            dropdownText: resolveReactElement(dropdownText),
-            tooltipText: resolveReactElement(tooltipText),
+            dropdownText: this.resolveReactElement(dropdownText),
+            tooltipText: this.resolveReactElement(tooltipText),
         };
 
         store.dispatch({
@@ -152,15 +226,15 @@ export default class PluginRegistry {
     // - tooltip_text - string shown for tooltip appear on hover
     // Returns an unique identifier
     // Minimum required version: 5.28
-    registerCallButtonAction(icon, action, dropdownText, tooltipText) {
+    registerCallButtonAction(icon: DeprecatedPluginContent, action: ChannelHeaderButtonAction, dropdownText: DeprecatedPluginContent, tooltipText: string) {
         const id = generateId();
 
         const data = {
             id,
             pluginId: this.id,
-            icon: resolveReactElement(icon),
+            icon: this.resolveReactElement(icon),
             action,
-            dropdownText: resolveReactElement(dropdownText),
+            dropdownText: this.resolveReactElement(dropdownText),
             tooltipText,
         };
 
@@ -184,7 +258,7 @@ export default class PluginRegistry {
     // Custom post types can also apply for ephemeral posts.
     // Accepts a string type and a component.
     // Returns a unique identifier.
-    registerPostTypeComponent(type, component) {
+    registerPostTypeComponent(type: string, component: React.ComponentType<PostTypeComponentProps>) {
         const id = generateId();
 
         store.dispatch({
@@ -193,7 +267,7 @@ export default class PluginRegistry {
                 id,
                 pluginId: this.id,
                 type,
-                component,
+                component: withPluginErrorBoundary(this.id, 'PostTypeComponent', component),
             },
         });
 
@@ -204,7 +278,7 @@ export default class PluginRegistry {
     // Custom post types must be prefixed with 'custom_'.
     // Accepts a string type and a component.
     // Returns a unique identifier.
-    registerPostCardTypeComponent(type, component) {
+    registerPostCardTypeComponent(type: string, component: React.ComponentType<PostTypeComponentProps>) {
         const id = generateId();
 
         store.dispatch({
@@ -213,7 +287,7 @@ export default class PluginRegistry {
                 id,
                 pluginId: this.id,
                 type,
-                component,
+                component: withPluginErrorBoundary(this.id, 'PostCardTypeComponent', component),
             },
         });
 
@@ -230,7 +304,7 @@ export default class PluginRegistry {
     // - component - The component that renders the embed view for the link
     // - toggleable - A boolean indicating if the embed view should be collapsable
     // Returns a unique identifier.
-    registerPostWillRenderEmbedComponent(match, component, toggleable) {
+    registerPostWillRenderEmbedComponent(match: (embed: PostEmbed) => boolean, component: React.ComponentType<PostWillRenderEmbedComponentProps>, toggleable: boolean) {
         const id = generateId();
 
         store.dispatch({
@@ -239,7 +313,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                component,
+                component: withPluginErrorBoundary(this.id, 'PostWillRenderEmbedComponent', component),
                 match,
                 toggleable,
             },
@@ -254,7 +328,7 @@ export default class PluginRegistry {
     // - action - A function to trigger when component is clicked on
     // - mobileIcon - A React element to display as the icon in the menu in mobile view
     // Returns a unique identifier.
-    registerMainMenuAction(text, action, mobileIcon) {
+    registerMainMenuAction(text: DeprecatedPluginContent, action: () => void, mobileIcon?: DeprecatedPluginContent) {
         const id = generateId();
 
         store.dispatch({
@@ -263,9 +337,9 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                text: resolveReactElement(text),
+                text: this.resolveReactElement(text),
                 action,
-                mobileIcon: resolveReactElement(mobileIcon),
+                mobileIcon: this.resolveReactElement(mobileIcon),
             },
         });
 
@@ -277,7 +351,7 @@ export default class PluginRegistry {
     // - text - A string or React element to display in the menu
     // - action - A function that receives the channelId and is called when the menu items is clicked.
     // Returns a unique identifier.
-    registerChannelHeaderMenuAction(text, action) {
+    registerChannelHeaderMenuAction(text: DeprecatedPluginContent, action: (channelId: string) => void) {
         const id = generateId();
 
         store.dispatch({
@@ -286,7 +360,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                text: resolveReactElement(text),
+                text: this.resolveReactElement(text),
                 action,
             },
         });
@@ -300,7 +374,7 @@ export default class PluginRegistry {
     // - text - A string or React element to display in the menu
     // - action - A function that receives the fileInfo and is called when the menu items is clicked.
     // Returns a unique identifier.
-    registerFileDropdownMenuAction(match, text, action) {
+    registerFileDropdownMenuAction(match: (fileInfo: FileInfo) => boolean, text: DeprecatedPluginContent, action: (fileInfo: FileInfo) => void) {
         const id = generateId();
 
         store.dispatch({
@@ -310,7 +384,7 @@ export default class PluginRegistry {
                 id,
                 pluginId: this.id,
                 match,
-                text: resolveReactElement(text),
+                text: this.resolveReactElement(text),
                 action,
             },
         });
@@ -324,7 +398,7 @@ export default class PluginRegistry {
     // - action - A function to trigger when component is clicked on
     // - filter - A function whether to apply the plugin into the post' dropdown menu
     // Returns a unique identifier.
-    registerPostDropdownMenuAction(text, action, filter) {
+    registerPostDropdownMenuAction(text: DeprecatedPluginContent, action: (postId: string) => void, filter?: (postId: string) => boolean) {
         const id = generateId();
 
         store.dispatch({
@@ -333,7 +407,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                text: resolveReactElement(text),
+                text: this.resolveReactElement(text),
                 action,
                 filter,
             },
@@ -350,8 +424,15 @@ export default class PluginRegistry {
     //
     // Returns an unique identifier for the root submenu, and a function to register submenu items.
     // At this time, only one level of nesting is allowed to avoid rendering issue in the RHS.
-    registerPostDropdownSubMenuAction(text, action, filter) {
-        function registerMenuItem(pluginId, id, parentMenuId, innerText, innerAction, innerFilter) {
+    registerPostDropdownSubMenuAction(text: DeprecatedPluginContent, action?: (postId: string) => void, filter?: (postId: string) => boolean) {
+        const registerMenuItem = (
+            pluginId: string,
+            id: string,
+            parentMenuId: string | null,
+            innerText: DeprecatedPluginContent,
+            innerAction?: (postId: string) => void,
+            innerFilter?: (postId: string) => boolean,
+        ): PostDropdownSubMenuRegistrar => {
             store.dispatch({
                 type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
                 name: 'PostDropdownMenu',
@@ -359,7 +440,7 @@ export default class PluginRegistry {
                     id,
                     parentMenuId,
                     pluginId,
-                    text: resolveReactElement(innerText),
+                    text: this.resolveReactElement(innerText),
                     subMenu: [],
                     action: innerAction,
                     filter: innerFilter,
@@ -372,14 +453,14 @@ export default class PluginRegistry {
 
                 return registerMenuItem(pluginId, generateId(), id, t, a, f);
             };
-        }
+        };
         const id = generateId();
         return {id, rootRegisterMenuItem: registerMenuItem(this.id, id, null, text, action, filter)};
     }
 
     // Register a component at the bottom of the post dropdown menu.
     // Accepts a React component. Returns a unique identifier.
-    registerPostDropdownMenuComponent(component) {
+    registerPostDropdownMenuComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('PostDropdownMenuItem', this.id, component);
     }
 
@@ -389,7 +470,7 @@ export default class PluginRegistry {
     // - text - A string or JSX element to display in the file upload menu
     // - action - A function to trigger when the menu item is selected.
     // Returns a unique identifier.
-    registerFileUploadMethod(icon, action, text) {
+    registerFileUploadMethod(icon: React.ReactElement, action: (checkPluginHooksAndUploadFiles: (files: File[]) => void) => void, text: PluginContent) {
         const id = generateId();
 
         store.dispatch({
@@ -414,7 +495,7 @@ export default class PluginRegistry {
     // - message - An error message to display, leave blank or null to display no message
     // - files - Modified array of files to upload, set to null to reject all files
     // Returns a unique identifier.
-    registerFilesWillUploadHook(hook) {
+    registerFilesWillUploadHook(hook: FilesWillUploadHook) {
         const id = generateId();
 
         store.dispatch({
@@ -423,7 +504,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                hook,
+                hook: wrapPluginHook(this.id, 'FilesWillUploadHook', hook, (files: File[]) => ({files})),
             },
         });
 
@@ -433,7 +514,7 @@ export default class PluginRegistry {
     // Unregister a component, action or hook using the unique identifier returned after registration.
     // Accepts a string id.
     // Returns undefined in all cases.
-    unregisterComponent(componentId) {
+    unregisterComponent(componentId: string) {
         store.dispatch({
             type: ActionTypes.REMOVED_PLUGIN_COMPONENT,
             id: componentId,
@@ -443,7 +524,7 @@ export default class PluginRegistry {
     // Unregister a component that provided a custom body for posts with a specific type.
     // Accepts a string id.
     // Returns undefined in all cases.
-    unregisterPostTypeComponent(componentId) {
+    unregisterPostTypeComponent(componentId: string) {
         store.dispatch({
             type: ActionTypes.REMOVED_PLUGIN_POST_COMPONENT,
             id: componentId,
@@ -453,8 +534,9 @@ export default class PluginRegistry {
     // Register a reducer against the Redux store. It will be accessible in redux state
     // under "state['plugins-<yourpluginid>']"
     // Accepts a reducer. Returns undefined.
-    registerReducer(reducer) {
-        reducerRegistry.register('plugins-' + this.id, reducer);
+    registerReducer(reducer: Reducer) {
+        // Middleware runs thunks before they reach the reducers, so only plain actions are passed to the plugin's reducer
+        reducerRegistry.register('plugins-' + this.id, (state, action) => (typeof action === 'function' ? state : reducer(state, action)));
     }
 
     // Register a handler for WebSocket events.
@@ -463,21 +545,21 @@ export default class PluginRegistry {
     // Plugin events will have "custom_<pluginid>_" prepended
     // - handler - a function to handle the event, receives the event message as an argument
     // Returns undefined.
-    registerWebSocketEventHandler(event, handler) {
+    registerWebSocketEventHandler(event: string, handler: (msg: WebSocketMessage<any>) => void) {
         registerPluginWebSocketEvent(this.id, event, handler);
     }
 
     // Unregister a handler for a custom WebSocket event.
     // Accepts a string event type.
     // Returns undefined.
-    unregisterWebSocketEventHandler(event) {
+    unregisterWebSocketEventHandler(event: string) {
         unregisterPluginWebSocketEvent(this.id, event);
     }
 
     // Register a handler that will be called when the app reconnects to the
     // internet after previously disconnecting.
     // Accepts a function to handle the event. Returns undefined.
-    registerReconnectHandler(handler) {
+    registerReconnectHandler(handler: () => void) {
         registerPluginReconnectHandler(this.id, handler);
     }
 
@@ -498,7 +580,7 @@ export default class PluginRegistry {
     //
     // If the hook function is asynchronous, the message will not be sent to the server
     // until the hook returns.
-    registerMessageWillBePostedHook(hook) {
+    registerMessageWillBePostedHook(hook: MessageWillBePostedHook) {
         const id = generateId();
 
         store.dispatch({
@@ -507,7 +589,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                hook,
+                hook: wrapPluginHook(this.id, 'MessageWillBePosted', hook, noHookResult),
             },
         });
 
@@ -534,7 +616,7 @@ export default class PluginRegistry {
     //
     // If the hook function is asynchronous, the command will not be sent to the server
     // until the hook returns.
-    registerSlashCommandWillBePostedHook(hook) {
+    registerSlashCommandWillBePostedHook(hook: SlashCommandWillBePostedHook) {
         const id = generateId();
 
         store.dispatch({
@@ -543,7 +625,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                hook,
+                hook: wrapPluginHook(this.id, 'SlashCommandWillBePosted', hook, noHookResult),
             },
         });
 
@@ -555,7 +637,7 @@ export default class PluginRegistry {
     // already modified by other hooks) as arguments. This function must return a string
     // message that will be formatted.
     // Returns a unique identifier.
-    registerMessageWillFormatHook(hook) {
+    registerMessageWillFormatHook(hook: MessageWillFormatHook) {
         const id = generateId();
 
         store.dispatch({
@@ -564,7 +646,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                hook,
+                hook: wrapPluginHook(this.id, 'MessageWillFormat', hook, (post: Post, message: string) => message),
             },
         });
 
@@ -578,7 +660,7 @@ export default class PluginRegistry {
     // - component - A react component to display instead of original preview. Receives fileInfo and post as props.
     // Returns a unique identifier.
     // Only one plugin can override a file preview at a time. If two plugins try to override the same file preview, the first plugin will perform the override and the second will not. Plugin precedence is ordered alphabetically by plugin ID.
-    registerFilePreviewComponent(override, component) {
+    registerFilePreviewComponent(override: (fileInfo: FileInfo, post?: Post) => boolean, component: React.ComponentType<FilePreviewComponentProps>) {
         const id = generateId();
 
         store.dispatch({
@@ -588,14 +670,14 @@ export default class PluginRegistry {
                 id,
                 pluginId: this.id,
                 override,
-                component,
+                component: withPluginErrorBoundary(this.id, 'FilePreview', component),
             },
         });
 
         return id;
     }
 
-    registerTranslations(getTranslationsForLocale) {
+    registerTranslations(getTranslationsForLocale: (locale: string) => Record<string, string>) {
         store.dispatch(registerPluginTranslationsSource(this.id, getTranslationsForLocale));
     }
 
@@ -607,7 +689,7 @@ export default class PluginRegistry {
     //          version of it, which is used for build the admin console.
     // Each plugin can register at most one admin console plugin function, with newer registrations
     // replacing older ones.
-    registerAdminConsolePlugin(func) {
+    registerAdminConsolePlugin(func: (adminDefinition: Record<string, unknown>) => Record<string, unknown>) {
         store.dispatch(registerAdminConsolePlugin(this.id, func));
     }
 
@@ -619,8 +701,8 @@ export default class PluginRegistry {
     //     showTitle - Optional boolean that if true the display_name of the setting will be rendered
     // on the left column of the settings page and the registered component will be displayed on the
     // available space in the right column.
-    registerAdminConsoleCustomSetting(key, component, {showTitle} = {}) {
-        store.dispatch(registerAdminConsoleCustomSetting(this.id, key, component, {showTitle}));
+    registerAdminConsoleCustomSetting(key: string, component: React.ComponentType<AdminConsoleCustomSettingProps>, {showTitle}: AdminConsoleCustomSettingOptions = {}) {
+        store.dispatch(registerAdminConsoleCustomSetting(this.id, key, withPluginErrorBoundary(this.id, 'AdminConsoleCustomSetting', component), {showTitle}));
     }
 
     // Unregister a previously registered admin console definition override function.
@@ -638,7 +720,7 @@ export default class PluginRegistry {
     // - showRHSPlugin: the action to dispatch that will open the RHS.
     // - hideRHSPlugin: the action to dispatch that will close the RHS
     // - toggleRHSPlugin: the action to dispatch that will toggle the RHS
-    registerRightHandSidebarComponent(component, title) {
+    registerRightHandSidebarComponent(component: React.ComponentType, title: PluginContent): RightHandSidebarRegistration {
         const id = generateId();
 
         store.dispatch({
@@ -647,7 +729,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                component,
+                component: withPluginErrorBoundary(this.id, 'RightHandSidebarComponent', component),
                 title,
             },
         });
@@ -661,7 +743,7 @@ export default class PluginRegistry {
     // - component - A react component to display.
     // Returns:
     // - id: a unique identifier
-    registerNeedsTeamRoute(route, component) {
+    registerNeedsTeamRoute(route: string, component: React.ComponentType) {
         const id = generateId();
         let fixedRoute = standardizeRoute(route);
         fixedRoute = this.id + '/' + fixedRoute;
@@ -672,7 +754,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                component,
+                component: withPluginErrorBoundary(this.id, 'NeedsTeamComponent', component),
                 route: fixedRoute,
             },
         });
@@ -686,7 +768,7 @@ export default class PluginRegistry {
     // - component - A react component to display.
     // Returns:
     // - id: a unique identifier
-    registerCustomRoute(route, component) {
+    registerCustomRoute(route: string, component: React.ComponentType) {
         const id = generateId();
         let fixedRoute = standardizeRoute(route);
         fixedRoute = this.id + '/' + fixedRoute;
@@ -697,7 +779,7 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                component,
+                component: withPluginErrorBoundary(this.id, 'CustomRouteComponent', component),
                 route: fixedRoute,
             },
         });
@@ -719,7 +801,16 @@ export default class PluginRegistry {
     // - showTeamSidebar - A flag to display or hide the team sidebar in products. Defaults to false (hidden).
     // All parameters are required.
     // Returns a unique identifier.
-    registerProduct(baseURL, switcherIcon, switcherText, switcherLinkURL, mainComponent, headerCentreComponent = () => null, headerRightComponent = () => null, showTeamSidebar = false) {
+    registerProduct(
+        baseURL: string,
+        switcherIcon: string,
+        switcherText: DeprecatedPluginContent,
+        switcherLinkURL: string,
+        mainComponent: React.ComponentType,
+        headerCentreComponent: React.ComponentType = () => null,
+        headerRightComponent: React.ComponentType = () => null,
+        showTeamSidebar = false,
+    ) {
         const id = generateId();
 
         store.dispatch({
@@ -728,13 +819,13 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                switcherIcon: resolveReactElement(switcherIcon),
-                switcherText: resolveReactElement(switcherText),
+                switcherIcon: this.resolveReactElement(switcherIcon),
+                switcherText: this.resolveReactElement(switcherText),
                 baseURL: '/' + standardizeRoute(baseURL),
                 switcherLinkURL: '/' + standardizeRoute(switcherLinkURL),
-                mainComponent,
-                headerCentreComponent,
-                headerRightComponent,
+                mainComponent: withPluginErrorBoundary(this.id, 'Product', mainComponent),
+                headerCentreComponent: withPluginErrorBoundary(this.id, 'Product', headerCentreComponent),
+                headerRightComponent: withPluginErrorBoundary(this.id, 'Product', headerRightComponent),
                 showTeamSidebar,
             },
         });
@@ -753,7 +844,7 @@ export default class PluginRegistry {
     //
     // If the hook function is asynchronous, the message will not be sent to the server
     // until the hook returns.
-    registerMessageWillBeUpdatedHook(hook) {
+    registerMessageWillBeUpdatedHook(hook: MessageWillBeUpdatedHook) {
         const id = generateId();
 
         store.dispatch({
@@ -762,18 +853,201 @@ export default class PluginRegistry {
             data: {
                 id,
                 pluginId: this.id,
-                hook,
+                hook: wrapPluginHook(this.id, 'MessageWillBeUpdated', hook, noHookResult),
+            },
+        });
+
+        return id;
+    }
+
+    // Register a hook that will be called when a post is received from the server, either because it was posted or
+    // edited or because it was loaded with a channel or thread, before it is stored. Accepts a function that receives
+    // the post as an argument.
+    //
+    // To hide the post, return
+    //     {hide: true}
+    // Hiding an edited post keeps the version of it from before it was edited.
+    // To modify or allow the post without modification, return an object containing the post such as
+    //     {post: {...}}
+    // or return nothing to allow it without modification.
+    //
+    // The hook must be synchronous so that posts are stored in the order that they are received.
+    // Returns a unique identifier.
+    registerMessageWillBeReceivedHook(hook: MessageWillBeReceivedHook) {
+        const id = generateId();
+
+        store.dispatch({
+            type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
+            name: 'MessageWillBeReceived',
+            data: {
+                id,
+                pluginId: this.id,
+                hook: wrapPluginHook(this.id, 'MessageWillBeReceived', hook, noHookResult),
+            },
+        });
+
+        return id;
+    }
+
+    // Register a hook that will be called when a reaction to a post is received from the server, either because it
+    // was added or because it was loaded with the post, before it is stored. Accepts a function that receives the
+    // reaction as an argument.
+    //
+    // To hide the reaction, return
+    //     {hide: true}
+    // To modify or allow the reaction without modification, return an object containing the reaction such as
+    //     {reaction: {...}}
+    //
+    // The hook must be synchronous.
+    // Returns a unique identifier.
+    registerReactionWillBeAddedHook(hook: ReactionWillBeAddedHook) {
+        const id = generateId();
+
+        store.dispatch({
+            type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
+            name: 'ReactionWillBeAdded',
+            data: {
+                id,
+                pluginId: this.id,
+                hook: wrapPluginHook(this.id, 'ReactionWillBeAdded', hook, noHookResult),
+            },
+        });
+
+        return id;
+    }
+
+    // Register a tab in the Settings modal where users change settings of the plugin which are saved for them.
+    // Accepts the following:
+    // - section - An object with the following properties:
+    //     title - A string shown in the list of tabs and as the header of the tab
+    //     icon - Optional class name of the icon shown next to the title in the list of tabs
+    //     settings - An array of the settings shown in the tab. Each setting has a name identifying it which can't be
+    //     longer than 32 characters, a type ("bool", "text", "number", "dropdown" or "radio"), a title, and an
+    //     optional helpText, placeholder, default value and options to pick from for dropdown and radio settings.
+    // Settings are saved as the user's preferences and are strings, with bool settings being "true" or "false".
+    // Returns:
+    // - id: a unique identifier
+    // - getSetting: a selector which is given the state and the name of a setting and returns its value for the
+    //   current user, or its default if they haven't changed it
+    registerUserSettingsSection(section: PluginUserSettingsSection): UserSettingsSectionRegistration {
+        const id = generateId();
+
+        store.dispatch({
+            type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
+            name: 'UserSettings',
+            data: {
+                id,
+                pluginId: this.id,
+                section,
+            },
+        });
+
+        const getSetting = (state: unknown, name: string) => {
+            const setting = section.settings.find((s) => s.name === name);
+            return getPluginUserSetting(state as GlobalState, this.id, name, setting?.default);
+        };
+
+        return {id, getSetting};
+    }
+
+    // Register a button in the toolbar of the message composer, shown both below the center channel and in threads.
+    // Accepts the following:
+    // - icon - JSX element to use as the button's icon
+    // - tooltipText - A string or JSX element shown when hovering over the button
+    // - action - A function called when the button is clicked. It receives an object with the following properties
+    //   to read and change the message which the user is writing:
+    //     channelId, rootId - where the message will be posted, with rootId being empty outside of a thread
+    //     getText(), setText(text) - get and replace the whole message
+    //     getSelection(), setSelection(start, end) - get and set the selected part of the message as offsets into it,
+    //     with the caret being a selection whose start and end are the same. end defaults to start.
+    //     insertText(text) - replace the selection with text and move the caret after it
+    //     attachFiles(files) - upload an array of files as attachments of the message
+    // Returns a unique identifier.
+    registerComposerAction(icon: React.ReactElement, tooltipText: PluginContent, action: ComposerAction) {
+        const id = generateId();
+
+        store.dispatch({
+            type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
+            name: 'ComposerAction',
+            data: {
+                id,
+                pluginId: this.id,
+                icon,
+                tooltipText,
+                action,
+            },
+        });
+
+        return id;
+    }
+
+    // Register an extension to the Markdown formatting of messages.
+    // Accepts one of the following:
+    // - {type: 'inline', pattern, render} - Replaces each match of the regular expression pattern in the text of a
+    //   message with the HTML returned by render, which is given the match. The text has already been escaped as
+    //   HTML, so render must escape anything from the match which it adds back. Code, links and other formatting
+    //   aren't matched. Returning nothing leaves the match as it is.
+    // - {type: 'codeBlock', language, render} - Renders code blocks of the language as the HTML returned by render,
+    //   which is given the unescaped code. Returning nothing renders the code block as usual.
+    // Returns a unique identifier.
+    registerMarkdownExtension(extension: MarkdownExtension) {
+        const id = generateId();
+
+        // Both kinds of extension render nothing when they fail so that the text is formatted as usual
+        let wrappedExtension: MarkdownExtension;
+        if (extension.type === 'inline') {
+            wrappedExtension = {...extension, render: wrapPluginHook(this.id, 'MarkdownExtension', extension.render, noHookResult)};
+        } else {
+            wrappedExtension = {...extension, render: wrapPluginHook(this.id, 'MarkdownExtension', extension.render, noHookResult)};
+        }
+
+        store.dispatch({
+            type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
+            name: 'MarkdownExtension',
+            data: {
+                id,
+                pluginId: this.id,
+                extension: wrappedExtension,
             },
         });
 
         return id;
     }
 
+    // Register a keyboard shortcut which users can rebind or disable in their Advanced settings.
+    // Accepts the following:
+    // - id - A string which identifies the shortcut among those of the plugin. It must not change between versions
+    //   since it's used to store the chord chosen by the user.
+    // - description - A string describing the shortcut in the Keyboard Shortcuts modal and in the settings
+    // - defaultChord - A string with the modifiers and key which trigger the shortcut unless the user changes them,
+    //   joined by "+" such as "mod+shift+P". The modifiers are "mod" (Cmd on macOS and Ctrl elsewhere), "ctrl",
+    //   "alt" and "shift", and the key is the name of one of Constants.KeyCodes.
+    // - action - A function called when the shortcut is pressed
+    // Returns a unique identifier.
+    registerKeyboardShortcut(id: string, description: string, defaultChord: string, action: () => void) {
+        const componentId = generateId();
+
+        store.dispatch({
+            type: ActionTypes.RECEIVED_PLUGIN_COMPONENT,
+            name: 'KeyboardShortcut',
+            data: {
+                id: componentId,
+                pluginId: this.id,
+                shortcutId: `plugin.${this.id}.${id}`,
+                text: description,
+                defaultChord,
+                action,
+            },
+        });
+
+        return componentId;
+    }
+
     // INTERNAL: Subject to change without notice.
     // Register a component to render in the LHS next to a channel's link label.
     // All parameters are required.
     // Returns a unique identifier.
-    registerSidebarChannelLinkLabelComponent(component) {
+    registerSidebarChannelLinkLabelComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('SidebarChannelLinkLabel', this.id, component);
     }
 
@@ -781,7 +1055,7 @@ export default class PluginRegistry {
     // Register a component to render in channel's center view, in place of a channel toast.
     // All parameters are required.
     // Returns a unique identifier.
-    registerChannelToastComponent(component) {
+    registerChannelToastComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('ChannelToast', this.id, component);
     }
 
@@ -789,7 +1063,7 @@ export default class PluginRegistry {
     // Register a global component at the root of the app that survives across product switches.
     // All parameters are required.
     // Returns a unique identifier.
-    registerGlobalComponent(component) {
+    registerGlobalComponent(component: React.ComponentType) {
         return dispatchPluginComponentAction('Global', this.id, component);
     }
 
@@ -800,7 +1074,7 @@ export default class PluginRegistry {
     // - action - A function called when the button is clicked, passed the channel and channel member as arguments
     // - tooltip_text - A string or React element shown for tooltip appear on hover
     // Returns a unique identifier.
-    registerAppBarComponent(iconUrl, action, tooltipText) {
+    registerAppBarComponent(iconUrl: string, action: ChannelHeaderButtonAction, tooltipText: DeprecatedPluginContent) {
         const id = generateId();
 
         const data = {
@@ -808,7 +1082,7 @@ export default class PluginRegistry {
             pluginId: this.id,
             iconUrl,
             action,
-            tooltipText: resolveReactElement(tooltipText),
+            tooltipText: this.resolveReactElement(tooltipText),
         };
 
         store.dispatch({
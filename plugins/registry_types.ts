@@ -0,0 +1,461 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+// This file describes the API that the web app gives to plugins. `npm run build-plugin-types` generates TypeScript
+// declarations from it in dist/plugin_types, which aren't published anywhere yet, so it must only import types which
+// a plugin type-checking against those declarations could resolve itself.
+
+import type React from 'react';
+import type {Reducer} from 'redux';
+
+import type {ActionFunc} from 'mattermost-redux/types/actions';
+import type {AdminConfig} from 'mattermost-redux/types/config';
+import type {Channel, ChannelMembership} from 'mattermost-redux/types/channels';
+import type {FileInfo} from 'mattermost-redux/types/files';
+import type {Post, PostEmbed} from 'mattermost-redux/types/posts';
+import type {Reaction} from 'mattermost-redux/types/reactions';
+import type {WebSocketMessage} from 'mattermost-redux/types/websocket';
+
+// PLUGIN_REGISTRY_API_VERSION is the newest version of the registry API which this web app supports. Plugins
+// declare the version that they were built against as the registryApiVersion of the plugin which they pass to
+// window.registerPlugin, and plugins which don't are given version 1. The version isn't read from the plugin's manifest
+// since the server only sends the web app the parts of the manifest that it needs to load the plugin's bundle.
+//
+// Using something after the version in which it was deprecated logs a warning regardless of the version which the
+// plugin targets.
+// Version 2 deprecates passing a component where a React element or a string is expected.
+// Version 3 adds registerMessageWillBeReceivedHook and registerReactionWillBeAddedHook.
+// Version 4 adds registerUserSettingsSection.
+// Version 5 adds registerComposerAction and registerMarkdownExtension.
+export const PLUGIN_REGISTRY_API_VERSION = 5;
+
+// PluginContent is shown as the text or icon of something registered by a plugin. Plugins may also pass a component
+// which is rendered without props, but that's deprecated as of version 2 of the registry API.
+export type PluginContent = React.ReactElement | string;
+export type DeprecatedPluginContent = PluginContent | React.ComponentType;
+
+export type PostTypeComponentProps = {
+    post: Post;
+    compactDisplay?: boolean;
+    isRHS: boolean;
+    theme: Record<string, string>;
+};
+
+export type FilePreviewComponentProps = {
+    fileInfo: FileInfo;
+    post?: Post;
+};
+
+export type PostWillRenderEmbedComponentProps = {
+    embed: PostEmbed;
+};
+
+export type AdminConsoleCustomSettingProps = {
+    id: string;
+    label: React.ReactNode;
+    helpText: React.ReactNode;
+    value: unknown;
+    disabled: boolean;
+    config: Partial<AdminConfig>;
+    license: Record<string, string>;
+    setByEnv: boolean;
+    onChange: (id: string, value: unknown) => void;
+    registerSaveAction: (saveAction: () => Promise<{error?: {message: string}}>) => void;
+    unRegisterSaveAction: (saveAction: () => Promise<{error?: {message: string}}>) => void;
+    setSaveNeeded: () => void;
+    cancelSubmit: () => void;
+    showConfirm: boolean;
+};
+
+export type AdminConsoleCustomSettingOptions = {
+
+    // showTitle shows the display_name of the setting on the left like other settings, with the component on the right
+    showTitle?: boolean;
+};
+
+export type ChannelHeaderButtonAction = (channel: Channel, channelMember: ChannelMembership) => void;
+
+// PostDropdownSubMenuRegistrar registers an item in a submenu of the post dropdown menu. Only one level of nesting
+// is allowed, so calling the function that it returns throws.
+export type PostDropdownSubMenuRegistrar = (
+    text: PluginContent,
+    action?: (postId: string) => void,
+    filter?: (postId: string) => boolean,
+) => PostDropdownSubMenuRegistrar;
+
+export type RightHandSidebarRegistration = {
+    id: string;
+
+    // These are actions which the plugin dispatches to open, close and toggle its RHS
+    showRHSPlugin: {type: string; state: string; pluggableId: string};
+    hideRHSPlugin: ActionFunc;
+    toggleRHSPlugin: ActionFunc;
+};
+
+export type PluginUserSettingOption = {
+    text: string;
+    value: string;
+};
+
+// PluginUserSetting describes a setting which users change in a section of the settings tab of a plugin. Settings are
+// saved as strings, with bool settings saved as "true" or "false".
+export type PluginUserSetting = {
+
+    // name identifies the setting among those of the plugin. It can't be longer than 32 characters.
+    name: string;
+    type: 'bool' | 'text' | 'number' | 'dropdown' | 'radio';
+    title: string;
+    helpText?: string;
+    placeholder?: string;
+
+    // default is the value of the setting until the user changes it
+    default?: string;
+
+    // options are the values which the user picks from for dropdown and radio settings
+    options?: PluginUserSettingOption[];
+};
+
+export type PluginUserSettingsSection = {
+
+    // title is shown in the list of tabs and as the header of the tab
+    title: string;
+
+    // icon is the class name of the icon shown next to the title in the list of tabs
+    icon?: string;
+    settings: PluginUserSetting[];
+};
+
+export type UserSettingsSectionRegistration = {
+    id: string;
+
+    // getSetting is a selector which returns the value of one of the settings of the section for the current user
+    getSetting: (state: unknown, name: string) => string;
+};
+
+export type HookError = {
+    error: {
+        message: string;
+    };
+};
+
+// FilesWillUploadHook is called with the files which the user is uploading and a function which uploads files later.
+// It returns files set to the files to upload or to null to reject all of them, and a message to show to the user.
+export type FilesWillUploadHook = (files: File[], upload: (files: File[]) => void) => {
+    message?: string | null;
+    files?: File[] | null;
+};
+
+// MessageWillBePostedHook returns the post to send to the server, or an error to reject it. Posting waits for a hook
+// which returns a promise.
+export type MessageWillBePostedResult = {post: Post} | HookError;
+export type MessageWillBePostedHook = (post: Post) => MessageWillBePostedResult | Promise<MessageWillBePostedResult>;
+
+export type SlashCommandArgs = {
+    channel_id: string;
+    team_id: string;
+    root_id?: string;
+};
+
+// SlashCommandWillBePostedHook returns the command to send to the server, an error to reject it or an empty object
+// to consume it without showing an error.
+export type SlashCommandWillBePostedResult = {message: string; args: SlashCommandArgs} | HookError | Record<string, never>;
+export type SlashCommandWillBePostedHook = (
+    message: string,
+    args: SlashCommandArgs,
+) => SlashCommandWillBePostedResult | Promise<SlashCommandWillBePostedResult>;
+
+// MessageWillBeUpdatedHook is like MessageWillBePostedHook for a post which the user edited. It's also given the post
+// from before it was edited.
+export type MessageWillBeUpdatedHook = (post: Post, oldPost: Post) => MessageWillBePostedResult | Promise<MessageWillBePostedResult>;
+
+// MessageWillFormatHook is given the post and its message as changed by the hooks of other plugins, and returns the
+// message to format as Markdown.
+export type MessageWillFormatHook = (post: Post, message: string) => string;
+
+// HiddenResult is returned by a hook to keep something received from the server out of the app
+export type HiddenResult = {
+    hide: true;
+};
+
+// MessageWillBeReceivedHook is called with a post which was posted, edited or loaded before it's stored. It returns
+// the post to store, which may be changed or annotated through its props, or hides it. Returning nothing, or no post,
+// keeps it as it is. A hidden edit keeps the post from before it was edited. Hooks must be synchronous so that posts
+// are stored in the order that they arrive.
+export type MessageWillBeReceivedHook = (post: Post) => {post?: Post} | HiddenResult | void;
+
+// ReactionWillBeAddedHook is called with a reaction which was added to a post or loaded with it before it's stored.
+// It returns the reaction to store or hides it. Hooks must be synchronous.
+export type ReactionWillBeAddedHook = (reaction: Reaction) => {reaction?: Reaction} | HiddenResult | void;
+
+// ComposerAPI is given to a composer action to read and change the message which the user is writing. Positions are
+// offsets into the text, and the caret is a selection which starts and ends at the same position.
+export type ComposerAPI = {
+
+    // channelId and rootId are where the message will be posted, with rootId being empty outside of a thread
+    channelId: string;
+    rootId: string;
+    getText: () => string;
+    setText: (text: string) => void;
+    getSelection: () => {start: number; end: number};
+    setSelection: (start: number, end?: number) => void;
+
+    // insertText replaces the selected text and moves the caret to the end of what was inserted
+    insertText: (text: string) => void;
+
+    // attachFiles uploads files as attachments of the message after running the FilesWillUploadHooks
+    attachFiles: (files: File[]) => void;
+};
+
+export type ComposerAction = (composer: ComposerAPI) => void;
+
+// InlineMarkdownExtension replaces what its pattern matches in the text of a message with HTML. The pattern is matched
+// against text which has already been escaped as HTML and never against code, so render must escape any text from
+// the message which it adds back. Returning nothing leaves the match as it is.
+export type InlineMarkdownExtension = {
+    type: 'inline';
+    pattern: RegExp;
+    render: (match: RegExpMatchArray) => string | void;
+};
+
+// CodeBlockMarkdownExtension renders the code blocks of its language as HTML. The code isn't escaped. Returning
+// nothing renders the code block as usual.
+export type CodeBlockMarkdownExtension = {
+    type: 'codeBlock';
+    language: string;
+    render: (code: string) => string | void;
+};
+
+export type MarkdownExtension = InlineMarkdownExtension | CodeBlockMarkdownExtension;
+
+// PluginRegistryAPI is the registry which the web app passes to the initialize function of every plugin. The
+// functions which register something return an ID which is passed to unregisterComponent to remove it.
+export interface PluginRegistryAPI {
+
+    // apiVersion is the version of the registry API used by this plugin after comparing the registryApiVersion that it
+    // declared when registering itself with PLUGIN_REGISTRY_API_VERSION
+    readonly apiVersion: number;
+
+    // Register a component at the root of the channel view of the app.
+    registerRootComponent(component: React.ComponentType): string;
+
+    // Register a component in the user attributes section of the profile popover (hovercard), below the default user attributes.
+    registerPopoverUserAttributesComponent(component: React.ComponentType): string;
+
+    // Register a component in the user actions of the profile popover (hovercard), below the default actions.
+    registerPopoverUserActionsComponent(component: React.ComponentType): string;
+
+    // Register a component fixed to the top of the left-hand channel sidebar.
+    registerLeftSidebarHeaderComponent(component: React.ComponentType): string;
+
+    // Register a component fixed to the bottom of the team sidebar. Does not render if user is only on one team and
+    // the team sidebar is not shown.
+    registerBottomTeamSidebarComponent(component: React.ComponentType): string;
+
+    // Register a component fixed to the bottom of the post message.
+    registerPostMessageAttachmentComponent(component: React.ComponentType): string;
+
+    // Register a component to show as a tooltip when a user hovers on a link in a post.
+    registerLinkTooltipComponent(component: React.ComponentType): string;
+
+    // Add a button to the channel header. If there are more than one buttons registered by any plugin, a dropdown
+    // menu is created to contain all the plugin buttons.
+    registerChannelHeaderButtonAction(
+        icon: DeprecatedPluginContent,
+        action: ChannelHeaderButtonAction,
+        dropdownText: DeprecatedPluginContent,
+        tooltipText: DeprecatedPluginContent,
+    ): string;
+
+    // Add a "call button" next to the attach file button. If there are more than one button registered by any
+    // plugin, a dropdown menu is created to contain all the call plugin buttons.
+    // Minimum required version: 5.28
+    registerCallButtonAction(
+        icon: DeprecatedPluginContent,
+        action: ChannelHeaderButtonAction,
+        dropdownText: DeprecatedPluginContent,
+        tooltipText: string,
+    ): string;
+
+    // Register a component to render a custom body for posts with a specific type. Custom post types must be
+    // prefixed with 'custom_' and can also apply for ephemeral posts.
+    registerPostTypeComponent(type: string, component: React.ComponentType<PostTypeComponentProps>): string;
+
+    // Register a component to render a custom body for post cards with a specific type. Custom post types must be
+    // prefixed with 'custom_'.
+    registerPostCardTypeComponent(type: string, component: React.ComponentType<PostTypeComponentProps>): string;
+
+    // Register a component to render a custom embed preview for post links. match is given the embed of a post
+    // and returns whether the plugin renders it, and toggleable makes the embed collapsible.
+    registerPostWillRenderEmbedComponent(
+        match: (embed: PostEmbed) => boolean,
+        component: React.ComponentType<PostWillRenderEmbedComponentProps>,
+        toggleable: boolean,
+    ): string;
+
+    // Register a main menu list item by providing some text and an action function.
+    registerMainMenuAction(text: DeprecatedPluginContent, action: () => void, mobileIcon?: DeprecatedPluginContent): string;
+
+    // Register a channel menu list item by providing some text and a function which is given the channel ID.
+    registerChannelHeaderMenuAction(text: DeprecatedPluginContent, action: (channelId: string) => void): string;
+
+    // Register a files dropdown list item for the files which match returns true for.
+    registerFileDropdownMenuAction(
+        match: (fileInfo: FileInfo) => boolean,
+        text: DeprecatedPluginContent,
+        action: (fileInfo: FileInfo) => void,
+    ): string;
+
+    // Register a post menu list item for the posts which filter returns true for.
+    registerPostDropdownMenuAction(
+        text: DeprecatedPluginContent,
+        action: (postId: string) => void,
+        filter?: (postId: string) => boolean,
+    ): string;
+
+    // Register a post menu list item with a submenu. Returns its ID along with a function to register the items of
+    // the submenu.
+    registerPostDropdownSubMenuAction(
+        text: DeprecatedPluginContent,
+        action?: (postId: string) => void,
+        filter?: (postId: string) => boolean,
+    ): {id: string; rootRegisterMenuItem: PostDropdownSubMenuRegistrar};
+
+    // Register a component at the bottom of the post dropdown menu.
+    registerPostDropdownMenuComponent(component: React.ComponentType): string;
+
+    // Register a file upload method by providing some text, an icon, and an action function.
+    registerFileUploadMethod(icon: React.ReactElement, action: (checkPluginHooksAndUploadFiles: (files: File[]) => void) => void, text: PluginContent): string;
+
+    // Register a hook to intercept file uploads before they take place.
+    registerFilesWillUploadHook(hook: FilesWillUploadHook): string;
+
+    // Unregister a component, action or hook using the unique identifier returned after registration.
+    unregisterComponent(componentId: string): void;
+
+    // Unregister a component that provided a custom body for posts with a specific type.
+    unregisterPostTypeComponent(componentId: string): void;
+
+    // Register a reducer against the Redux store. It will be accessible in redux state under
+    // "state['plugins-<yourpluginid>']"
+    registerReducer(reducer: Reducer): void;
+
+    // Register a handler for WebSocket events. Events sent by plugins have "custom_<pluginid>_" prepended.
+    registerWebSocketEventHandler(event: string, handler: (msg: WebSocketMessage<any>) => void): void;
+
+    // Unregister a handler for a custom WebSocket event.
+    unregisterWebSocketEventHandler(event: string): void;
+
+    // Register a handler that will be called when the app reconnects to the internet after previously disconnecting.
+    registerReconnectHandler(handler: () => void): void;
+
+    // Unregister a previously registered reconnect handler.
+    unregisterReconnectHandler(): void;
+
+    // Register a hook that will be called when a message is posted by the user before it is sent to the server.
+    registerMessageWillBePostedHook(hook: MessageWillBePostedHook): string;
+
+    // Register a hook that will be called when a slash command is posted by the user before it is sent to the server.
+    registerSlashCommandWillBePostedHook(hook: SlashCommandWillBePostedHook): string;
+
+    // Register a hook that will be called before a message is formatted into Markdown.
+    registerMessageWillFormatHook(hook: MessageWillFormatHook): string;
+
+    // Register a component to override file previews for the files which override returns true for. Only one
+    // plugin can override a file preview at a time, ordered alphabetically by plugin ID.
+    registerFilePreviewComponent(
+        override: (fileInfo: FileInfo, post?: Post) => boolean,
+        component: React.ComponentType<FilePreviewComponentProps>,
+    ): string;
+
+    // Register a function which returns the translations of the plugin for a locale.
+    registerTranslations(getTranslationsForLocale: (locale: string) => Record<string, string>): void;
+
+    // Register a function which is given the admin console definitions and returns a new version of them. This is a
+    // low-level interface which may change in the future.
+    registerAdminConsolePlugin(func: (adminDefinition: Record<string, unknown>) => Record<string, unknown>): void;
+
+    // Register a custom React component to manage the plugin configuration for the given setting key.
+    registerAdminConsoleCustomSetting(
+        key: string,
+        component: React.ComponentType<AdminConsoleCustomSettingProps>,
+        options?: AdminConsoleCustomSettingOptions,
+    ): void;
+
+    // Unregister a previously registered admin console definition override function.
+    unregisterAdminConsolePlugin(): void;
+
+    // Register a Right-Hand Sidebar component by providing a title for the right hand component.
+    registerRightHandSidebarComponent(component: React.ComponentType, title: PluginContent): RightHandSidebarRegistration;
+
+    // Register a Needs Team component by providing a route past /:team/:pluginId/ to be displayed at.
+    registerNeedsTeamRoute(route: string, component: React.ComponentType): string;
+
+    // Register a component to be displayed at a custom route under /plug/:pluginId
+    registerCustomRoute(route: string, component: React.ComponentType): string;
+
+    // INTERNAL: Subject to change without notice.
+    // Register a global header menu item and the components shown while its route is active.
+    registerProduct(
+        baseURL: string,
+        switcherIcon: string,
+        switcherText: DeprecatedPluginContent,
+        switcherLinkURL: string,
+        mainComponent: React.ComponentType,
+        headerCentreComponent?: React.ComponentType,
+        headerRightComponent?: React.ComponentType,
+        showTeamSidebar?: boolean,
+    ): string;
+
+    // Register a hook that will be called when a message is edited by the user before it is sent to the server.
+    registerMessageWillBeUpdatedHook(hook: MessageWillBeUpdatedHook): string;
+
+    // Register a hook that will be called when a post is received from the server before it is stored.
+    // Minimum registry API version: 3
+    registerMessageWillBeReceivedHook(hook: MessageWillBeReceivedHook): string;
+
+    // Register a hook that will be called when a reaction is received from the server before it is stored.
+    // Minimum registry API version: 3
+    registerReactionWillBeAddedHook(hook: ReactionWillBeAddedHook): string;
+
+    // Register a tab in the Settings modal with a section for each of the given settings.
+    // Minimum registry API version: 4
+    registerUserSettingsSection(section: PluginUserSettingsSection): UserSettingsSectionRegistration;
+
+    // Register a button in the toolbar of the message composer of the center channel and of threads.
+    // Minimum registry API version: 5
+    registerComposerAction(icon: React.ReactElement, tooltipText: PluginContent, action: ComposerAction): string;
+
+    // Register a tokenizer and renderer for Markdown syntax in messages, or a renderer for the code blocks of a
+    // language.
+    // Minimum registry API version: 5
+    registerMarkdownExtension(extension: MarkdownExtension): string;
+
+    // Register a keyboard shortcut which users can rebind or disable in their Advanced settings. defaultChord is
+    // the modifiers and key joined by "+" such as "mod+shift+P".
+    registerKeyboardShortcut(id: string, description: string, defaultChord: string, action: () => void): string;
+
+    // INTERNAL: Subject to change without notice.
+    // Register a component to render in the LHS next to a channel's link label.
+    registerSidebarChannelLinkLabelComponent(component: React.ComponentType): string;
+
+    // INTERNAL: Subject to change without notice.
+    // Register a component to render in channel's center view, in place of a channel toast.
+    registerChannelToastComponent(component: React.ComponentType): string;
+
+    // INTERNAL: Subject to change without notice.
+    // Register a global component at the root of the app that survives across product switches.
+    registerGlobalComponent(component: React.ComponentType): string;
+
+    // INTERNAL: Subject to change without notice.
+    // Add a component to the App Bar.
+    registerAppBarComponent(iconUrl: string, action: ChannelHeaderButtonAction, tooltipText: DeprecatedPluginContent): string;
+}
+
+// Plugin is what a plugin passes to window.registerPlugin
+export interface Plugin {
+    // registryApiVersion is the version of the registry API which the plugin was built against
+    registryApiVersion?: number;
+
+    initialize?(registry: PluginRegistryAPI, store: unknown): void | Promise<void>;
+    uninitialize?(): void;
+}
@@ -0,0 +1,80 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import pluginsReducer from 'reducers/plugins';
+
+import {ActionTypes, Constants} from 'utils/constants';
+
+describe('Reducers.Plugins', () => {
+    describe('health', () => {
+        const renderError = {
+            type: ActionTypes.RECEIVED_PLUGIN_RENDER_ERROR,
+            data: {
+                pluginId: 'com.example',
+                error: {name: 'Root', message: 'broken', time: 1000},
+            },
+        };
+
+        test('should record load errors', () => {
+            const state = pluginsReducer(undefined, {
+                type: ActionTypes.RECEIVED_PLUGIN_LOAD_ERROR,
+                data: {pluginId: 'com.example', message: 'Unable to load bundle'},
+            });
+
+            expect(state.health['com.example'].loadError).toBe('Unable to load bundle');
+        });
+
+        test('should disable the components of a plugin which crashes too often', () => {
+            let state = pluginsReducer(undefined, renderError);
+            expect(state.health['com.example'].renderErrors).toEqual([renderError.data.error]);
+            expect(state.health['com.example'].disabled).toBe(false);
+
+            for (let i = 1; i < Constants.MAX_PLUGIN_RENDER_ERRORS; i++) {
+                state = pluginsReducer(state, renderError);
+            }
+            expect(state.health['com.example'].crashes).toBe(Constants.MAX_PLUGIN_RENDER_ERRORS);
+            expect(state.health['com.example'].disabled).toBe(true);
+
+            state = pluginsReducer(state, {type: ActionTypes.ENABLED_PLUGIN_COMPONENTS, data: 'com.example'});
+            expect(state.health['com.example'].crashes).toBe(0);
+            expect(state.health['com.example'].disabled).toBe(false);
+            expect(state.health['com.example'].renderErrors).toHaveLength(Constants.MAX_PLUGIN_RENDER_ERRORS);
+        });
+
+        test('should only keep the most recent errors', () => {
+            let state = pluginsReducer(undefined, renderError);
+            for (let i = 1; i <= Constants.MAX_PLUGIN_ERRORS_KEPT; i++) {
+                state = pluginsReducer(state, {...renderError, data: {...renderError.data, error: {...renderError.data.error, time: 1000 + i}}});
+            }
+
+            const errors = state.health['com.example'].renderErrors;
+            expect(errors).toHaveLength(Constants.MAX_PLUGIN_ERRORS_KEPT);
+            expect(errors[errors.length - 1].time).toBe(1000 + Constants.MAX_PLUGIN_ERRORS_KEPT);
+        });
+
+        test('should add up the timings and errors of hooks', () => {
+            const state = pluginsReducer(undefined, {
+                type: ActionTypes.RECEIVED_PLUGIN_HOOK_RESULTS,
+                data: [
+                    {pluginId: 'com.example', name: 'MessageWillFormat', duration: 2},
+                    {pluginId: 'com.example', name: 'MessageWillFormat', duration: 4},
+                    {pluginId: 'com.example', name: 'MessageWillBePosted', duration: 1, error: {name: 'MessageWillBePosted', message: 'broken', time: 1000}},
+                ],
+            });
+
+            expect(state.health['com.example'].hookTimings).toEqual({
+                MessageWillFormat: {count: 2, totalTime: 6, maxTime: 4},
+                MessageWillBePosted: {count: 1, totalTime: 1, maxTime: 1},
+            });
+            expect(state.health['com.example'].hookErrors).toEqual([{name: 'MessageWillBePosted', message: 'broken', time: 1000}]);
+            expect(state.health['com.example'].disabled).toBe(false);
+        });
+
+        test('should forget the health of a plugin when it is removed', () => {
+            let state = pluginsReducer(undefined, renderError);
+            state = pluginsReducer(state, {type: ActionTypes.REMOVED_WEBAPP_PLUGIN, data: {id: 'com.example'}});
+
+            expect(state.health).toEqual({});
+        });
+    });
+});
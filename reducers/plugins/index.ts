@@ -9,9 +9,17 @@ import type {GenericAction} from 'mattermost-redux/types/actions';
 import {IDMappedObjects} from 'mattermost-redux/types/utilities';
 import {ClientPluginManifest} from 'mattermost-redux/types/plugins';
 
-import type {PluginsState, PluginComponent, AdminConsolePluginComponent, Menu} from 'types/store/plugins';
-
-import {ActionTypes} from 'utils/constants';
+import type {
+    PluginsState,
+    PluginComponent,
+    AdminConsolePluginComponent,
+    Menu,
+    PluginError,
+    PluginHealth,
+    PluginHookResult,
+} from 'types/store/plugins';
+
+import {ActionTypes, Constants} from 'utils/constants';
 
 function hasMenuId(menu: Menu|PluginComponent, menuId: string) {
     if (!menu.subMenu) {
@@ -339,6 +347,92 @@ function adminConsoleCustomComponents(state: {[pluginId: string]: Record<string,
     }
 }
 
+const initialHealth: PluginHealth = {
+    loadError: '',
+    renderErrors: [],
+    hookErrors: [],
+    hookTimings: {},
+    crashes: 0,
+    disabled: false,
+};
+
+function addPluginError(errors: PluginError[], error: PluginError) {
+    return [...errors, error].slice(-Constants.MAX_PLUGIN_ERRORS_KEPT);
+}
+
+function addPluginHookResult(health: PluginHealth, result: PluginHookResult): PluginHealth {
+    const timing = health.hookTimings[result.name] || {count: 0, totalTime: 0, maxTime: 0};
+
+    return {
+        ...health,
+        hookErrors: result.error ? addPluginError(health.hookErrors, result.error) : health.hookErrors,
+        hookTimings: {
+            ...health.hookTimings,
+            [result.name]: {
+                count: timing.count + 1,
+                totalTime: timing.totalTime + result.duration,
+                maxTime: Math.max(timing.maxTime, result.duration),
+            },
+        },
+    };
+}
+
+function health(state: PluginsState['health'] = {}, action: GenericAction) {
+    switch (action.type) {
+    case ActionTypes.RECEIVED_PLUGIN_LOAD_ERROR: {
+        const {pluginId, message} = action.data;
+
+        return {
+            ...state,
+            [pluginId]: {...(state[pluginId] || initialHealth), loadError: message},
+        };
+    }
+    case ActionTypes.RECEIVED_PLUGIN_RENDER_ERROR: {
+        const {pluginId, error} = action.data;
+        const current = state[pluginId] || initialHealth;
+        const crashes = current.crashes + 1;
+
+        return {
+            ...state,
+            [pluginId]: {
+                ...current,
+                renderErrors: addPluginError(current.renderErrors, error),
+                crashes,
+                disabled: crashes >= Constants.MAX_PLUGIN_RENDER_ERRORS,
+            },
+        };
+    }
+    case ActionTypes.RECEIVED_PLUGIN_HOOK_RESULTS: {
+        const nextState = {...state};
+        for (const result of action.data as PluginHookResult[]) {
+            nextState[result.pluginId] = addPluginHookResult(nextState[result.pluginId] || initialHealth, result);
+        }
+        return nextState;
+    }
+    case ActionTypes.ENABLED_PLUGIN_COMPONENTS: {
+        if (!state[action.data]) {
+            return state;
+        }
+
+        return {
+            ...state,
+            [action.data]: {...state[action.data], crashes: 0, disabled: false},
+        };
+    }
+    case ActionTypes.REMOVED_WEBAPP_PLUGIN: {
+        if (!action.data || !state[action.data.id]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, action.data.id);
+        return nextState;
+    }
+    default:
+        return state;
+    }
+}
+
 export default combineReducers({
 
     // object where every key is a plugin id and values are webapp plugin manifests
@@ -363,4 +457,8 @@ export default combineReducers({
     // objects where every key is a plugin id and the value is an object mapping keys to a custom
     // React component to render on the plugin's system console.
     adminConsoleCustomComponents,
+
+    // object where every key is a plugin id and the value is the errors and hook timings recorded for that plugin
+    // along with whether its components have been disabled for crashing too often
+    health,
 });
@@ -1,7 +1,7 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import {GeneralTypes, UserTypes} from 'mattermost-redux/action_types';
+import {ChannelTypes, GeneralTypes, UserTypes} from 'mattermost-redux/action_types';
 
 import channelReducer from 'reducers/views/channel';
 import {ActionTypes} from 'utils/constants';
@@ -17,6 +17,11 @@ describe('Reducers.channel', () => {
         lastGetPosts: {},
         toastStatus: false,
         channelPrefetchStatus: {},
+        findInChannel: {
+            isOpen: false,
+            terms: '',
+            matchPostId: '',
+        },
     };
 
     test('Initial state', () => {
@@ -101,4 +106,35 @@ describe('Reducers.channel', () => {
             expect(nextState).toEqual(initialState);
         });
     });
+
+    describe('findInChannel', () => {
+        test('should open the bar and keep the terms and match', () => {
+            let nextState = channelReducer(initialState, {type: ActionTypes.OPEN_FIND_IN_CHANNEL});
+            nextState = channelReducer(nextState, {type: ActionTypes.UPDATE_FIND_IN_CHANNEL_TERMS, data: 'release'});
+            nextState = channelReducer(nextState, {type: ActionTypes.SELECT_FIND_IN_CHANNEL_MATCH, data: 'post1'});
+
+            expect(nextState.findInChannel).toEqual({isOpen: true, terms: 'release', matchPostId: 'post1'});
+        });
+
+        test('should clear the match when the terms change', () => {
+            const modifiedState = {
+                ...initialState,
+                findInChannel: {isOpen: true, terms: 'release', matchPostId: 'post1'},
+            };
+
+            const nextState = channelReducer(modifiedState, {type: ActionTypes.UPDATE_FIND_IN_CHANNEL_TERMS, data: 'releases'});
+
+            expect(nextState.findInChannel).toEqual({isOpen: true, terms: 'releases', matchPostId: ''});
+        });
+
+        test('should reset when closed or when switching channels', () => {
+            const modifiedState = {
+                ...initialState,
+                findInChannel: {isOpen: true, terms: 'release', matchPostId: 'post1'},
+            };
+
+            expect(channelReducer(modifiedState, {type: ActionTypes.CLOSE_FIND_IN_CHANNEL}).findInChannel).toEqual(initialState.findInChannel);
+            expect(channelReducer(modifiedState, {type: ChannelTypes.SELECT_CHANNEL, data: 'channel2'}).findInChannel).toEqual(initialState.findInChannel);
+        });
+    });
 });
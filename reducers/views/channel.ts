@@ -6,6 +6,8 @@ import {combineReducers} from 'redux';
 import {ChannelTypes, PostTypes, UserTypes, GeneralTypes} from 'mattermost-redux/action_types';
 import type {GenericAction} from 'mattermost-redux/types/actions';
 
+import type {ViewsState} from 'types/store/views';
+
 import {ActionTypes, Constants} from 'utils/constants';
 
 function postVisibility(state: {[channelId: string]: number} = {}, action: GenericAction) {
@@ -148,6 +150,30 @@ function toastStatus(state = false, action: GenericAction) {
     }
 }
 
+const initialFindInChannel = {
+    isOpen: false,
+    terms: '',
+    matchPostId: '',
+};
+
+// findInChannel is the state of the bar used to find messages in the posts of the current channel which are loaded
+function findInChannel(state: ViewsState['channel']['findInChannel'] = initialFindInChannel, action: GenericAction) {
+    switch (action.type) {
+    case ActionTypes.OPEN_FIND_IN_CHANNEL:
+        return {...state, isOpen: true};
+    case ActionTypes.UPDATE_FIND_IN_CHANNEL_TERMS:
+        return {...state, terms: action.data, matchPostId: ''};
+    case ActionTypes.SELECT_FIND_IN_CHANNEL_MATCH:
+        return {...state, matchPostId: action.data};
+    case ActionTypes.CLOSE_FIND_IN_CHANNEL:
+    case ChannelTypes.SELECT_CHANNEL:
+    case UserTypes.LOGOUT_SUCCESS:
+        return initialFindInChannel;
+    default:
+        return state;
+    }
+}
+
 function channelPrefetchStatus(state: {[channelId: string]: string} = {}, action: GenericAction) {
     switch (action.type) {
     case ActionTypes.PREFETCH_POSTS_FOR_CHANNEL:
@@ -174,4 +200,5 @@ export default combineReducers({
     lastGetPosts,
     toastStatus,
     channelPrefetchStatus,
+    findInChannel,
 });
@@ -19,6 +19,8 @@ describe('Reducers.RHS', () => {
         searchTerms: '',
         searchType: '',
         searchResultsTerms: '',
+        searchResultsSort: 'newest',
+        searchResultsGrouping: 'none',
         pluggableId: '',
         isSearchingFlaggedPost: false,
         isSearchingPinnedPost: false,
@@ -527,6 +529,30 @@ describe('Reducers.RHS', () => {
         });
     });
 
+    test('should set the order of search results', () => {
+        let nextState = rhsReducer(
+            {},
+            {
+                type: ActionTypes.UPDATE_RHS_SEARCH_RESULTS_SORT,
+                sort: 'relevance',
+            },
+        );
+
+        nextState = rhsReducer(
+            nextState,
+            {
+                type: ActionTypes.UPDATE_RHS_SEARCH_RESULTS_GROUPING,
+                grouping: 'channel',
+            },
+        );
+
+        expect(nextState).toEqual({
+            ...initialState,
+            searchResultsSort: 'relevance',
+            searchResultsGrouping: 'channel',
+        });
+    });
+
     test('should mark a reply as highlighted', () => {
         const nextState = rhsReducer(
             {},
@@ -566,6 +592,8 @@ describe('Reducers.RHS', () => {
             searchTerms: 'user_id',
             searchType: '',
             searchResultsTerms: 'user id',
+            searchResultsSort: 'newest',
+            searchResultsGrouping: 'none',
             pluggableId: 'pluggable_id',
             isSearchingFlaggedPost: true,
             isSearchingPinnedPost: true,
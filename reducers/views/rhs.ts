@@ -10,7 +10,7 @@ import {
 } from 'mattermost-redux/action_types';
 import type {GenericAction} from 'mattermost-redux/types/actions';
 
-import type {RhsState} from 'types/store/rhs';
+import type {RhsState, SearchResultsGrouping, SearchResultsSort} from 'types/store/rhs';
 
 import {ActionTypes, RHSStates} from 'utils/constants';
 
@@ -171,6 +171,24 @@ function searchResultsTerms(state = '', action: GenericAction) {
     }
 }
 
+function searchResultsSort(state: SearchResultsSort = 'newest', action: GenericAction) {
+    switch (action.type) {
+    case ActionTypes.UPDATE_RHS_SEARCH_RESULTS_SORT:
+        return action.sort;
+    default:
+        return state;
+    }
+}
+
+function searchResultsGrouping(state: SearchResultsGrouping = 'none', action: GenericAction) {
+    switch (action.type) {
+    case ActionTypes.UPDATE_RHS_SEARCH_RESULTS_GROUPING:
+        return action.grouping;
+    default:
+        return state;
+    }
+}
+
 function isSearchingFlaggedPost(state = false, action: GenericAction) {
     switch (action.type) {
     case SearchTypes.SEARCH_FLAGGED_POSTS_REQUEST:
@@ -276,6 +294,8 @@ export default combineReducers({
     searchTerms,
     searchType,
     searchResultsTerms,
+    searchResultsSort,
+    searchResultsGrouping,
     pluggableId,
     isSearchingFlaggedPost,
     isSearchingPinnedPost,
@@ -12,6 +12,7 @@ describe('Reducers.Search', () => {
         userGridSearch: {},
         teamListSearch: '',
         channelListSearch: {},
+        savedSearchAlerts: {},
     };
 
     test('Initial state', () => {
@@ -77,4 +78,43 @@ describe('Reducers.Search', () => {
             userGridSearch: {term: 'something', filters: {team_id: '1', channel_roles: ['channel_admin']}},
         });
     });
+
+    test('should count the alerts for a saved search', () => {
+        let nextState = searchReducer(
+            {
+                savedSearchAlerts: {search2: 3},
+            },
+            {
+                type: SearchTypes.RECEIVED_SAVED_SEARCH_ALERT,
+                data: {searchId: 'search1'},
+            },
+        );
+
+        nextState = searchReducer(nextState, {
+            type: SearchTypes.RECEIVED_SAVED_SEARCH_ALERT,
+            data: {searchId: 'search1'},
+        });
+
+        expect(nextState.savedSearchAlerts).toEqual({search1: 2, search2: 3});
+    });
+
+    test('should clear the alerts for a saved search', () => {
+        const state = searchReducer(
+            {
+                savedSearchAlerts: {search1: 2, search2: 3},
+            },
+            {},
+        );
+
+        const nextState = searchReducer(state, {
+            type: SearchTypes.CLEAR_SAVED_SEARCH_ALERTS,
+            data: {searchId: 'search1'},
+        });
+        expect(nextState.savedSearchAlerts).toEqual({search2: 3});
+
+        expect(searchReducer(nextState, {
+            type: SearchTypes.CLEAR_SAVED_SEARCH_ALERTS,
+            data: {searchId: 'search1'},
+        }).savedSearchAlerts).toBe(nextState.savedSearchAlerts);
+    });
 });
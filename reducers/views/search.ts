@@ -94,6 +94,31 @@ function channelListSearch(state: Partial<ViewsState['search']['channelListSearc
     }
 }
 
+// savedSearchAlerts counts the new posts matching each saved search which the user hasn't looked at yet
+function savedSearchAlerts(state: ViewsState['search']['savedSearchAlerts'] = {}, action: GenericAction) {
+    switch (action.type) {
+    case SearchTypes.RECEIVED_SAVED_SEARCH_ALERT: {
+        const {searchId} = action.data;
+        return {
+            ...state,
+            [searchId]: (state[searchId] || 0) + 1,
+        };
+    }
+    case SearchTypes.CLEAR_SAVED_SEARCH_ALERTS: {
+        const {searchId} = action.data;
+        if (!state[searchId]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, searchId);
+        return nextState;
+    }
+    default:
+        return state;
+    }
+}
+
 export default combineReducers({
     modalSearch,
     modalFilters,
@@ -101,4 +126,5 @@ export default combineReducers({
     userGridSearch,
     teamListSearch,
     channelListSearch,
+    savedSearchAlerts,
 });
@@ -5,6 +5,8 @@ import {combineReducers} from 'redux';
 
 import type {GenericAction} from 'mattermost-redux/types/actions';
 
+import type {ConnectionState} from 'client/websocket_client';
+
 import {ActionTypes} from 'utils/constants';
 
 function websocketConnectionErrorCount(state = 0, action: GenericAction) {
@@ -21,6 +23,24 @@ function websocketConnectionErrorCount(state = 0, action: GenericAction) {
     }
 }
 
+const initialConnectionState: ConnectionState = {
+    status: 'closed',
+    latency: null,
+    connectFailCount: 0,
+};
+
+function websocketConnectionState(state = initialConnectionState, action: GenericAction) {
+    switch (action.type) {
+    case ActionTypes.WEBSOCKET_CONNECTION_STATE_CHANGED: {
+        return action.data;
+    }
+    default: {
+        return state;
+    }
+    }
+}
+
 export default combineReducers({
     websocketConnectionErrorCount,
+    websocketConnectionState,
 });
@@ -0,0 +1,104 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {GlobalState} from 'types/store';
+
+import {getDraftCountInCurrentTeam, getDraftsInCurrentTeam} from './drafts';
+
+describe('selectors/drafts', () => {
+    function makeState(storage: Record<string, {value: any; timestamp: Date}>) {
+        return {
+            entities: {
+                teams: {
+                    currentTeamId: 'team1',
+                },
+                channels: {
+                    channels: {
+                        channel1: {id: 'channel1', team_id: 'team1'},
+                        channel2: {id: 'channel2', team_id: 'team2'},
+                        dm: {id: 'dm', team_id: ''},
+                    },
+                },
+                posts: {
+                    posts: {
+                        root1: {id: 'root1', channel_id: 'channel1'},
+                    },
+                },
+            },
+            storage: {
+                storage,
+            },
+        } as unknown as GlobalState;
+    }
+
+    function draft(message: string, extra = {}) {
+        return {message, fileInfos: [], uploadsInProgress: [], ...extra};
+    }
+
+    test('should return channel and thread drafts with the most recently edited first', () => {
+        const state = makeState({
+            draft_channel1: {value: draft('channel draft'), timestamp: new Date(1000)},
+            comment_draft_root1: {value: draft('thread draft'), timestamp: new Date(3000)},
+            draft_dm: {value: draft('dm draft', {updateAt: 2000}), timestamp: new Date(500)},
+        });
+
+        expect(getDraftsInCurrentTeam(state)).toEqual([
+            {key: 'comment_draft_root1', type: 'thread', channelId: 'channel1', rootId: 'root1', value: draft('thread draft'), lastEditedAt: 3000},
+            {key: 'draft_dm', type: 'channel', channelId: 'dm', rootId: '', value: draft('dm draft', {updateAt: 2000}), lastEditedAt: 2000},
+            {key: 'draft_channel1', type: 'channel', channelId: 'channel1', rootId: '', value: draft('channel draft'), lastEditedAt: 1000},
+        ]);
+    });
+
+    test('should skip empty drafts and drafts in other teams', () => {
+        const state = makeState({
+            draft_channel1: {value: draft('  '), timestamp: new Date(1000)},
+            draft_channel2: {value: draft('other team'), timestamp: new Date(1000)},
+            draft_unknown: {value: draft('unknown channel'), timestamp: new Date(1000)},
+            comment_draft_root2: {value: null, timestamp: new Date(1000)},
+            'global-item': {value: 'not a draft', timestamp: new Date(1000)},
+        });
+
+        expect(getDraftsInCurrentTeam(state)).toEqual([]);
+    });
+
+    test('should include drafts with only attachments', () => {
+        const state = makeState({
+            draft_channel1: {value: draft('', {fileInfos: [{id: 'file1'}]}), timestamp: new Date(1000)},
+        });
+
+        expect(getDraftCountInCurrentTeam(state)).toBe(1);
+    });
+
+    test('should include replies whose root post has not been loaded yet', () => {
+        const state = makeState({
+            comment_draft_root2: {value: draft('reply'), timestamp: new Date(1000)},
+        });
+
+        expect(getDraftsInCurrentTeam(state)).toEqual([
+            expect.objectContaining({type: 'thread', channelId: '', rootId: 'root2'}),
+        ]);
+    });
+
+    test('should not recompute the drafts when unrelated posts are loaded', () => {
+        const state = makeState({
+            comment_draft_root1: {value: draft('thread draft'), timestamp: new Date(3000)},
+        });
+        const drafts = getDraftsInCurrentTeam(state);
+
+        const nextState = {
+            ...state,
+            entities: {
+                ...state.entities,
+                posts: {
+                    ...state.entities.posts,
+                    posts: {
+                        ...state.entities.posts.posts,
+                        post2: {id: 'post2', channel_id: 'channel1'},
+                    },
+                },
+            },
+        } as unknown as GlobalState;
+
+        expect(getDraftsInCurrentTeam(nextState)).toBe(drafts);
+    });
+});
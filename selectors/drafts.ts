@@ -0,0 +1,102 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {createSelector} from 'reselect';
+
+import {getAllChannels} from 'mattermost-redux/selectors/entities/channels';
+import {getAllPosts} from 'mattermost-redux/selectors/entities/posts';
+import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
+import {createIdsSelector} from 'mattermost-redux/utils/helpers';
+
+import {StoragePrefixes} from 'utils/constants';
+
+import type {GlobalState} from 'types/store';
+import type {DraftInfo} from 'types/store/drafts';
+import type {PostDraft} from 'types/store/rhs';
+
+function hasContent(draft?: PostDraft | null): draft is PostDraft {
+    return Boolean(draft && (draft.message?.trim() || draft.fileInfos?.length));
+}
+
+// getChannelIdsOfThreadDrafts returns the channel ids of the root posts of thread drafts which weren't synced with the
+// server, by root post id. The result only changes when one of those channel ids does, so that loading other posts
+// doesn't recompute the drafts.
+const getChannelIdsOfThreadDrafts = createIdsSelector(
+    'getChannelIdsOfThreadDrafts',
+    (state: GlobalState) => state.storage.storage,
+    getAllPosts,
+    (storage, posts) => {
+        const channelIds: Record<string, string> = {};
+
+        for (const [key, storedDraft] of Object.entries(storage)) {
+            if (!key.startsWith(StoragePrefixes.COMMENT_DRAFT) || storedDraft?.value?.channelId) {
+                continue;
+            }
+
+            const rootId = key.substring(StoragePrefixes.COMMENT_DRAFT.length);
+            channelIds[rootId] = posts[rootId]?.channel_id || '';
+        }
+
+        return channelIds;
+    },
+);
+
+// getDraftsInCurrentTeam returns every unsent message in a channel or thread of the current team, or in a DM or
+// GM, with the most recently edited one first. The channel of a thread draft which wasn't synced with the server
+// is only known once its root post has been loaded, so those are returned with an empty channel id.
+export const getDraftsInCurrentTeam = createSelector(
+    'getDraftsInCurrentTeam',
+    (state: GlobalState) => state.storage.storage,
+    getAllChannels,
+    getChannelIdsOfThreadDrafts,
+    getCurrentTeamId,
+    (storage, channels, channelIdsOfThreadDrafts, currentTeamId) => {
+        const drafts: DraftInfo[] = [];
+
+        for (const [key, storedDraft] of Object.entries(storage)) {
+            const value: PostDraft | null = storedDraft?.value;
+            if (!hasContent(value)) {
+                continue;
+            }
+
+            let draft: DraftInfo;
+            if (key.startsWith(StoragePrefixes.COMMENT_DRAFT)) {
+                const rootId = key.substring(StoragePrefixes.COMMENT_DRAFT.length);
+
+                draft = {
+                    key,
+                    type: 'thread',
+                    channelId: value.channelId || channelIdsOfThreadDrafts[rootId] || '',
+                    rootId,
+                    value,
+                    lastEditedAt: 0,
+                };
+            } else if (key.startsWith(StoragePrefixes.DRAFT)) {
+                draft = {
+                    key,
+                    type: 'channel',
+                    channelId: key.substring(StoragePrefixes.DRAFT.length),
+                    rootId: '',
+                    value,
+                    lastEditedAt: 0,
+                };
+            } else {
+                continue;
+            }
+
+            const channel = channels[draft.channelId];
+            if (draft.channelId && (!channel || (channel.team_id && channel.team_id !== currentTeamId))) {
+                continue;
+            }
+
+            draft.lastEditedAt = value.updateAt || new Date(storedDraft.timestamp).getTime() || 0;
+            drafts.push(draft);
+        }
+
+        return drafts.sort((a, b) => b.lastEditedAt - a.lastEditedAt);
+    },
+);
+
+export function getDraftCountInCurrentTeam(state: GlobalState) {
+    return getDraftsInCurrentTeam(state).length;
+}
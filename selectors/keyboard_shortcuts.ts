@@ -0,0 +1,50 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {createSelector} from 'reselect';
+
+import {get as getPreference} from 'mattermost-redux/selectors/entities/preferences';
+
+import {Preferences} from 'utils/constants';
+import {BUILT_IN_SHORTCUT_ACTIONS, getShortcutBindings as resolveShortcutBindings, parseShortcutOverrides} from 'utils/keyboard_shortcuts';
+
+import type {GlobalState} from 'types/store';
+import type {ShortcutAction, ShortcutBindings, ShortcutOverrides} from 'types/store/keyboard_shortcuts';
+import type {KeyboardShortcutPluginComponent} from 'types/store/plugins';
+
+// getShortcutOverrides returns the chords which the current user has changed. They're stored as a preference so
+// that they apply on every device.
+export const getShortcutOverrides: (state: GlobalState) => ShortcutOverrides = createSelector(
+    'getShortcutOverrides',
+    (state: GlobalState) => getPreference(state, Preferences.CATEGORY_ADVANCED_SETTINGS, Preferences.KEYBOARD_SHORTCUTS, ''),
+    parseShortcutOverrides,
+);
+
+export const getPluginKeyboardShortcuts = createSelector(
+    'getPluginKeyboardShortcuts',
+    (state: GlobalState) => state.plugins.components.KeyboardShortcut,
+    (components = []) => components as unknown as KeyboardShortcutPluginComponent[],
+);
+
+// getShortcutActions returns the built-in actions followed by those registered by plugins
+export const getShortcutActions: (state: GlobalState) => ShortcutAction[] = createSelector(
+    'getShortcutActions',
+    getPluginKeyboardShortcuts,
+    (pluginShortcuts) => [
+        ...BUILT_IN_SHORTCUT_ACTIONS,
+        ...pluginShortcuts.map((shortcut) => ({
+            id: shortcut.shortcutId,
+            section: 'plugins' as const,
+            description: shortcut.text,
+            defaultChord: shortcut.defaultChord,
+            pluginId: shortcut.pluginId,
+        })),
+    ],
+);
+
+export const getShortcutBindings: (state: GlobalState) => ShortcutBindings = createSelector(
+    'getShortcutBindings',
+    getShortcutActions,
+    getShortcutOverrides,
+    resolveShortcutBindings,
+);
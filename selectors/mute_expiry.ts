@@ -0,0 +1,84 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {createSelector} from 'reselect';
+
+import {Preferences} from 'mattermost-redux/constants';
+import {getAllCategoriesByIds} from 'mattermost-redux/selectors/entities/channel_categories';
+import {getMyChannelMemberships} from 'mattermost-redux/selectors/entities/common';
+import {getInt, getMyPreferences} from 'mattermost-redux/selectors/entities/preferences';
+import {PreferenceType} from 'mattermost-redux/types/preferences';
+import {isChannelMuted} from 'mattermost-redux/utils/channel_utils';
+
+import type {GlobalState} from 'types/store';
+
+function getMuteExpiries(preferences: Record<string, PreferenceType>, category: string) {
+    const expiries: Record<string, number> = {};
+
+    for (const preference of Object.values(preferences)) {
+        if (preference.category !== category) {
+            continue;
+        }
+
+        const expiresAt = parseInt(preference.value || '', 10);
+        if (expiresAt > 0) {
+            expiries[preference.name] = expiresAt;
+        }
+    }
+
+    return expiries;
+}
+
+// getChannelMuteExpiries returns the times at which temporarily muted channels will be unmuted, keyed by channel ID.
+export const getChannelMuteExpiries: (state: GlobalState) => Record<string, number> = createSelector(
+    'getChannelMuteExpiries',
+    getMyPreferences,
+    (preferences) => getMuteExpiries(preferences, Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY),
+);
+
+// getCategoryMuteExpiries returns the times at which temporarily muted sidebar categories will be unmuted, keyed by
+// category ID.
+export const getCategoryMuteExpiries: (state: GlobalState) => Record<string, number> = createSelector(
+    'getCategoryMuteExpiries',
+    getMyPreferences,
+    (preferences) => getMuteExpiries(preferences, Preferences.CATEGORY_SIDEBAR_CATEGORY_MUTE_EXPIRY),
+);
+
+export function getChannelMuteExpiry(state: GlobalState, channelId: string): number {
+    return getInt(state, Preferences.CATEGORY_CHANNEL_MUTE_EXPIRY, channelId, 0) || 0;
+}
+
+// getNextMuteExpiry returns the earliest time at which a channel or category needs to be unmuted or 0 if nothing is
+// muted temporarily. Channels and categories which aren't loaded yet are skipped since they can't be unmuted until they
+// are, and ones which were already unmuted some other way are due right away so that their expiry can be removed.
+export const getNextMuteExpiry: (state: GlobalState) => number = createSelector(
+    'getNextMuteExpiry',
+    getChannelMuteExpiries,
+    getCategoryMuteExpiries,
+    getMyChannelMemberships,
+    getAllCategoriesByIds,
+    (channelExpiries, categoryExpiries, myMembers, categoriesById) => {
+        let next = 0;
+
+        const consider = (expiresAt: number, muted: boolean) => {
+            const dueAt = muted ? expiresAt : 1;
+            if (!next || dueAt < next) {
+                next = dueAt;
+            }
+        };
+
+        for (const [channelId, expiresAt] of Object.entries(channelExpiries)) {
+            if (myMembers[channelId]) {
+                consider(expiresAt, isChannelMuted(myMembers[channelId]));
+            }
+        }
+
+        for (const [categoryId, expiresAt] of Object.entries(categoryExpiries)) {
+            if (categoriesById[categoryId]) {
+                consider(expiresAt, categoriesById[categoryId].muted);
+            }
+        }
+
+        return next;
+    },
+);
@@ -0,0 +1,20 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {createSelector} from 'reselect';
+
+import {get as getPreference} from 'mattermost-redux/selectors/entities/preferences';
+
+import {Preferences} from 'utils/constants';
+import {parseNotificationRules} from 'utils/notification_rules';
+
+import type {GlobalState} from 'types/store';
+import type {NotificationRule} from 'types/store/notification_rules';
+
+// getNotificationRules returns the current user's notification rules in the order in which they're evaluated. They're
+// stored as a preference so that they apply on every device.
+export const getNotificationRules: (state: GlobalState) => NotificationRule[] = createSelector(
+    'getNotificationRules',
+    (state: GlobalState) => getPreference(state, Preferences.CATEGORY_NOTIFICATIONS, Preferences.NOTIFICATION_RULES, ''),
+    parseNotificationRules,
+);
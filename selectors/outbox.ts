@@ -0,0 +1,37 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {createSelector} from 'reselect';
+
+import {StoragePrefixes} from 'utils/constants';
+import {getPrefix} from 'utils/storage_utils';
+
+import type {GlobalState} from 'types/store';
+import type {OutboxItem} from 'types/store/outbox';
+
+// getOutboxItems returns every change queued by the current user while offline in the order in which they should
+// be sent to the server.
+export const getOutboxItems = createSelector(
+    'getOutboxItems',
+    (state: GlobalState) => state.storage.storage,
+    (state: GlobalState) => getPrefix(state) + StoragePrefixes.OUTBOX,
+    (storage, keyPrefix) => {
+        const items: OutboxItem[] = [];
+
+        for (const [key, storedItem] of Object.entries(storage)) {
+            if (key.startsWith(keyPrefix) && storedItem && storedItem.value) {
+                items.push(storedItem.value);
+            }
+        }
+
+        return items.sort((a, b) => a.order - b.order);
+    },
+);
+
+export function getOutboxItem(state: GlobalState, id: string): OutboxItem | undefined {
+    return getOutboxItems(state).find((item) => item.id === id);
+}
+
+export function getOutboxCount(state: GlobalState) {
+    return getOutboxItems(state).length;
+}
@@ -0,0 +1,44 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {getPluginName, getPluginPreferenceCategory} from 'selectors/plugins';
+
+import {GlobalState} from 'types/store';
+
+describe('selectors/plugins', () => {
+    describe('getPluginName', () => {
+        const state = {
+            plugins: {
+                plugins: {
+                    'com.example.named': {id: 'com.example.named', name: 'Example', version: '1.0.0', webapp: {bundle_path: ''}},
+                    'com.example.unnamed': {id: 'com.example.unnamed', version: '1.0.0', webapp: {bundle_path: ''}},
+                },
+            },
+        } as unknown as GlobalState;
+
+        test('should use the name from the manifest of a plugin', () => {
+            expect(getPluginName(state, 'com.example.named')).toBe('Example');
+        });
+
+        test('should fall back to the ID of a plugin without a name or a manifest', () => {
+            expect(getPluginName(state, 'com.example.unnamed')).toBe('com.example.unnamed');
+            expect(getPluginName(state, 'com.example.missing')).toBe('com.example.missing');
+        });
+    });
+
+    describe('getPluginPreferenceCategory', () => {
+        test('should use the ID of a plugin which fits', () => {
+            expect(getPluginPreferenceCategory('com.example')).toBe('pp_com.example');
+        });
+
+        test('should give plugins with long IDs which only differ at the end different categories', () => {
+            const category1 = getPluginPreferenceCategory('com.example.plugins.translation.messages');
+            const category2 = getPluginPreferenceCategory('com.example.plugins.translation.reactions');
+
+            expect(category1.length).toBeLessThanOrEqual(32);
+            expect(category2.length).toBeLessThanOrEqual(32);
+            expect(category1).not.toBe(category2);
+            expect(getPluginPreferenceCategory('com.example.plugins.translation.messages')).toBe(category1);
+        });
+    });
+});
@@ -5,9 +5,15 @@ import {createSelector} from 'reselect';
 
 import {AppBinding} from 'mattermost-redux/types/apps';
 import {appBarEnabled, getAppBarAppBindings} from 'mattermost-redux/selectors/entities/apps';
+import {get as getPreference} from 'mattermost-redux/selectors/entities/preferences';
 
 import {GlobalState} from 'types/store';
-import {FileDropdownPluginComponent, PluginComponent} from '../types/store/plugins';
+import {FileDropdownPluginComponent, MarkdownExtensionComponent, PluginComponent, PluginUserSettingsComponent} from '../types/store/plugins';
+
+import {Preferences} from 'utils/constants';
+
+// The server doesn't allow the category of a preference to be longer than this
+const MAX_PREFERENCE_CATEGORY_LENGTH = 32;
 
 export const getFilesDropdownPluginMenuItems = createSelector(
     'getFilesDropdownPluginMenuItems',
@@ -50,3 +56,62 @@ export const shouldShowAppBar = createSelector(
         return enabled && Boolean(bindings.length || pluginComponents.length);
     },
 );
+
+// getMarkdownExtensions returns the extensions to the Markdown formatting of messages which plugins have registered
+export const getMarkdownExtensions = createSelector(
+    'getMarkdownExtensions',
+    (state: GlobalState) => state.plugins.components.MarkdownExtension,
+    (components = []) => {
+        return (components as unknown as MarkdownExtensionComponent[]).map(({extension}) => extension);
+    },
+);
+
+export function getPluginHealth(state: GlobalState, pluginId: string) {
+    return state.plugins.health[pluginId];
+}
+
+// isPluginDisabled returns true if the components of a plugin have stopped being shown because they crashed too often
+export function isPluginDisabled(state: GlobalState, pluginId: string) {
+    return Boolean(getPluginHealth(state, pluginId)?.disabled);
+}
+
+// getPluginName returns the name of a plugin from its manifest or its ID if the manifest doesn't have a name
+export function getPluginName(state: GlobalState, pluginId: string) {
+    return state.plugins.plugins[pluginId]?.name || pluginId;
+}
+
+export const getPluginUserSettingsSections = createSelector(
+    'getPluginUserSettingsSections',
+    (state: GlobalState) => state.plugins.components.UserSettings,
+    (components = []) => {
+        return components as unknown as PluginUserSettingsComponent[];
+    },
+);
+
+// hashPluginId returns a short FNV-1a hash of the ID of a plugin
+function hashPluginId(pluginId: string) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < pluginId.length; i++) {
+        hash ^= pluginId.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    return (hash >>> 0).toString(36);
+}
+
+// getPluginPreferenceCategory returns the category of the preferences in which a plugin saves the user's settings.
+// IDs which are too long to fit are shortened and end with a hash of the whole ID so that plugins whose IDs only
+// differ at the end don't share a category.
+export function getPluginPreferenceCategory(pluginId: string) {
+    const category = Preferences.CATEGORY_PLUGIN_PREFIX + pluginId;
+    if (category.length <= MAX_PREFERENCE_CATEGORY_LENGTH) {
+        return category;
+    }
+
+    const hash = hashPluginId(pluginId);
+    return category.substring(0, MAX_PREFERENCE_CATEGORY_LENGTH - hash.length - 1) + '_' + hash;
+}
+
+export function getPluginUserSetting(state: GlobalState, pluginId: string, name: string, defaultValue = ''): string {
+    return getPreference(state, getPluginPreferenceCategory(pluginId), name, defaultValue);
+}
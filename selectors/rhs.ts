@@ -12,7 +12,7 @@ import {makeGetGlobalItem} from 'selectors/storage';
 import {PostTypes} from 'utils/constants';
 import {localizeMessage} from 'utils/utils.jsx';
 import {GlobalState} from 'types/store';
-import {RhsState, FakePost, PostDraft, SearchType} from 'types/store/rhs';
+import {RhsState, FakePost, PostDraft, SearchResultsGrouping, SearchResultsSort, SearchType} from 'types/store/rhs';
 
 export function getSelectedPostId(state: GlobalState): Post['id'] {
     return state.views.rhs.selectedPostId;
@@ -115,6 +115,14 @@ export function getSearchResultsTerms(state: GlobalState): string {
     return state.views.rhs.searchResultsTerms;
 }
 
+export function getSearchResultsSort(state: GlobalState): SearchResultsSort {
+    return state.views.rhs.searchResultsSort;
+}
+
+export function getSearchResultsGrouping(state: GlobalState): SearchResultsGrouping {
+    return state.views.rhs.searchResultsGrouping;
+}
+
 export function getIsSearchingTerm(state: GlobalState): boolean {
     return state.entities.search.isSearchingTerm;
 }
@@ -0,0 +1,80 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Posts} from 'mattermost-redux/constants';
+import {PostType} from 'mattermost-redux/types/posts';
+
+import {makeGetFindInChannelMatches} from 'selectors/views/channel';
+
+import {TestHelper} from 'utils/test_helper';
+
+import {GlobalState} from 'types/store';
+
+describe('makeGetFindInChannelMatches', () => {
+    const channel = TestHelper.getChannelMock({id: 'channel1', name: 'releases'});
+    const user = TestHelper.getUserMock({id: 'user1', username: 'ci-bot'});
+
+    const post1 = TestHelper.getPostMock({id: 'post1', channel_id: 'channel1', user_id: 'user1', message: 'The release build failed', type: '' as PostType});
+    const post2 = TestHelper.getPostMock({id: 'post2', channel_id: 'channel1', user_id: 'user2', message: 'Retrying the release build', type: '' as PostType});
+    const post3 = TestHelper.getPostMock({id: 'post3', channel_id: 'channel1', user_id: 'user1', message: 'Deployed to staging', type: '' as PostType});
+    const systemPost = TestHelper.getPostMock({id: 'post4', channel_id: 'channel1', user_id: 'user1', message: 'ci-bot joined the release channel', type: Posts.POST_TYPES.JOIN_CHANNEL});
+
+    const getState = (terms: string) => ({
+        entities: {
+            general: {
+                config: {},
+            },
+            channels: {
+                channels: {
+                    channel1: channel,
+                },
+            },
+            posts: {
+                posts: {
+                    post1,
+                    post2,
+                    post3,
+                    post4: systemPost,
+                },
+            },
+            users: {
+                currentUserId: 'user1',
+                profiles: {
+                    user1: user,
+                },
+            },
+        },
+        views: {
+            channel: {
+                findInChannel: {
+                    isOpen: true,
+                    terms,
+                    matchPostId: '',
+                },
+            },
+        },
+    } as unknown as GlobalState);
+
+    const postIds = ['post4', 'post3', 'post2', 'post1', 'post5'];
+
+    test('should return nothing without any terms', () => {
+        const getFindInChannelMatches = makeGetFindInChannelMatches();
+
+        expect(getFindInChannelMatches(getState(' '), postIds, 'channel1')).toEqual([]);
+    });
+
+    test('should return the loaded posts which match the terms in the given order', () => {
+        const getFindInChannelMatches = makeGetFindInChannelMatches();
+
+        expect(getFindInChannelMatches(getState('release'), postIds, 'channel1')).toEqual(['post2', 'post1']);
+        expect(getFindInChannelMatches(getState('release -failed'), postIds, 'channel1')).toEqual(['post2']);
+        expect(getFindInChannelMatches(getState('"build failed"'), postIds, 'channel1')).toEqual(['post1']);
+    });
+
+    test('should support the user and channel filters', () => {
+        const getFindInChannelMatches = makeGetFindInChannelMatches();
+
+        expect(getFindInChannelMatches(getState('from:ci-bot'), postIds, 'channel1')).toEqual(['post3', 'post1']);
+        expect(getFindInChannelMatches(getState('build in:releases'), postIds, 'channel1')).toEqual(['post2', 'post1']);
+    });
+});
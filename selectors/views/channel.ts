@@ -1,7 +1,59 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
+import {createSelector} from 'reselect';
+
+import {getChannel} from 'mattermost-redux/selectors/entities/channels';
+import {getAllPosts} from 'mattermost-redux/selectors/entities/posts';
+import {getUsers} from 'mattermost-redux/selectors/entities/users';
+import {isSystemMessage} from 'mattermost-redux/utils/post_utils';
+
+import {getCurrentUserTimezone} from 'selectors/general';
+
+import {matchesSearchQuery} from 'utils/saved_searches';
+import {getUtcOffsetForTimeZone} from 'utils/timezone';
+
 import {GlobalState} from 'types/store';
 
 export const getLastPostsApiTimeForChannel = (state: GlobalState, channelId: string) => state.views.channel.lastGetPosts[channelId];
 export const getToastStatus = (state: GlobalState) => state.views.channel.toastStatus;
+export const getFindInChannel = (state: GlobalState) => state.views.channel.findInChannel;
+
+// makeGetFindInChannelMatches returns a selector for the IDs of the given posts of a channel which match the terms of
+// the find bar, in the same order. Only posts which have already been loaded are searched so that it works offline.
+export function makeGetFindInChannelMatches() {
+    return createSelector(
+        'makeGetFindInChannelMatches',
+        (state: GlobalState, postIds: string[]) => postIds,
+        (state: GlobalState, postIds: string[], channelId: string) => getChannel(state, channelId),
+        (state: GlobalState) => getFindInChannel(state).terms,
+        getAllPosts,
+        getUsers,
+        getCurrentUserTimezone,
+        (postIds, channel, terms, posts, users, timezone) => {
+            if (!terms.trim() || !postIds) {
+                return [];
+            }
+
+            // Dates are compared in the user's time zone like they are when searching
+            const params = {
+                terms,
+                is_or_search: false,
+                include_deleted_channels: false,
+                time_zone_offset: timezone ? getUtcOffsetForTimeZone(timezone) * 60 : undefined,
+            };
+
+            return postIds.filter((postId) => {
+                const post = posts[postId];
+                if (!post || isSystemMessage(post)) {
+                    return false;
+                }
+
+                return matchesSearchQuery(post, params, {
+                    username: users[post.user_id]?.username || '',
+                    channelNames: channel ? [channel.name] : [],
+                });
+            });
+        },
+    );
+}
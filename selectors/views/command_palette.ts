@@ -0,0 +1,16 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {getItem} from 'selectors/storage';
+
+import {StoragePrefixes} from 'utils/constants';
+
+import type {GlobalState} from 'types/store';
+import type {PaletteCommandUsageMap} from 'types/store/command_palette';
+
+const emptyUsage: PaletteCommandUsageMap = {};
+
+// getPaletteCommandUsage returns which commands the current user has run from the command palette on this device
+export function getPaletteCommandUsage(state: GlobalState): PaletteCommandUsageMap {
+    return getItem(state, StoragePrefixes.COMMAND_PALETTE_USAGE, emptyUsage);
+}
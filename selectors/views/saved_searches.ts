@@ -0,0 +1,46 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {createSelector} from 'reselect';
+
+import {get as getPreference} from 'mattermost-redux/selectors/entities/preferences';
+import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
+
+import {Preferences} from 'utils/constants';
+import {parseSavedSearches} from 'utils/saved_searches';
+
+import type {GlobalState} from 'types/store';
+import type {SavedSearch} from 'types/store/saved_searches';
+
+// getSavedSearches returns the searches that the current user has saved in any team. They're stored as a preference so
+// that they're available on every device.
+export const getSavedSearches: (state: GlobalState) => SavedSearch[] = createSelector(
+    'getSavedSearches',
+    (state: GlobalState) => getPreference(state, Preferences.CATEGORY_DISPLAY_SETTINGS, Preferences.SAVED_SEARCHES, ''),
+    parseSavedSearches,
+);
+
+export const getSavedSearchesForCurrentTeam: (state: GlobalState) => SavedSearch[] = createSelector(
+    'getSavedSearchesForCurrentTeam',
+    getSavedSearches,
+    getCurrentTeamId,
+    (searches, teamId) => searches.filter((search) => search.teamId === teamId),
+);
+
+export const getSubscribedSavedSearches: (state: GlobalState) => SavedSearch[] = createSelector(
+    'getSubscribedSavedSearches',
+    getSavedSearches,
+    (searches) => searches.filter((search) => search.subscribed),
+);
+
+export function getSavedSearchAlerts(state: GlobalState) {
+    return state.views.search.savedSearchAlerts;
+}
+
+// getSavedSearchAlertCount returns how many new posts match the saved searches of the current team in total
+export const getSavedSearchAlertCount: (state: GlobalState) => number = createSelector(
+    'getSavedSearchAlertCount',
+    getSavedSearchesForCurrentTeam,
+    getSavedSearchAlerts,
+    (searches, alerts) => searches.reduce((count, search) => count + (alerts[search.id] || 0), 0),
+);
@@ -6,3 +6,11 @@ import type {GlobalState} from 'types/store';
 export function connectionErrorCount(state: GlobalState) {
     return state.views.system.websocketConnectionErrorCount;
 }
+
+export function getWebSocketConnectionState(state: GlobalState) {
+    return state.views.system.websocketConnectionState;
+}
+
+export function isConnectionDegraded(state: GlobalState) {
+    return getWebSocketConnectionState(state).status === 'degraded';
+}
@@ -2,6 +2,7 @@
 // See LICENSE.txt for license information.
 
 import {GlobalState} from 'types/store';
+import {makeEmptyThreadListFilter} from 'utils/thread_views';
 
 import * as selectors from './threads';
 
@@ -59,4 +60,103 @@ describe('selectors/views/threads', () => {
             expect(selectors.isThreadOpen(state, 'selected_post_id')).toBe(true);
         });
     });
+
+    describe('makeGetFilteredThreadIds', () => {
+        const state = {
+            entities: {
+                threads: {
+                    threads: {
+                        thread1: {id: 'thread1', unread_mentions: 1, participants: [], post: {channel_id: 'channel1', user_id: 'user1'}},
+                        thread2: {id: 'thread2', unread_mentions: 0, participants: [], post: {channel_id: 'channel2', user_id: 'user1'}},
+                        thread3: {id: 'thread3', unread_mentions: 2, participants: [], post: {channel_id: 'channel1', user_id: 'user2'}},
+                        thread4: {id: 'thread4', unread_mentions: 0, participants: [], post: {channel_id: 'channel1', user_id: 'user2'}},
+                        thread5: {id: 'thread5', unread_mentions: 0, participants: [], post: {channel_id: 'channel1', user_id: 'user2'}},
+                    },
+                },
+                users: {
+                    currentUserId: 'user1',
+                    profiles: {
+                        user1: {id: 'user1', username: 'user1', notify_props: {}},
+                    },
+                },
+                posts: {
+                    posts: {
+                        thread4: {id: 'thread4', message: 'Hello'},
+                        reply4: {id: 'reply4', root_id: 'thread4', message: 'Thanks @user1'},
+                        thread5: {id: 'thread5', message: 'Hello @user2'},
+                    },
+                    postsInThread: {
+                        thread4: ['reply4'],
+                    },
+                },
+            },
+        } as unknown as GlobalState;
+
+        const emptyFilter = makeEmptyThreadListFilter();
+
+        test('should return the same IDs when nothing is filtered', () => {
+            const getFilteredThreadIds = selectors.makeGetFilteredThreadIds();
+            const threadIds = ['thread3', 'thread1', 'missing'];
+
+            expect(getFilteredThreadIds(state, threadIds, emptyFilter)).toBe(threadIds);
+        });
+
+        test('should keep the order of the threads which match the filter', () => {
+            const getFilteredThreadIds = selectors.makeGetFilteredThreadIds();
+            const filter = {...emptyFilter, channelIds: ['channel1'], mentionsOnly: true};
+
+            expect(getFilteredThreadIds(state, ['thread3', 'thread2', 'thread1', 'missing'], filter)).toEqual(['thread3', 'thread1']);
+        });
+
+        test('should keep the selected thread even if it does not match the filter', () => {
+            const getFilteredThreadIds = selectors.makeGetFilteredThreadIds();
+            const filter = {...emptyFilter, mentionsOnly: true};
+
+            expect(getFilteredThreadIds(state, ['thread3', 'thread2', 'thread1'], filter, 'thread2')).toEqual(['thread3', 'thread2', 'thread1']);
+        });
+
+        test('should keep threads which mention the user after the mentions have been read', () => {
+            const getFilteredThreadIds = selectors.makeGetFilteredThreadIds();
+            const filter = {...emptyFilter, mentionsOnly: true};
+
+            expect(getFilteredThreadIds(state, ['thread5', 'thread4', 'thread3', 'thread2'], filter)).toEqual(['thread4', 'thread3']);
+        });
+    });
+
+    describe('makeGetThreadCatchUp', () => {
+        const state = {
+            entities: {
+                users: {
+                    currentUserId: 'me',
+                    profiles: {
+                        me: {id: 'me'},
+                    },
+                },
+                posts: {
+                    posts: {
+                        root: {id: 'root', user_id: 'user1', create_at: 1000, props: {}},
+                        reply1: {id: 'reply1', user_id: 'me', create_at: 2000, props: {}},
+                        reply2: {id: 'reply2', user_id: 'user2', create_at: 3000, props: {}},
+                    },
+                },
+            },
+        } as unknown as GlobalState;
+
+        test('should summarize the replies since the thread was last viewed without counting the root post', () => {
+            const getThreadCatchUp = selectors.makeGetThreadCatchUp();
+
+            expect(getThreadCatchUp(state, 'root', ['reply2', 'reply1', 'root'], 500)).toEqual({
+                newReplyCount: 1,
+                authorIds: ['user2'],
+                firstUnreadPostId: 'reply2',
+                earlierReplyCount: 1,
+            });
+        });
+
+        test('should return null when the thread was never opened', () => {
+            const getThreadCatchUp = selectors.makeGetThreadCatchUp();
+
+            expect(getThreadCatchUp(state, 'root', ['reply2', 'reply1', 'root'])).toBeNull();
+        });
+    });
 });
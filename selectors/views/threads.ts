@@ -5,11 +5,13 @@ import moment from 'moment';
 
 import {createSelector} from 'reselect';
 
-import {makeGetPostsForIds} from 'mattermost-redux/selectors/entities/posts';
+import {getAllPosts, makeGetPostsForIds} from 'mattermost-redux/selectors/entities/posts';
+import {get as getPreference} from 'mattermost-redux/selectors/entities/preferences';
 import {getCurrentTeamId} from 'mattermost-redux/selectors/entities/teams';
 import {getThreads} from 'mattermost-redux/selectors/entities/threads';
 import {isTimezoneEnabled} from 'mattermost-redux/selectors/entities/timezone';
 import {getCurrentUser} from 'mattermost-redux/selectors/entities/common';
+import {getCurrentUserMentionKeys} from 'mattermost-redux/selectors/entities/users';
 
 import {Team} from 'mattermost-redux/types/teams';
 import {UserThread} from 'mattermost-redux/types/threads';
@@ -22,7 +24,13 @@ import {getUserCurrentTimezone} from 'mattermost-redux/utils/timezone_utils';
 import {GlobalState} from 'types/store';
 import {ViewsState} from 'types/store/views';
 import {getIsRhsOpen, getSelectedPostId} from 'selectors/rhs';
-import {isFromWebhook} from 'utils/post_utils';
+import {Preferences} from 'utils/constants';
+import {isFromWebhook, matchUserMentionTriggersWithMessageMentions} from 'utils/post_utils';
+import {allAtMentions} from 'utils/text_formatting';
+import {getThreadCatchUp, ThreadCatchUp} from 'utils/thread_catch_up';
+import {isThreadListFilterEmpty, matchesThreadListFilter, parseSavedThreadViews} from 'utils/thread_views';
+
+import type {SavedThreadView, ThreadListFilter} from 'types/store/thread_views';
 
 interface PostFilterOptions {
     postIds: Array<Post['id']>;
@@ -170,6 +178,81 @@ export function makePrepareReplyIdsForThreadViewer() {
     };
 }
 
+// getSavedThreadViews returns the named filters that the current user has saved for their list of threads. They're stored
+// as a preference so that they're available on every device.
+export const getSavedThreadViews: (state: GlobalState) => SavedThreadView[] = createSelector(
+    'getSavedThreadViews',
+    (state: GlobalState) => getPreference(state, Preferences.CATEGORY_DISPLAY_SETTINGS, Preferences.SAVED_THREAD_VIEWS, ''),
+    parseSavedThreadViews,
+);
+
+// getThreadIdsMentioningCurrentUser returns the IDs of the loaded threads in which the current user was mentioned,
+// whether or not they've read those mentions since. Threads with unread mentions always count, and otherwise the root
+// post and the replies which have been loaded are checked for the user's mention keys.
+const getThreadIdsMentioningCurrentUser: (state: GlobalState) => Array<UserThread['id']> = createIdsSelector(
+    'getThreadIdsMentioningCurrentUser',
+    getThreads,
+    getAllPosts,
+    (state: GlobalState) => state.entities.posts.postsInThread,
+    getCurrentUserMentionKeys,
+    (threads, posts, postsInThread, mentionKeys) => {
+        const isMentioned = (postId: Post['id']) => {
+            const post = posts[postId];
+            return Boolean(post) && matchUserMentionTriggersWithMessageMentions(mentionKeys, allAtMentions(post.message));
+        };
+
+        return Object.values(threads).
+            filter((thread) => thread.unread_mentions > 0 || isMentioned(thread.id) || (postsInThread[thread.id] || []).some(isMentioned)).
+            map((thread) => thread.id);
+    },
+);
+
+// Returns a selector that, given the state, a list of thread IDs and a filter, returns the IDs of the threads which match
+// the filter in the same order. Threads which aren't loaded are left out. The selected thread is always kept so that it
+// doesn't disappear from the list while it's being read.
+export function makeGetFilteredThreadIds(): (state: GlobalState, threadIds: Array<UserThread['id']>, filter: ThreadListFilter, selectedThreadId?: UserThread['id']) => Array<UserThread['id']> {
+    return createIdsSelector(
+        'makeGetFilteredThreadIds',
+        getThreads,
+        (_state: GlobalState, threadIds: Array<UserThread['id']>) => threadIds,
+        (_state: GlobalState, _threadIds: Array<UserThread['id']>, filter: ThreadListFilter) => filter,
+        (_state: GlobalState, _threadIds: Array<UserThread['id']>, _filter: ThreadListFilter, selectedThreadId?: UserThread['id']) => selectedThreadId,
+
+        // Finding the mentions means checking the messages of every thread, so it's only done when they're filtered on
+        (state: GlobalState, _threadIds: Array<UserThread['id']>, filter: ThreadListFilter) => (filter.mentionsOnly ? getThreadIdsMentioningCurrentUser(state) : undefined),
+        (threads, threadIds, filter, selectedThreadId, mentionedIds) => {
+            if (isThreadListFilterEmpty(filter)) {
+                return threadIds;
+            }
+
+            return threadIds.filter((id) => id === selectedThreadId || (threads[id] && matchesThreadListFilter(threads[id], filter, Boolean(mentionedIds?.includes(id)))));
+        },
+    );
+}
+
+// Returns a selector that, given the state, the ID of a thread's root post, the IDs of the posts in the thread and the time
+// at which the thread was last viewed, returns a summary of the replies which arrived since then or null if there aren't
+// any.
+export function makeGetThreadCatchUp(): (state: GlobalState, rootId: Post['id'], postIds: Array<Post['id']>, lastViewedAt?: number) => ThreadCatchUp | null {
+    const getPostsForIds = makeGetPostsForIds();
+
+    return createSelector(
+        'makeGetThreadCatchUp',
+        (state: GlobalState, _rootId: Post['id'], postIds: Array<Post['id']>) => getPostsForIds(state, postIds),
+        (_state: GlobalState, rootId: Post['id']) => rootId,
+        (_state: GlobalState, _rootId: Post['id'], _postIds: Array<Post['id']>, lastViewedAt?: number) => lastViewedAt,
+        getCurrentUser,
+        (posts, rootId, lastViewedAt, currentUser) => {
+            if (typeof lastViewedAt !== 'number' || !currentUser) {
+                return null;
+            }
+
+            const replies = posts.filter((post) => post && post.id !== rootId);
+            return getThreadCatchUp(replies, lastViewedAt, currentUser.id);
+        },
+    );
+}
+
 export function getThreadToastStatus(state: GlobalState) {
     return state.views.threads.toastStatus;
 }
@@ -18,6 +18,8 @@ import appReducer from 'reducers';
 import {ActionTypes} from 'utils/constants';
 import {getBasePath} from 'selectors/general';
 
+import pluginHooksMiddleware from './plugin_hooks_middleware';
+
 function getAppReducer() {
     return require('../reducers'); // eslint-disable-line global-require
 }
@@ -185,5 +187,5 @@ export default function configureStore(initialState) {
         },
     };
 
-    return configureServiceStore(initialState, appReducer, offlineOptions, getAppReducer);
+    return configureServiceStore(initialState, appReducer, offlineOptions, getAppReducer, [pluginHooksMiddleware]);
 }
@@ -0,0 +1,46 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {BATCH} from 'redux-batched-actions';
+
+import {PostTypes} from 'mattermost-redux/action_types';
+
+import {runPostListWillBeReceivedHooks} from 'actions/hooks';
+
+const postListActionTypes = new Set([
+    PostTypes.RECEIVED_POSTS,
+    PostTypes.RECEIVED_POSTS_AFTER,
+    PostTypes.RECEIVED_POSTS_BEFORE,
+    PostTypes.RECEIVED_POSTS_IN_CHANNEL,
+    PostTypes.RECEIVED_POSTS_IN_THREAD,
+    PostTypes.RECEIVED_POSTS_SINCE,
+]);
+
+// pluginHooksMiddleware passes lists of posts loaded from the server, such as when a channel or thread is opened or
+// synced, through the MessageWillBeReceived and ReactionWillBeAdded hooks of plugins before they're stored. Posts
+// received over the WebSocket are passed through them by actions/websocket_actions instead.
+export default function pluginHooksMiddleware({dispatch, getState}) {
+    return (next) => (action) => {
+        // A list of posts is usually stored by a batch of actions which all share it, so it's only passed through the
+        // hooks once
+        const lists = new Map();
+
+        const runHooks = (a) => {
+            if (a.type === BATCH) {
+                return {...a, payload: a.payload.map(runHooks)};
+            }
+
+            if (!postListActionTypes.has(a.type) || !a.data) {
+                return a;
+            }
+
+            if (!lists.has(a.data)) {
+                lists.set(a.data, runPostListWillBeReceivedHooks(a.data)(dispatch, getState).data);
+            }
+
+            return {...a, data: lists.get(a.data)};
+        };
+
+        return next(runHooks(action));
+    };
+}
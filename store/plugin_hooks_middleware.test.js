@@ -0,0 +1,54 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import configureStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+import {batchActions} from 'redux-batched-actions';
+
+import {PostTypes} from 'mattermost-redux/action_types';
+import {receivedNewPost, receivedPosts, receivedPostsInChannel} from 'mattermost-redux/actions/posts';
+
+import pluginHooksMiddleware from './plugin_hooks_middleware';
+
+describe('pluginHooksMiddleware', () => {
+    const post1 = {id: 'post1', channel_id: 'channel1', message: 'test'};
+    const post2 = {id: 'post2', channel_id: 'channel1', message: 'test'};
+    const posts = {order: ['post2', 'post1'], posts: {post1, post2}};
+
+    function makeStore(hook) {
+        return configureStore([thunk, pluginHooksMiddleware])({
+            plugins: {
+                components: {
+                    MessageWillBeReceived: [{hook}],
+                },
+            },
+        });
+    }
+
+    test('should pass a batch of posts loaded from the server through the hooks once', () => {
+        const hook = jest.fn((post) => (post.id === 'post2' ? {hide: true} : {post: {...post, message: 'translated'}}));
+        const store = makeStore(hook);
+
+        store.dispatch(batchActions([
+            receivedPosts(posts),
+            receivedPostsInChannel(posts, 'channel1', true, false),
+        ]));
+
+        const expected = {order: ['post1'], posts: {post1: {...post1, message: 'translated'}}};
+        expect(store.getActions()[0].payload).toEqual([
+            {type: PostTypes.RECEIVED_POSTS, data: expected},
+            {type: PostTypes.RECEIVED_POSTS_IN_CHANNEL, channelId: 'channel1', data: expected, recent: true, oldest: false},
+        ]);
+        expect(hook).toHaveBeenCalledTimes(2);
+    });
+
+    test('should leave posts received over the WebSocket to their handlers', () => {
+        const hook = jest.fn(() => ({hide: true}));
+        const store = makeStore(hook);
+
+        store.dispatch(receivedNewPost(post1, false));
+
+        expect(store.getActions()).toEqual([receivedNewPost(post1, false)]);
+        expect(hook).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,34 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {ActionResult} from 'mattermost-redux/types/actions';
+
+export type PaletteCommandType = 'settings' | 'theme' | 'channel' | 'navigation' | 'slash_command' | 'plugin';
+
+export type PaletteCommand = {
+    id: string;
+    type: PaletteCommandType;
+
+    // title and description are already localized since they're matched against what the user types
+    title: string;
+    description?: string;
+
+    // keywords are other words which the command can be found by
+    keywords?: string[];
+    icon: string;
+
+    // shortcutId is the ID of the keyboard shortcut action which does the same thing as the command, if any
+    shortcutId?: string;
+
+    // run may return the result of an action when it can fail so that the palette can show the error
+    run: () => void | Promise<ActionResult>;
+};
+
+export type PaletteCommandUsage = {
+    count: number;
+    lastUsedAt: number;
+};
+
+// PaletteCommandUsageMap maps the IDs of the commands which the user has run to how often and how recently they
+// ran them.
+export type PaletteCommandUsageMap = Record<PaletteCommand['id'], PaletteCommandUsage>;
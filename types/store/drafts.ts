@@ -0,0 +1,18 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Channel} from 'mattermost-redux/types/channels';
+import {Post} from 'mattermost-redux/types/posts';
+
+import {PostDraft} from './rhs';
+
+export type DraftType = 'channel' | 'thread';
+
+export type DraftInfo = {
+    key: string;
+    type: DraftType;
+    channelId: Channel['id'];
+    rootId: Post['id'];
+    value: PostDraft;
+    lastEditedAt: number;
+};
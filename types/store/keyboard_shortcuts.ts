@@ -0,0 +1,30 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+// A ShortcutChord is written as its modifiers followed by the name of a key in Constants.KeyCodes, all joined by
+// "+" such as "mod+shift+K". The "mod" modifier is Cmd on macOS and Ctrl everywhere else.
+export type ShortcutChord = string;
+
+export type ShortcutModifier = 'mod' | 'ctrl' | 'alt' | 'shift';
+
+export type ShortcutSection = 'navigation' | 'messages' | 'plugins';
+
+export type ShortcutAction = {
+    id: string;
+    section: ShortcutSection;
+
+    // description is a translatable message for built-in actions and plain text for those registered by plugins
+    description: {id: string; defaultMessage: string} | string;
+    defaultChord: ShortcutChord;
+
+    // emptyInputOnly is set for actions which only work while the message box is empty
+    emptyInputOnly?: boolean;
+    pluginId?: string;
+};
+
+// ShortcutOverrides maps the IDs of the actions which the user has rebound to their new chord. An empty chord
+// disables the action.
+export type ShortcutOverrides = Record<ShortcutAction['id'], ShortcutChord>;
+
+// ShortcutBindings maps the ID of every action to the chord which triggers it or to an empty chord if it's disabled
+export type ShortcutBindings = Record<ShortcutAction['id'], ShortcutChord>;
@@ -0,0 +1,35 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Channel} from 'mattermost-redux/types/channels';
+import {UserProfile} from 'mattermost-redux/types/users';
+
+export type NotificationRuleAction = 'desktop' | 'sound' | 'require_interaction' | 'suppress';
+
+export type NotificationRuleTimeWindow = {
+
+    // start and end are in minutes since midnight in the user's timezone. A window whose end is before its start
+    // wraps past midnight.
+    start: number;
+    end: number;
+
+    // days limits the window to the given days of the week, with 0 being Sunday. Every day matches when it's empty.
+    days: number[];
+};
+
+export type NotificationRuleConditions = {
+    keywords: string[];
+    pattern: string;
+    authorIds: Array<UserProfile['id']>;
+    channelIds: Array<Channel['id']>;
+    threadFollowState: 'any' | 'following' | 'not_following';
+    timeWindow: NotificationRuleTimeWindow | null;
+};
+
+export type NotificationRule = {
+    id: string;
+    name: string;
+    enabled: boolean;
+    conditions: NotificationRuleConditions;
+    actions: NotificationRuleAction[];
+};
@@ -0,0 +1,35 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {FileInfo} from 'mattermost-redux/types/files';
+import {Post} from 'mattermost-redux/types/posts';
+
+export type OutboxItemType = 'create_post' | 'edit_post' | 'delete_post' | 'add_reaction' | 'remove_reaction';
+
+export type OutboxCreatePostData = {
+    post: Post;
+    files: FileInfo[];
+};
+
+export type OutboxEditPostData = {
+    post: Partial<Post> & {id: Post['id']};
+};
+
+export type OutboxDeletePostData = {
+    post: Post;
+};
+
+export type OutboxReactionData = {
+    postId: Post['id'];
+    emojiName: string;
+};
+
+export type OutboxItem = {
+    id: string;
+    type: OutboxItemType;
+    data: OutboxCreatePostData | OutboxEditPostData | OutboxDeletePostData | OutboxReactionData;
+
+    // order is used to replay items in the order in which they were queued
+    order: number;
+    queuedAt: number;
+};
@@ -10,6 +10,8 @@ import {FileInfo} from 'mattermost-redux/types/files';
 import {Post, PostEmbed} from 'mattermost-redux/types/posts';
 import {IDMappedObjects} from 'mattermost-redux/types/utilities';
 
+import type {MarkdownExtension, PluginUserSettingsSection} from 'plugins/registry_types';
+
 export type PluginsState = {
     plugins: IDMappedObjects<ClientPluginManifest>;
 
@@ -40,6 +42,46 @@ export type PluginsState = {
     adminConsoleCustomComponents: {
         [pluginId: string]: AdminConsolePluginComponent;
     };
+
+    health: {
+        [pluginId: string]: PluginHealth;
+    };
+};
+
+export type PluginError = {
+
+    // name is where the error happened, such as the name of a pluggable or a hook
+    name: string;
+    message: string;
+    time: number;
+};
+
+export type PluginHookTiming = {
+    count: number;
+    totalTime: number;
+    maxTime: number;
+};
+
+export type PluginHookResult = {
+    pluginId: string;
+    name: string;
+    duration: number;
+    error?: PluginError;
+};
+
+// PluginHealth is what went wrong with a plugin in this browser since it was loaded
+export type PluginHealth = {
+    loadError: string;
+    renderErrors: PluginError[];
+    hookErrors: PluginError[];
+    hookTimings: {
+        [hookName: string]: PluginHookTiming;
+    };
+
+    // crashes counts the render errors since the components of the plugin were last enabled. They're disabled once
+    // it crashes too often.
+    crashes: number;
+    disabled: boolean;
 };
 
 export type Menu = {
@@ -70,6 +112,29 @@ export type PluginComponent = {
     action?: (...args: any) => void; // TODO Add more concrete types?
 };
 
+export type KeyboardShortcutPluginComponent = {
+    id: string;
+    pluginId: string;
+
+    // shortcutId identifies the action among all keyboard shortcuts and is used to store the user's binding for it
+    shortcutId: string;
+    text: string;
+    defaultChord: string;
+    action: () => void;
+};
+
+export type PluginUserSettingsComponent = {
+    id: string;
+    pluginId: string;
+    section: PluginUserSettingsSection;
+};
+
+export type MarkdownExtensionComponent = {
+    id: string;
+    pluginId: string;
+    extension: MarkdownExtension;
+};
+
 export type FilePreviewComponent = {
     id: string;
     pluginId: string;
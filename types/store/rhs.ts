@@ -8,6 +8,10 @@ import {FileInfo} from 'mattermost-redux/types/files';
 
 export type SearchType = '' | 'files' | 'messages';
 
+export type SearchResultsSort = 'relevance' | 'newest' | 'oldest';
+
+export type SearchResultsGrouping = 'none' | 'channel' | 'thread';
+
 export type FakePost = {
     id: Post['id'];
     exists: boolean;
@@ -23,6 +27,13 @@ export type PostDraft = {
     uploadsInProgress: string[];
     props?: any;
     caretPosition?: number;
+
+    // The following are only set when drafts are synced with the server
+    channelId?: Channel['id'];
+    rootId?: Post['id'];
+    createAt?: number;
+    updateAt?: number;
+    remote?: boolean;
 };
 
 export type RhsViewState = {
@@ -38,6 +49,8 @@ export type RhsViewState = {
     searchType: SearchType;
     pluggableId: string;
     searchResultsTerms: string;
+    searchResultsSort: SearchResultsSort;
+    searchResultsGrouping: SearchResultsGrouping;
     isSearchingFlaggedPost: boolean;
     isSearchingPinnedPost: boolean;
     isSidebarOpen: boolean;
@@ -0,0 +1,20 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {SearchParameter} from 'mattermost-redux/types/search';
+import {Team} from 'mattermost-redux/types/teams';
+
+// SavedSearchParams are the parameters which a search is sent to the server with, apart from which page to load
+export type SavedSearchParams = Omit<SearchParameter, 'page' | 'per_page'>;
+
+export type SavedSearch = {
+    id: string;
+    name: string;
+
+    // teamId is the team that the search runs in. Like the search itself, it also covers direct and group messages.
+    teamId: Team['id'];
+    params: SavedSearchParams;
+
+    // subscribed is true when the user wants to be notified about new posts which match the search
+    subscribed: boolean;
+};
@@ -0,0 +1,22 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Channel} from 'mattermost-redux/types/channels';
+import {UserProfile} from 'mattermost-redux/types/users';
+
+export type ThreadListFilter = {
+    channelIds: Array<Channel['id']>;
+    participantIds: Array<UserProfile['id']>;
+    mentionsOnly: boolean;
+
+    // since and until limit the time of a thread's last reply. Either is ignored when it's 0.
+    since: number;
+    until: number;
+};
+
+export type SavedThreadView = {
+    id: string;
+    name: string;
+    unreadOnly: boolean;
+    filter: ThreadListFilter;
+};
@@ -7,6 +7,8 @@ import {RelationOneToOne} from 'mattermost-redux/types/utilities';
 import {Team} from 'mattermost-redux/types/teams';
 import {UserThread} from 'mattermost-redux/types/threads';
 
+import type {ConnectionState} from 'client/websocket_client';
+
 import {I18nState} from './i18n';
 import {RhsViewState} from './rhs';
 
@@ -58,6 +60,11 @@ export type ViewsState = {
             [channelId: string]: string;
         };
         toastStatus: boolean;
+        findInChannel: {
+            isOpen: boolean;
+            terms: string;
+            matchPostId: string;
+        };
     };
 
     rhs: RhsViewState;
@@ -126,6 +133,9 @@ export type ViewsState = {
                 team_ids?: string[];
             };
         };
+        savedSearchAlerts: {
+            [searchId: string]: number;
+        };
     };
 
     notice: {
@@ -136,6 +146,7 @@ export type ViewsState = {
 
     system: {
         websocketConnectionErrorCount: number;
+        websocketConnectionState: ConnectionState;
     };
 
     channelSelectorModal: {
@@ -0,0 +1,128 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {PaletteCommand, PaletteCommandUsageMap} from 'types/store/command_palette';
+
+import {
+    MAX_REMEMBERED_COMMANDS,
+    addPaletteCommandUsage,
+    getFuzzyMatchScore,
+    getUsageBoost,
+    rankPaletteCommands,
+} from './command_palette';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeCommand(id: string, title: string, keywords?: string[]): PaletteCommand {
+    return {id, type: 'settings', title, keywords, icon: 'icon-cog-outline', run: jest.fn()};
+}
+
+describe('utils/command_palette', () => {
+    describe('getFuzzyMatchScore', () => {
+        test('should not match an empty query', () => {
+            expect(getFuzzyMatchScore('', 'Open Display settings')).toBe(0);
+            expect(getFuzzyMatchScore('  ', 'Open Display settings')).toBe(0);
+        });
+
+        test('should score prefixes above words above substrings above scattered characters', () => {
+            const prefix = getFuzzyMatchScore('open', 'Open Display settings');
+            const word = getFuzzyMatchScore('display', 'Open Display settings');
+            const substring = getFuzzyMatchScore('play', 'Open Display settings');
+            const scattered = getFuzzyMatchScore('ods', 'Open Display settings');
+
+            expect(prefix).toBeGreaterThan(word);
+            expect(word).toBeGreaterThan(substring);
+            expect(substring).toBeGreaterThan(scattered);
+            expect(scattered).toBeGreaterThan(0);
+        });
+
+        test('should ignore case', () => {
+            expect(getFuzzyMatchScore('DISPLAY', 'Open Display settings')).toBe(getFuzzyMatchScore('display', 'Open Display settings'));
+        });
+
+        test('should not match characters which are out of order or missing', () => {
+            expect(getFuzzyMatchScore('sdo', 'Open Display settings')).toBe(0);
+            expect(getFuzzyMatchScore('openx', 'Open Display settings')).toBe(0);
+        });
+    });
+
+    describe('getUsageBoost', () => {
+        const now = 100 * DAY;
+
+        test('should not boost commands which were never run', () => {
+            expect(getUsageBoost({}, 'settings.display', now)).toBe(0);
+        });
+
+        test('should boost commands run more often', () => {
+            const usage = {
+                'settings.display': {count: 1, lastUsedAt: now},
+                'settings.sidebar': {count: 5, lastUsedAt: now},
+            };
+
+            expect(getUsageBoost(usage, 'settings.sidebar', now)).toBeGreaterThan(getUsageBoost(usage, 'settings.display', now));
+        });
+
+        test('should halve the boost every week', () => {
+            const usage = {'settings.display': {count: 3, lastUsedAt: now - (7 * DAY)}};
+
+            expect(getUsageBoost(usage, 'settings.display', now)).toBeCloseTo(getUsageBoost(usage, 'settings.display', now - (7 * DAY)) / 2);
+        });
+    });
+
+    describe('rankPaletteCommands', () => {
+        const now = 100 * DAY;
+        const display = makeCommand('settings.display', 'Open Display settings', ['settings']);
+        const sidebar = makeCommand('settings.sidebar', 'Open Sidebar settings', ['settings']);
+        const theme = makeCommand('theme.dark', 'Switch to the Onyx theme', ['theme']);
+        const commands = [display, sidebar, theme];
+
+        test('should only return matching commands with the best match first', () => {
+            expect(rankPaletteCommands(commands, 'side', {}, now)).toEqual([sidebar]);
+            expect(rankPaletteCommands(commands, 'theme', {}, now)).toEqual([theme]);
+        });
+
+        test('should sort commands matching equally by title', () => {
+            expect(rankPaletteCommands(commands, 'open', {}, now)).toEqual([display, sidebar]);
+        });
+
+        test('should raise commands which the user runs often', () => {
+            const usage: PaletteCommandUsageMap = {'settings.sidebar': {count: 4, lastUsedAt: now}};
+
+            expect(rankPaletteCommands(commands, 'open', usage, now)).toEqual([sidebar, display]);
+        });
+
+        test('should only return commands run before without a query', () => {
+            const usage: PaletteCommandUsageMap = {
+                'theme.dark': {count: 1, lastUsedAt: now},
+                'settings.display': {count: 6, lastUsedAt: now},
+            };
+
+            expect(rankPaletteCommands(commands, '', {}, now)).toEqual([]);
+            expect(rankPaletteCommands(commands, '', usage, now)).toEqual([display, theme]);
+        });
+    });
+
+    describe('addPaletteCommandUsage', () => {
+        test('should count each time a command is run', () => {
+            let usage = addPaletteCommandUsage({}, 'settings.display', 1000);
+            usage = addPaletteCommandUsage(usage, 'settings.display', 2000);
+
+            expect(usage).toEqual({'settings.display': {count: 2, lastUsedAt: 2000}});
+        });
+
+        test('should forget the least recently used commands', () => {
+            let usage: PaletteCommandUsageMap = {};
+            for (let i = 0; i < MAX_REMEMBERED_COMMANDS; i++) {
+                usage = addPaletteCommandUsage(usage, `command${i}`, i);
+            }
+
+            usage = addPaletteCommandUsage(usage, 'command0', MAX_REMEMBERED_COMMANDS);
+            usage = addPaletteCommandUsage(usage, 'new_command', MAX_REMEMBERED_COMMANDS + 1);
+
+            expect(Object.keys(usage)).toHaveLength(MAX_REMEMBERED_COMMANDS);
+            expect(usage.command0).toBeDefined();
+            expect(usage.command1).toBeUndefined();
+            expect(usage.new_command).toBeDefined();
+        });
+    });
+});
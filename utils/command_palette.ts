@@ -0,0 +1,130 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {PaletteCommand, PaletteCommandUsageMap} from 'types/store/command_palette';
+
+// Scores are only compared with each other, so these only need to keep matches of different kinds in order
+const PREFIX_MATCH_SCORE = 100;
+const WORD_MATCH_SCORE = 80;
+const SUBSTRING_MATCH_SCORE = 60;
+const WORD_START_CHARACTER_SCORE = 3;
+const CONSECUTIVE_CHARACTER_SCORE = 2;
+
+const MAX_USAGE_BOOST = 40;
+const USAGE_HALF_LIFE = 7 * 24 * 60 * 60 * 1000;
+
+// MAX_REMEMBERED_COMMANDS is how many commands are kept in the usage history, dropping the least recently used ones
+export const MAX_REMEMBERED_COMMANDS = 50;
+
+function isWordStart(text: string, index: number) {
+    return index === 0 || (/[\s\-_/.]/).test(text[index - 1]);
+}
+
+// getFuzzyMatchScore returns how well a query matches some text or 0 if it doesn't. Matching the whole query at the
+// start of the text or a word scores highest, followed by matching it anywhere in the text and then by matching its
+// characters in order with gaps between them.
+export function getFuzzyMatchScore(query: string, text: string): number {
+    const q = query.trim().toLowerCase();
+    const t = text.toLowerCase();
+    if (!q) {
+        return 0;
+    }
+
+    const index = t.indexOf(q);
+    if (index === 0) {
+        return PREFIX_MATCH_SCORE;
+    } else if (index > 0) {
+        return (isWordStart(t, index) ? WORD_MATCH_SCORE : SUBSTRING_MATCH_SCORE) - Math.min(index, 10);
+    }
+
+    let score = 0;
+    let lastMatch = -1;
+    for (const char of q) {
+        if (char === ' ') {
+            continue;
+        }
+
+        const match = t.indexOf(char, lastMatch + 1);
+        if (match === -1) {
+            return 0;
+        }
+
+        score += 1;
+        if (isWordStart(t, match)) {
+            score += WORD_START_CHARACTER_SCORE;
+        }
+        if (match === lastMatch + 1) {
+            score += CONSECUTIVE_CHARACTER_SCORE;
+        }
+
+        lastMatch = match;
+    }
+
+    // Keep scattered matches below any substring match
+    return Math.min(score, SUBSTRING_MATCH_SCORE - 11);
+}
+
+export function getCommandMatchScore(query: string, command: PaletteCommand): number {
+    return Math.max(
+        getFuzzyMatchScore(query, command.title),
+        ...(command.keywords || []).map((keyword) => getFuzzyMatchScore(query, keyword) * 0.9),
+    );
+}
+
+// getUsageBoost returns how much to raise a command in the results because the user has run it before. The boost
+// grows with how often the command was run and halves every week since it was last run.
+export function getUsageBoost(usage: PaletteCommandUsageMap, commandId: string, now: number): number {
+    const commandUsage = usage[commandId];
+    if (!commandUsage) {
+        return 0;
+    }
+
+    const frequency = Math.min(Math.log2(1 + commandUsage.count) * 10, MAX_USAGE_BOOST);
+    const recency = Math.pow(0.5, Math.max(now - commandUsage.lastUsedAt, 0) / USAGE_HALF_LIFE);
+
+    return frequency * recency;
+}
+
+// rankPaletteCommands returns the commands matching the query with the best matches first. Without a query, it
+// returns the commands which the user has run before with the most used ones first.
+export function rankPaletteCommands(commands: PaletteCommand[], query: string, usage: PaletteCommandUsageMap, now: number): PaletteCommand[] {
+    const scored = [];
+
+    for (const command of commands) {
+        const matchScore = query.trim() ? getCommandMatchScore(query, command) : 0;
+        if (query.trim() && !matchScore) {
+            continue;
+        }
+
+        const usageBoost = getUsageBoost(usage, command.id, now);
+        if (!query.trim() && !usageBoost) {
+            continue;
+        }
+
+        scored.push({command, score: matchScore + usageBoost});
+    }
+
+    return scored.
+        sort((a, b) => b.score - a.score || a.command.title.localeCompare(b.command.title)).
+        map(({command}) => command);
+}
+
+// addPaletteCommandUsage returns the usage history after the user has run the given command
+export function addPaletteCommandUsage(usage: PaletteCommandUsageMap, commandId: string, now: number): PaletteCommandUsageMap {
+    const updated = {
+        ...usage,
+        [commandId]: {
+            count: (usage[commandId]?.count || 0) + 1,
+            lastUsedAt: now,
+        },
+    };
+
+    const ids = Object.keys(updated);
+    if (ids.length > MAX_REMEMBERED_COMMANDS) {
+        ids.sort((a, b) => updated[b].lastUsedAt - updated[a].lastUsedAt).
+            slice(MAX_REMEMBERED_COMMANDS).
+            forEach((id) => Reflect.deleteProperty(updated, id));
+    }
+
+    return updated;
+}
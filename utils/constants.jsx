@@ -71,6 +71,7 @@ export const Preferences = {
     CATEGORY_DISPLAY_SETTINGS: 'display_settings',
     CATEGORY_SIDEBAR_SETTINGS: 'sidebar_settings',
     CATEGORY_ADVANCED_SETTINGS: 'advanced_settings',
+    KEYBOARD_SHORTCUTS: 'keyboard_shortcuts',
     TUTORIAL_STEP: 'tutorial_step',
     CHANNEL_DISPLAY_MODE: 'channel_display_mode',
     CHANNEL_DISPLAY_MODE_CENTERED: 'centered',
@@ -86,6 +87,8 @@ export const Preferences = {
     CLICK_TO_REPLY: 'click_to_reply',
     CLICK_TO_REPLY_DEFAULT: 'true',
     COLLAPSED_REPLY_THREADS_FALLBACK_DEFAULT: 'off',
+    SAVED_THREAD_VIEWS: 'saved_thread_views',
+    SAVED_SEARCHES: 'saved_searches',
     LINK_PREVIEW_DISPLAY: 'link_previews',
     LINK_PREVIEW_DISPLAY_DEFAULT: 'true',
     COLLAPSE_DISPLAY: 'collapse_previews',
@@ -97,6 +100,7 @@ export const Preferences = {
     CATEGORY_THEME: 'theme',
     CATEGORY_FLAGGED_POST: 'flagged_post',
     CATEGORY_NOTIFICATIONS: 'notifications',
+    NOTIFICATION_RULES: 'notification_rules',
     EMAIL_INTERVAL: 'email_interval',
     INTERVAL_IMMEDIATE: 30, // "immediate" is a 30 second interval
     INTERVAL_FIFTEEN_MINUTES: 15 * 60,
@@ -115,6 +119,9 @@ export const Preferences = {
     ONE_CLICK_REACTIONS_ENABLED: 'one_click_reactions_enabled',
     ONE_CLICK_REACTIONS_ENABLED_DEFAULT: 'true',
 
+    // Plugins save user settings in a category made of this followed by their ID
+    CATEGORY_PLUGIN_PREFIX: 'pp_',
+
     // For one off things that have a special, attention-grabbing UI until you interact with them
     TOUCHED: 'touched',
 
@@ -123,6 +130,9 @@ export const Preferences = {
 
     // A/B test preference value
     AB_TEST_PREFERENCE_VALUE: 'ab_test_preference_value',
+
+    // The server rejects preferences with longer values
+    MAX_VALUE_LENGTH: 2000,
 };
 
 // For one off things that have a special, attention-grabbing UI until you interact with them
@@ -158,6 +168,8 @@ export const ActionTypes = keyMirror({
     UPDATE_RHS_SEARCH_TERMS: null,
     UPDATE_RHS_SEARCH_TYPE: null,
     UPDATE_RHS_SEARCH_RESULTS_TERMS: null,
+    UPDATE_RHS_SEARCH_RESULTS_SORT: null,
+    UPDATE_RHS_SEARCH_RESULTS_GROUPING: null,
 
     SET_RHS_EXPANDED: null,
     TOGGLE_RHS_EXPANDED: null,
@@ -190,6 +202,10 @@ export const ActionTypes = keyMirror({
     RECEIVED_ADMIN_CONSOLE_REDUCER: null,
     REMOVED_ADMIN_CONSOLE_REDUCER: null,
     RECEIVED_ADMIN_CONSOLE_CUSTOM_COMPONENT: null,
+    RECEIVED_PLUGIN_LOAD_ERROR: null,
+    RECEIVED_PLUGIN_RENDER_ERROR: null,
+    RECEIVED_PLUGIN_HOOK_RESULTS: null,
+    ENABLED_PLUGIN_COMPONENTS: null,
 
     MODAL_OPEN: null,
     MODAL_CLOSE: null,
@@ -226,6 +242,7 @@ export const ActionTypes = keyMirror({
 
     INCREMENT_WS_ERROR_COUNT: null,
     RESET_WS_ERROR_COUNT: null,
+    WEBSOCKET_CONNECTION_STATE_CHANGED: null,
     RECEIVED_POSTS_FOR_CHANNEL_AT_TIME: null,
     CHANNEL_POSTS_STATUS: null,
     CHANNEL_SYNC_STATUS: null,
@@ -246,6 +263,11 @@ export const ActionTypes = keyMirror({
     UPDATE_TOAST_STATUS: null,
     UPDATE_THREAD_TOAST_STATUS: null,
 
+    OPEN_FIND_IN_CHANNEL: null,
+    CLOSE_FIND_IN_CHANNEL: null,
+    UPDATE_FIND_IN_CHANNEL_TERMS: null,
+    SELECT_FIND_IN_CHANNEL_MATCH: null,
+
     SIDEBAR_DRAGGING_SET_STATE: null,
     SIDEBAR_DRAGGING_STOP: null,
     ADD_NEW_CATEGORY_ID: null,
@@ -351,6 +373,7 @@ export const ModalIdentifiers = {
     KEYBOARD_SHORTCUTS_MODAL: 'keyboar_shortcuts_modal',
     USERS_TO_BE_REMOVED: 'users_to_be_removed',
     UPLOAD_LICENSE: 'upload_license',
+    SCHEDULE_POST: 'schedule_post',
 };
 
 export const UserStatuses = {
@@ -406,6 +429,13 @@ export const A11yCustomEventTypes = {
     UPDATE: 'a11yupdate',
 };
 
+// WebSocketHeartbeat describes how often the websocket connection is checked by pinging the server
+export const WebSocketHeartbeat = {
+    PING_INTERVAL: 30000, // 30 sec
+    PONG_TIMEOUT: 10000, // 10 sec
+    MAX_MISSED_PONGS: 2,
+};
+
 export const SocketEvents = {
     POSTED: 'posted',
     POST_EDITED: 'post_edited',
@@ -471,6 +501,12 @@ export const SocketEvents = {
     THREAD_UPDATED: 'thread_updated',
     THREAD_FOLLOW_CHANGED: 'thread_follow_changed',
     THREAD_READ_CHANGED: 'thread_read_changed',
+    DRAFT_CREATED: 'draft_created',
+    DRAFT_UPDATED: 'draft_updated',
+    DRAFT_DELETED: 'draft_deleted',
+    SCHEDULED_POST_CREATED: 'scheduled_post_created',
+    SCHEDULED_POST_UPDATED: 'scheduled_post_updated',
+    SCHEDULED_POST_DELETED: 'scheduled_post_deleted',
 };
 
 export const TutorialSteps = {
@@ -614,6 +650,8 @@ export const SearchTypes = keyMirror({
     SET_TEAM_LIST_SEARCH: null,
     SET_CHANNEL_LIST_SEARCH: null,
     SET_CHANNEL_LIST_FILTERS: null,
+    RECEIVED_SAVED_SEARCH_ALERT: null,
+    CLEAR_SAVED_SEARCH_ALERTS: null,
 });
 
 export const StorageTypes = keyMirror({
@@ -637,6 +675,8 @@ export const StoragePrefixes = {
     LANDING_PREFERENCE: '__landing-preference__',
     CHANNEL_CATEGORY_COLLAPSED: 'channelCategoryCollapsed_',
     INLINE_IMAGE_VISIBLE: 'isInlineImageVisible_',
+    OUTBOX: 'outbox_',
+    COMMAND_PALETTE_USAGE: 'commandPaletteUsage',
 };
 
 export const LandingPreferenceTypes = {
@@ -745,6 +785,7 @@ export const AdvancedSections = {
     CONTROL_SEND: 'advancedCtrlSend',
     FORMATTING: 'formatting',
     JOIN_LEAVE: 'joinLeave',
+    KEYBOARD_SHORTCUTS: 'keyboardShortcuts',
     PREVIEW_FEATURES: 'advancedPreviewFeatures',
 };
 
@@ -1001,6 +1042,7 @@ export const PostListRowListIds = {
     NEWER_MESSAGES_LOADER: 'NEWER_MESSAGES_LOADER',
     LOAD_OLDER_MESSAGES_TRIGGER: 'LOAD_OLDER_MESSAGES_TRIGGER',
     LOAD_NEWER_MESSAGES_TRIGGER: 'LOAD_NEWER_MESSAGES_TRIGGER',
+    THREAD_CATCH_UP: 'THREAD_CATCH_UP',
 };
 
 export const exportFormats = {
@@ -1607,14 +1649,20 @@ export const Constants = {
     MENTION_PUBLIC_CHANNELS: 'mention.public.channels',
     MENTION_PRIVATE_CHANNELS: 'mention.private.channels',
     MENTION_RECENT_CHANNELS: 'mention.recent.channels',
+    PALETTE_COMMANDS: 'palette.commands',
     MENTION_SPECIAL: 'mention.special',
     MENTION_GROUPS: 'search.group',
     DEFAULT_NOTIFICATION_DURATION: 5000,
+    NOTIFICATION_BATCH_WINDOW: 10000,
     STATUS_INTERVAL: 60000,
     AUTOCOMPLETE_TIMEOUT: 100,
     AUTOCOMPLETE_SPLIT_CHARACTERS: ['.', '-', '_'],
     ANIMATION_TIMEOUT: 1000,
     SEARCH_TIMEOUT_MILLISECONDS: 100,
+    DRAFT_SYNC_TIMEOUT_MILLISECONDS: 2000,
+    SEARCH_RESULT_CONTEXT_SIZE: 5,
+    MAX_PLUGIN_RENDER_ERRORS: 3,
+    MAX_PLUGIN_ERRORS_KEPT: 10,
     TELEMETRY_RUDDER_KEY: 'placeholder_rudder_key',
     TELEMETRY_RUDDER_DATAPLANE_URL: 'placeholder_rudder_dataplane_url',
     TEAMMATE_NAME_DISPLAY: {
@@ -1682,6 +1730,7 @@ t('suggestion.mention.private.channels');
 t('suggestion.mention.recent.channels');
 t('suggestion.mention.special');
 t('suggestion.mention.groups');
+t('suggestion.palette.commands');
 t('suggestion.search.public');
 t('suggestion.search.group');
 
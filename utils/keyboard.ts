@@ -0,0 +1,34 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import Constants from 'utils/constants';
+
+/**
+ * check keydown event for the given key, which is a pair of its key and key code
+ * @param  {object}  event - keydown event
+ * @param  {array}   key - one of Constants.KeyCodes
+ * @return {boolean}
+ */
+export function isKeyPressed(event: KeyboardEvent | React.KeyboardEvent, key: Array<string | number>): boolean {
+    // There are two types of keyboards
+    // 1. English with different layouts(Ex: Dvorak)
+    // 2. Different language keyboards(Ex: Russian)
+
+    if (event.keyCode === Constants.KeyCodes.COMPOSING[1]) {
+        return false;
+    }
+
+    // checks for event.key for older browsers and also for the case of different English layout keyboards.
+    if (typeof event.key !== 'undefined' && event.key !== 'Unidentified' && event.key !== 'Dead') {
+        const keyName = String(key[0]);
+        const isPressedByCode = event.key === keyName || event.key === keyName.toUpperCase();
+        if (isPressedByCode) {
+            return true;
+        }
+    }
+
+    // used for different language keyboards to detect the position of keys
+    return event.keyCode === key[1];
+}
@@ -0,0 +1,112 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import Constants from 'utils/constants';
+
+import type {ShortcutAction} from 'types/store/keyboard_shortcuts';
+
+import {
+    formatChord,
+    getChordFromEvent,
+    getShortcutBindings,
+    getShortcutConflicts,
+    matchesChord,
+    normalizeChord,
+    parseChord,
+    parseShortcutOverrides,
+} from './keyboard_shortcuts';
+
+describe('utils/keyboard_shortcuts', () => {
+    function makeEvent(key: Array<string | number>, modifiers: Partial<KeyboardEvent> = {}) {
+        return {key: key[0], keyCode: key[1], ...modifiers} as unknown as KeyboardEvent;
+    }
+
+    const actions: ShortcutAction[] = [
+        {id: 'first', section: 'navigation', description: 'First', defaultChord: 'mod+K'},
+        {id: 'second', section: 'navigation', description: 'Second', defaultChord: 'shift+alt+J'},
+        {id: 'third', section: 'messages', description: 'Third', defaultChord: 'UP'},
+    ];
+
+    describe('parseChord', () => {
+        test('should split a chord into its modifiers and key', () => {
+            expect(parseChord('mod+shift+K')).toEqual({modifiers: ['mod', 'shift'], key: 'K'});
+            expect(parseChord('ESCAPE')).toEqual({modifiers: [], key: 'ESCAPE'});
+        });
+
+        test('should reject unknown modifiers and keys which can\'t be bound', () => {
+            expect(parseChord('')).toBeNull();
+            expect(parseChord('meta+K')).toBeNull();
+            expect(parseChord('mod+NOT_A_KEY')).toBeNull();
+            expect(parseChord('mod+SHIFT')).toBeNull();
+            expect(parseChord('NUMPAD_1')).toBeNull();
+        });
+    });
+
+    test('normalizeChord should order the modifiers', () => {
+        expect(normalizeChord('shift+alt+mod+K')).toBe('mod+alt+shift+K');
+        expect(normalizeChord('shift+shift+K')).toBe('shift+K');
+        expect(normalizeChord('shift+')).toBe('');
+    });
+
+    test('getChordFromEvent should wait for a key other than a modifier', () => {
+        expect(getChordFromEvent(makeEvent(Constants.KeyCodes.SHIFT, {shiftKey: true}))).toBeNull();
+        expect(getChordFromEvent(makeEvent(Constants.KeyCodes.K, {ctrlKey: true, shiftKey: true}))).toBe('mod+shift+K');
+        expect(getChordFromEvent(makeEvent(Constants.KeyCodes.UP, {altKey: true}))).toBe('alt+UP');
+    });
+
+    describe('matchesChord', () => {
+        test('should require exactly the modifiers of the chord', () => {
+            expect(matchesChord(makeEvent(Constants.KeyCodes.K, {ctrlKey: true}), 'mod+K')).toBe(true);
+            expect(matchesChord(makeEvent(Constants.KeyCodes.K, {ctrlKey: true, shiftKey: true}), 'mod+K')).toBe(false);
+            expect(matchesChord(makeEvent(Constants.KeyCodes.K), 'mod+K')).toBe(false);
+            expect(matchesChord(makeEvent(Constants.KeyCodes.J, {ctrlKey: true}), 'mod+K')).toBe(false);
+        });
+
+        test('should treat ctrl as mod outside of macOS', () => {
+            expect(matchesChord(makeEvent(Constants.KeyCodes.K, {ctrlKey: true}), 'ctrl+K')).toBe(true);
+        });
+
+        test('should never match an invalid or disabled chord', () => {
+            expect(matchesChord(makeEvent(Constants.KeyCodes.K), '')).toBe(false);
+            expect(matchesChord(makeEvent(Constants.KeyCodes.K), 'hyper+K')).toBe(false);
+        });
+    });
+
+    test('formatChord should return the labels of the keys', () => {
+        expect(formatChord('shift+mod+K')).toEqual(['Ctrl', 'Shift', 'K']);
+        expect(formatChord('alt+UP')).toEqual(['Alt', 'Up']);
+        expect(formatChord('mod+FORWARD_SLASH')).toEqual(['Ctrl', '/']);
+        expect(formatChord('')).toEqual([]);
+    });
+
+    test('parseShortcutOverrides should ignore values which aren\'t objects', () => {
+        expect(parseShortcutOverrides('')).toEqual({});
+        expect(parseShortcutOverrides('not json')).toEqual({});
+        expect(parseShortcutOverrides('["mod+K"]')).toEqual({});
+        expect(parseShortcutOverrides('{"first":"mod+J"}')).toEqual({first: 'mod+J'});
+    });
+
+    test('getShortcutBindings should prefer valid overrides to the defaults', () => {
+        expect(getShortcutBindings(actions, {})).toEqual({
+            first: 'mod+K',
+            second: 'alt+shift+J',
+            third: 'UP',
+        });
+
+        expect(getShortcutBindings(actions, {first: 'shift+mod+J', second: '', third: 'mod+NOT_A_KEY'})).toEqual({
+            first: 'mod+shift+J',
+            second: '',
+            third: 'UP',
+        });
+    });
+
+    test('getShortcutConflicts should return the actions which share a chord', () => {
+        expect(getShortcutConflicts({first: 'mod+K', second: 'alt+J', third: ''})).toEqual({});
+
+        expect(getShortcutConflicts({first: 'mod+K', second: 'mod+K', third: 'mod+K', fourth: '', fifth: ''})).toEqual({
+            first: ['second', 'third'],
+            second: ['first', 'third'],
+            third: ['first', 'second'],
+        });
+    });
+});
@@ -0,0 +1,331 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React from 'react';
+
+import Constants from 'utils/constants';
+import {t} from 'utils/i18n';
+import {isKeyPressed} from 'utils/keyboard';
+import {isMac} from 'utils/user_agent';
+
+import type {
+    ShortcutAction,
+    ShortcutBindings,
+    ShortcutChord,
+    ShortcutModifier,
+    ShortcutOverrides,
+} from 'types/store/keyboard_shortcuts';
+
+type KeyName = keyof typeof Constants.KeyCodes;
+
+const MODIFIERS: ShortcutModifier[] = ['mod', 'ctrl', 'alt', 'shift'];
+
+// Keys which can't be part of a chord, either because they're modifiers or because they duplicate another key on
+// the numeric keypad
+const UNBINDABLE_KEYS = [
+    'SHIFT', 'CTRL', 'ALT', 'CMD', 'CAPS_LOCK', 'NUM_LOCK', 'COMPOSING',
+    'MULTIPLY', 'ADD', 'SUBTRACT', 'DECIMAL', 'DIVIDE',
+];
+
+const KEY_LABELS: Partial<Record<KeyName, string>> = {
+    UP: 'Up',
+    DOWN: 'Down',
+    LEFT: 'Left',
+    RIGHT: 'Right',
+    SPACE: 'Space',
+    ESCAPE: 'Esc',
+};
+
+export const ShortcutActionIds = {
+    NAV_PREV: 'nav.prev',
+    NAV_NEXT: 'nav.next',
+    NAV_UNREAD_PREV: 'nav.unread_prev',
+    NAV_UNREAD_NEXT: 'nav.unread_next',
+    NAV_JUMP_TO_UNREAD: 'nav.jump_to_unread',
+    TEAM_PREV: 'team.prev',
+    TEAM_NEXT: 'team.next',
+    SWITCHER: 'nav.switcher',
+    DM_MENU: 'nav.dm_menu',
+    SETTINGS: 'nav.settings',
+    MENTIONS: 'nav.mentions',
+    FOCUS_CENTER: 'nav.focus_center',
+    TOGGLE_RHS: 'nav.toggle_rhs',
+    SHORTCUTS: 'nav.shortcuts',
+    MARK_READ: 'channel.mark_read',
+    FIND_IN_CHANNEL: 'channel.find',
+    EDIT_LAST: 'msg.edit_last',
+    REPLY_LAST: 'msg.reply_last',
+};
+
+// BUILT_IN_SHORTCUT_ACTIONS are the actions provided by the app itself in the order in which they're listed
+export const BUILT_IN_SHORTCUT_ACTIONS: ShortcutAction[] = [
+    {
+        id: ShortcutActionIds.NAV_PREV,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_prev'), defaultMessage: 'Previous channel'},
+        defaultChord: 'alt+UP',
+    },
+    {
+        id: ShortcutActionIds.NAV_NEXT,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_next'), defaultMessage: 'Next channel'},
+        defaultChord: 'alt+DOWN',
+    },
+    {
+        id: ShortcutActionIds.NAV_UNREAD_PREV,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_unread_prev'), defaultMessage: 'Previous unread channel'},
+        defaultChord: 'alt+shift+UP',
+    },
+    {
+        id: ShortcutActionIds.NAV_UNREAD_NEXT,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_unread_next'), defaultMessage: 'Next unread channel'},
+        defaultChord: 'alt+shift+DOWN',
+    },
+    {
+        id: ShortcutActionIds.NAV_JUMP_TO_UNREAD,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_jump_to_unread'), defaultMessage: 'Jump to the first new message'},
+        defaultChord: 'alt+shift+N',
+    },
+    {
+        id: ShortcutActionIds.TEAM_PREV,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.team_prev'), defaultMessage: 'Previous team'},
+        defaultChord: 'mod+alt+UP',
+    },
+    {
+        id: ShortcutActionIds.TEAM_NEXT,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.team_next'), defaultMessage: 'Next team'},
+        defaultChord: 'mod+alt+DOWN',
+    },
+    {
+        id: ShortcutActionIds.SWITCHER,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_switcher'), defaultMessage: 'Quick channel navigation'},
+        defaultChord: 'mod+K',
+    },
+    {
+        id: ShortcutActionIds.DM_MENU,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_dm_menu'), defaultMessage: 'Direct messages menu'},
+        defaultChord: 'mod+shift+K',
+    },
+    {
+        id: ShortcutActionIds.SETTINGS,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_settings'), defaultMessage: 'Settings'},
+        defaultChord: 'mod+shift+A',
+    },
+    {
+        id: ShortcutActionIds.MENTIONS,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_mentions'), defaultMessage: 'Recent mentions'},
+        defaultChord: 'mod+shift+M',
+    },
+    {
+        id: ShortcutActionIds.FOCUS_CENTER,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_focus_center'), defaultMessage: 'Set focus to input field'},
+        defaultChord: 'mod+shift+L',
+    },
+    {
+        id: ShortcutActionIds.TOGGLE_RHS,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_toggle_rhs'), defaultMessage: 'Open or close the right sidebar'},
+        defaultChord: 'mod+PERIOD',
+    },
+    {
+        id: ShortcutActionIds.SHORTCUTS,
+        section: 'navigation',
+        description: {id: t('shortcuts.action.nav_shortcuts'), defaultMessage: 'Keyboard shortcuts'},
+        defaultChord: 'mod+FORWARD_SLASH',
+    },
+    {
+        id: ShortcutActionIds.MARK_READ,
+        section: 'messages',
+        description: {id: t('shortcuts.action.channel_mark_read'), defaultMessage: 'Mark the current channel as read'},
+        defaultChord: 'shift+ESCAPE',
+    },
+    {
+        id: ShortcutActionIds.FIND_IN_CHANNEL,
+        section: 'messages',
+        description: {id: t('shortcuts.action.channel_find'), defaultMessage: 'Find in the current channel'},
+        defaultChord: 'mod+F',
+    },
+    {
+        id: ShortcutActionIds.EDIT_LAST,
+        section: 'messages',
+        description: {id: t('shortcuts.action.msg_edit_last'), defaultMessage: 'Edit last message in channel'},
+        defaultChord: 'UP',
+        emptyInputOnly: true,
+    },
+    {
+        id: ShortcutActionIds.REPLY_LAST,
+        section: 'messages',
+        description: {id: t('shortcuts.action.msg_reply_last'), defaultMessage: 'Reply to last message in channel'},
+        defaultChord: 'shift+UP',
+        emptyInputOnly: true,
+    },
+];
+
+function isBindableKey(key: string): key is KeyName {
+    return key in Constants.KeyCodes && !UNBINDABLE_KEYS.includes(key) && !key.startsWith('NUMPAD_');
+}
+
+// parseChord splits a chord into its modifiers and key or returns null if it isn't valid
+export function parseChord(chord: ShortcutChord): {modifiers: ShortcutModifier[]; key: KeyName} | null {
+    const parts = chord.split('+');
+    const key = parts.pop();
+    if (!key || !isBindableKey(key)) {
+        return null;
+    }
+
+    if (parts.some((part) => !MODIFIERS.includes(part as ShortcutModifier))) {
+        return null;
+    }
+
+    return {modifiers: parts as ShortcutModifier[], key};
+}
+
+// normalizeChord orders and deduplicates the modifiers of a chord so that equal chords can be compared as strings
+export function normalizeChord(chord: ShortcutChord): ShortcutChord {
+    const parsed = parseChord(chord);
+    if (!parsed) {
+        return '';
+    }
+
+    return [...MODIFIERS.filter((modifier) => parsed.modifiers.includes(modifier)), parsed.key].join('+');
+}
+
+// getChordFromEvent returns the chord pressed in a keydown event or null if only modifiers are pressed
+export function getChordFromEvent(event: KeyboardEvent | React.KeyboardEvent): ShortcutChord | null {
+    const key = Object.keys(Constants.KeyCodes).find((name) => isBindableKey(name) && isKeyPressed(event, Constants.KeyCodes[name]));
+    if (!key) {
+        return null;
+    }
+
+    const mac = isMac();
+    const modifiers: ShortcutModifier[] = [];
+    if (mac ? event.metaKey : event.ctrlKey) {
+        modifiers.push('mod');
+    }
+    if (mac && event.ctrlKey) {
+        modifiers.push('ctrl');
+    }
+    if (event.altKey) {
+        modifiers.push('alt');
+    }
+    if (event.shiftKey) {
+        modifiers.push('shift');
+    }
+
+    return [...modifiers, key].join('+');
+}
+
+// matchesChord returns true if exactly the modifiers and key of a chord are pressed in a keydown event. Outside of
+// macOS, "ctrl" is the same as "mod".
+export function matchesChord(event: KeyboardEvent | React.KeyboardEvent, chord: ShortcutChord): boolean {
+    const parsed = parseChord(chord);
+    if (!parsed) {
+        return false;
+    }
+
+    const {modifiers, key} = parsed;
+    const hasMod = modifiers.includes('mod');
+    const hasCtrl = modifiers.includes('ctrl');
+
+    if (isMac()) {
+        if (Boolean(event.metaKey) !== hasMod || Boolean(event.ctrlKey) !== hasCtrl) {
+            return false;
+        }
+    } else if (Boolean(event.ctrlKey) !== (hasMod || hasCtrl)) {
+        return false;
+    }
+
+    if (Boolean(event.altKey) !== modifiers.includes('alt') || Boolean(event.shiftKey) !== modifiers.includes('shift')) {
+        return false;
+    }
+
+    return isKeyPressed(event, Constants.KeyCodes[key]);
+}
+
+// formatChord returns the labels of the keys in a chord as they're shown to the user on the current platform
+export function formatChord(chord: ShortcutChord): string[] {
+    const parsed = parseChord(chord);
+    if (!parsed) {
+        return [];
+    }
+
+    const mac = isMac();
+    const modifierLabels: Record<ShortcutModifier, string> = {
+        mod: mac ? '⌘' : 'Ctrl',
+        ctrl: 'Ctrl',
+        alt: mac ? '⌥' : 'Alt',
+        shift: 'Shift',
+    };
+
+    const keyValue = Constants.KeyCodes[parsed.key][0] as string;
+    const keyLabel = KEY_LABELS[parsed.key] || (keyValue.length === 1 ? keyValue.toUpperCase() : keyValue);
+
+    return [
+        ...MODIFIERS.filter((modifier) => parsed.modifiers.includes(modifier)).map((modifier) => modifierLabels[modifier]),
+        keyLabel,
+    ];
+}
+
+export function parseShortcutOverrides(value: string): ShortcutOverrides {
+    if (!value) {
+        return {};
+    }
+
+    try {
+        const overrides = JSON.parse(value);
+        return overrides && typeof overrides === 'object' && !Array.isArray(overrides) ? overrides : {};
+    } catch {
+        return {};
+    }
+}
+
+// getShortcutBindings resolves the chord of every action, preferring the user's overrides to the defaults. Invalid
+// overrides are ignored.
+export function getShortcutBindings(actions: ShortcutAction[], overrides: ShortcutOverrides): ShortcutBindings {
+    const bindings: ShortcutBindings = {};
+
+    for (const action of actions) {
+        const override = overrides[action.id];
+
+        if (override === '') {
+            bindings[action.id] = '';
+        } else if (typeof override === 'string' && parseChord(override)) {
+            bindings[action.id] = normalizeChord(override);
+        } else {
+            bindings[action.id] = normalizeChord(action.defaultChord);
+        }
+    }
+
+    return bindings;
+}
+
+// getShortcutConflicts returns the IDs of the actions which share their chord with another action
+export function getShortcutConflicts(bindings: ShortcutBindings): Record<ShortcutAction['id'], Array<ShortcutAction['id']>> {
+    const actionsByChord: Record<ShortcutChord, Array<ShortcutAction['id']>> = {};
+    for (const [id, chord] of Object.entries(bindings)) {
+        if (chord) {
+            actionsByChord[chord] = [...(actionsByChord[chord] || []), id];
+        }
+    }
+
+    const conflicts: Record<ShortcutAction['id'], Array<ShortcutAction['id']>> = {};
+    for (const ids of Object.values(actionsByChord)) {
+        if (ids.length > 1) {
+            for (const id of ids) {
+                conflicts[id] = ids.filter((other) => other !== id);
+            }
+        }
+    }
+
+    return conflicts;
+}
@@ -0,0 +1,57 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {MarkdownExtension} from 'plugins/registry_types';
+
+import EmojiMap from 'utils/emoji_map';
+import {escapeHtml, formatText} from 'utils/text_formatting';
+
+describe('Markdown extensions', () => {
+    const emojiMap = new EmojiMap(new Map());
+
+    const ticket: MarkdownExtension = {
+        type: 'inline',
+        pattern: /\bTICKET-(\d+)\b/,
+        render: (match) => `<a class="ticket" href="https://tickets.example.com/${match[1]}">${match[0]}</a>`,
+    };
+
+    const chart: MarkdownExtension = {
+        type: 'codeBlock',
+        language: 'chart',
+        render: (code) => `<div class="chart">${escapeHtml(code)}</div>`,
+    };
+
+    test('should format every match of an inline extension', () => {
+        const output = formatText('See TICKET-1 and TICKET-22', {markdownExtensions: [ticket]}, emojiMap);
+
+        expect(output).toContain('<a class="ticket" href="https://tickets.example.com/1">TICKET-1</a>');
+        expect(output).toContain('<a class="ticket" href="https://tickets.example.com/22">TICKET-22</a>');
+    });
+
+    test('should not format code with an inline extension', () => {
+        const output = formatText('`TICKET-1`', {markdownExtensions: [ticket]}, emojiMap);
+
+        expect(output).not.toContain('class="ticket"');
+    });
+
+    test('should leave matches which an inline extension does not render', () => {
+        const output = formatText('See TICKET-1', {markdownExtensions: [{...ticket, render: () => undefined}]}, emojiMap);
+
+        expect(output).toContain('See TICKET-1');
+        expect(output).not.toContain('class="ticket"');
+    });
+
+    test('should render code blocks of the language of a code block extension', () => {
+        const output = formatText('```chart\na <- b\n```', {markdownExtensions: [chart]}, emojiMap);
+
+        expect(output).toContain('<div class="chart">a &lt;- b</div>');
+        expect(output).not.toContain('post-code');
+    });
+
+    test('should render other code blocks as usual', () => {
+        const output = formatText('```\na <- b\n```', {markdownExtensions: [chart]}, emojiMap);
+
+        expect(output).not.toContain('class="chart"');
+        expect(output).toContain('post-code');
+    });
+});
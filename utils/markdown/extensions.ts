@@ -0,0 +1,19 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {CodeBlockMarkdownExtension, InlineMarkdownExtension, MarkdownExtension} from 'plugins/registry_types';
+
+// getInlineMarkdownExtensions returns the extensions registered by plugins which format syntax in the text of messages
+export function getInlineMarkdownExtensions(extensions: MarkdownExtension[] = []): InlineMarkdownExtension[] {
+    return extensions.filter((extension): extension is InlineMarkdownExtension => extension.type === 'inline');
+}
+
+// getCodeBlockMarkdownExtension returns the extension registered by a plugin which renders code blocks of the given
+// language, if there is one
+export function getCodeBlockMarkdownExtension(extensions: MarkdownExtension[] = [], language: string): CodeBlockMarkdownExtension | undefined {
+    if (!language) {
+        return undefined;
+    }
+
+    return extensions.find((extension): extension is CodeBlockMarkdownExtension => extension.type === 'codeBlock' && extension.language === language);
+}
@@ -1,6 +1,8 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
+import {loadLanguage} from 'utils/syntax_highlighting';
+
 import {format} from './index';
 
 describe('format', () => {
@@ -113,10 +115,54 @@ this is long text this is long text this is long text this is long text this is
 + something else
 ~~~`);
 
-        expect(output).toContain('<div class="post-code__line-numbers">1\n2</div>');
+        expect(output).toContain(
+            '<div class="post-code__line-numbers">' +
+                '<span class="post-code__line-number" data-code-block="1" data-code-line="1">1</span>\n' +
+                '<span class="post-code__line-number" data-code-block="1" data-code-line="2">2</span>' +
+            '</div>',
+        );
+    });
+
+    test('should number code blocks in the order in which they appear', () => {
+        const output = format(`~~~diff
+- something
+~~~
+
+~~~diff
++ something else
+~~~`);
+
+        expect(output).toContain('data-code-block="2" data-code-line="1"');
+    });
+
+    test('should highlight the given lines of code', () => {
+        const output = format(`~~~diff{2-3}
+- something
++ something else
++ another thing
+~~~`);
+
+        expect(output).toContain('<span class="post-code__line-number post-code__line-number--highlighted" data-code-block="1" data-code-line="2">2</span>');
+        expect(output).toContain('<span class="post-code__line post-code__line--highlighted">');
+        expect(output).toContain('<span class="post-code__line-number" data-code-block="1" data-code-line="1">1</span>');
     });
 
-    test('should generate valid HTML for code blocks with line numbers', () => {
+    test('should mark added and removed lines in diff mode', () => {
+        const output = format(`~~~diff-text
+-old
++new
+ same
+~~~`);
+
+        expect(output).toContain('post-code--diff');
+        expect(output).toContain('<span class="post-code__language">Text (Diff)</span>');
+        expect(output).toContain('<span class="post-code__line post-code__line--removed"><span class="post-code__diff-marker">-</span>old</span>');
+        expect(output).toContain('<span class="post-code__line post-code__line--added"><span class="post-code__diff-marker">+</span>new</span>');
+    });
+
+    test('should generate valid HTML for code blocks with line numbers', async () => {
+        await loadLanguage('python');
+
         const output = format(`\`\`\`python
     op.execute("""
         UPDATE events.settings
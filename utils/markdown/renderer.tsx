@@ -9,11 +9,13 @@ import * as TextFormatting from 'utils/text_formatting';
 import {getScheme, isUrlSafe, shouldOpenInNewTab} from 'utils/url';
 import EmojiMap from 'utils/emoji_map';
 
+import {getCodeBlockMarkdownExtension} from './extensions';
 import {parseImageDimensions} from './helpers';
 
 export default class Renderer extends marked.Renderer {
     private formattingOptions: TextFormatting.TextFormattingOptions;
     private emojiMap: EmojiMap;
+    private codeBlockCount = 0;
     public constructor(
         options: MarkedOptions,
         formattingOptions: TextFormatting.TextFormattingOptions,
@@ -29,9 +31,17 @@ export default class Renderer extends marked.Renderer {
         this.formattingOptions = formattingOptions;
     }
 
-    public code(code: string, language: string) {
-        let usedLanguage = language || '';
-        usedLanguage = usedLanguage.toLowerCase();
+    public code(code: string, info: string) {
+        const {language, diff, highlightedLines} = SyntaxHighlighting.parseCodeBlockInfo(info);
+        let usedLanguage = language;
+
+        const extension = getCodeBlockMarkdownExtension(this.formattingOptions.markdownExtensions, language);
+        if (extension) {
+            const html = extension.render(code);
+            if (html) {
+                return html;
+            }
+        }
 
         if (usedLanguage === 'tex' || usedLanguage === 'latex') {
             return `<div data-latex="${TextFormatting.escapeHtml(code)}"></div>`;
@@ -45,25 +55,44 @@ export default class Renderer extends marked.Renderer {
             usedLanguage = 'xml';
         }
 
+        // Code blocks are numbered so that links to their lines can tell them apart
+        this.codeBlockCount += 1;
+        const codeBlock = this.codeBlockCount;
+
         let className = 'post-code';
         if (!usedLanguage) {
             className += ' post-code--wrap';
         }
+        if (diff) {
+            className += ' post-code--diff';
+        }
+
+        const canHighlight = SyntaxHighlighting.canHighlight(usedLanguage);
 
         let header = '';
-        if (SyntaxHighlighting.canHighlight(usedLanguage)) {
+        if (canHighlight) {
             header = (
                 '<span class="post-code__language">' +
                     SyntaxHighlighting.getLanguageName(usedLanguage) +
+                    (diff ? ' (Diff)' : '') +
                 '</span>'
             );
         }
 
         let lineNumbers = '';
-        if (SyntaxHighlighting.canHighlight(usedLanguage)) {
+        if (canHighlight) {
+            const numbers = code.split(/\r\n|\n|\r/g).map((line, i) => {
+                let lineClassName = 'post-code__line-number';
+                if (SyntaxHighlighting.isLineInRanges(i + 1, highlightedLines)) {
+                    lineClassName += ' post-code__line-number--highlighted';
+                }
+
+                return `<span class="${lineClassName}" data-code-block="${codeBlock}" data-code-line="${i + 1}">${i + 1}</span>`;
+            });
+
             lineNumbers = (
                 '<div class="post-code__line-numbers">' +
-                    SyntaxHighlighting.renderLineNumbers(code) +
+                    numbers.join('\n') +
                 '</div>'
             );
         }
@@ -71,7 +100,25 @@ export default class Renderer extends marked.Renderer {
         // If we have to apply syntax highlighting AND highlighting of search terms, create two copies
         // of the code block, one with syntax highlighting applied and another with invisible text, but
         // search term highlighting and overlap them
-        const content = SyntaxHighlighting.highlight(usedLanguage, code);
+        let content;
+        if (canHighlight || highlightedLines.length) {
+            const lines = SyntaxHighlighting.highlightLines(usedLanguage, code, diff).map((line, i) => {
+                let lineClassName = 'post-code__line';
+                if (SyntaxHighlighting.isLineInRanges(i + 1, highlightedLines)) {
+                    lineClassName += ' post-code__line--highlighted';
+                }
+                if (line.change) {
+                    lineClassName += ` post-code__line--${line.change}`;
+                }
+
+                return `<span class="${lineClassName}">${line.html}</span>`;
+            });
+
+            content = lines.join('\n');
+        } else {
+            content = SyntaxHighlighting.highlight(usedLanguage, code);
+        }
+
         let searchedContent = '';
 
         if (this.formattingOptions.searchPatterns) {
@@ -0,0 +1,95 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {findMatchingTaskListItem, getTaskListItems, setTaskListItemChecked} from './task_list';
+
+describe('utils/markdown/task_list', () => {
+    describe('getTaskListItems', () => {
+        test('should find checked and unchecked items in any kind of list', () => {
+            const message = [
+                'To do:',
+                '- [ ] first',
+                '* [x] second',
+                '+ [X] third',
+                '1. [ ] fourth',
+                '  - [ ] nested',
+                '- not a task',
+            ].join('\n');
+
+            expect(getTaskListItems(message)).toEqual([
+                {line: 1, checked: false, text: 'first'},
+                {line: 2, checked: true, text: 'second'},
+                {line: 3, checked: true, text: 'third'},
+                {line: 4, checked: false, text: 'fourth'},
+                {line: 5, checked: false, text: 'nested'},
+            ]);
+        });
+
+        test('should find items inside of blockquotes', () => {
+            expect(getTaskListItems('> - [x] quoted')).toEqual([
+                {line: 0, checked: true, text: 'quoted'},
+            ]);
+        });
+
+        test('should skip items inside of code blocks', () => {
+            const message = [
+                '```',
+                '- [ ] code',
+                '```',
+                '~~~~md',
+                '- [ ] more code',
+                '~~~',
+                '~~~~',
+                '- [ ] real',
+            ].join('\n');
+
+            expect(getTaskListItems(message)).toEqual([
+                {line: 7, checked: false, text: 'real'},
+            ]);
+        });
+
+        test('should find no items when lines which look like items are not rendered as checkboxes', () => {
+            const message = [
+                '- [ ] first',
+                '',
+                'Code:',
+                '',
+                '    - [ ] indented code',
+                '',
+                '- [x] second',
+            ].join('\n');
+
+            expect(getTaskListItems(message)).toEqual([]);
+        });
+    });
+
+    describe('setTaskListItemChecked', () => {
+        const message = '- [ ] first\n> 2. [x] second\n- [ ] third';
+
+        test('should only change the given item', () => {
+            expect(setTaskListItemChecked(message, 0, true)).toBe('- [x] first\n> 2. [x] second\n- [ ] third');
+            expect(setTaskListItemChecked(message, 1, false)).toBe('- [ ] first\n> 2. [ ] second\n- [ ] third');
+        });
+
+        test('should return the message unchanged for a missing item', () => {
+            expect(setTaskListItemChecked(message, 3, true)).toBe(message);
+        });
+    });
+
+    describe('findMatchingTaskListItem', () => {
+        const item = {line: 1, checked: false, text: 'second'};
+
+        test('should keep the index of an item which has not moved', () => {
+            expect(findMatchingTaskListItem(item, 1, '- [x] first\n- [ ] second\n- [ ] second')).toBe(1);
+        });
+
+        test('should find an item which has moved by its text', () => {
+            expect(findMatchingTaskListItem(item, 1, '- [ ] new\n- [ ] first\n- [ ] second')).toBe(2);
+        });
+
+        test('should not match a removed or ambiguous item', () => {
+            expect(findMatchingTaskListItem(item, 1, '- [ ] first\n- [ ] third')).toBe(-1);
+            expect(findMatchingTaskListItem(item, 1, '- [ ] new\n- [ ] first\n- [ ] second\n- [x] second')).toBe(-1);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import marked from 'marked';
+
+export type TaskListItem = {
+    line: number;
+    checked: boolean;
+    text: string;
+};
+
+// Matches the start of a task list item, including any blockquote markers before it, in the same way that the
+// markdown renderer does
+const TASK_LIST_ITEM_PATTERN = /^(\s*(?:>\s*)*(?:[-*+]|\d+\.)\s+\[)([ xX])(\] )(.*)$/;
+const CODE_FENCE_PATTERN = /^\s*(?:>\s*)*(`{3,}|~{3,})/;
+
+// The markdown renderer draws a checkbox for a list item whose text starts like this
+const RENDERED_TASK_LIST_ITEM_PATTERN = /^\[([ |xX])] /;
+const RENDERED_ITEM_MARKER = '\u0001';
+
+// TaskListRenderer marks where the markdown renderer would draw the checkbox of each task list item. Nested items are
+// rendered before the item which contains them, so their positions in the output are used to put them in the order
+// in which the checkboxes appear.
+class TaskListRenderer extends marked.Renderer {
+    public listitem(text: string) {
+        const match = RENDERED_TASK_LIST_ITEM_PATTERN.exec(text);
+        if (!match) {
+            return text;
+        }
+
+        return RENDERED_ITEM_MARKER + (match[1] === ' ' ? ' ' : 'x') + text;
+    }
+}
+
+// getRenderedTaskListStates returns whether each checkbox which the markdown renderer draws for a message is checked
+function getRenderedTaskListStates(message: string): boolean[] {
+    const output = marked(message.split(RENDERED_ITEM_MARKER).join(''), {
+        renderer: new TaskListRenderer(),
+        sanitize: true,
+        gfm: true,
+        mangle: false,
+    });
+
+    return output.split(RENDERED_ITEM_MARKER).slice(1).map((part) => part.charAt(0) !== ' ');
+}
+
+// getTaskListItems returns the task list items in a message in the order in which they're rendered. Items inside of
+// code blocks are skipped since they're not rendered as checkboxes. The lines which look like items are compared with
+// the checkboxes which are actually rendered, and if they differ, such as because of an indented code block, no items
+// are returned so that a checkbox is never mapped to the wrong line.
+export function getTaskListItems(message: string): TaskListItem[] {
+    const items: TaskListItem[] = [];
+    let fence = '';
+
+    message.split('\n').forEach((line, i) => {
+        const fenceMatch = CODE_FENCE_PATTERN.exec(line);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1].startsWith(fence)) {
+                fence = '';
+            }
+
+            return;
+        }
+
+        if (fence) {
+            return;
+        }
+
+        const match = TASK_LIST_ITEM_PATTERN.exec(line);
+        if (match) {
+            items.push({
+                line: i,
+                checked: match[2] !== ' ',
+                text: match[4].trim(),
+            });
+        }
+    });
+
+    const rendered = getRenderedTaskListStates(message);
+    if (rendered.length !== items.length || rendered.some((checked, i) => checked !== items[i].checked)) {
+        return [];
+    }
+
+    return items;
+}
+
+// setTaskListItemChecked returns the message with the task list item at the given index checked or unchecked. The
+// message is returned unchanged if there's no such item.
+export function setTaskListItemChecked(message: string, index: number, checked: boolean): string {
+    const item = getTaskListItems(message)[index];
+    if (!item) {
+        return message;
+    }
+
+    const lines = message.split('\n');
+    lines[item.line] = lines[item.line].replace(TASK_LIST_ITEM_PATTERN, (match, start, mark, end, text) => {
+        return `${start}${checked ? 'x' : ' '}${end}${text}`;
+    });
+
+    return lines.join('\n');
+}
+
+// findMatchingTaskListItem finds the index of an item in an updated version of a message. The item is expected to be
+// at the same index, but if the list has been changed, it's looked for by its text instead. It returns -1 if the item
+// can't be found unambiguously.
+export function findMatchingTaskListItem(item: TaskListItem, index: number, message: string): number {
+    const items = getTaskListItems(message);
+
+    if (items[index] && items[index].text === item.text) {
+        return index;
+    }
+
+    const matching = items.reduce<number[]>((indexes, other, i) => (other.text === item.text ? [...indexes, i] : indexes), []);
+
+    return matching.length === 1 ? matching[0] : -1;
+}
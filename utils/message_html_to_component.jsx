@@ -5,12 +5,14 @@ import React from 'react';
 import {Parser, ProcessNodeDefinitions} from 'html-to-react';
 
 import AtMention from 'components/at_mention';
+import CodeBlockLineNumber from 'components/code_block_line_number';
 import LatexBlock from 'components/latex_block';
 import LatexInline from 'components/latex_inline';
 import LinkTooltip from 'components/link_tooltip/link_tooltip';
 import MarkdownImage from 'components/markdown_image';
 import PostEmoji from 'components/post_emoji';
 import PostEditedIndicator from 'components/post_view/post_edited_indicator';
+import TaskListCheckbox from 'components/task_list_checkbox';
 
 /*
  * Converts HTML to React components using html-to-react.
@@ -25,6 +27,8 @@ import PostEditedIndicator from 'components/post_view/post_edited_indicator';
  * - imagesMetadata - the dimensions of the image as retrieved from post.metadata.images.
  * - hasPluginTooltips - If specified, the LinkTooltip component is placed inside links. Defaults to false.
  * - channelId = If specified, to be passed along to ProfilePopover via AtMention
+ * - postId - If specified, the line numbers of code blocks are replaced with links to those lines of the post, and
+ *   the checkboxes of task lists can be checked off by users who can edit the post.
  */
 export function messageHtmlToComponent(html, isRHS, options = {}) {
     if (!html) {
@@ -34,6 +38,10 @@ export function messageHtmlToComponent(html, isRHS, options = {}) {
     const parser = new Parser();
     const processNodeDefinitions = new ProcessNodeDefinitions(React);
 
+    // Checkboxes are only rendered for task list items, so they're numbered in the same order as the items in the
+    // post's message
+    let taskListItemIndex = 0;
+
     function isValidNode() {
         return true;
     }
@@ -48,6 +56,16 @@ export function messageHtmlToComponent(html, isRHS, options = {}) {
                 const attribs = node.attribs || {};
                 node.attribs.checked = Boolean(attribs.checked);
 
+                if (options.postId) {
+                    return (
+                        <TaskListCheckbox
+                            postId={options.postId}
+                            index={taskListItemIndex++}
+                            checked={node.attribs.checked}
+                        />
+                    );
+                }
+
                 return React.createElement('input', {...node.attribs});
             },
         },
@@ -160,6 +178,23 @@ export function messageHtmlToComponent(html, isRHS, options = {}) {
         });
     }
 
+    if (options.postId) {
+        processingInstructions.push({
+            replaceChildren: false,
+            shouldProcessNode: (node) => node.type === 'tag' && node.name === 'span' && node.attribs['data-code-line'],
+            processNode: (node) => {
+                return (
+                    <CodeBlockLineNumber
+                        postId={options.postId}
+                        codeBlock={node.attribs['data-code-block']}
+                        line={node.attribs['data-code-line']}
+                        className={node.attribs.class}
+                    />
+                );
+            },
+        });
+    }
+
     if (!('latex' in options) || options.latex) {
         processingInstructions.push({
             shouldProcessNode: (node) => node.attribs && node.attribs['data-latex'],
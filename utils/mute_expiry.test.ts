@@ -0,0 +1,66 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {getMuteExpiry, getNextMorning, getTimeRemaining} from './mute_expiry';
+
+describe('utils/mute_expiry', () => {
+    describe('getNextMorning', () => {
+        test('should return later today before 9am', () => {
+            const now = new Date(2021, 5, 10, 7, 30);
+
+            expect(getNextMorning(now)).toBe(new Date(2021, 5, 10, 9, 0).getTime());
+        });
+
+        test('should return tomorrow from 9am onwards', () => {
+            expect(getNextMorning(new Date(2021, 5, 10, 9, 0))).toBe(new Date(2021, 5, 11, 9, 0).getTime());
+            expect(getNextMorning(new Date(2021, 5, 10, 23, 45))).toBe(new Date(2021, 5, 11, 9, 0).getTime());
+        });
+
+        test('should wrap around to the next month', () => {
+            expect(getNextMorning(new Date(2021, 5, 30, 18, 0))).toBe(new Date(2021, 6, 1, 9, 0).getTime());
+        });
+
+        test('should use the given time zone', () => {
+            // 07:30 in Tokyo is 22:30 UTC the day before
+            const now = new Date(Date.UTC(2021, 5, 9, 22, 30));
+
+            expect(getNextMorning(now, 'Asia/Tokyo')).toBe(Date.UTC(2021, 5, 10, 0, 0));
+            expect(getNextMorning(now, 'UTC')).toBe(Date.UTC(2021, 5, 10, 9, 0));
+        });
+
+        test('should keep the time of day in the time zone when the clocks change', () => {
+            // The clocks went forward in New York early on the 14th of March 2021
+            const now = new Date(Date.UTC(2021, 2, 13, 20, 0));
+
+            expect(getNextMorning(now, 'America/New_York')).toBe(Date.UTC(2021, 2, 14, 13, 0));
+        });
+    });
+
+    describe('getMuteExpiry', () => {
+        const now = new Date(2021, 5, 10, 15, 0);
+
+        test('should add the duration to the current time', () => {
+            expect(getMuteExpiry('thirty_minutes', undefined, now)).toBe(now.getTime() + (30 * 60 * 1000));
+            expect(getMuteExpiry('two_hours', undefined, now)).toBe(now.getTime() + (2 * 60 * 60 * 1000));
+        });
+
+        test('should expire the next morning', () => {
+            expect(getMuteExpiry('morning', undefined, now)).toBe(new Date(2021, 5, 11, 9, 0).getTime());
+        });
+
+        test('should never expire when muted until the user unmutes it', () => {
+            expect(getMuteExpiry('forever', undefined, now)).toBe(0);
+        });
+    });
+
+    describe('getTimeRemaining', () => {
+        test('should round up to the next minute', () => {
+            expect(getTimeRemaining(1000 + (61 * 60 * 1000) + 1, 1000)).toEqual({hours: 1, minutes: 2});
+            expect(getTimeRemaining(1000 + 1, 1000)).toEqual({hours: 0, minutes: 1});
+        });
+
+        test('should not return negative times once the mute has expired', () => {
+            expect(getTimeRemaining(1000, 5000)).toEqual({hours: 0, minutes: 0});
+        });
+    });
+});
@@ -0,0 +1,68 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import moment from 'moment-timezone';
+
+import {t} from 'utils/i18n';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// The hour of the day at which mutes "until the morning" expire
+const MORNING_HOUR = 9;
+
+// MuteDurations are the options shown to the user for how long to mute a channel or category.
+export const MuteDurations = [
+    {id: 'thirty_minutes', text: {id: t('mute_duration.thirtyMinutes'), defaultMessage: 'For 30 minutes'}},
+    {id: 'one_hour', text: {id: t('mute_duration.oneHour'), defaultMessage: 'For 1 hour'}},
+    {id: 'two_hours', text: {id: t('mute_duration.twoHours'), defaultMessage: 'For 2 hours'}},
+    {id: 'four_hours', text: {id: t('mute_duration.fourHours'), defaultMessage: 'For 4 hours'}},
+    {id: 'morning', text: {id: t('mute_duration.morning'), defaultMessage: 'Until 9:00 AM'}},
+    {id: 'forever', text: {id: t('mute_duration.forever'), defaultMessage: 'Until I unmute it'}},
+];
+
+// getNextMorning returns the next time that it's MORNING_HOUR in the given time zone, or in the browser's time zone if
+// the user doesn't have one.
+export function getNextMorning(now: Date, timezone?: string) {
+    const current = timezone ? moment.tz(now, timezone) : moment(now);
+    const morning = current.clone().hour(MORNING_HOUR).startOf('hour');
+
+    if (!morning.isAfter(current)) {
+        // Adding a day keeps the time of day in the time zone even when the clocks change overnight
+        morning.add(1, 'day');
+    }
+
+    return morning.valueOf();
+}
+
+// getMuteExpiry returns the time at which a mute of the given duration started now should expire or 0 if it lasts
+// until the user unmutes the channel or category. timezone is the user's time zone.
+export function getMuteExpiry(durationId: string, timezone?: string, now = new Date()): number {
+    const time = now.getTime();
+
+    switch (durationId) {
+    case 'thirty_minutes':
+        return time + (30 * MINUTE);
+    case 'one_hour':
+        return time + HOUR;
+    case 'two_hours':
+        return time + (2 * HOUR);
+    case 'four_hours':
+        return time + (4 * HOUR);
+    case 'morning':
+        return getNextMorning(now, timezone);
+    default:
+        return 0;
+    }
+}
+
+// getTimeRemaining splits the time left until a mute expires into hours and minutes, rounding up to the next minute so
+// that a mute never shows as having 0 minutes left before it expires.
+export function getTimeRemaining(expiresAt: number, now = Date.now()) {
+    const minutes = Math.max(Math.ceil((expiresAt - now) / MINUTE), 0);
+
+    return {
+        hours: Math.floor(minutes / 60),
+        minutes: minutes % 60,
+    };
+}
@@ -0,0 +1,111 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import NotificationAggregator, {AggregatedNotification} from './notification_aggregator';
+
+describe('utils/notification_aggregator', () => {
+    const WINDOW = 10000;
+
+    let aggregator: NotificationAggregator<AggregatedNotification>;
+    let closes: jest.Mock[];
+    let show: jest.Mock;
+
+    function notification(authorId: string, channelId = 'channel1', rootId = '') {
+        return {channelId, rootId, authorId};
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+
+        aggregator = new NotificationAggregator(WINDOW);
+        closes = [];
+        show = jest.fn(() => {
+            const close = jest.fn();
+            closes.push(close);
+            return Promise.resolve(close);
+        });
+    });
+
+    afterEach(() => {
+        aggregator.clearAll();
+        jest.useRealTimers();
+    });
+
+    test('should show the first notification right away', () => {
+        aggregator.add(notification('user1'), show);
+
+        expect(show).toHaveBeenCalledWith(expect.objectContaining({key: 'channel_channel1', count: 1, authorIds: ['user1']}));
+    });
+
+    test('should combine notifications received during the window into one popup', async () => {
+        aggregator.add(notification('user1'), show);
+        await Promise.resolve();
+
+        aggregator.add(notification('user2'), show);
+        aggregator.add(notification('user1'), show);
+
+        expect(show).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(WINDOW);
+
+        expect(show).toHaveBeenCalledTimes(2);
+        expect(show).toHaveBeenLastCalledWith(expect.objectContaining({count: 3, authorIds: ['user1', 'user2']}));
+        expect(closes[0]).toHaveBeenCalled();
+    });
+
+    test('should not show anything at the end of a window without new notifications', () => {
+        aggregator.add(notification('user1'), show);
+        jest.advanceTimersByTime(WINDOW);
+
+        expect(show).toHaveBeenCalledTimes(1);
+
+        aggregator.add(notification('user2'), show);
+
+        expect(show).toHaveBeenCalledTimes(2);
+        expect(show).toHaveBeenLastCalledWith(expect.objectContaining({count: 2}));
+    });
+
+    test('should group thread replies separately from the channel', () => {
+        aggregator.add(notification('user1'), show);
+        aggregator.add(notification('user1', 'channel1', 'root1'), show);
+
+        expect(show).toHaveBeenCalledTimes(2);
+        expect(show).toHaveBeenLastCalledWith(expect.objectContaining({key: 'thread_root1', count: 1}));
+    });
+
+    test('should close the popup and drop held back notifications when the channel is read', async () => {
+        aggregator.add(notification('user1'), show);
+        await Promise.resolve();
+        aggregator.add(notification('user2'), show);
+
+        aggregator.clearChannel('channel1');
+        jest.advanceTimersByTime(WINDOW);
+
+        expect(closes[0]).toHaveBeenCalled();
+        expect(show).toHaveBeenCalledTimes(1);
+
+        aggregator.add(notification('user2'), show);
+
+        expect(show).toHaveBeenLastCalledWith(expect.objectContaining({count: 1, authorIds: ['user2']}));
+    });
+
+    test('should only clear threads in a channel when asked to', () => {
+        aggregator.add(notification('user1', 'channel1', 'root1'), show);
+
+        aggregator.clearChannel('channel1');
+        aggregator.add(notification('user1', 'channel1', 'root1'), show);
+        expect(show).toHaveBeenCalledTimes(1);
+
+        aggregator.clearChannel('channel1', true);
+        aggregator.add(notification('user1', 'channel1', 'root1'), show);
+        expect(show).toHaveBeenCalledTimes(2);
+    });
+
+    test('should close a popup which finishes showing after the thread was read', async () => {
+        aggregator.add(notification('user1', 'channel1', 'root1'), show);
+        aggregator.clearThread('root1');
+        await Promise.resolve();
+
+        expect(closes[0]).toHaveBeenCalled();
+    });
+});
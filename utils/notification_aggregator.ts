@@ -0,0 +1,159 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+export type CloseNotification = () => void;
+
+export type AggregatedNotification = {
+    channelId: string;
+
+    // rootId is only set for notifications which are grouped by thread instead of by channel
+    rootId: string;
+    authorId: string;
+};
+
+export type NotificationGroup<T extends AggregatedNotification> = {
+    key: string;
+    channelId: string;
+    rootId: string;
+
+    // count is the number of notifications received since the channel or thread was last read
+    count: number;
+    authorIds: string[];
+    latest: T;
+};
+
+export type ShowNotificationGroup<T extends AggregatedNotification> = (group: NotificationGroup<T>) => Promise<CloseNotification | void>;
+
+type GroupState<T extends AggregatedNotification> = {
+    group: NotificationGroup<T>;
+    show: ShowNotificationGroup<T>;
+    pending: boolean;
+    timeout: ReturnType<typeof setTimeout> | null;
+    close: CloseNotification | null;
+
+    // displayCount identifies the most recent popup so that one which finishes showing late can be discarded
+    displayCount: number;
+};
+
+export function getNotificationGroupKey({channelId, rootId}: {channelId: string; rootId: string}) {
+    return rootId ? `thread_${rootId}` : `channel_${channelId}`;
+}
+
+// NotificationAggregator coalesces notifications for the same channel or thread so that a busy channel doesn't show
+// a popup for every post. The first notification is shown right away, and any that arrive during the following
+// window are combined into a single popup which replaces the previous one once the window ends. A group lasts until
+// its channel or thread is read, so its count covers every notification received since then.
+export default class NotificationAggregator<T extends AggregatedNotification> {
+    private window: number;
+    private groups: Map<string, GroupState<T>> = new Map();
+
+    constructor(window: number) {
+        this.window = window;
+    }
+
+    add(notification: T, show: ShowNotificationGroup<T>) {
+        const key = getNotificationGroupKey(notification);
+        let state = this.groups.get(key);
+
+        if (state) {
+            const authorIds = state.group.authorIds.includes(notification.authorId) ? state.group.authorIds : [...state.group.authorIds, notification.authorId];
+
+            state.group = {
+                ...state.group,
+                count: state.group.count + 1,
+                authorIds,
+                latest: notification,
+            };
+            state.show = show;
+        } else {
+            state = {
+                group: {
+                    key,
+                    channelId: notification.channelId,
+                    rootId: notification.rootId,
+                    count: 1,
+                    authorIds: [notification.authorId],
+                    latest: notification,
+                },
+                show,
+                pending: false,
+                timeout: null,
+                close: null,
+                displayCount: 0,
+            };
+            this.groups.set(key, state);
+        }
+
+        if (state.timeout) {
+            state.pending = true;
+            return;
+        }
+
+        this.display(state);
+    }
+
+    // clearChannel drops the notifications for a channel and closes its popup. Threads in the channel are only
+    // cleared when includeThreads is set since reading a channel doesn't mark its threads as read.
+    clearChannel(channelId: string, includeThreads = false) {
+        for (const state of Array.from(this.groups.values())) {
+            if (state.group.channelId === channelId && (!state.group.rootId || includeThreads)) {
+                this.remove(state);
+            }
+        }
+    }
+
+    clearThread(rootId: string) {
+        const state = this.groups.get(getNotificationGroupKey({channelId: '', rootId}));
+        if (state) {
+            this.remove(state);
+        }
+    }
+
+    clearAll() {
+        for (const state of Array.from(this.groups.values())) {
+            this.remove(state);
+        }
+    }
+
+    private remove(state: GroupState<T>) {
+        if (state.timeout) {
+            clearTimeout(state.timeout);
+        }
+
+        state.close?.();
+        this.groups.delete(state.group.key);
+    }
+
+    private endWindow(state: GroupState<T>) {
+        state.timeout = null;
+
+        if (state.pending) {
+            this.display(state);
+        }
+    }
+
+    private async display(state: GroupState<T>) {
+        state.pending = false;
+        state.timeout = setTimeout(() => this.endWindow(state), this.window);
+
+        // Replace the popup for the previous notifications instead of stacking another one on top of it
+        const previous = state.close;
+        state.close = null;
+        previous?.();
+
+        state.displayCount += 1;
+        const displayCount = state.displayCount;
+
+        const close = await state.show(state.group);
+        if (!close) {
+            return;
+        }
+
+        if (this.groups.get(state.group.key) === state && state.displayCount === displayCount) {
+            state.close = close;
+        } else {
+            // The group was cleared or a newer popup was shown while this one was being shown
+            close();
+        }
+    }
+}
@@ -0,0 +1,146 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {NotificationRule} from 'types/store/notification_rules';
+
+import {
+    evaluateNotificationRules,
+    isInTimeWindow,
+    isSafePattern,
+    makeEmptyNotificationRule,
+    matchesNotificationRule,
+    parseNotificationRules,
+} from './notification_rules';
+
+describe('utils/notification_rules', () => {
+    const context = {
+        message: 'The deploy to production failed',
+        authorId: 'user1',
+        channelId: 'channel1',
+        isThreadReply: false,
+        isFollowingThread: false,
+        day: 1,
+        minutes: 10 * 60,
+    };
+
+    const fallback = {notify: false, sound: false, requireInteraction: false};
+
+    function makeRule(conditions: Partial<NotificationRule['conditions']>, actions: NotificationRule['actions'] = ['desktop']): NotificationRule {
+        const rule = makeEmptyNotificationRule('rule1');
+        return {...rule, conditions: {...rule.conditions, ...conditions}, actions};
+    }
+
+    describe('isSafePattern', () => {
+        test.each([
+            'deploy.*fail',
+            '^(prod|staging) is down$',
+            '(https?://)?example\\.com',
+            '\\(a+\\)+',
+        ])('should allow %s', (pattern) => {
+            expect(isSafePattern(pattern)).toBe(true);
+        });
+
+        test.each([
+            '(a+)+',
+            '(a*)*b',
+            '(?:\\w+\\s?){2,}',
+            '(a)\\1',
+            'a'.repeat(201),
+        ])('should not allow %s', (pattern) => {
+            expect(isSafePattern(pattern)).toBe(false);
+        });
+    });
+
+    describe('matchesNotificationRule', () => {
+        test('should match keywords as whole words regardless of case', () => {
+            expect(matchesNotificationRule(makeRule({keywords: ['Deploy']}), context)).toBe(true);
+            expect(matchesNotificationRule(makeRule({keywords: ['dep']}), context)).toBe(false);
+            expect(matchesNotificationRule(makeRule({keywords: ['outage', 'failed']}), context)).toBe(true);
+        });
+
+        test('should match a regular expression', () => {
+            expect(matchesNotificationRule(makeRule({pattern: 'deploy.*fail'}), context)).toBe(true);
+            expect(matchesNotificationRule(makeRule({pattern: '^failed'}), context)).toBe(false);
+        });
+
+        test('should never match an invalid regular expression', () => {
+            expect(matchesNotificationRule(makeRule({pattern: '(deploy'}), context)).toBe(false);
+        });
+
+        test('should never match a regular expression which could take too long to match', () => {
+            expect(matchesNotificationRule(makeRule({pattern: '(\\w+\\s?)+$'}), context)).toBe(false);
+        });
+
+        test('should require every condition to match', () => {
+            expect(matchesNotificationRule(makeRule({keywords: ['deploy'], authorIds: ['user1'], channelIds: ['channel1']}), context)).toBe(true);
+            expect(matchesNotificationRule(makeRule({keywords: ['deploy'], authorIds: ['user2']}), context)).toBe(false);
+            expect(matchesNotificationRule(makeRule({keywords: ['deploy'], channelIds: ['channel2']}), context)).toBe(false);
+        });
+
+        test('should match on whether the user follows the thread', () => {
+            const reply = {...context, isThreadReply: true, isFollowingThread: true};
+
+            expect(matchesNotificationRule(makeRule({threadFollowState: 'following'}), reply)).toBe(true);
+            expect(matchesNotificationRule(makeRule({threadFollowState: 'not_following'}), reply)).toBe(false);
+            expect(matchesNotificationRule(makeRule({threadFollowState: 'following'}), context)).toBe(false);
+        });
+
+        test('should not match disabled rules or rules without conditions', () => {
+            expect(matchesNotificationRule({...makeRule({keywords: ['deploy']}), enabled: false}, context)).toBe(false);
+            expect(matchesNotificationRule(makeRule({keywords: ['  ']}), context)).toBe(false);
+        });
+    });
+
+    describe('isInTimeWindow', () => {
+        const workHours = {start: 9 * 60, end: 17 * 60, days: [1, 2, 3, 4, 5]};
+        const overnight = {start: 22 * 60, end: 6 * 60, days: [5]};
+
+        test('should match times within the window on the given days', () => {
+            expect(isInTimeWindow(workHours, 1, 9 * 60)).toBe(true);
+            expect(isInTimeWindow(workHours, 1, 17 * 60)).toBe(false);
+            expect(isInTimeWindow(workHours, 0, 12 * 60)).toBe(false);
+            expect(isInTimeWindow({...workHours, days: []}, 0, 12 * 60)).toBe(true);
+        });
+
+        test('should match windows which wrap past midnight using the day on which they start', () => {
+            expect(isInTimeWindow(overnight, 5, 23 * 60)).toBe(true);
+            expect(isInTimeWindow(overnight, 6, 2 * 60)).toBe(true);
+            expect(isInTimeWindow(overnight, 5, 2 * 60)).toBe(false);
+            expect(isInTimeWindow(overnight, 6, 12 * 60)).toBe(false);
+        });
+    });
+
+    describe('evaluateNotificationRules', () => {
+        test('should use the actions of the first matching rule', () => {
+            const rules = [
+                {...makeRule({channelIds: ['channel2']}, ['suppress']), id: 'rule1'},
+                {...makeRule({keywords: ['production']}, ['desktop', 'sound', 'require_interaction']), id: 'rule2'},
+                {...makeRule({keywords: ['deploy']}, ['suppress']), id: 'rule3'},
+            ];
+
+            expect(evaluateNotificationRules(rules, context, fallback)).toEqual({
+                notify: true,
+                sound: true,
+                requireInteraction: true,
+                ruleId: 'rule2',
+            });
+        });
+
+        test('should suppress notifications', () => {
+            const decision = evaluateNotificationRules([makeRule({authorIds: ['user1']}, ['desktop', 'suppress'])], context, {...fallback, notify: true});
+
+            expect(decision).toEqual({notify: false, sound: false, requireInteraction: false, ruleId: 'rule1'});
+        });
+
+        test('should return the fallback when no rule matches', () => {
+            expect(evaluateNotificationRules([makeRule({authorIds: ['user2']})], context, fallback)).toBe(fallback);
+        });
+    });
+
+    test('parseNotificationRules should ignore invalid values', () => {
+        expect(parseNotificationRules('')).toEqual([]);
+        expect(parseNotificationRules('{')).toEqual([]);
+        expect(parseNotificationRules('{}')).toEqual([]);
+        expect(parseNotificationRules(JSON.stringify([makeRule({})]))).toEqual([makeRule({})]);
+    });
+});
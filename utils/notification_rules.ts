@@ -0,0 +1,208 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {isSafePattern} from 'mattermost-redux/utils/helpers';
+
+import type {
+    NotificationRule,
+    NotificationRuleConditions,
+    NotificationRuleTimeWindow,
+} from 'types/store/notification_rules';
+
+// NotificationContext describes a message that may trigger a notification. It's independent of the browser so that
+// rules can be evaluated anywhere.
+export type NotificationContext = {
+    message: string;
+    authorId: string;
+    channelId: string;
+    isThreadReply: boolean;
+    isFollowingThread: boolean;
+
+    // day is the day of the week and minutes the minutes since midnight at which the message was received, both in
+    // the user's timezone
+    day: number;
+    minutes: number;
+};
+
+export type NotificationDecision = {
+    notify: boolean;
+    sound: boolean;
+    requireInteraction: boolean;
+    ruleId?: NotificationRule['id'];
+};
+
+export {isSafePattern};
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export function makeEmptyNotificationRule(id: string): NotificationRule {
+    return {
+        id,
+        name: '',
+        enabled: true,
+        conditions: {
+            keywords: [],
+            pattern: '',
+            authorIds: [],
+            channelIds: [],
+            threadFollowState: 'any',
+            timeWindow: null,
+        },
+        actions: ['desktop'],
+    };
+}
+
+// Regular expressions are compiled once and reused for every message that's received. Patterns which can't be used are
+// stored as null.
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function compile(source: string) {
+    let regex = compiledPatterns.get(source);
+    if (regex === undefined) {
+        try {
+            regex = new RegExp(source, 'i');
+        } catch {
+            regex = null;
+        }
+
+        compiledPatterns.set(source, regex);
+    }
+
+    return regex;
+}
+
+export function isValidPattern(pattern: string) {
+    return compile(pattern) !== null;
+}
+
+function escapeRegex(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matchesKeywords(keywords: string[], message: string) {
+    return keywords.some((keyword) => {
+        const trimmed = keyword.trim();
+        if (!trimmed) {
+            return false;
+        }
+
+        // Keywords match whole words only so that "log" doesn't match "login"
+        return compile(`(^|[^\\w])${escapeRegex(trimmed)}($|[^\\w])`)!.test(message);
+    });
+}
+
+function matchesPattern(pattern: string, message: string) {
+    // Rules saved before patterns were checked may still contain an unsafe one
+    if (!isSafePattern(pattern)) {
+        return false;
+    }
+
+    const regex = compile(pattern);
+
+    return regex ? regex.test(message) : false;
+}
+
+export function isInTimeWindow(timeWindow: NotificationRuleTimeWindow, day: number, minutes: number) {
+    const {start, end, days} = timeWindow;
+
+    if (start <= end) {
+        return (!days.length || days.includes(day)) && minutes >= start && minutes < end;
+    }
+
+    // The window wraps past midnight, so the early hours of the morning belong to the previous day's window
+    if (minutes >= start) {
+        return !days.length || days.includes(day);
+    }
+
+    return minutes < end && (!days.length || days.includes((day + 6) % 7));
+}
+
+// hasConditions returns false for a rule which would match every message.
+export function hasConditions(conditions: NotificationRuleConditions) {
+    return conditions.keywords.some((keyword) => keyword.trim()) ||
+        Boolean(conditions.pattern) ||
+        conditions.authorIds.length > 0 ||
+        conditions.channelIds.length > 0 ||
+        conditions.threadFollowState !== 'any' ||
+        Boolean(conditions.timeWindow);
+}
+
+// matchesNotificationRule returns true if the message meets every condition of the rule. When both keywords and a
+// pattern are set, matching either of them is enough.
+export function matchesNotificationRule(rule: NotificationRule, context: NotificationContext) {
+    const {conditions} = rule;
+
+    if (!rule.enabled || !hasConditions(conditions)) {
+        return false;
+    }
+
+    const hasKeywords = conditions.keywords.some((keyword) => keyword.trim());
+    if (hasKeywords || conditions.pattern) {
+        const matchesText = (hasKeywords && matchesKeywords(conditions.keywords, context.message)) ||
+            (Boolean(conditions.pattern) && matchesPattern(conditions.pattern, context.message));
+
+        if (!matchesText) {
+            return false;
+        }
+    }
+
+    if (conditions.authorIds.length && !conditions.authorIds.includes(context.authorId)) {
+        return false;
+    }
+
+    if (conditions.channelIds.length && !conditions.channelIds.includes(context.channelId)) {
+        return false;
+    }
+
+    if (conditions.threadFollowState === 'following' && !(context.isThreadReply && context.isFollowingThread)) {
+        return false;
+    }
+
+    if (conditions.threadFollowState === 'not_following' && !(context.isThreadReply && !context.isFollowingThread)) {
+        return false;
+    }
+
+    if (conditions.timeWindow && !isInTimeWindow(conditions.timeWindow, context.day, context.minutes)) {
+        return false;
+    }
+
+    return true;
+}
+
+// evaluateNotificationRules decides how to notify the user about a message. Rules are checked in order and the first
+// one that matches decides, otherwise the decision based on the user's notification preferences is returned as is.
+export function evaluateNotificationRules(rules: NotificationRule[], context: NotificationContext, fallback: NotificationDecision): NotificationDecision {
+    const rule = rules.find((r) => matchesNotificationRule(r, context));
+    if (!rule) {
+        return fallback;
+    }
+
+    if (rule.actions.includes('suppress')) {
+        return {
+            notify: false,
+            sound: false,
+            requireInteraction: false,
+            ruleId: rule.id,
+        };
+    }
+
+    return {
+        notify: rule.actions.includes('desktop'),
+        sound: rule.actions.includes('sound'),
+        requireInteraction: rule.actions.includes('require_interaction'),
+        ruleId: rule.id,
+    };
+}
+
+export function parseNotificationRules(value: string): NotificationRule[] {
+    if (!value) {
+        return [];
+    }
+
+    try {
+        const rules = JSON.parse(value);
+        return Array.isArray(rules) ? rules : [];
+    } catch {
+        return [];
+    }
+}
@@ -0,0 +1,123 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {FileInfo} from 'mattermost-redux/types/files';
+
+import {TestHelper} from 'utils/test_helper';
+
+import {matchesSearchQuery, parseSavedSearches} from './saved_searches';
+
+describe('utils/saved_searches', () => {
+    function makeParams(terms: string, isOrSearch = false, timeZoneOffset = 0) {
+        return {terms, is_or_search: isOrSearch, include_deleted_channels: false, time_zone_offset: timeZoneOffset};
+    }
+
+    describe('matchesSearchQuery', () => {
+        const context = {
+            username: 'ci-bot',
+            channelNames: ['releases'],
+        };
+
+        const post = TestHelper.getPostMock({
+            message: 'The nightly build failed on the release branch',
+            create_at: Date.UTC(2021, 5, 15, 12),
+        });
+
+        test('should match every word', () => {
+            expect(matchesSearchQuery(post, makeParams('build release'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('build deploy'), context)).toBe(false);
+        });
+
+        test('should match any word for an OR search', () => {
+            expect(matchesSearchQuery(post, makeParams('build deploy', true), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('deploy rollback', true), context)).toBe(false);
+        });
+
+        test('should match whole words and prefixes', () => {
+            expect(matchesSearchQuery(post, makeParams('night'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('night*'), context)).toBe(true);
+        });
+
+        test('should match phrases', () => {
+            expect(matchesSearchQuery(post, makeParams('"build failed"'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('"failed build"'), context)).toBe(false);
+        });
+
+        test('should not match excluded words and phrases', () => {
+            expect(matchesSearchQuery(post, makeParams('build -nightly'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('build -"release branch"'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('build -flaky'), context)).toBe(true);
+        });
+
+        test('should match any of the users and channels', () => {
+            expect(matchesSearchQuery(post, makeParams('build from:ci-bot'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('build from:@someone from:@CI-Bot'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('build from:someone'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('build in:~releases'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('build in:town-square'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('build from:ci-bot in:town-square'), context)).toBe(false);
+        });
+
+        test('should not match excluded users and channels', () => {
+            expect(matchesSearchQuery(post, makeParams('build -from:ci-bot'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('build -in:town-square'), context)).toBe(true);
+        });
+
+        test('should match direct messages by the usernames of their members', () => {
+            const dmContext = {...context, channelNames: ['user1__user2', '@user2']};
+
+            expect(matchesSearchQuery(post, makeParams('build in:@user2'), dmContext)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('build in:@user3'), dmContext)).toBe(false);
+        });
+
+        test('should match posts with only filters', () => {
+            expect(matchesSearchQuery(post, makeParams('from:ci-bot'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('in:town-square'), context)).toBe(false);
+        });
+
+        test('should match dates at the time zone offset of the search', () => {
+            expect(matchesSearchQuery(post, makeParams('on:2021-06-15'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('on:2021-06-16'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('after:2021-06-14 before:2021-06-16'), context)).toBe(true);
+            expect(matchesSearchQuery(post, makeParams('after:2021-06-15'), context)).toBe(false);
+            expect(matchesSearchQuery(post, makeParams('on:2021-06-16', false, 14 * 60 * 60), context)).toBe(true);
+        });
+
+        test('should match file extensions', () => {
+            const withFile = TestHelper.getPostMock({
+                message: 'build log',
+                file_ids: ['file1'],
+                metadata: {
+                    ...post.metadata,
+                    files: [{id: 'file1', extension: 'LOG'} as FileInfo],
+                },
+            });
+
+            expect(matchesSearchQuery(withFile, makeParams('ext:log'), context)).toBe(true);
+            expect(matchesSearchQuery(withFile, makeParams('ext:txt'), context)).toBe(false);
+        });
+
+        test('should treat has: like the server does since it isn\'t a filter', () => {
+            const withFile = TestHelper.getPostMock({
+                message: 'build log',
+                file_ids: ['file1'],
+            });
+
+            expect(matchesSearchQuery(withFile, makeParams('has:file'), context)).toBe(false);
+        });
+    });
+
+    describe('parseSavedSearches', () => {
+        test('should return the saved searches', () => {
+            const searches = [{id: 'search1', name: 'Failed builds', teamId: 'team1', params: makeParams('build failed'), subscribed: true}];
+
+            expect(parseSavedSearches(JSON.stringify(searches))).toEqual(searches);
+        });
+
+        test('should return nothing for a missing or invalid value', () => {
+            expect(parseSavedSearches('')).toEqual([]);
+            expect(parseSavedSearches('{')).toEqual([]);
+            expect(parseSavedSearches('{}')).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import moment from 'moment-timezone';
+
+import {Post} from 'mattermost-redux/types/posts';
+
+import {SearchQueryPart, parseSearchQuery} from 'utils/search_query';
+import {convertSearchTermToRegex, parseSearchTerms} from 'utils/text_formatting';
+
+import type {SavedSearch, SavedSearchParams} from 'types/store/saved_searches';
+
+// SearchMatchContext is what's needed to check a post against the filters of a search besides the post itself
+export type SearchMatchContext = {
+    username: string;
+
+    // channelNames are the names which the channel of the post is found by with the in: filter
+    channelNames: string[];
+};
+
+function matchesTerm(text: string, term: string) {
+    // search ignores the lastIndex of the global patterns used for highlighting
+    return text.search(convertSearchTermToRegex(term).pattern) !== -1;
+}
+
+// getTerms returns the terms which the server searches for separately, splitting words the way parseSearchTerms does
+function getTerms(parts: SearchQueryPart[]) {
+    return parts.flatMap((part) => (part.type === 'phrase' ? [part.value] : parseSearchTerms(part.value)));
+}
+
+function matchesFilter(post: Post, part: SearchQueryPart, context: SearchMatchContext, date: string) {
+    switch (part.type) {
+    case 'from':
+        return part.value.toLowerCase() === context.username.toLowerCase();
+    case 'in':
+        return context.channelNames.some((name) => name.toLowerCase() === part.value.toLowerCase());
+    case 'ext':
+        return (post.metadata?.files || []).some((file) => file.extension.toLowerCase() === part.value);
+    case 'on':
+        return date === part.value;
+    case 'before':
+        return date < part.value;
+    case 'after':
+        return date > part.value;
+    default:
+        return true;
+    }
+}
+
+// matchesSearchQuery returns true if a post would be found by searching for the given terms. Like the server, a post
+// must match every word and phrase, or any of them for an OR search, and none of the excluded ones. Filters of the
+// same kind such as two from: users match either of them while filters of different kinds must all match. Dates are
+// compared at the time zone offset of the search, or the browser's when it doesn't have one.
+export function matchesSearchQuery(post: Post, params: SavedSearchParams, context: SearchMatchContext): boolean {
+    const parts = parseSearchQuery(params.terms);
+    const isOrSearch = params.is_or_search;
+    const message = post.message || '';
+
+    const wanted = getTerms(parts.filter((part) => (part.type === 'word' || part.type === 'phrase') && !part.excluded));
+    if (wanted.length > 0) {
+        const matches = isOrSearch ? wanted.some((term) => matchesTerm(message, term)) : wanted.every((term) => matchesTerm(message, term));
+        if (!matches) {
+            return false;
+        }
+    }
+
+    const unwanted = getTerms(parts.filter((part) => (part.type === 'word' || part.type === 'phrase') && part.excluded));
+    if (unwanted.some((term) => matchesTerm(message, term))) {
+        return false;
+    }
+
+    const createAt = moment(post.create_at);
+    if (typeof params.time_zone_offset === 'number') {
+        createAt.utcOffset(params.time_zone_offset / 60);
+    }
+    const date = createAt.format('YYYY-MM-DD');
+    const filters = parts.filter((part) => part.type !== 'word' && part.type !== 'phrase');
+
+    for (const part of filters) {
+        if (part.excluded) {
+            if (matchesFilter(post, part, context, date)) {
+                return false;
+            }
+        } else if (part.type === 'from' || part.type === 'in' || part.type === 'ext') {
+            const sameKind = filters.filter((other) => other.type === part.type && !other.excluded);
+            if (!sameKind.some((other) => matchesFilter(post, other, context, date))) {
+                return false;
+            }
+        } else if (!matchesFilter(post, part, context, date)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+export function parseSavedSearches(value: string): SavedSearch[] {
+    if (!value) {
+        return [];
+    }
+
+    try {
+        const searches = JSON.parse(value);
+        return Array.isArray(searches) ? searches : [];
+    } catch {
+        return [];
+    }
+}
@@ -0,0 +1,118 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {
+    addSearchQueryPart,
+    formatSearchQuery,
+    isSearchQueryFilter,
+    parseSearchQuery,
+    removeSearchQueryPart,
+} from './search_query';
+
+describe('utils/search_query', () => {
+    describe('parseSearchQuery', () => {
+        test('should return nothing for empty terms', () => {
+            expect(parseSearchQuery('')).toEqual([]);
+            expect(parseSearchQuery('   ')).toEqual([]);
+        });
+
+        test('should split words, phrases and filters', () => {
+            expect(parseSearchQuery('release from:ci-bot "build failed" in:releases')).toEqual([
+                {type: 'word', value: 'release', excluded: false},
+                {type: 'from', value: 'ci-bot', excluded: false},
+                {type: 'phrase', value: 'build failed', excluded: false},
+                {type: 'in', value: 'releases', excluded: false},
+            ]);
+        });
+
+        test('should parse exclusions', () => {
+            expect(parseSearchQuery('-flaky -"known issue" -from:ci-bot -ext:log')).toEqual([
+                {type: 'word', value: 'flaky', excluded: true},
+                {type: 'phrase', value: 'known issue', excluded: true},
+                {type: 'from', value: 'ci-bot', excluded: true},
+                {type: 'ext', value: 'log', excluded: true},
+            ]);
+        });
+
+        test('should parse dates', () => {
+            expect(parseSearchQuery('on:2021-06-10 before: 2021-07-01 after:2021-05-01')).toEqual([
+                {type: 'on', value: '2021-06-10', excluded: false},
+                {type: 'before', value: '2021-07-01', excluded: false},
+                {type: 'after', value: '2021-05-01', excluded: false},
+            ]);
+        });
+
+        test('should treat has: as a word since the server can\'t search for it', () => {
+            expect(parseSearchQuery('has:file')).toEqual([
+                {type: 'word', value: 'has:file', excluded: false},
+            ]);
+        });
+
+        test('should normalize filter values and aliases', () => {
+            expect(parseSearchQuery('from:@someone channel:~town-square ext:.PDF')).toEqual([
+                {type: 'from', value: 'someone', excluded: false},
+                {type: 'in', value: 'town-square', excluded: false},
+                {type: 'ext', value: 'pdf', excluded: false},
+            ]);
+        });
+
+        test('should treat incomplete filters and empty phrases like parseSearchTerms', () => {
+            expect(parseSearchQuery('"" - from:')).toEqual([
+                {type: 'word', value: '-', excluded: false},
+                {type: 'word', value: 'from:', excluded: false},
+            ]);
+        });
+
+        test('should close an unfinished phrase', () => {
+            expect(parseSearchQuery('"build failed')).toEqual([
+                {type: 'phrase', value: 'build failed', excluded: false},
+            ]);
+        });
+    });
+
+    describe('formatSearchQuery', () => {
+        test('should round-trip search terms', () => {
+            const terms = 'release -flaky from:ci-bot -in:town-square "build failed" -"known issue" on:2021-06-10 ext:pdf';
+
+            expect(formatSearchQuery(parseSearchQuery(terms))).toBe(terms);
+        });
+
+        test('should normalize spacing and aliases', () => {
+            expect(formatSearchQuery(parseSearchQuery('  from: @someone   channel:~off-topic  hello '))).toBe('from:someone in:off-topic hello');
+        });
+    });
+
+    describe('isSearchQueryFilter', () => {
+        test('should only treat words being searched for as not being filters', () => {
+            expect(isSearchQueryFilter({type: 'word', value: 'hello', excluded: false})).toBe(false);
+            expect(isSearchQueryFilter({type: 'word', value: 'hello', excluded: true})).toBe(true);
+            expect(isSearchQueryFilter({type: 'phrase', value: 'hello world', excluded: false})).toBe(true);
+            expect(isSearchQueryFilter({type: 'from', value: 'someone', excluded: false})).toBe(true);
+        });
+    });
+
+    describe('addSearchQueryPart', () => {
+        test('should add a part at the end', () => {
+            expect(addSearchQueryPart('hello', {type: 'from', value: '@someone', excluded: false})).toBe('hello from:someone');
+            expect(addSearchQueryPart('', {type: 'phrase', value: ' hello world ', excluded: true})).toBe('-"hello world"');
+        });
+
+        test('should ignore empty values', () => {
+            expect(addSearchQueryPart('hello  ', {type: 'in', value: ' ', excluded: false})).toBe('hello  ');
+        });
+
+        test('should not add a part twice', () => {
+            expect(addSearchQueryPart('ext:pdf hello', {type: 'ext', value: 'PDF', excluded: false})).toBe('ext:pdf hello');
+        });
+
+        test('should replace a date of the same kind', () => {
+            expect(addSearchQueryPart('on:2021-06-10 after:2021-01-01 hello', {type: 'on', value: '2021-06-11', excluded: false})).toBe('after:2021-01-01 hello on:2021-06-11');
+        });
+    });
+
+    describe('removeSearchQueryPart', () => {
+        test('should remove the part at the given index', () => {
+            expect(removeSearchQueryPart('hello from:someone -in:off-topic', 1)).toBe('hello -in:off-topic');
+        });
+    });
+});
@@ -0,0 +1,115 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+// A search query is made up of plain words, exact phrases and filters such as from:username or on:2021-06-10. Any of
+// them can be excluded from the results by starting it with a dash. There's no has: filter since the server can't
+// search for posts with files, links or attachments.
+export type SearchQueryFilterType = 'from' | 'in' | 'on' | 'before' | 'after' | 'ext';
+export type SearchQueryPartType = 'word' | 'phrase' | SearchQueryFilterType;
+
+export type SearchQueryPart = {
+    type: SearchQueryPartType;
+    value: string;
+    excluded: boolean;
+};
+
+export const SEARCH_QUERY_FILTER_TYPES: SearchQueryFilterType[] = ['from', 'in', 'on', 'before', 'after', 'ext'];
+
+// Only one of each of these filters makes sense in a query, so adding another one replaces it
+const SINGLE_VALUE_FILTER_TYPES: SearchQueryPartType[] = ['on', 'before', 'after'];
+
+const PHRASE_PATTERN = /^(-?)"([^"]*)"?/;
+const FILTER_PATTERN = /^(-?)(from|in|channel|on|before|after|ext): ?(\S+)/i;
+const WORD_PATTERN = /^(-?)(\S+)/;
+
+function normalizeFilterValue(type: SearchQueryFilterType, value: string) {
+    switch (type) {
+    case 'from':
+        return value.replace(/^@/, '');
+    case 'in':
+        return value.replace(/^~/, '');
+    case 'ext':
+        return value.replace(/^\./, '').toLowerCase();
+    default:
+        return value;
+    }
+}
+
+// parseSearchQuery splits search terms into their parts. Like parseSearchTerms, channel: is treated as in: and a
+// single space is allowed between a filter and its value.
+export function parseSearchQuery(terms: string): SearchQueryPart[] {
+    const parts: SearchQueryPart[] = [];
+    let remaining = terms.trim();
+
+    while (remaining) {
+        let captured = PHRASE_PATTERN.exec(remaining);
+        if (captured) {
+            if (captured[2].trim()) {
+                parts.push({type: 'phrase', value: captured[2].trim(), excluded: Boolean(captured[1])});
+            }
+        } else {
+            captured = FILTER_PATTERN.exec(remaining);
+            if (captured) {
+                const name = captured[2].toLowerCase();
+                const type = (name === 'channel' ? 'in' : name) as SearchQueryFilterType;
+
+                parts.push({type, value: normalizeFilterValue(type, captured[3]), excluded: Boolean(captured[1])});
+            } else {
+                captured = WORD_PATTERN.exec(remaining) as RegExpExecArray;
+                parts.push({type: 'word', value: captured[2], excluded: Boolean(captured[1])});
+            }
+        }
+
+        remaining = remaining.substring(captured[0].length).trim();
+    }
+
+    return parts;
+}
+
+export function formatSearchQueryPart(part: SearchQueryPart): string {
+    const prefix = part.excluded ? '-' : '';
+
+    switch (part.type) {
+    case 'word':
+        return prefix + part.value;
+    case 'phrase':
+        return `${prefix}"${part.value}"`;
+    default:
+        return `${prefix}${part.type}:${part.value}`;
+    }
+}
+
+// formatSearchQuery returns the search terms for the given parts in the form which the server expects
+export function formatSearchQuery(parts: SearchQueryPart[]): string {
+    return parts.map(formatSearchQueryPart).join(' ');
+}
+
+// isSearchQueryFilter returns true for the parts which are shown separately from the words being searched for
+export function isSearchQueryFilter(part: SearchQueryPart): boolean {
+    return part.type !== 'word' || part.excluded;
+}
+
+// addSearchQueryPart returns the search terms with the given part added, replacing any existing date of the same kind
+// and skipping parts which are already in the query
+export function addSearchQueryPart(terms: string, part: SearchQueryPart): string {
+    const value = part.type === 'word' || part.type === 'phrase' ? part.value.trim() : normalizeFilterValue(part.type, part.value.trim());
+    if (!value) {
+        return terms;
+    }
+
+    const added = {...part, value};
+    const parts = parseSearchQuery(terms).filter((p) => !SINGLE_VALUE_FILTER_TYPES.includes(added.type) || p.type !== added.type);
+    if (parts.some((p) => formatSearchQueryPart(p) === formatSearchQueryPart(added))) {
+        return formatSearchQuery(parts);
+    }
+
+    return formatSearchQuery([...parts, added]);
+}
+
+// removeSearchQueryPart returns the search terms without the part at the given index of parseSearchQuery(terms)
+export function removeSearchQueryPart(terms: string, index: number): string {
+    const parts = parseSearchQuery(terms);
+    parts.splice(index, 1);
+
+    return formatSearchQuery(parts);
+}
@@ -0,0 +1,69 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {TestHelper} from 'utils/test_helper';
+
+import {groupSearchResults, sortSearchResults} from './search_results';
+
+describe('utils/search_results', () => {
+    const post1 = TestHelper.getPostMock({id: 'post1', channel_id: 'channel1', message: 'build failed', create_at: 1000});
+    const post2 = TestHelper.getPostMock({id: 'post2', channel_id: 'channel2', message: 'the build failed again, build is broken', create_at: 2000});
+    const post3 = TestHelper.getPostMock({id: 'post3', channel_id: 'channel1', root_id: 'post1', message: 'build', create_at: 3000});
+    const post4 = TestHelper.getPostMock({id: 'post4', channel_id: 'channel2', message: 'failed build', create_at: 4000});
+
+    describe('sortSearchResults', () => {
+        const posts = [post2, post4, post1, post3];
+        const matches = {
+            post1: ['build', 'failed'],
+            post2: ['build', 'failed', 'build'],
+            post3: ['build'],
+            post4: ['Build', 'failed'],
+        };
+
+        test('should sort by newest first', () => {
+            expect(sortSearchResults(posts, 'newest')).toEqual([post4, post3, post2, post1]);
+        });
+
+        test('should sort by oldest first', () => {
+            expect(sortSearchResults(posts, 'oldest')).toEqual([post1, post2, post3, post4]);
+        });
+
+        test('should sort by the matched words, how often they match and then the newest first', () => {
+            expect(sortSearchResults(posts, 'relevance', matches)).toEqual([post2, post4, post1, post3]);
+        });
+
+        test('should sort results without matches by newest first', () => {
+            expect(sortSearchResults(posts, 'relevance')).toEqual([post4, post3, post2, post1]);
+        });
+
+        test('should not change the given results', () => {
+            sortSearchResults(posts, 'oldest');
+
+            expect(posts).toEqual([post2, post4, post1, post3]);
+        });
+    });
+
+    describe('groupSearchResults', () => {
+        const posts = [post4, post3, post2, post1];
+
+        test('should keep the results together without grouping', () => {
+            expect(groupSearchResults(posts, 'none')).toEqual([{id: '', posts}]);
+            expect(groupSearchResults([], 'none')).toEqual([]);
+        });
+
+        test('should group by channel in the order of the results', () => {
+            expect(groupSearchResults(posts, 'channel')).toEqual([
+                {id: 'channel2', posts: [post4, post2]},
+                {id: 'channel1', posts: [post3, post1]},
+            ]);
+        });
+
+        test('should group by thread in the order of the results', () => {
+            expect(groupSearchResults(posts, 'thread')).toEqual([
+                {id: 'post4', posts: [post4]},
+                {id: 'post1', posts: [post3, post1]},
+                {id: 'post2', posts: [post2]},
+            ]);
+        });
+    });
+});
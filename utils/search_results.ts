@@ -0,0 +1,75 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Post} from 'mattermost-redux/types/posts';
+
+import {convertSearchTermToRegex} from 'utils/text_formatting';
+
+import type {SearchResultsGrouping, SearchResultsSort} from 'types/store/rhs';
+
+export type SearchResultsGroup = {
+    // id is the ID of the channel or root post that the results have in common. It's empty when they aren't grouped.
+    id: string;
+    posts: Post[];
+};
+
+// getRelevance scores a result by how many of the words which the server matched it contains and how many times
+function getRelevance(post: Post, matches: string[] = []) {
+    const words = new Set(matches.map((match) => match.toLowerCase()));
+
+    let occurrences = 0;
+    for (const word of words) {
+        occurrences += (post.message || '').match(convertSearchTermToRegex(word).pattern)?.length || 0;
+    }
+
+    return {words: words.size, occurrences};
+}
+
+// sortSearchResults returns the results in the given order. Results are most relevant when they match more of the
+// search terms and then when they match them more often, with newer results coming first when that's the same. Only the
+// results which have been loaded can be sorted, so results on later pages may be more relevant than any of them.
+export function sortSearchResults(posts: Post[], sort: SearchResultsSort, matches: Record<string, string[]> = {}): Post[] {
+    const sorted = [...posts];
+
+    switch (sort) {
+    case 'oldest':
+        return sorted.sort((a, b) => a.create_at - b.create_at);
+    case 'relevance': {
+        const relevance = new Map(posts.map((post) => [post.id, getRelevance(post, matches[post.id])]));
+
+        return sorted.sort((a, b) => {
+            const relevanceA = relevance.get(a.id)!;
+            const relevanceB = relevance.get(b.id)!;
+
+            return (relevanceB.words - relevanceA.words) ||
+                (relevanceB.occurrences - relevanceA.occurrences) ||
+                (b.create_at - a.create_at);
+        });
+    }
+    default:
+        return sorted.sort((a, b) => b.create_at - a.create_at);
+    }
+}
+
+// groupSearchResults splits sorted results by channel or by thread. The groups are ordered by their first result and
+// keep the order of the results within them.
+export function groupSearchResults(posts: Post[], grouping: SearchResultsGrouping): SearchResultsGroup[] {
+    if (grouping === 'none') {
+        return posts.length > 0 ? [{id: '', posts}] : [];
+    }
+
+    const groups = new Map<string, SearchResultsGroup>();
+    for (const post of posts) {
+        const id = grouping === 'channel' ? post.channel_id : (post.root_id || post.id);
+
+        let group = groups.get(id);
+        if (!group) {
+            group = {id, posts: []};
+            groups.set(id, group);
+        }
+
+        group.posts.push(post);
+    }
+
+    return Array.from(groups.values());
+}
@@ -0,0 +1,85 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {
+    addLanguageLoadedListener,
+    highlight,
+    highlightLines,
+    isLineInRanges,
+    loadLanguage,
+    parseCodeBlockInfo,
+    splitHighlightedLines,
+} from './syntax_highlighting';
+
+describe('utils/syntax_highlighting', () => {
+    describe('parseCodeBlockInfo', () => {
+        test('should parse the language and the highlighted lines', () => {
+            expect(parseCodeBlockInfo('ts {3-7}')).toEqual({language: 'ts', diff: false, highlightedLines: [[3, 7]]});
+            expect(parseCodeBlockInfo('Python{1,4-5}')).toEqual({language: 'python', diff: false, highlightedLines: [[1, 1], [4, 5]]});
+            expect(parseCodeBlockInfo('{2}')).toEqual({language: '', diff: false, highlightedLines: [[2, 2]]});
+            expect(parseCodeBlockInfo('')).toEqual({language: '', diff: false, highlightedLines: []});
+        });
+
+        test('should ignore invalid line ranges', () => {
+            expect(parseCodeBlockInfo('go {a-b, 3}').highlightedLines).toEqual([[3, 3]]);
+            expect(parseCodeBlockInfo('go {7-3}').highlightedLines).toEqual([[3, 7]]);
+        });
+
+        test('should only use diff mode for languages which can be highlighted', () => {
+            expect(parseCodeBlockInfo('diff-ts')).toEqual({language: 'ts', diff: true, highlightedLines: []});
+            expect(parseCodeBlockInfo('diff')).toEqual({language: 'diff', diff: false, highlightedLines: []});
+            expect(parseCodeBlockInfo('diff-garbage')).toEqual({language: 'diff-garbage', diff: false, highlightedLines: []});
+        });
+    });
+
+    test('isLineInRanges', () => {
+        expect(isLineInRanges(3, [[1, 1], [3, 7]])).toBe(true);
+        expect(isLineInRanges(2, [[1, 1], [3, 7]])).toBe(false);
+        expect(isLineInRanges(1, [])).toBe(false);
+    });
+
+    test('splitHighlightedLines should reopen spans which continue onto the next line', () => {
+        const html = 'a = <span class="hljs-string">"one\ntwo"</span>;\nb';
+
+        expect(splitHighlightedLines(html)).toEqual([
+            'a = <span class="hljs-string">"one</span>',
+            '<span class="hljs-string">two"</span>;',
+            'b',
+        ]);
+    });
+
+    describe('with a loaded language', () => {
+        beforeAll(async () => {
+            await loadLanguage('javascript');
+        });
+
+        test('should highlight the code', () => {
+            expect(highlight('js', 'const a = 1;')).toContain('<span class="hljs-keyword">const</span>');
+        });
+
+        test('should highlight the language of a diff without its markers', () => {
+            const lines = highlightLines('javascript', '-const a = 1;\n+let a = 2;\n a++;', true);
+
+            expect(lines.map((line) => line.change)).toEqual(['removed', 'added', '']);
+            expect(lines[0].html).toBe('<span class="post-code__diff-marker">-</span><span class="hljs-keyword">const</span> a = <span class="hljs-number">1</span>;');
+            expect(lines[2].html).toContain('<span class="post-code__diff-marker"> </span>a++;');
+        });
+    });
+
+    test('should show code without highlighting until its language has been loaded', async () => {
+        const listener = jest.fn();
+        const removeListener = addLanguageLoadedListener(listener);
+
+        expect(highlight('ruby', 'puts "<b>"')).toBe('puts &quot;&lt;b&gt;&quot;');
+
+        await loadLanguage('ruby');
+        removeListener();
+
+        expect(listener).toHaveBeenCalledWith('ruby');
+        expect(highlight('ruby', 'puts "hi"')).toContain('hljs-string');
+    });
+
+    test('should not load unknown languages', async () => {
+        await expect(loadLanguage('garbage')).resolves.toBe(false);
+    });
+});
@@ -1,7 +1,7 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import hlJS from 'highlight.js';
+import hlJS from 'highlight.js/lib/core';
 
 import Constants from './constants';
 import * as TextFormatting from './text_formatting';
@@ -14,22 +14,144 @@ type LanguageObject = {
     };
 }
 
+export type CodeBlockInfo = {
+    language: string;
+
+    // diff is set for languages like diff-ts where each line starts with a +, - or space marker
+    diff: boolean;
+    highlightedLines: Array<[number, number]>;
+}
+
+export type CodeLine = {
+    html: string;
+    change: '' | 'added' | 'removed';
+}
+
 const HighlightedLanguages: LanguageObject = Constants.HighlightedLanguages;
 
+// Languages which are provided by a file in highlight.js/lib/languages that has a different name
+const LanguageFiles: Record<string, string> = {
+    cs: 'csharp',
+    text: 'plaintext',
+};
+
+const loadingLanguages = new Map<string, Promise<boolean>>();
+const languageLoadedListeners = new Set<(language: string) => void>();
+
+// loadLanguage registers a language with highlight.js the first time that it's needed so that the code for every
+// language doesn't need to be included in the main bundle. It resolves to false if the language isn't supported.
+export function loadLanguage(lang: string): Promise<boolean> {
+    const language = getLanguageFromNameOrAlias(lang);
+    if (!language) {
+        return Promise.resolve(false);
+    }
+
+    if (hlJS.getLanguage(language)) {
+        return Promise.resolve(true);
+    }
+
+    let loading = loadingLanguages.get(language);
+    if (!loading) {
+        const file = LanguageFiles[language] || language;
+
+        loading = import(/* webpackChunkName: "highlight.js-[request]" */ `highlight.js/lib/languages/${file}`).then((module) => {
+            hlJS.registerLanguage(language, module.default);
+            languageLoadedListeners.forEach((listener) => listener(language));
+
+            return true;
+        }).catch(() => {
+            // Allow loading the language to be retried later
+            loadingLanguages.delete(language);
+
+            return false;
+        });
+
+        loadingLanguages.set(language, loading);
+    }
+
+    return loading;
+}
+
+// addLanguageLoadedListener registers a callback for when a language finishes loading so that code which was shown
+// without highlighting can be rendered again. It returns a function to remove the listener.
+export function addLanguageLoadedListener(listener: (language: string) => void) {
+    languageLoadedListeners.add(listener);
+
+    return () => {
+        languageLoadedListeners.delete(listener);
+    };
+}
+
 export function highlight(lang: string, code: string) {
     const language = getLanguageFromNameOrAlias(lang);
 
-    if (language) {
+    if (language && hlJS.getLanguage(language)) {
         try {
             return hlJS.highlight(code, {language}).value;
         } catch (e) {
             // fall through if highlighting fails and handle below
         }
+    } else if (language) {
+        // Show the code without highlighting until the language has been loaded
+        loadLanguage(language);
     }
 
     return TextFormatting.sanitizeHtml(code);
 }
 
+// splitHighlightedLines splits the output of highlight into separate lines. Any spans which are open at the end of
+// a line, such as the ones for multiline strings or comments, are closed and then opened again on the next line.
+export function splitHighlightedLines(html: string) {
+    const lines = [];
+    const openTags: string[] = [];
+    let line = '';
+
+    for (const token of html.split(/(<span[^>]*>|<\/span>|\r\n|\n|\r)/)) {
+        if (token.startsWith('<span')) {
+            openTags.push(token);
+            line += token;
+        } else if (token === '</span>') {
+            openTags.pop();
+            line += token;
+        } else if (token === '\r\n' || token === '\n' || token === '\r') {
+            lines.push(line + '</span>'.repeat(openTags.length));
+            line = openTags.join('');
+        } else {
+            line += token;
+        }
+    }
+
+    lines.push(line);
+
+    return lines;
+}
+
+// highlightLines highlights the code and returns it split into lines. In diff mode, the marker at the start of each
+// line is removed before highlighting the rest of the code so that the language can still be highlighted.
+export function highlightLines(language: string, code: string, diff = false): CodeLine[] {
+    if (!diff) {
+        return splitHighlightedLines(highlight(language, code)).map((html) => ({html, change: ''}));
+    }
+
+    const lines = code.split(/\r\n|\n|\r/g);
+    const markers = lines.map((line) => ((/^[+\- ]/).test(line) ? line[0] : ''));
+    const highlighted = splitHighlightedLines(highlight(language, lines.map((line, i) => line.substring(markers[i].length)).join('\n')));
+
+    return highlighted.map((html, i) => {
+        let change: CodeLine['change'] = '';
+        if (markers[i] === '+') {
+            change = 'added';
+        } else if (markers[i] === '-') {
+            change = 'removed';
+        }
+
+        return {
+            html: markers[i] ? `<span class="post-code__diff-marker">${markers[i]}</span>${html}` : html,
+            change,
+        };
+    });
+}
+
 export function renderLineNumbers(code: string) {
     const numberOfLines = code.split(/\r\n|\n|\r/g).length;
     const lineNumbers = [];
@@ -40,6 +162,49 @@ export function renderLineNumbers(code: string) {
     return lineNumbers.join('\n');
 }
 
+// parseLineRanges parses a list of lines such as "1,3-7" into the ranges of lines which it contains.
+export function parseLineRanges(ranges: string): Array<[number, number]> {
+    const parsed: Array<[number, number]> = [];
+
+    for (const range of ranges.split(',')) {
+        const match = (/^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/).exec(range);
+        if (!match) {
+            continue;
+        }
+
+        const start = parseInt(match[1], 10);
+        const end = match[2] ? parseInt(match[2], 10) : start;
+
+        parsed.push([Math.min(start, end), Math.max(start, end)]);
+    }
+
+    return parsed;
+}
+
+export function isLineInRanges(line: number, ranges: Array<[number, number]>) {
+    return ranges.some(([start, end]) => line >= start && line <= end);
+}
+
+// parseCodeBlockInfo parses the info string which follows the opening fence of a code block, such as "ts {3-7}" or
+// "diff-python".
+export function parseCodeBlockInfo(info: string): CodeBlockInfo {
+    const match = (/^\s*([^\s{]*)\s*(?:\{([^}]*)\})?/).exec(info || '');
+
+    let language = match ? match[1].toLowerCase() : '';
+    let diff = false;
+
+    if (language.startsWith('diff-') && canHighlight(language.substring('diff-'.length))) {
+        language = language.substring('diff-'.length);
+        diff = true;
+    }
+
+    return {
+        language,
+        diff,
+        highlightedLines: match && match[2] ? parseLineRanges(match[2]) : [],
+    };
+}
+
 export function getLanguageFromFileExtension(extension: string): string | null {
     for (const key in HighlightedLanguages) {
         if (HighlightedLanguages[key].extensions.find((x: string) => x === extension)) {
@@ -325,6 +325,11 @@ describe('parseSearchTerms', () => {
             input: '-on:1970-01-01 someword "some phrase" -after:1970-01-01 -before: 1970-01-01',
             expected: ['someword', 'some phrase'],
         },
+        {
+            description: 'with file extension search flags',
+            input: 'ext:docx someword -ext:pdf "some phrase" ext: xlsx',
+            expected: ['someword', 'some phrase'],
+        },
     ];
 
     for (const t of tests) {
@@ -8,10 +8,13 @@ import emojiRegex from 'emoji-regex';
 
 import {Renderer} from 'marked';
 
+import type {MarkdownExtension} from 'plugins/registry_types';
+
 import {formatWithRenderer} from 'utils/markdown';
 
 import * as Emoticons from './emoticons';
 import * as Markdown from './markdown';
+import {getInlineMarkdownExtensions} from './markdown/extensions';
 
 import Constants from './constants';
 
@@ -177,6 +180,13 @@ interface TextFormattingOptionsBase {
      */
     minimumHashtagLength: number;
 
+    /**
+     * The extensions to the Markdown formatting of messages which plugins have registered.
+     *
+     * Defaults to none.
+     */
+    markdownExtensions: MarkdownExtension[];
+
     /**
      * the timestamp on which the post was last edited
      */
@@ -290,6 +300,9 @@ export function doFormatText(text: string, options: TextFormattingOptions, emoji
 
     const tokens = new Map();
 
+    // replace syntax added by plugins first so that it isn't broken up by other formatting
+    output = formatMarkdownExtensions(output, tokens, options.markdownExtensions);
+
     // replace important words and phrases with tokens
     if (options.atMentions) {
         output = autolinkAtMentions(output, tokens);
@@ -386,6 +399,40 @@ function autolinkEmails(text: string, tokens: Tokens) {
     return XRegExp.replace(text, reEmail, replaceEmailWithToken);
 }
 
+// Convert what the inline Markdown extensions registered by plugins match into tokens
+function formatMarkdownExtensions(text: string, tokens: Tokens, extensions?: MarkdownExtension[]) {
+    let output = text;
+
+    for (const extension of getInlineMarkdownExtensions(extensions)) {
+        const {source, flags} = extension.pattern;
+        const pattern = new RegExp(source, flags.includes('g') ? flags : flags + 'g');
+
+        let formatted = '';
+        let lastIndex = 0;
+        for (const match of output.matchAll(pattern)) {
+            const value = match[0] ? extension.render(match) : null;
+            if (!value) {
+                continue;
+            }
+
+            const index = tokens.size;
+            const alias = `$MM_PLUGIN${index}$`;
+
+            tokens.set(alias, {
+                value,
+                originalText: match[0],
+            });
+
+            formatted += output.substring(lastIndex, match.index) + alias;
+            lastIndex = (match.index || 0) + match[0].length;
+        }
+
+        output = formatted + output.substring(lastIndex);
+    }
+
+    return output;
+}
+
 export function autolinkAtMentions(text: string, tokens: Tokens): string {
     function replaceAtMentionWithToken(fullMatch: string, username: string) {
         let originalText = fullMatch;
@@ -716,7 +763,7 @@ export function parseSearchTerms(searchTerm: string): string[] {
         }
 
         // check for a search flag (and don't add it to terms)
-        captured = (/^-?(?:in|from|channel|on|before|after): ?\S+/).exec(termString);
+        captured = (/^-?(?:in|from|channel|on|before|after|ext): ?\S+/).exec(termString);
         if (captured) {
             termString = termString.substring(captured[0].length);
             continue;
@@ -732,7 +779,7 @@ export function parseSearchTerms(searchTerm: string): string[] {
         }
 
         // capture any plain text up until the next quote or search flag
-        captured = (/^.+?(?=(?:\b|\B-)(?:in:|from:|channel:|on:|before:|after:)|"|$)/).exec(termString);
+        captured = (/^.+?(?=(?:\b|\B-)(?:in:|from:|channel:|on:|before:|after:|ext:)|"|$)/).exec(termString);
         if (captured) {
             termString = termString.substring(captured[0].length);
 
@@ -761,7 +808,7 @@ export function parseSearchTerms(searchTerm: string): string[] {
     return terms;
 }
 
-function convertSearchTermToRegex(term: string): SearchPattern {
+export function convertSearchTermToRegex(term: string): SearchPattern {
     let pattern;
 
     if (cjkPattern.test(term)) {
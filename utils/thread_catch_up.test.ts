@@ -0,0 +1,104 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Post} from 'mattermost-redux/types/posts';
+import {DATE_LINE, START_OF_NEW_MESSAGES} from 'mattermost-redux/utils/post_list';
+
+import {PostListRowListIds} from 'utils/constants';
+
+import {addThreadCatchUp, getThreadCatchUp} from './thread_catch_up';
+
+describe('utils/thread_catch_up', () => {
+    function makeReply(id: string, userId: string, createAt: number) {
+        return {id, user_id: userId, create_at: createAt, props: {}} as Post;
+    }
+
+    describe('getThreadCatchUp', () => {
+        const replies = [
+            makeReply('reply5', 'user3', 5000),
+            makeReply('reply4', 'me', 4000),
+            makeReply('reply3', 'user2', 3000),
+            makeReply('reply2', 'user3', 2000),
+            makeReply('reply1', 'user1', 1000),
+        ];
+
+        test('should summarize the replies since the thread was last viewed', () => {
+            expect(getThreadCatchUp(replies, 1500, 'me')).toEqual({
+                newReplyCount: 3,
+                authorIds: ['user3', 'user2'],
+                firstUnreadPostId: 'reply2',
+                earlierReplyCount: 1,
+            });
+        });
+
+        test('should not count the current user\'s replies as new', () => {
+            expect(getThreadCatchUp(replies, 3500, 'me')).toEqual({
+                newReplyCount: 1,
+                authorIds: ['user3'],
+                firstUnreadPostId: 'reply5',
+                earlierReplyCount: 4,
+            });
+        });
+
+        test('should count webhook posts made by the current user as new', () => {
+            const webhookReply = {...makeReply('reply6', 'me', 6000), props: {from_webhook: 'true'}};
+
+            expect(getThreadCatchUp([webhookReply, ...replies], 5500, 'me')).toMatchObject({
+                newReplyCount: 1,
+                firstUnreadPostId: 'reply6',
+            });
+        });
+
+        test('should return null without new replies', () => {
+            expect(getThreadCatchUp(replies, 6000, 'me')).toBeNull();
+            expect(getThreadCatchUp([], 0, 'me')).toBeNull();
+        });
+    });
+
+    describe('addThreadCatchUp', () => {
+        const catchUp = {
+            newReplyCount: 1,
+            authorIds: ['user1'],
+            firstUnreadPostId: 'reply3',
+            earlierReplyCount: 2,
+        };
+
+        const replyListIds = [
+            'reply3',
+            START_OF_NEW_MESSAGES,
+            DATE_LINE + 2000,
+            'reply2',
+            'reply1',
+            'root',
+            DATE_LINE + 1000,
+        ];
+
+        test('should add the catch-up header right after the root post', () => {
+            expect(addThreadCatchUp(replyListIds, 'root', catchUp, false)).toEqual([
+                'reply3',
+                START_OF_NEW_MESSAGES,
+                DATE_LINE + 2000,
+                'reply2',
+                'reply1',
+                PostListRowListIds.THREAD_CATCH_UP,
+                'root',
+                DATE_LINE + 1000,
+            ]);
+        });
+
+        test('should collapse the earlier replies while keeping the separators above the first unread reply', () => {
+            expect(addThreadCatchUp(replyListIds, 'root', catchUp, true)).toEqual([
+                'reply3',
+                START_OF_NEW_MESSAGES,
+                DATE_LINE + 2000,
+                PostListRowListIds.THREAD_CATCH_UP,
+                'root',
+                DATE_LINE + 1000,
+            ]);
+        });
+
+        test('should leave the list unchanged when the first unread reply is not in it', () => {
+            expect(addThreadCatchUp(replyListIds, 'root', {...catchUp, firstUnreadPostId: 'missing'}, true)).toBe(replyListIds);
+        });
+    });
+});
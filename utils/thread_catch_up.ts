@@ -0,0 +1,76 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Post} from 'mattermost-redux/types/posts';
+import {UserProfile} from 'mattermost-redux/types/users';
+import {isDateLine, isStartOfNewMessages} from 'mattermost-redux/utils/post_list';
+
+import {PostListRowListIds} from 'utils/constants';
+import {isFromWebhook} from 'utils/post_utils';
+
+// Replies from before the first unread one are only collapsed when there are at least this many of them
+export const MIN_EARLIER_REPLIES_TO_COLLAPSE = 5;
+
+// ThreadCatchUp summarizes the replies to a thread which arrived since the user last viewed it.
+export type ThreadCatchUp = {
+    newReplyCount: number;
+
+    // authorIds are the users who posted the new replies in the order in which they first replied
+    authorIds: Array<UserProfile['id']>;
+    firstUnreadPostId: Post['id'];
+
+    // earlierReplyCount is the number of replies from before the first unread one
+    earlierReplyCount: number;
+};
+
+// getThreadCatchUp returns a summary of the replies which arrived since the thread was last viewed or null if there
+// aren't any. Like the new messages line, the user's own replies don't count as new. Replies are sorted newest first.
+export function getThreadCatchUp(replies: Post[], lastViewedAt: number, currentUserId: UserProfile['id']): ThreadCatchUp | null {
+    const oldestFirst = [...replies].reverse();
+
+    const firstUnreadIndex = oldestFirst.findIndex((post) => (
+        post.create_at >= lastViewedAt &&
+        (post.user_id !== currentUserId || isFromWebhook(post))
+    ));
+    if (firstUnreadIndex === -1) {
+        return null;
+    }
+
+    const newReplies = oldestFirst.slice(firstUnreadIndex).filter((post) => post.user_id !== currentUserId || isFromWebhook(post));
+
+    const authorIds: Array<UserProfile['id']> = [];
+    for (const post of newReplies) {
+        if (!authorIds.includes(post.user_id)) {
+            authorIds.push(post.user_id);
+        }
+    }
+
+    return {
+        newReplyCount: newReplies.length,
+        authorIds,
+        firstUnreadPostId: oldestFirst[firstUnreadIndex].id,
+        earlierReplyCount: firstUnreadIndex,
+    };
+}
+
+// addThreadCatchUp inserts the catch-up header between the root post and its replies in a list of IDs sorted newest
+// first, optionally replacing the replies from before the first unread one. The date and the new messages line right
+// above the first unread reply are kept.
+export function addThreadCatchUp(replyListIds: string[], rootId: Post['id'], catchUp: ThreadCatchUp, collapseEarlierReplies: boolean): string[] {
+    const rootIndex = replyListIds.indexOf(rootId);
+    const firstUnreadIndex = replyListIds.indexOf(catchUp.firstUnreadPostId);
+    if (rootIndex === -1 || firstUnreadIndex === -1 || firstUnreadIndex > rootIndex) {
+        return replyListIds;
+    }
+
+    if (!collapseEarlierReplies) {
+        return [...replyListIds.slice(0, rootIndex), PostListRowListIds.THREAD_CATCH_UP, ...replyListIds.slice(rootIndex)];
+    }
+
+    let earliestKeptIndex = firstUnreadIndex;
+    while (earliestKeptIndex + 1 < rootIndex && (isDateLine(replyListIds[earliestKeptIndex + 1]) || isStartOfNewMessages(replyListIds[earliestKeptIndex + 1]))) {
+        earliestKeptIndex++;
+    }
+
+    return [...replyListIds.slice(0, earliestKeptIndex + 1), PostListRowListIds.THREAD_CATCH_UP, ...replyListIds.slice(rootIndex)];
+}
@@ -0,0 +1,86 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {UserThread} from 'mattermost-redux/types/threads';
+
+import type {ThreadListFilter} from 'types/store/thread_views';
+
+import {
+    isThreadListFilterEmpty,
+    makeEmptyThreadListFilter,
+    matchesThreadListFilter,
+    parseSavedThreadViews,
+} from './thread_views';
+
+describe('utils/thread_views', () => {
+    const thread = {
+        id: 'thread1',
+        last_reply_at: 2000,
+        unread_mentions: 0,
+        participants: [{id: 'user2'}, {id: 'user3'}],
+        post: {
+            channel_id: 'channel1',
+            user_id: 'user1',
+        },
+    } as unknown as UserThread;
+
+    function makeFilter(changes: Partial<ThreadListFilter>) {
+        return {...makeEmptyThreadListFilter(), ...changes};
+    }
+
+    describe('isThreadListFilterEmpty', () => {
+        test('should be empty when nothing is filtered', () => {
+            expect(isThreadListFilterEmpty(makeEmptyThreadListFilter())).toBe(true);
+        });
+
+        test('should not be empty when any part is filtered', () => {
+            expect(isThreadListFilterEmpty(makeFilter({channelIds: ['channel1']}))).toBe(false);
+            expect(isThreadListFilterEmpty(makeFilter({mentionsOnly: true}))).toBe(false);
+            expect(isThreadListFilterEmpty(makeFilter({until: 1000}))).toBe(false);
+        });
+    });
+
+    describe('matchesThreadListFilter', () => {
+        test('should match every thread with an empty filter', () => {
+            expect(matchesThreadListFilter(thread, makeEmptyThreadListFilter(), false)).toBe(true);
+        });
+
+        test('should match the channel of the root post', () => {
+            expect(matchesThreadListFilter(thread, makeFilter({channelIds: ['channel2', 'channel1']}), false)).toBe(true);
+            expect(matchesThreadListFilter(thread, makeFilter({channelIds: ['channel2']}), false)).toBe(false);
+        });
+
+        test('should match the author of the root post and anyone who replied', () => {
+            expect(matchesThreadListFilter(thread, makeFilter({participantIds: ['user1']}), false)).toBe(true);
+            expect(matchesThreadListFilter(thread, makeFilter({participantIds: ['user4', 'user3']}), false)).toBe(true);
+            expect(matchesThreadListFilter(thread, makeFilter({participantIds: ['user4']}), false)).toBe(false);
+        });
+
+        test('should only match threads which mention the user when filtering by mentions', () => {
+            const filter = makeFilter({mentionsOnly: true});
+
+            expect(matchesThreadListFilter(thread, filter, false)).toBe(false);
+            expect(matchesThreadListFilter(thread, filter, true)).toBe(true);
+        });
+
+        test('should match the time of the last reply', () => {
+            expect(matchesThreadListFilter(thread, makeFilter({since: 1000, until: 2000}), false)).toBe(true);
+            expect(matchesThreadListFilter(thread, makeFilter({since: 2001}), false)).toBe(false);
+            expect(matchesThreadListFilter(thread, makeFilter({until: 1999}), false)).toBe(false);
+        });
+    });
+
+    describe('parseSavedThreadViews', () => {
+        test('should return no views for missing or invalid values', () => {
+            expect(parseSavedThreadViews('')).toEqual([]);
+            expect(parseSavedThreadViews('{')).toEqual([]);
+            expect(parseSavedThreadViews('{"id": "view1"}')).toEqual([]);
+        });
+
+        test('should parse saved views', () => {
+            const views = [{id: 'view1', name: 'Mentions', unreadOnly: true, filter: makeFilter({mentionsOnly: true})}];
+
+            expect(parseSavedThreadViews(JSON.stringify(views))).toEqual(views);
+        });
+    });
+});
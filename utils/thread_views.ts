@@ -0,0 +1,68 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {UserThread} from 'mattermost-redux/types/threads';
+
+import type {SavedThreadView, ThreadListFilter} from 'types/store/thread_views';
+
+export function makeEmptyThreadListFilter(): ThreadListFilter {
+    return {
+        channelIds: [],
+        participantIds: [],
+        mentionsOnly: false,
+        since: 0,
+        until: 0,
+    };
+}
+
+export function isThreadListFilterEmpty(filter: ThreadListFilter) {
+    return (
+        filter.channelIds.length === 0 &&
+        filter.participantIds.length === 0 &&
+        !filter.mentionsOnly &&
+        !filter.since &&
+        !filter.until
+    );
+}
+
+// matchesThreadListFilter returns true if the thread passes every part of the filter. A thread matches the participants
+// if any of them started it or replied to it. isMentioned tells whether the current user was mentioned in the thread.
+export function matchesThreadListFilter(thread: UserThread, filter: ThreadListFilter, isMentioned: boolean) {
+    if (filter.channelIds.length > 0 && !filter.channelIds.includes(thread.post.channel_id)) {
+        return false;
+    }
+
+    if (filter.participantIds.length > 0) {
+        const participantIds = [thread.post.user_id, ...(thread.participants || []).map((participant) => participant.id)];
+        if (!filter.participantIds.some((id) => participantIds.includes(id))) {
+            return false;
+        }
+    }
+
+    if (filter.mentionsOnly && !isMentioned) {
+        return false;
+    }
+
+    if (filter.since && thread.last_reply_at < filter.since) {
+        return false;
+    }
+
+    if (filter.until && thread.last_reply_at > filter.until) {
+        return false;
+    }
+
+    return true;
+}
+
+export function parseSavedThreadViews(value: string): SavedThreadView[] {
+    if (!value) {
+        return [];
+    }
+
+    try {
+        const views = JSON.parse(value);
+        return Array.isArray(views) ? views : [];
+    } catch {
+        return [];
+    }
+}
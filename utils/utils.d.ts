@@ -18,6 +18,7 @@ export function createSafeId(prop: string | {defaultMessage: string}): string;
 
 export function cmdOrCtrlPressed<E = React.KeyboardEvent>(e: E, allowAlt = false): boolean;
 export function isKeyPressed<E = React.KeyboardEvent>(e: E, key: Array<string | number>): booelan; // The type of key should ideally be [string, number]
+export function isShortcutPressed(e: KeyboardEvent | React.KeyboardEvent, actionId: string): boolean;
 
 export function isUnhandledLineBreakKeyCombo(e: React.KeyboardEvent): boolean;
 export function insertLineBreakFromKeyEvent(e: React.KeyboardEvent): string;
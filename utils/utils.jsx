@@ -56,11 +56,14 @@ import store from 'stores/redux_store.jsx';
 
 import {getCurrentLocale, getTranslations} from 'selectors/i18n';
 import {getIsMobileView} from 'selectors/views/browser';
+import {getShortcutBindings} from 'selectors/keyboard_shortcuts';
 
 import PurchaseLink from 'components/announcement_bar/purchase_link/purchase_link';
 import ContactUsButton from 'components/announcement_bar/contact_sales/contact_us';
 
 import {joinPrivateChannelPrompt} from './channel_utils';
+import * as Keyboard from './keyboard';
+import {matchesChord} from './keyboard_shortcuts';
 
 const CLICKABLE_ELEMENTS = [
     'a',
@@ -102,25 +105,20 @@ export function cmdOrCtrlPressed(e, allowAlt = false) {
     return (isMac() && e.metaKey) || (!isMac() && e.ctrlKey && !e.altKey);
 }
 
+// isKeyPressed lives in utils/keyboard so that modules which utils imports can use it too
 export function isKeyPressed(event, key) {
-    // There are two types of keyboards
-    // 1. English with different layouts(Ex: Dvorak)
-    // 2. Different language keyboards(Ex: Russian)
-
-    if (event.keyCode === Constants.KeyCodes.COMPOSING[1]) {
-        return false;
-    }
-
-    // checks for event.key for older browsers and also for the case of different English layout keyboards.
-    if (typeof event.key !== 'undefined' && event.key !== 'Unidentified' && event.key !== 'Dead') {
-        const isPressedByCode = event.key === key[0] || event.key === key[0].toUpperCase();
-        if (isPressedByCode) {
-            return true;
-        }
-    }
+    return Keyboard.isKeyPressed(event, key);
+}
 
-    // used for different language keyboards to detect the position of keys
-    return event.keyCode === key[1];
+/**
+ * check keydown event for the chord which the user has bound to a keyboard shortcut action
+ * @param  {object}  event - keydown event
+ * @param  {string}  actionId - one of ShortcutActionIds or the ID of a shortcut registered by a plugin
+ * @return {boolean}
+ */
+export function isShortcutPressed(event, actionId) {
+    const chord = getShortcutBindings(store.getState())[actionId];
+    return Boolean(chord) && matchesChord(event, chord);
 }
 
 /**